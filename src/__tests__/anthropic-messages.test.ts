@@ -0,0 +1,306 @@
+jest.mock('../data-source', () => ({
+  AppDataSource: {
+    getRepository: () => {
+      throw new Error('Unexpected repository')
+    },
+  },
+}))
+jest.mock('../services/credit-reservation.service', () => ({
+  ...jest.requireActual('../services/credit-reservation.service'),
+  reserveCredits: jest.fn(),
+}))
+jest.mock('../services/rate-limit-policy.service', () => ({
+  recordTokenUsage: jest.fn(),
+}))
+jest.mock('../services/model-registry.service', () => ({
+  ...jest.requireActual('../services/model-registry.service'),
+  findEnabledModel: jest.fn(),
+}))
+
+import {
+  validateMessagesRequest,
+  toChatCompletionRequest,
+  toAnthropicMessage,
+  toStopReason,
+  AnthropicStreamWriter,
+} from '../utils/anthropic-messages'
+import { toAnthropicErrorBody, anthropicErrorType } from '../utils/anthropic-error'
+import { ChatStreamAssembler } from '../utils/tool-calls'
+import { prepareChatCompletion, ApiUser } from '../services/chat-completion.service'
+import { reserveCredits } from '../services/credit-reservation.service'
+import { findEnabledModel, DEFAULT_MODELS } from '../services/model-registry.service'
+import { AiModel } from '../entities'
+
+const mockReserveCredits = reserveCredits as jest.Mock
+const mockFindEnabledModel = findEnabledModel as jest.Mock
+
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  input_schema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+}
+
+const baseRequest = {
+  model: 'claude-sonnet-4-5',
+  max_tokens: 1024,
+  messages: [{ role: 'user', content: 'Hello' }],
+}
+
+// Parse "event: x\ndata: {...}\n\n" frames
+const parseEvents = (raw: string) => raw.trim().split('\n\n').map((frame) => {
+  const [event, data] = frame.split('\n')
+  return { event: event.slice(7), data: JSON.parse(data.slice(6)) }
+})
+
+describe('Anthropic Messages', () => {
+  describe('validateMessagesRequest', () => {
+    it('should accept a minimal request', () => {
+      expect(validateMessagesRequest(baseRequest)).toBeNull()
+    })
+
+    it('should require model, max_tokens and messages', () => {
+      expect(validateMessagesRequest({ ...baseRequest, model: undefined })?.param).toBe('model')
+      expect(validateMessagesRequest({ ...baseRequest, max_tokens: 0 })?.param).toBe('max_tokens')
+      expect(validateMessagesRequest({ ...baseRequest, messages: [] })?.param).toBe('messages')
+    })
+
+    it('should reject system messages and unknown blocks', () => {
+      expect(validateMessagesRequest({
+        ...baseRequest,
+        messages: [{ role: 'system', content: 'Be brief' }],
+      })?.param).toBe('messages.0.role')
+      expect(validateMessagesRequest({
+        ...baseRequest,
+        messages: [{ role: 'assistant', content: [{ type: 'tool_result', tool_use_id: 'x' }] }],
+      })?.param).toBe('messages.0.content.0.type')
+    })
+
+    it('should validate image sources, tools and tool_choice', () => {
+      expect(validateMessagesRequest({
+        ...baseRequest,
+        messages: [{ role: 'user', content: [{ type: 'image', source: { type: 'base64', media_type: 'text/html', data: 'x' } }] }],
+      })?.param).toBe('messages.0.content.0.source.media_type')
+      expect(validateMessagesRequest({ ...baseRequest, tools: [{ name: 'f' }] })?.param).toBe('tools.0.input_schema')
+      expect(validateMessagesRequest({ ...baseRequest, tool_choice: { type: 'tool' } })?.param).toBe('tool_choice.name')
+      expect(validateMessagesRequest({ ...baseRequest, stop_sequences: 'END' })?.param).toBe('stop_sequences')
+    })
+  })
+
+  describe('credit hold', () => {
+    const apiUser = { userId: 'user-1', apiKeyId: 'key-1', organizationId: null, user: {} } as unknown as ApiUser
+
+    beforeEach(() => {
+      mockFindEnabledModel.mockResolvedValue({ ...DEFAULT_MODELS.find((m) => m.modelId === 'claude-3.5-sonnet') } as AiModel)
+      mockReserveCredits.mockResolvedValue({ id: 'res-1' })
+    })
+
+    it('should hold the prompt plus max_tokens, down to the default allowance', async () => {
+      const prepared = await prepareChatCompletion({
+        apiUser,
+        body: toChatCompletionRequest({ ...baseRequest, max_tokens: 6000 }),
+        format: 'anthropic',
+      })
+
+      expect(mockReserveCredits).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'api_chat',
+        amount: prepared.inputTokens + 6000,
+        minAmount: prepared.inputTokens + 256,
+      }))
+    })
+  })
+
+  describe('toChatCompletionRequest', () => {
+    it('should translate system, sampling options and metadata', () => {
+      const body = toChatCompletionRequest({
+        ...baseRequest,
+        system: [{ type: 'text', text: 'Be brief' }],
+        stop_sequences: ['END'],
+        temperature: 0.2,
+        top_k: 40,
+        metadata: { user_id: 'user-42' },
+        agent: 'coder',
+      })
+
+      expect(body).toEqual({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 1024,
+        messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hello' }],
+        stop: ['END'],
+        temperature: 0.2,
+        user: 'user-42',
+        agent: 'coder',
+      })
+    })
+
+    it('should translate images to image_url parts', () => {
+      const body = toChatCompletionRequest({
+        ...baseRequest,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+          ],
+        }],
+      })
+
+      expect(body.messages[0].content).toEqual([
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+      ])
+    })
+
+    it('should translate tool use and tool results to tool calls and tool messages', () => {
+      const body = toChatCompletionRequest({
+        ...baseRequest,
+        messages: [
+          { role: 'user', content: 'Weather in Hanoi?' },
+          {
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Hanoi' } }],
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Timeout' }], is_error: true },
+              { type: 'text', text: 'Try again' },
+            ],
+          },
+        ],
+        tools: [weatherTool],
+        tool_choice: { type: 'any', disable_parallel_tool_use: true },
+      })
+
+      expect(body.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Hanoi"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'toolu_1', content: 'Error: Timeout' },
+        { role: 'user', content: 'Try again' },
+      ])
+      expect(body.tools).toEqual([{
+        type: 'function',
+        function: { name: 'get_weather', description: weatherTool.description, parameters: weatherTool.input_schema },
+      }])
+      expect(body.tool_choice).toBe('required')
+      expect(body.parallel_tool_calls).toBe(false)
+    })
+
+    it('should translate a named tool_choice', () => {
+      const body = toChatCompletionRequest({ ...baseRequest, tools: [weatherTool], tool_choice: { type: 'tool', name: 'get_weather' } })
+      expect(body.tool_choice).toEqual({ type: 'function', function: { name: 'get_weather' } })
+    })
+  })
+
+  describe('toAnthropicMessage', () => {
+    it('should translate text, tool calls and the finish reason', () => {
+      const message = toAnthropicMessage({
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Checking',
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Hanoi"}' } }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+      }, 'claude-sonnet-4-5', { input_tokens: 12, output_tokens: 7 })
+
+      expect(message).toMatchObject({
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [
+          { type: 'text', text: 'Checking' },
+          { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Hanoi' } },
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 12, output_tokens: 7 },
+      })
+      expect(message.id).toMatch(/^msg_[0-9a-f]{24}$/)
+    })
+
+    it('should map finish reasons to stop reasons', () => {
+      expect(toStopReason('stop')).toBe('end_turn')
+      expect(toStopReason('length')).toBe('max_tokens')
+      expect(toStopReason('content_filter')).toBe('refusal')
+      expect(toStopReason(null)).toBeNull()
+    })
+  })
+
+  describe('AnthropicStreamWriter', () => {
+    it('should emit the Messages event sequence for text and tool calls', () => {
+      let raw = ''
+      const assembler = new ChatStreamAssembler()
+      const writer = new AnthropicStreamWriter((chunk) => { raw += chunk }, { model: 'gpt-4o', inputTokens: 20, id: 'msg_1' })
+      const push = (chunk: { choices: unknown[] }) => {
+        assembler.push(chunk)
+        writer.push(chunk)
+      }
+
+      writer.start()
+      push({ choices: [{ index: 0, delta: { content: 'Let me check' } }] })
+      push({ choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"ci' } }] } }] })
+      push({ choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"Hanoi"}' } }] } }] })
+      push({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })
+      writer.finish(9)
+
+      const events = parseEvents(raw)
+      expect(events.map((e) => e.event)).toEqual([
+        'message_start',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_stop',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_delta',
+        'content_block_stop',
+        'message_delta',
+        'message_stop',
+      ])
+      expect(events[0].data.message).toMatchObject({ id: 'msg_1', model: 'gpt-4o', content: [], usage: { input_tokens: 20, output_tokens: 0 } })
+      expect(events[2].data.delta).toEqual({ type: 'text_delta', text: 'Let me check' })
+      expect(events[4].data).toEqual({
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'call_1', name: 'get_weather', input: {} },
+      })
+      expect(events[6].data.delta).toEqual({ type: 'input_json_delta', partial_json: 'ty":"Hanoi"}' })
+      // stop with tool calls is normalised to tool_calls by the assembler
+      expect(events[8].data).toEqual({
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use', stop_sequence: null },
+        usage: { output_tokens: 9 },
+      })
+    })
+
+    it('should emit an error event', () => {
+      let raw = ''
+      const writer = new AnthropicStreamWriter((chunk) => { raw += chunk }, { model: 'gpt-4o', inputTokens: 1 })
+      writer.error('Stream failed')
+      expect(parseEvents(raw)).toEqual([
+        { event: 'error', data: { type: 'error', error: { type: 'api_error', message: 'Stream failed' } } },
+      ])
+    })
+  })
+
+  describe('errors', () => {
+    it('should convert OpenAI and repo error bodies', () => {
+      expect(toAnthropicErrorBody(429, { error: { message: 'Slow down', type: 'requests', code: 'rate_limit_exceeded' } }))
+        .toEqual({ type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } })
+      expect(toAnthropicErrorBody(401, { success: false, error: 'Invalid API key' }))
+        .toEqual({ type: 'error', error: { type: 'authentication_error', message: 'Invalid API key' } })
+      expect(toAnthropicErrorBody(400, { type: 'error', error: { type: 'invalid_request_error', message: 'x' } })).toBeNull()
+    })
+
+    it('should map statuses to error types', () => {
+      expect(anthropicErrorType(400)).toBe('invalid_request_error')
+      expect(anthropicErrorType(402)).toBe('billing_error')
+      expect(anthropicErrorType(404)).toBe('not_found_error')
+      expect(anthropicErrorType(502)).toBe('api_error')
+    })
+  })
+})
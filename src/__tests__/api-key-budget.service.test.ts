@@ -0,0 +1,77 @@
+import 'reflect-metadata'
+
+jest.mock('../data-source', () => ({
+  AppDataSource: {
+    getRepository: () => {
+      throw new Error('Unexpected repository')
+    },
+  },
+}))
+
+import { getPeriodStart, hasBudget, evaluateKeyBudget, KeySpend } from '../services/api-key-budget.service'
+import { ApiKey } from '../entities'
+
+const makeKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: 'key-1',
+  name: 'Batch worker',
+  dailyTokenLimit: null,
+  monthlyTokenLimit: null,
+  dailyUsdLimit: null,
+  monthlyUsdLimit: null,
+  budgetWarningPercent: null,
+  ...overrides,
+} as ApiKey)
+
+const spend = (daily: KeySpend, monthly: KeySpend = daily) => ({ daily, monthly })
+
+describe('API Key Budget Service', () => {
+  describe('getPeriodStart', () => {
+    it('should start days and months at UTC midnight', () => {
+      const now = new Date('2026-03-15T23:30:00+07:00')
+
+      expect(getPeriodStart('daily', now).toISOString()).toBe('2026-03-15T00:00:00.000Z')
+      expect(getPeriodStart('monthly', now).toISOString()).toBe('2026-03-01T00:00:00.000Z')
+    })
+  })
+
+  describe('hasBudget', () => {
+    it('should only be true when a cap is set', () => {
+      expect(hasBudget(makeKey())).toBe(false)
+      expect(hasBudget(makeKey({ budgetWarningPercent: 80 }))).toBe(false)
+      expect(hasBudget(makeKey({ monthlyUsdLimit: 5 }))).toBe(true)
+    })
+  })
+
+  describe('evaluateKeyBudget', () => {
+    it('should report the first cap that is reached', () => {
+      const key = makeKey({ dailyTokenLimit: 1000, monthlyUsdLimit: 10 })
+
+      const check = evaluateKeyBudget(key, spend({ tokens: 1000, usd: 1 }, { tokens: 5000, usd: 12 }))
+
+      expect(check.exceeded).toEqual({ period: 'daily', metric: 'tokens', used: 1000, limit: 1000 })
+    })
+
+    it('should pass spend under every cap', () => {
+      const key = makeKey({ dailyTokenLimit: 1000, monthlyUsdLimit: 10 })
+
+      const check = evaluateKeyBudget(key, spend({ tokens: 999, usd: 9.99 }))
+
+      expect(check).toEqual({ exceeded: null, warnings: [] })
+    })
+
+    it('should warn past the soft threshold', () => {
+      const key = makeKey({ monthlyUsdLimit: 10, budgetWarningPercent: 80 })
+
+      expect(evaluateKeyBudget(key, spend({ tokens: 0, usd: 7.9 })).warnings).toEqual([])
+      expect(evaluateKeyBudget(key, spend({ tokens: 0, usd: 8 })).warnings).toEqual([
+        { period: 'monthly', metric: 'usd', used: 8, limit: 10 },
+      ])
+    })
+
+    it('should read decimal and bigint columns returned as strings', () => {
+      const key = makeKey({ dailyUsdLimit: '2.5000' as unknown as number })
+
+      expect(evaluateKeyBudget(key, spend({ tokens: 0, usd: 2.5 })).exceeded?.limit).toBe(2.5)
+    })
+  })
+})
@@ -0,0 +1,263 @@
+import 'reflect-metadata'
+import { Response, NextFunction } from 'express'
+
+// Mock the data source - the middleware looks up the key and its owner
+const mockApiKeyRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+}
+const mockUserRepo = {
+  findOne: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { ApiKey, User } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === ApiKey) return mockApiKeyRepo
+        if (entity === User) return mockUserRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
+const mockCheckKeyBudget = jest.fn()
+const mockSendBudgetWarnings = jest.fn()
+jest.mock('../services/api-key-budget.service', () => ({
+  ...jest.requireActual('../services/api-key-budget.service'),
+  checkKeyBudget: (...args: unknown[]) => mockCheckKeyBudget(...args),
+  sendBudgetWarnings: (...args: unknown[]) => mockSendBudgetWarnings(...args),
+}))
+
+import { apiKeyMiddleware, requireApiScope, hashApiKey, ApiKeyRequest } from '../middlewares/apikey.middleware'
+import { ApiKey, User, API_KEY_SCOPES } from '../entities'
+
+const mockResponse = (): Response => {
+  const res: Partial<Response> = {}
+  res.status = jest.fn().mockReturnValue(res)
+  res.json = jest.fn().mockReturnValue(res)
+  return res as Response
+}
+
+const makeKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: 'key-1',
+  userId: 'user-1',
+  name: 'Test key',
+  isActive: true,
+  scopes: [...API_KEY_SCOPES],
+  expiresAt: null,
+  allowedIps: null,
+  allowedModels: null,
+  ...overrides,
+} as ApiKey)
+
+const makeRequest = (overrides: Partial<ApiKeyRequest> = {}): ApiKeyRequest => ({
+  headers: { authorization: 'Bearer sk_test' },
+  path: '/v1/chat/completions',
+  ip: '203.0.113.7',
+  params: {},
+  body: {},
+  ...overrides,
+} as ApiKeyRequest)
+
+const errorCode = (res: Response) => (res.json as jest.Mock).mock.calls[0][0].error.code
+
+describe('API Key Middleware', () => {
+  beforeEach(() => {
+    mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', isActive: true })
+    mockApiKeyRepo.update.mockResolvedValue({ affected: 1 })
+    mockSendBudgetWarnings.mockResolvedValue(undefined)
+  })
+
+  describe('apiKeyMiddleware', () => {
+    it('should attach the key permissions to the request', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({ allowedModels: ['gpt-4o'] }))
+      const req = makeRequest()
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(req, mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+      expect(req.apiUser).toMatchObject({ apiKeyId: 'key-1', scopes: API_KEY_SCOPES, allowedModels: ['gpt-4o'] })
+    })
+
+    it('should only write lastUsedAt so a concurrent rotation is kept', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({ keyHash: hashApiKey('sk_test') }))
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest(), mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+      expect(mockApiKeyRepo.update).toHaveBeenCalledWith('key-1', { lastUsedAt: expect.any(Date) })
+    })
+
+    it('should accept the key in the x-api-key header', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey())
+      const req = makeRequest({ headers: { 'x-api-key': 'sk_test' } })
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(req, mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+      expect(req.apiUser).toMatchObject({ apiKeyId: 'key-1' })
+    })
+
+    it('should reject a request without any API key', async () => {
+      const res = mockResponse()
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest({ headers: {} }), res, next)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+      expect(mockApiKeyRepo.findOne).not.toHaveBeenCalled()
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should accept a rotated-out secret and track its use separately', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({
+        keyHash: 'hash-of-the-new-secret',
+        previousKeyHash: 'hash-of-sk_test',
+        previousKeyExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        lastUsedAt: null,
+      }))
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest(), mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+      const where = mockApiKeyRepo.findOne.mock.calls[0][0].where
+      expect(where).toHaveLength(2)
+      expect(where[1]).toHaveProperty('previousKeyExpiresAt')
+      expect(mockApiKeyRepo.update).toHaveBeenCalledWith('key-1', { previousKeyLastUsedAt: expect.any(Date) })
+    })
+
+    it('should reject an expired key with 403', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({ expiresAt: new Date(Date.now() - 1000) }))
+      const res = mockResponse()
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest(), res, next)
+
+      expect(res.status).toHaveBeenCalledWith(403)
+      expect(errorCode(res)).toBe('api_key_expired')
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should reject a client outside the IP allowlist', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({ allowedIps: ['10.0.0.0/8'] }))
+      const res = mockResponse()
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest(), res, next)
+
+      expect(res.status).toHaveBeenCalledWith(403)
+      expect(errorCode(res)).toBe('ip_not_allowed')
+    })
+
+    it('should accept a client inside the IP allowlist', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({ allowedIps: ['203.0.113.0/24'] }))
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest(), mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+    })
+
+    it('should reject a key over its spend cap with 429', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({ dailyUsdLimit: 5 }))
+      mockCheckKeyBudget.mockResolvedValue({
+        exceeded: { period: 'daily', metric: 'usd', used: 5.2, limit: 5 },
+        warnings: [],
+      })
+      const res = mockResponse()
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest(), res, next)
+
+      expect(res.status).toHaveBeenCalledWith(429)
+      expect(errorCode(res)).toBe('api_key_budget_exceeded')
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should send a warning and continue past the soft threshold', async () => {
+      const warning = { period: 'monthly', metric: 'tokens', used: 850, limit: 1000 }
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey({ monthlyTokenLimit: 1000, budgetWarningPercent: 80 }))
+      mockCheckKeyBudget.mockResolvedValue({ exceeded: null, warnings: [warning] })
+      const next: NextFunction = jest.fn()
+
+      await apiKeyMiddleware(makeRequest(), mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+      expect(mockSendBudgetWarnings).toHaveBeenCalledWith(expect.objectContaining({ id: 'key-1' }), expect.anything(), [warning])
+    })
+
+    it('should skip budget lookups for uncapped keys', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue(makeKey())
+
+      await apiKeyMiddleware(makeRequest(), mockResponse(), jest.fn())
+
+      expect(mockCheckKeyBudget).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('requireApiScope', () => {
+    const withKey = (key: Partial<ApiKey>, overrides: Partial<ApiKeyRequest> = {}) =>
+      makeRequest({
+        apiUser: {
+          userId: 'user-1',
+          user: {} as User,
+          apiKeyId: 'key-1',
+          organizationId: null,
+          scopes: key.scopes ?? [...API_KEY_SCOPES],
+          allowedModels: key.allowedModels ?? null,
+        },
+        ...overrides,
+      })
+
+    it('should reject a key without the scope', () => {
+      const res = mockResponse()
+      const next: NextFunction = jest.fn()
+
+      requireApiScope('images:write')(withKey({ scopes: ['chat:write'] }), res, next)
+
+      expect(res.status).toHaveBeenCalledWith(403)
+      expect(errorCode(res)).toBe('insufficient_scope')
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should accept any one of several scopes', () => {
+      const next: NextFunction = jest.fn()
+      requireApiScope(['chat:write', 'images:write'])(withKey({ scopes: ['images:write'] }), mockResponse(), next)
+      expect(next).toHaveBeenCalled()
+
+      const res = mockResponse()
+      const denied: NextFunction = jest.fn()
+      requireApiScope(['chat:write', 'images:write'])(withKey({ scopes: ['models:read'] }), res, denied)
+      expect(res.status).toHaveBeenCalledWith(403)
+      expect(errorCode(res)).toBe('insufficient_scope')
+      expect(denied).not.toHaveBeenCalled()
+    })
+
+    it('should reject a model outside the key allowlist', () => {
+      const res = mockResponse()
+      const next: NextFunction = jest.fn()
+      const req = withKey({ allowedModels: ['gpt-4o'] }, { body: { model: 'gemini-2.5-pro' } })
+
+      requireApiScope('chat:write', (r) => r.body.model)(req, res, next)
+
+      expect(res.status).toHaveBeenCalledWith(403)
+      expect(errorCode(res)).toBe('model_not_allowed')
+    })
+
+    it('should pass an allowed model', () => {
+      const next: NextFunction = jest.fn()
+      const req = withKey({ allowedModels: ['gpt-4o'] }, { body: { model: 'gpt-4o' } })
+
+      requireApiScope('chat:write', (r) => r.body.model)(req, mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+    })
+  })
+})
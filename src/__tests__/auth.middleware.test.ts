@@ -1,4 +1,27 @@
-import { Request, Response, NextFunction } from 'express'
+import 'reflect-metadata'
+import { Response, NextFunction } from 'express'
+
+// Mock the data source - the middleware checks the user and session behind each token
+const mockUserRepo = {
+  findOne: jest.fn(),
+}
+const mockSessionRepo = {
+  findOne: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { User, Session } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === User) return mockUserRepo
+        if (entity === Session) return mockSessionRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
 import { authMiddleware, optionalAuthMiddleware, AuthRequest } from '../middlewares/auth.middleware'
 import { signToken } from '../utils/jwt'
 
@@ -20,8 +43,13 @@ describe('Auth Middleware', () => {
     role: 'user' as const,
   }
 
+  beforeEach(() => {
+    mockUserRepo.findOne.mockResolvedValue({ id: testPayload.userId, role: 'user', isActive: true, tokenVersion: 0 })
+    mockSessionRepo.findOne.mockResolvedValue({ id: 'session-1', revokedAt: null, expiresAt: new Date(Date.now() + 60 * 60 * 1000) })
+  })
+
   describe('authMiddleware', () => {
-    it('should pass with valid Bearer token', () => {
+    it('should pass with valid Bearer token', async () => {
       const token = signToken(testPayload)
       const req = {
         headers: { authorization: `Bearer ${token}` },
@@ -30,7 +58,7 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      authMiddleware(req, res, next)
+      await authMiddleware(req, res, next)
 
       expect(next).toHaveBeenCalled()
       expect(req.user).toBeDefined()
@@ -38,7 +66,7 @@ describe('Auth Middleware', () => {
       expect(req.user?.email).toBe(testPayload.email)
     })
 
-    it('should return 401 when no authorization header', () => {
+    it('should return 401 when no authorization header', async () => {
       const req = {
         headers: {},
         path: '/test',
@@ -46,7 +74,7 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      authMiddleware(req, res, next)
+      await authMiddleware(req, res, next)
 
       expect(res.status).toHaveBeenCalledWith(401)
       expect(res.json).toHaveBeenCalledWith({
@@ -56,7 +84,7 @@ describe('Auth Middleware', () => {
       expect(next).not.toHaveBeenCalled()
     })
 
-    it('should return 401 when authorization header is not Bearer', () => {
+    it('should return 401 when authorization header is not Bearer', async () => {
       const req = {
         headers: { authorization: 'Basic some-credentials' },
         path: '/test',
@@ -64,7 +92,7 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      authMiddleware(req, res, next)
+      await authMiddleware(req, res, next)
 
       expect(res.status).toHaveBeenCalledWith(401)
       expect(res.json).toHaveBeenCalledWith({
@@ -73,7 +101,7 @@ describe('Auth Middleware', () => {
       })
     })
 
-    it('should return 401 with invalid token', () => {
+    it('should return 401 with invalid token', async () => {
       const req = {
         headers: { authorization: 'Bearer invalid-token' },
         path: '/test',
@@ -81,7 +109,7 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      authMiddleware(req, res, next)
+      await authMiddleware(req, res, next)
 
       expect(res.status).toHaveBeenCalledWith(401)
       expect(next).not.toHaveBeenCalled()
@@ -97,13 +125,13 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      authMiddleware(req, res, next)
+      await authMiddleware(req, res, next)
 
       expect(res.status).toHaveBeenCalledWith(401)
       expect(next).not.toHaveBeenCalled()
     })
 
-    it('should return 401 when Bearer is empty', () => {
+    it('should return 401 when Bearer is empty', async () => {
       const req = {
         headers: { authorization: 'Bearer ' },
         path: '/test',
@@ -111,15 +139,76 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      authMiddleware(req, res, next)
+      await authMiddleware(req, res, next)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+      expect(next).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('token revocation', () => {
+    const requestWith = (token: string) => ({
+      headers: { authorization: `Bearer ${token}` },
+      path: '/test',
+    } as AuthRequest)
+
+    it('should reject a token issued before the user tokenVersion was bumped', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: testPayload.userId, role: 'user', isActive: true, tokenVersion: 1 })
+      const res = mockResponse()
+      const next = mockNext()
+
+      await authMiddleware(requestWith(signToken({ ...testPayload, ver: 0 })), res, next)
 
       expect(res.status).toHaveBeenCalledWith(401)
       expect(next).not.toHaveBeenCalled()
     })
+
+    it('should reject a token whose session was revoked', async () => {
+      mockSessionRepo.findOne.mockResolvedValue({ id: 'session-1', revokedAt: new Date(), expiresAt: new Date(Date.now() + 60 * 60 * 1000) })
+      const res = mockResponse()
+      const next = mockNext()
+
+      await authMiddleware(requestWith(signToken({ ...testPayload, sid: 'session-1', ver: 0 })), res, next)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should reject a token of a deactivated user', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: testPayload.userId, role: 'user', isActive: false, tokenVersion: 0 })
+      const res = mockResponse()
+      const next = mockNext()
+
+      await authMiddleware(requestWith(signToken(testPayload)), res, next)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+    })
+
+    it('should use the role stored now rather than the role in the token', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: testPayload.userId, role: 'user', isActive: true, tokenVersion: 0 })
+      const req = requestWith(signToken({ ...testPayload, role: 'admin' }))
+      const next = mockNext()
+
+      await authMiddleware(req, mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+      expect(req.user?.role).toBe('user')
+    })
+
+    it('should not attach a revoked token user in optional auth', async () => {
+      mockSessionRepo.findOne.mockResolvedValue(null)
+      const req = requestWith(signToken({ ...testPayload, sid: 'session-gone' }))
+      const next = mockNext()
+
+      await optionalAuthMiddleware(req, mockResponse(), next)
+
+      expect(next).toHaveBeenCalled()
+      expect(req.user).toBeUndefined()
+    })
   })
 
   describe('optionalAuthMiddleware', () => {
-    it('should pass with valid token and attach user', () => {
+    it('should pass with valid token and attach user', async () => {
       const token = signToken(testPayload)
       const req = {
         headers: { authorization: `Bearer ${token}` },
@@ -128,14 +217,14 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      optionalAuthMiddleware(req, res, next)
+      await optionalAuthMiddleware(req, res, next)
 
       expect(next).toHaveBeenCalled()
       expect(req.user).toBeDefined()
       expect(req.user?.userId).toBe(testPayload.userId)
     })
 
-    it('should pass without token and not attach user', () => {
+    it('should pass without token and not attach user', async () => {
       const req = {
         headers: {},
         path: '/test',
@@ -143,13 +232,13 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      optionalAuthMiddleware(req, res, next)
+      await optionalAuthMiddleware(req, res, next)
 
       expect(next).toHaveBeenCalled()
       expect(req.user).toBeUndefined()
     })
 
-    it('should pass with invalid token and not attach user', () => {
+    it('should pass with invalid token and not attach user', async () => {
       const req = {
         headers: { authorization: 'Bearer invalid-token' },
         path: '/test',
@@ -157,13 +246,13 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      optionalAuthMiddleware(req, res, next)
+      await optionalAuthMiddleware(req, res, next)
 
       expect(next).toHaveBeenCalled()
       expect(req.user).toBeUndefined()
     })
 
-    it('should pass with non-Bearer authorization and not attach user', () => {
+    it('should pass with non-Bearer authorization and not attach user', async () => {
       const req = {
         headers: { authorization: 'Basic credentials' },
         path: '/test',
@@ -171,7 +260,7 @@ describe('Auth Middleware', () => {
       const res = mockResponse()
       const next = mockNext()
 
-      optionalAuthMiddleware(req, res, next)
+      await optionalAuthMiddleware(req, res, next)
 
       expect(next).toHaveBeenCalled()
       expect(req.user).toBeUndefined()
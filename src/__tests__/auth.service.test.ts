@@ -0,0 +1,356 @@
+import 'reflect-metadata'
+import bcrypt from 'bcryptjs'
+
+// Mock the repositories and side-effecting services used by the login and password flows
+const mockUserRepository = {
+  findByEmail: jest.fn(),
+  findById: jest.fn(),
+  save: jest.fn(),
+  update: jest.fn(),
+  create: jest.fn(),
+}
+const mockIdentityRepository = {
+  findByProviderSubject: jest.fn(),
+  findByUserAndProvider: jest.fn(),
+  countByUserId: jest.fn(),
+  touchLogin: jest.fn(),
+  create: jest.fn(),
+  delete: jest.fn(),
+}
+const mockVerificationRepository = {
+  findByUserId: jest.fn(),
+  createVerification: jest.fn(),
+  deleteByUserId: jest.fn(),
+  claimAttempt: jest.fn(),
+}
+const mockRevokeAllSessions = jest.fn()
+const mockBumpTokenVersion = jest.fn()
+const mockCreateSession = jest.fn()
+const mockSendPasswordResetEmail = jest.fn()
+const mockSendPasswordChangedEmail = jest.fn()
+const mockVerifySecondFactor = jest.fn()
+const mockGrantWelcomeBonus = jest.fn()
+const mockSendVerificationEmail = jest.fn()
+
+jest.mock('../repositories/user.repository', () => ({
+  userRepository: mockUserRepository,
+}))
+jest.mock('../repositories/user-identity.repository', () => ({
+  userIdentityRepository: mockIdentityRepository,
+}))
+jest.mock('../repositories/email-verification.repository', () => ({
+  emailVerificationRepository: mockVerificationRepository,
+}))
+jest.mock('../services/session.service', () => ({
+  revokeAllSessions: (...args: unknown[]) => mockRevokeAllSessions(...args),
+  bumpTokenVersion: (...args: unknown[]) => mockBumpTokenVersion(...args),
+  createSession: (...args: unknown[]) => mockCreateSession(...args),
+}))
+jest.mock('../services/two-factor.service', () => ({
+  verifySecondFactor: (...args: unknown[]) => mockVerifySecondFactor(...args),
+}))
+jest.mock('../services/email.service', () => ({
+  generateVerificationCode: () => '123456',
+  sendVerificationEmail: (...args: unknown[]) => mockSendVerificationEmail(...args),
+  sendPasswordResetEmail: (...args: unknown[]) => mockSendPasswordResetEmail(...args),
+  sendPasswordChangedEmail: (...args: unknown[]) => mockSendPasswordChangedEmail(...args),
+}))
+jest.mock('../services/usage.service', () => ({
+  logUsage: jest.fn(),
+}))
+jest.mock('../services/ledger.service', () => ({
+  grantWelcomeBonus: (...args: unknown[]) => mockGrantWelcomeBonus(...args),
+}))
+
+import { authService } from '../services/auth.service'
+import { ValidationError, UnauthorizedError, RateLimitError, ConflictError } from '../errors/app.error'
+import { signTwoFactorChallenge, verifyTwoFactorChallenge, verifyToken } from '../utils/jwt'
+
+const NEW_PASSWORD = 'N3w-Passw0rd!x'
+
+const resetCode = (overrides: Record<string, unknown> = {}) => ({
+  id: 'code-1',
+  code: '654321',
+  attempts: 0,
+  expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+  createdAt: new Date(Date.now() - 5 * 60 * 1000),
+  ...overrides,
+})
+
+describe('Auth Service - login and password flows', () => {
+  let user: Record<string, unknown>
+
+  beforeAll(async () => {
+    const password = await bcrypt.hash('Old-Passw0rd!x', 4)
+    user = { id: 'user-1', email: 'user@example.com', password, isActive: true, isEmailVerified: true, tokenVersion: 2 }
+  })
+
+  beforeEach(() => {
+    mockUserRepository.findByEmail.mockResolvedValue({ ...user })
+    mockUserRepository.findById.mockResolvedValue({ ...user })
+    mockUserRepository.save.mockImplementation(async (u) => u)
+    mockCreateSession.mockResolvedValue({ token: 'access', refreshToken: 'rt_new' })
+    mockVerificationRepository.claimAttempt.mockResolvedValue(true)
+  })
+
+  describe('login lockout', () => {
+    it('should lock the account after repeated wrong passwords, even for the right one', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue({ ...user, email: 'locked@example.com' })
+
+      for (let i = 0; i < 5; i++) {
+        await expect(authService.login('locked@example.com', 'Wrong-Passw0rd!', { ip: '203.0.113.1' })).rejects.toThrow(UnauthorizedError)
+      }
+
+      await expect(authService.login('Locked@example.com', 'Old-Passw0rd!x', { ip: '203.0.113.2' })).rejects.toThrow(RateLimitError)
+    })
+
+    it('should forget earlier failures after a successful login', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue({ ...user, email: 'flaky@example.com' })
+
+      for (let i = 0; i < 4; i++) {
+        await expect(authService.login('flaky@example.com', 'Wrong-Passw0rd!', { ip: '203.0.113.3' })).rejects.toThrow(UnauthorizedError)
+      }
+      await authService.login('flaky@example.com', 'Old-Passw0rd!x', { ip: '203.0.113.3' })
+
+      await expect(authService.login('flaky@example.com', 'Wrong-Passw0rd!', { ip: '203.0.113.4' })).rejects.toThrow(UnauthorizedError)
+    })
+  })
+
+  describe('login with 2FA', () => {
+    it('should return a challenge instead of tokens when 2FA is enabled', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue({ ...user, email: 'twofa@example.com', twoFactorEnabled: true })
+
+      const result = await authService.login('twofa@example.com', 'Old-Passw0rd!x', { ip: '198.51.100.1' })
+
+      expect(result).toEqual({ requiresTwoFactor: true, challengeToken: expect.any(String) })
+      expect(mockCreateSession).not.toHaveBeenCalled()
+      const { challengeToken } = result as { challengeToken: string }
+      expect(verifyTwoFactorChallenge(challengeToken)).toBe('user-1')
+      // The challenge is not an access token
+      expect(verifyToken(challengeToken).success).toBe(false)
+    })
+
+    it('should start a session once the second factor checks out', async () => {
+      mockUserRepository.findById.mockResolvedValue({ ...user, twoFactorEnabled: true })
+      mockVerifySecondFactor.mockResolvedValue('totp')
+
+      const result = await authService.completeTwoFactorLogin(signTwoFactorChallenge('user-1'), '123456', { ip: '198.51.100.2' })
+
+      expect(result).toMatchObject({ token: 'access', refreshToken: 'rt_new' })
+      expect(mockCreateSession).toHaveBeenCalled()
+    })
+
+    it('should reject a wrong second factor', async () => {
+      mockUserRepository.findById.mockResolvedValue({ ...user, twoFactorEnabled: true })
+      mockVerifySecondFactor.mockResolvedValue(null)
+
+      await expect(
+        authService.completeTwoFactorLogin(signTwoFactorChallenge('user-1'), '000000', { ip: '198.51.100.3' })
+      ).rejects.toThrow(UnauthorizedError)
+      expect(mockCreateSession).not.toHaveBeenCalled()
+    })
+
+    it('should reject a forged challenge token', async () => {
+      await expect(authService.completeTwoFactorLogin('not-a-token', '123456')).rejects.toThrow(/challenge expired/)
+    })
+  })
+
+  describe('forgotPassword', () => {
+    it('should email a reset code to a known account', async () => {
+      mockVerificationRepository.findByUserId.mockResolvedValue(null)
+
+      await authService.forgotPassword('user@example.com')
+
+      expect(mockVerificationRepository.createVerification).toHaveBeenCalledWith('user-1', '123456', 15, 'password_reset')
+      expect(mockSendPasswordResetEmail).toHaveBeenCalledWith('user@example.com', '123456')
+    })
+
+    it('should answer the same way for an unknown email', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(null)
+
+      const result = await authService.forgotPassword('nobody@example.com')
+
+      expect(result.message).toMatch(/If the email exists/)
+      expect(mockSendPasswordResetEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resetPassword', () => {
+    it('should set the new password, sign out everywhere and notify the owner', async () => {
+      mockVerificationRepository.findByUserId.mockResolvedValue(resetCode())
+
+      await authService.resetPassword('user@example.com', '654321', NEW_PASSWORD, { ip: '203.0.113.7' })
+
+      expect(mockUserRepository.save).not.toHaveBeenCalled()
+      const [userId, changes] = mockUserRepository.update.mock.calls[0]
+      expect(userId).toBe('user-1')
+      expect(Object.keys(changes)).toEqual(['password'])
+      expect(await bcrypt.compare(NEW_PASSWORD, changes.password)).toBe(true)
+      expect(mockVerificationRepository.deleteByUserId).toHaveBeenCalledWith('user-1', 'password_reset')
+      expect(mockRevokeAllSessions).toHaveBeenCalledWith('user-1', 'password_changed')
+      expect(mockBumpTokenVersion).toHaveBeenCalledWith('user-1')
+      expect(mockSendPasswordChangedEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        expect.objectContaining({ method: 'reset', ip: '203.0.113.7' })
+      )
+    })
+
+    it('should count a wrong code against the attempt limit', async () => {
+      mockVerificationRepository.findByUserId.mockResolvedValue(resetCode())
+
+      await expect(authService.resetPassword('user@example.com', '000000', NEW_PASSWORD)).rejects.toThrow(ValidationError)
+
+      expect(mockVerificationRepository.claimAttempt).toHaveBeenCalledWith('code-1', 5)
+      expect(mockUserRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('should discard the code after too many wrong guesses', async () => {
+      mockVerificationRepository.findByUserId.mockResolvedValue(resetCode({ attempts: 4 }))
+
+      await expect(authService.resetPassword('user@example.com', '000000', NEW_PASSWORD)).rejects.toThrow(ValidationError)
+
+      expect(mockVerificationRepository.deleteByUserId).toHaveBeenCalledWith('user-1', 'password_reset')
+    })
+
+    it('should reject even the right code once the attempt limit is reached', async () => {
+      // Parallel guesses already used up the attempts this request read as 0
+      mockVerificationRepository.findByUserId.mockResolvedValue(resetCode())
+      mockVerificationRepository.claimAttempt.mockResolvedValue(false)
+
+      await expect(authService.resetPassword('user@example.com', '654321', NEW_PASSWORD)).rejects.toThrow('Invalid or expired reset code')
+
+      expect(mockVerificationRepository.deleteByUserId).toHaveBeenCalledWith('user-1', 'password_reset')
+      expect(mockUserRepository.update).not.toHaveBeenCalled()
+      expect(mockRevokeAllSessions).not.toHaveBeenCalled()
+    })
+
+    it('should reject an expired code', async () => {
+      mockVerificationRepository.findByUserId.mockResolvedValue(resetCode({ expiresAt: new Date(Date.now() - 1000) }))
+
+      await expect(authService.resetPassword('user@example.com', '654321', NEW_PASSWORD)).rejects.toThrow('Invalid or expired reset code')
+      expect(mockRevokeAllSessions).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('changePassword', () => {
+    it('should reject a wrong current password', async () => {
+      await expect(authService.changePassword('user-1', 'Wrong-Passw0rd!', NEW_PASSWORD)).rejects.toThrow('Current password is incorrect')
+      expect(mockUserRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('should sign out every session and hand back a fresh one', async () => {
+      const result = await authService.changePassword('user-1', 'Old-Passw0rd!x', NEW_PASSWORD)
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', { password: expect.any(String) })
+      expect(mockUserRepository.save).not.toHaveBeenCalled()
+      expect(mockRevokeAllSessions).toHaveBeenCalledWith('user-1', 'password_changed')
+      expect(mockBumpTokenVersion).toHaveBeenCalledWith('user-1')
+      expect(mockCreateSession).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1', tokenVersion: 3 }), undefined)
+      expect(result).toMatchObject({ token: 'access', refreshToken: 'rt_new' })
+      expect(mockSendPasswordChangedEmail).toHaveBeenCalledWith('user@example.com', expect.objectContaining({ method: 'change' }))
+    })
+
+    it('should refuse an account without a password', async () => {
+      mockUserRepository.findById.mockResolvedValue({ ...user, password: null })
+
+      await expect(authService.changePassword('user-1', 'anything', NEW_PASSWORD)).rejects.toThrow(/password reset/)
+    })
+  })
+
+  describe('loginWithIdentity', () => {
+    const identity = {
+      provider: 'github',
+      subject: '42',
+      email: 'octo@example.com',
+      emailVerified: true,
+      name: 'Octo',
+      avatarUrl: null,
+    }
+
+    beforeEach(() => {
+      mockIdentityRepository.findByProviderSubject.mockResolvedValue(null)
+      mockUserRepository.findByEmail.mockResolvedValue(null)
+      mockUserRepository.create.mockImplementation(async (data) => ({ id: 'user-new', isActive: true, ...data }))
+      mockGrantWelcomeBonus.mockResolvedValue({ balanceAfter: 100 })
+    })
+
+    it('should create a verified account with the welcome bonus for a verified email', async () => {
+      const result = await authService.loginWithIdentity(identity)
+
+      expect(mockUserRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'octo@example.com', password: null, isEmailVerified: true })
+      )
+      expect(mockGrantWelcomeBonus).toHaveBeenCalledWith('user-new', 100)
+      expect(mockIdentityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-new', provider: 'github', subject: '42' })
+      )
+      expect(result).toMatchObject({ token: 'access', user: { tokenBalance: 100 } })
+    })
+
+    it('should send an email code instead of signing in when the provider did not verify the email', async () => {
+      const result = await authService.loginWithIdentity({ ...identity, emailVerified: false })
+
+      expect(mockUserRepository.create).toHaveBeenCalledWith(expect.objectContaining({ isEmailVerified: false }))
+      expect(mockGrantWelcomeBonus).not.toHaveBeenCalled()
+      expect(mockSendVerificationEmail).toHaveBeenCalledWith('octo@example.com', '123456')
+      expect(mockCreateSession).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ requiresVerification: true, email: 'octo@example.com' })
+    })
+
+    it('should not link an existing account through an unverified email', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue({ ...user, email: 'octo@example.com' })
+
+      await expect(authService.loginWithIdentity({ ...identity, emailVerified: false })).rejects.toThrow(ConflictError)
+      expect(mockIdentityRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should link a verified email and drop the password of an unconfirmed registration', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue({ ...user, email: 'octo@example.com', isEmailVerified: false })
+
+      await authService.loginWithIdentity(identity)
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', { password: null, isEmailVerified: true })
+      expect(mockGrantWelcomeBonus).toHaveBeenCalledWith('user-1', 100)
+      expect(mockIdentityRepository.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }))
+    })
+
+    it('should sign in a linked account and still ask for the second factor', async () => {
+      mockIdentityRepository.findByProviderSubject.mockResolvedValue({ id: 'identity-1', userId: 'user-1' })
+      mockUserRepository.findById.mockResolvedValue({ ...user, twoFactorEnabled: true })
+
+      const result = await authService.loginWithIdentity(identity)
+
+      expect(mockIdentityRepository.touchLogin).toHaveBeenCalledWith('identity-1', 'octo@example.com', true)
+      expect(result).toEqual({ requiresTwoFactor: true, challengeToken: expect.any(String) })
+      expect(mockCreateSession).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('linkIdentity / unlinkIdentity', () => {
+    const identity = { provider: 'github', subject: '42', email: null, emailVerified: false, name: null, avatarUrl: null }
+
+    it('should refuse an account already linked to someone else', async () => {
+      mockIdentityRepository.findByProviderSubject.mockResolvedValue({ id: 'identity-9', userId: 'user-9' })
+
+      await expect(authService.linkIdentity('user-1', identity)).rejects.toThrow(ConflictError)
+      expect(mockIdentityRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should not remove the only way to sign in', async () => {
+      mockIdentityRepository.findByUserAndProvider.mockResolvedValue({ id: 'identity-1', userId: 'user-1' })
+      mockUserRepository.findById.mockResolvedValue({ ...user, password: null })
+      mockIdentityRepository.countByUserId.mockResolvedValue(1)
+
+      await expect(authService.unlinkIdentity('user-1', 'github')).rejects.toThrow(ConflictError)
+      expect(mockIdentityRepository.delete).not.toHaveBeenCalled()
+    })
+
+    it('should unlink when the user still has a password', async () => {
+      mockIdentityRepository.findByUserAndProvider.mockResolvedValue({ id: 'identity-1', userId: 'user-1' })
+
+      await authService.unlinkIdentity('user-1', 'github')
+
+      expect(mockIdentityRepository.delete).toHaveBeenCalledWith('identity-1')
+    })
+  })
+})
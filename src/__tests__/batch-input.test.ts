@@ -0,0 +1,124 @@
+import { readBatchInput, validateBatchInput, toJsonl, MAX_BATCH_REQUESTS } from '../utils/batch-input'
+
+const chatLine = (customId: string, overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    custom_id: customId,
+    method: 'POST',
+    url: '/v1/chat/completions',
+    body: { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] },
+    ...overrides,
+  })
+
+const file = (...lines: string[]) => Buffer.from(lines.join('\n'), 'utf8')
+
+const requestsOf = (content: Buffer) => [...readBatchInput(content)].flatMap((entry) => (entry.request ? [entry.request] : []))
+
+describe('Batch Input', () => {
+  describe('readBatchInput', () => {
+    it('should read one request per line with its line number', () => {
+      expect(requestsOf(file(chatLine('a'), '', chatLine('b'), ''))).toEqual([
+        { line: 1, customId: 'a', body: { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] } },
+        { line: 3, customId: 'b', body: { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] } },
+      ])
+    })
+
+    it('should accept Windows line endings', () => {
+      expect(requestsOf(Buffer.from(`${chatLine('a')}\r\n${chatLine('b')}\r\n`, 'utf8')).map((r) => r.line)).toEqual([1, 2])
+    })
+
+    it('should report problems in file order alongside the valid requests', () => {
+      const entries = [...readBatchInput(file(chatLine('a'), '{', chatLine('b')))]
+
+      expect(entries.map((entry) => entry.request?.customId ?? entry.error?.code)).toEqual(['a', 'invalid_json_line', 'b'])
+    })
+  })
+
+  describe('validateBatchInput', () => {
+    it('should count the requests and name the endpoint', () => {
+      const input = validateBatchInput(file(chatLine('a'), '', chatLine('b'), ''))
+
+      expect(input).toEqual({ endpoint: '/v1/chat/completions', requestCount: 2, errors: [] })
+    })
+
+    it('should accept image generation requests', () => {
+      const input = validateBatchInput(file(chatLine('a', { url: '/v1/images/generations', body: { prompt: 'A cat' } })))
+
+      expect(input.errors).toEqual([])
+      expect(input.endpoint).toBe('/v1/images/generations')
+    })
+
+    it('should report invalid JSON and non-object lines', () => {
+      const input = validateBatchInput(file('{not json', '[1, 2]', chatLine('a')))
+
+      expect(input.errors).toEqual([
+        expect.objectContaining({ code: 'invalid_json_line', line: 1 }),
+        expect.objectContaining({ code: 'invalid_request', line: 2 }),
+      ])
+      expect(input.requestCount).toBe(1)
+    })
+
+    it('should reject missing and duplicate custom ids', () => {
+      const input = validateBatchInput(file(chatLine(''), chatLine('a'), chatLine('a')))
+
+      expect(input.errors).toEqual([
+        expect.objectContaining({ code: 'invalid_custom_id', line: 1, param: 'custom_id' }),
+        expect.objectContaining({ code: 'duplicate_custom_id', line: 3, param: 'custom_id' }),
+      ])
+    })
+
+    it('should check method, url and body', () => {
+      const input = validateBatchInput(file(
+        chatLine('a', { method: 'GET' }),
+        chatLine('b', { url: '/v1/embeddings' }),
+        chatLine('c', { body: 'hello' }),
+        chatLine('d')
+      ))
+
+      expect(input.errors.map((error) => error.code)).toEqual(['invalid_method', 'invalid_url', 'invalid_body'])
+    })
+
+    it('should require every line to use the same endpoint', () => {
+      const input = validateBatchInput(file(chatLine('a'), chatLine('b', { url: '/v1/images/generations' })))
+
+      expect(input.errors).toEqual([expect.objectContaining({ code: 'mismatched_url', line: 2, param: 'url' })])
+    })
+
+    it('should report an empty file', () => {
+      expect(validateBatchInput(file('', '  ')).errors).toEqual([
+        expect.objectContaining({ code: 'empty_file' }),
+      ])
+    })
+
+    it('should stop after too many requests', () => {
+      const lines = Array.from({ length: MAX_BATCH_REQUESTS + 1 }, (_, i) => chatLine(`req-${i}`))
+      const input = validateBatchInput(file(...lines))
+
+      expect(input.requestCount).toBe(MAX_BATCH_REQUESTS)
+      expect(input.errors).toEqual([
+        expect.objectContaining({ code: 'too_many_requests', line: MAX_BATCH_REQUESTS + 1 }),
+      ])
+    })
+
+    it('should cap the number of reported errors', () => {
+      const lines = Array.from({ length: 50 }, () => '{')
+
+      expect(validateBatchInput(file(...lines)).errors).toHaveLength(20)
+    })
+  })
+
+  describe('toJsonl', () => {
+    it('should write one JSON record per line', () => {
+      expect(toJsonl([{ a: 1 }, { b: 'x' }]).toString('utf8')).toBe('{"a":1}\n{"b":"x"}\n')
+    })
+
+    it('should round-trip through readBatchInput', () => {
+      const records = [
+        { custom_id: 'a', method: 'POST', url: '/v1/chat/completions', body: { model: 'gpt-4o', messages: [] } },
+      ]
+
+      expect(requestsOf(toJsonl(records))).toEqual([
+        { line: 1, customId: 'a', body: { model: 'gpt-4o', messages: [] } },
+      ])
+    })
+  })
+})
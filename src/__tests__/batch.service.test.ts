@@ -0,0 +1,280 @@
+import 'reflect-metadata'
+
+const mockRepository = {
+  update: jest.fn(),
+  findOne: jest.fn(),
+  find: jest.fn(),
+  increment: jest.fn(),
+  count: jest.fn(),
+}
+
+jest.mock('../data-source', () => ({
+  AppDataSource: {
+    getRepository: () => mockRepository,
+  },
+}))
+jest.mock('../services/api-file.service', () => ({
+  ...jest.requireActual('../services/api-file.service'),
+  writeApiFile: jest.fn(),
+}))
+jest.mock('../services/credit-reservation.service', () => ({
+  ...jest.requireActual('../services/credit-reservation.service'),
+  releaseReservation: jest.fn(),
+}))
+
+import { IsNull } from 'typeorm'
+import {
+  cancelBatch,
+  formatBatchResult,
+  listUserBatches,
+  processBatches,
+  toErrorResponse,
+  BatchRequestError,
+} from '../services/batch.service'
+import { releaseReservation } from '../services/credit-reservation.service'
+import { writeApiFile } from '../services/api-file.service'
+import { ChatCompletionError } from '../services/chat-completion.service'
+import { ImageParamError } from '../services/openai-image.service'
+import { AppError, ForbiddenError, InsufficientQuotaError, NotFoundError } from '../errors/app.error'
+import { Batch, BatchRequest } from '../entities'
+
+const makeRequest = (overrides: Partial<BatchRequest> = {}): BatchRequest => ({
+  id: '6f1c2b8e-0d4a-4a57-9d2e-3b5f7c9a1e20',
+  batchId: 'batch-1',
+  line: 1,
+  customId: 'req-1',
+  body: {},
+  status: 'completed',
+  statusCode: 200,
+  response: { id: 'chatcmpl-1' },
+  ...overrides,
+} as BatchRequest)
+
+const makeBatch = (overrides: Partial<Batch> = {}): Batch => ({
+  id: 'batch-1',
+  userId: 'user-1',
+  status: 'in_progress',
+  ...overrides,
+} as Batch)
+
+const mockReleaseReservation = releaseReservation as jest.Mock
+const mockWriteApiFile = writeApiFile as jest.Mock
+
+describe('Batch Service', () => {
+  describe('formatBatchResult', () => {
+    it('should wrap executed requests in a response', () => {
+      expect(formatBatchResult(makeRequest())).toEqual({
+        id: 'batch_req_6f1c2b8e0d4a4a579d2e3b5f7c9a1e20',
+        custom_id: 'req-1',
+        response: { status_code: 200, request_id: '6f1c2b8e-0d4a-4a57-9d2e-3b5f7c9a1e20', body: { id: 'chatcmpl-1' } },
+        error: null,
+      })
+    })
+
+    it('should keep the status code and error body of failed requests', () => {
+      const result = formatBatchResult(makeRequest({
+        status: 'failed',
+        statusCode: 400,
+        response: { error: { message: 'Bad', code: 'invalid_value' } },
+      }))
+
+      expect(result.response).toEqual(expect.objectContaining({ status_code: 400, body: { error: { message: 'Bad', code: 'invalid_value' } } }))
+      expect(result.error).toBeNull()
+    })
+
+    it('should report requests that never ran', () => {
+      const cancelled = formatBatchResult(makeRequest({ status: 'cancelled', statusCode: null, response: null }))
+      const expired = formatBatchResult(makeRequest({ status: 'expired', statusCode: null, response: null }))
+
+      expect(cancelled.response).toBeNull()
+      expect(cancelled.error).toEqual(expect.objectContaining({ code: 'batch_cancelled' }))
+      expect(expired.error).toEqual(expect.objectContaining({ code: 'batch_expired' }))
+    })
+  })
+
+  describe('toErrorResponse', () => {
+    it('should map request errors to their status and OpenAI error body', () => {
+      expect(toErrorResponse(new ChatCompletionError(404, 'No such model', 'invalid_request_error', 'model_not_found', 'model'))).toEqual({
+        statusCode: 404,
+        body: { error: { message: 'No such model', type: 'invalid_request_error', param: 'model', code: 'model_not_found' } },
+      })
+      expect(toErrorResponse(new ImageParamError('Bad size', 'size'))).toEqual({
+        statusCode: 400,
+        body: { error: { message: 'Bad size', type: 'invalid_request_error', param: 'size', code: 'invalid_value' } },
+      })
+    })
+
+    it('should report insufficient credits as 402', () => {
+      expect(toErrorResponse(new InsufficientQuotaError(10, 1)).statusCode).toBe(402)
+      expect(toErrorResponse(new InsufficientQuotaError(10, 1)).body.error.type).toBe('insufficient_quota')
+    })
+
+    it('should report a lost organization membership as 403 and a deleted organization as 404', () => {
+      expect(toErrorResponse(new ForbiddenError('Not a member of this organization'))).toEqual({
+        statusCode: 403,
+        body: { error: { message: 'Not a member of this organization', type: 'permission_error', code: 'permission_denied' } },
+      })
+      expect(toErrorResponse(new NotFoundError('Organization'))).toMatchObject({
+        statusCode: 404,
+        body: { error: { type: 'invalid_request_error', code: 'not_found' } },
+      })
+    })
+
+    it('should pass on generation failures and hide unexpected errors', () => {
+      expect(toErrorResponse(new AppError(502, 'Generation failed', 'generation_failed'))).toEqual({
+        statusCode: 502,
+        body: { error: { message: 'Generation failed', type: 'api_error', code: 'generation_failed' } },
+      })
+      expect(toErrorResponse(new Error('db down'))).toEqual({
+        statusCode: 500,
+        body: { error: { message: 'Internal server error', type: 'api_error', code: 'internal_error' } },
+      })
+    })
+  })
+
+  describe('cancelBatch', () => {
+    it('should move the batch to cancelling and cancel pending requests', async () => {
+      mockRepository.update.mockResolvedValue({ affected: 1 })
+      mockRepository.findOne.mockResolvedValue(makeBatch({ status: 'cancelling' }))
+
+      const batch = await cancelBatch(makeBatch())
+
+      expect(batch.status).toBe('cancelling')
+      expect(mockRepository.update).toHaveBeenCalledTimes(2)
+      expect(mockRepository.update.mock.calls[0][1]).toEqual(expect.objectContaining({ status: 'cancelling' }))
+      expect(mockRepository.update.mock.calls[1]).toEqual([
+        { batchId: 'batch-1', status: 'pending' },
+        expect.objectContaining({ status: 'cancelled' }),
+      ])
+    })
+
+    it('should leave an already cancelling batch alone', async () => {
+      const batch = makeBatch({ status: 'cancelling' })
+
+      await expect(cancelBatch(batch)).resolves.toBe(batch)
+      expect(mockRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to cancel a finished batch', async () => {
+      mockRepository.update.mockResolvedValue({ affected: 0 })
+      mockRepository.findOne.mockResolvedValue(makeBatch({ status: 'completed' }))
+
+      const error = await cancelBatch(makeBatch()).catch((e) => e)
+
+      expect(error).toBeInstanceOf(BatchRequestError)
+      expect(error.statusCode).toBe(409)
+      expect(error.code).toBe('invalid_batch_status')
+      expect(error.message).toContain("'completed'")
+    })
+  })
+
+  describe('listUserBatches', () => {
+    it('should only list the batches of the key wallet', async () => {
+      mockRepository.find.mockResolvedValue([])
+
+      await listUserBatches({ userId: 'user-1', organizationId: null }, { limit: 20 })
+      await listUserBatches({ userId: 'user-1', organizationId: 'org-1' }, { limit: 20 })
+
+      expect(mockRepository.find.mock.calls[0][0].where).toEqual({ userId: 'user-1', organizationId: IsNull() })
+      expect(mockRepository.find.mock.calls[1][0].where).toEqual({ userId: 'user-1', organizationId: 'org-1' })
+    })
+  })
+
+  describe('processBatches', () => {
+    it('should fail interrupted requests and release their credit holds', async () => {
+      const interrupted = makeRequest({ status: 'running', statusCode: null, response: null, reservationId: 'res-1' })
+      // validating batches, interrupted requests, expiring batches, running batches, batches to finalize
+      mockRepository.find
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([interrupted])
+        .mockResolvedValue([])
+      mockRepository.update.mockResolvedValue({ affected: 1 })
+
+      await processBatches()
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        { id: interrupted.id, status: 'running' },
+        expect.objectContaining({ status: 'failed', statusCode: 500 })
+      )
+      expect(mockReleaseReservation).toHaveBeenCalledWith('res-1', 'interrupted')
+      expect(mockRepository.increment).toHaveBeenCalledWith({ id: 'batch-1' }, 'failedRequests', 1)
+    })
+
+    it('should not release a hold when another worker already finished the request', async () => {
+      mockRepository.find
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([makeRequest({ status: 'running', reservationId: 'res-1' })])
+        .mockResolvedValue([])
+      mockRepository.update.mockResolvedValue({ affected: 0 })
+
+      await processBatches()
+
+      expect(mockReleaseReservation).not.toHaveBeenCalled()
+      expect(mockRepository.increment).not.toHaveBeenCalled()
+    })
+
+    it('should not count a request the interrupted sweep failed while it ran', async () => {
+      // validating batches, interrupted requests, expiring batches, running batches, their pending requests
+      mockRepository.find
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([makeBatch({ apiKeyId: 'key-1' })])
+        .mockResolvedValueOnce([makeRequest({ status: 'pending', statusCode: null, response: null })])
+        .mockResolvedValue([])
+      mockRepository.findOne.mockResolvedValue(null)
+      // The worker claims the request, then finds it already failed when writing the result
+      mockRepository.update.mockResolvedValueOnce({ affected: 1 }).mockResolvedValue({ affected: 0 })
+
+      await processBatches()
+
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        { id: '6f1c2b8e-0d4a-4a57-9d2e-3b5f7c9a1e20', status: 'running' },
+        expect.objectContaining({ status: 'failed', statusCode: 401 })
+      )
+      expect(mockRepository.increment).not.toHaveBeenCalled()
+    })
+
+    it('should write the result files a page at a time', async () => {
+      const completed = [makeRequest({ id: 'aaaaaaaa-0000-4000-8000-000000000001', customId: 'a', line: 1 })]
+      const failed = [makeRequest({ id: 'aaaaaaaa-0000-4000-8000-000000000002', customId: 'b', line: 2, status: 'failed', statusCode: 400 })]
+      // validating batches, interrupted requests, expiring batches, running batches, batches to finalize, then result pages
+      mockRepository.find
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([makeBatch({ organizationId: 'org-1' })])
+        .mockResolvedValueOnce(completed)
+        .mockResolvedValueOnce(failed)
+      mockRepository.count.mockResolvedValue(0)
+      mockRepository.update.mockResolvedValue({ affected: 1 })
+      const written: Record<string, string[]> = {}
+      mockWriteApiFile.mockImplementation(async (input, pages: AsyncIterable<Buffer>) => {
+        written[input.purpose] = []
+        for await (const page of pages) written[input.purpose].push(page.toString('utf8'))
+        return { id: `${input.purpose}-file` }
+      })
+
+      await processBatches()
+
+      expect(written.batch_output).toHaveLength(1)
+      expect(mockWriteApiFile).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', organizationId: 'org-1', purpose: 'batch_output' }),
+        expect.anything()
+      )
+      expect(JSON.parse(written.batch_output[0])).toMatchObject({ custom_id: 'a', response: { status_code: 200 } })
+      expect(JSON.parse(written.batch_error[0])).toMatchObject({ custom_id: 'b', response: { status_code: 400 } })
+      expect(mockRepository.update).toHaveBeenLastCalledWith(
+        { id: 'batch-1', status: 'finalizing' },
+        expect.objectContaining({
+          status: 'completed',
+          outputFileId: 'batch_output-file',
+          errorFileId: 'batch_error-file',
+          completedRequests: 1,
+          failedRequests: 1,
+        })
+      )
+    })
+  })
+})
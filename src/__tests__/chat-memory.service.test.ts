@@ -0,0 +1,223 @@
+import 'reflect-metadata'
+
+// Mock the data source - memory reads conversations and the model registry
+const mockMessageRepo = {}
+const mockConversationRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+}
+const mockModelRepo = {
+  find: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { ChatConversation, ChatMessage, AiModel } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === ChatConversation) return mockConversationRepo
+        if (entity === ChatMessage) return mockMessageRepo
+        if (entity === AiModel) return mockModelRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
+const mockChat = jest.fn()
+jest.mock('../services/gemini-chat.service', () => ({
+  ...jest.requireActual('../services/gemini-chat.service'),
+  chat: (...args: unknown[]) => mockChat(...args),
+}))
+jest.mock('../services/credit-reservation.service', () => ({
+  ...jest.requireActual('../services/credit-reservation.service'),
+  reserveCredits: jest.fn(),
+  settleReservation: jest.fn(),
+  releaseReservation: jest.fn(),
+}))
+
+import {
+  buildConversationContext,
+  getHistoryTokenBudget,
+  updateConversationSummary,
+} from '../services/chat-memory.service'
+import { invalidateModelCache } from '../services/model-registry.service'
+import { reserveCredits, settleReservation } from '../services/credit-reservation.service'
+import { InsufficientQuotaError } from '../errors/app.error'
+import { estimatePromptTokens } from '../services/gemini-chat.service'
+import { ChatConversation, ChatMessage } from '../entities'
+
+const mockReserveCredits = reserveCredits as jest.Mock
+const mockSettleReservation = settleReservation as jest.Mock
+
+const makeMessages = (count: number, content = 'hello there'): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `msg-${i}`,
+    conversationId: 'conv-1',
+    parentId: i > 0 ? `msg-${i - 1}` : null,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `${content} ${i}`,
+    metadata: null,
+    tokensUsed: null,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, i)),
+  }) as ChatMessage)
+
+const makeConversation = (overrides: Partial<ChatConversation> = {}): ChatConversation => {
+  const messages = overrides.messages || makeMessages(6)
+  return {
+    id: 'conv-1',
+    title: 'Test',
+    agentId: 'general_base',
+    userId: 'user-1',
+    activeLeafId: messages[messages.length - 1]?.id ?? null,
+    summary: null,
+    summaryMessageId: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+    messages,
+  } as ChatConversation
+}
+
+const newMessage = { role: 'user' as const, content: 'what did we say?' }
+
+describe('Chat Memory Service', () => {
+  beforeEach(() => {
+    invalidateModelCache()
+    mockModelRepo.find.mockResolvedValue([])
+  })
+
+  describe('buildConversationContext', () => {
+    it('should replay the whole history when it fits', () => {
+      const context = buildConversationContext(makeConversation(), newMessage, 'general_base', 10000)
+
+      expect(context.messages).toHaveLength(7)
+      expect(context.messages[0]).toEqual({ role: 'user', content: 'hello there 0' })
+      expect(context.messages[6]).toBe(newMessage)
+      expect(context).toMatchObject({ historyCount: 6, omittedCount: 0, summarized: false })
+    })
+
+    it('should keep the newest messages when the budget runs out', () => {
+      const conversation = makeConversation({ messages: makeMessages(40, 'a fairly long message body '.repeat(20)) })
+      const budget = estimatePromptTokens([newMessage], 'general_base') + 1000
+
+      const context = buildConversationContext(conversation, newMessage, 'general_base', budget)
+
+      expect(context.historyCount).toBeGreaterThan(0)
+      expect(context.historyCount).toBeLessThan(40)
+      expect(context.omittedCount).toBe(40 - context.historyCount)
+      expect(String(context.messages[context.historyCount - 1].content)).toContain(' 39')
+    })
+
+    it('should put the summary in place of folded messages', () => {
+      const conversation = makeConversation({ summary: 'User asked about foxes.', summaryMessageId: 'msg-3' })
+
+      const context = buildConversationContext(conversation, newMessage, 'general_base', 10000)
+
+      expect(context.messages[0]).toEqual({ role: 'system', content: expect.stringContaining('User asked about foxes.') })
+      expect(context.messages[1]).toEqual({ role: 'user', content: 'hello there 4' })
+      expect(context).toMatchObject({ historyCount: 2, omittedCount: 4, summarized: true })
+    })
+
+    it('should ignore a summary whose boundary message is gone', () => {
+      const conversation = makeConversation({ summary: 'Stale', summaryMessageId: 'deleted' })
+
+      const context = buildConversationContext(conversation, newMessage, 'general_base', 10000)
+
+      expect(context.summarized).toBe(false)
+      expect(context.historyCount).toBe(6)
+    })
+  })
+
+  describe('getHistoryTokenBudget', () => {
+    it('should stay inside the model context window', async () => {
+      mockModelRepo.find.mockResolvedValue([{ modelId: 'gemini-3-pro', enabled: true, contextWindow: 16000, maxOutputTokens: 4000 }])
+
+      expect(await getHistoryTokenBudget()).toBe(12000)
+    })
+  })
+
+  describe('updateConversationSummary', () => {
+    beforeEach(() => {
+      mockReserveCredits.mockResolvedValue({ id: 'res-1' })
+    })
+
+    it('should only fold the active branch and drop a summary from another branch', async () => {
+      const messages = makeMessages(40)
+      // Edit of msg-2 forks a branch; the summary was written for the old one
+      const fork = makeMessages(36, 'forked').map((m, i) => ({
+        ...m,
+        id: `fork-${i}`,
+        parentId: i === 0 ? 'msg-1' : `fork-${i - 1}`,
+      }) as ChatMessage)
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({
+        messages: [...messages, ...fork],
+        activeLeafId: 'fork-35',
+        summary: 'Old branch summary',
+        summaryMessageId: 'msg-10',
+      }))
+      mockChat.mockResolvedValue({ choices: [{ message: { content: 'Fork summary' } }], usage: { total_tokens: 50 } })
+
+      await updateConversationSummary('conv-1')
+
+      const prompt = mockChat.mock.calls[0][0].messages[0].content as string
+      expect(prompt).not.toContain('Old branch summary')
+      expect(prompt).not.toContain('hello there 2')
+      expect(prompt).toContain('forked 0')
+    })
+
+    it('should wait until enough messages have scrolled out of the window', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({ messages: makeMessages(25) }))
+
+      expect(await updateConversationSummary('conv-1')).toBe(false)
+      expect(mockChat).not.toHaveBeenCalled()
+    })
+
+    it('should fold older messages into the stored summary', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({
+        messages: makeMessages(40),
+        summary: 'Earlier summary',
+        summaryMessageId: 'msg-5',
+      }))
+      mockChat.mockResolvedValue({ choices: [{ message: { content: ' New summary ' } }], usage: { total_tokens: 100 } })
+
+      expect(await updateConversationSummary('conv-1')).toBe(true)
+
+      const prompt = mockChat.mock.calls[0][0].messages[0].content as string
+      expect(prompt).toContain('Earlier summary')
+      expect(prompt).toContain('hello there 6')
+      expect(prompt).toContain('hello there 19')
+      expect(prompt).not.toContain('hello there 20')
+      expect(mockConversationRepo.update).toHaveBeenCalledWith('conv-1', {
+        summary: 'New summary',
+        summaryMessageId: 'msg-19',
+      })
+    })
+
+    it('should bill the summary call to the conversation owner', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({ messages: makeMessages(40) }))
+      mockChat.mockResolvedValue({
+        choices: [{ message: { content: 'Summary' } }],
+        usage: { prompt_tokens: 400, completion_tokens: 60, total_tokens: 460 },
+      })
+
+      await updateConversationSummary('conv-1')
+
+      expect(mockReserveCredits).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', action: 'chat_summary' }))
+      expect(mockChat.mock.calls[0][0].maxTokens).toBeGreaterThan(0)
+      expect(mockSettleReservation).toHaveBeenCalledWith('res-1', expect.objectContaining({
+        creditsUsed: 460,
+        metadata: expect.objectContaining({ conversationId: 'conv-1' }),
+      }))
+    })
+
+    it('should skip the summary when the balance cannot cover it', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({ messages: makeMessages(40) }))
+      mockReserveCredits.mockRejectedValue(new InsufficientQuotaError(1200, 10))
+
+      expect(await updateConversationSummary('conv-1')).toBe(false)
+      expect(mockChat).not.toHaveBeenCalled()
+      expect(mockConversationRepo.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import 'reflect-metadata'
+
+// Mock the data source - search runs one query builder over chat_messages
+const mockMessageRepo = {
+  createQueryBuilder: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { ChatMessage } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === ChatMessage) return mockMessageRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
+import { foldText, searchTerms, buildSnippet, searchConversations } from '../services/conversation-search.service'
+
+const highlighted = (snippet: { text: string; highlights: Array<{ start: number; end: number }> }) =>
+  snippet.highlights.map(({ start, end }) => snippet.text.substring(start, end))
+
+describe('Conversation Search Service', () => {
+  describe('foldText', () => {
+    it('should strip Vietnamese diacritics including đ', () => {
+      expect(foldText('Đường phố Hà Nội').folded).toBe('duong pho ha noi')
+    })
+
+    it('should map folded characters back to the source', () => {
+      const decomposed = 'Việt'.normalize('NFD')
+      const { folded, offsets } = foldText(decomposed)
+
+      expect(folded).toBe('viet')
+      expect(offsets[offsets.length - 1]).toBe(decomposed.length)
+    })
+  })
+
+  describe('searchTerms', () => {
+    it('should fold query words and drop operators', () => {
+      expect(searchTerms('"Hà Nội" or -Sài Gòn')).toEqual(['ha', 'noi', 'sai', 'gon'])
+    })
+  })
+
+  describe('buildSnippet', () => {
+    it('should highlight accented text for an unaccented query', () => {
+      const snippet = buildSnippet('Tôi muốn đi du lịch Hà Nội vào mùa thu.', searchTerms('ha noi'))
+
+      expect(highlighted(snippet)).toEqual(['Hà', 'Nội'])
+    })
+
+    it('should only match whole words', () => {
+      const snippet = buildSnippet('Thanh and than', ['than'])
+
+      expect(highlighted(snippet)).toEqual(['than'])
+    })
+
+    it('should trim long messages around the first match', () => {
+      const content = `${'lorem ipsum '.repeat(40)}the keyword is here${' dolor sit'.repeat(40)}`
+
+      const snippet = buildSnippet(content, ['keyword'])
+
+      expect(snippet.text.startsWith('…')).toBe(true)
+      expect(snippet.text.endsWith('…')).toBe(true)
+      expect(snippet.text.length).toBeLessThan(content.length)
+      expect(highlighted(snippet)).toEqual(['keyword'])
+    })
+  })
+
+  describe('searchConversations', () => {
+    it('should scope results to the user and return snippets with anchors', async () => {
+      const qb = {
+        innerJoin: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        clone: jest.fn(),
+        select: jest.fn().mockReturnThis(),
+        addSelect: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        addOrderBy: jest.fn().mockReturnThis(),
+        offset: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        getRawMany: jest.fn().mockResolvedValue([{
+          messageId: 'msg-1',
+          conversationId: 'conv-1',
+          conversationTitle: 'Du lịch',
+          role: 'user',
+          content: 'Gợi ý lịch trình Hà Nội 3 ngày',
+          createdAt: new Date('2026-01-01T00:00:00Z'),
+        }]),
+        getCount: jest.fn().mockResolvedValue(1),
+      }
+      qb.clone.mockReturnValue(qb)
+      mockMessageRepo.createQueryBuilder.mockReturnValue(qb)
+
+      const result = await searchConversations('user-1', 'ha noi', 1, 20)
+
+      expect(qb.where).toHaveBeenCalledWith('c.userId = :userId', { userId: 'user-1' })
+      expect(qb.andWhere.mock.calls[0][0]).toContain('immutable_unaccent')
+      expect(result.total).toBe(1)
+      expect(result.results[0]).toMatchObject({ conversationId: 'conv-1', messageId: 'msg-1' })
+      expect(highlighted(result.results[0].snippet)).toEqual(['Hà', 'Nội'])
+    })
+  })
+})
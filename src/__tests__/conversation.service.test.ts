@@ -0,0 +1,258 @@
+import 'reflect-metadata'
+
+// Mock the data source - conversations and their message trees
+const mockConversationRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+}
+const mockMessageRepo = {
+  create: jest.fn(),
+  save: jest.fn(),
+}
+const mockModelRepo = {
+  find: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { ChatConversation, ChatMessage, AiModel } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === ChatConversation) return mockConversationRepo
+        if (entity === ChatMessage) return mockMessageRepo
+        if (entity === AiModel) return mockModelRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
+const mockChat = jest.fn()
+jest.mock('../services/gemini-chat.service', () => ({
+  ...jest.requireActual('../services/gemini-chat.service'),
+  chat: (...args: unknown[]) => mockChat(...args),
+}))
+jest.mock('../services/credit-reservation.service', () => ({
+  ...jest.requireActual('../services/credit-reservation.service'),
+  reserveCredits: jest.fn(),
+  settleReservation: jest.fn(),
+  releaseReservation: jest.fn(),
+}))
+
+import {
+  resolveActivePath,
+  getSiblingIds,
+  getConversation,
+  switchBranch,
+  addMessage,
+  addChatMessages,
+  cleanGeneratedTitle,
+  generateConversationTitle,
+  DEFAULT_CONVERSATION_TITLE,
+} from '../services/conversation.service'
+import { invalidateModelCache } from '../services/model-registry.service'
+import { reserveCredits, settleReservation } from '../services/credit-reservation.service'
+import { InsufficientQuotaError } from '../errors/app.error'
+import { ChatConversation, ChatMessage } from '../entities'
+
+const mockReserveCredits = reserveCredits as jest.Mock
+const mockSettleReservation = settleReservation as jest.Mock
+
+const message = (id: string, parentId: string | null, role: 'user' | 'assistant' = 'user'): ChatMessage => ({
+  id,
+  parentId,
+  conversationId: 'conv-1',
+  role,
+  content: `content of ${id}`,
+  metadata: null,
+  tokensUsed: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+} as ChatMessage)
+
+/*
+ * u1 ─ a1 ─ u2 ─ a2          (original)
+ *         └ u2b ─ a2b        (edit of u2)
+ *                └ a2c       (regeneration of a2b)
+ */
+const tree = (): ChatMessage[] => [
+  message('u1', null),
+  message('a1', 'u1', 'assistant'),
+  message('u2', 'a1'),
+  message('a2', 'u2', 'assistant'),
+  message('u2b', 'a1'),
+  message('a2b', 'u2b', 'assistant'),
+  message('a2c', 'u2b', 'assistant'),
+]
+
+const makeConversation = (overrides: Partial<ChatConversation> = {}): ChatConversation => ({
+  id: 'conv-1',
+  userId: 'user-1',
+  title: 'Test',
+  agentId: 'general_base',
+  activeLeafId: 'a2',
+  summary: null,
+  summaryMessageId: null,
+  messages: tree(),
+  ...overrides,
+} as ChatConversation)
+
+const ids = (messages: ChatMessage[]) => messages.map((m) => m.id)
+
+describe('Conversation Service', () => {
+  beforeEach(() => {
+    invalidateModelCache()
+    mockModelRepo.find.mockResolvedValue([])
+    mockMessageRepo.create.mockImplementation((data) => data)
+    mockMessageRepo.save.mockImplementation(async (data) => ({ id: `saved-${data.role}`, ...data }))
+  })
+
+  describe('resolveActivePath', () => {
+    it('should walk from the leaf to the root', () => {
+      expect(ids(resolveActivePath(tree(), 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2'])
+      expect(ids(resolveActivePath(tree(), 'a2c'))).toEqual(['u1', 'a1', 'u2b', 'a2c'])
+    })
+
+    it('should return an empty path without a leaf', () => {
+      expect(resolveActivePath(tree(), null)).toEqual([])
+      expect(resolveActivePath(tree(), 'missing')).toEqual([])
+    })
+
+    it('should stop on a parent cycle', () => {
+      const looped = [message('x', 'y'), message('y', 'x')]
+
+      expect(resolveActivePath(looped, 'x')).toHaveLength(2)
+    })
+  })
+
+  describe('getSiblingIds', () => {
+    it('should list alternatives that share a parent', () => {
+      const siblings = getSiblingIds(tree())
+
+      expect(siblings.get('u2')).toEqual(['u2', 'u2b'])
+      expect(siblings.get('a2c')).toEqual(['a2b', 'a2c'])
+      expect(siblings.get('u1')).toEqual(['u1'])
+    })
+  })
+
+  describe('getConversation', () => {
+    it('should return only the active branch by default', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation())
+
+      const conversation = await getConversation('conv-1', 'user-1')
+
+      expect(ids(conversation!.messages)).toEqual(['u1', 'a1', 'u2', 'a2'])
+    })
+
+    it('should return every message when asked for all branches', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation())
+
+      const conversation = await getConversation('conv-1', 'user-1', { allBranches: true })
+
+      expect(conversation!.messages).toHaveLength(7)
+    })
+  })
+
+  describe('switchBranch', () => {
+    it('should follow the newest replies below the chosen message', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation())
+
+      const conversation = await switchBranch('conv-1', 'user-1', 'u2b')
+
+      expect(conversation!.activeLeafId).toBe('a2c')
+      expect(mockConversationRepo.update).toHaveBeenCalledWith('conv-1', { activeLeafId: 'a2c' })
+    })
+
+    it('should return null for a message from another conversation', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation())
+
+      expect(await switchBranch('conv-1', 'user-1', 'other')).toBeNull()
+      expect(mockConversationRepo.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('addMessage', () => {
+    it('should continue the active branch and become its leaf', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation())
+
+      const saved = await addMessage({ conversationId: 'conv-1', role: 'user', content: 'next' })
+
+      expect(saved.parentId).toBe('a2')
+      expect(mockConversationRepo.update).toHaveBeenCalledWith('conv-1', expect.objectContaining({ activeLeafId: saved.id }))
+    })
+
+    it('should fork from an explicit parent', async () => {
+      const { userMessage, assistantMessage } = await addChatMessages('conv-1', 'edited', 'reply', undefined, 'a1')
+
+      expect(userMessage.parentId).toBe('a1')
+      expect(assistantMessage.parentId).toBe(userMessage.id)
+      expect(mockConversationRepo.findOne).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cleanGeneratedTitle', () => {
+    it('should strip labels, quotes and trailing punctuation', () => {
+      expect(cleanGeneratedTitle('Title: "Lịch trình du lịch Hà Nội".')).toBe('Lịch trình du lịch Hà Nội')
+      expect(cleanGeneratedTitle('  **Kế hoạch học tiếng Anh**\nextra line')).toBe('Kế hoạch học tiếng Anh')
+    })
+
+    it('should reject empty output and cap the length', () => {
+      expect(cleanGeneratedTitle(' "" ')).toBeNull()
+      expect(cleanGeneratedTitle('word '.repeat(40))!.length).toBeLessThanOrEqual(80)
+    })
+  })
+
+  describe('generateConversationTitle', () => {
+    beforeEach(() => {
+      mockReserveCredits.mockResolvedValue({ id: 'res-1' })
+    })
+
+    it('should title an untitled conversation from its first exchange', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({ title: DEFAULT_CONVERSATION_TITLE }))
+      mockConversationRepo.update.mockResolvedValue({ affected: 1 })
+      mockChat.mockResolvedValue({ choices: [{ message: { content: 'Trip planning' } }] })
+
+      expect(await generateConversationTitle('conv-1')).toBe('Trip planning')
+
+      const request = mockChat.mock.calls[0][0]
+      expect(request.messages[0].content).toContain('content of u1')
+      expect(request.messages[0].content).toContain('content of a1')
+      expect(mockConversationRepo.update).toHaveBeenCalledWith(
+        { id: 'conv-1', title: DEFAULT_CONVERSATION_TITLE },
+        { title: 'Trip planning' }
+      )
+    })
+
+    it('should leave titled conversations alone', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({ title: 'My trip' }))
+
+      expect(await generateConversationTitle('conv-1')).toBeNull()
+      expect(mockChat).not.toHaveBeenCalled()
+    })
+
+    it('should bill the title call to the conversation owner', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({ title: DEFAULT_CONVERSATION_TITLE }))
+      mockConversationRepo.update.mockResolvedValue({ affected: 1 })
+      mockChat.mockResolvedValue({
+        choices: [{ message: { content: 'Trip planning' } }],
+        usage: { prompt_tokens: 80, completion_tokens: 4, total_tokens: 84 },
+      })
+
+      await generateConversationTitle('conv-1')
+
+      expect(mockReserveCredits).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', action: 'chat_title' }))
+      expect(mockSettleReservation).toHaveBeenCalledWith('res-1', expect.objectContaining({
+        creditsUsed: 84,
+        metadata: expect.objectContaining({ conversationId: 'conv-1' }),
+      }))
+    })
+
+    it('should keep the placeholder when the balance cannot cover the call', async () => {
+      mockConversationRepo.findOne.mockResolvedValue(makeConversation({ title: DEFAULT_CONVERSATION_TITLE }))
+      mockReserveCredits.mockRejectedValue(new InsufficientQuotaError(100, 0))
+
+      expect(await generateConversationTitle('conv-1')).toBeNull()
+      expect(mockChat).not.toHaveBeenCalled()
+      expect(mockConversationRepo.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,328 @@
+import 'reflect-metadata'
+
+// Mock the data source - reservations run inside a transaction with row locks
+const mockUserRepo = {
+  findOne: jest.fn(),
+  increment: jest.fn(),
+  update: jest.fn(),
+}
+const mockReservationRepo = {
+  findOne: jest.fn(),
+  create: jest.fn(),
+  save: jest.fn(),
+  update: jest.fn(),
+  createQueryBuilder: jest.fn(),
+}
+const mockUsageLogRepo = {
+  create: jest.fn(),
+  save: jest.fn(),
+  createQueryBuilder: jest.fn(),
+}
+const mockOrganizationRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+}
+const mockMemberRepo = {
+  findOne: jest.fn(),
+}
+const mockTransactionRepo = {
+  create: jest.fn(),
+  save: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { User, UsageLog, CreditReservation, CreditTransaction, Organization, OrganizationMember } =
+    jest.requireActual('../entities')
+  const getRepository = (entity: unknown) => {
+    if (entity === User) return mockUserRepo
+    if (entity === Organization) return mockOrganizationRepo
+    if (entity === OrganizationMember) return mockMemberRepo
+    if (entity === UsageLog) return mockUsageLogRepo
+    if (entity === CreditReservation) return mockReservationRepo
+    if (entity === CreditTransaction) return mockTransactionRepo
+    throw new Error('Unexpected repository')
+  }
+  const manager = { getRepository }
+  return {
+    AppDataSource: {
+      getRepository,
+      manager,
+      transaction: (fn: (m: typeof manager) => unknown) => fn(manager),
+    },
+  }
+})
+
+import {
+  estimateChatReservation,
+  reserveCredits,
+  settleReservation,
+  releaseReservation,
+} from '../services/credit-reservation.service'
+import { ForbiddenError, InsufficientQuotaError } from '../errors/app.error'
+
+const mockHeldTotal = (total: number) => {
+  const qb = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getRawOne: jest.fn().mockResolvedValue({ total: String(total) }),
+  }
+  mockReservationRepo.createQueryBuilder.mockReturnValue(qb)
+}
+
+const mockMonthlySpend = (total: number) => {
+  const qb = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getRawOne: jest.fn().mockResolvedValue({ total: String(total) }),
+  }
+  mockUsageLogRepo.createQueryBuilder.mockReturnValue(qb)
+}
+
+describe('Credit Reservation Service', () => {
+  beforeEach(() => {
+    mockReservationRepo.create.mockImplementation((data) => data)
+    mockReservationRepo.save.mockImplementation(async (data) => ({ id: 'res-1', ...data }))
+    mockUsageLogRepo.create.mockImplementation((data) => data)
+    mockUsageLogRepo.save.mockImplementation(async (data) => ({ id: 'log-1', ...data }))
+    mockTransactionRepo.create.mockImplementation((data) => data)
+    mockTransactionRepo.save.mockImplementation(async (data) => ({ id: 'tx-1', ...data }))
+  })
+
+  describe('estimateChatReservation', () => {
+    it('should add the default output allowance to the prompt', () => {
+      expect(estimateChatReservation(100)).toBe(356)
+    })
+
+    it('should hold the whole max_tokens allowance', () => {
+      expect(estimateChatReservation(100, 1, 50)).toBe(150)
+      expect(estimateChatReservation(100, 1, 8192)).toBe(8292)
+    })
+
+    it('should scale by the agent multiplier', () => {
+      expect(estimateChatReservation(100, 2, 50)).toBe(300)
+    })
+  })
+
+  describe('reserveCredits', () => {
+    it('should hold credits when the balance covers the estimate', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 1000 })
+      mockHeldTotal(200)
+
+      const reservation = await reserveCredits({ userId: 'user-1', action: 'chat', amount: 300 })
+
+      expect(reservation.status).toBe('held')
+      expect(reservation.amount).toBe(300)
+      expect(mockUserRepo.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } })
+      )
+    })
+
+    it('should count existing holds against the balance', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 1000 })
+      mockHeldTotal(900)
+
+      await expect(
+        reserveCredits({ userId: 'user-1', action: 'chat', amount: 200 })
+      ).rejects.toBeInstanceOf(InsufficientQuotaError)
+      expect(mockReservationRepo.save).not.toHaveBeenCalled()
+    })
+
+    it('should report required and available credits', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 50 })
+      mockHeldTotal(0)
+
+      const error = await reserveCredits({ userId: 'user-1', action: 'chat', amount: 80 })
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(InsufficientQuotaError)
+      expect(error.statusCode).toBe(402)
+      expect(error.code).toBe('insufficient_quota')
+      expect(error.required).toBe(80)
+      expect(error.available).toBe(50)
+    })
+
+    it('should shrink a flexible hold to a 1000-credit balance', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 1000 })
+      mockHeldTotal(0)
+
+      const reservation = await reserveCredits({
+        userId: 'user-1',
+        action: 'chat',
+        amount: estimateChatReservation(100, 1, 8192),
+        minAmount: estimateChatReservation(100),
+      })
+
+      expect(reservation.amount).toBe(1000)
+    })
+
+    it('should hold the full amount of a flexible hold the balance covers', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 100000 })
+      mockHeldTotal(0)
+
+      const reservation = await reserveCredits({ userId: 'user-1', action: 'chat', amount: 8292, minAmount: 356 })
+
+      expect(reservation.amount).toBe(8292)
+    })
+
+    it('should reject a flexible hold when the balance is below its floor', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 1000 })
+      mockHeldTotal(800)
+
+      const error = await reserveCredits({ userId: 'user-1', action: 'chat', amount: 8292, minAmount: 356 })
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(InsufficientQuotaError)
+      expect(error.required).toBe(356)
+      expect(error.available).toBe(200)
+    })
+
+    it('should reject when the balance is already negative', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: -10 })
+      mockHeldTotal(0)
+
+      await expect(
+        reserveCredits({ userId: 'user-1', action: 'generate_image', amount: 0 })
+      ).rejects.toBeInstanceOf(InsufficientQuotaError)
+    })
+  })
+
+  describe('reserveCredits for an organization', () => {
+    const orgInput = { userId: 'user-1', organizationId: 'org-1', action: 'api_chat' as const, amount: 300 }
+
+    it('should hold against the shared pool instead of the user balance', async () => {
+      mockOrganizationRepo.findOne.mockResolvedValue({ id: 'org-1', tokenBalance: 1000 })
+      mockMemberRepo.findOne.mockResolvedValue({ role: 'member', monthlyTokenLimit: null })
+      mockHeldTotal(0)
+
+      const reservation = await reserveCredits(orgInput)
+
+      expect(reservation).toMatchObject({ status: 'held', organizationId: 'org-1' })
+      expect(mockOrganizationRepo.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } })
+      )
+      expect(mockUserRepo.findOne).not.toHaveBeenCalled()
+    })
+
+    it('should reject users who are not members', async () => {
+      mockOrganizationRepo.findOne.mockResolvedValue({ id: 'org-1', tokenBalance: 1000 })
+      mockMemberRepo.findOne.mockResolvedValue(null)
+
+      await expect(reserveCredits(orgInput)).rejects.toBeInstanceOf(ForbiddenError)
+    })
+
+    it('should enforce the member monthly limit', async () => {
+      mockOrganizationRepo.findOne.mockResolvedValue({ id: 'org-1', tokenBalance: 100000 })
+      mockMemberRepo.findOne.mockResolvedValue({ role: 'member', monthlyTokenLimit: '500' })
+      mockHeldTotal(0)
+      mockMonthlySpend(400)
+
+      const error = await reserveCredits(orgInput).catch((e) => e)
+
+      expect(error).toBeInstanceOf(InsufficientQuotaError)
+      expect(error.available).toBe(100)
+      expect(mockReservationRepo.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('settleReservation', () => {
+    it('should charge the actual cost and write one usage log', async () => {
+      mockReservationRepo.findOne.mockResolvedValue({
+        id: 'res-1',
+        userId: 'user-1',
+        action: 'chat',
+        amount: 356,
+        status: 'held',
+      })
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 1000 })
+      mockHeldTotal(0)
+
+      const log = await settleReservation('res-1', { creditsUsed: 120, costUsd: 0.12 })
+
+      expect(log?.creditsUsed).toBe(120)
+      expect(log?.metadata).toMatchObject({ reservationId: 'res-1', reservedCredits: 356 })
+      expect(mockTransactionRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'spend', amount: -120, usageLogId: 'log-1', balanceAfter: 880 })
+      )
+      expect(mockUserRepo.update).toHaveBeenCalledWith('user-1', { tokenBalance: 880 })
+      expect(mockReservationRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'settled', settledAmount: 120, usageLogId: 'log-1' })
+      )
+    })
+
+    it('should charge an organization reservation to the organization wallet', async () => {
+      mockReservationRepo.findOne.mockResolvedValue({
+        id: 'res-1',
+        userId: 'user-1',
+        organizationId: 'org-1',
+        action: 'api_chat',
+        amount: 356,
+        status: 'held',
+      })
+      mockOrganizationRepo.findOne.mockResolvedValue({ id: 'org-1', tokenBalance: 1000 })
+      mockHeldTotal(0)
+
+      const log = await settleReservation('res-1', { creditsUsed: 120, costUsd: 0.12 })
+
+      expect(log?.organizationId).toBe('org-1')
+      expect(mockTransactionRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: 'org-1', amount: -120, balanceAfter: 880 })
+      )
+      expect(mockOrganizationRepo.update).toHaveBeenCalledWith('org-1', { tokenBalance: 880 })
+      expect(mockUserRepo.increment).not.toHaveBeenCalled()
+      expect(mockUserRepo.update).not.toHaveBeenCalled()
+    })
+
+    it('should cap usage beyond the hold at the balance left', async () => {
+      mockReservationRepo.findOne.mockResolvedValue({
+        id: 'res-1',
+        userId: 'user-1',
+        action: 'chat',
+        amount: 356,
+        status: 'held',
+      })
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 500 })
+      // Another request still holds 100 of the 500
+      mockHeldTotal(100)
+
+      const log = await settleReservation('res-1', { creditsUsed: 4000, costUsd: 4 })
+
+      expect(log?.creditsUsed).toBe(400)
+      expect(log?.metadata).toMatchObject({ reservedCredits: 356, unbilledCredits: 3600 })
+      expect(mockTransactionRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'spend', amount: -400, balanceAfter: 100 })
+      )
+      expect(mockUserRepo.update).toHaveBeenCalledWith('user-1', { tokenBalance: 100 })
+    })
+
+    it('should not charge twice for an already settled reservation', async () => {
+      mockReservationRepo.findOne.mockResolvedValue({
+        id: 'res-1',
+        userId: 'user-1',
+        action: 'generate_image',
+        amount: 18,
+        status: 'settled',
+      })
+
+      const log = await settleReservation('res-1', { creditsUsed: 18, costUsd: 0.09 })
+
+      expect(log).toBeNull()
+      expect(mockUsageLogRepo.save).not.toHaveBeenCalled()
+      expect(mockTransactionRepo.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('releaseReservation', () => {
+    it('should only release holds that are still held', async () => {
+      mockReservationRepo.update.mockResolvedValue({ affected: 1 })
+
+      await releaseReservation('res-1', 'upstream_error')
+
+      expect(mockReservationRepo.update).toHaveBeenCalledWith(
+        { id: 'res-1', status: 'held' },
+        expect.objectContaining({ status: 'released' })
+      )
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import 'reflect-metadata'
+
+// Mock the data source - gallery reads go through query builders over usage_logs
+const mockUsageLogRepo = {
+  createQueryBuilder: jest.fn(),
+  update: jest.fn(),
+}
+const mockCollectionRepo = {
+  findOne: jest.fn(),
+  count: jest.fn(),
+  create: jest.fn(),
+  save: jest.fn(),
+}
+const mockCollectionItemRepo = {
+  delete: jest.fn(),
+}
+const mockFavoriteRepo = {
+  find: jest.fn(),
+  delete: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { UsageLog, GalleryCollection, GalleryCollectionItem, GalleryFavorite } = jest.requireActual('../entities')
+  const getRepository = (entity: unknown) => {
+    if (entity === UsageLog) return mockUsageLogRepo
+    if (entity === GalleryCollection) return mockCollectionRepo
+    if (entity === GalleryCollectionItem) return mockCollectionItemRepo
+    if (entity === GalleryFavorite) return mockFavoriteRepo
+    throw new Error('Unexpected repository')
+  }
+  const manager = { getRepository }
+  return {
+    AppDataSource: {
+      getRepository,
+      manager,
+      transaction: (fn: (m: typeof manager) => unknown) => fn(manager),
+    },
+  }
+})
+
+import {
+  formatGalleryItem,
+  listGallery,
+  deleteGalleryItems,
+  createCollection,
+} from '../services/gallery.service'
+import { KIE_IMAGE_MODEL } from '../services/kie-api.service'
+import { UsageLog } from '../entities'
+import { ConflictError, NotFoundError, ValidationError } from '../errors/app.error'
+
+const makeLog = (overrides: Partial<UsageLog> = {}): UsageLog => ({
+  id: 'log-1',
+  userId: 'user-1',
+  action: 'generate_image',
+  creditsUsed: '18.0000' as unknown as number,
+  costUsd: '0.0900' as unknown as number,
+  success: true,
+  galleryHiddenAt: null,
+  metadata: { prompt: 'a red fox', aspectRatio: '1:1', resolution: '1K', imageUrl: 'https://cdn.example.com/a.png' },
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+} as UsageLog)
+
+// Chainable query builder stub that records every where clause
+const mockQueryBuilder = (result: { many?: UsageLog[]; total?: number; raw?: Array<{ id: string }> }) => {
+  const qb = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn().mockResolvedValue([result.many || [], result.total || 0]),
+    getRawMany: jest.fn().mockResolvedValue(result.raw || []),
+  }
+  mockUsageLogRepo.createQueryBuilder.mockReturnValue(qb)
+  return qb
+}
+
+const whereClauses = (qb: ReturnType<typeof mockQueryBuilder>) =>
+  qb.andWhere.mock.calls.map(([clause]) => clause as string)
+
+describe('Gallery Service', () => {
+  beforeEach(() => {
+    mockFavoriteRepo.find.mockResolvedValue([])
+    mockCollectionRepo.create.mockImplementation((data) => data)
+    mockCollectionRepo.save.mockImplementation(async (data) => ({ id: 'col-1', ...data }))
+  })
+
+  describe('formatGalleryItem', () => {
+    it('should link the item to its usage log and cost', () => {
+      const item = formatGalleryItem(makeLog(), false)
+
+      expect(item.usageLogId).toBe('log-1')
+      expect(item.creditsUsed).toBe(18)
+      expect(item.costUsd).toBe(0.09)
+      expect(item.source).toBe('web')
+    })
+
+    it('should prefer a signed URL for stored images', () => {
+      const item = formatGalleryItem(
+        makeLog({ metadata: { imageUrl: 'https://cdn.example.com/a.png', storedImageId: 'img-1' } }),
+        true
+      )
+
+      expect(item.imageUrl).toContain('/api/images/img-1?expires=')
+      expect(item.isFavorite).toBe(true)
+    })
+
+    it('should attribute logs without a model to the default image model', () => {
+      expect(formatGalleryItem(makeLog(), false).model).toBe(KIE_IMAGE_MODEL)
+      expect(formatGalleryItem(makeLog({ action: 'api_image_generation' }), false).source).toBe('api')
+    })
+  })
+
+  describe('listGallery', () => {
+    it('should only include successful, visible image logs', async () => {
+      const qb = mockQueryBuilder({ many: [], total: 0 })
+
+      await listGallery('user-1')
+
+      expect(qb.where).toHaveBeenCalledWith('log.userId = :userId', { userId: 'user-1' })
+      expect(whereClauses(qb)).toEqual(expect.arrayContaining([
+        'log.action IN (:...actions)',
+        'log.success = true',
+        'log.galleryHiddenAt IS NULL',
+      ]))
+    })
+
+    it('should apply filters and full-text search', async () => {
+      const qb = mockQueryBuilder({ many: [makeLog()], total: 1 })
+      mockFavoriteRepo.find.mockResolvedValue([{ usageLogId: 'log-1' }])
+
+      const result = await listGallery('user-1', {
+        aspectRatio: '16:9',
+        model: KIE_IMAGE_MODEL,
+        search: 'fox',
+        favorites: true,
+        sort: 'oldest',
+      }, 2, 10)
+
+      const clauses = whereClauses(qb)
+      expect(clauses.some((c) => c.includes("'aspectRatio'"))).toBe(true)
+      expect(clauses.some((c) => c.includes('plainto_tsquery'))).toBe(true)
+      expect(clauses.some((c) => c.includes('gallery_favorites'))).toBe(true)
+      expect(qb.orderBy).toHaveBeenCalledWith('log.createdAt', 'ASC')
+      expect(qb.skip).toHaveBeenCalledWith(10)
+      expect(result.items[0].isFavorite).toBe(true)
+      expect(result.totalPages).toBe(1)
+    })
+
+    it('should reject collections owned by someone else', async () => {
+      mockQueryBuilder({})
+      mockCollectionRepo.findOne.mockResolvedValue(null)
+
+      await expect(listGallery('user-1', { collectionId: 'col-x' })).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('deleteGalleryItems', () => {
+    it('should hide only the visible items and keep their usage logs', async () => {
+      mockQueryBuilder({ raw: [{ id: 'log-1' }] })
+      mockUsageLogRepo.update.mockResolvedValue({ affected: 1 })
+
+      const deleted = await deleteGalleryItems('user-1', ['log-1', 'log-other'])
+
+      expect(deleted).toBe(1)
+      const [criteria, changes] = mockUsageLogRepo.update.mock.calls[0]
+      expect(criteria.userId).toBe('user-1')
+      expect(changes.galleryHiddenAt).toBeInstanceOf(Date)
+      expect(mockFavoriteRepo.delete).toHaveBeenCalled()
+      expect(mockCollectionItemRepo.delete).toHaveBeenCalled()
+    })
+
+    it('should do nothing when no ids belong to the gallery', async () => {
+      mockQueryBuilder({ raw: [] })
+
+      expect(await deleteGalleryItems('user-1', ['log-other'])).toBe(0)
+      expect(mockUsageLogRepo.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createCollection', () => {
+    it('should create a named collection', async () => {
+      mockCollectionRepo.count.mockResolvedValue(0)
+      mockCollectionRepo.findOne.mockResolvedValue(null)
+
+      const collection = await createCollection('user-1', { name: '  Landscapes ', description: 'Wide shots' })
+
+      expect(collection).toMatchObject({ id: 'col-1', name: 'Landscapes', description: 'Wide shots', itemCount: 0 })
+    })
+
+    it('should require a name', async () => {
+      await expect(createCollection('user-1', { name: '   ' })).rejects.toThrow(ValidationError)
+      await expect(createCollection('user-1', {})).rejects.toThrow(ValidationError)
+    })
+
+    it('should reject duplicate names', async () => {
+      mockCollectionRepo.count.mockResolvedValue(1)
+      mockCollectionRepo.findOne.mockResolvedValue({ id: 'col-2', name: 'Landscapes' })
+
+      await expect(createCollection('user-1', { name: 'Landscapes' })).rejects.toThrow(ConflictError)
+    })
+
+    it('should cap the number of collections', async () => {
+      mockCollectionRepo.count.mockResolvedValue(100)
+
+      await expect(createCollection('user-1', { name: 'One more' })).rejects.toThrow(ValidationError)
+    })
+  })
+})
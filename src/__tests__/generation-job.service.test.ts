@@ -0,0 +1,112 @@
+import 'reflect-metadata'
+
+// Mock the data source - conditional updates only apply while the stored job is still processing
+let storedJob: Record<string, any>
+const mockJobRepo = {
+  update: jest.fn(),
+  findOne: jest.fn(),
+}
+
+jest.mock('../data-source', () => ({
+  AppDataSource: {
+    getRepository: () => mockJobRepo,
+  },
+}))
+jest.mock('../services/kie-api.service', () => ({
+  getTaskStatus: jest.fn(),
+  KIE_IMAGE_MODEL: 'nano-banana-pro',
+}))
+jest.mock('../services/credit-reservation.service', () => ({
+  settleReservation: jest.fn(),
+  releaseReservation: jest.fn(),
+}))
+jest.mock('../services/usage.service', () => ({
+  logUsage: jest.fn(),
+  CREDITS_PER_IMAGE: 18,
+  CREDIT_PRICE_USD: 0.005,
+  API_IMAGE_CREDITS: 1,
+  API_IMAGE_PRICE_USD: 0.02,
+}))
+jest.mock('../services/image-storage.service', () => ({
+  tryPersistImage: jest.fn(),
+  getSignedImageUrl: jest.fn(),
+}))
+jest.mock('../services/webhook.service', () => ({
+  deliverWebhook: jest.fn(),
+  generateWebhookSecret: jest.fn(),
+  WEBHOOK_RETRY_DELAYS_MS: [],
+}))
+
+import { getTaskStatus } from '../services/kie-api.service'
+import { settleReservation, releaseReservation } from '../services/credit-reservation.service'
+import { logUsage } from '../services/usage.service'
+import { tryPersistImage } from '../services/image-storage.service'
+import { pollJob, failJob } from '../services/generation-job.service'
+import { GenerationJob } from '../entities'
+
+const mockGetTaskStatus = getTaskStatus as jest.Mock
+const mockSettleReservation = settleReservation as jest.Mock
+const mockReleaseReservation = releaseReservation as jest.Mock
+const mockLogUsage = logUsage as jest.Mock
+const mockTryPersistImage = tryPersistImage as jest.Mock
+
+const makeJob = (): GenerationJob => ({
+  id: 'job-1',
+  userId: 'user-1',
+  taskId: 'task-1',
+  status: 'processing',
+  prompt: 'A cat',
+  reservationId: 'res-1',
+  apiKeyId: 'key-1',
+  webhookUrl: null,
+  pollAttempts: 0,
+  createdAt: new Date(),
+} as unknown as GenerationJob)
+
+describe('Generation Job Service', () => {
+  beforeEach(() => {
+    storedJob = { ...makeJob() }
+    mockJobRepo.update.mockImplementation(async (criteria: string | Record<string, unknown>, changes: object) => {
+      const where = typeof criteria === 'string' ? { id: criteria } : criteria
+      if (where.status && where.status !== storedJob.status) {
+        return { affected: 0 }
+      }
+      Object.assign(storedJob, changes)
+      return { affected: 1 }
+    })
+    mockJobRepo.findOne.mockImplementation(async () => ({ ...storedJob }))
+    mockGetTaskStatus.mockResolvedValue({
+      code: 200,
+      data: { status: 'SUCCESS', output: { media_url: 'https://kie.example/image.png' } },
+    })
+    mockTryPersistImage.mockResolvedValue({ id: 'img-1' })
+    mockSettleReservation.mockResolvedValue({ id: 'log-1' })
+    mockLogUsage.mockResolvedValue({ id: 'log-2' })
+  })
+
+  describe('pollJob', () => {
+    it('should settle the hold of a job it completes', async () => {
+      const job = await pollJob(makeJob())
+
+      expect(job).toMatchObject({ status: 'completed', storedImageId: 'img-1', usageLogId: 'log-1' })
+      expect(mockSettleReservation).toHaveBeenCalledWith('res-1', expect.objectContaining({ creditsUsed: 1 }))
+    })
+
+    it('should neither store nor bill a job a timed-out request failed while it was polled', async () => {
+      // The blocking request gives up while the worker is still waiting on KIE
+      mockGetTaskStatus.mockImplementation(async () => {
+        await failJob(makeJob(), 'Image generation timed out')
+        return { code: 200, data: { status: 'SUCCESS', output: { media_url: 'https://kie.example/image.png' } } }
+      })
+
+      const job = await pollJob(makeJob())
+
+      expect(job.status).toBe('failed')
+      expect(mockTryPersistImage).not.toHaveBeenCalled()
+      expect(mockReleaseReservation).toHaveBeenCalledWith('res-1', 'generation_failed')
+      expect(mockSettleReservation).not.toHaveBeenCalled()
+      expect(mockLogUsage).toHaveBeenCalledTimes(1)
+      expect(mockLogUsage).toHaveBeenCalledWith(expect.objectContaining({ success: false }))
+    })
+  })
+})
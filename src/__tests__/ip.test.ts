@@ -0,0 +1,54 @@
+import { normalizeIp, isValidIpRule, isIpAllowed } from '../utils/ip'
+
+describe('IP Utils', () => {
+  describe('normalizeIp', () => {
+    it('should unwrap IPv4-mapped IPv6 addresses', () => {
+      expect(normalizeIp('::ffff:10.1.2.3')).toBe('10.1.2.3')
+      expect(normalizeIp('2001:db8::1')).toBe('2001:db8::1')
+    })
+  })
+
+  describe('isValidIpRule', () => {
+    it('should accept addresses and CIDR ranges', () => {
+      expect(isValidIpRule('203.0.113.7')).toBe(true)
+      expect(isValidIpRule('10.0.0.0/8')).toBe(true)
+      expect(isValidIpRule('2001:db8::/32')).toBe(true)
+    })
+
+    it('should reject malformed rules', () => {
+      expect(isValidIpRule('10.0.0.0/33')).toBe(false)
+      expect(isValidIpRule('2001:db8::/129')).toBe(false)
+      expect(isValidIpRule('10.0.0/8')).toBe(false)
+      expect(isValidIpRule('10.0.0.0/8/1')).toBe(false)
+      expect(isValidIpRule('10.0.0.0/abc')).toBe(false)
+      expect(isValidIpRule('localhost')).toBe(false)
+    })
+  })
+
+  describe('isIpAllowed', () => {
+    const rules = ['203.0.113.7', '10.0.0.0/8', '2001:db8::/32']
+
+    it('should match exact addresses and ranges', () => {
+      expect(isIpAllowed('203.0.113.7', rules)).toBe(true)
+      expect(isIpAllowed('10.255.0.1', rules)).toBe(true)
+      expect(isIpAllowed('2001:db8:1::5', rules)).toBe(true)
+    })
+
+    it('should match IPv4-mapped client addresses', () => {
+      expect(isIpAllowed('::ffff:10.0.0.1', rules)).toBe(true)
+    })
+
+    it('should reject addresses outside the list', () => {
+      expect(isIpAllowed('203.0.113.8', rules)).toBe(false)
+      expect(isIpAllowed('11.0.0.1', rules)).toBe(false)
+      expect(isIpAllowed('2001:db9::1', rules)).toBe(false)
+      expect(isIpAllowed(undefined, rules)).toBe(false)
+      expect(isIpAllowed('not-an-ip', rules)).toBe(false)
+    })
+
+    it('should ignore invalid rules', () => {
+      expect(isIpAllowed('10.0.0.1', ['garbage', '10.0.0.1'])).toBe(true)
+      expect(isIpAllowed('10.0.0.1', ['garbage'])).toBe(false)
+    })
+  })
+})
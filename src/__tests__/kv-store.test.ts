@@ -0,0 +1,95 @@
+import { MemoryKeyValueStore, KeyValueRateLimitStore } from '../services/kv-store'
+import type { Options } from 'express-rate-limit'
+
+describe('Key/Value Store', () => {
+  let store: MemoryKeyValueStore
+
+  beforeEach(() => {
+    store = new MemoryKeyValueStore()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('MemoryKeyValueStore', () => {
+    it('should return values until they expire', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+      await store.set('nonce', { redirectUrl: 'http://localhost:3000' }, 1000)
+
+      expect(await store.get('nonce')).toEqual({ redirectUrl: 'http://localhost:3000' })
+
+      jest.setSystemTime(new Date('2026-01-01T00:00:01Z'))
+      expect(await store.get('nonce')).toBeNull()
+    })
+
+    it('should hand out a taken value only once', async () => {
+      await store.set('nonce', 'value', 60000)
+
+      expect(await store.take('nonce')).toBe('value')
+      expect(await store.take('nonce')).toBeNull()
+    })
+
+    it('should count within a fixed window and start over once it ends', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+
+      const first = await store.increment('hits', 60000)
+      jest.setSystemTime(new Date('2026-01-01T00:00:30Z'))
+      const second = await store.increment('hits', 60000)
+
+      expect(second.value).toBe(2)
+      // The window does not slide with each hit
+      expect(second.expiresAt).toEqual(first.expiresAt)
+
+      jest.setSystemTime(new Date('2026-01-01T00:01:00Z'))
+      expect((await store.increment('hits', 60000)).value).toBe(1)
+    })
+
+    it('should sweep expired entries', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+      await store.set('short', 1, 1000)
+      await store.set('long', 1, 60000)
+
+      jest.setSystemTime(new Date('2026-01-01T00:00:05Z'))
+
+      expect(await store.deleteExpired()).toBe(1)
+      expect(await store.get('long')).toBe(1)
+    })
+  })
+
+  describe('KeyValueRateLimitStore', () => {
+    const makeLimiterStore = (prefix: string) => {
+      const limiterStore = new KeyValueRateLimitStore(prefix, () => store)
+      limiterStore.init({ windowMs: 60000 } as Options)
+      return limiterStore
+    }
+
+    it('should report hits and the window reset time', async () => {
+      const limiterStore = makeLimiterStore('rl:auth:')
+
+      await limiterStore.increment('198.51.100.1')
+      const { totalHits, resetTime } = await limiterStore.increment('198.51.100.1')
+
+      expect(totalHits).toBe(2)
+      expect(resetTime!.getTime()).toBeGreaterThan(Date.now())
+    })
+
+    it('should keep limiters apart by prefix', async () => {
+      await makeLimiterStore('rl:auth:').increment('198.51.100.1')
+
+      expect((await makeLimiterStore('rl:chat:').increment('198.51.100.1')).totalHits).toBe(1)
+    })
+
+    it('should decrement and reset a client', async () => {
+      const limiterStore = makeLimiterStore('rl:auth:')
+      await limiterStore.increment('198.51.100.1')
+      await limiterStore.increment('198.51.100.1')
+
+      await limiterStore.decrement('198.51.100.1')
+      expect(await store.get('rl:auth:198.51.100.1')).toBe(1)
+
+      await limiterStore.resetKey('198.51.100.1')
+      expect(await store.get('rl:auth:198.51.100.1')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import 'reflect-metadata'
+
+// Mock the data source - ledger writes run inside a transaction with the wallet locked
+const mockUserRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+}
+const mockOrganizationRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+}
+const mockTransactionRepo = {
+  create: jest.fn(),
+  save: jest.fn(),
+  createQueryBuilder: jest.fn(),
+}
+const mockQuery = jest.fn()
+
+jest.mock('../data-source', () => {
+  const { User, Organization, CreditTransaction } = jest.requireActual('../entities')
+  const getRepository = (entity: unknown) => {
+    if (entity === User) return mockUserRepo
+    if (entity === Organization) return mockOrganizationRepo
+    if (entity === CreditTransaction) return mockTransactionRepo
+    throw new Error('Unexpected repository')
+  }
+  const manager = { getRepository }
+  return {
+    AppDataSource: {
+      getRepository,
+      manager,
+      query: (...args: unknown[]) => mockQuery(...args),
+      transaction: (fn: (m: typeof manager) => unknown) => fn(manager),
+    },
+  }
+})
+
+import {
+  validateTransactionAmount,
+  recordTransaction,
+  grantWelcomeBonus,
+  rebuildBalance,
+  rebuildOrganizationBalance,
+  findBalanceMismatches,
+  findOrganizationBalanceMismatches,
+} from '../services/ledger.service'
+import { ValidationError } from '../errors/app.error'
+
+const mockLedgerSum = (total: number) => {
+  const qb = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getRawOne: jest.fn().mockResolvedValue({ total: String(total) }),
+  }
+  mockTransactionRepo.createQueryBuilder.mockReturnValue(qb)
+}
+
+describe('Ledger Service', () => {
+  beforeEach(() => {
+    mockTransactionRepo.create.mockImplementation((data) => data)
+    mockTransactionRepo.save.mockImplementation(async (data) => ({ id: 'tx-1', ...data }))
+  })
+
+  describe('validateTransactionAmount', () => {
+    it('should accept credits for grant, purchase and refund', () => {
+      expect(() => validateTransactionAmount('grant', 100)).not.toThrow()
+      expect(() => validateTransactionAmount('purchase', 500)).not.toThrow()
+      expect(() => validateTransactionAmount('refund', 18)).not.toThrow()
+    })
+
+    it('should accept debits for spend and expiry', () => {
+      expect(() => validateTransactionAmount('spend', -18)).not.toThrow()
+      expect(() => validateTransactionAmount('expiry', -100)).not.toThrow()
+    })
+
+    it('should accept adjustments in either direction', () => {
+      expect(() => validateTransactionAmount('adjustment', 50)).not.toThrow()
+      expect(() => validateTransactionAmount('adjustment', -50)).not.toThrow()
+    })
+
+    it('should reject a sign that does not match the type', () => {
+      expect(() => validateTransactionAmount('spend', 18)).toThrow(ValidationError)
+      expect(() => validateTransactionAmount('purchase', -500)).toThrow(ValidationError)
+    })
+
+    it('should reject zero and fractional amounts', () => {
+      expect(() => validateTransactionAmount('adjustment', 0)).toThrow(ValidationError)
+      expect(() => validateTransactionAmount('grant', 1.5)).toThrow(ValidationError)
+    })
+  })
+
+  describe('recordTransaction', () => {
+    it('should write the entry and move the cached balance with it', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: '100' })
+
+      const entry = await recordTransaction({
+        userId: 'user-1',
+        type: 'purchase',
+        amount: 500,
+        paymentId: 'payment-1',
+      })
+
+      expect(entry).toMatchObject({
+        type: 'purchase',
+        amount: 500,
+        balanceAfter: 600,
+        counterAccount: 'system:revenue',
+        paymentId: 'payment-1',
+      })
+      expect(mockUserRepo.update).toHaveBeenCalledWith('user-1', { tokenBalance: 600 })
+    })
+
+    it('should lock the wallet row', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 100 })
+
+      await recordTransaction({ userId: 'user-1', type: 'spend', amount: -18 })
+
+      expect(mockUserRepo.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } })
+      )
+    })
+
+    it('should not touch the balance when the entry is invalid', async () => {
+      await expect(
+        recordTransaction({ userId: 'user-1', type: 'spend', amount: 18 })
+      ).rejects.toBeInstanceOf(ValidationError)
+      expect(mockTransactionRepo.save).not.toHaveBeenCalled()
+      expect(mockUserRepo.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('grantWelcomeBonus', () => {
+    it('should grant the bonus once', async () => {
+      mockUserRepo.update.mockResolvedValueOnce({ affected: 1 })
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 0 })
+
+      const entry = await grantWelcomeBonus('user-1', 100)
+
+      expect(entry).toMatchObject({ type: 'grant', amount: 100, balanceAfter: 100 })
+    })
+
+    it('should skip users who already received it', async () => {
+      mockUserRepo.update.mockResolvedValueOnce({ affected: 0 })
+
+      const entry = await grantWelcomeBonus('user-1', 100)
+
+      expect(entry).toBeNull()
+      expect(mockTransactionRepo.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rebuildBalance', () => {
+    it('should reset the cached balance to the ledger sum and clear the flag', async () => {
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-1', tokenBalance: 250 })
+      mockLedgerSum(200)
+
+      const result = await rebuildBalance('user-1')
+
+      expect(result).toEqual({ previousBalance: 250, balance: 200 })
+      expect(mockUserRepo.update).toHaveBeenCalledWith('user-1', {
+        tokenBalance: 200,
+        balanceMismatchAt: null,
+      })
+    })
+  })
+
+  describe('rebuildOrganizationBalance', () => {
+    it('should reset the pool balance to the sum of the organization entries', async () => {
+      mockOrganizationRepo.findOne.mockResolvedValue({ id: 'org-1', tokenBalance: '900' })
+      mockLedgerSum(1000)
+
+      const result = await rebuildOrganizationBalance('org-1')
+
+      expect(result).toEqual({ previousBalance: 900, balance: 1000 })
+      expect(mockOrganizationRepo.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } })
+      )
+      expect(mockOrganizationRepo.update).toHaveBeenCalledWith('org-1', {
+        tokenBalance: 1000,
+        balanceMismatchAt: null,
+      })
+      expect(mockUserRepo.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findBalanceMismatches', () => {
+    it('should convert bigint columns to numbers', async () => {
+      mockQuery.mockResolvedValue([
+        { userId: 'user-1', email: 'a@example.com', cachedBalance: '250', ledgerBalance: '200' },
+      ])
+
+      const mismatches = await findBalanceMismatches()
+
+      expect(mismatches).toEqual([
+        { userId: 'user-1', email: 'a@example.com', cachedBalance: 250, ledgerBalance: 200 },
+      ])
+    })
+  })
+
+  describe('findOrganizationBalanceMismatches', () => {
+    it('should compare each pool with its organization entries', async () => {
+      mockQuery.mockResolvedValue([
+        { organizationId: 'org-1', name: 'Acme', cachedBalance: '900', ledgerBalance: '1000' },
+      ])
+
+      const mismatches = await findOrganizationBalanceMismatches()
+
+      expect(mockQuery.mock.calls[0][0]).toContain('t."organizationId" = o.id')
+      expect(mismatches).toEqual([
+        { organizationId: 'org-1', name: 'Acme', cachedBalance: 900, ledgerBalance: 1000 },
+      ])
+    })
+  })
+})
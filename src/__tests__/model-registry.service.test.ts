@@ -0,0 +1,191 @@
+import 'reflect-metadata'
+
+// Mock the data source - the registry reads and writes ai_models only
+const mockModelRepo = {
+  find: jest.fn(),
+  findOne: jest.fn(),
+  create: jest.fn(),
+  save: jest.fn(),
+  remove: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { AiModel } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === AiModel) return mockModelRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
+import {
+  DEFAULT_CHAT_MODEL,
+  invalidateModelCache,
+  findEnabledModel,
+  getModelPricing,
+  calculateModelCost,
+  checkModelRequest,
+  formatModel,
+  createModel,
+  updateModel,
+  deleteModel,
+} from '../services/model-registry.service'
+import { AiModel } from '../entities'
+import { ConflictError, NotFoundError, ValidationError } from '../errors/app.error'
+
+const makeModel = (overrides: Partial<AiModel> = {}): AiModel => ({
+  id: 'model-1',
+  modelId: 'gpt-4o',
+  ownedBy: 'openai',
+  description: 'OpenAI GPT-4 Omni',
+  upstreamUrl: 'https://api.kie.ai/openai/v1/chat/completions',
+  contextWindow: 128000,
+  maxOutputTokens: 16384,
+  inputPricePer1K: '0.002500' as unknown as number,
+  outputPricePer1K: '0.010000' as unknown as number,
+  inputModalities: ['text', 'image'],
+  enabled: true,
+  sortOrder: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+} as AiModel)
+
+const validInput = {
+  modelId: 'gpt-4.1',
+  ownedBy: 'openai',
+  upstreamUrl: 'https://api.kie.ai/openai/v1/chat/completions',
+  contextWindow: 1000000,
+  inputPricePer1K: 0.002,
+  outputPricePer1K: 0.008,
+}
+
+describe('Model Registry Service', () => {
+  beforeEach(() => {
+    invalidateModelCache()
+    mockModelRepo.find.mockResolvedValue([])
+    mockModelRepo.create.mockImplementation((data) => data)
+    mockModelRepo.save.mockImplementation(async (data) => ({ id: 'model-2', ...data }))
+  })
+
+  describe('calculateModelCost', () => {
+    it('should price input and output tokens separately', () => {
+      expect(calculateModelCost(makeModel(), 1000, 1000)).toBeCloseTo(0.0125)
+      expect(calculateModelCost(makeModel(), 2000, 0)).toBeCloseTo(0.005)
+    })
+
+    it('should apply the multiplier', () => {
+      expect(calculateModelCost(makeModel(), 1000, 1000, 2)).toBeCloseTo(0.025)
+    })
+  })
+
+  describe('getModelPricing', () => {
+    it('should prefer the registry entry', async () => {
+      mockModelRepo.find.mockResolvedValue([makeModel()])
+
+      expect(Number((await getModelPricing('gpt-4o')).outputPricePer1K)).toBe(0.01)
+    })
+
+    it('should fall back to the built-in catalogue before seeding', async () => {
+      const pricing = await getModelPricing(DEFAULT_CHAT_MODEL)
+
+      expect(pricing.inputPricePer1K).toBe(0.001)
+    })
+  })
+
+  describe('findEnabledModel', () => {
+    it('should hide disabled and unknown models', async () => {
+      mockModelRepo.find.mockResolvedValue([makeModel({ enabled: false })])
+
+      expect(await findEnabledModel('gpt-4o')).toBeNull()
+      expect(await findEnabledModel('gpt-5')).toBeNull()
+    })
+  })
+
+  describe('checkModelRequest', () => {
+    it('should accept requests within limits', () => {
+      expect(checkModelRequest(makeModel(), { inputTokens: 1000, maxTokens: 4096, hasImages: true })).toBeNull()
+    })
+
+    it('should reject images for text-only models', () => {
+      const error = checkModelRequest(makeModel({ inputModalities: ['text'] }), { inputTokens: 10, hasImages: true })
+
+      expect(error).toMatchObject({ code: 'unsupported_modality', param: 'messages' })
+    })
+
+    it('should reject max_tokens above the model limit', () => {
+      const error = checkModelRequest(makeModel(), { inputTokens: 10, maxTokens: 20000, hasImages: false })
+
+      expect(error).toMatchObject({ code: 'invalid_value', param: 'max_tokens' })
+    })
+
+    it('should reject prompts that overflow the context window', () => {
+      const error = checkModelRequest(makeModel(), { inputTokens: 120000, maxTokens: 10000, hasImages: false })
+
+      expect(error?.code).toBe('context_length_exceeded')
+    })
+  })
+
+  describe('formatModel', () => {
+    it('should return the OpenAI model shape with limits and prices', () => {
+      expect(formatModel(makeModel())).toMatchObject({
+        id: 'gpt-4o',
+        object: 'model',
+        created: 1767225600,
+        owned_by: 'openai',
+        context_window: 128000,
+        input_modalities: ['text', 'image'],
+        pricing: { input_per_1k: 0.0025, output_per_1k: 0.01 },
+      })
+    })
+  })
+
+  describe('createModel', () => {
+    it('should create a model', async () => {
+      mockModelRepo.findOne.mockResolvedValue(null)
+
+      const model = await createModel(validInput)
+
+      expect(model).toMatchObject({ id: 'model-2', modelId: 'gpt-4.1', outputPricePer1K: 0.008 })
+    })
+
+    it('should validate required fields', async () => {
+      await expect(createModel({ ...validInput, upstreamUrl: 'http://insecure' })).rejects.toThrow(ValidationError)
+      await expect(createModel({ ...validInput, inputPricePer1K: -1 })).rejects.toThrow(ValidationError)
+      await expect(createModel({ ...validInput, inputModalities: ['image'] })).rejects.toThrow(ValidationError)
+      await expect(createModel({ ...validInput, contextWindow: undefined })).rejects.toThrow(ValidationError)
+    })
+
+    it('should reject duplicate model ids', async () => {
+      mockModelRepo.findOne.mockResolvedValue(makeModel({ modelId: 'gpt-4.1' }))
+
+      await expect(createModel(validInput)).rejects.toThrow(ConflictError)
+    })
+  })
+
+  describe('updateModel', () => {
+    it('should 404 for an unknown id', async () => {
+      mockModelRepo.findOne.mockResolvedValue(null)
+
+      await expect(updateModel('missing', { enabled: false })).rejects.toThrow(NotFoundError)
+    })
+
+    it('should not rename the default chat model', async () => {
+      mockModelRepo.findOne.mockResolvedValue(makeModel({ modelId: DEFAULT_CHAT_MODEL }))
+
+      await expect(updateModel('model-1', { modelId: 'renamed' })).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('deleteModel', () => {
+    it('should keep the default chat model', async () => {
+      mockModelRepo.findOne.mockResolvedValue(makeModel({ modelId: DEFAULT_CHAT_MODEL }))
+
+      await expect(deleteModel('model-1')).rejects.toThrow(ValidationError)
+      expect(mockModelRepo.remove).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { getMultipartBoundary, parseMultipart } from '../utils/multipart'
+import { ValidationError } from '../errors/app.error'
+
+const BOUNDARY = '----form-boundary-1'
+
+// Body as the OpenAI SDKs send it: text fields and binary file parts
+const buildBody = (parts: Array<{ name: string; value: string | Buffer; filename?: string; type?: string }>) =>
+  Buffer.concat([
+    ...parts.flatMap(({ name, value, filename, type }) => [
+      Buffer.from(
+        `--${BOUNDARY}\r\n` +
+          `Content-Disposition: form-data; name="${name}"${filename ? `; filename="${filename}"` : ''}\r\n` +
+          (type ? `Content-Type: ${type}\r\n` : '') +
+          '\r\n'
+      ),
+      Buffer.isBuffer(value) ? value : Buffer.from(value),
+      Buffer.from('\r\n'),
+    ]),
+    Buffer.from(`--${BOUNDARY}--\r\n`),
+  ])
+
+describe('Multipart parser', () => {
+  describe('getMultipartBoundary', () => {
+    it('should read quoted and unquoted boundaries', () => {
+      expect(getMultipartBoundary(`multipart/form-data; boundary=${BOUNDARY}`)).toBe(BOUNDARY)
+      expect(getMultipartBoundary(`multipart/form-data; boundary="${BOUNDARY}"`)).toBe(BOUNDARY)
+    })
+
+    it('should return null for other content types', () => {
+      expect(getMultipartBoundary('application/json')).toBeNull()
+      expect(getMultipartBoundary(undefined)).toBeNull()
+    })
+  })
+
+  describe('parseMultipart', () => {
+    it('should split fields and files, keeping binary data intact', () => {
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x2d, 0x2d, 0x00, 0xff])
+      const form = parseMultipart(
+        buildBody([
+          { name: 'prompt', value: 'Add a hat' },
+          { name: 'n', value: '2' },
+          { name: 'image[]', value: image, filename: 'cat.png', type: 'image/png' },
+        ]),
+        BOUNDARY
+      )
+
+      expect(form.fields).toEqual({ prompt: 'Add a hat', n: '2' })
+      expect(form.files).toHaveLength(1)
+      expect(form.files[0]).toMatchObject({ fieldName: 'image[]', filename: 'cat.png', contentType: 'image/png' })
+      expect(form.files[0].data.equals(image)).toBe(true)
+    })
+
+    it('should reject a body without the closing boundary', () => {
+      const body = Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="prompt"\r\n\r\nunterminated`)
+      expect(() => parseMultipart(body, BOUNDARY)).toThrow(ValidationError)
+    })
+
+    it('should reject a body with another boundary', () => {
+      expect(() => parseMultipart(buildBody([{ name: 'prompt', value: 'x' }]), 'other')).toThrow(ValidationError)
+    })
+  })
+})
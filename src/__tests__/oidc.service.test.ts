@@ -0,0 +1,171 @@
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import {
+  getOAuthProvider,
+  listOAuthProviders,
+  resetOAuthProviders,
+  createAuthorizationRequest,
+  completeAuthorization,
+  verifyIdToken,
+} from '../services/oidc.service'
+import { NotFoundError, UnauthorizedError } from '../errors/app.error'
+
+const ISSUER = 'https://idp.acme.test'
+
+// Signing key of the fake identity provider
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }
+
+const discovery = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+  id_token_signing_alg_values_supported: ['RS256'],
+}
+
+const signIdToken = (claims: Record<string, unknown>, options: jwt.SignOptions = {}) =>
+  jwt.sign(
+    { sub: 'acme-user-1', email: 'Dev@Acme.test', email_verified: true, name: 'Dev', ...claims },
+    privateKey,
+    { algorithm: 'RS256', keyid: 'key-1', issuer: ISSUER, audience: 'acme-client', expiresIn: '5m', ...options }
+  )
+
+const jsonResponse = (body: unknown, status = 200) =>
+  ({ ok: status < 400, status, json: async () => body }) as Response
+
+describe('OIDC Service', () => {
+  const fetchMock = jest.fn()
+  let tokenResponse: Record<string, unknown>
+
+  beforeAll(() => {
+    process.env.OIDC_PROVIDERS = 'acme'
+    process.env.OIDC_ACME_ISSUER = ISSUER
+    process.env.OIDC_ACME_CLIENT_ID = 'acme-client'
+    process.env.OIDC_ACME_CLIENT_SECRET = 'acme-secret'
+    process.env.OIDC_ACME_NAME = 'Acme SSO'
+    process.env.GITHUB_CLIENT_ID = 'gh-client'
+    process.env.GITHUB_CLIENT_SECRET = 'gh-secret'
+    global.fetch = fetchMock as unknown as typeof fetch
+  })
+
+  afterAll(() => {
+    for (const name of ['OIDC_PROVIDERS', 'OIDC_ACME_ISSUER', 'OIDC_ACME_CLIENT_ID', 'OIDC_ACME_CLIENT_SECRET', 'OIDC_ACME_NAME', 'GITHUB_CLIENT_ID', 'GITHUB_CLIENT_SECRET']) {
+      delete process.env[name]
+    }
+    resetOAuthProviders()
+  })
+
+  beforeEach(() => {
+    resetOAuthProviders()
+    tokenResponse = {}
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url === `${ISSUER}/.well-known/openid-configuration`) return jsonResponse(discovery)
+      if (url === `${ISSUER}/jwks`) return jsonResponse({ keys: [jwk] })
+      if (url === `${ISSUER}/token`) return jsonResponse(tokenResponse)
+      if (url === 'https://github.com/login/oauth/access_token') return jsonResponse({ access_token: 'gho_token' })
+      if (url === 'https://api.github.com/user') {
+        return jsonResponse({ id: 42, login: 'octo', name: null, avatar_url: 'https://avatars.test/42' })
+      }
+      if (url === 'https://api.github.com/user/emails') {
+        return jsonResponse([
+          { email: 'old@octo.test', primary: false, verified: true },
+          { email: 'Octo@Octo.test', primary: true, verified: true },
+        ])
+      }
+      return jsonResponse({}, 404)
+    })
+  })
+
+  describe('provider configuration', () => {
+    it('should load custom OIDC providers from the environment', () => {
+      expect(listOAuthProviders()).toEqual(expect.arrayContaining([
+        { id: 'acme', name: 'Acme SSO' },
+        { id: 'github', name: 'GitHub' },
+      ]))
+      expect(getOAuthProvider('acme').callbackUrl).toMatch(/\/api\/auth\/oauth\/acme\/callback$/)
+    })
+
+    it('should reject providers that are not configured', () => {
+      expect(() => getOAuthProvider('unknown')).toThrow(NotFoundError)
+    })
+  })
+
+  describe('createAuthorizationRequest', () => {
+    it('should send an S256 PKCE challenge and a nonce', async () => {
+      const request = await createAuthorizationRequest(getOAuthProvider('acme'), 'state-1')
+      const url = new URL(request.url)
+
+      expect(url.origin + url.pathname).toBe(`${ISSUER}/authorize`)
+      expect(url.searchParams.get('state')).toBe('state-1')
+      expect(url.searchParams.get('nonce')).toBe(request.nonce)
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256')
+      expect(url.searchParams.get('code_challenge')).toBe(
+        crypto.createHash('sha256').update(request.codeVerifier).digest('base64url')
+      )
+    })
+  })
+
+  describe('verifyIdToken', () => {
+    it('should accept a token signed by the provider for this client', async () => {
+      const claims = await verifyIdToken(getOAuthProvider('acme'), signIdToken({ nonce: 'n-1' }), 'n-1')
+      expect(claims.sub).toBe('acme-user-1')
+    })
+
+    it('should reject a token for another client', async () => {
+      const token = signIdToken({}, { audience: 'someone-else' })
+      await expect(verifyIdToken(getOAuthProvider('acme'), token)).rejects.toThrow(UnauthorizedError)
+    })
+
+    it('should reject a token whose nonce does not match', async () => {
+      await expect(
+        verifyIdToken(getOAuthProvider('acme'), signIdToken({ nonce: 'other' }), 'n-1')
+      ).rejects.toThrow(UnauthorizedError)
+    })
+
+    it('should reject a token signed with the client secret', async () => {
+      const token = jwt.sign({ sub: 'x' }, 'acme-secret', { algorithm: 'HS256', issuer: ISSUER, audience: 'acme-client' })
+      await expect(verifyIdToken(getOAuthProvider('acme'), token)).rejects.toThrow(UnauthorizedError)
+    })
+  })
+
+  describe('completeAuthorization', () => {
+    it('should exchange the code with the PKCE verifier and return the verified identity', async () => {
+      tokenResponse = { access_token: 'at', id_token: signIdToken({ nonce: 'n-1' }) }
+
+      const identity = await completeAuthorization(getOAuthProvider('acme'), 'code-1', { codeVerifier: 'verifier-1', nonce: 'n-1' })
+
+      const [, init] = fetchMock.mock.calls.find(([url]) => url === `${ISSUER}/token`)!
+      expect(new URLSearchParams(init.body).get('code_verifier')).toBe('verifier-1')
+      expect(identity).toEqual({
+        provider: 'acme',
+        subject: 'acme-user-1',
+        email: 'dev@acme.test',
+        emailVerified: true,
+        name: 'Dev',
+        avatarUrl: null,
+      })
+    })
+
+    it('should not treat an email as verified without the claim', async () => {
+      tokenResponse = { access_token: 'at', id_token: signIdToken({ nonce: 'n-1', email_verified: false }) }
+
+      const identity = await completeAuthorization(getOAuthProvider('acme'), 'code-1', { codeVerifier: 'v', nonce: 'n-1' })
+
+      expect(identity.emailVerified).toBe(false)
+    })
+
+    it('should use the primary verified GitHub email', async () => {
+      const identity = await completeAuthorization(getOAuthProvider('github'), 'code-1', { codeVerifier: 'v', nonce: 'n' })
+
+      expect(identity).toEqual({
+        provider: 'github',
+        subject: '42',
+        email: 'octo@octo.test',
+        emailVerified: true,
+        name: 'octo',
+        avatarUrl: 'https://avatars.test/42',
+      })
+    })
+  })
+})
@@ -0,0 +1,305 @@
+// Mock dependencies before imports
+jest.mock('../services/kie-api.service', () => ({
+  createTask: jest.fn(),
+}))
+jest.mock('../services/credit-reservation.service', () => ({
+  reserveCredits: jest.fn(),
+  releaseReservation: jest.fn(),
+  setReservationReference: jest.fn(),
+}))
+jest.mock('../services/usage.service', () => ({
+  logUsage: jest.fn(),
+  API_IMAGE_CREDITS: 1,
+}))
+jest.mock('../services/generation-job.service', () => ({
+  createGenerationJob: jest.fn(),
+  pollJob: jest.fn(),
+  failJob: jest.fn(),
+}))
+jest.mock('../services/image-storage.service', () => ({
+  persistImageBuffer: jest.fn(),
+  getSignedImageUrl: jest.fn(),
+  readStoredImage: jest.fn(),
+  findStoredImage: jest.fn(),
+  downloadImage: jest.fn(),
+}))
+
+import { createTask } from '../services/kie-api.service'
+import { reserveCredits, releaseReservation } from '../services/credit-reservation.service'
+import { createGenerationJob, pollJob, failJob } from '../services/generation-job.service'
+import {
+  persistImageBuffer,
+  getSignedImageUrl,
+  readStoredImage,
+  findStoredImage,
+} from '../services/image-storage.service'
+import {
+  generateImages,
+  parseImageOptions,
+  parsePrompt,
+  parseAsyncOptions,
+  resolveInputImages,
+  startImageJobs,
+  ImageParamError,
+  ImageOptions,
+} from '../services/openai-image.service'
+import { AppError, InsufficientQuotaError } from '../errors/app.error'
+
+const mockCreateTask = createTask as jest.Mock
+const mockReserveCredits = reserveCredits as jest.Mock
+const mockReleaseReservation = releaseReservation as jest.Mock
+const mockCreateGenerationJob = createGenerationJob as jest.Mock
+const mockPollJob = pollJob as jest.Mock
+const mockFailJob = failJob as jest.Mock
+const mockPersistImageBuffer = persistImageBuffer as jest.Mock
+const mockGetSignedImageUrl = getSignedImageUrl as jest.Mock
+const mockReadStoredImage = readStoredImage as jest.Mock
+const mockFindStoredImage = findStoredImage as jest.Mock
+
+// Smallest PNG header getImageInfo recognises
+const png = () => {
+  const buffer = Buffer.alloc(24)
+  buffer.writeUInt32BE(0x89504e47, 0)
+  buffer.writeUInt32BE(0x0d0a1a0a, 4)
+  buffer.writeUInt32BE(13, 8)
+  buffer.write('IHDR', 12, 'ascii')
+  buffer.writeUInt32BE(64, 16)
+  buffer.writeUInt32BE(64, 20)
+  return buffer
+}
+
+const expectParamError = (fn: () => unknown, param: string) => {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(ImageParamError)
+    expect((error as ImageParamError).param).toBe(param)
+    return
+  }
+  throw new Error('Expected an ImageParamError')
+}
+
+describe('OpenAI Image Service', () => {
+  describe('parsePrompt', () => {
+    it('should keep the existing error codes', () => {
+      expect(() => parsePrompt({})).toThrow(expect.objectContaining({ param: 'prompt', openaiCode: 'invalid_prompt' }))
+      expect(() => parsePrompt({ prompt: 'a'.repeat(4001) })).toThrow(expect.objectContaining({ openaiCode: 'prompt_too_long' }))
+      expect(parsePrompt({ prompt: 'A cat' })).toBe('A cat')
+    })
+  })
+
+  describe('parseImageOptions', () => {
+    it('should default to one square 1K image as a URL', () => {
+      expect(parseImageOptions({})).toEqual({ n: 1, aspectRatio: '1:1', resolution: '1K', responseFormat: 'url' })
+    })
+
+    it('should read multipart string values', () => {
+      expect(parseImageOptions({ n: '3', size: '1792x1024', response_format: 'b64_json' })).toEqual({
+        n: 3,
+        aspectRatio: '16:9',
+        resolution: '2K',
+        responseFormat: 'b64_json',
+      })
+    })
+
+    it('should map quality to the upstream resolution', () => {
+      expect(parseImageOptions({ quality: 'hd' }).resolution).toBe('4K')
+      expect(parseImageOptions({ quality: 'medium' }).resolution).toBe('2K')
+      expect(parseImageOptions({ quality: 'standard', size: '1792x1024' }).resolution).toBe('1K')
+      expect(parseImageOptions({ quality: 'auto', size: '1536x1024' })).toMatchObject({ aspectRatio: '3:2', resolution: '2K' })
+    })
+
+    it('should name the invalid parameter', () => {
+      expectParamError(() => parseImageOptions({ n: 11 }), 'n')
+      expectParamError(() => parseImageOptions({ n: '1.5' }), 'n')
+      expectParamError(() => parseImageOptions({ response_format: 'png' }), 'response_format')
+      expectParamError(() => parseImageOptions({ quality: 'ultra' }), 'quality')
+    })
+  })
+
+  describe('parseAsyncOptions', () => {
+    it('should default to a blocking request', () => {
+      expect(parseAsyncOptions({}, parseImageOptions({}))).toEqual({ async: false, webhookUrl: undefined })
+    })
+
+    it('should accept a public HTTPS webhook for async requests', () => {
+      expect(parseAsyncOptions({ async: 'true', webhook_url: 'https://hooks.example.com/images' }, parseImageOptions({})))
+        .toEqual({ async: true, webhookUrl: 'https://hooks.example.com/images' })
+    })
+
+    it('should name the invalid parameter', () => {
+      const options = parseImageOptions({})
+      expectParamError(() => parseAsyncOptions({ async: 'yes' }, options), 'async')
+      expectParamError(() => parseAsyncOptions({ webhook_url: 'https://hooks.example.com' }, options), 'webhook_url')
+      expectParamError(() => parseAsyncOptions({ async: true, webhook_url: 'http://localhost/hook' }, options), 'webhook_url')
+      expectParamError(() => parseAsyncOptions({ async: true }, parseImageOptions({ response_format: 'b64_json' })), 'response_format')
+    })
+  })
+
+  describe('resolveInputImages', () => {
+    beforeEach(() => {
+      mockPersistImageBuffer.mockResolvedValue({ id: 'upload-1' })
+      mockGetSignedImageUrl.mockImplementation((id: string) => `https://api.test/api/images/${id}?signed`)
+    })
+
+    it('should store uploads and base64 images and pass https URLs through', async () => {
+      const urls = await resolveInputImages('user-1', {
+        params: { image: [`data:image/png;base64,${png().toString('base64')}`, 'https://cdn.test/ref.png'] },
+        files: [{ fieldName: 'image[]', filename: 'a.png', contentType: 'image/png', data: png() }],
+      })
+
+      expect(urls).toEqual([
+        'https://api.test/api/images/upload-1?signed',
+        'https://api.test/api/images/upload-1?signed',
+        'https://cdn.test/ref.png',
+      ])
+      expect(mockPersistImageBuffer).toHaveBeenCalledTimes(2)
+      expect(mockPersistImageBuffer).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }))
+    })
+
+    it('should reject masks, which the upstream cannot apply', async () => {
+      await expect(resolveInputImages('user-1', {
+        params: {},
+        files: [
+          { fieldName: 'image', filename: 'a.png', contentType: 'image/png', data: png() },
+          { fieldName: 'mask', filename: 'm.png', contentType: 'image/png', data: png() },
+        ],
+      })).rejects.toMatchObject({ param: 'mask' })
+      expect(mockPersistImageBuffer).not.toHaveBeenCalled()
+    })
+
+    it('should reject files that are not images and plain http URLs', async () => {
+      await expect(resolveInputImages('user-1', {
+        params: {},
+        files: [{ fieldName: 'image', filename: 'a.txt', contentType: 'text/plain', data: Buffer.from('hello') }],
+      })).rejects.toBeInstanceOf(ImageParamError)
+      await expect(resolveInputImages('user-1', { params: { image: 'http://internal/ref.png' }, files: [] }))
+        .rejects.toMatchObject({ param: 'image' })
+    })
+
+    it('should enforce the image count', async () => {
+      await expect(resolveInputImages('user-1', { params: {}, files: [] })).rejects.toMatchObject({ param: 'image' })
+      await expect(resolveInputImages('user-1', {
+        params: { images: [{ image_url: 'https://cdn.test/1.png' }, { image_url: 'https://cdn.test/2.png' }] },
+        files: [],
+      }, { max: 1 })).rejects.toMatchObject({ param: 'image' })
+    })
+  })
+
+  describe('image jobs', () => {
+    const options = (overrides: Partial<ImageOptions> = {}): ImageOptions => ({
+      n: 1,
+      aspectRatio: '1:1',
+      resolution: '1K',
+      responseFormat: 'url',
+      ...overrides,
+    })
+    const input = { userId: 'user-1', organizationId: null, apiKeyId: 'key-1', prompt: 'A cat' }
+    const job = (id: string, overrides: Record<string, unknown> = {}) => ({
+      id,
+      status: 'processing',
+      prompt: 'A cat',
+      storedImageId: null,
+      resultUrl: null,
+      error: null,
+      ...overrides,
+    })
+
+    // Runs the blocking generation while advancing the poll timers
+    const run = async (options: ImageOptions, imageInput?: string[]) => {
+      const promise = generateImages({ ...input, options, imageInput })
+      promise.catch(() => {})
+      await jest.runAllTimersAsync()
+      return promise
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers()
+      let reservations = 0
+      let tasks = 0
+      mockReserveCredits.mockImplementation(async () => ({ id: `res-${++reservations}` }))
+      mockReleaseReservation.mockResolvedValue(undefined)
+      mockCreateTask.mockImplementation(async () => ({ code: 200, msg: 'ok', data: { taskId: `task-${++tasks}` } }))
+      mockCreateGenerationJob.mockImplementation(async ({ taskId }: { taskId: string }) => job(`job-${taskId}`))
+      mockPollJob.mockImplementation(async ({ id }: { id: string }) =>
+        job(id, { status: 'completed', storedImageId: `img-${id}` })
+      )
+      mockFailJob.mockImplementation(async ({ id }: { id: string }, error: string) => job(id, { status: 'failed', error }))
+      mockGetSignedImageUrl.mockImplementation((id: string) => `https://api.test/api/images/${id}?signed`)
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should start one job per image with its own hold and the API key', async () => {
+      const jobs = await startImageJobs({ ...input, options: options({ n: 2 }), webhookUrl: 'https://hooks.example.com' })
+
+      expect(jobs.map((j) => j.id)).toEqual(['job-task-1', 'job-task-2'])
+      expect(mockCreateGenerationJob).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: 'task-1',
+        reservationId: 'res-1',
+        apiKeyId: 'key-1',
+        webhookUrl: 'https://hooks.example.com',
+      }))
+      expect(mockPollJob).not.toHaveBeenCalled()
+    })
+
+    it('should wait for the jobs and pass reference images when blocking', async () => {
+      const data = await run(options({ n: 2 }), ['https://cdn.test/ref.png'])
+
+      expect(data).toEqual([
+        { url: 'https://api.test/api/images/img-job-task-1?signed', revised_prompt: 'A cat' },
+        { url: 'https://api.test/api/images/img-job-task-2?signed', revised_prompt: 'A cat' },
+      ])
+      expect(mockCreateTask).toHaveBeenCalledWith(expect.objectContaining({ image_input: ['https://cdn.test/ref.png'] }))
+    })
+
+    it('should return stored bytes for b64_json', async () => {
+      mockFindStoredImage.mockResolvedValue({ id: 'img-job-task-1' })
+      mockReadStoredImage.mockResolvedValue(Buffer.from('png-bytes'))
+
+      const data = await run(options({ responseFormat: 'b64_json' }))
+
+      expect(data).toEqual([{ b64_json: Buffer.from('png-bytes').toString('base64'), revised_prompt: 'A cat' }])
+    })
+
+    it('should release earlier holds when the balance cannot cover every image', async () => {
+      mockReserveCredits
+        .mockResolvedValueOnce({ id: 'res-1' })
+        .mockRejectedValueOnce(new InsufficientQuotaError(1, 0))
+
+      await expect(run(options({ n: 2 }))).rejects.toBeInstanceOf(InsufficientQuotaError)
+      expect(mockReleaseReservation).toHaveBeenCalledWith('res-1', 'request_rejected')
+      expect(mockCreateTask).not.toHaveBeenCalled()
+    })
+
+    it('should release the hold when the upstream rejects the task', async () => {
+      mockCreateTask.mockResolvedValue({ code: 500, msg: 'upstream busy' })
+
+      await expect(run(options())).rejects.toMatchObject({ statusCode: 500, code: 'generation_failed' })
+      expect(mockReleaseReservation).toHaveBeenCalledWith('res-1', 'task_creation_failed')
+      expect(mockCreateGenerationJob).not.toHaveBeenCalled()
+    })
+
+    it('should return only the images that succeeded', async () => {
+      mockPollJob.mockImplementation(async ({ id }: { id: string }) => (
+        id === 'job-task-2'
+          ? job(id, { status: 'failed', error: 'blocked' })
+          : job(id, { status: 'completed', storedImageId: `img-${id}` })
+      ))
+
+      const data = await run(options({ n: 2 }))
+
+      expect(data).toHaveLength(1)
+    })
+
+    it('should fail a job that outlives the blocking request so it is not billed later', async () => {
+      mockPollJob.mockImplementation(async ({ id }: { id: string }) => job(id))
+
+      await expect(run(options())).rejects.toMatchObject({ statusCode: 504, code: 'timeout' })
+      await expect(run(options())).rejects.toBeInstanceOf(AppError)
+      expect(mockFailJob).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-task-1' }), 'Image generation timed out')
+    })
+  })
+})
@@ -0,0 +1,182 @@
+import 'reflect-metadata'
+
+// Mock the data source - memberships and invitations change inside transactions
+const mockOrganizationRepo = {
+  findOne: jest.fn(),
+}
+const mockMemberRepo = {
+  findOne: jest.fn(),
+  count: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn(),
+  delete: jest.fn(),
+}
+const mockInvitationRepo = {
+  findOne: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn(),
+  delete: jest.fn(),
+  update: jest.fn(),
+}
+const mockUserRepo = {
+  findOne: jest.fn(),
+}
+const mockApiKeyRepo = {
+  update: jest.fn(),
+}
+const mockSendInvitation = jest.fn()
+
+jest.mock('../data-source', () => {
+  const { Organization, OrganizationMember, OrganizationInvitation, User, ApiKey } = jest.requireActual('../entities')
+  const getRepository = (entity: unknown) => {
+    if (entity === Organization) return mockOrganizationRepo
+    if (entity === OrganizationMember) return mockMemberRepo
+    if (entity === OrganizationInvitation) return mockInvitationRepo
+    if (entity === User) return mockUserRepo
+    if (entity === ApiKey) return mockApiKeyRepo
+    throw new Error('Unexpected repository')
+  }
+  const manager = { getRepository }
+  return {
+    AppDataSource: {
+      getRepository,
+      manager,
+      transaction: (fn: (m: typeof manager) => unknown) => fn(manager),
+    },
+  }
+})
+
+jest.mock('../services/email.service', () => ({
+  sendOrganizationInvitationEmail: (...args: unknown[]) => mockSendInvitation(...args),
+}))
+
+import crypto from 'crypto'
+import {
+  inviteMember,
+  acceptInvitation,
+  updateMember,
+  removeMember,
+} from '../services/organization.service'
+import { ConflictError, ForbiddenError, ValidationError } from '../errors/app.error'
+
+const owner = { userId: 'owner-1', role: 'owner' as const }
+const admin = { userId: 'admin-1', role: 'admin' as const }
+
+describe('Organization Service', () => {
+  beforeEach(() => {
+    mockMemberRepo.save.mockImplementation(async (data) => data)
+    mockMemberRepo.create.mockImplementation((data) => data)
+    mockInvitationRepo.save.mockImplementation(async (data) => ({ id: 'inv-1', createdAt: new Date(), ...data }))
+    mockInvitationRepo.create.mockImplementation((data) => data)
+    mockSendInvitation.mockResolvedValue(true)
+  })
+
+  describe('inviteMember', () => {
+    it('should email a link and store only the token hash', async () => {
+      mockOrganizationRepo.findOne.mockResolvedValue({ id: 'org-1', name: 'Acme' })
+      mockUserRepo.findOne.mockResolvedValue(null)
+
+      await inviteMember('org-1', owner, 'New@Example.com', 'member')
+
+      const [email, notice] = mockSendInvitation.mock.calls[0]
+      const token = new URL(notice.acceptUrl).searchParams.get('token')!
+      const saved = mockInvitationRepo.save.mock.calls[0][0]
+      expect(email).toBe('new@example.com')
+      expect(saved.tokenHash).toBe(crypto.createHash('sha256').update(token).digest('hex'))
+      expect(JSON.stringify(saved)).not.toContain(token)
+    })
+
+    it('should not invite as owner', async () => {
+      await expect(inviteMember('org-1', owner, 'a@example.com', 'owner')).rejects.toBeInstanceOf(ValidationError)
+    })
+
+    it('should refuse existing members', async () => {
+      mockOrganizationRepo.findOne.mockResolvedValue({ id: 'org-1', name: 'Acme' })
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-2', email: 'a@example.com' })
+      mockMemberRepo.findOne.mockResolvedValue({ userId: 'user-2', role: 'member' })
+
+      await expect(inviteMember('org-1', owner, 'a@example.com', 'member')).rejects.toBeInstanceOf(ConflictError)
+    })
+  })
+
+  describe('acceptInvitation', () => {
+    const invitation = {
+      id: 'inv-1',
+      organizationId: 'org-1',
+      organization: { name: 'Acme' },
+      email: 'a@example.com',
+      role: 'billing',
+    }
+
+    it('should add the invited user with the invited role', async () => {
+      mockInvitationRepo.findOne.mockResolvedValue(invitation)
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-2', email: 'A@example.com' })
+      mockMemberRepo.findOne.mockResolvedValue(null)
+      mockInvitationRepo.update.mockResolvedValue({ affected: 1 })
+
+      const result = await acceptInvitation('user-2', 'a'.repeat(64))
+
+      expect(result).toEqual({ organizationId: 'org-1', name: 'Acme', role: 'billing' })
+      expect(mockMemberRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: 'org-1', userId: 'user-2', role: 'billing' })
+      )
+    })
+
+    it('should refuse a different signed-in email', async () => {
+      mockInvitationRepo.findOne.mockResolvedValue(invitation)
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-3', email: 'someone@example.com' })
+
+      await expect(acceptInvitation('user-3', 'a'.repeat(64))).rejects.toBeInstanceOf(ForbiddenError)
+      expect(mockMemberRepo.save).not.toHaveBeenCalled()
+    })
+
+    it('should refuse an invitation that was already used', async () => {
+      mockInvitationRepo.findOne.mockResolvedValue(invitation)
+      mockUserRepo.findOne.mockResolvedValue({ id: 'user-2', email: 'a@example.com' })
+      mockMemberRepo.findOne.mockResolvedValue(null)
+      mockInvitationRepo.update.mockResolvedValue({ affected: 0 })
+
+      await expect(acceptInvitation('user-2', 'a'.repeat(64))).rejects.toBeInstanceOf(ValidationError)
+      expect(mockMemberRepo.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateMember', () => {
+    it('should not let admins change an owner', async () => {
+      mockMemberRepo.findOne.mockResolvedValue({ organizationId: 'org-1', userId: 'owner-1', role: 'owner' })
+
+      await expect(updateMember('org-1', admin, 'owner-1', { role: 'member' })).rejects.toBeInstanceOf(ForbiddenError)
+    })
+
+    it('should not demote the last owner', async () => {
+      mockMemberRepo.findOne.mockResolvedValue({ organizationId: 'org-1', userId: 'owner-1', role: 'owner' })
+      mockMemberRepo.count.mockResolvedValue(1)
+
+      await expect(updateMember('org-1', owner, 'owner-1', { role: 'admin' })).rejects.toBeInstanceOf(ConflictError)
+      expect(mockMemberRepo.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('removeMember', () => {
+    it('should deactivate the organization keys the member created', async () => {
+      mockMemberRepo.findOne.mockResolvedValue({ id: 'm-2', organizationId: 'org-1', userId: 'user-2', role: 'member' })
+
+      await removeMember('org-1', admin, 'user-2')
+
+      expect(mockMemberRepo.delete).toHaveBeenCalledWith({ id: 'm-2' })
+      expect(mockApiKeyRepo.update).toHaveBeenCalledWith(
+        { organizationId: 'org-1', userId: 'user-2', isActive: true },
+        { isActive: false }
+      )
+    })
+
+    it('should let members leave but not remove others', async () => {
+      mockMemberRepo.findOne.mockResolvedValue({ id: 'm-3', organizationId: 'org-1', userId: 'user-3', role: 'member' })
+
+      await expect(
+        removeMember('org-1', { userId: 'user-2', role: 'member' }, 'user-3')
+      ).rejects.toBeInstanceOf(ForbiddenError)
+      await expect(removeMember('org-1', { userId: 'user-3', role: 'member' }, 'user-3')).resolves.toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import 'reflect-metadata'
+
+// Mock the data source - users and API keys are looked up to find a request's plan
+const mockUserRepo = {
+  findOne: jest.fn(),
+}
+const mockApiKeyRepo = {
+  findOne: jest.fn(),
+  save: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { User, ApiKey } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === User) return mockUserRepo
+        if (entity === ApiKey) return mockApiKeyRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
+import { Request } from 'express'
+import {
+  planForApiKey,
+  planForUser,
+  getRequestLimit,
+  resolveApiKeyPlan,
+  setApiKeyRateLimitPlan,
+  getTokenUsage,
+  recordTokenUsage,
+} from '../services/rate-limit-policy.service'
+import { resolveRateLimitSubject, formatResetDuration } from '../middlewares/rate-limit.middleware'
+import { hashApiKey } from '../middlewares/apikey.middleware'
+import { signToken } from '../utils/jwt'
+import { ApiKey, User } from '../entities'
+
+const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  isActive: true,
+  isPro: false,
+  proExpiresAt: null,
+  ...overrides,
+} as User)
+
+const makeRequest = (authorization?: string, ip = '198.51.100.7') =>
+  ({ ip, headers: authorization ? { authorization } : {} }) as Request
+
+describe('Rate Limit Policy', () => {
+  describe('plans', () => {
+    it('should give Pro users the pro plan until their subscription lapses', () => {
+      expect(planForUser(makeUser({ isPro: true }))).toBe('pro')
+      expect(planForUser(makeUser({ isPro: true, proExpiresAt: new Date(Date.now() - 1000) }))).toBe('free')
+    })
+
+    it('should let a pinned key plan override the owner plan', () => {
+      const owner = makeUser({ isPro: true })
+
+      expect(planForApiKey({ rateLimitPlan: null }, owner)).toBe('pro')
+      expect(planForApiKey({ rateLimitPlan: 'enterprise' }, owner)).toBe('enterprise')
+    })
+
+    it('should allow paying plans more requests', () => {
+      expect(getRequestLimit('pro', 'generate')).toBeGreaterThan(getRequestLimit('free', 'generate'))
+      expect(getRequestLimit('enterprise', 'api')).toBeGreaterThan(getRequestLimit('pro', 'api'))
+    })
+  })
+
+  describe('resolveApiKeyPlan', () => {
+    it('should cache the lookup', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue({ id: 'key-1', rateLimitPlan: null, user: makeUser({ isPro: true }) })
+
+      expect(await resolveApiKeyPlan('hash-cached')).toEqual({ apiKeyId: 'key-1', plan: 'pro' })
+      expect(await resolveApiKeyPlan('hash-cached')).toEqual({ apiKeyId: 'key-1', plan: 'pro' })
+      expect(mockApiKeyRepo.findOne).toHaveBeenCalledTimes(1)
+    })
+
+    it('should forget the cached plan when an admin pins a new one', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue({ id: 'key-2', keyHash: 'hash-pinned', rateLimitPlan: null, user: makeUser() })
+      expect((await resolveApiKeyPlan('hash-pinned'))?.plan).toBe('free')
+
+      await setApiKeyRateLimitPlan('key-2', 'enterprise')
+
+      mockApiKeyRepo.findOne.mockResolvedValue({ id: 'key-2', keyHash: 'hash-pinned', rateLimitPlan: 'enterprise', user: makeUser() })
+      expect((await resolveApiKeyPlan('hash-pinned'))?.plan).toBe('enterprise')
+    })
+
+    it('should reject unknown plans', async () => {
+      await expect(setApiKeyRateLimitPlan('key-2', 'anonymous' as never)).rejects.toThrow('plan must be one of')
+    })
+  })
+
+  describe('token budget', () => {
+    it('should add up tokens within the minute', async () => {
+      await recordTokenUsage('key-tpm', 1200)
+      await recordTokenUsage('key-tpm', 300)
+
+      const { used, resetTime } = await getTokenUsage('key-tpm')
+      expect(used).toBe(1500)
+      expect(resetTime.getTime()).toBeGreaterThan(Date.now())
+    })
+  })
+
+  describe('resolveRateLimitSubject', () => {
+    it('should key signed-out requests by IP', async () => {
+      expect(await resolveRateLimitSubject(makeRequest())).toEqual({ key: 'ip:198.51.100.7', plan: 'anonymous' })
+    })
+
+    it('should key signed-in requests by user, whatever their IP', async () => {
+      mockUserRepo.findOne.mockResolvedValue(makeUser({ id: 'user-9', isPro: true }))
+      const token = signToken({ userId: 'user-9', email: 'pro@example.com', role: 'user' })
+
+      const subject = await resolveRateLimitSubject(makeRequest(`Bearer ${token}`, '203.0.113.9'))
+
+      expect(subject).toEqual({ key: 'user:user-9', plan: 'pro' })
+    })
+
+    it('should key API requests by key id', async () => {
+      mockApiKeyRepo.findOne.mockResolvedValue({ id: 'key-3', rateLimitPlan: null, user: makeUser() })
+
+      const subject = await resolveRateLimitSubject(makeRequest('Bearer sk_test_subject'))
+
+      expect(subject).toEqual({ key: 'key:key-3', plan: 'free', apiKeyId: 'key-3' })
+      expect(mockApiKeyRepo.findOne.mock.calls[0][0].where[0].keyHash).toBe(hashApiKey('sk_test_subject'))
+    })
+
+    it('should fall back to the IP for a forged token', async () => {
+      const subject = await resolveRateLimitSubject(makeRequest('Bearer not-a-jwt'))
+
+      expect(subject.plan).toBe('anonymous')
+      expect(mockUserRepo.findOne).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('formatResetDuration', () => {
+    it('should format like OpenAI', () => {
+      const inMs = (ms: number) => new Date(Date.now() + ms)
+
+      expect(formatResetDuration(inMs(90 * 1000))).toBe('1m30s')
+      expect(formatResetDuration(inMs(12 * 1000))).toBe('12s')
+      expect(formatResetDuration(undefined)).toBe('0ms')
+    })
+  })
+})
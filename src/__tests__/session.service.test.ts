@@ -0,0 +1,140 @@
+import 'reflect-metadata'
+import crypto from 'crypto'
+
+// Mock the data source - sessions and their users
+const mockSessionRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn(),
+}
+const mockUserRepo = {
+  findOne: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { Session, User } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === Session) return mockSessionRepo
+        if (entity === User) return mockUserRepo
+        throw new Error('Unexpected repository')
+      },
+    },
+  }
+})
+
+import { createSession, refreshSession, validateAccessToken, describeDevice } from '../services/session.service'
+import { verifyToken } from '../utils/jwt'
+import { UnauthorizedError } from '../errors/app.error'
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex')
+
+const user = { id: 'user-1', email: 'user@example.com', role: 'user', isActive: true, tokenVersion: 3 }
+
+const liveSession = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  userId: 'user-1',
+  refreshTokenHash: sha256('rt_current'),
+  previousRefreshTokenHash: sha256('rt_previous'),
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  ...overrides,
+})
+
+describe('Session Service', () => {
+  beforeEach(() => {
+    mockUserRepo.findOne.mockResolvedValue(user)
+    mockSessionRepo.update.mockResolvedValue({ affected: 1 })
+    mockSessionRepo.create.mockImplementation((data) => data)
+    mockSessionRepo.save.mockImplementation(async (data) => ({ ...data, id: 'session-new' }))
+  })
+
+  describe('createSession', () => {
+    it('should store only the refresh token hash and sign the session into the access token', async () => {
+      const tokens = await createSession(user as never, { ip: '203.0.113.7', userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/126.0' })
+
+      const saved = mockSessionRepo.save.mock.calls[0][0]
+      expect(saved.refreshTokenHash).toBe(sha256(tokens.refreshToken))
+      expect(saved.device).toBe('Chrome on Windows')
+      expect(verifyToken(tokens.token).payload).toMatchObject({ userId: 'user-1', sid: 'session-new', ver: 3 })
+    })
+  })
+
+  describe('refreshSession', () => {
+    it('should rotate the refresh token', async () => {
+      mockSessionRepo.findOne.mockResolvedValue(liveSession())
+
+      const tokens = await refreshSession('rt_current')
+
+      const [criteria, changes] = mockSessionRepo.update.mock.calls[0]
+      expect(criteria.refreshTokenHash).toBe(sha256('rt_current'))
+      expect(changes.previousRefreshTokenHash).toBe(sha256('rt_current'))
+      expect(changes.refreshTokenHash).toBe(sha256(tokens.refreshToken))
+      expect(tokens.refreshToken).not.toBe('rt_current')
+    })
+
+    it('should revoke the session when a retired refresh token is reused', async () => {
+      mockSessionRepo.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(liveSession())
+
+      await expect(refreshSession('rt_previous')).rejects.toThrow(UnauthorizedError)
+
+      expect(mockSessionRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-1' }),
+        expect.objectContaining({ revokedReason: 'refresh_reuse' })
+      )
+    })
+
+    it('should reject a revoked session', async () => {
+      mockSessionRepo.findOne.mockResolvedValue(liveSession({ revokedAt: new Date() }))
+
+      await expect(refreshSession('rt_current')).rejects.toThrow(UnauthorizedError)
+      expect(mockSessionRepo.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject a refresh for a deactivated account', async () => {
+      mockSessionRepo.findOne.mockResolvedValue(liveSession())
+      mockUserRepo.findOne.mockResolvedValue({ ...user, isActive: false })
+
+      await expect(refreshSession('rt_current')).rejects.toThrow('Account is disabled')
+    })
+
+    it('should lose a race against a concurrent refresh of the same token', async () => {
+      mockSessionRepo.findOne.mockResolvedValue(liveSession())
+      mockSessionRepo.update.mockResolvedValue({ affected: 0 })
+
+      await expect(refreshSession('rt_current')).rejects.toThrow(UnauthorizedError)
+    })
+  })
+
+  describe('validateAccessToken', () => {
+    const payload = { userId: 'user-1', email: 'user@example.com', role: 'admin' as const, sid: 'session-1', ver: 3 }
+
+    it('should return the stored role for a current token', async () => {
+      mockSessionRepo.findOne.mockResolvedValue(liveSession())
+
+      expect(await validateAccessToken(payload)).toEqual({ role: 'user' })
+    })
+
+    it('should reject a token from an older tokenVersion', async () => {
+      expect(await validateAccessToken({ ...payload, ver: 2 })).toEqual({ error: 'Token revoked' })
+    })
+
+    it('should reject a token whose session has expired', async () => {
+      mockSessionRepo.findOne.mockResolvedValue(liveSession({ expiresAt: new Date(Date.now() - 1000) }))
+
+      expect(await validateAccessToken(payload)).toEqual({ error: 'Session revoked' })
+    })
+  })
+
+  describe('describeDevice', () => {
+    it('should name the browser and OS', () => {
+      expect(describeDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Version/17.0 Mobile Safari/604.1')).toBe('Safari on iOS')
+      expect(describeDevice('Mozilla/5.0 (Windows NT 10.0) Chrome/126.0 Safari/537.36 Edg/126.0')).toBe('Edge on Windows')
+      expect(describeDevice(undefined)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import {
+  getTokenizerFamily,
+  countTextTokens,
+  countMessageTokens,
+  countToolDefinitionTokens,
+  countToolCallTokens,
+  resolveTokenUsage,
+  tokenUsageMetadata,
+} from '../utils/tokenizer'
+
+describe('Tokenizer', () => {
+  describe('getTokenizerFamily', () => {
+    it('should map the models exposed in /v1/models', () => {
+      expect(getTokenizerFamily('gemini-3-pro')).toBe('gemini')
+      expect(getTokenizerFamily('gemini-2.5-pro')).toBe('gemini')
+      expect(getTokenizerFamily('gpt-4o')).toBe('gpt')
+      expect(getTokenizerFamily('gpt-4o-mini')).toBe('gpt')
+      expect(getTokenizerFamily('claude-3.5-sonnet')).toBe('claude')
+      expect(getTokenizerFamily('claude-3.5-haiku')).toBe('claude')
+    })
+
+    it('should default to gemini', () => {
+      expect(getTokenizerFamily()).toBe('gemini')
+      expect(getTokenizerFamily('unknown-model')).toBe('gemini')
+    })
+  })
+
+  describe('countTextTokens', () => {
+    it('should return 0 for empty text', () => {
+      expect(countTextTokens('')).toBe(0)
+    })
+
+    it('should count one token per common English word', () => {
+      expect(countTextTokens('The quick brown fox jumps over the lazy dog', 'gpt')).toBe(9)
+    })
+
+    it('should count Vietnamese well above length/4', () => {
+      const text = 'Xin chào, tôi muốn hỏi về cách sử dụng dịch vụ tạo ảnh của các bạn.'
+      const naive = Math.ceil(text.length / 4)
+
+      expect(countTextTokens(text, 'gpt')).toBeGreaterThan(naive)
+      expect(countTextTokens(text, 'claude')).toBeGreaterThan(naive)
+    })
+
+    it('should treat composed and decomposed Vietnamese the same', () => {
+      const composed = 'Hướng dẫn sử dụng'
+      expect(countTextTokens(composed.normalize('NFD'), 'gpt')).toBe(countTextTokens(composed, 'gpt'))
+    })
+
+    it('should count CJK per character', () => {
+      expect(countTextTokens('你好世界', 'gpt')).toBe(4)
+    })
+
+    it('should split digits per family', () => {
+      expect(countTextTokens('123456', 'gpt')).toBe(2)
+      expect(countTextTokens('123456', 'gemini')).toBe(6)
+    })
+  })
+
+  describe('countMessageTokens', () => {
+    it('should add per-message framing', () => {
+      const one = countMessageTokens([{ role: 'user', content: 'hello' }], 'gpt-4o')
+      const two = countMessageTokens([
+        { role: 'user', content: 'hello' },
+        { role: 'assistant', content: 'hello' },
+      ], 'gpt-4o')
+
+      expect(two - one).toBe(countTextTokens('hello', 'gpt') + 3)
+    })
+
+    it('should charge a fixed cost for image parts', () => {
+      const textOnly = countMessageTokens([{ role: 'user', content: [{ type: 'text', text: 'describe this' }] }], 'gpt-4o')
+      const withImage = countMessageTokens([{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'describe this' },
+          { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+        ],
+      }], 'gpt-4o')
+
+      expect(withImage - textOnly).toBe(765)
+    })
+
+    it('should price images per family', () => {
+      const messages = [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'https://example.com/a.png' } }] }]
+
+      expect(countMessageTokens(messages, 'gemini-3-pro')).toBeLessThan(countMessageTokens(messages, 'gpt-4o'))
+      expect(countMessageTokens(messages, 'gpt-4o')).toBeLessThan(countMessageTokens(messages, 'claude-3.5-sonnet'))
+    })
+  })
+
+  describe('tool calling', () => {
+    const tool = {
+      type: 'function',
+      function: { name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } },
+    }
+
+    it('should charge tool definitions as prompt tokens', () => {
+      expect(countToolDefinitionTokens(undefined)).toBe(0)
+      expect(countToolDefinitionTokens([tool], 'gpt-4o')).toBeGreaterThan(countTextTokens(JSON.stringify(tool), 'gpt'))
+      expect(countToolDefinitionTokens([tool, tool], 'gpt-4o')).toBeGreaterThan(countToolDefinitionTokens([tool], 'gpt-4o'))
+    })
+
+    it('should count generated names and arguments', () => {
+      const call = { function: { name: 'get_weather', arguments: '{"city":"Hanoi"}' } }
+      expect(countToolCallTokens([], 'gpt')).toBe(0)
+      expect(countToolCallTokens([call, call], 'gpt')).toBe(2 * countToolCallTokens([call], 'gpt'))
+    })
+
+    it('should count tool results and their call ids', () => {
+      const withoutId = countMessageTokens([{ role: 'tool', content: '{"temp":30}' }], 'gpt-4o')
+      expect(countMessageTokens([{ role: 'tool', tool_call_id: 'call_abc', content: '{"temp":30}' }], 'gpt-4o'))
+        .toBeGreaterThan(withoutId)
+    })
+  })
+
+  describe('resolveTokenUsage', () => {
+    it('should prefer upstream usage and keep the estimate', () => {
+      const usage = resolveTokenUsage(
+        { inputTokens: 100, outputTokens: 50 },
+        { prompt_tokens: 120, completion_tokens: 60, total_tokens: 180 }
+      )
+
+      expect(usage).toMatchObject({ source: 'upstream', inputTokens: 120, outputTokens: 60, totalTokens: 180 })
+      expect(usage.estimated.totalTokens).toBe(150)
+    })
+
+    it('should fall back to the estimate when upstream reports nothing', () => {
+      expect(resolveTokenUsage({ inputTokens: 100, outputTokens: 50 }, null)).toMatchObject({
+        source: 'estimate',
+        totalTokens: 150,
+        actual: null,
+      })
+      expect(resolveTokenUsage({ inputTokens: 10, outputTokens: 5 }, { total_tokens: 0 }).source).toBe('estimate')
+    })
+
+    it('should derive missing totals from prompt and completion counts', () => {
+      expect(resolveTokenUsage({ inputTokens: 1, outputTokens: 1 }, { prompt_tokens: 7, completion_tokens: 3 }).totalTokens).toBe(10)
+    })
+  })
+
+  describe('tokenUsageMetadata', () => {
+    it('should record estimated and actual counts side by side', () => {
+      const metadata = tokenUsageMetadata(resolveTokenUsage(
+        { inputTokens: 100, outputTokens: 50 },
+        { prompt_tokens: 120, completion_tokens: 60, total_tokens: 180 }
+      ))
+
+      expect(metadata).toMatchObject({
+        tokens: 180,
+        tokenSource: 'upstream',
+        estimatedTokens: 150,
+        actualTokens: 180,
+      })
+    })
+  })
+})
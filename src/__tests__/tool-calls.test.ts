@@ -0,0 +1,211 @@
+import {
+  validateTools,
+  validateToolMessages,
+  normalizeRequestMessages,
+  normalizeChatCompletion,
+  normalizeFinishReason,
+  ChatStreamAssembler,
+} from '../utils/tool-calls'
+
+const weatherTool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  },
+}
+
+const toolCall = (id: string, args = '{"city":"Hanoi"}') => ({
+  id,
+  type: 'function',
+  function: { name: 'get_weather', arguments: args },
+})
+
+describe('Tool calls', () => {
+  describe('validateTools', () => {
+    it('should accept function tools and a named tool_choice', () => {
+      expect(validateTools({
+        tools: [weatherTool],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+        parallel_tool_calls: false,
+      })).toBeNull()
+      expect(validateTools({ tools: [weatherTool], tool_choice: 'required' })).toBeNull()
+      expect(validateTools({})).toBeNull()
+    })
+
+    it('should name the invalid parameter', () => {
+      expect(validateTools({ tools: {} })?.param).toBe('tools')
+      expect(validateTools({ tools: [{ type: 'function', function: { name: 'get weather' } }] })?.param)
+        .toBe('tools[0].function.name')
+      expect(validateTools({ tools: [weatherTool, weatherTool] })?.message).toMatch(/Duplicate/)
+      expect(validateTools({ tools: [{ ...weatherTool, function: { name: 'x', parameters: 'string' } }] })?.param)
+        .toBe('tools[0].function.parameters')
+      expect(validateTools({ tool_choice: 'auto' })?.param).toBe('tool_choice')
+      expect(validateTools({ tools: [weatherTool], tool_choice: 'always' })?.param).toBe('tool_choice')
+      expect(validateTools({ tools: [weatherTool], tool_choice: { type: 'function', function: { name: 'other' } } })?.param)
+        .toBe('tool_choice.function.name')
+    })
+  })
+
+  describe('validateToolMessages', () => {
+    it('should accept a full tool-calling round trip', () => {
+      expect(validateToolMessages([
+        { role: 'user', content: 'Weather in Hanoi and Hue?' },
+        { role: 'assistant', content: null, tool_calls: [toolCall('call_1'), toolCall('call_2', '{"city":"Hue"}')] },
+        { role: 'tool', tool_call_id: 'call_2', content: '{"temp":30}' },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"temp":31}' },
+        { role: 'assistant', content: 'Both are hot.' },
+        { role: 'user', content: 'Thanks' },
+      ])).toBeNull()
+    })
+
+    it('should reject tool messages without a matching call', () => {
+      const error = validateToolMessages([
+        { role: 'user', content: 'Hi' },
+        { role: 'tool', tool_call_id: 'call_1', content: 'orphan' },
+      ])
+      expect(error?.param).toBe('messages[1].tool_call_id')
+    })
+
+    it('should reject calls that were never answered', () => {
+      expect(validateToolMessages([
+        { role: 'assistant', content: null, tool_calls: [toolCall('call_1'), toolCall('call_2')] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'ok' },
+        { role: 'user', content: 'next' },
+      ])).toMatchObject({ param: 'messages[2]', message: expect.stringContaining('call_2') })
+      expect(validateToolMessages([
+        { role: 'assistant', content: null, tool_calls: [toolCall('call_1')] },
+      ])?.param).toBe('messages')
+    })
+
+    it('should reject malformed tool calls and unknown roles', () => {
+      expect(validateToolMessages([{ role: 'assistant', content: null, tool_calls: [{ id: 'call_1' }] }])?.param)
+        .toBe('messages[0].tool_calls[0]')
+      expect(validateToolMessages([{ role: 'user', content: 'x', tool_calls: [toolCall('call_1')] }])?.param)
+        .toBe('messages[0].tool_calls')
+      expect(validateToolMessages([{ role: 'robot', content: 'x' }])?.param).toBe('messages[0].role')
+      expect(validateToolMessages([{ role: 'user', content: null }])?.param).toBe('messages[0].content')
+    })
+  })
+
+  describe('normalizeRequestMessages', () => {
+    it('should stringify object arguments and add the call type', () => {
+      const [message] = normalizeRequestMessages([
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', function: { name: 'get_weather', arguments: { city: 'Hanoi' } } }] },
+      ])
+      expect(message).toEqual({ role: 'assistant', content: null, tool_calls: [toolCall('call_1')] })
+    })
+  })
+
+  describe('normalizeFinishReason', () => {
+    it('should map Claude and Gemini reasons', () => {
+      expect(normalizeFinishReason('end_turn', false)).toBe('stop')
+      expect(normalizeFinishReason('MAX_TOKENS', false)).toBe('length')
+      expect(normalizeFinishReason('SAFETY', false)).toBe('content_filter')
+      expect(normalizeFinishReason('tool_use', true)).toBe('tool_calls')
+      expect(normalizeFinishReason('STOP', true)).toBe('tool_calls')
+      expect(normalizeFinishReason(null, true)).toBeNull()
+    })
+  })
+
+  describe('normalizeChatCompletion', () => {
+    it('should keep OpenAI tool calls and report them', () => {
+      const data = {
+        choices: [{ index: 0, message: { role: 'assistant', content: null, tool_calls: [toolCall('call_1')] }, finish_reason: 'tool_calls' }],
+      }
+      const output = normalizeChatCompletion(data)
+
+      expect(output).toEqual({ text: '', toolCalls: [toolCall('call_1')] })
+      expect(data.choices[0].finish_reason).toBe('tool_calls')
+    })
+
+    it('should convert Claude tool_use blocks', () => {
+      const data = {
+        choices: [{
+          message: {
+            role: 'assistant',
+            content: [
+              { type: 'text', text: 'Checking.' },
+              { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Hanoi' } },
+            ],
+          },
+          finish_reason: 'tool_use',
+        }],
+      }
+      const output = normalizeChatCompletion(data)
+
+      expect(data.choices[0]).toEqual({
+        message: { role: 'assistant', content: 'Checking.', tool_calls: [toolCall('toolu_1')] },
+        finish_reason: 'tool_calls',
+      })
+      expect(output.text).toBe('Checking.')
+    })
+
+    it('should give Gemini calls ids, string arguments and the tool_calls finish reason', () => {
+      const data = {
+        choices: [{
+          message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Hanoi' } } }] },
+          finish_reason: 'stop',
+        }],
+      }
+      normalizeChatCompletion(data)
+
+      const message = data.choices[0].message as unknown as { content: unknown; tool_calls: Array<{ id: string; function: unknown }> }
+      expect(message.content).toBeNull()
+      expect(message.tool_calls[0].id).toMatch(/^call_[0-9a-f]{24}$/)
+      expect(message.tool_calls[0].function).toEqual({ name: 'get_weather', arguments: '{"city":"Hanoi"}' })
+      expect(data.choices[0].finish_reason).toBe('tool_calls')
+    })
+  })
+
+  describe('ChatStreamAssembler', () => {
+    it('should assemble OpenAI argument fragments across chunks', () => {
+      const assembler = new ChatStreamAssembler()
+      const chunks = [
+        { choices: [{ index: 0, delta: { role: 'assistant', content: null, tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] } }] },
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } }] },
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 1, id: 'call_2', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Hue"}' } }] } }] },
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"Hanoi"}' } }] } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+      ]
+      chunks.forEach((chunk) => assembler.push(chunk))
+
+      expect(assembler.toolCalls()).toEqual([toolCall('call_1'), toolCall('call_2', '{"city":"Hue"}')])
+      expect((chunks[1].choices[0].delta as { tool_calls?: unknown }).tool_calls).toEqual([{ index: 0, function: { arguments: '{"city":' } }])
+    })
+
+    it('should index whole Gemini calls and fix the finish reason', () => {
+      const assembler = new ChatStreamAssembler()
+      const chunk = {
+        choices: [{
+          delta: {
+            tool_calls: [
+              { function: { name: 'get_weather', arguments: { city: 'Hanoi' } } },
+              { function: { name: 'get_weather', arguments: { city: 'Hue' } } },
+            ],
+          },
+          finish_reason: 'STOP',
+        }],
+      }
+      assembler.push(chunk)
+
+      const deltas = chunk.choices[0].delta.tool_calls as unknown as Array<{ index: number; id: string; type: string; function: unknown }>
+      expect(deltas.map((d) => d.index)).toEqual([0, 1])
+      expect(deltas[0]).toMatchObject({ type: 'function', function: { name: 'get_weather', arguments: '{"city":"Hanoi"}' } })
+      expect(deltas[0].id).toBe(assembler.toolCalls()[0].id)
+      expect(chunk.choices[0].finish_reason).toBe('tool_calls')
+    })
+
+    it('should collect text and tool calls for billing', () => {
+      const assembler = new ChatStreamAssembler()
+      assembler.push({ choices: [{ index: 0, delta: { content: 'Let me check. ' } }] })
+      assembler.push({ choices: [{ index: 0, delta: { function_call: { name: 'get_weather', arguments: '{}' } } }] })
+
+      expect(assembler.output).toEqual({
+        text: 'Let me check. ',
+        toolCalls: [{ id: expect.stringMatching(/^call_/), type: 'function', function: { name: 'get_weather', arguments: '{}' } }],
+      })
+    })
+  })
+})
@@ -0,0 +1,84 @@
+import { base32Encode, base32Decode, generateTotp, generateTotpSecret, verifyTotp, getTotpStep, buildOtpAuthUri } from '../utils/totp'
+import { encryptSecret, decryptSecret } from '../utils/encryption'
+
+// RFC 6238 appendix B seed ("12345678901234567890"), SHA-1, truncated to 6 digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TOTP Utils', () => {
+  describe('base32', () => {
+    it('should round-trip and match the RFC 4648 encoding', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+      expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890')
+      expect(base32Decode('gezd gnbv').toString()).toBe('12345')
+    })
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('ABC1')).toThrow()
+    })
+  })
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082')
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804')
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924')
+      expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037')
+    })
+  })
+
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000
+
+    it('should return the matching time step', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', now)).toBe(getTotpStep(now))
+    })
+
+    it('should tolerate one step of clock drift', () => {
+      const previous = generateTotp(RFC_SECRET, now - 30 * 1000)
+
+      expect(verifyTotp(RFC_SECRET, previous, now)).toBe(getTotpStep(now) - 1)
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90 * 1000), now)).toBeNull()
+    })
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '5924', now)).toBeNull()
+      expect(verifyTotp(RFC_SECRET, '00592a', now)).toBeNull()
+    })
+  })
+
+  describe('generateTotpSecret', () => {
+    it('should produce a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret()
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(base32Decode(secret)).toHaveLength(20)
+    })
+  })
+
+  describe('buildOtpAuthUri', () => {
+    it('should carry issuer, account and secret', () => {
+      const uri = buildOtpAuthUri('JBSWY3DPEHPK3PXP', 'admin@example.com', 'ImageGen AI')
+
+      expect(uri.startsWith('otpauth://totp/ImageGen%20AI%3Aadmin%40example.com?')).toBe(true)
+      const params = new URL(uri).searchParams
+      expect(params.get('secret')).toBe('JBSWY3DPEHPK3PXP')
+      expect(params.get('issuer')).toBe('ImageGen AI')
+    })
+  })
+
+  describe('secret encryption', () => {
+    it('should round-trip and use a fresh IV each time', () => {
+      const first = encryptSecret('JBSWY3DPEHPK3PXP')
+
+      expect(first).not.toBe(encryptSecret('JBSWY3DPEHPK3PXP'))
+      expect(decryptSecret(first)).toBe('JBSWY3DPEHPK3PXP')
+    })
+
+    it('should refuse tampered ciphertext', () => {
+      const [iv, tag, data] = encryptSecret('JBSWY3DPEHPK3PXP').split(':')
+      const flipped = (parseInt(data[0], 16) ^ 1).toString(16) + data.slice(1)
+
+      expect(() => decryptSecret([iv, tag, flipped].join(':'))).toThrow()
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import 'reflect-metadata'
+
+// Mock the data source - users hold the TOTP secret, recovery codes live in their own table
+const mockQueryBuilder = {
+  update: jest.fn(),
+  set: jest.fn(),
+  where: jest.fn(),
+  andWhere: jest.fn(),
+  execute: jest.fn(),
+}
+const mockUserRepo = {
+  findOne: jest.fn(),
+  update: jest.fn(),
+  createQueryBuilder: jest.fn(),
+}
+const mockRecoveryCodeRepo = {
+  update: jest.fn(),
+  delete: jest.fn(),
+  count: jest.fn(),
+}
+const mockManager = {
+  delete: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn(),
+}
+
+jest.mock('../data-source', () => {
+  const { User, RecoveryCode } = jest.requireActual('../entities')
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => {
+        if (entity === User) return mockUserRepo
+        if (entity === RecoveryCode) return mockRecoveryCodeRepo
+        throw new Error('Unexpected repository')
+      },
+      transaction: (work: (manager: unknown) => Promise<unknown>) => work(mockManager),
+    },
+  }
+})
+
+import crypto from 'crypto'
+import { beginEnrollment, confirmEnrollment, verifySecondFactor } from '../services/two-factor.service'
+import { generateTotp } from '../utils/totp'
+import { encryptSecret, decryptSecret } from '../utils/encryption'
+import { User } from '../entities'
+
+const SECRET = 'JBSWY3DPEHPK3PXP'
+
+const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  email: 'admin@example.com',
+  role: 'admin',
+  twoFactorEnabled: true,
+  twoFactorSecret: encryptSecret(SECRET),
+  twoFactorLastStep: null,
+  ...overrides,
+} as User)
+
+describe('Two-Factor Service', () => {
+  beforeEach(() => {
+    for (const fn of ['update', 'set', 'where', 'andWhere'] as const) {
+      mockQueryBuilder[fn].mockReturnValue(mockQueryBuilder)
+    }
+    mockQueryBuilder.execute.mockResolvedValue({ affected: 1 })
+    mockUserRepo.createQueryBuilder.mockReturnValue(mockQueryBuilder)
+    mockManager.create.mockImplementation((_entity, data) => data)
+  })
+
+  describe('beginEnrollment', () => {
+    it('should store the new secret encrypted and return a provisioning URI', async () => {
+      mockUserRepo.findOne.mockResolvedValue(makeUser({ twoFactorEnabled: false, twoFactorSecret: null }))
+
+      const { secret, otpauthUri } = await beginEnrollment('user-1')
+
+      const stored = mockUserRepo.update.mock.calls[0][1].twoFactorSecret
+      expect(stored).not.toContain(secret)
+      expect(decryptSecret(stored)).toBe(secret)
+      expect(otpauthUri).toContain(`secret=${secret}`)
+    })
+
+    it('should refuse while 2FA is already on', async () => {
+      mockUserRepo.findOne.mockResolvedValue(makeUser())
+
+      await expect(beginEnrollment('user-1')).rejects.toThrow('already enabled')
+    })
+  })
+
+  describe('confirmEnrollment', () => {
+    it('should enable 2FA and hand out hashed recovery codes', async () => {
+      mockUserRepo.findOne.mockResolvedValue(makeUser({ twoFactorEnabled: false }))
+
+      const { recoveryCodes } = await confirmEnrollment('user-1', generateTotp(SECRET))
+
+      expect(mockUserRepo.update).toHaveBeenCalledWith('user-1', expect.objectContaining({ twoFactorEnabled: true }))
+      expect(recoveryCodes).toHaveLength(10)
+      expect(recoveryCodes[0]).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/)
+      const saved = mockManager.save.mock.calls[0][0]
+      expect(saved.map((row: { codeHash: string }) => row.codeHash)).not.toContain(recoveryCodes[0])
+    })
+
+    it('should reject a wrong code', async () => {
+      mockUserRepo.findOne.mockResolvedValue(makeUser({ twoFactorEnabled: false }))
+
+      await expect(confirmEnrollment('user-1', '000000')).rejects.toThrow('Invalid authentication code')
+      expect(mockUserRepo.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('verifySecondFactor', () => {
+    it('should accept a current TOTP code', async () => {
+      expect(await verifySecondFactor(makeUser(), generateTotp(SECRET))).toBe('totp')
+    })
+
+    it('should refuse a TOTP code whose time step was already used', async () => {
+      mockQueryBuilder.execute.mockResolvedValue({ affected: 0 })
+
+      expect(await verifySecondFactor(makeUser(), generateTotp(SECRET))).toBeNull()
+    })
+
+    it('should accept an unused recovery code in any case or spacing', async () => {
+      mockRecoveryCodeRepo.update.mockResolvedValue({ affected: 1 })
+
+      expect(await verifySecondFactor(makeUser(), 'abcde-fghjk')).toBe('recovery_code')
+
+      const [criteria] = mockRecoveryCodeRepo.update.mock.calls[0]
+      expect(criteria.codeHash).toBe(crypto.createHash('sha256').update('ABCDEFGHJK').digest('hex'))
+    })
+
+    it('should refuse a spent recovery code', async () => {
+      mockRecoveryCodeRepo.update.mockResolvedValue({ affected: 0 })
+
+      expect(await verifySecondFactor(makeUser(), 'ABCDE-FGHJK')).toBeNull()
+    })
+
+    it('should refuse everything when 2FA is off', async () => {
+      expect(await verifySecondFactor(makeUser({ twoFactorEnabled: false }), generateTotp(SECRET))).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import crypto from 'crypto'
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  buildSignatureHeader,
+  isPrivateAddress,
+} from '../services/webhook.service'
+
+describe('Webhook Service', () => {
+  describe('generateWebhookSecret', () => {
+    it('should generate prefixed random secrets', () => {
+      const secret = generateWebhookSecret()
+      expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/)
+      expect(generateWebhookSecret()).not.toBe(secret)
+    })
+  })
+
+  describe('signWebhookPayload', () => {
+    it('should sign timestamp and body with HMAC-SHA256', () => {
+      const body = JSON.stringify({ event: 'generation.completed' })
+      const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex')
+
+      expect(signWebhookPayload('secret', 1700000000, body)).toBe(expected)
+    })
+
+    it('should change when the timestamp changes', () => {
+      const body = '{}'
+      expect(signWebhookPayload('secret', 1, body)).not.toBe(signWebhookPayload('secret', 2, body))
+    })
+  })
+
+  describe('buildSignatureHeader', () => {
+    it('should include timestamp and v1 signature', () => {
+      const header = buildSignatureHeader('secret', '{}', 1700000000)
+      expect(header).toBe(`t=1700000000,v1=${signWebhookPayload('secret', 1700000000, '{}')}`)
+    })
+  })
+
+  describe('isPrivateAddress', () => {
+    it('should flag private IPv4 ranges', () => {
+      expect(isPrivateAddress('10.1.2.3')).toBe(true)
+      expect(isPrivateAddress('172.16.0.1')).toBe(true)
+      expect(isPrivateAddress('192.168.0.10')).toBe(true)
+      expect(isPrivateAddress('127.0.0.1')).toBe(true)
+      expect(isPrivateAddress('169.254.169.254')).toBe(true)
+    })
+
+    it('should flag loopback, unique-local and mapped IPv6', () => {
+      expect(isPrivateAddress('::1')).toBe(true)
+      expect(isPrivateAddress('fd00::1')).toBe(true)
+      expect(isPrivateAddress('fe80::1')).toBe(true)
+      expect(isPrivateAddress('::ffff:10.0.0.1')).toBe(true)
+    })
+
+    it('should allow public addresses', () => {
+      expect(isPrivateAddress('93.184.216.34')).toBe(false)
+      expect(isPrivateAddress('172.32.0.1')).toBe(false)
+      expect(isPrivateAddress('2606:2800:220:1::248')).toBe(false)
+    })
+  })
+})
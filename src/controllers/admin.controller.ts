@@ -3,6 +3,25 @@ import { AuthRequest } from '../middlewares'
 import { userRepository, postRepository } from '../repositories'
 import { response } from '../utils/response'
 import { logger } from '../utils/logger'
+import {
+  recordTransaction,
+  getUserTransactions,
+  rebuildBalance,
+  rebuildOrganizationBalance,
+  findBalanceMismatches,
+  findOrganizationBalanceMismatches,
+  reconcileBalances,
+  reconcileOrganizationBalances,
+} from '../services/ledger.service'
+import {
+  getModels,
+  createModel,
+  updateModel,
+  deleteModel,
+} from '../services/model-registry.service'
+import { revokeAllSessions } from '../services/session.service'
+import { setApiKeyRateLimitPlan } from '../services/rate-limit-policy.service'
+import { AppError } from '../errors'
 import type { UserRole } from '../entities'
 import type { PostStatus, BlockContent } from '../entities'
 
@@ -24,10 +43,12 @@ function formatUser(user: {
   role: string
   creditsUsed: number
   tokenBalance: number
+  balanceMismatchAt: Date | null
   isPro: boolean
   proExpiresAt: Date | null
   isActive: boolean
   isEmailVerified: boolean
+  twoFactorEnabled: boolean
   avatarUrl: string | null
   createdAt: Date
   updatedAt: Date
@@ -39,10 +60,12 @@ function formatUser(user: {
     role: user.role,
     creditsUsed: Number(user.creditsUsed),
     tokenBalance: Number(user.tokenBalance),
+    balanceMismatchAt: user.balanceMismatchAt,
     isPro: user.isPro,
     proExpiresAt: user.proExpiresAt,
     isActive: user.isActive,
     isEmailVerified: user.isEmailVerified,
+    twoFactorEnabled: user.twoFactorEnabled,
     avatarUrl: user.avatarUrl,
     createdAt: user.createdAt,
     updatedAt: user.updatedAt,
@@ -178,6 +201,9 @@ class AdminController {
       }
 
       await userRepository.setActiveStatus(id, isActive)
+      if (!isActive) {
+        await revokeAllSessions(id, 'account_deactivated')
+      }
       logger.info('User status updated', { userId: id, isActive, by: req.user?.userId })
 
       const updated = await userRepository.findById(id)
@@ -198,6 +224,190 @@ class AdminController {
     }
   }
 
+  // ==================== CREDIT LEDGER ====================
+
+  async getUserTransactions(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params
+      const page = Math.max(1, parseInt(req.query.page as string) || 1)
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 20), 100)
+
+      const user = await userRepository.findById(id)
+      if (!user) {
+        return response.notFound(res, 'User not found')
+      }
+
+      const result = await getUserTransactions(id, page, limit)
+      return response.success(res, result)
+    } catch (error) {
+      logger.error('Failed to get user transactions', error as Error)
+      return response.serverError(res, 'Failed to fetch transactions')
+    }
+  }
+
+  async adjustUserBalance(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params
+      const { amount, reason } = req.body
+
+      if (!Number.isInteger(amount) || amount === 0) {
+        return response.badRequest(res, 'Amount must be a non-zero integer')
+      }
+      if (!reason || typeof reason !== 'string') {
+        return response.badRequest(res, 'Reason is required')
+      }
+
+      const user = await userRepository.findById(id)
+      if (!user) {
+        return response.notFound(res, 'User not found')
+      }
+
+      const transaction = await recordTransaction({
+        userId: id,
+        type: 'adjustment',
+        amount,
+        description: reason.substring(0, 255),
+        metadata: { adjustedBy: req.user?.userId },
+      })
+      logger.info('User balance adjusted', { userId: id, amount, by: req.user?.userId })
+
+      return response.success(res, transaction)
+    } catch (error) {
+      logger.error('Failed to adjust user balance', error as Error)
+      return response.serverError(res, 'Failed to adjust balance')
+    }
+  }
+
+  async rebuildUserBalance(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params
+
+      const user = await userRepository.findById(id)
+      if (!user) {
+        return response.notFound(res, 'User not found')
+      }
+
+      const result = await rebuildBalance(id)
+      logger.info('User balance rebuilt', { userId: id, ...result, by: req.user?.userId })
+
+      return response.success(res, result)
+    } catch (error) {
+      logger.error('Failed to rebuild user balance', error as Error)
+      return response.serverError(res, 'Failed to rebuild balance')
+    }
+  }
+
+  async rebuildOrganizationBalance(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params
+
+      const result = await rebuildOrganizationBalance(id)
+      logger.info('Organization balance rebuilt', { organizationId: id, ...result, by: req.user?.userId })
+
+      return response.success(res, result)
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to rebuild organization balance')
+    }
+  }
+
+  async getBalanceMismatches(req: AuthRequest, res: Response) {
+    try {
+      const [mismatches, organizationMismatches] = await Promise.all([
+        findBalanceMismatches(),
+        findOrganizationBalanceMismatches(),
+      ])
+      return response.success(res, { mismatches, organizationMismatches, total: mismatches.length + organizationMismatches.length })
+    } catch (error) {
+      logger.error('Failed to get balance mismatches', error as Error)
+      return response.serverError(res, 'Failed to fetch balance mismatches')
+    }
+  }
+
+  async reconcileBalances(req: AuthRequest, res: Response) {
+    try {
+      const mismatches = await reconcileBalances()
+      const organizationMismatches = await reconcileOrganizationBalances()
+      logger.info('Balance reconciliation triggered', {
+        mismatches: mismatches.length,
+        organizationMismatches: organizationMismatches.length,
+        by: req.user?.userId,
+      })
+      return response.success(res, { mismatches, organizationMismatches, total: mismatches.length + organizationMismatches.length })
+    } catch (error) {
+      logger.error('Failed to reconcile balances', error as Error)
+      return response.serverError(res, 'Failed to reconcile balances')
+    }
+  }
+
+  // ==================== MODEL REGISTRY ====================
+
+  async getModels(req: AuthRequest, res: Response) {
+    try {
+      const models = await getModels()
+      return response.success(res, { models, total: models.length })
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to fetch models')
+    }
+  }
+
+  async createModel(req: AuthRequest, res: Response) {
+    try {
+      const model = await createModel(req.body || {})
+      logger.info('Model created', { modelId: model.modelId, by: req.user?.userId })
+
+      return response.created(res, model)
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to create model')
+    }
+  }
+
+  async updateModel(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params
+
+      const model = await updateModel(id, req.body || {})
+      logger.info('Model updated', { modelId: model.modelId, by: req.user?.userId })
+
+      return response.success(res, model)
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to update model')
+    }
+  }
+
+  async deleteModel(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params
+
+      await deleteModel(id)
+      logger.info('Model deleted', { id, by: req.user?.userId })
+
+      return response.message(res, 'Model deleted')
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to delete model')
+    }
+  }
+
+  // ==================== API KEY RATE LIMITS ====================
+
+  async setApiKeyRateLimitPlan(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params
+      const plan = req.body?.plan ?? null
+
+      // Validate UUID format
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+        return response.badRequest(res, 'Invalid key ID format')
+      }
+
+      const apiKey = await setApiKeyRateLimitPlan(id, plan)
+      logger.info('API key rate limit plan set', { apiKeyId: id, plan, by: req.user?.userId })
+
+      return response.success(res, { id: apiKey.id, userId: apiKey.userId, rateLimitPlan: apiKey.rateLimitPlan })
+    } catch (error) {
+      return this.handleError(res, error, 'Failed to update API key rate limit plan')
+    }
+  }
+
   // ==================== POST MANAGEMENT ====================
 
   async getPosts(req: AuthRequest, res: Response) {
@@ -454,6 +664,18 @@ class AdminController {
       return response.serverError(res, 'Failed to unpublish post')
     }
   }
+
+  /**
+   * Send service errors with their status; anything else is a 500
+   */
+  private handleError(res: Response, error: unknown, defaultMessage: string) {
+    if (error instanceof AppError) {
+      return response.error(res, error.message, error.statusCode, { code: error.code })
+    }
+
+    logger.error(defaultMessage, error as Error)
+    return response.serverError(res, defaultMessage)
+  }
 }
 
 export const adminController = new AdminController()
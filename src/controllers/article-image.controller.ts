@@ -6,6 +6,7 @@ import {
   type ArticleImageInput,
 } from '../services/article-image.service'
 import { logUsage } from '../services/usage.service'
+import { tryPersistImage, getSignedImageUrl } from '../services/image-storage.service'
 import { response } from '../utils/response'
 import { logger } from '../utils/logger'
 import { AuthRequest } from '../middlewares/auth.middleware'
@@ -18,6 +19,20 @@ const VALID_QUALITIES = ['basic', 'standard', 'hd']
  * Handles article illustration generation from chunked prompts
  */
 class ArticleImageController {
+  /**
+   * Swap the temporary upstream URL for a signed URL to our stored copy
+   */
+  private async durableOutput(
+    userId: string,
+    taskId: string,
+    output?: { media_url?: string }
+  ): Promise<{ media_url?: string } | undefined> {
+    if (!output?.media_url) return output
+
+    const storedImage = await tryPersistImage({ userId, sourceUrl: output.media_url, taskId })
+    return storedImage ? { media_url: getSignedImageUrl(storedImage.id) } : output
+  }
+
   /**
    * POST /api/article-images
    * Create single article image from prompt
@@ -205,8 +220,11 @@ class ArticleImageController {
       const { data } = result
       let status = 'processing'
 
+      let output = data.output
+
       if (data.status === 'SUCCESS') {
         status = 'completed'
+        output = await this.durableOutput(req.user!.userId, taskId, data.output)
         logger.info('Article image completed', { taskId })
       } else if (data.status === 'FAILED') {
         status = 'failed'
@@ -216,7 +234,7 @@ class ArticleImageController {
       response.success(res, {
         taskId: data.taskId,
         status,
-        output: data.output,
+        output,
         error: data.error,
       })
     } catch (error) {
@@ -263,7 +281,9 @@ class ArticleImageController {
             results.push({
               taskId,
               status: data.status === 'SUCCESS' ? 'completed' : data.status === 'FAILED' ? 'failed' : 'processing',
-              output: data.output,
+              output: data.status === 'SUCCESS'
+                ? await this.durableOutput(req.user!.userId, taskId, data.output)
+                : data.output,
               error: data.error,
             })
           } else {
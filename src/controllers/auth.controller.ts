@@ -1,11 +1,57 @@
 import { Request, Response } from 'express'
 import { authService } from '../services/auth.service'
+import {
+  refreshSession,
+  revokeSession,
+  revokeUserSession,
+  revokeAllSessions,
+  listSessions,
+} from '../services/session.service'
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getTwoFactorStatus,
+} from '../services/two-factor.service'
+import { listOAuthProviders } from '../services/oidc.service'
 import { response } from '../utils/response'
 import { validate } from '../utils/validation'
 import { logger } from '../utils/logger'
 import { AuthRequest } from '../middlewares/auth.middleware'
 import { AppError } from '../errors/app.error'
 
+/**
+ * Check a new password against the strength rules (OWASP recommendations)
+ * Returns the message to show, or null when the password is acceptable
+ */
+function validatePasswordStrength(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < 12) {
+    return 'Mật khẩu phải có ít nhất 12 ký tự'
+  }
+  if (password.length > 128) {
+    return 'Mật khẩu quá dài'
+  }
+  if (!/[a-z]/.test(password)) {
+    return 'Mật khẩu phải có ít nhất 1 chữ thường (a-z)'
+  }
+  if (!/[A-Z]/.test(password)) {
+    return 'Mật khẩu phải có ít nhất 1 chữ hoa (A-Z)'
+  }
+  if (!/[0-9]/.test(password)) {
+    return 'Mật khẩu phải có ít nhất 1 số (0-9)'
+  }
+  if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
+    return 'Mật khẩu phải có ít nhất 1 ký tự đặc biệt (!@#$%^&*...)'
+  }
+  // Check for common weak passwords
+  const commonPasswords = ['password123', '123456789012', 'qwertyuiop12']
+  if (commonPasswords.some(p => password.toLowerCase().includes(p))) {
+    return 'Mật khẩu quá phổ biến, vui lòng chọn mật khẩu khác'
+  }
+  return null
+}
+
 /**
  * Auth Controller - handles HTTP layer for authentication
  * Delegates business logic to AuthService
@@ -39,39 +85,14 @@ export class AuthController {
       }
 
       // SECURITY: Strong password validation (OWASP recommendations)
-      if (typeof password !== 'string' || password.length < 12) {
-        response.badRequest(res, 'Mật khẩu phải có ít nhất 12 ký tự')
-        return
-      }
-      if (password.length > 128) {
-        response.badRequest(res, 'Mật khẩu quá dài')
-        return
-      }
-      if (!/[a-z]/.test(password)) {
-        response.badRequest(res, 'Mật khẩu phải có ít nhất 1 chữ thường (a-z)')
-        return
-      }
-      if (!/[A-Z]/.test(password)) {
-        response.badRequest(res, 'Mật khẩu phải có ít nhất 1 chữ hoa (A-Z)')
-        return
-      }
-      if (!/[0-9]/.test(password)) {
-        response.badRequest(res, 'Mật khẩu phải có ít nhất 1 số (0-9)')
-        return
-      }
-      if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
-        response.badRequest(res, 'Mật khẩu phải có ít nhất 1 ký tự đặc biệt (!@#$%^&*...)')
-        return
-      }
-      // Check for common weak passwords
-      const commonPasswords = ['password123', '123456789012', 'qwertyuiop12']
-      if (commonPasswords.some(p => password.toLowerCase().includes(p))) {
-        response.badRequest(res, 'Mật khẩu quá phổ biến, vui lòng chọn mật khẩu khác')
+      const passwordError = validatePasswordStrength(password)
+      if (passwordError) {
+        response.badRequest(res, passwordError)
         return
       }
 
       // Rate limit check
-      authService.checkRegistrationRateLimit(req.ip || 'unknown', sanitizedEmail)
+      await authService.checkRegistrationRateLimit(req.ip || 'unknown', sanitizedEmail)
 
       const result = await authService.register(
         sanitizedEmail,
@@ -109,7 +130,11 @@ export class AuthController {
         return
       }
 
-      const result = await authService.verifyEmail(sanitizedEmail, code)
+      const result = await authService.verifyEmail(
+        sanitizedEmail,
+        code,
+        { ip: req.ip, userAgent: req.get('user-agent') }
+      )
       response.success(res, result)
     } catch (error) {
       this.handleError(res, error, 'Verification failed')
@@ -185,6 +210,333 @@ export class AuthController {
     }
   }
 
+  /**
+   * POST /api/auth/2fa/verify
+   * Second step of login for accounts with 2FA
+   */
+  async verifyTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken, code } = req.body
+
+      if (typeof challengeToken !== 'string' || typeof code !== 'string' || validate.isEmpty(challengeToken) || validate.isEmpty(code)) {
+        response.badRequest(res, 'Challenge token and code are required')
+        return
+      }
+
+      const result = await authService.completeTwoFactorLogin(
+        challengeToken,
+        code.substring(0, 32),
+        { ip: req.ip, userAgent: req.get('user-agent') }
+      )
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Two-factor verification failed')
+    }
+  }
+
+  /**
+   * GET /api/auth/2fa
+   */
+  async getTwoFactor(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const result = await getTwoFactorStatus(req.user!.userId)
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get two-factor status')
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/setup
+   * Returns the secret and otpauth:// URI to show as a QR code
+   */
+  async setupTwoFactor(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const result = await beginEnrollment(req.user!.userId)
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to start two-factor setup')
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/enable
+   */
+  async enableTwoFactor(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { code } = req.body
+
+      if (typeof code !== 'string' || !/^\d{6}$/.test(code.trim())) {
+        response.badRequest(res, 'A 6-digit authentication code is required')
+        return
+      }
+
+      const result = await confirmEnrollment(req.user!.userId, code)
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to enable two-factor authentication')
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/disable
+   */
+  async disableTwoFactor(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { code } = req.body
+
+      if (typeof code !== 'string' || validate.isEmpty(code)) {
+        response.badRequest(res, 'Authentication code or recovery code is required')
+        return
+      }
+
+      await disableTwoFactor(req.user!.userId, code.substring(0, 32))
+      response.success(res, { message: 'Two-factor authentication disabled' })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to disable two-factor authentication')
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Replace all recovery codes
+   */
+  async regenerateRecoveryCodes(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { code } = req.body
+
+      if (typeof code !== 'string' || validate.isEmpty(code)) {
+        response.badRequest(res, 'Authentication code or recovery code is required')
+        return
+      }
+
+      const result = await regenerateRecoveryCodes(req.user!.userId, code.substring(0, 32))
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to regenerate recovery codes')
+    }
+  }
+
+  /**
+   * POST /api/auth/forgot-password
+   */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body
+
+      if (validate.isEmpty(email)) {
+        response.badRequest(res, 'Email is required')
+        return
+      }
+
+      const sanitizedEmail = validate.sanitizeString(email, 255).toLowerCase()
+      if (!validate.isEmail(sanitizedEmail)) {
+        response.badRequest(res, 'Invalid email format')
+        return
+      }
+
+      const result = await authService.forgotPassword(sanitizedEmail)
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to send password reset code')
+    }
+  }
+
+  /**
+   * POST /api/auth/reset-password
+   */
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, code, newPassword } = req.body
+
+      if (validate.isEmpty(email) || validate.isEmpty(code) || validate.isEmpty(newPassword)) {
+        response.badRequest(res, 'Email, reset code and new password are required')
+        return
+      }
+
+      const sanitizedEmail = validate.sanitizeString(email, 255).toLowerCase()
+      if (!validate.isEmail(sanitizedEmail)) {
+        response.badRequest(res, 'Invalid email format')
+        return
+      }
+
+      if (!/^\d{6}$/.test(code)) {
+        response.badRequest(res, 'Invalid reset code format')
+        return
+      }
+
+      const passwordError = validatePasswordStrength(newPassword)
+      if (passwordError) {
+        response.badRequest(res, passwordError)
+        return
+      }
+
+      const result = await authService.resetPassword(
+        sanitizedEmail,
+        code,
+        newPassword,
+        { ip: req.ip, userAgent: req.get('user-agent') }
+      )
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Password reset failed')
+    }
+  }
+
+  /**
+   * PUT /api/auth/password
+   */
+  async changePassword(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { currentPassword, newPassword } = req.body
+
+      if (validate.isEmpty(currentPassword) || validate.isEmpty(newPassword)) {
+        response.badRequest(res, 'Current password and new password are required')
+        return
+      }
+
+      const passwordError = validatePasswordStrength(newPassword)
+      if (passwordError) {
+        response.badRequest(res, passwordError)
+        return
+      }
+
+      const result = await authService.changePassword(
+        req.user!.userId,
+        currentPassword,
+        newPassword,
+        { ip: req.ip, userAgent: req.get('user-agent') }
+      )
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to change password')
+    }
+  }
+
+  /**
+   * POST /api/auth/refresh
+   * Exchange a refresh token for a new token pair (the old refresh token stops working)
+   */
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body
+
+      if (typeof refreshToken !== 'string' || validate.isEmpty(refreshToken)) {
+        response.badRequest(res, 'Refresh token is required')
+        return
+      }
+
+      const result = await refreshSession(refreshToken, { ip: req.ip, userAgent: req.get('user-agent') })
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to refresh token')
+    }
+  }
+
+  /**
+   * POST /api/auth/logout
+   * End the current session
+   */
+  async logout(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (req.user!.sid) {
+        await revokeSession(req.user!.sid, 'logout')
+      }
+      response.success(res, { message: 'Logged out' })
+    } catch (error) {
+      this.handleError(res, error, 'Logout failed')
+    }
+  }
+
+  /**
+   * GET /api/auth/sessions
+   */
+  async getSessions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const sessions = await listSessions(req.user!.userId, req.user!.sid)
+      response.success(res, { sessions })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get sessions')
+    }
+  }
+
+  /**
+   * DELETE /api/auth/sessions
+   * Sign out every other device, keeping the current session
+   */
+  async revokeOtherSessions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const revoked = await revokeAllSessions(req.user!.userId, 'revoked', req.user!.sid)
+      logger.info('Other sessions revoked', { userId: req.user!.userId, revoked })
+      response.success(res, { revoked })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke sessions')
+    }
+  }
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   */
+  async revokeSession(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      // Validate UUID format
+      if (!id || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+        response.badRequest(res, 'Invalid session ID')
+        return
+      }
+
+      await revokeUserSession(req.user!.userId, id)
+      response.success(res, { message: 'Session revoked' })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke session')
+    }
+  }
+
+  /**
+   * GET /api/auth/providers
+   * Sign-in providers the login page can offer
+   */
+  async getProviders(req: Request, res: Response): Promise<void> {
+    try {
+      response.success(res, { providers: listOAuthProviders() })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get sign-in providers')
+    }
+  }
+
+  /**
+   * GET /api/auth/identities
+   */
+  async getIdentities(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const result = await authService.getIdentities(req.user!.userId)
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get linked accounts')
+    }
+  }
+
+  /**
+   * DELETE /api/auth/identities/:provider
+   */
+  async unlinkIdentity(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { provider } = req.params
+
+      if (!/^[a-z][a-z0-9-]{1,49}$/.test(provider)) {
+        response.badRequest(res, 'Invalid provider')
+        return
+      }
+
+      await authService.unlinkIdentity(req.user!.userId, provider, { ip: req.ip, userAgent: req.get('user-agent') })
+      response.success(res, { message: 'Account unlinked' })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to unlink account')
+    }
+  }
+
   /**
    * GET /api/auth/me
    */
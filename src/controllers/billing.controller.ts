@@ -4,6 +4,7 @@ import { response } from '../utils/response'
 import { logger } from '../utils/logger'
 import { AuthRequest } from '../middlewares/auth.middleware'
 import { AppError } from '../errors/app.error'
+import { isIpAllowed } from '../utils/ip'
 
 // SECURITY: Allowed IP ranges for SePay webhooks
 // Add SePay's actual IP ranges here
@@ -19,32 +20,8 @@ function isAllowedWebhookIP(ip: string | undefined): boolean {
     return true // Skip check in development or if not configured
   }
 
-  if (!ip) return false
-
-  // Handle IPv6 mapped IPv4 addresses
-  const normalizedIP = ip.replace(/^::ffff:/, '')
-
-  return SEPAY_ALLOWED_IPS.some(allowedIP => {
-    const trimmed = allowedIP.trim()
-    // Support CIDR notation (e.g., 192.168.1.0/24)
-    if (trimmed.includes('/')) {
-      return isIPInCIDR(normalizedIP, trimmed)
-    }
-    return normalizedIP === trimmed
-  })
-}
-
-/**
- * Check if IP is in CIDR range
- */
-function isIPInCIDR(ip: string, cidr: string): boolean {
-  const [range, bits] = cidr.split('/')
-  const mask = ~(2 ** (32 - parseInt(bits)) - 1)
-
-  const ipNum = ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet), 0)
-  const rangeNum = range.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet), 0)
-
-  return (ipNum & mask) === (rangeNum & mask)
+  // Supports single addresses and CIDR notation (e.g., 192.168.1.0/24)
+  return isIpAllowed(ip, SEPAY_ALLOWED_IPS)
 }
 
 /**
@@ -56,7 +33,7 @@ export class BillingController {
    */
   async getHistory(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const history = await billingService.getPaymentHistory(req.user!.userId)
+      const history = await billingService.getPaymentHistory(req.user!.userId, req.organization?.id ?? null)
       response.success(res, history)
     } catch (error) {
       this.handleError(res, error, 'Failed to fetch payment history')
@@ -75,7 +52,7 @@ export class BillingController {
         return
       }
 
-      const result = await billingService.createPayment(req.user!.userId, planId, amount)
+      const result = await billingService.createPayment(req.user!.userId, planId, amount, req.organization?.id ?? null)
       response.success(res, result)
     } catch (error) {
       this.handleError(res, error, 'Failed to create payment')
@@ -125,7 +102,7 @@ export class BillingController {
   async checkStatus(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { transactionId } = req.params
-      const result = await billingService.checkPaymentStatus(req.user!.userId, transactionId)
+      const result = await billingService.checkPaymentStatus(req.user!.userId, transactionId, req.organization?.id ?? null)
       response.success(res, result)
     } catch (error) {
       this.handleError(res, error, 'Failed to check payment status')
@@ -138,7 +115,7 @@ export class BillingController {
   async getPaymentDetail(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { paymentId } = req.params
-      const result = await billingService.getPaymentDetail(req.user!.userId, paymentId)
+      const result = await billingService.getPaymentDetail(req.user!.userId, paymentId, req.organization?.id ?? null)
       if (!result) {
         response.notFound(res, 'Payment not found')
         return
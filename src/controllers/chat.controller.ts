@@ -1,11 +1,46 @@
 import { Response } from 'express'
-import { chat, chatStream, AGENTS, AgentId, calculateCost, ChatMessage, isProAgent, getTokenMultiplier, calculateTokensWithMultiplier } from '../services/gemini-chat.service'
-import { logUsage, updateUserCredits } from '../services/usage.service'
-import { addChatMessages, getConversation } from '../services/conversation.service'
+import { chat, chatStream, AGENTS, AgentId, ChatMessage, ChatResponse, isProAgent, getTokenMultiplier, calculateTokensWithMultiplier, estimatePromptTokens, GEMINI_CHAT_MODEL } from '../services/gemini-chat.service'
+import { reserveCredits, settleReservation, releaseReservation, estimateChatReservation } from '../services/credit-reservation.service'
+import {
+  addChatMessages,
+  addMessage,
+  getConversation,
+  resolveActivePath,
+  generateConversationTitle,
+  DEFAULT_CONVERSATION_TITLE,
+} from '../services/conversation.service'
+import { buildConversationContext, getHistoryTokenBudget, updateConversationSummary, ConversationContext } from '../services/chat-memory.service'
+import { getModelPricing, calculateModelCost } from '../services/model-registry.service'
+import { InsufficientQuotaError } from '../errors/app.error'
 import { response } from '../utils/response'
 import { validate } from '../utils/validation'
 import { logger } from '../utils/logger'
 import { AuthRequest } from '../middlewares/auth.middleware'
+import { countTextTokens, getTokenizerFamily, resolveTokenUsage, tokenUsageMetadata, ResolvedTokenUsage } from '../utils/tokenizer'
+import { ChatConversation, ChatMessage as StoredMessage } from '../entities'
+
+const MAX_CLIENT_MESSAGES = 50
+const MAX_MESSAGE_CHARS = 50000
+// Longest reply a web chat turn may produce; sent upstream as max_tokens and held as far as the balance allows
+const MAX_REPLY_TOKENS = Math.min(Math.max(parseInt(process.env.CHAT_MAX_REPLY_TOKENS || '8192') || 8192, 256), 65536)
+
+interface PreparedChat {
+  chatMessages: ChatMessage[]
+  userContent: string
+  agentId: AgentId
+  // Conversation to append the turn to (legacy mode skips unknown ids)
+  conversation: ChatConversation | null
+  // Set when history was rebuilt server-side
+  memory: ConversationContext | null
+}
+
+interface ChatReply {
+  content: string
+  usage: ResolvedTokenUsage
+  billedTokens: number
+  tokenMultiplier: number
+  cost: number
+}
 
 /**
  * Chat Controller - handles chat HTTP layer
@@ -31,220 +66,485 @@ export class ChatController {
    */
   async sendMessage(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { messages, agentId, imageUrl, conversationId } = req.body
+      const prepared = await this.prepareChat(req, res)
+      if (!prepared) return
+      const { chatMessages, userContent, conversation, memory } = prepared
+      const validAgentId = prepared.agentId
 
-      // Validation
-      if (!messages || !Array.isArray(messages) || messages.length === 0) {
-        response.badRequest(res, 'Messages array is required')
-        return
+      logger.debug('Chat request', {
+        userId: req.user!.userId,
+        agentId: validAgentId,
+        isPro: isProAgent(validAgentId),
+        tokenMultiplier: getTokenMultiplier(validAgentId),
+      })
+
+      const reply = await this.completeChat(req.user!.userId, chatMessages, validAgentId, {
+        ...(memory && { conversationId: conversation!.id, serverHistory: true }),
+      })
+
+      // Save messages to conversation if conversationId provided
+      if (conversation) {
+        await addChatMessages(conversation.id, userContent, reply.content, {
+          agentId: validAgentId,
+          tokensUsed: reply.billedTokens,
+          cost: reply.cost,
+        })
+        this.afterTurn(conversation, memory !== null)
       }
 
-      if (messages.length > 50) {
-        response.badRequest(res, 'Too many messages in history (max 50)')
+      response.success(res, {
+        message: reply.content,
+        usage: this.formatUsage(reply),
+        ...(memory && { context: this.formatContext(memory) }),
+      })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to process chat request')
+    }
+  }
+
+  /**
+   * POST /api/conversations/:id/messages/:messageId/regenerate
+   * New reply to the same user message, added as a sibling branch
+   */
+  async regenerate(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const found = await this.findConversationMessage(req, res)
+      if (!found) return
+      const { conversation, target } = found
+
+      const question = conversation.messages.find((m) => m.id === target.parentId)
+      if (target.role !== 'assistant' || !question) {
+        response.badRequest(res, 'Only assistant replies can be regenerated')
         return
       }
 
-      const lastMessage = messages[messages.length - 1]
-      if (!lastMessage?.content) {
+      const agentId = this.resolveAgent(req.body?.agentId, target.metadata?.agentId, conversation.agentId)
+      const memory = await this.buildBranchContext(conversation, question.parentId, question.content, agentId)
+
+      const reply = await this.completeChat(req.user!.userId, memory.messages, agentId, {
+        conversationId: conversation.id,
+        regeneratedFrom: target.id,
+      })
+
+      const message = await addMessage({
+        conversationId: conversation.id,
+        role: 'assistant',
+        content: reply.content,
+        metadata: { agentId, cost: reply.cost, regeneratedFrom: target.id },
+        tokensUsed: reply.billedTokens,
+        parentId: question.id,
+      })
+
+      response.success(res, {
+        message: reply.content,
+        messageId: message.id,
+        parentId: question.id,
+        usage: this.formatUsage(reply),
+        context: this.formatContext(memory),
+      })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to regenerate message')
+    }
+  }
+
+  /**
+   * PUT /api/conversations/:id/messages/:messageId
+   * Edit a user message: the edit and a fresh reply fork a new branch from its parent
+   */
+  async editMessage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const content = req.body?.content
+      if (typeof content !== 'string' || !content.trim()) {
         response.badRequest(res, 'Message content is required')
         return
       }
-
-      for (const msg of messages) {
-        if (typeof msg.content === 'string' && msg.content.length > 50000) {
-          response.badRequest(res, 'Message content too long (max 50000 chars)')
-          return
-        }
+      if (content.length > MAX_MESSAGE_CHARS) {
+        response.badRequest(res, `Message content too long (max ${MAX_MESSAGE_CHARS} chars)`)
+        return
       }
 
-      const validAgentId: AgentId = AGENTS[agentId as AgentId] ? agentId : 'general_base'
+      const found = await this.findConversationMessage(req, res)
+      if (!found) return
+      const { conversation, target } = found
 
-      // Get token multiplier for Pro agents (2x for Pro, 1x for base)
-      const tokenMultiplier = getTokenMultiplier(validAgentId)
-      const isPro = isProAgent(validAgentId)
-
-      // Build chat messages
-      const chatMessages: ChatMessage[] = messages.map((msg: { role: string; content: string }) => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      }))
-
-      // If image URL provided, add to last message
-      if (imageUrl && validate.isURL(imageUrl)) {
-        const lastIdx = chatMessages.length - 1
-        chatMessages[lastIdx] = {
-          role: 'user',
-          content: [
-            { type: 'text', text: String(chatMessages[lastIdx].content) },
-            { type: 'image_url', image_url: { url: imageUrl } },
-          ],
-        }
+      if (target.role !== 'user') {
+        response.badRequest(res, 'Only user messages can be edited')
+        return
       }
 
-      logger.debug('Chat request', { userId: req.user!.userId, agentId: validAgentId, isPro, tokenMultiplier })
+      const agentId = this.resolveAgent(req.body?.agentId, undefined, conversation.agentId)
+      const memory = await this.buildBranchContext(conversation, target.parentId, content, agentId)
 
-      const result = await chat({
-        messages: chatMessages,
-        agentId: validAgentId,
+      const reply = await this.completeChat(req.user!.userId, memory.messages, agentId, {
+        conversationId: conversation.id,
+        editedFrom: target.id,
       })
 
-      const rawTokens = result.usage?.total_tokens || 0
-      // Apply multiplier: Pro agents cost 2x tokens
-      const billedTokens = calculateTokensWithMultiplier(rawTokens, validAgentId)
-      const cost = calculateCost(rawTokens, tokenMultiplier)
+      const { userMessage, assistantMessage } = await addChatMessages(conversation.id, content, reply.content, {
+        agentId,
+        tokensUsed: reply.billedTokens,
+        cost: reply.cost,
+      }, target.parentId)
+      this.afterTurn(conversation, false)
 
-      // Log usage
-      await logUsage(req.user!.userId, 'chat', billedTokens, cost, true, {
-        agentId: validAgentId,
-        messageCount: messages.length,
-        rawTokens,
-        billedTokens,
-        tokenMultiplier,
+      response.success(res, {
+        message: reply.content,
+        messageId: assistantMessage.id,
+        userMessageId: userMessage.id,
+        parentId: target.parentId,
+        usage: this.formatUsage(reply),
+        context: this.formatContext(memory),
       })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to edit message')
+    }
+  }
+
+  /**
+   * POST /api/chat/stream
+   */
+  async streamMessage(req: AuthRequest, res: Response): Promise<void> {
+    let reservationId: string | null = null
 
-      // Update user credits with billed tokens
-      await updateUserCredits(req.user!.userId, billedTokens, cost)
+    try {
+      const prepared = await this.prepareChat(req, res)
+      if (!prepared) return
+      const { chatMessages, userContent, conversation, memory } = prepared
+      const validAgentId = prepared.agentId
 
-      const assistantContent = result.choices[0]?.message?.content || ''
+      // Get token multiplier for Pro agents (2x for Pro, 1x for base)
+      const tokenMultiplier = getTokenMultiplier(validAgentId)
 
-      // Save messages to conversation if conversationId provided
-      if (conversationId) {
-        const conversation = await getConversation(conversationId, req.user!.userId)
-        if (conversation) {
-          const userContent = typeof lastMessage.content === 'string'
-            ? lastMessage.content
-            : lastMessage.content
-          await addChatMessages(conversationId, userContent, assistantContent, {
-            agentId: validAgentId,
-            tokensUsed: billedTokens,
-            cost,
-          })
+      // Count input tokens locally; upstream usage replaces this when reported
+      const inputTokens = estimatePromptTokens(chatMessages, validAgentId)
+
+      // Pre-flight: hold an estimate before opening the stream so a 402 can still be sent
+      reservationId = (await reserveCredits({
+        userId: req.user!.userId,
+        action: 'chat_stream',
+        amount: estimateChatReservation(inputTokens, tokenMultiplier, MAX_REPLY_TOKENS),
+        minAmount: estimateChatReservation(inputTokens, tokenMultiplier),
+        metadata: { agentId: validAgentId },
+      })).id
+
+      // Set headers for SSE
+      res.setHeader('Content-Type', 'text/event-stream')
+      res.setHeader('Cache-Control', 'no-cache')
+      res.setHeader('Connection', 'keep-alive')
+
+      let totalContent = ''
+      let upstreamUsage: ChatResponse['usage'] | null = null
+
+      for await (const event of chatStream({ messages: chatMessages, agentId: validAgentId, maxTokens: MAX_REPLY_TOKENS })) {
+        if (event.type === 'usage') {
+          upstreamUsage = event.usage
+          continue
         }
+        totalContent += event.content
+        res.write(`data: ${JSON.stringify({ content: event.content })}\n\n`)
       }
 
-      response.success(res, {
-        message: assistantContent,
-        usage: {
-          promptTokens: result.usage?.prompt_tokens || 0,
-          completionTokens: result.usage?.completion_tokens || 0,
-          totalTokens: rawTokens,
+      const usage = resolveTokenUsage({
+        inputTokens,
+        outputTokens: countTextTokens(totalContent, getTokenizerFamily(GEMINI_CHAT_MODEL)),
+      }, upstreamUsage)
+      const rawTokens = usage.totalTokens
+      // Apply multiplier: Pro agents cost 2x tokens
+      const billedTokens = calculateTokensWithMultiplier(rawTokens, validAgentId)
+      const cost = calculateModelCost(await getModelPricing(GEMINI_CHAT_MODEL), usage.inputTokens, usage.outputTokens, tokenMultiplier)
+
+      // Settle the hold with the real cost (writes the usage log)
+      await settleReservation(reservationId, {
+        creditsUsed: billedTokens,
+        costUsd: cost,
+        metadata: {
+          agentId: validAgentId,
+          ...(memory && { conversationId: conversation!.id, serverHistory: true }),
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          rawTokens,
           billedTokens,
           tokenMultiplier,
-          cost,
+          ...tokenUsageMetadata(usage),
         },
       })
+
+      // Save messages to conversation if conversationId provided
+      if (conversation) {
+        await addChatMessages(conversation.id, userContent, totalContent, {
+          agentId: validAgentId,
+          tokensUsed: billedTokens,
+          cost,
+        })
+        this.afterTurn(conversation, memory !== null)
+      }
+
+      res.write(`data: ${JSON.stringify({
+        done: true,
+        usage: { rawTokens, billedTokens, tokenMultiplier, cost },
+        ...(memory && { context: this.formatContext(memory) }),
+      })}\n\n`)
+      res.end()
     } catch (error) {
-      logger.error('Chat error', error as Error)
-      response.serverError(res, 'Failed to process chat request')
+      if (error instanceof InsufficientQuotaError) {
+        response.paymentRequired(res, error.message, {
+          code: error.code,
+          required: error.required,
+          available: error.available,
+        })
+        return
+      }
+      if (reservationId) {
+        await releaseReservation(reservationId, 'stream_error').catch(() => {})
+      }
+      logger.error('Chat stream error', error as Error)
+      res.write(`data: ${JSON.stringify({ error: 'Stream failed' })}\n\n`)
+      res.end()
     }
   }
 
   /**
-   * POST /api/chat/stream
+   * Validate the body and build the upstream messages; sends 400/404 and returns null when invalid
+   *
+   * Two modes:
+   * - `messages`: the client sends the history itself (max 50)
+   * - `message` + `conversationId`: history is rebuilt from the stored conversation
    */
-  async streamMessage(req: AuthRequest, res: Response): Promise<void> {
-    try {
-      const { messages, agentId, imageUrl, conversationId } = req.body
+  private async prepareChat(req: AuthRequest, res: Response): Promise<PreparedChat | null> {
+    const { messages, message, agentId, imageUrl, conversationId } = req.body
+    const serverHistory = messages === undefined && message !== undefined
 
+    if (serverHistory) {
+      if (typeof message !== 'string' || !message.trim()) {
+        response.badRequest(res, 'Message content is required')
+        return null
+      }
+      if (message.length > MAX_MESSAGE_CHARS) {
+        response.badRequest(res, `Message content too long (max ${MAX_MESSAGE_CHARS} chars)`)
+        return null
+      }
+      if (typeof conversationId !== 'string' || !validate.isUUID(conversationId)) {
+        response.badRequest(res, 'conversationId is required when sending a single message')
+        return null
+      }
+    } else {
       if (!messages || !Array.isArray(messages) || messages.length === 0) {
         response.badRequest(res, 'Messages array is required')
-        return
+        return null
       }
 
-      if (messages.length > 50) {
-        response.badRequest(res, 'Too many messages in history (max 50)')
-        return
+      if (messages.length > MAX_CLIENT_MESSAGES) {
+        response.badRequest(res, `Too many messages in history (max ${MAX_CLIENT_MESSAGES})`)
+        return null
+      }
+
+      if (!messages[messages.length - 1]?.content) {
+        response.badRequest(res, 'Message content is required')
+        return null
       }
 
       for (const msg of messages) {
-        if (typeof msg.content === 'string' && msg.content.length > 50000) {
-          response.badRequest(res, 'Message content too long (max 50000 chars)')
-          return
+        if (typeof msg.content === 'string' && msg.content.length > MAX_MESSAGE_CHARS) {
+          response.badRequest(res, `Message content too long (max ${MAX_MESSAGE_CHARS} chars)`)
+          return null
         }
       }
+    }
 
-      const validAgentId: AgentId = AGENTS[agentId as AgentId] ? agentId : 'general_base'
-
-      // Get token multiplier for Pro agents (2x for Pro, 1x for base)
-      const tokenMultiplier = getTokenMultiplier(validAgentId)
+    const conversation = conversationId && validate.isUUID(conversationId)
+      ? await getConversation(conversationId, req.user!.userId)
+      : null
+    if (serverHistory && !conversation) {
+      response.notFound(res, 'Conversation not found')
+      return null
+    }
 
-      // Build chat messages
-      const chatMessages: ChatMessage[] = messages.map((msg: { role: string; content: string }) => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      }))
-
-      if (imageUrl && validate.isURL(imageUrl)) {
-        const lastIdx = chatMessages.length - 1
-        chatMessages[lastIdx] = {
-          role: 'user',
-          content: [
-            { type: 'text', text: String(chatMessages[lastIdx].content) },
-            { type: 'image_url', image_url: { url: imageUrl } },
-          ],
-        }
+    // Server-side history defaults to the conversation's own agent
+    const requestedAgent = agentId ?? (serverHistory ? conversation!.agentId : undefined)
+    const validAgentId: AgentId = AGENTS[requestedAgent as AgentId] ? requestedAgent : 'general_base'
+
+    const lastMessage = serverHistory ? { role: 'user', content: message } : messages[messages.length - 1]
+    const userContent: string = lastMessage.content
+    let newMessage: ChatMessage = { role: lastMessage.role as 'user' | 'assistant', content: userContent }
+
+    // If image URL provided, add to the new message
+    if (imageUrl && validate.isURL(imageUrl)) {
+      newMessage = {
+        role: 'user',
+        content: [
+          { type: 'text', text: String(userContent) },
+          { type: 'image_url', image_url: { url: imageUrl } },
+        ],
       }
+    }
 
-      // Calculate input tokens from messages
-      const inputText = chatMessages.map((m) => {
-        if (typeof m.content === 'string') return m.content
-        return m.content.map((c) => c.text || '').join(' ')
-      }).join(' ')
-      const inputTokens = Math.ceil(inputText.length / 4)
-
-      // Set headers for SSE
-      res.setHeader('Content-Type', 'text/event-stream')
-      res.setHeader('Cache-Control', 'no-cache')
-      res.setHeader('Connection', 'keep-alive')
+    if (serverHistory) {
+      const memory = buildConversationContext(conversation!, newMessage, validAgentId, await getHistoryTokenBudget())
+      return { chatMessages: memory.messages, userContent, agentId: validAgentId, conversation, memory }
+    }
 
-      let totalContent = ''
+    // Build chat messages
+    const chatMessages: ChatMessage[] = messages.slice(0, -1).map((msg: { role: string; content: string }) => ({
+      role: msg.role as 'user' | 'assistant',
+      content: msg.content,
+    }))
+    chatMessages.push(newMessage)
 
-      for await (const chunk of chatStream({ messages: chatMessages, agentId: validAgentId })) {
-        totalContent += chunk
-        res.write(`data: ${JSON.stringify({ content: chunk })}\n\n`)
-      }
+    return { chatMessages, userContent, agentId: validAgentId, conversation, memory: null }
+  }
 
-      // Estimate total tokens
-      const outputTokens = Math.ceil(totalContent.length / 4)
-      const rawTokens = inputTokens + outputTokens
-      // Apply multiplier: Pro agents cost 2x tokens
-      const billedTokens = calculateTokensWithMultiplier(rawTokens, validAgentId)
-      const cost = calculateCost(rawTokens, tokenMultiplier)
+  /**
+   * Reserve credits, call upstream and settle the hold with the billed usage
+   */
+  private async completeChat(
+    userId: string,
+    chatMessages: ChatMessage[],
+    agentId: AgentId,
+    metadata: Record<string, unknown>
+  ): Promise<ChatReply> {
+    // Get token multiplier for Pro agents (2x for Pro, 1x for base)
+    const tokenMultiplier = getTokenMultiplier(agentId)
+
+    // Pre-flight: hold an estimate against the balance before calling upstream
+    const inputTokens = estimatePromptTokens(chatMessages, agentId)
+    const reservation = await reserveCredits({
+      userId,
+      action: 'chat',
+      amount: estimateChatReservation(inputTokens, tokenMultiplier, MAX_REPLY_TOKENS),
+      minAmount: estimateChatReservation(inputTokens, tokenMultiplier),
+      metadata: { agentId },
+    })
+
+    let result
+    try {
+      result = await chat({
+        messages: chatMessages,
+        agentId,
+        maxTokens: MAX_REPLY_TOKENS,
+      })
+    } catch (error) {
+      await releaseReservation(reservation.id, 'upstream_error')
+      throw error
+    }
 
-      // Log usage
-      await logUsage(req.user!.userId, 'chat_stream', billedTokens, cost, true, {
-        agentId: validAgentId,
-        inputTokens,
-        outputTokens,
-        rawTokens,
+    const content = result.choices[0]?.message?.content || ''
+
+    // Bill upstream usage; fall back to our own count if the provider omits it
+    const usage = resolveTokenUsage({
+      inputTokens,
+      outputTokens: countTextTokens(content, getTokenizerFamily(GEMINI_CHAT_MODEL)),
+    }, result.usage)
+    // Apply multiplier: Pro agents cost 2x tokens
+    const billedTokens = calculateTokensWithMultiplier(usage.totalTokens, agentId)
+    const cost = calculateModelCost(await getModelPricing(GEMINI_CHAT_MODEL), usage.inputTokens, usage.outputTokens, tokenMultiplier)
+
+    // Settle the hold with the real cost (writes the usage log)
+    await settleReservation(reservation.id, {
+      creditsUsed: billedTokens,
+      costUsd: cost,
+      metadata: {
+        agentId,
+        messageCount: chatMessages.length,
+        ...metadata,
+        rawTokens: usage.totalTokens,
         billedTokens,
         tokenMultiplier,
-      })
+        ...tokenUsageMetadata(usage),
+      },
+    })
 
-      await updateUserCredits(req.user!.userId, billedTokens, cost)
+    return { content, usage, billedTokens, tokenMultiplier, cost }
+  }
 
-      // Save messages to conversation if conversationId provided
-      if (conversationId) {
-        const conversation = await getConversation(conversationId, req.user!.userId)
-        if (conversation) {
-          const lastMessage = messages[messages.length - 1]
-          const userContent = typeof lastMessage.content === 'string'
-            ? lastMessage.content
-            : lastMessage.content
-          await addChatMessages(conversationId, userContent, totalContent, {
-            agentId: validAgentId,
-            tokensUsed: billedTokens,
-            cost,
-          })
-        }
-      }
+  /**
+   * Load the conversation (all branches) and the message named in the URL; sends 404 and returns null when missing
+   */
+  private async findConversationMessage(
+    req: AuthRequest,
+    res: Response
+  ): Promise<{ conversation: ChatConversation; target: StoredMessage } | null> {
+    const { id, messageId } = req.params
+    if (!validate.isUUID(id) || !validate.isUUID(messageId)) {
+      response.notFound(res, 'Message not found')
+      return null
+    }
 
-      res.write(`data: ${JSON.stringify({ done: true, usage: { rawTokens, billedTokens, tokenMultiplier, cost } })}\n\n`)
-      res.end()
-    } catch (error) {
-      logger.error('Chat stream error', error as Error)
-      res.write(`data: ${JSON.stringify({ error: 'Stream failed' })}\n\n`)
-      res.end()
+    const conversation = await getConversation(id, req.user!.userId, { allBranches: true })
+    const target = conversation?.messages.find((m) => m.id === messageId)
+    if (!conversation || !target) {
+      response.notFound(res, 'Message not found')
+      return null
+    }
+    return { conversation, target }
+  }
+
+  /**
+   * Prompt for a new reply to `content`, placed under `parentId` on its own branch
+   */
+  private async buildBranchContext(
+    conversation: ChatConversation,
+    parentId: string | null,
+    content: string,
+    agentId: AgentId
+  ): Promise<ConversationContext> {
+    const branch = { ...conversation, messages: resolveActivePath(conversation.messages, parentId) }
+    return buildConversationContext(branch, { role: 'user', content }, agentId, await getHistoryTokenBudget())
+  }
+
+  private resolveAgent(...candidates: unknown[]): AgentId {
+    const agentId = candidates.find((id) => typeof id === 'string' && AGENTS[id as AgentId])
+    return (agentId as AgentId | undefined) || 'general_base'
+  }
+
+  private formatUsage(reply: ChatReply) {
+    return {
+      promptTokens: reply.usage.inputTokens,
+      completionTokens: reply.usage.outputTokens,
+      totalTokens: reply.usage.totalTokens,
+      billedTokens: reply.billedTokens,
+      tokenMultiplier: reply.tokenMultiplier,
+      cost: reply.cost,
+    }
+  }
+
+  /**
+   * 402 for rejected reservations, 500 for anything else
+   */
+  private handleError(res: Response, error: unknown, defaultMessage: string): void {
+    if (error instanceof InsufficientQuotaError) {
+      response.paymentRequired(res, error.message, {
+        code: error.code,
+        required: error.required,
+        available: error.available,
+      })
+      return
+    }
+    logger.error(defaultMessage, error as Error)
+    response.serverError(res, defaultMessage)
+  }
+
+  /**
+   * Upkeep after a turn is saved, without delaying the response:
+   * title new conversations and fold older turns into the summary
+   */
+  private afterTurn(conversation: ChatConversation, summarize: boolean): void {
+    if (conversation.title === DEFAULT_CONVERSATION_TITLE) {
+      generateConversationTitle(conversation.id).catch((error) => {
+        logger.error('Conversation title failed', error as Error)
+      })
+    }
+    if (summarize) {
+      updateConversationSummary(conversation.id).catch((error) => {
+        logger.error('Conversation summary failed', error as Error)
+      })
+    }
+  }
+
+  private formatContext(memory: ConversationContext) {
+    return {
+      historyMessages: memory.historyCount,
+      omittedMessages: memory.omittedCount,
+      summarized: memory.summarized,
     }
   }
 }
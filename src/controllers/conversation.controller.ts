@@ -2,6 +2,8 @@ import { Response } from 'express'
 import { AuthRequest } from '../middlewares/auth.middleware'
 import { response } from '../utils/response'
 import { logger } from '../utils/logger'
+import { validate } from '../utils/validation'
+import { ChatConversation } from '../entities'
 import {
   getUserConversations,
   createConversation,
@@ -9,7 +11,11 @@ import {
   updateConversationTitle,
   updateConversationAgent,
   deleteConversation,
+  switchBranch,
+  resolveActivePath,
+  getSiblingIds,
 } from '../services/conversation.service'
+import { searchConversations } from '../services/conversation-search.service'
 
 /**
  * Conversation Controller - handles conversation HTTP layer
@@ -47,6 +53,29 @@ export class ConversationController {
     }
   }
 
+  /**
+   * GET /api/conversations/search?q=
+   * Full-text search across the user's messages (accent-insensitive)
+   */
+  async search(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+      if (!q) {
+        response.badRequest(res, 'Search query (q) is required')
+        return
+      }
+
+      const page = Math.max(1, parseInt(req.query.page as string) || 1)
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 20), 50)
+
+      const result = await searchConversations(req.user!.userId, q, page, limit)
+      response.success(res, result)
+    } catch (error) {
+      logger.error('Search conversations error', error as Error)
+      response.serverError(res, 'Failed to search conversations')
+    }
+  }
+
   /**
    * POST /api/conversations
    * Create new conversation
@@ -76,39 +105,56 @@ export class ConversationController {
 
   /**
    * GET /api/conversations/:id
-   * Get conversation with messages
+   * Get conversation with the messages of its active branch (?branches=all for every message)
    */
   async get(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params
 
-      const conversation = await getConversation(id, req.user!.userId)
+      const conversation = await getConversation(id, req.user!.userId, { allBranches: true })
       if (!conversation) {
         response.notFound(res, 'Conversation not found')
         return
       }
 
-      response.success(res, {
-        id: conversation.id,
-        title: conversation.title,
-        agentId: conversation.agentId,
-        createdAt: conversation.createdAt,
-        updatedAt: conversation.updatedAt,
-        messages: conversation.messages.map((m) => ({
-          id: m.id,
-          role: m.role,
-          content: m.content,
-          metadata: m.metadata,
-          tokensUsed: m.tokensUsed,
-          createdAt: m.createdAt,
-        })),
-      })
+      response.success(res, this.formatConversation(conversation, req.query.branches === 'all'))
     } catch (error) {
       logger.error('Get conversation error', error as Error)
       response.serverError(res, 'Failed to get conversation')
     }
   }
 
+  /**
+   * PUT /api/conversations/:id/branch
+   * Switch the active branch to the one through `messageId` (continues to its newest reply)
+   */
+  async switchBranch(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+      const { messageId } = req.body
+
+      if (typeof messageId !== 'string' || !validate.isUUID(messageId)) {
+        response.badRequest(res, 'messageId is required')
+        return
+      }
+      if (!validate.isUUID(id)) {
+        response.notFound(res, 'Conversation not found')
+        return
+      }
+
+      const conversation = await switchBranch(id, req.user!.userId, messageId)
+      if (!conversation) {
+        response.notFound(res, 'Message not found')
+        return
+      }
+
+      response.success(res, this.formatConversation(conversation, false))
+    } catch (error) {
+      logger.error('Switch branch error', error as Error)
+      response.serverError(res, 'Failed to switch branch')
+    }
+  }
+
   /**
    * PUT /api/conversations/:id
    * Update conversation (title, agentId)
@@ -165,6 +211,36 @@ export class ConversationController {
       response.serverError(res, 'Failed to delete conversation')
     }
   }
+
+  /**
+   * Conversation with all its messages loaded; each message lists its sibling branches
+   */
+  private formatConversation(conversation: ChatConversation, allBranches: boolean) {
+    const siblings = getSiblingIds(conversation.messages)
+    const messages = allBranches
+      ? conversation.messages
+      : resolveActivePath(conversation.messages, conversation.activeLeafId)
+
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      agentId: conversation.agentId,
+      summary: conversation.summary,
+      activeLeafId: conversation.activeLeafId,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      messages: messages.map((m) => ({
+        id: m.id,
+        parentId: m.parentId,
+        role: m.role,
+        content: m.content,
+        metadata: m.metadata,
+        tokensUsed: m.tokensUsed,
+        siblingIds: siblings.get(m.id),
+        createdAt: m.createdAt,
+      })),
+    }
+  }
 }
 
 export const conversationController = new ConversationController()
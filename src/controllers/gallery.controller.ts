@@ -0,0 +1,285 @@
+import { Response } from 'express'
+import { AuthRequest } from '../middlewares/auth.middleware'
+import { response } from '../utils/response'
+import { logger } from '../utils/logger'
+import { validate } from '../utils/validation'
+import { AppError } from '../errors'
+import {
+  GalleryFilters,
+  MAX_BULK_ITEMS,
+  listGallery,
+  getGalleryItem,
+  setFavorite,
+  deleteGalleryItems,
+  listCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  addCollectionItems,
+  removeCollectionItem,
+} from '../services/gallery.service'
+
+/**
+ * Gallery Controller - browse and organize generated images
+ */
+export class GalleryController {
+  /**
+   * GET /api/gallery
+   */
+  async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1)
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 20), 100)
+
+      const filters = this.parseFilters(req, res)
+      if (!filters) return
+
+      const gallery = await listGallery(req.user!.userId, filters, page, limit)
+      response.success(res, gallery)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get gallery')
+    }
+  }
+
+  /**
+   * GET /api/gallery/:id
+   */
+  async get(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!validate.isUUID(req.params.id)) {
+        response.notFound(res, 'Gallery item not found')
+        return
+      }
+
+      const item = await getGalleryItem(req.user!.userId, req.params.id)
+      response.success(res, item)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get gallery item')
+    }
+  }
+
+  /**
+   * PUT /api/gallery/:id/favorite
+   */
+  async favorite(req: AuthRequest, res: Response): Promise<void> {
+    await this.updateFavorite(req, res, true)
+  }
+
+  /**
+   * DELETE /api/gallery/:id/favorite
+   */
+  async unfavorite(req: AuthRequest, res: Response): Promise<void> {
+    await this.updateFavorite(req, res, false)
+  }
+
+  /**
+   * POST /api/gallery/delete
+   * Bulk-remove images from the gallery (usage logs are kept)
+   */
+  async bulkDelete(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const ids = this.parseIds(req.body?.ids, res)
+      if (!ids) return
+
+      const deleted = await deleteGalleryItems(req.user!.userId, ids)
+      logger.info('Gallery items deleted', { userId: req.user!.userId, requested: ids.length, deleted })
+      response.success(res, { deleted })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete gallery items')
+    }
+  }
+
+  /**
+   * GET /api/gallery/collections
+   */
+  async listCollections(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const collections = await listCollections(req.user!.userId)
+      response.success(res, { collections })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list collections')
+    }
+  }
+
+  /**
+   * POST /api/gallery/collections
+   */
+  async createCollection(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const collection = await createCollection(req.user!.userId, req.body || {})
+      response.created(res, collection)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create collection')
+    }
+  }
+
+  /**
+   * PATCH /api/gallery/collections/:id
+   */
+  async updateCollection(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!validate.isUUID(req.params.id)) {
+        response.notFound(res, 'Collection not found')
+        return
+      }
+
+      const collection = await updateCollection(req.user!.userId, req.params.id, req.body || {})
+      response.success(res, collection)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update collection')
+    }
+  }
+
+  /**
+   * DELETE /api/gallery/collections/:id
+   * Deletes the collection only; its images stay in the gallery
+   */
+  async deleteCollection(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!validate.isUUID(req.params.id)) {
+        response.notFound(res, 'Collection not found')
+        return
+      }
+
+      await deleteCollection(req.user!.userId, req.params.id)
+      response.message(res, 'Collection deleted')
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete collection')
+    }
+  }
+
+  /**
+   * POST /api/gallery/collections/:id/items
+   */
+  async addCollectionItems(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!validate.isUUID(req.params.id)) {
+        response.notFound(res, 'Collection not found')
+        return
+      }
+
+      const ids = this.parseIds(req.body?.ids, res)
+      if (!ids) return
+
+      const added = await addCollectionItems(req.user!.userId, req.params.id, ids)
+      response.success(res, { added })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to add collection items')
+    }
+  }
+
+  /**
+   * DELETE /api/gallery/collections/:id/items/:itemId
+   */
+  async removeCollectionItem(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!validate.isUUID(req.params.id) || !validate.isUUID(req.params.itemId)) {
+        response.notFound(res, 'Collection item not found')
+        return
+      }
+
+      await removeCollectionItem(req.user!.userId, req.params.id, req.params.itemId)
+      response.message(res, 'Removed from collection')
+    } catch (error) {
+      this.handleError(res, error, 'Failed to remove collection item')
+    }
+  }
+
+  private async updateFavorite(req: AuthRequest, res: Response, favorite: boolean): Promise<void> {
+    try {
+      if (!validate.isUUID(req.params.id)) {
+        response.notFound(res, 'Gallery item not found')
+        return
+      }
+
+      await setFavorite(req.user!.userId, req.params.id, favorite)
+      response.success(res, { id: req.params.id, isFavorite: favorite })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update favorite')
+    }
+  }
+
+  /**
+   * Read list filters from the query string; sends 400 and returns null when invalid
+   */
+  private parseFilters(req: AuthRequest, res: Response): GalleryFilters | null {
+    const query = req.query
+    const filters: GalleryFilters = {}
+
+    for (const key of ['aspectRatio', 'resolution', 'model'] as const) {
+      const value = query[key]
+      if (typeof value === 'string' && value.trim()) {
+        filters[key] = value.trim().substring(0, 100)
+      }
+    }
+
+    for (const key of ['from', 'to'] as const) {
+      const value = query[key]
+      if (typeof value === 'string' && value) {
+        const date = new Date(value)
+        if (isNaN(date.getTime())) {
+          response.badRequest(res, `Invalid ${key} date`)
+          return null
+        }
+        filters[key] = date
+      }
+    }
+
+    if (typeof query.q === 'string' && query.q.trim()) {
+      filters.search = query.q.trim().substring(0, 200)
+    }
+
+    if (query.favorites === 'true') {
+      filters.favorites = true
+    }
+
+    if (typeof query.collectionId === 'string' && query.collectionId) {
+      if (!validate.isUUID(query.collectionId)) {
+        response.badRequest(res, 'Invalid collectionId')
+        return null
+      }
+      filters.collectionId = query.collectionId
+    }
+
+    if (query.sort === 'oldest') {
+      filters.sort = 'oldest'
+    }
+
+    return filters
+  }
+
+  /**
+   * Validate a bulk `ids` array; sends 400 and returns null when invalid
+   */
+  private parseIds(ids: unknown, res: Response): string[] | null {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      response.badRequest(res, 'ids array is required')
+      return null
+    }
+    if (ids.length > MAX_BULK_ITEMS) {
+      response.badRequest(res, `Maximum ${MAX_BULK_ITEMS} ids per request`)
+      return null
+    }
+    if (!ids.every((id) => typeof id === 'string' && validate.isUUID(id))) {
+      response.badRequest(res, 'ids must be UUIDs')
+      return null
+    }
+    return [...new Set(ids as string[])]
+  }
+
+  /**
+   * Centralized error handler
+   */
+  private handleError(res: Response, error: unknown, defaultMessage: string): void {
+    if (error instanceof AppError) {
+      response.error(res, error.message, error.statusCode, { code: error.code })
+      return
+    }
+
+    logger.error(defaultMessage, error as Error)
+    response.serverError(res, defaultMessage)
+  }
+}
+
+// Singleton instance
+export const galleryController = new GalleryController()
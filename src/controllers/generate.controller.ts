@@ -1,12 +1,35 @@
 import { Response } from 'express'
-import { createTask, getTaskStatus } from '../services/kie-api.service'
-import { logUsage } from '../services/usage.service'
+import { createTask, getTaskStatus, KIE_IMAGE_MODEL } from '../services/kie-api.service'
+import { logUsage, CREDITS_PER_IMAGE, CREDIT_PRICE_USD } from '../services/usage.service'
+import {
+  reserveCredits,
+  settleReservation,
+  releaseReservation,
+  setReservationReference,
+  findReservationByReference,
+} from '../services/credit-reservation.service'
+import {
+  createGenerationJob,
+  findJobByTaskId,
+  formatJob,
+  getUserJob,
+  getUserJobs,
+  getWebhookSecret,
+  pollJob,
+} from '../services/generation-job.service'
+import { GenerationJobStatus } from '../entities'
+import { InsufficientQuotaError } from '../errors/app.error'
 import { usageLogRepository } from '../repositories/usage-log.repository'
 import { response } from '../utils/response'
 import { validate } from '../utils/validation'
 import { logger } from '../utils/logger'
 import { AuthRequest } from '../middlewares/auth.middleware'
 
+// Image holds live until the client polls the result, so allow more time than chat
+const IMAGE_RESERVATION_TTL_MS = 30 * 60 * 1000
+
+const JOB_STATUSES: GenerationJobStatus[] = ['processing', 'completed', 'failed']
+
 /**
  * Generate Controller - handles image generation HTTP layer
  */
@@ -16,13 +39,18 @@ export class GenerateController {
    */
   async createTask(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { prompt, image_input, aspect_ratio, resolution, output_format } = req.body
+      const { prompt, image_input, aspect_ratio, resolution, output_format, webhook_url } = req.body
 
       if (validate.isEmpty(prompt)) {
         response.badRequest(res, 'Prompt is required')
         return
       }
 
+      if (webhook_url !== undefined && !validate.isSafeCallbackUrl(webhook_url)) {
+        response.badRequest(res, 'webhook_url must be a public HTTPS URL')
+        return
+      }
+
       const sanitizedPrompt = validate.sanitizeString(prompt, 2000)
       const validAspectRatio = validate.isValidAspectRatio(aspect_ratio) ? aspect_ratio : '1:1'
       const validResolution = validate.isValidResolution(resolution) ? resolution : '1K'
@@ -34,15 +62,31 @@ export class GenerateController {
         resolution: validResolution,
       })
 
-      const apiResponse = await createTask({
-        prompt: sanitizedPrompt,
-        image_input: image_input || [],
-        aspect_ratio: validAspectRatio,
-        resolution: validResolution,
-        output_format: validFormat,
+      // Pre-flight: hold the image price before creating the upstream task
+      const reservation = await reserveCredits({
+        userId: req.user!.userId,
+        action: 'generate_image',
+        amount: CREDITS_PER_IMAGE,
+        metadata: { aspectRatio: validAspectRatio, resolution: validResolution },
+        ttlMs: IMAGE_RESERVATION_TTL_MS,
       })
 
+      let apiResponse
+      try {
+        apiResponse = await createTask({
+          prompt: sanitizedPrompt,
+          image_input: image_input || [],
+          aspect_ratio: validAspectRatio,
+          resolution: validResolution,
+          output_format: validFormat,
+        })
+      } catch (error) {
+        await releaseReservation(reservation.id, 'upstream_error')
+        throw error
+      }
+
       if (apiResponse.code !== 200) {
+        await releaseReservation(reservation.id, 'task_creation_failed')
         await logUsage({
           userId: req.user!.userId,
           action: 'generate_image',
@@ -62,18 +106,115 @@ export class GenerateController {
         return
       }
 
-      logger.info('Task created', { taskId: apiResponse.data.taskId })
+      await setReservationReference(reservation.id, apiResponse.data.taskId)
+
+      // The job worker polls KIE and bills on completion, clients no longer have to poll
+      const job = await createGenerationJob({
+        userId: req.user!.userId,
+        taskId: apiResponse.data.taskId,
+        prompt: sanitizedPrompt,
+        aspectRatio: validAspectRatio,
+        resolution: validResolution,
+        outputFormat: validFormat,
+        reservationId: reservation.id,
+        webhookUrl: webhook_url,
+      })
+
+      logger.info('Task created', { taskId: apiResponse.data.taskId, jobId: job.id })
 
       response.success(res, {
         taskId: apiResponse.data.taskId,
+        jobId: job.id,
         message: 'Task created successfully',
       })
     } catch (error) {
+      if (error instanceof InsufficientQuotaError) {
+        response.paymentRequired(res, error.message, {
+          code: error.code,
+          required: error.required,
+          available: error.available,
+        })
+        return
+      }
       logger.error('Generate error', error as Error)
       response.serverError(res, 'Failed to generate image')
     }
   }
 
+  /**
+   * GET /api/generate/jobs
+   */
+  async listJobs(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1)
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 20), 100)
+      const status = req.query.status as string | undefined
+
+      if (status && !JOB_STATUSES.includes(status as GenerationJobStatus)) {
+        response.badRequest(res, `status must be one of: ${JOB_STATUSES.join(', ')}`)
+        return
+      }
+
+      const jobs = await getUserJobs(req.user!.userId, page, limit, status as GenerationJobStatus | undefined)
+      response.success(res, jobs)
+    } catch (error) {
+      logger.error('List jobs error', error as Error)
+      response.serverError(res, 'Failed to get jobs')
+    }
+  }
+
+  /**
+   * GET /api/generate/jobs/:id
+   */
+  async getJob(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      if (!validate.isUUID(id)) {
+        response.badRequest(res, 'Invalid job ID')
+        return
+      }
+
+      const job = await getUserJob(req.user!.userId, id)
+      if (!job) {
+        response.notFound(res, 'Job not found')
+        return
+      }
+
+      response.success(res, formatJob(job))
+    } catch (error) {
+      logger.error('Get job error', error as Error)
+      response.serverError(res, 'Failed to get job')
+    }
+  }
+
+  /**
+   * GET /api/generate/webhook-secret
+   */
+  async getWebhookSecret(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const secret = await getWebhookSecret(req.user!.userId)
+      response.success(res, { secret })
+    } catch (error) {
+      logger.error('Get webhook secret error', error as Error)
+      response.serverError(res, 'Failed to get webhook secret')
+    }
+  }
+
+  /**
+   * POST /api/generate/webhook-secret/rotate
+   */
+  async rotateWebhookSecret(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const secret = await getWebhookSecret(req.user!.userId, true)
+      logger.info('Webhook secret rotated', { userId: req.user!.userId })
+      response.success(res, { secret })
+    } catch (error) {
+      logger.error('Rotate webhook secret error', error as Error)
+      response.serverError(res, 'Failed to rotate webhook secret')
+    }
+  }
+
   /**
    * GET /api/generate/status
    */
@@ -91,6 +232,20 @@ export class GenerateController {
         return
       }
 
+      // Tracked jobs are billed by the job service, polling here just speeds it up
+      const trackedJob = await findJobByTaskId(req.user!.userId, taskId)
+      if (trackedJob) {
+        const job = formatJob(await pollJob(trackedJob))
+        response.success(res, {
+          taskId: job.taskId,
+          jobId: job.id,
+          status: job.status,
+          output: job.imageUrl ? { media_url: job.imageUrl } : undefined,
+          error: job.error || undefined,
+        })
+        return
+      }
+
       const apiResponse = await getTaskStatus(taskId)
 
       if (apiResponse.code !== 200) {
@@ -105,36 +260,57 @@ export class GenerateController {
       if (data.status === 'SUCCESS' || data.status === 'completed') {
         status = 'completed'
 
-        // Check if already logged to avoid double charging
-        const existingLogs = await usageLogRepository.raw
-          .createQueryBuilder('log')
-          .where('log.userId = :userId', { userId: req.user!.userId })
-          .andWhere('log.action = :action', { action: 'generate_image' })
-          .andWhere('log.success = true')
-          .andWhere("log.metadata->>'taskId' = :taskId", { taskId })
-          .getCount()
-
-        if (existingLogs === 0) {
-          await logUsage({
-            userId: req.user!.userId,
-            action: 'generate_image',
-            success: true,
-            metadata: {
-              prompt: typeof prompt === 'string' ? prompt : undefined,
-              taskId,
-              imageUrl: data.output?.media_url,
-              aspectRatio: typeof aspect_ratio === 'string' ? aspect_ratio : undefined,
-              resolution: typeof resolution === 'string' ? resolution : undefined,
-              ip: req.ip,
-              userAgent: req.get('user-agent'),
-            },
+        const successMetadata = {
+          prompt: typeof prompt === 'string' ? prompt : undefined,
+          taskId,
+          imageUrl: data.output?.media_url,
+          model: KIE_IMAGE_MODEL,
+          aspectRatio: typeof aspect_ratio === 'string' ? aspect_ratio : undefined,
+          resolution: typeof resolution === 'string' ? resolution : undefined,
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        }
+
+        const reservation = await findReservationByReference(req.user!.userId, taskId)
+        if (reservation) {
+          // Settlement is idempotent, repeated polls never charge twice
+          const log = await settleReservation(reservation.id, {
+            creditsUsed: CREDITS_PER_IMAGE,
+            costUsd: CREDITS_PER_IMAGE * CREDIT_PRICE_USD,
+            metadata: successMetadata,
           })
+          if (log) {
+            logger.info('Image generated successfully', { taskId, userId: req.user!.userId })
+          }
+        } else {
+          // Tasks created before reservations existed: de-duplicate on the usage log
+          const existingLogs = await usageLogRepository.raw
+            .createQueryBuilder('log')
+            .where('log.userId = :userId', { userId: req.user!.userId })
+            .andWhere('log.action = :action', { action: 'generate_image' })
+            .andWhere('log.success = true')
+            .andWhere("log.metadata->>'taskId' = :taskId", { taskId })
+            .getCount()
+
+          if (existingLogs === 0) {
+            await logUsage({
+              userId: req.user!.userId,
+              action: 'generate_image',
+              success: true,
+              metadata: successMetadata,
+            })
 
-          logger.info('Image generated successfully', { taskId, userId: req.user!.userId })
+            logger.info('Image generated successfully', { taskId, userId: req.user!.userId })
+          }
         }
       } else if (data.status === 'FAILED' || data.status === 'failed') {
         status = 'failed'
 
+        const reservation = await findReservationByReference(req.user!.userId, taskId)
+        if (reservation) {
+          await releaseReservation(reservation.id, 'generation_failed')
+        }
+
         await logUsage({
           userId: req.user!.userId,
           action: 'generate_image',
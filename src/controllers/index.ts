@@ -4,3 +4,4 @@ export * from './generate.controller'
 export * from './chat.controller'
 export * from './keys.controller'
 export * from './usage.controller'
+export * from './organization.controller'
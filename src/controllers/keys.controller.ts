@@ -1,10 +1,22 @@
 import { Response } from 'express'
 import crypto from 'crypto'
+import { FindOptionsWhere, IsNull } from 'typeorm'
 import { apiKeyRepository } from '../repositories/api-key.repository'
 import { response } from '../utils/response'
 import { validate } from '../utils/validation'
 import { logger } from '../utils/logger'
 import { AuthRequest } from '../middlewares/auth.middleware'
+import { findModel } from '../services/model-registry.service'
+import {
+  getKeyUsage,
+  getKeySpend,
+  getPeriodStart,
+  evaluateKeyBudget,
+  MAX_USAGE_DAYS,
+} from '../services/api-key-budget.service'
+import { recordKeyEvent, getKeyAuditLog, KeyAuditContext } from '../services/api-key-audit.service'
+import { isValidIpRule } from '../utils/ip'
+import { ApiKey, ApiKeyScope, API_KEY_SCOPES } from '../entities'
 
 // SECURITY: Pepper for API key hashing (must match apikey.middleware.ts)
 const API_KEY_PEPPER = process.env.API_KEY_PEPPER || 'default-api-key-pepper-change-in-production'
@@ -46,6 +58,150 @@ function decryptApiKey(encryptedKey: string): string {
   }
 }
 
+// How long a rotated-out secret keeps working (hours); a bad setting falls back to 24 rather than failing every rotation
+const MAX_ROTATION_GRACE_HOURS = 7 * 24
+const CONFIGURED_ROTATION_GRACE_HOURS = parseInt(process.env.API_KEY_ROTATION_GRACE_HOURS || '24')
+const DEFAULT_ROTATION_GRACE_HOURS = Number.isFinite(CONFIGURED_ROTATION_GRACE_HOURS)
+  ? Math.min(Math.max(CONFIGURED_ROTATION_GRACE_HOURS, 0), MAX_ROTATION_GRACE_HOURS)
+  : 24
+
+const MAX_ALLOWED_IPS = 20
+const MAX_ALLOWED_MODELS = 50
+
+const BUDGET_LIMIT_FIELDS = ['dailyTokenLimit', 'monthlyTokenLimit', 'dailyUsdLimit', 'monthlyUsdLimit'] as const
+
+type KeyPolicy = Partial<Pick<
+  ApiKey,
+  'scopes' | 'expiresAt' | 'allowedIps' | 'allowedModels' | (typeof BUDGET_LIMIT_FIELDS)[number] | 'budgetWarningPercent'
+>>
+
+// Keys the request may see: the user's personal keys, or the organization's when acting for one
+function keyOwner(req: AuthRequest): FindOptionsWhere<ApiKey> {
+  return req.organization
+    ? { organizationId: req.organization.id }
+    : { userId: req.user!.userId, organizationId: IsNull() }
+}
+
+// Who performed a key action, for the audit trail
+function auditContext(req: AuthRequest): KeyAuditContext {
+  return { userId: req.user!.userId, ip: req.ip, userAgent: req.get('user-agent') }
+}
+
+// Masked key with its permissions, as listed to the owner
+function formatApiKey(key: ApiKey) {
+  const inGrace = !!key.previousKeyHash && !!key.previousKeyExpiresAt && key.previousKeyExpiresAt.getTime() > Date.now()
+
+  return {
+    id: key.id,
+    name: key.name,
+    key: key.keyPrefix + '...' + key.keyHash.substring(0, 4),
+    canReveal: !!key.encryptedKey, // Indicate if full key can be revealed
+    scopes: key.scopes,
+    expiresAt: key.expiresAt ?? null,
+    expired: !!key.expiresAt && key.expiresAt.getTime() <= Date.now(),
+    allowedIps: key.allowedIps ?? null,
+    allowedModels: key.allowedModels ?? null,
+    dailyTokenLimit: key.dailyTokenLimit != null ? Number(key.dailyTokenLimit) : null,
+    monthlyTokenLimit: key.monthlyTokenLimit != null ? Number(key.monthlyTokenLimit) : null,
+    dailyUsdLimit: key.dailyUsdLimit != null ? Number(key.dailyUsdLimit) : null,
+    monthlyUsdLimit: key.monthlyUsdLimit != null ? Number(key.monthlyUsdLimit) : null,
+    budgetWarningPercent: key.budgetWarningPercent ?? null,
+    rateLimitPlan: key.rateLimitPlan ?? null, // null = follows the account's plan
+    organizationId: key.organizationId ?? null,
+    createdBy: key.userId,
+    // Rotated-out secret, shown until its grace window ends
+    previousKey: inGrace
+      ? {
+        key: key.previousKeyPrefix + '...' + key.previousKeyHash!.substring(0, 4),
+        expiresAt: key.previousKeyExpiresAt,
+        lastUsedAt: key.previousKeyLastUsedAt,
+      }
+      : null,
+    rotatedAt: key.rotatedAt ?? null,
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+  }
+}
+
+// Validate the permission fields of a create/update body; absent fields are left out
+async function parseKeyPolicy(body: Record<string, unknown>): Promise<{ policy: KeyPolicy; error?: string }> {
+  const policy: KeyPolicy = {}
+  const { scopes, expiresAt, allowedIps, allowedModels, budgetWarningPercent } = body
+
+  if (scopes !== undefined) {
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((s) => API_KEY_SCOPES.includes(s))) {
+      return { policy, error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}` }
+    }
+    policy.scopes = [...new Set(scopes as ApiKeyScope[])]
+  }
+
+  if (expiresAt !== undefined) {
+    if (expiresAt === null) {
+      policy.expiresAt = null
+    } else {
+      const date = new Date(expiresAt as string)
+      if (typeof expiresAt !== 'string' || isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        return { policy, error: 'expiresAt must be a future ISO date or null' }
+      }
+      policy.expiresAt = date
+    }
+  }
+
+  if (allowedIps !== undefined) {
+    if (allowedIps === null || (Array.isArray(allowedIps) && allowedIps.length === 0)) {
+      policy.allowedIps = null
+    } else if (
+      !Array.isArray(allowedIps) ||
+      allowedIps.length > MAX_ALLOWED_IPS ||
+      !allowedIps.every((ip) => typeof ip === 'string' && isValidIpRule(ip))
+    ) {
+      return { policy, error: `allowedIps must be up to ${MAX_ALLOWED_IPS} IP addresses or CIDR ranges` }
+    } else {
+      policy.allowedIps = [...new Set(allowedIps.map((ip: string) => ip.trim()))]
+    }
+  }
+
+  if (allowedModels !== undefined) {
+    if (allowedModels === null || (Array.isArray(allowedModels) && allowedModels.length === 0)) {
+      policy.allowedModels = null
+    } else if (
+      !Array.isArray(allowedModels) ||
+      allowedModels.length > MAX_ALLOWED_MODELS ||
+      !allowedModels.every((m) => typeof m === 'string' && m.length > 0)
+    ) {
+      return { policy, error: `allowedModels must be up to ${MAX_ALLOWED_MODELS} model ids` }
+    } else {
+      for (const modelId of allowedModels) {
+        if (!(await findModel(modelId))) {
+          return { policy, error: `Unknown model: ${modelId}` }
+        }
+      }
+      policy.allowedModels = [...new Set(allowedModels as string[])]
+    }
+  }
+
+  for (const field of BUDGET_LIMIT_FIELDS) {
+    const value = body[field]
+    if (value === undefined) continue
+    if (value !== null && (typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+      return { policy, error: `${field} must be a positive number or null` }
+    }
+    policy[field] = value === null ? null : field.endsWith('TokenLimit') ? Math.ceil(value) : value
+  }
+
+  if (budgetWarningPercent !== undefined) {
+    if (
+      budgetWarningPercent !== null &&
+      (!Number.isInteger(budgetWarningPercent) || (budgetWarningPercent as number) < 1 || (budgetWarningPercent as number) > 99)
+    ) {
+      return { policy, error: 'budgetWarningPercent must be an integer between 1 and 99, or null' }
+    }
+    policy.budgetWarningPercent = budgetWarningPercent as number | null
+  }
+
+  return { policy }
+}
+
 /**
  * Keys Controller - handles API keys HTTP layer
  */
@@ -57,21 +213,12 @@ export class KeysController {
   async getKeys(req: AuthRequest, res: Response): Promise<void> {
     try {
       const keys = await apiKeyRepository.raw.find({
-        where: { userId: req.user!.userId, isActive: true },
+        where: { ...keyOwner(req), isActive: true },
         order: { createdAt: 'DESC' },
       })
 
       // Return masked keys only - full key requires separate endpoint
-      const maskedKeys = keys.map((key) => ({
-        id: key.id,
-        name: key.name,
-        key: key.keyPrefix + '...' + key.keyHash.substring(0, 4),
-        canReveal: !!key.encryptedKey, // Indicate if full key can be revealed
-        createdAt: key.createdAt,
-        lastUsedAt: key.lastUsedAt,
-      }))
-
-      response.success(res, maskedKeys)
+      response.success(res, keys.map(formatApiKey))
     } catch (error) {
       logger.error('Failed to fetch API keys', error as Error)
       response.serverError(res, 'Failed to fetch API keys')
@@ -93,7 +240,7 @@ export class KeysController {
       }
 
       const apiKey = await apiKeyRepository.raw.findOne({
-        where: { id, userId: req.user!.userId, isActive: true },
+        where: { id, ...keyOwner(req), isActive: true },
       })
 
       if (!apiKey) {
@@ -113,6 +260,7 @@ export class KeysController {
       }
 
       logger.info('API key revealed', { userId: req.user!.userId, keyId: id })
+      await recordKeyEvent(id, 'revealed', auditContext(req))
       response.success(res, { key: fullKey })
     } catch (error) {
       logger.error('Failed to reveal API key', error as Error)
@@ -144,11 +292,20 @@ export class KeysController {
         return
       }
 
-      // Check limit (max 10 keys per user)
-      const existingCount = await apiKeyRepository.countByUserId(req.user!.userId)
+      const { policy, error } = await parseKeyPolicy(req.body)
+      if (error) {
+        response.badRequest(res, error)
+        return
+      }
+
+      // Check limit (max 10 keys per user or organization)
+      const organizationId = req.organization?.id ?? null
+      const existingCount = organizationId
+        ? await apiKeyRepository.countByOrganizationId(organizationId)
+        : await apiKeyRepository.countByUserId(req.user!.userId)
 
       if (existingCount >= 10) {
-        response.badRequest(res, 'Maximum 10 API keys allowed per account')
+        response.badRequest(res, `Maximum 10 API keys allowed per ${organizationId ? 'organization' : 'account'}`)
         return
       }
 
@@ -160,22 +317,20 @@ export class KeysController {
 
       const apiKey = await apiKeyRepository.create({
         userId: req.user!.userId,
+        organizationId,
         name: sanitizedName,
         keyHash,
         keyPrefix,
         encryptedKey,
+        scopes: [...API_KEY_SCOPES],
+        ...policy,
       })
 
-      logger.info('API key created', { userId: req.user!.userId, keyId: apiKey.id, hasEncryptedKey: !!apiKey.encryptedKey })
+      logger.info('API key created', { userId: req.user!.userId, organizationId, keyId: apiKey.id, hasEncryptedKey: !!apiKey.encryptedKey })
+      await recordKeyEvent(apiKey.id, 'created', auditContext(req), { keyPrefix, ...policy })
 
       response.success(res, {
-        apiKey: {
-          id: apiKey.id,
-          name: apiKey.name,
-          key: keyPrefix + '...' + keyHash.substring(0, 4),
-          createdAt: apiKey.createdAt,
-          lastUsedAt: null,
-        },
+        apiKey: formatApiKey(apiKey),
         key: rawKey, // Only returned once!
       })
     } catch (error) {
@@ -184,6 +339,210 @@ export class KeysController {
     }
   }
 
+  /**
+   * GET /api/keys/:id/usage
+   * Spend of one key by model and by day
+   */
+  async getKeyUsage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      // Validate UUID format
+      if (!id || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+        response.badRequest(res, 'Invalid key ID format')
+        return
+      }
+
+      const apiKey = await apiKeyRepository.raw.findOne({
+        where: { id, ...keyOwner(req) },
+      })
+
+      if (!apiKey) {
+        response.notFound(res, 'API key not found')
+        return
+      }
+
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), MAX_USAGE_DAYS)
+      const now = new Date()
+      const [usage, daily, monthly] = await Promise.all([
+        getKeyUsage(id, days),
+        getKeySpend(id, getPeriodStart('daily', now)),
+        getKeySpend(id, getPeriodStart('monthly', now)),
+      ])
+
+      // Current-period spend (including in-flight holds) against the caps
+      response.success(res, {
+        ...usage,
+        currentPeriod: { daily, monthly },
+        budget: evaluateKeyBudget(apiKey, { daily, monthly }),
+      })
+    } catch (error) {
+      logger.error('Failed to fetch API key usage', error as Error)
+      response.serverError(res, 'Failed to fetch API key usage')
+    }
+  }
+
+  /**
+   * PATCH /api/keys/:id
+   * Rename a key or change its scopes, expiry and allowlists
+   */
+  async updateKey(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      // Validate UUID format
+      if (!id || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+        response.badRequest(res, 'Invalid key ID format')
+        return
+      }
+
+      const apiKey = await apiKeyRepository.raw.findOne({
+        where: { id, ...keyOwner(req), isActive: true },
+      })
+
+      if (!apiKey) {
+        response.notFound(res, 'API key not found')
+        return
+      }
+
+      const { name } = req.body
+      let sanitizedName: string | undefined
+      if (name !== undefined) {
+        sanitizedName = typeof name === 'string' ? validate.sanitizeString(name, 50) : ''
+        if (sanitizedName.length < 1 || validate.containsXSS(name)) {
+          response.badRequest(res, 'Key name must be 1-50 characters')
+          return
+        }
+      }
+
+      const { policy, error } = await parseKeyPolicy(req.body)
+      if (error) {
+        response.badRequest(res, error)
+        return
+      }
+
+      // Only the edited columns: saving the loaded row would undo a rotation committed meanwhile
+      const changes = { ...(sanitizedName !== undefined && { name: sanitizedName }), ...policy }
+      if (Object.keys(changes).length > 0) {
+        await apiKeyRepository.raw.update(id, changes)
+      }
+      const saved = await apiKeyRepository.raw.findOne({ where: { id } })
+      logger.info('API key updated', { userId: req.user!.userId, keyId: id, fields: Object.keys(policy) })
+      await recordKeyEvent(id, 'updated', auditContext(req), changes)
+
+      response.success(res, formatApiKey(saved!))
+    } catch (error) {
+      logger.error('Failed to update API key', error as Error)
+      response.serverError(res, 'Failed to update API key')
+    }
+  }
+
+  /**
+   * POST /api/keys/:id/rotate
+   * Issues a new secret for the same key; the old one keeps working for the grace window
+   */
+  async rotateKey(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      // Validate UUID format
+      if (!id || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+        response.badRequest(res, 'Invalid key ID format')
+        return
+      }
+
+      const { gracePeriodHours = DEFAULT_ROTATION_GRACE_HOURS } = req.body || {}
+      if (typeof gracePeriodHours !== 'number' || !isFinite(gracePeriodHours) || gracePeriodHours < 0 || gracePeriodHours > MAX_ROTATION_GRACE_HOURS) {
+        response.badRequest(res, `gracePeriodHours must be between 0 and ${MAX_ROTATION_GRACE_HOURS}`)
+        return
+      }
+
+      const apiKey = await apiKeyRepository.raw.findOne({
+        where: { id, ...keyOwner(req), isActive: true },
+      })
+
+      if (!apiKey) {
+        response.notFound(res, 'API key not found')
+        return
+      }
+
+      const now = new Date()
+      const previousKeyPrefix = apiKey.keyPrefix
+      const rawKey = generateApiKey()
+
+      // The current secret becomes the previous one; an older one still in grace is dropped
+      const rotation = {
+        previousKeyHash: gracePeriodHours > 0 ? apiKey.keyHash : null,
+        previousKeyPrefix: gracePeriodHours > 0 ? apiKey.keyPrefix : null,
+        previousKeyExpiresAt: gracePeriodHours > 0 ? new Date(now.getTime() + gracePeriodHours * 60 * 60 * 1000) : null,
+        previousKeyLastUsedAt: gracePeriodHours > 0 ? apiKey.lastUsedAt : null,
+        keyHash: hashApiKey(rawKey),
+        keyPrefix: rawKey.substring(0, 8),
+        encryptedKey: encryptApiKey(rawKey),
+        lastUsedAt: null,
+        rotatedAt: now,
+      }
+
+      // Only applies to the secret that was loaded, so two rotations at once cannot both win
+      const claimed = await apiKeyRepository.raw.update({ id, keyHash: apiKey.keyHash }, rotation)
+      if (!claimed.affected) {
+        response.error(res, 'API key was rotated by another request', 409)
+        return
+      }
+      const saved = await apiKeyRepository.raw.findOne({ where: { id } })
+      logger.info('API key rotated', { userId: req.user!.userId, keyId: id, gracePeriodHours })
+      await recordKeyEvent(id, 'rotated', auditContext(req), {
+        previousKeyPrefix,
+        keyPrefix: rotation.keyPrefix,
+        gracePeriodHours,
+        previousKeyExpiresAt: rotation.previousKeyExpiresAt,
+      })
+
+      response.success(res, {
+        apiKey: formatApiKey(saved!),
+        key: rawKey, // Only returned once!
+      })
+    } catch (error) {
+      logger.error('Failed to rotate API key', error as Error)
+      response.serverError(res, 'Failed to rotate API key')
+    }
+  }
+
+  /**
+   * GET /api/keys/:id/audit
+   * Lifecycle events of a key, newest first
+   */
+  async getKeyAudit(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params
+
+      // Validate UUID format
+      if (!id || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+        response.badRequest(res, 'Invalid key ID format')
+        return
+      }
+
+      const apiKey = await apiKeyRepository.raw.findOne({
+        where: { id, ...keyOwner(req) },
+      })
+
+      if (!apiKey) {
+        response.notFound(res, 'API key not found')
+        return
+      }
+
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1)
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100)
+      const audit = await getKeyAuditLog(id, page, limit)
+
+      // Current key state, including a rotated-out secret still in its grace window
+      response.success(res, { apiKey: formatApiKey(apiKey), ...audit })
+    } catch (error) {
+      logger.error('Failed to fetch API key audit log', error as Error)
+      response.serverError(res, 'Failed to fetch API key audit log')
+    }
+  }
+
   /**
    * DELETE /api/keys/:id
    */
@@ -198,7 +557,7 @@ export class KeysController {
       }
 
       const apiKey = await apiKeyRepository.raw.findOne({
-        where: { id, userId: req.user!.userId },
+        where: { id, ...keyOwner(req) },
       })
 
       if (!apiKey) {
@@ -207,9 +566,9 @@ export class KeysController {
       }
 
       // Soft delete
-      apiKey.isActive = false
-      await apiKeyRepository.save(apiKey)
+      await apiKeyRepository.raw.update(id, { isActive: false })
       logger.info('API key deleted', { userId: req.user!.userId, keyId: id })
+      await recordKeyEvent(id, 'revoked', auditContext(req))
 
       response.success(res, { message: 'API key deleted' })
     } catch (error) {
@@ -0,0 +1,265 @@
+import { Response } from 'express'
+import {
+  createOrganization,
+  listUserOrganizations,
+  getOrganization,
+  renameOrganization,
+  listMembers,
+  updateMember,
+  removeMember,
+  inviteMember,
+  listInvitations,
+  revokeInvitation,
+  acceptInvitation,
+  OrganizationActor,
+  UpdateMemberInput,
+} from '../services/organization.service'
+import { response } from '../utils/response'
+import { validate } from '../utils/validation'
+import { logger } from '../utils/logger'
+import { AuthRequest } from '../middlewares/auth.middleware'
+import { AppError } from '../errors/app.error'
+import { ORGANIZATION_ROLES, OrganizationRole } from '../entities'
+
+// Member acting on the organization resolved by organizationParam
+function actor(req: AuthRequest): OrganizationActor {
+  return { userId: req.user!.userId, role: req.organization!.role }
+}
+
+// Validate an organization name; returns the sanitized name or null
+function parseName(name: unknown): string | null {
+  if (typeof name !== 'string' || validate.containsXSS(name)) return null
+  const sanitized = validate.sanitizeString(name, 100)
+  return sanitized.length >= 1 ? sanitized : null
+}
+
+/**
+ * Organization Controller - handles team workspaces, members and invitations HTTP layer
+ */
+export class OrganizationController {
+  /**
+   * GET /api/organizations
+   */
+  async getOrganizations(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const organizations = await listUserOrganizations(req.user!.userId)
+      response.success(res, organizations)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to fetch organizations')
+    }
+  }
+
+  /**
+   * POST /api/organizations
+   */
+  async createOrganization(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const name = parseName(req.body?.name)
+      if (!name) {
+        response.badRequest(res, 'Organization name must be 1-100 characters')
+        return
+      }
+
+      const organization = await createOrganization(req.user!.userId, name)
+      response.created(res, {
+        id: organization.id,
+        name: organization.name,
+        role: 'owner',
+        tokenBalance: 0,
+        createdAt: organization.createdAt,
+      })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create organization')
+    }
+  }
+
+  /**
+   * GET /api/organizations/:id
+   */
+  async getOrganization(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const organization = await getOrganization(req.organization!.id, actor(req))
+      response.success(res, organization)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to fetch organization')
+    }
+  }
+
+  /**
+   * PATCH /api/organizations/:id
+   */
+  async updateOrganization(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const name = parseName(req.body?.name)
+      if (!name) {
+        response.badRequest(res, 'Organization name must be 1-100 characters')
+        return
+      }
+
+      await renameOrganization(req.organization!.id, name)
+      logger.info('Organization renamed', { organizationId: req.organization!.id, by: req.user!.userId })
+      response.success(res, { id: req.organization!.id, name })
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update organization')
+    }
+  }
+
+  /**
+   * GET /api/organizations/:id/members
+   */
+  async getMembers(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const members = await listMembers(req.organization!.id)
+      response.success(res, members)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to fetch members')
+    }
+  }
+
+  /**
+   * PATCH /api/organizations/:id/members/:userId
+   * Change a member's role or monthly token limit
+   */
+  async updateMember(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params
+
+      // Validate UUID format
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(userId)) {
+        response.badRequest(res, 'Invalid user ID format')
+        return
+      }
+
+      const { role, monthlyTokenLimit } = req.body || {}
+      const input: UpdateMemberInput = {}
+
+      if (role !== undefined) {
+        if (!ORGANIZATION_ROLES.includes(role)) {
+          response.badRequest(res, `role must be one of: ${ORGANIZATION_ROLES.join(', ')}`)
+          return
+        }
+        input.role = role as OrganizationRole
+      }
+
+      if (monthlyTokenLimit !== undefined) {
+        if (monthlyTokenLimit !== null && (typeof monthlyTokenLimit !== 'number' || !isFinite(monthlyTokenLimit) || monthlyTokenLimit <= 0)) {
+          response.badRequest(res, 'monthlyTokenLimit must be a positive number or null')
+          return
+        }
+        input.monthlyTokenLimit = monthlyTokenLimit === null ? null : Math.ceil(monthlyTokenLimit)
+      }
+
+      const member = await updateMember(req.organization!.id, actor(req), userId, input)
+      response.success(res, member)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update member')
+    }
+  }
+
+  /**
+   * DELETE /api/organizations/:id/members/:userId
+   * Owners and admins remove members; anyone may remove themselves (leave)
+   */
+  async removeMember(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params
+
+      // Validate UUID format
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(userId)) {
+        response.badRequest(res, 'Invalid user ID format')
+        return
+      }
+
+      await removeMember(req.organization!.id, actor(req), userId)
+      response.message(res, userId === req.user!.userId ? 'Left organization' : 'Member removed')
+    } catch (error) {
+      this.handleError(res, error, 'Failed to remove member')
+    }
+  }
+
+  /**
+   * GET /api/organizations/:id/invitations
+   */
+  async getInvitations(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const invitations = await listInvitations(req.organization!.id)
+      response.success(res, invitations)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to fetch invitations')
+    }
+  }
+
+  /**
+   * POST /api/organizations/:id/invitations
+   */
+  async createInvitation(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { email, role = 'member' } = req.body || {}
+
+      if (typeof email !== 'string' || !validate.isEmail(email.trim())) {
+        response.badRequest(res, 'A valid email is required')
+        return
+      }
+
+      const invitation = await inviteMember(req.organization!.id, actor(req), email, role)
+      response.created(res, invitation)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to send invitation')
+    }
+  }
+
+  /**
+   * DELETE /api/organizations/:id/invitations/:invitationId
+   */
+  async revokeInvitation(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { invitationId } = req.params
+
+      // Validate UUID format
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(invitationId)) {
+        response.badRequest(res, 'Invalid invitation ID format')
+        return
+      }
+
+      await revokeInvitation(req.organization!.id, invitationId)
+      response.message(res, 'Invitation revoked')
+    } catch (error) {
+      this.handleError(res, error, 'Failed to revoke invitation')
+    }
+  }
+
+  /**
+   * POST /api/organizations/invitations/accept
+   */
+  async acceptInvitation(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { token } = req.body || {}
+
+      if (typeof token !== 'string' || !/^[0-9a-f]{64}$/i.test(token)) {
+        response.badRequest(res, 'Invalid invitation token')
+        return
+      }
+
+      const result = await acceptInvitation(req.user!.userId, token)
+      response.success(res, result)
+    } catch (error) {
+      this.handleError(res, error, 'Failed to accept invitation')
+    }
+  }
+
+  /**
+   * Centralized error handler
+   */
+  private handleError(res: Response, error: unknown, defaultMessage: string): void {
+    if (error instanceof AppError) {
+      response.error(res, error.message, error.statusCode, { code: error.code })
+      return
+    }
+
+    logger.error(defaultMessage, error as Error)
+    response.serverError(res, defaultMessage)
+  }
+}
+
+// Singleton instance
+export const organizationController = new OrganizationController()
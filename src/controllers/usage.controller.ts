@@ -1,10 +1,26 @@
 import { Response } from 'express'
-import { getUserUsage, getUserLogs } from '../services/usage.service'
+import { getUserUsage, getUserLogs, getOrganizationUsage, getOrganizationLogs } from '../services/usage.service'
+import { getUserTransactions, getOrganizationTransactions } from '../services/ledger.service'
 import { usageLogRepository } from '../repositories/usage-log.repository'
 import { response } from '../utils/response'
 import { logger } from '../utils/logger'
 import { AuthRequest } from '../middlewares/auth.middleware'
-import { MoreThanOrEqual } from 'typeorm'
+import { FindOptionsWhere, IsNull, MoreThanOrEqual } from 'typeorm'
+import { UsageLog } from '../entities'
+
+// Members see only their own share of an organization's usage
+function memberFilter(req: AuthRequest): string | undefined {
+  return req.organization?.role === 'member' ? req.user!.userId : undefined
+}
+
+// Usage logs visible to the request: personal, the whole organization, or the member's share
+function usageScope(req: AuthRequest): FindOptionsWhere<UsageLog> {
+  if (!req.organization) {
+    return { userId: req.user!.userId, organizationId: IsNull() }
+  }
+  const userId = memberFilter(req)
+  return userId ? { organizationId: req.organization.id, userId } : { organizationId: req.organization.id }
+}
 
 /**
  * Usage Controller - handles usage statistics HTTP layer
@@ -15,7 +31,9 @@ export class UsageController {
    */
   async getSummary(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const usage = await getUserUsage(req.user!.userId)
+      const usage = req.organization
+        ? await getOrganizationUsage(req.organization.id, memberFilter(req))
+        : await getUserUsage(req.user!.userId)
       response.success(res, usage)
     } catch (error) {
       logger.error('Usage summary error', error as Error)
@@ -31,7 +49,9 @@ export class UsageController {
       const page = Math.max(1, parseInt(req.query.page as string) || 1)
       const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 20), 100)
 
-      const logs = await getUserLogs(req.user!.userId, page, limit)
+      const logs = req.organization
+        ? await getOrganizationLogs(req.organization.id, page, limit, memberFilter(req))
+        : await getUserLogs(req.user!.userId, page, limit)
       response.success(res, logs)
     } catch (error) {
       logger.error('Usage logs error', error as Error)
@@ -39,13 +59,30 @@ export class UsageController {
     }
   }
 
+  /**
+   * GET /api/usage/transactions
+   */
+  async getTransactions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1)
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 20), 100)
+
+      const transactions = req.organization
+        ? await getOrganizationTransactions(req.organization.id, page, limit)
+        : await getUserTransactions(req.user!.userId, page, limit)
+      response.success(res, transactions)
+    } catch (error) {
+      logger.error('Credit transactions error', error as Error)
+      response.serverError(res, 'Failed to get credit transactions')
+    }
+  }
+
   /**
    * GET /api/usage/stats
    */
   async getStats(req: AuthRequest, res: Response): Promise<void> {
     try {
       const period = req.query.period as string || 'week'
-      const userId = req.user!.userId
 
       // Calculate date range
       const now = new Date()
@@ -65,7 +102,7 @@ export class UsageController {
       // Get logs for the period
       const logs = await usageLogRepository.raw.find({
         where: {
-          userId,
+          ...usageScope(req),
           createdAt: MoreThanOrEqual(startDate),
         },
         order: { createdAt: 'ASC' },
@@ -95,8 +132,9 @@ export class UsageController {
           imageCount++
           imageCredits += credits
           imageCost += cost
-        } else if (log.action === 'chat' || log.action === 'chat_stream') {
-          chatCount++
+        } else if (['chat', 'chat_stream', 'chat_summary', 'chat_title'].includes(log.action)) {
+          // Summaries and titles are billed with the chat they belong to but are not messages of their own
+          if (log.action === 'chat' || log.action === 'chat_stream') chatCount++
           chatCredits += credits
           chatCost += cost
           chatTokens += log.metadata?.tokens || log.metadata?.estimatedTokens || 0
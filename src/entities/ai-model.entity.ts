@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm'
+
+export type ModelModality = 'text' | 'image'
+
+/**
+ * Chat model offered through the API: where it is routed and what it costs
+ */
+@Entity('ai_models')
+export class AiModel {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  // Public id clients send as `model` (e.g. gpt-4o)
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 100 })
+  modelId: string
+
+  @Column({ type: 'varchar', length: 50 })
+  ownedBy: string
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string | null
+
+  // Upstream chat completions URL requests are forwarded to
+  @Column({ type: 'varchar', length: 500 })
+  upstreamUrl: string
+
+  @Column({ type: 'int' })
+  contextWindow: number
+
+  @Column({ type: 'int', nullable: true })
+  maxOutputTokens: number | null
+
+  // USD per 1K tokens
+  @Column({ type: 'decimal', precision: 10, scale: 6 })
+  inputPricePer1K: number
+
+  @Column({ type: 'decimal', precision: 10, scale: 6 })
+  outputPricePer1K: number
+
+  @Column({ type: 'jsonb', default: () => `'["text"]'` })
+  inputModalities: ModelModality[]
+
+  @Column({ default: true })
+  enabled: boolean
+
+  @Column({ type: 'int', default: 0 })
+  sortOrder: number
+
+  @CreateDateColumn()
+  createdAt: Date
+
+  @UpdateDateColumn()
+  updatedAt: Date
+}
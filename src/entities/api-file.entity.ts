@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import type { StorageDriverName } from '../services/storage/storage.types'
+
+export type ApiFilePurpose = 'batch' | 'batch_output' | 'batch_error'
+
+export const API_FILE_PURPOSES: ApiFilePurpose[] = ['batch', 'batch_output', 'batch_error']
+
+/**
+ * File uploaded through /v1/files (batch input) or written by the batch worker (results)
+ */
+@Entity('api_files')
+@Index(['userId', 'createdAt'])
+export class ApiFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  // Organization whose key uploaded or produced the file (null = personal); only that key's wallet sees it
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
+  @Column({ type: 'varchar', length: 20 })
+  purpose: ApiFilePurpose
+
+  @Column({ type: 'varchar', length: 255 })
+  filename: string
+
+  @Column({ type: 'int' })
+  bytes: number
+
+  @Column({ type: 'varchar', length: 20 })
+  storageDriver: StorageDriverName
+
+  @Column({ type: 'varchar', length: 500 })
+  storageKey: string
+
+  // Large result files are written a page at a time; part n > 0 is stored at `${storageKey}.${n}`
+  @Column({ type: 'int', default: 1 })
+  parts: number
+
+  @CreateDateColumn()
+  createdAt: Date
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { ApiKey } from './api-key.entity'
+
+export type ApiKeyAuditAction = 'created' | 'updated' | 'rotated' | 'revealed' | 'revoked'
+
+/**
+ * Lifecycle event of an API key (who did what to it, from where)
+ */
+@Entity('api_key_audit_logs')
+@Index(['apiKeyId', 'createdAt'])
+export class ApiKeyAuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  apiKeyId: string
+
+  @ManyToOne(() => ApiKey, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'apiKeyId' })
+  apiKey: ApiKey
+
+  // Account that performed the action
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @Column({ type: 'varchar', length: 20 })
+  action: ApiKeyAuditAction
+
+  // Key prefixes, changed fields, grace window, ...
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip: string | null
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userAgent: string | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
@@ -5,9 +5,16 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm'
 import { User } from './user.entity'
 
+export const API_KEY_SCOPES = ['chat:write', 'images:write', 'models:read'] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+export type ApiKeyRateLimitPlan = 'free' | 'pro' | 'enterprise'
+
 @Entity('api_keys')
 export class ApiKey {
   @PrimaryGeneratedColumn('uuid')
@@ -20,6 +27,11 @@ export class ApiKey {
   @JoinColumn({ name: 'userId' })
   user: User
 
+  // Organization that owns the key and pays for its usage (null = personal); userId is the creator
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
   @Column()
   name: string
 
@@ -32,9 +44,68 @@ export class ApiKey {
   @Column({ nullable: true })
   encryptedKey: string // Encrypted full key for retrieval
 
+  // Secret replaced by the last rotation, still accepted until previousKeyExpiresAt
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  previousKeyHash: string | null
+
+  @Column({ type: 'varchar', nullable: true })
+  previousKeyPrefix: string | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  previousKeyExpiresAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  previousKeyLastUsedAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  rotatedAt: Date | null
+
   @Column({ type: 'timestamp', nullable: true })
   lastUsedAt: Date | null
 
+  // Endpoints the key may call; existing keys get every scope
+  @Column({ type: 'jsonb', default: () => `'${JSON.stringify(API_KEY_SCOPES)}'` })
+  scopes: ApiKeyScope[]
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null
+
+  // Client addresses / CIDR ranges allowed to use the key (null = any)
+  @Column({ type: 'jsonb', nullable: true })
+  allowedIps: string[] | null
+
+  // Chat model ids the key may request (null = any enabled model)
+  @Column({ type: 'jsonb', nullable: true })
+  allowedModels: string[] | null
+
+  // Spend caps per UTC day / calendar month (null = uncapped); tokens are balance credits
+  @Column({ type: 'bigint', nullable: true })
+  dailyTokenLimit: number | null
+
+  @Column({ type: 'bigint', nullable: true })
+  monthlyTokenLimit: number | null
+
+  @Column({ type: 'decimal', precision: 10, scale: 4, nullable: true })
+  dailyUsdLimit: number | null
+
+  @Column({ type: 'decimal', precision: 10, scale: 4, nullable: true })
+  monthlyUsdLimit: number | null
+
+  // Email the owner once per period when spend reaches this percentage of a cap
+  @Column({ type: 'int', nullable: true })
+  budgetWarningPercent: number | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  dailyWarningSentAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  monthlyWarningSentAt: Date | null
+
+  // Rate limit plan pinned by an admin (null = follow the owner's plan)
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  rateLimitPlan: ApiKeyRateLimitPlan | null
+
   @Column({ default: true })
   isActive: boolean
 
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { Batch } from './batch.entity'
+
+export type BatchRequestStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'expired'
+
+/**
+ * One line of a batch input file and its result
+ */
+@Entity('batch_requests')
+@Index(['batchId', 'status', 'line'])
+export class BatchRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  batchId: string
+
+  @ManyToOne(() => Batch, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'batchId' })
+  batch: Batch
+
+  // 1-based line in the input file
+  @Column({ type: 'int' })
+  line: number
+
+  @Column({ type: 'varchar', length: 255 })
+  customId: string
+
+  @Column({ type: 'jsonb' })
+  body: Record<string, any>
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status: BatchRequestStatus
+
+  // HTTP status and body the endpoint would have answered with
+  @Column({ type: 'int', nullable: true })
+  statusCode: number | null
+
+  @Column({ type: 'jsonb', nullable: true })
+  response: Record<string, any> | null
+
+  // Credit hold of a chat request while it runs; released if the worker stops mid-request
+  @Column({ type: 'uuid', nullable: true })
+  reservationId: string | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
@@ -0,0 +1,123 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+
+export type BatchStatus =
+  | 'validating'
+  | 'failed'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled'
+
+export type BatchEndpoint = '/v1/chat/completions' | '/v1/images/generations'
+
+export const BATCH_ENDPOINTS: BatchEndpoint[] = ['/v1/chat/completions', '/v1/images/generations']
+
+export interface BatchError {
+  code: string
+  message: string
+  line?: number
+  param?: string
+}
+
+/**
+ * Bulk /v1 requests read from an uploaded JSONL file and run by the batch worker
+ */
+@Entity('batches')
+@Index(['userId', 'createdAt'])
+@Index(['status'])
+export class Batch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  // Key the batch was created with; every line runs with its scopes, models and budget
+  @Column({ type: 'uuid' })
+  apiKeyId: string
+
+  // Organization of that key (null = personal); batches are only listed to keys of the same wallet
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
+  @Column({ type: 'varchar', length: 50 })
+  endpoint: BatchEndpoint
+
+  @Column({ type: 'varchar', length: 20, default: 'validating' })
+  status: BatchStatus
+
+  @Column({ type: 'uuid' })
+  inputFileId: string
+
+  @Column({ type: 'uuid', nullable: true })
+  outputFileId: string | null
+
+  @Column({ type: 'uuid', nullable: true })
+  errorFileId: string | null
+
+  @Column({ type: 'varchar', length: 10, default: '24h' })
+  completionWindow: string
+
+  // Problems with the input file that failed the whole batch
+  @Column({ type: 'jsonb', nullable: true })
+  errors: BatchError[] | null
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, string> | null
+
+  @Column({ type: 'int', default: 0 })
+  totalRequests: number
+
+  @Column({ type: 'int', default: 0 })
+  completedRequests: number
+
+  @Column({ type: 'int', default: 0 })
+  failedRequests: number
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date
+
+  @Column({ type: 'timestamp', nullable: true })
+  inProgressAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  finalizingAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  failedAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiredAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancellingAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt: Date | null
+
+  @CreateDateColumn()
+  createdAt: Date
+
+  @UpdateDateColumn()
+  updatedAt: Date
+}
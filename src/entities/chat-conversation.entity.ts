@@ -29,6 +29,18 @@ export class ChatConversation {
   @Column({ type: 'uuid' })
   userId: string
 
+  // Last message of the branch being shown and continued
+  @Column({ type: 'uuid', nullable: true })
+  activeLeafId: string | null
+
+  // Rolling summary of older turns, sent in place of them when history is rebuilt
+  @Column({ type: 'text', nullable: true })
+  summary: string | null
+
+  // Last message folded into `summary`; later messages are replayed verbatim
+  @Column({ type: 'uuid', nullable: true })
+  summaryMessageId: string | null
+
   @OneToMany(() => ChatMessage, (message) => message.conversation)
   messages: ChatMessage[]
 
@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm'
 import { ChatConversation } from './chat-conversation.entity'
 
@@ -22,6 +23,15 @@ export class ChatMessage {
   @Column({ type: 'uuid' })
   conversationId: string
 
+  // Previous message on this branch; edits and regenerations add siblings under the same parent
+  @ManyToOne(() => ChatMessage, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'parentId' })
+  parent: ChatMessage | null
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  parentId: string | null
+
   @Column({ type: 'varchar' })
   role: MessageRole
 
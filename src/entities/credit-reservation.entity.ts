@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import { ActionType } from './usage-log.entity'
+
+export type ReservationStatus = 'held' | 'settled' | 'released'
+
+/**
+ * Credit hold placed against a user's tokenBalance (or its organization's,
+ * when organizationId is set) before a billable upstream call.
+ * Settled with the real cost or released on failure.
+ */
+@Entity('credit_reservations')
+@Index(['userId', 'status'])
+@Index(['organizationId', 'status'])
+export class CreditReservation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  // Organization wallet the hold is charged to (null = the user's own)
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
+  @Column({ type: 'varchar', length: 50 })
+  action: ActionType
+
+  // Estimated credits held against the balance
+  @Column({ type: 'bigint' })
+  amount: number
+
+  @Column({ type: 'varchar', length: 20, default: 'held' })
+  status: ReservationStatus
+
+  // External reference (e.g. KIE taskId) for work that settles asynchronously
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  reference: string | null
+
+  // Credits actually charged on settlement
+  @Column({ type: 'bigint', nullable: true })
+  settledAmount: number | null
+
+  @Column({ type: 'uuid', nullable: true })
+  usageLogId: string | null
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, unknown> | null
+
+  // Holds that are never settled (e.g. client stopped polling) expire
+  @Column({ type: 'timestamp' })
+  expiresAt: Date
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
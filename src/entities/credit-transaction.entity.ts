@@ -0,0 +1,83 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import { Payment } from './payment.entity'
+import { UsageLog } from './usage-log.entity'
+import { Organization } from './organization.entity'
+
+export type CreditTransactionType = 'grant' | 'purchase' | 'spend' | 'refund' | 'adjustment' | 'expiry'
+
+/**
+ * One ledger entry moving credits between a wallet and a system account
+ * The wallet is the user's, or the organization's when organizationId is set (userId is then the member who acted)
+ * User.tokenBalance / Organization.tokenBalance are cached projections of SUM(amount) per wallet
+ */
+@Entity('credit_transactions')
+@Index(['userId', 'createdAt'])
+@Index(['organizationId', 'createdAt'])
+@Index(['paymentId', 'type'], { unique: true })
+@Index(['usageLogId', 'type'], { unique: true })
+export class CreditTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  // Null once the user is deleted; the entries stay in the ledger
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'userId' })
+  user: User | null
+
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization | null
+
+  @Column({ type: 'varchar', length: 20 })
+  type: CreditTransactionType
+
+  // Signed: positive credits the wallet, negative debits it
+  @Column({ type: 'bigint' })
+  amount: number
+
+  // The other side of the entry (e.g. system:revenue, system:usage)
+  @Column({ type: 'varchar', length: 50 })
+  counterAccount: string
+
+  // Wallet balance right after this entry
+  @Column({ type: 'bigint' })
+  balanceAfter: number
+
+  @Column({ type: 'uuid', nullable: true })
+  paymentId: string | null
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'paymentId' })
+  payment: Payment | null
+
+  @Column({ type: 'uuid', nullable: true })
+  usageLogId: string | null
+
+  @ManyToOne(() => UsageLog, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'usageLogId' })
+  usageLog: UsageLog | null
+
+  @Column({ type: 'varchar', nullable: true })
+  description: string | null
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
@@ -8,6 +8,8 @@ import {
 } from 'typeorm'
 import { User } from './user.entity'
 
+export type VerificationPurpose = 'email_verification' | 'password_reset'
+
 @Entity('email_verifications')
 export class EmailVerification {
   @PrimaryGeneratedColumn('uuid')
@@ -23,6 +25,13 @@ export class EmailVerification {
   @Column({ length: 6 })
   code: string
 
+  @Column({ type: 'varchar', length: 32, default: 'email_verification' })
+  purpose: VerificationPurpose
+
+  // Wrong guesses against this code; it is discarded after too many
+  @Column({ type: 'int', default: 0 })
+  attempts: number
+
   @Column({ type: 'timestamp' })
   expiresAt: Date
 
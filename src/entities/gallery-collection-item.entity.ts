@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { GalleryCollection } from './gallery-collection.entity'
+import { UsageLog } from './usage-log.entity'
+
+/**
+ * Membership of a gallery image (usage log) in a collection
+ */
+@Entity('gallery_collection_items')
+@Index(['collectionId', 'usageLogId'], { unique: true })
+export class GalleryCollectionItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  collectionId: string
+
+  @ManyToOne(() => GalleryCollection, (collection) => collection.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'collectionId' })
+  collection: GalleryCollection
+
+  @Index()
+  @Column({ type: 'uuid' })
+  usageLogId: string
+
+  @ManyToOne(() => UsageLog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'usageLogId' })
+  usageLog: UsageLog
+
+  @CreateDateColumn()
+  createdAt: Date
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import { GalleryCollectionItem } from './gallery-collection-item.entity'
+
+/**
+ * User-named group of gallery images
+ */
+@Entity('gallery_collections')
+@Index(['userId', 'name'], { unique: true })
+export class GalleryCollection {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  description: string | null
+
+  @OneToMany(() => GalleryCollectionItem, (item) => item.collection)
+  items: GalleryCollectionItem[]
+
+  @CreateDateColumn()
+  createdAt: Date
+
+  @UpdateDateColumn()
+  updatedAt: Date
+}
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import { UsageLog } from './usage-log.entity'
+
+/**
+ * Gallery image (usage log) starred by its owner
+ */
+@Entity('gallery_favorites')
+@Index(['userId', 'usageLogId'], { unique: true })
+export class GalleryFavorite {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  @Column({ type: 'uuid' })
+  usageLogId: string
+
+  @ManyToOne(() => UsageLog, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'usageLogId' })
+  usageLog: UsageLog
+
+  @CreateDateColumn()
+  createdAt: Date
+}
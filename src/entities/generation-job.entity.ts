@@ -0,0 +1,107 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+
+export type GenerationJobStatus = 'processing' | 'completed' | 'failed'
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+/**
+ * Image generation task tracked server-side until KIE reports a final state
+ */
+@Entity('generation_jobs')
+@Index(['userId', 'createdAt'])
+@Index(['status', 'nextPollAt'])
+export class GenerationJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 100 })
+  taskId: string
+
+  @Column({ type: 'varchar', length: 20, default: 'processing' })
+  status: GenerationJobStatus
+
+  @Column({ type: 'text' })
+  prompt: string
+
+  @Column({ type: 'varchar', length: 10 })
+  aspectRatio: string
+
+  @Column({ type: 'varchar', length: 10 })
+  resolution: string
+
+  @Column({ type: 'varchar', length: 10 })
+  outputFormat: string
+
+  @Column({ type: 'uuid', nullable: true })
+  reservationId: string | null
+
+  // Set for jobs created through the /v1 API; billed at the API image price
+  @Column({ type: 'uuid', nullable: true })
+  apiKeyId: string | null
+
+  // Usage log written when the job was billed
+  @Column({ type: 'uuid', nullable: true })
+  usageLogId: string | null
+
+  // Upstream URL as reported by KIE (temporary)
+  @Column({ type: 'text', nullable: true })
+  resultUrl: string | null
+
+  // Durable copy in our storage
+  @Column({ type: 'uuid', nullable: true })
+  storedImageId: string | null
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null
+
+  @Column({ type: 'int', default: 0 })
+  pollAttempts: number
+
+  @Column({ type: 'timestamp' })
+  nextPollAt: Date
+
+  // Completion callback
+  @Column({ type: 'text', nullable: true })
+  webhookUrl: string | null
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  webhookStatus: WebhookDeliveryStatus | null
+
+  @Column({ type: 'int', default: 0 })
+  webhookAttempts: number
+
+  @Column({ type: 'timestamp', nullable: true })
+  nextWebhookAt: Date | null
+
+  @Column({ type: 'text', nullable: true })
+  webhookLastError: string | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  webhookDeliveredAt: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null
+
+  @CreateDateColumn()
+  createdAt: Date
+
+  @UpdateDateColumn()
+  updatedAt: Date
+}
@@ -1,8 +1,27 @@
 export { User, UserRole } from './user.entity'
 export { UsageLog, ActionType } from './usage-log.entity'
-export { ApiKey } from './api-key.entity'
+export { ApiKey, ApiKeyScope, ApiKeyRateLimitPlan, API_KEY_SCOPES } from './api-key.entity'
+export { ApiKeyAuditLog, ApiKeyAuditAction } from './api-key-audit-log.entity'
 export { Payment, PaymentStatus } from './payment.entity'
-export { EmailVerification } from './email-verification.entity'
+export { EmailVerification, VerificationPurpose } from './email-verification.entity'
 export { Post, PostStatus, BlockContent, SeoMeta } from './post.entity'
 export { ChatConversation } from './chat-conversation.entity'
 export { ChatMessage, MessageRole } from './chat-message.entity'
+export { CreditReservation, ReservationStatus } from './credit-reservation.entity'
+export { CreditTransaction, CreditTransactionType } from './credit-transaction.entity'
+export { GenerationJob, GenerationJobStatus, WebhookDeliveryStatus } from './generation-job.entity'
+export { StoredImage } from './stored-image.entity'
+export { GalleryCollection } from './gallery-collection.entity'
+export { GalleryCollectionItem } from './gallery-collection-item.entity'
+export { GalleryFavorite } from './gallery-favorite.entity'
+export { AiModel, ModelModality } from './ai-model.entity'
+export { Session, SessionRevokeReason } from './session.entity'
+export { RecoveryCode } from './recovery-code.entity'
+export { KvEntry } from './kv-entry.entity'
+export { Organization } from './organization.entity'
+export { OrganizationMember, OrganizationRole, ORGANIZATION_ROLES } from './organization-member.entity'
+export { OrganizationInvitation } from './organization-invitation.entity'
+export { UserIdentity } from './user-identity.entity'
+export { ApiFile, ApiFilePurpose, API_FILE_PURPOSES } from './api-file.entity'
+export { Batch, BatchStatus, BatchEndpoint, BatchError, BATCH_ENDPOINTS } from './batch.entity'
+export { BatchRequest, BatchRequestStatus } from './batch-request.entity'
@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm'
+
+/**
+ * Expiring key/value pair backing the shared store (lockouts, rate limits, OAuth nonces)
+ */
+@Entity('kv_entries')
+export class KvEntry {
+  // Keys embed caller input such as emails, which can be 255 characters on their own
+  @PrimaryColumn({ type: 'text' })
+  key: string
+
+  @Column({ type: 'jsonb' })
+  value: unknown
+
+  @Index()
+  @Column({ type: 'timestamp' })
+  expiresAt: Date
+}
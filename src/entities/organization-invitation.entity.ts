@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import { Organization } from './organization.entity'
+import { OrganizationRole } from './organization-member.entity'
+
+/**
+ * Pending invitation to join an organization; the emailed token is stored hashed
+ */
+@Entity('organization_invitations')
+@Index(['organizationId', 'email'])
+export class OrganizationInvitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  organizationId: string
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization
+
+  @Column({ type: 'varchar' })
+  email: string
+
+  @Column({ type: 'varchar', length: 20 })
+  role: OrganizationRole
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string
+
+  @Column({ type: 'uuid' })
+  invitedById: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invitedById' })
+  invitedBy: User
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date
+
+  @Column({ type: 'timestamp', nullable: true })
+  acceptedAt: Date | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import { Organization } from './organization.entity'
+
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'member', 'billing'] as const
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number]
+
+/**
+ * A user's seat in an organization
+ * owner/admin manage members and keys, billing buys tokens and reads usage, member spends
+ */
+@Entity('organization_members')
+@Index(['organizationId', 'userId'], { unique: true })
+export class OrganizationMember {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  organizationId: string
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  @Column({ type: 'varchar', length: 20, default: 'member' })
+  role: OrganizationRole
+
+  // Most this member may spend from the pool per calendar month (null = uncapped)
+  @Column({ type: 'bigint', nullable: true })
+  monthlyTokenLimit: number | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
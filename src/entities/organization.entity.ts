@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm'
+import { User } from './user.entity'
+
+/**
+ * Team workspace with a token pool shared by its members and org-owned API keys
+ */
+@Entity('organizations')
+export class Organization {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string
+
+  // Cached projection of the organization's ledger entries - only change via ledger.service
+  @Column({ type: 'bigint', default: 0 })
+  tokenBalance: number
+
+  // Set by reconciliation when tokenBalance drifts from the ledger
+  @Column({ type: 'timestamp', nullable: true })
+  balanceMismatchAt: Date | null
+
+  @Column({ type: 'uuid' })
+  createdById: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'createdById' })
+  createdBy: User
+
+  @CreateDateColumn()
+  createdAt: Date
+
+  @UpdateDateColumn()
+  updatedAt: Date
+}
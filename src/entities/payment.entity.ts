@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm'
 import { User } from './user.entity'
 
@@ -22,6 +23,11 @@ export class Payment {
   @JoinColumn({ name: 'userId' })
   user: User
 
+  // Organization wallet the purchase tops up (null = the user's own); userId is the member who paid
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
   @Column()
   transactionId: string
 
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+
+/**
+ * Single-use 2FA recovery code, stored hashed
+ */
+@Entity('recovery_codes')
+@Index(['userId', 'codeHash'], { unique: true })
+export class RecoveryCode {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  @Column({ type: 'varchar', length: 64 })
+  codeHash: string
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+
+export type SessionRevokeReason = 'logout' | 'revoked' | 'refresh_reuse' | 'account_deactivated' | 'password_changed'
+
+/**
+ * Signed-in device: holds the hash of its current refresh token, which rotates on every refresh
+ */
+@Entity('sessions')
+@Index(['userId', 'revokedAt'])
+export class Session {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  refreshTokenHash: string
+
+  // Token replaced by the last rotation; presenting it again means it leaked
+  @Index()
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  previousRefreshTokenHash: string | null
+
+  // Browser / OS summary derived from the user agent
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  device: string | null
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userAgent: string | null
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip: string | null
+
+  @Column({ type: 'timestamp' })
+  lastUsedAt: Date
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null
+
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  revokedReason: SessionRevokeReason | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
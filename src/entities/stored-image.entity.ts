@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+import type { StorageDriverName } from '../services/storage/storage.types'
+
+/**
+ * Durable copy of a generated image, served through signed URLs
+ */
+@Entity('stored_images')
+@Index(['userId', 'sha256'])
+export class StoredImage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  @Column({ type: 'varchar', length: 20 })
+  storageDriver: StorageDriverName
+
+  @Column({ type: 'varchar', length: 500 })
+  storageKey: string
+
+  @Column({ type: 'varchar', length: 50 })
+  contentType: string
+
+  @Column({ type: 'int' })
+  bytes: number
+
+  @Column({ type: 'int', nullable: true })
+  width: number | null
+
+  @Column({ type: 'int', nullable: true })
+  height: number | null
+
+  @Column({ type: 'varchar', length: 64 })
+  sha256: string
+
+  // Upstream URL the image was copied from (expires after a while)
+  @Column({ type: 'text' })
+  sourceUrl: string
+
+  @Index()
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  taskId: string | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
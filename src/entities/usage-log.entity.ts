@@ -5,10 +5,11 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm'
 import { User } from './user.entity'
 
-export type ActionType = 'generate_image' | 'login' | 'logout' | 'register' | 'chat' | 'chat_stream' | 'api_chat' | 'api_chat_stream' | 'api_image_generation' | 'convert_word_to_pdf' | 'convert_pdf_to_word' | 'document_conversion' | 'google_login'
+export type ActionType = 'generate_image' | 'login' | 'logout' | 'register' | 'chat' | 'chat_stream' | 'chat_summary' | 'chat_title' | 'api_chat' | 'api_chat_stream' | 'api_image_generation' | 'convert_word_to_pdf' | 'convert_pdf_to_word' | 'document_conversion' | 'google_login' | 'oauth_login' | 'identity_link' | 'identity_unlink' | 'password_reset' | 'password_change'
 
 @Entity('usage_logs')
 export class UsageLog {
@@ -22,6 +23,11 @@ export class UsageLog {
   @JoinColumn({ name: 'userId' })
   user: User
 
+  // Organization billed for the action (null = the user's own wallet)
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  organizationId: string | null
+
   @Column({ type: 'varchar', length: 50 })
   action: ActionType
 
@@ -45,6 +51,8 @@ export class UsageLog {
     tokens?: number
     estimatedTokens?: number
     jobId?: string
+    storedImageId?: string
+    model?: string
     downloadUrl?: string
     fileName?: string
   }
@@ -52,6 +60,10 @@ export class UsageLog {
   @Column({ default: true })
   success: boolean
 
+  // Removed from the gallery by the user; the log itself is kept for billing
+  @Column({ type: 'timestamp', nullable: true })
+  galleryHiddenAt: Date | null
+
   @CreateDateColumn()
   createdAt: Date
 }
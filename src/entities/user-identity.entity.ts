@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm'
+import { User } from './user.entity'
+
+/**
+ * An external sign-in account (Google, GitHub, Microsoft, a company OIDC IdP) linked to a user
+ * One account per provider per user; a provider account belongs to a single user
+ */
+@Entity('user_identities')
+@Index(['provider', 'subject'], { unique: true })
+@Index(['userId', 'provider'], { unique: true })
+export class UserIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  @Column({ type: 'uuid' })
+  userId: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  // Provider key from the OIDC configuration (google, github, microsoft, or a custom id)
+  @Column({ type: 'varchar', length: 50 })
+  provider: string
+
+  // The provider's stable account id ("sub" claim)
+  @Column({ type: 'varchar', length: 255 })
+  subject: string
+
+  // Email the provider reported at the last sign-in
+  @Column({ type: 'varchar', nullable: true })
+  email: string | null
+
+  @Column({ default: false })
+  emailVerified: boolean
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastLoginAt: Date | null
+
+  @CreateDateColumn()
+  createdAt: Date
+}
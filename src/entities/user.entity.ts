@@ -33,9 +33,14 @@ export class User {
   @Column({ type: 'decimal', precision: 10, scale: 4, default: 0 })
   totalSpentUsd: number
 
+  // Cached projection of the credit ledger - only change via ledger.service
   @Column({ type: 'bigint', default: 0 })
   tokenBalance: number
 
+  // Set by reconciliation when tokenBalance drifts from the ledger
+  @Column({ type: 'timestamp', nullable: true })
+  balanceMismatchAt: Date | null
+
   @Column({ default: false })
   isPro: boolean
 
@@ -45,10 +50,29 @@ export class User {
   @Column({ default: true })
   isActive: boolean
 
+  // Bumped to invalidate every access token issued before (role change, deactivation)
+  @Column({ type: 'int', default: 0 })
+  tokenVersion: number
+
   @Column({ default: false })
   isEmailVerified: boolean
 
-  // Google OAuth fields
+  // TOTP two-factor authentication
+  @Column({ default: false })
+  twoFactorEnabled: boolean
+
+  // Encrypted with utils/encryption; set at enrollment, kept while enabled
+  @Column({ nullable: true, type: 'varchar' })
+  twoFactorSecret: string | null
+
+  // Last accepted TOTP time step, so a code cannot be replayed
+  @Column({ type: 'bigint', nullable: true })
+  twoFactorLastStep: number | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  twoFactorEnabledAt: Date | null
+
+  // Legacy Google account id; sign-in accounts now live in user_identities (copied there and cleared at startup)
   @Column({ nullable: true, type: 'varchar' })
   googleId: string | null
 
@@ -60,6 +84,10 @@ export class User {
   @Column({ default: false })
   hasReceivedWelcomeBonus: boolean
 
+  // HMAC secret for signing completion callbacks sent to this user's webhooks
+  @Column({ nullable: true, type: 'varchar' })
+  webhookSecret: string | null
+
   @CreateDateColumn()
   createdAt: Date
 
@@ -86,6 +86,21 @@ export class PaymentRequiredError extends AppError {
   }
 }
 
+/**
+ * 402 Payment Required - Balance cannot cover the pre-flight reservation
+ * Code mirrors OpenAI's `insufficient_quota` so /api and /v1 report the same error
+ */
+export class InsufficientQuotaError extends AppError {
+  public readonly required: number
+  public readonly available: number
+
+  constructor(required: number, available: number) {
+    super(402, 'Insufficient token balance for this request', 'insufficient_quota')
+    this.required = required
+    this.available = available
+  }
+}
+
 /**
  * 500 Internal Server Error
  */
@@ -8,11 +8,12 @@ validateEnvironment()
 import express from 'express'
 import cors from 'cors'
 import { AppDataSource } from './data-source'
-import { authRoutes, generateRoutes, usageRoutes, downloadRoutes, chatRoutes, keysRoutes, billingRoutes, convertRoutes, adminRoutes, articleImageRoutes, blogRoutes, conversationRoutes } from './routes'
+import { authRoutes, generateRoutes, usageRoutes, downloadRoutes, chatRoutes, keysRoutes, billingRoutes, convertRoutes, adminRoutes, articleImageRoutes, blogRoutes, conversationRoutes, imageRoutes, galleryRoutes, organizationRoutes } from './routes'
 import openaiRoutes from './routes/openai.routes'
-import googleAuthRoutes from './routes/google-auth.routes'
+import anthropicRoutes from './routes/anthropic.routes'
+import batchRoutes from './routes/batch.routes'
+import oauthRoutes from './routes/oauth.routes'
 import { billingController } from './controllers/billing.controller'
-import passport from 'passport'
 import {
   requestLogger,
   generalLimiter,
@@ -23,11 +24,24 @@ import {
   chatLimiter,
   keysLimiter,
   openaiApiLimiter,
+  anthropicErrorFormat,
   securityHeaders,
   inputSanitization,
 } from './middlewares'
 import { logger } from './utils'
 import { setupSwagger } from './swagger'
+import { startReservationSweeper } from './services/credit-reservation.service'
+import { backfillOpeningBalances, startReconciliationJob } from './services/ledger.service'
+import { startGenerationJobWorker } from './services/generation-job.service'
+import { startBatchWorker } from './services/batch.service'
+import { ensureGallerySearchIndex } from './services/gallery.service'
+import { seedDefaultModels } from './services/model-registry.service'
+import { backfillMessageTree } from './services/conversation.service'
+import { ensureConversationSearchIndex } from './services/conversation-search.service'
+import { ensureApiKeyUsageIndex } from './services/api-key-budget.service'
+import { startSessionCleanupJob } from './services/session.service'
+import { startKeyValueCleanupJob } from './services/kv-store'
+import { userIdentityRepository } from './repositories/user-identity.repository'
 
 const app = express()
 const PORT = process.env.PORT || 4000
@@ -38,8 +52,9 @@ app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000', 'http://localhost:3001'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Organization-Id', 'X-Api-Key', 'Anthropic-Version'],
 }))
+app.use('/v1/messages', anthropicErrorFormat) // Anthropic error envelope for everything that answers /v1/messages
 app.use(express.json({ limit: '5mb' })) // Reduced from 10mb for security
 app.use(requestLogger)
 
@@ -52,19 +67,26 @@ app.post('/api/billing/webhook', (req, res) => billingController.handleWebhook(r
 app.post('/api/sepay/webhook', (req, res) => billingController.handleWebhook(req, res))
 
 app.use(generalLimiter) // Apply general rate limit to all routes
-app.use(passport.initialize()) // Initialize passport for Google OAuth
 
 // Routes with specific rate limits
 app.use('/api/auth/login', authLimiter)
+app.use('/api/auth/refresh', authLimiter)
+app.use('/api/auth/2fa/verify', authLimiter)
+app.use('/api/auth/forgot-password', authLimiter)
+app.use('/api/auth/reset-password', authLimiter)
+app.use('/api/auth/oauth/exchange', authLimiter)
 app.use('/api/auth/register', registerLimiter)
 app.use('/api/auth', authRoutes)
-app.use('/api/auth', googleAuthRoutes) // Google OAuth routes
+app.use('/api/auth', oauthRoutes) // OAuth / OIDC sign-in and account linking
 app.use('/api/generate', generateLimiter, generateRoutes)
 app.use('/api/usage', usageRoutes)
 app.use('/api/download', downloadRoutes)
+app.use('/api/images', imageRoutes)
+app.use('/api/gallery', galleryRoutes)
 app.use('/api/chat', chatLimiter, chatRoutes)
 app.use('/api/keys', keysLimiter, keysRoutes)
 app.use('/api/billing', billingLimiter, billingRoutes)
+app.use('/api/organizations', keysLimiter, organizationRoutes)
 app.use('/api/sepay', billingRoutes) // Alias for SePay webhook
 app.use('/api/convert', convertRoutes)
 app.use('/api/admin', adminRoutes)
@@ -72,8 +94,8 @@ app.use('/api/article-images', generateLimiter, articleImageRoutes)
 app.use('/api/blog', blogRoutes)
 app.use('/api/conversations', chatLimiter, conversationRoutes)
 
-// OpenAI-compatible API (for external API key access)
-app.use('/v1', openaiApiLimiter, openaiRoutes)
+// OpenAI- and Anthropic-compatible API (for external API key access)
+app.use('/v1', openaiApiLimiter, openaiRoutes, anthropicRoutes, batchRoutes)
 
 // Health check
 app.get('/health', (_, res) => {
@@ -100,6 +122,67 @@ AppDataSource.initialize()
   .then(() => {
     logger.info('Database connected successfully')
 
+    // Release credit holds left behind by abandoned requests
+    startReservationSweeper()
+
+    // Seed the ledger for balances that predate it, then watch for drift
+    backfillOpeningBalances()
+      .then((count) => {
+        if (count > 0) {
+          logger.info('Opening ledger balances backfilled', { count })
+        }
+      })
+      .catch((error) => logger.error('Ledger backfill failed', error))
+    startReconciliationJob()
+
+    // Google accounts stored on users before user_identities existed
+    userIdentityRepository.backfillGoogleIdentities()
+      .then((count) => {
+        if (count > 0) {
+          logger.info('Google sign-in identities backfilled', { count })
+        }
+      })
+      .catch((error) => logger.error('Identity backfill failed', error))
+
+    // Drive image jobs to completion and deliver their callbacks
+    startGenerationJobWorker()
+
+    // Run /v1 batches line by line and write their result files
+    startBatchWorker()
+
+    // Make sure the built-in chat models exist in the registry
+    seedDefaultModels()
+      .then((count) => {
+        if (count > 0) {
+          logger.info('Default models seeded', { count })
+        }
+      })
+      .catch((error) => logger.error('Model seeding failed', error))
+
+    // Chain messages stored before conversations became trees
+    backfillMessageTree()
+      .then((count) => {
+        if (count > 0) {
+          logger.info('Conversation message trees backfilled', { count })
+        }
+      })
+      .catch((error) => logger.error('Message tree backfill failed', error))
+
+    // Prompt search index for the gallery
+    ensureGallerySearchIndex().catch((error) => logger.error('Gallery search index creation failed', error))
+
+    // Accent-insensitive message search for conversations
+    ensureConversationSearchIndex().catch((error) => logger.error('Conversation search index creation failed', error))
+
+    // Per-key spend lookups for API key budgets
+    ensureApiKeyUsageIndex().catch((error) => logger.error('API key usage index creation failed', error))
+
+    // Forget sessions that ended a while ago
+    startSessionCleanupJob()
+
+    // Expire lockout, rate limit and OAuth state entries
+    startKeyValueCleanupJob()
+
     app.listen(PORT, () => {
       logger.info(`Server running on http://localhost:${PORT}`)
     })
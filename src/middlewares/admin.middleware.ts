@@ -4,6 +4,7 @@ import { response } from '../utils/response'
 import { logger } from '../utils/logger'
 import { AppDataSource } from '../data-source'
 import { User } from '../entities'
+import { isAdminTwoFactorRequired } from '../services/two-factor.service'
 
 /**
  * Admin authorization middleware
@@ -38,7 +39,7 @@ export async function adminMiddleware(
     const userRepo = AppDataSource.getRepository(User)
     const user = await userRepo.findOne({
       where: { id: req.user.userId, isActive: true },
-      select: ['id', 'role', 'isActive'],
+      select: ['id', 'role', 'isActive', 'twoFactorEnabled'],
     })
 
     if (!user) {
@@ -57,6 +58,15 @@ export async function adminMiddleware(
       return
     }
 
+    // SECURITY: With REQUIRE_ADMIN_2FA, admins must enroll before using the admin API
+    if (isAdminTwoFactorRequired() && !user.twoFactorEnabled) {
+      logger.warn('Admin check failed: 2FA not enabled', { userId: req.user.userId, path: req.path })
+      response.error(res, 'Two-factor authentication is required for admin access', 403, {
+        code: 'TWO_FACTOR_REQUIRED',
+      })
+      return
+    }
+
     logger.debug('Admin access granted (DB verified)', { userId: req.user.userId })
     next()
   } catch (error) {
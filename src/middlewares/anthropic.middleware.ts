@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express'
+import { toAnthropicErrorBody } from '../utils/anthropic-error'
+
+/**
+ * Anthropic error envelope middleware
+ * Rewrites error responses sent before the /v1/messages handler runs (rate limits,
+ * API key checks, input sanitization) from the OpenAI or repo envelope to Anthropic's
+ */
+export function anthropicErrorFormat(req: Request, res: Response, next: NextFunction) {
+  const json = res.json.bind(res)
+
+  res.json = (body?: unknown) => {
+    if (res.statusCode >= 400) {
+      const converted = toAnthropicErrorBody(res.statusCode, body)
+      if (converted) return json(converted)
+    }
+    return json(body)
+  }
+
+  next()
+}
@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from 'express'
 import crypto from 'crypto'
+import { MoreThan } from 'typeorm'
 import { response } from '../utils/response'
 import { logger } from '../utils/logger'
+import { openaiError } from '../utils/openai-error'
+import { isIpAllowed } from '../utils/ip'
 import { AppDataSource } from '../data-source'
-import { ApiKey, User } from '../entities'
+import { ApiKey, ApiKeyScope, User } from '../entities'
+import { hasBudget, checkKeyBudget, sendBudgetWarnings } from '../services/api-key-budget.service'
 
 // SECURITY: Pepper for API key hashing (adds extra layer of protection)
 const API_KEY_PEPPER = process.env.API_KEY_PEPPER || 'default-api-key-pepper-change-in-production'
@@ -18,6 +22,10 @@ export interface ApiKeyRequest extends Request {
     userId: string
     user: User
     apiKeyId: string
+    // Organization whose pool pays for the key's usage (null = the user's own balance)
+    organizationId: string | null
+    scopes: ApiKeyScope[]
+    allowedModels: string[] | null
   }
 }
 
@@ -25,28 +33,37 @@ export interface ApiKeyRequest extends Request {
  * Hash API key for comparison with pepper
  * SECURITY: Uses HMAC-SHA256 with pepper instead of plain SHA256
  */
-function hashApiKey(key: string): string {
+export function hashApiKey(key: string): string {
   return crypto.createHmac('sha256', API_KEY_PEPPER).update(key).digest('hex')
 }
 
+/**
+ * API key sent with the request: `Authorization: Bearer <key>`, or the `x-api-key` header used by Anthropic clients
+ */
+export function getRequestApiKey(req: Request): string | null {
+  const authHeader = req.headers.authorization
+  if (authHeader?.startsWith('Bearer ')) return authHeader.slice(7) || null
+
+  const headerKey = req.headers['x-api-key']
+  return typeof headerKey === 'string' && headerKey ? headerKey : null
+}
+
 /**
  * API Key Authentication middleware
- * Validates Bearer token as API key and attaches user to request
+ * Validates the Bearer token (or x-api-key header) as API key and attaches user to request
  */
 export async function apiKeyMiddleware(
   req: ApiKeyRequest,
   res: Response,
   next: NextFunction
 ) {
-  const authHeader = req.headers.authorization
+  const apiKey = getRequestApiKey(req)
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+  if (!apiKey) {
     logger.warn('API Key auth failed: No token provided', { path: req.path })
     return response.unauthorized(res, 'API key required')
   }
 
-  const apiKey = authHeader.split(' ')[1]
-
   // Check if it starts with our prefix
   if (!apiKey.startsWith('sk_')) {
     return response.unauthorized(res, 'Invalid API key format')
@@ -57,9 +74,12 @@ export async function apiKeyMiddleware(
     const apiKeyRepo = AppDataSource.getRepository(ApiKey)
     const userRepo = AppDataSource.getRepository(User)
 
-    // Find API key by hash
+    // Find API key by hash - either its current secret or one rotated out and still in grace
     const keyRecord = await apiKeyRepo.findOne({
-      where: { keyHash, isActive: true },
+      where: [
+        { keyHash, isActive: true },
+        { previousKeyHash: keyHash, isActive: true, previousKeyExpiresAt: MoreThan(new Date()) },
+      ],
     })
 
     if (!keyRecord) {
@@ -67,6 +87,22 @@ export async function apiKeyMiddleware(
       return response.unauthorized(res, 'Invalid API key')
     }
 
+    if (keyRecord.expiresAt && keyRecord.expiresAt.getTime() <= Date.now()) {
+      logger.warn('API Key auth failed: Key expired', { path: req.path, apiKeyId: keyRecord.id })
+      return openaiError(res, 403, 'This API key has expired.', 'permission_error', 'api_key_expired')
+    }
+
+    if (keyRecord.allowedIps?.length && !isIpAllowed(req.ip, keyRecord.allowedIps)) {
+      logger.warn('API Key auth failed: IP not allowed', { path: req.path, apiKeyId: keyRecord.id, ip: req.ip })
+      return openaiError(
+        res,
+        403,
+        `Requests from ${req.ip || 'this address'} are not allowed for this API key.`,
+        'permission_error',
+        'ip_not_allowed'
+      )
+    }
+
     // Get user
     const user = await userRepo.findOne({
       where: { id: keyRecord.userId, isActive: true },
@@ -76,15 +112,41 @@ export async function apiKeyMiddleware(
       return response.unauthorized(res, 'User not found or inactive')
     }
 
-    // Update last used
-    keyRecord.lastUsedAt = new Date()
-    await apiKeyRepo.save(keyRecord)
+    // Per-key spend caps
+    if (hasBudget(keyRecord)) {
+      const budget = await checkKeyBudget(keyRecord)
+      if (budget.exceeded) {
+        const { period, metric, limit } = budget.exceeded
+        logger.warn('API Key budget exceeded', { path: req.path, apiKeyId: keyRecord.id, ...budget.exceeded })
+        return openaiError(
+          res,
+          429,
+          `This API key has reached its ${period} ${metric === 'usd' ? `spend limit ($${limit})` : `token limit (${limit})`}.`,
+          'insufficient_quota',
+          'api_key_budget_exceeded'
+        )
+      }
+      if (budget.warnings.length) {
+        sendBudgetWarnings(keyRecord, user, budget.warnings)
+          .catch((error) => logger.error('API key budget warning failed', error as Error))
+      }
+    }
+
+    // Update last used (tracked separately for the previous secret)
+    // Only this column is written, so a rotation or edit made meanwhile is not overwritten with the loaded row
+    await apiKeyRepo.update(
+      keyRecord.id,
+      keyRecord.keyHash === keyHash ? { lastUsedAt: new Date() } : { previousKeyLastUsedAt: new Date() }
+    )
 
     // Attach user info to request
     req.apiUser = {
       userId: keyRecord.userId,
       user,
       apiKeyId: keyRecord.id,
+      organizationId: keyRecord.organizationId ?? null,
+      scopes: keyRecord.scopes,
+      allowedModels: keyRecord.allowedModels,
     }
 
     next()
@@ -94,4 +156,51 @@ export async function apiKeyMiddleware(
   }
 }
 
+/**
+ * Check whether an API key may request a model (keys without a list may use any)
+ */
+export function isModelAllowed(apiUser: NonNullable<ApiKeyRequest['apiUser']>, modelId: string): boolean {
+  return !apiUser.allowedModels?.length || apiUser.allowedModels.includes(modelId)
+}
+
+/**
+ * API key permission middleware
+ * Must be used AFTER apiKeyMiddleware
+ * Rejects keys missing `scope` (any one of them, when several are given),
+ * and - when `getModel` is given - keys not allowed the requested model
+ */
+export function requireApiScope(scope: ApiKeyScope | ApiKeyScope[], getModel?: (req: ApiKeyRequest) => string) {
+  const scopes = Array.isArray(scope) ? scope : [scope]
+
+  return (req: ApiKeyRequest, res: Response, next: NextFunction) => {
+    const apiUser = req.apiUser!
+
+    if (!scopes.some((required) => apiUser.scopes.includes(required))) {
+      logger.warn('API Key permission denied: Missing scope', { path: req.path, apiKeyId: apiUser.apiKeyId, scope })
+      return openaiError(
+        res,
+        403,
+        `This API key does not have the required scope: ${scopes.join(' or ')}.`,
+        'permission_error',
+        'insufficient_scope'
+      )
+    }
+
+    const modelId = getModel?.(req)
+    if (modelId && !isModelAllowed(apiUser, modelId)) {
+      logger.warn('API Key permission denied: Model not allowed', { path: req.path, apiKeyId: apiUser.apiKeyId, modelId })
+      return openaiError(
+        res,
+        403,
+        `This API key is not allowed to use the model \`${modelId}\`.`,
+        'permission_error',
+        'model_not_allowed',
+        'model'
+      )
+    }
+
+    next()
+  }
+}
+
 export default apiKeyMiddleware
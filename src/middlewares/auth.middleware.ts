@@ -2,21 +2,29 @@ import { Request, Response, NextFunction } from 'express'
 import { verifyToken } from '../utils/jwt'
 import { response } from '../utils/response'
 import { logger } from '../utils/logger'
+import { validateAccessToken } from '../services/session.service'
 import type { JwtPayload } from '../utils/jwt'
+import type { OrganizationRole } from '../entities'
 
 export interface AuthRequest extends Request {
   user?: JwtPayload
+  // Organization workspace the request acts in (set by organizationContext); absent = personal
+  organization?: {
+    id: string
+    role: OrganizationRole
+  }
 }
 
 /**
  * JWT Authentication middleware
- * Validates Bearer token and attaches user to request
+ * Validates Bearer token, checks the session and token version are still current,
+ * and attaches user (with the role currently stored) to request
  */
-export function authMiddleware(
+export async function authMiddleware(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const authReq = req as AuthRequest
   const authHeader = req.headers.authorization
 
@@ -35,18 +43,31 @@ export function authMiddleware(
     return
   }
 
-  authReq.user = result.payload
-  next()
+  try {
+    const session = await validateAccessToken(result.payload)
+    if (session.error !== undefined) {
+      logger.warn('Auth failed: Token no longer valid', { path: req.path, userId: result.payload.userId, error: session.error })
+      response.unauthorized(res, session.error)
+      return
+    }
+
+    authReq.user = { ...result.payload, role: session.role }
+    next()
+  } catch (error) {
+    logger.error('Auth session check failed', error as Error)
+    response.serverError(res, 'Authentication failed')
+  }
 }
 
 /**
  * Optional auth middleware - doesn't fail if no token
+ * A revoked or outdated token is treated as no token
  */
-export function optionalAuthMiddleware(
+export async function optionalAuthMiddleware(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const authReq = req as AuthRequest
   const authHeader = req.headers.authorization
 
@@ -55,7 +76,14 @@ export function optionalAuthMiddleware(
     const result = verifyToken(token)
 
     if (result.success && result.payload) {
-      authReq.user = result.payload
+      try {
+        const session = await validateAccessToken(result.payload)
+        if (session.error === undefined) {
+          authReq.user = { ...result.payload, role: session.role }
+        }
+      } catch (error) {
+        logger.error('Optional auth session check failed', error as Error)
+      }
     }
   }
 
@@ -1,7 +1,9 @@
 export { authMiddleware, optionalAuthMiddleware } from './auth.middleware'
 export { adminMiddleware } from './admin.middleware'
+export { organizationContext, organizationParam, requireOrganizationRole } from './organization.middleware'
 export type { AuthRequest } from './auth.middleware'
 export { requestLogger } from './request-logger.middleware'
+export { anthropicErrorFormat } from './anthropic.middleware'
 export {
   generalLimiter,
   authLimiter,
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express'
+import { AuthRequest } from './auth.middleware'
+import { response } from '../utils/response'
+import { logger } from '../utils/logger'
+import { OrganizationRole } from '../entities'
+import { findMembership } from '../services/organization.service'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+async function attachOrganization(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  organizationId: string | undefined
+): Promise<void> {
+  // Validate UUID format
+  if (!organizationId || !UUID_PATTERN.test(organizationId)) {
+    response.badRequest(res, 'Invalid organization ID format')
+    return
+  }
+
+  try {
+    const member = await findMembership(organizationId, req.user!.userId)
+    if (!member) {
+      logger.warn('Organization access denied: Not a member', { path: req.path, userId: req.user!.userId, organizationId })
+      response.forbidden(res, 'You are not a member of this organization')
+      return
+    }
+
+    req.organization = { id: organizationId, role: member.role }
+    next()
+  } catch (error) {
+    logger.error('Organization membership check failed', error as Error)
+    response.serverError(res, 'Authorization check failed')
+  }
+}
+
+/**
+ * Organization workspace middleware
+ * Must be used AFTER authMiddleware
+ * With an X-Organization-Id header the request acts on that organization's pool, keys and usage;
+ * without it the request stays in the user's personal workspace
+ */
+export async function organizationContext(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const organizationId = req.get('x-organization-id')
+  if (organizationId === undefined) {
+    next()
+    return
+  }
+  await attachOrganization(req as AuthRequest, res, next, organizationId)
+}
+
+/**
+ * Same as organizationContext, for routes that name the organization in `:id`
+ */
+export async function organizationParam(req: Request, res: Response, next: NextFunction): Promise<void> {
+  await attachOrganization(req as AuthRequest, res, next, req.params.id)
+}
+
+/**
+ * Organization role middleware
+ * Must be used AFTER organizationContext / organizationParam; personal requests pass through
+ */
+export function requireOrganizationRole(...roles: OrganizationRole[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { organization, user } = req as AuthRequest
+    if (organization && !roles.includes(organization.role)) {
+      logger.warn('Organization access denied: Role not allowed', {
+        path: req.path,
+        userId: user?.userId,
+        organizationId: organization.id,
+        role: organization.role,
+      })
+      response.forbidden(res, `Requires organization role: ${roles.join(', ')}`)
+      return
+    }
+    next()
+  }
+}
+
+export default organizationContext
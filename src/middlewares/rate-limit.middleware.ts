@@ -1,27 +1,113 @@
-import rateLimit from 'express-rate-limit'
+import { Request, Response, NextFunction } from 'express'
+import rateLimit, { ipKeyGenerator, RateLimitInfo } from 'express-rate-limit'
 import { response } from '../utils/response'
 import { logger } from '../utils/logger'
+import { verifyToken } from '../utils/jwt'
+import { openaiError } from '../utils/openai-error'
+import { hashApiKey, getRequestApiKey } from './apikey.middleware'
+import { getKeyValueStore, KeyValueRateLimitStore } from '../services/kv-store'
+import {
+  RATE_LIMIT_WINDOW_MS,
+  RateLimitScope,
+  RateLimitSubject,
+  getRequestLimit,
+  getTokenLimit,
+  getTokenUsage,
+  resolveApiKeyPlan,
+  resolveUserPlan,
+} from '../services/rate-limit-policy.service'
 
 /**
  * Rate limiting configuration for different endpoints
  * Protects against brute force, DoS, and abuse
+ * Counters live in the shared key/value store so every instance sees the same hits
  */
 
-// General API rate limit: 100 requests per minute
-export const generalLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 100,
-  message: 'Too many requests, please try again later',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    logger.warn('Rate limit exceeded', {
-      ip: req.ip,
-      path: req.path,
-      type: 'general',
-    })
-    response.error(res, 'Too many requests, please try again later', 429)
-  },
+// express-rate-limit records the current window on the request
+type RateLimitedRequest = Request & { rateLimit?: RateLimitInfo }
+
+const sharedStore = (name: string) => new KeyValueRateLimitStore(`rl:${name}:`, getKeyValueStore)
+
+// One lookup per request, shared by every limiter it passes through
+const subjects = new WeakMap<Request, Promise<RateLimitSubject>>()
+
+/**
+ * Who a request counts against: the API key or signed-in user behind its bearer token,
+ * otherwise its IP. Runs before route auth, so a bad token simply falls back to the IP.
+ */
+export function resolveRateLimitSubject(req: Request): Promise<RateLimitSubject> {
+  let subject = subjects.get(req)
+  if (!subject) {
+    subject = lookupSubject(req)
+    subjects.set(req, subject)
+  }
+  return subject
+}
+
+async function lookupSubject(req: Request): Promise<RateLimitSubject> {
+  const anonymous: RateLimitSubject = { key: `ip:${ipKeyGenerator(req.ip || 'unknown')}`, plan: 'anonymous' }
+
+  const token = getRequestApiKey(req)
+  if (!token) return anonymous
+
+  try {
+    if (token.startsWith('sk_')) {
+      const apiKey = await resolveApiKeyPlan(hashApiKey(token))
+      return apiKey ? { key: `key:${apiKey.apiKeyId}`, plan: apiKey.plan, apiKeyId: apiKey.apiKeyId } : anonymous
+    }
+
+    const result = verifyToken(token)
+    if (!result.success || !result.payload) return anonymous
+    const plan = await resolveUserPlan(result.payload.userId)
+    return plan === 'anonymous' ? anonymous : { key: `user:${result.payload.userId}`, plan }
+  } catch (error) {
+    logger.error('Rate limit subject lookup failed', error as Error)
+    return anonymous
+  }
+}
+
+/**
+ * Limiter whose key and limit come from the rate limit policy
+ */
+function policyLimiter(scope: RateLimitScope, onLimit: (req: Request, res: Response) => void) {
+  return rateLimit({
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    limit: async (req) => getRequestLimit((await resolveRateLimitSubject(req)).plan, scope),
+    keyGenerator: async (req) => (await resolveRateLimitSubject(req)).key,
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: sharedStore(scope),
+    handler: onLimit,
+  })
+}
+
+/**
+ * Time until a window resets, in the style OpenAI uses (e.g. "850ms", "12s", "1m30s")
+ */
+export function formatResetDuration(resetTime: Date | undefined): string {
+  const ms = Math.max(0, (resetTime?.getTime() ?? Date.now()) - Date.now())
+  if (ms < 1000) return `${ms}ms`
+
+  const seconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m${seconds % 60}s` : `${seconds}s`
+}
+
+function setRequestHeaders(req: RateLimitedRequest, res: Response) {
+  if (!req.rateLimit) return
+  res.setHeader('x-ratelimit-limit-requests', String(req.rateLimit.limit))
+  res.setHeader('x-ratelimit-remaining-requests', String(req.rateLimit.remaining))
+  res.setHeader('x-ratelimit-reset-requests', formatResetDuration(req.rateLimit.resetTime))
+}
+
+// General API rate limit: per user / IP, by plan
+export const generalLimiter = policyLimiter('general', (req, res) => {
+  logger.warn('Rate limit exceeded', {
+    ip: req.ip,
+    path: req.path,
+    type: 'general',
+  })
+  response.error(res, 'Too many requests, please try again later', 429)
 })
 
 // Strict rate limit for auth endpoints: 5 requests per minute
@@ -31,6 +117,7 @@ export const authLimiter = rateLimit({
   message: 'Too many login attempts, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
+  store: sharedStore('auth'),
   skipSuccessfulRequests: false,
   handler: (req, res) => {
     logger.warn('Auth rate limit exceeded', {
@@ -49,6 +136,7 @@ export const registerLimiter = rateLimit({
   message: 'Too many accounts created, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
+  store: sharedStore('register'),
   handler: (req, res) => {
     logger.warn('Registration rate limit exceeded', {
       ip: req.ip,
@@ -57,84 +145,92 @@ export const registerLimiter = rateLimit({
   },
 })
 
-// Rate limit for image generation: 30 per minute
-export const generateLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 30,
-  message: 'Too many generation requests',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    logger.warn('Generate rate limit exceeded', {
-      ip: req.ip,
-      userId: (req as any).user?.userId,
-    })
-    response.error(res, 'Too many generation requests, please slow down', 429)
-  },
+// Rate limit for image generation: per user, by plan
+export const generateLimiter = policyLimiter('generate', (req, res) => {
+  logger.warn('Generate rate limit exceeded', {
+    ip: req.ip,
+    userId: (req as any).user?.userId,
+  })
+  response.error(res, 'Too many generation requests, please slow down', 429)
 })
 
-// Rate limit for billing/payment: 10 per minute
-export const billingLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 10,
-  message: 'Too many payment requests',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    logger.warn('Billing rate limit exceeded', {
-      ip: req.ip,
-    })
-    response.error(res, 'Too many payment requests, please try again later', 429)
-  },
+// Rate limit for billing/payment: per user, by plan
+export const billingLimiter = policyLimiter('billing', (req, res) => {
+  logger.warn('Billing rate limit exceeded', {
+    ip: req.ip,
+  })
+  response.error(res, 'Too many payment requests, please try again later', 429)
 })
 
-// Rate limit for chat: 60 per minute
-export const chatLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 60,
-  message: 'Too many chat requests',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    logger.warn('Chat rate limit exceeded', {
-      ip: req.ip,
-      userId: (req as any).user?.userId,
-    })
-    response.error(res, 'Too many chat requests, please slow down', 429)
-  },
+// Rate limit for chat: per user, by plan
+export const chatLimiter = policyLimiter('chat', (req, res) => {
+  logger.warn('Chat rate limit exceeded', {
+    ip: req.ip,
+    userId: (req as any).user?.userId,
+  })
+  response.error(res, 'Too many chat requests, please slow down', 429)
 })
 
-// Rate limit for API key management: 20 per minute
-export const keysLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 20,
-  message: 'Too many API key requests',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    logger.warn('Keys rate limit exceeded', {
-      ip: req.ip,
-    })
-    response.error(res, 'Too many requests, please try again later', 429)
-  },
+// Rate limit for API key management: per user, by plan
+export const keysLimiter = policyLimiter('keys', (req, res) => {
+  logger.warn('Keys rate limit exceeded', {
+    ip: req.ip,
+  })
+  response.error(res, 'Too many requests, please try again later', 429)
 })
 
-// Rate limit for OpenAI-compatible API: 120 per minute
-export const openaiApiLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 120,
-  message: 'Too many API requests',
-  standardHeaders: true,
-  legacyHeaders: false,
-  keyGenerator: (req) => {
-    // Use API key as identifier if available, otherwise IP
-    const apiKey = req.headers.authorization?.replace('Bearer ', '')
-    return apiKey || req.ip || 'unknown'
-  },
-  handler: (req, res) => {
-    logger.warn('OpenAI API rate limit exceeded', {
-      ip: req.ip,
-    })
-    response.error(res, 'Rate limit exceeded. Please slow down.', 429)
-  },
+// Requests per minute on the OpenAI-compatible API: per API key, by plan
+const openaiRequestLimiter = policyLimiter('api', async (req: RateLimitedRequest, res) => {
+  const subject = await resolveRateLimitSubject(req)
+  logger.warn('OpenAI API rate limit exceeded', {
+    ip: req.ip,
+    apiKeyId: subject.apiKeyId,
+  })
+  setRequestHeaders(req, res)
+  openaiError(
+    res,
+    429,
+    `Rate limit reached for requests per min (RPM): limit ${req.rateLimit?.limit}. Please try again in ${formatResetDuration(req.rateLimit?.resetTime)}.`,
+    'requests',
+    'rate_limit_exceeded'
+  )
 })
+
+/**
+ * Tokens per minute on the OpenAI-compatible API, plus the x-ratelimit-* headers
+ * Tokens are counted after each completion (recordTokenUsage), so one large request can overshoot
+ */
+async function openaiTokenLimiter(req: Request, res: Response, next: NextFunction) {
+  setRequestHeaders(req, res)
+
+  try {
+    const subject = await resolveRateLimitSubject(req)
+    if (!subject.apiKeyId) return next() // apiKeyMiddleware rejects the request
+
+    const limit = getTokenLimit(subject.plan)
+    const { used, resetTime } = await getTokenUsage(subject.apiKeyId)
+    const remaining = Math.max(0, limit - used)
+
+    res.setHeader('x-ratelimit-limit-tokens', String(limit))
+    res.setHeader('x-ratelimit-remaining-tokens', String(remaining))
+    res.setHeader('x-ratelimit-reset-tokens', formatResetDuration(resetTime))
+
+    if (remaining === 0) {
+      logger.warn('OpenAI API token rate limit exceeded', { ip: req.ip, apiKeyId: subject.apiKeyId, used })
+      return openaiError(
+        res,
+        429,
+        `Rate limit reached for tokens per min (TPM): limit ${limit}, used ${used}. Please try again in ${formatResetDuration(resetTime)}.`,
+        'tokens',
+        'rate_limit_exceeded'
+      )
+    }
+
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+// Rate limits for the OpenAI-compatible API: requests, then tokens
+export const openaiApiLimiter = [openaiRequestLimiter, openaiTokenLimiter]
@@ -60,14 +60,24 @@ export function securityHeaders(_req: Request, res: Response, next: NextFunction
   next()
 }
 
+const BASE64_DATA_URL = /^data:[\w/+.-]+;base64,[A-Za-z0-9+/=\s]+$/
+const BASE64_DATA = /^[A-Za-z0-9+/\s]+={0,2}$/
+
 /**
  * Check for attack patterns in request
  */
 function containsAttackPattern(value: unknown): boolean {
   if (typeof value === 'string') {
+    // Base64 payloads (images sent to /v1/images/edits) are opaque and can match patterns like on\w+=
+    if (BASE64_DATA_URL.test(value)) return false
     return ATTACK_PATTERNS.some(pattern => pattern.test(value))
   }
   if (typeof value === 'object' && value !== null) {
+    // Same for Anthropic image sources ({ type: 'base64', media_type, data }) sent to /v1/messages
+    const source = value as Record<string, unknown>
+    if (source.type === 'base64' && typeof source.data === 'string' && BASE64_DATA.test(source.data)) {
+      return Object.entries(source).some(([key, v]) => key !== 'data' && containsAttackPattern(v))
+    }
     return Object.values(value).some(v => containsAttackPattern(v))
   }
   return false
@@ -1,3 +1,4 @@
+import { IsNull } from 'typeorm'
 import { ApiKey } from '../entities/api-key.entity'
 import { BaseRepository } from './base.repository'
 
@@ -38,8 +39,13 @@ export class ApiKeyRepository extends BaseRepository<ApiKey> {
     await this.repository.update(keyId, { lastUsedAt: new Date() })
   }
 
+  // Personal keys only; organization keys count against the organization
   async countByUserId(userId: string): Promise<number> {
-    return this.repository.count({ where: { userId, isActive: true } })
+    return this.repository.count({ where: { userId, organizationId: IsNull(), isActive: true } })
+  }
+
+  async countByOrganizationId(organizationId: string): Promise<number> {
+    return this.repository.count({ where: { organizationId, isActive: true } })
   }
 
   async deleteByUserId(userId: string, keyId: string): Promise<boolean> {
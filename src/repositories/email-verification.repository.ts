@@ -1,5 +1,5 @@
 import { LessThan, MoreThan } from 'typeorm'
-import { EmailVerification } from '../entities/email-verification.entity'
+import { EmailVerification, VerificationPurpose } from '../entities/email-verification.entity'
 import { BaseRepository } from './base.repository'
 
 /**
@@ -10,26 +10,39 @@ export class EmailVerificationRepository extends BaseRepository<EmailVerificatio
     super(EmailVerification)
   }
 
-  async findByUserId(userId: string): Promise<EmailVerification | null> {
+  async findByUserId(
+    userId: string,
+    purpose: VerificationPurpose = 'email_verification'
+  ): Promise<EmailVerification | null> {
     return this.repository.findOne({
-      where: { userId },
+      where: { userId, purpose },
       order: { createdAt: 'DESC' }
     })
   }
 
-  async findValidCode(userId: string, code: string): Promise<EmailVerification | null> {
+  async findValidCode(
+    userId: string,
+    code: string,
+    purpose: VerificationPurpose = 'email_verification'
+  ): Promise<EmailVerification | null> {
     return this.repository.findOne({
       where: {
         userId,
         code,
+        purpose,
         expiresAt: MoreThan(new Date())
       }
     })
   }
 
-  async createVerification(userId: string, code: string, expiresInMinutes = 15): Promise<EmailVerification> {
-    // Delete any existing verification for this user
-    await this.repository.delete({ userId })
+  async createVerification(
+    userId: string,
+    code: string,
+    expiresInMinutes = 15,
+    purpose: VerificationPurpose = 'email_verification'
+  ): Promise<EmailVerification> {
+    // Delete any existing code of the same purpose for this user
+    await this.repository.delete({ userId, purpose })
 
     const expiresAt = new Date()
     expiresAt.setMinutes(expiresAt.getMinutes() + expiresInMinutes)
@@ -37,12 +50,28 @@ export class EmailVerificationRepository extends BaseRepository<EmailVerificatio
     return this.create({
       userId,
       code,
+      purpose,
       expiresAt
     })
   }
 
-  async deleteByUserId(userId: string): Promise<void> {
-    await this.repository.delete({ userId })
+  // Without a purpose, deletes every code of the user
+  async deleteByUserId(userId: string, purpose?: VerificationPurpose): Promise<void> {
+    await this.repository.delete(purpose ? { userId, purpose } : { userId })
+  }
+
+  /**
+   * Count one guess at a code unless it already had `maxAttempts`
+   * Atomic, so parallel guesses cannot all read the same count; returns false once the limit is reached
+   */
+  async claimAttempt(id: string, maxAttempts: number): Promise<boolean> {
+    const result = await this.repository
+      .createQueryBuilder()
+      .update()
+      .set({ attempts: () => 'attempts + 1' })
+      .where('id = :id AND attempts < :maxAttempts', { id, maxAttempts })
+      .execute()
+    return (result.affected ?? 0) > 0
   }
 
   async deleteExpired(): Promise<number> {
@@ -52,8 +81,12 @@ export class EmailVerificationRepository extends BaseRepository<EmailVerificatio
     return result.affected ?? 0
   }
 
-  async isCodeValid(userId: string, code: string): Promise<boolean> {
-    const verification = await this.findValidCode(userId, code)
+  async isCodeValid(
+    userId: string,
+    code: string,
+    purpose: VerificationPurpose = 'email_verification'
+  ): Promise<boolean> {
+    const verification = await this.findValidCode(userId, code, purpose)
     return verification !== null
   }
 }
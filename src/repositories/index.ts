@@ -5,3 +5,4 @@ export * from './payment.repository'
 export * from './api-key.repository'
 export * from './email-verification.repository'
 export * from './post.repository'
+export * from './user-identity.repository'
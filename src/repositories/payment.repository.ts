@@ -1,3 +1,4 @@
+import { IsNull } from 'typeorm'
 import { Payment } from '../entities/payment.entity'
 import { BaseRepository } from './base.repository'
 
@@ -9,9 +10,18 @@ export class PaymentRepository extends BaseRepository<Payment> {
     super(Payment)
   }
 
+  // Personal purchases only; organization top-ups are listed by findByOrganizationId
   async findByUserId(userId: string, limit = 50): Promise<Payment[]> {
     return this.repository.find({
-      where: { userId },
+      where: { userId, organizationId: IsNull() },
+      order: { createdAt: 'DESC' },
+      take: limit
+    })
+  }
+
+  async findByOrganizationId(organizationId: string, limit = 50): Promise<Payment[]> {
+    return this.repository.find({
+      where: { organizationId },
       order: { createdAt: 'DESC' },
       take: limit
     })
@@ -0,0 +1,59 @@
+import { UserIdentity } from '../entities/user-identity.entity'
+import { BaseRepository } from './base.repository'
+
+/**
+ * Repository for UserIdentity entity operations
+ */
+export class UserIdentityRepository extends BaseRepository<UserIdentity> {
+  constructor() {
+    super(UserIdentity)
+  }
+
+  async findByProviderSubject(provider: string, subject: string): Promise<UserIdentity | null> {
+    return this.repository.findOne({ where: { provider, subject } })
+  }
+
+  async findByUserAndProvider(userId: string, provider: string): Promise<UserIdentity | null> {
+    return this.repository.findOne({ where: { userId, provider } })
+  }
+
+  async findByUserId(userId: string): Promise<UserIdentity[]> {
+    return this.repository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' }
+    })
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    return this.repository.count({ where: { userId } })
+  }
+
+  async touchLogin(id: string, email: string | null, emailVerified: boolean): Promise<void> {
+    await this.repository.update(id, { email, emailVerified, lastLoginAt: new Date() })
+  }
+
+  /**
+   * Move Google accounts stored on users.googleId (before user_identities existed) into the table
+   * The column is cleared once copied, so an unlinked account does not come back on the next start
+   */
+  async backfillGoogleIdentities(): Promise<number> {
+    const rows: Array<{ id: string }> = await this.repository.query(
+      `INSERT INTO user_identities ("userId", "provider", "subject", "email", "emailVerified")
+       SELECT u.id, 'google', u."googleId", u.email, true
+       FROM users u
+       WHERE u."googleId" IS NOT NULL
+         AND NOT EXISTS (SELECT 1 FROM user_identities i WHERE i."userId" = u.id AND i.provider = 'google')
+         AND NOT EXISTS (SELECT 1 FROM user_identities i WHERE i.provider = 'google' AND i.subject = u."googleId")
+       RETURNING id`
+    )
+    await this.repository.query(
+      `UPDATE users u SET "googleId" = NULL
+       WHERE u."googleId" IS NOT NULL
+         AND EXISTS (SELECT 1 FROM user_identities i WHERE i."userId" = u.id AND i.provider = 'google' AND i.subject = u."googleId")`
+    )
+    return rows.length
+  }
+}
+
+// Singleton instance
+export const userIdentityRepository = new UserIdentityRepository()
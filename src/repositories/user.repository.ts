@@ -74,12 +74,13 @@ export class UserRepository extends BaseRepository<User> {
     return { users, total }
   }
 
+  // Both bump tokenVersion so access tokens issued under the old role/status stop working
   async updateRole(userId: string, role: UserRole): Promise<void> {
-    await this.repository.update(userId, { role })
+    await this.repository.update(userId, { role, tokenVersion: () => '"tokenVersion" + 1' })
   }
 
   async setActiveStatus(userId: string, isActive: boolean): Promise<void> {
-    await this.repository.update(userId, { isActive })
+    await this.repository.update(userId, { isActive, tokenVersion: () => '"tokenVersion" + 1' })
   }
 
   async countByRole(role: UserRole): Promise<number> {
@@ -111,32 +112,16 @@ export class UserRepository extends BaseRepository<User> {
     return { total, active, pro, verified, admins }
   }
 
-  async findByGoogleId(googleId: string): Promise<User | null> {
-    return this.repository.findOne({ where: { googleId } })
-  }
-
   async findVerifiedByEmail(email: string): Promise<User | null> {
     return this.repository.findOne({
       where: { email, isEmailVerified: true }
     })
   }
 
-  async updateCredits(userId: string, creditsUsed: number, tokenBalance: number): Promise<void> {
-    await this.repository.update(userId, { creditsUsed, tokenBalance })
-  }
-
   async incrementCreditsUsed(userId: string, amount: number): Promise<void> {
     await this.repository.increment({ id: userId }, 'creditsUsed', amount)
   }
 
-  async decrementTokenBalance(userId: string, amount: number): Promise<void> {
-    await this.repository.decrement({ id: userId }, 'tokenBalance', amount)
-  }
-
-  async addTokenBalance(userId: string, amount: number): Promise<void> {
-    await this.repository.increment({ id: userId }, 'tokenBalance', amount)
-  }
-
   async setProStatus(userId: string, isPro: boolean, expiresAt: Date | null): Promise<void> {
     await this.repository.update(userId, { isPro, proExpiresAt: expiresAt })
   }
@@ -15,6 +15,23 @@ router.get('/users/:id', (req, res) => adminController.getUserById(req as AuthRe
 router.patch('/users/:id/role', (req, res) => adminController.updateUserRole(req as AuthRequest, res))
 router.patch('/users/:id/status', (req, res) => adminController.toggleUserStatus(req as AuthRequest, res))
 
+// ==================== CREDIT LEDGER ====================
+router.get('/users/:id/transactions', (req, res) => adminController.getUserTransactions(req as AuthRequest, res))
+router.post('/users/:id/balance/adjust', (req, res) => adminController.adjustUserBalance(req as AuthRequest, res))
+router.post('/users/:id/balance/rebuild', (req, res) => adminController.rebuildUserBalance(req as AuthRequest, res))
+router.post('/organizations/:id/balance/rebuild', (req, res) => adminController.rebuildOrganizationBalance(req as AuthRequest, res))
+router.get('/ledger/mismatches', (req, res) => adminController.getBalanceMismatches(req as AuthRequest, res))
+router.post('/ledger/reconcile', (req, res) => adminController.reconcileBalances(req as AuthRequest, res))
+
+// ==================== MODEL REGISTRY ====================
+router.get('/models', (req, res) => adminController.getModels(req as AuthRequest, res))
+router.post('/models', (req, res) => adminController.createModel(req as AuthRequest, res))
+router.patch('/models/:id', (req, res) => adminController.updateModel(req as AuthRequest, res))
+router.delete('/models/:id', (req, res) => adminController.deleteModel(req as AuthRequest, res))
+
+// ==================== API KEY RATE LIMITS ====================
+router.patch('/api-keys/:id/rate-limit-plan', (req, res) => adminController.setApiKeyRateLimitPlan(req as AuthRequest, res))
+
 // ==================== POST MANAGEMENT ====================
 router.get('/posts', (req, res) => adminController.getPosts(req as AuthRequest, res))
 router.get('/posts/:id', (req, res) => adminController.getPostById(req as AuthRequest, res))
@@ -0,0 +1,115 @@
+import { Router, Response } from 'express'
+import { apiKeyMiddleware, requireApiScope, ApiKeyRequest } from '../middlewares/apikey.middleware'
+import { releaseReservation } from '../services/credit-reservation.service'
+import {
+  prepareChatCompletion,
+  callChatUpstream,
+  readChatStream,
+  settleChatCompletion,
+  requestedChatModel,
+  ChatCompletionError,
+} from '../services/chat-completion.service'
+import { ForbiddenError, InsufficientQuotaError, NotFoundError } from '../errors/app.error'
+import { logger } from '../utils/logger'
+import { anthropicError } from '../utils/anthropic-error'
+import {
+  validateMessagesRequest,
+  toChatCompletionRequest,
+  toAnthropicMessage,
+  AnthropicStreamWriter,
+} from '../utils/anthropic-messages'
+import { UpstreamUsage } from '../utils/tokenizer'
+import { normalizeChatCompletion, ChatStreamAssembler } from '../utils/tool-calls'
+
+const router = Router()
+
+/**
+ * POST /v1/messages
+ * Anthropic-compatible Messages endpoint (x-api-key or Bearer auth)
+ * Same models, agents, Pro gating and billing as /v1/chat/completions
+ */
+router.post('/messages', apiKeyMiddleware, requireApiScope('chat:write', (req) => requestedChatModel(req.body)), async (req: ApiKeyRequest, res: Response) => {
+  let reservationId: string | null = null
+
+  try {
+    const invalidRequest = validateMessagesRequest(req.body || {})
+    if (invalidRequest) {
+      return anthropicError(res, 400, invalidRequest.message)
+    }
+
+    const prepared = await prepareChatCompletion({
+      apiUser: req.apiUser!,
+      body: toChatCompletionRequest(req.body),
+      format: 'anthropic',
+    })
+    reservationId = prepared.reservationId
+
+    const upstream = await callChatUpstream(prepared)
+    const model = prepared.aiModel.modelId
+
+    // Handle streaming response
+    if (prepared.stream) {
+      if (!upstream.body) {
+        await releaseReservation(prepared.reservationId, 'no_response_body')
+        return anthropicError(res, 500, 'No response body')
+      }
+
+      res.setHeader('Content-Type', 'text/event-stream')
+      res.setHeader('Cache-Control', 'no-cache')
+      res.setHeader('Connection', 'keep-alive')
+
+      let upstreamUsage: UpstreamUsage | null = null
+      // Normalises the upstream chunks (tool call fragments, finish reasons) before translation
+      const assembler = new ChatStreamAssembler()
+      const writer = new AnthropicStreamWriter((chunk) => res.write(chunk), { model, inputTokens: prepared.inputTokens })
+      writer.start()
+
+      try {
+        for await (const { data } of readChatStream(upstream.body)) {
+          if (!data) continue
+          assembler.push(data)
+          if (data.usage) upstreamUsage = data.usage
+          writer.push(data)
+        }
+
+        const usage = await settleChatCompletion(prepared, assembler.output, upstreamUsage)
+        writer.finish(usage.outputTokens)
+      } catch (error) {
+        logger.error('Messages stream error', error as Error)
+        await releaseReservation(prepared.reservationId, 'stream_error').catch(() => {})
+        writer.error('Stream failed')
+      }
+      res.end()
+    } else {
+      // Non-streaming response
+      const data = (await upstream.json()) as {
+        usage?: UpstreamUsage
+        choices?: unknown[]
+      }
+
+      const usage = await settleChatCompletion(prepared, normalizeChatCompletion(data), data.usage)
+      return res.json(toAnthropicMessage(data, model, {
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+      }))
+    }
+  } catch (error) {
+    if (error instanceof ChatCompletionError) {
+      return anthropicError(res, error.statusCode, error.message)
+    }
+    if (error instanceof InsufficientQuotaError) {
+      return anthropicError(res, 402, error.message)
+    }
+    // Organization keys whose creator left the organization, or whose organization is gone
+    if (error instanceof ForbiddenError || error instanceof NotFoundError) {
+      return anthropicError(res, error.statusCode, error.message)
+    }
+    if (reservationId) {
+      await releaseReservation(reservationId, 'internal_error').catch(() => {})
+    }
+    logger.error('Messages API error', error as Error)
+    return anthropicError(res, 500, 'Internal server error')
+  }
+})
+
+export default router
@@ -9,10 +9,27 @@ router.post('/register', (req, res) => authController.register(req, res))
 router.post('/verify-email', (req, res) => authController.verifyEmail(req, res))
 router.post('/resend-verification', (req, res) => authController.resendVerification(req, res))
 router.post('/login', (req, res) => authController.login(req, res))
+router.post('/refresh', (req, res) => authController.refresh(req, res))
+router.post('/2fa/verify', (req, res) => authController.verifyTwoFactor(req, res))
+router.post('/forgot-password', (req, res) => authController.forgotPassword(req, res))
+router.post('/reset-password', (req, res) => authController.resetPassword(req, res))
+router.get('/providers', (req, res) => authController.getProviders(req, res))
 
 // Protected routes
 router.get('/me', authMiddleware, (req, res) => authController.getMe(req as AuthRequest, res))
 router.put('/profile', authMiddleware, (req, res) => authController.updateProfile(req as AuthRequest, res))
+router.put('/password', authMiddleware, (req, res) => authController.changePassword(req as AuthRequest, res))
 router.delete('/account', authMiddleware, (req, res) => authController.deactivateAccount(req as AuthRequest, res))
+router.get('/2fa', authMiddleware, (req, res) => authController.getTwoFactor(req as AuthRequest, res))
+router.post('/2fa/setup', authMiddleware, (req, res) => authController.setupTwoFactor(req as AuthRequest, res))
+router.post('/2fa/enable', authMiddleware, (req, res) => authController.enableTwoFactor(req as AuthRequest, res))
+router.post('/2fa/disable', authMiddleware, (req, res) => authController.disableTwoFactor(req as AuthRequest, res))
+router.post('/2fa/recovery-codes', authMiddleware, (req, res) => authController.regenerateRecoveryCodes(req as AuthRequest, res))
+router.get('/identities', authMiddleware, (req, res) => authController.getIdentities(req as AuthRequest, res))
+router.delete('/identities/:provider', authMiddleware, (req, res) => authController.unlinkIdentity(req as AuthRequest, res))
+router.post('/logout', authMiddleware, (req, res) => authController.logout(req as AuthRequest, res))
+router.get('/sessions', authMiddleware, (req, res) => authController.getSessions(req as AuthRequest, res))
+router.delete('/sessions', authMiddleware, (req, res) => authController.revokeOtherSessions(req as AuthRequest, res))
+router.delete('/sessions/:id', authMiddleware, (req, res) => authController.revokeSession(req as AuthRequest, res))
 
 export default router
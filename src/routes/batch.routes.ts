@@ -0,0 +1,270 @@
+import express, { Router, Response } from 'express'
+import { apiKeyMiddleware, requireApiScope, ApiKeyRequest } from '../middlewares/apikey.middleware'
+import { ApiFile, ApiFilePurpose, API_FILE_PURPOSES, Batch } from '../entities'
+import {
+  createApiFile,
+  deleteApiFile,
+  formatApiFile,
+  getUserFile,
+  listUserFiles,
+  readApiFileParts,
+  ListPageInput,
+} from '../services/api-file.service'
+import {
+  createBatch,
+  cancelBatch,
+  batchScope,
+  formatBatch,
+  getUserBatch,
+  listUserBatches,
+  BatchRequestError,
+  BATCH_SCOPES,
+} from '../services/batch.service'
+import { ValidationError } from '../errors/app.error'
+import { validateBatchInput, MAX_BATCH_FILE_BYTES } from '../utils/batch-input'
+import { getMultipartBoundary, parseMultipart } from '../utils/multipart'
+import { validate } from '../utils/validation'
+import { logger } from '../utils/logger'
+import { openaiError } from '../utils/openai-error'
+
+const router = Router()
+
+const DEFAULT_PAGE_LIMIT = 20
+const MAX_PAGE_LIMIT = 100
+
+// Batch input files arrive as multipart uploads (the OpenAI SDKs' files.create); buffered for the parser
+const fileUploadParser = express.raw({ type: 'multipart/form-data', limit: MAX_BATCH_FILE_BYTES })
+
+// ?limit= and ?after= of the list endpoints
+function readPage(req: ApiKeyRequest): ListPageInput {
+  const limit = parseInt(String(req.query.limit ?? DEFAULT_PAGE_LIMIT))
+  const after = typeof req.query.after === 'string' && validate.isUUID(req.query.after) ? req.query.after : undefined
+  return {
+    limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_PAGE_LIMIT) : DEFAULT_PAGE_LIMIT,
+    after,
+  }
+}
+
+async function findFile(req: ApiKeyRequest, res: Response): Promise<ApiFile | null> {
+  const { id } = req.params
+  const file = validate.isUUID(id) ? await getUserFile(req.apiUser!, id) : null
+  if (!file) {
+    openaiError(res, 404, `No such File object: ${id}`, 'invalid_request_error', 'not_found', 'id')
+  }
+  return file
+}
+
+// A batch of the key's wallet, which the key may also run: keys without the batch endpoint's scope get 403
+async function findBatch(req: ApiKeyRequest, res: Response): Promise<Batch | null> {
+  const { id } = req.params
+  const batch = validate.isUUID(id) ? await getUserBatch(req.apiUser!, id) : null
+  if (!batch) {
+    openaiError(res, 404, `No batch found with id '${id}'`, 'invalid_request_error', 'not_found', 'id')
+    return null
+  }
+  const scope = batchScope(batch)
+  if (!req.apiUser!.scopes.includes(scope)) {
+    openaiError(res, 403, `This API key does not have the required scope: ${scope}.`, 'permission_error', 'insufficient_scope')
+    return null
+  }
+  return batch
+}
+
+/**
+ * POST /v1/files
+ * Upload a JSONL batch input file (multipart: file, purpose=batch)
+ */
+router.post('/files', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), fileUploadParser, async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const boundary = getMultipartBoundary(req.get('content-type'))
+    if (!boundary || !Buffer.isBuffer(req.body)) {
+      return openaiError(res, 400, 'Files must be uploaded as multipart/form-data', 'invalid_request_error', 'invalid_request')
+    }
+    const form = parseMultipart(req.body, boundary)
+
+    if (form.fields.purpose !== 'batch') {
+      return openaiError(res, 400, "purpose must be 'batch'", 'invalid_request_error', 'invalid_value', 'purpose')
+    }
+    const upload = form.files.find((file) => file.fieldName === 'file')
+    if (!upload) {
+      return openaiError(res, 400, 'file is required', 'invalid_request_error', 'invalid_value', 'file')
+    }
+
+    // Reject malformed files now rather than as a failed batch later
+    const input = validateBatchInput(upload.data)
+    if (input.errors.length) {
+      const [first] = input.errors
+      return openaiError(
+        res,
+        400,
+        first.line ? `Line ${first.line}: ${first.message}` : first.message,
+        'invalid_request_error',
+        first.code,
+        'file'
+      )
+    }
+
+    const file = await createApiFile({
+      userId: req.apiUser!.userId,
+      organizationId: req.apiUser!.organizationId ?? null,
+      purpose: 'batch',
+      filename: upload.filename.slice(0, 255) || 'batch.jsonl',
+      content: upload.data,
+    })
+    return res.json(formatApiFile(file))
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return openaiError(res, 400, error.message, 'invalid_request_error', 'invalid_request')
+    }
+    logger.error('File upload error', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * GET /v1/files
+ * List uploaded and batch result files
+ */
+router.get('/files', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const purpose = req.query.purpose as ApiFilePurpose | undefined
+    if (purpose !== undefined && !API_FILE_PURPOSES.includes(purpose)) {
+      return openaiError(res, 400, `purpose must be one of ${API_FILE_PURPOSES.join(', ')}`, 'invalid_request_error', 'invalid_value', 'purpose')
+    }
+    return res.json(await listUserFiles(req.apiUser!, readPage(req), purpose))
+  } catch (error) {
+    logger.error('Failed to list files', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * GET /v1/files/:id
+ * Retrieve a file object
+ */
+router.get('/files/:id', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const file = await findFile(req, res)
+    if (!file) return
+    return res.json(formatApiFile(file))
+  } catch (error) {
+    logger.error('Failed to get file', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * GET /v1/files/:id/content
+ * Download file contents (JSONL)
+ */
+router.get('/files/:id/content', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const file = await findFile(req, res)
+    if (!file) return
+
+    // Sent part by part; large result files are never loaded whole
+    for await (const part of readApiFileParts(file)) {
+      if (!res.headersSent) {
+        res.setHeader('Content-Type', 'application/jsonl; charset=utf-8')
+        res.setHeader('Content-Disposition', `attachment; filename="${file.filename.replace(/["\\\r\n]/g, '_')}"`)
+      }
+      res.write(part)
+    }
+    if (!res.headersSent) {
+      return openaiError(res, 404, `The contents of file ${file.id} are no longer available`, 'invalid_request_error', 'not_found', 'id')
+    }
+    return res.end()
+  } catch (error) {
+    logger.error('Failed to read file', error as Error)
+    if (res.headersSent) return res.destroy()
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * DELETE /v1/files/:id
+ * Delete a file and its contents
+ */
+router.delete('/files/:id', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const file = await findFile(req, res)
+    if (!file) return
+
+    await deleteApiFile(file)
+    return res.json({ id: file.id, object: 'file', deleted: true })
+  } catch (error) {
+    logger.error('Failed to delete file', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * POST /v1/batches
+ * Run every request of an uploaded input file in the background
+ */
+router.post('/batches', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const { input_file_id, endpoint, completion_window, metadata } = req.body || {}
+    const batch = await createBatch(req.apiUser!, {
+      inputFileId: input_file_id,
+      endpoint,
+      completionWindow: completion_window,
+      metadata,
+    })
+    return res.json(formatBatch(batch))
+  } catch (error) {
+    if (error instanceof BatchRequestError) {
+      return openaiError(res, error.statusCode, error.message, error.type, error.code, error.param)
+    }
+    logger.error('Batch creation error', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * GET /v1/batches
+ * List batches, newest first
+ */
+router.get('/batches', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    return res.json(await listUserBatches(req.apiUser!, readPage(req)))
+  } catch (error) {
+    logger.error('Failed to list batches', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * GET /v1/batches/:id
+ * Status, request counts and result files of a batch
+ */
+router.get('/batches/:id', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const batch = await findBatch(req, res)
+    if (!batch) return
+    return res.json(formatBatch(batch))
+  } catch (error) {
+    logger.error('Failed to get batch', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * POST /v1/batches/:id/cancel
+ * Cancel a batch; requests already running finish and are billed
+ */
+router.post('/batches/:id/cancel', apiKeyMiddleware, requireApiScope(BATCH_SCOPES), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const batch = await findBatch(req, res)
+    if (!batch) return
+    return res.json(formatBatch(await cancelBatch(batch)))
+  } catch (error) {
+    if (error instanceof BatchRequestError) {
+      return openaiError(res, error.statusCode, error.message, error.type, error.code, error.param)
+    }
+    logger.error('Batch cancel error', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+export default router
@@ -1,14 +1,17 @@
 import { Router } from 'express'
 import { billingController } from '../controllers/billing.controller'
 import { authMiddleware, AuthRequest } from '../middlewares/auth.middleware'
+import { organizationContext, requireOrganizationRole } from '../middlewares/organization.middleware'
 
 const router = Router()
 
-// Protected routes
-router.get('/history', authMiddleware, (req, res) => billingController.getHistory(req as AuthRequest, res))
-router.post('/create', authMiddleware, (req, res) => billingController.createPayment(req as AuthRequest, res))
-router.get('/check/:transactionId', authMiddleware, (req, res) => billingController.checkStatus(req as AuthRequest, res))
-router.get('/detail/:paymentId', authMiddleware, (req, res) => billingController.getPaymentDetail(req as AuthRequest, res))
+// Protected routes - X-Organization-Id buys for / reads the organization's pool
+const payer = [authMiddleware, organizationContext, requireOrganizationRole('owner', 'admin', 'billing')]
+
+router.get('/history', ...payer, (req, res) => billingController.getHistory(req as AuthRequest, res))
+router.post('/create', ...payer, (req, res) => billingController.createPayment(req as AuthRequest, res))
+router.get('/check/:transactionId', ...payer, (req, res) => billingController.checkStatus(req as AuthRequest, res))
+router.get('/detail/:paymentId', ...payer, (req, res) => billingController.getPaymentDetail(req as AuthRequest, res))
 
 // Public webhook route
 router.post('/webhook', (req, res) => billingController.handleWebhook(req, res))
@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import { conversationController } from '../controllers/conversation.controller'
+import { chatController } from '../controllers/chat.controller'
 import { authMiddleware, AuthRequest } from '../middlewares/auth.middleware'
 
 const router = Router()
@@ -7,8 +8,14 @@ const router = Router()
 // All routes are protected
 router.get('/', authMiddleware, (req, res) => conversationController.list(req as AuthRequest, res))
 router.post('/', authMiddleware, (req, res) => conversationController.create(req as AuthRequest, res))
+router.get('/search', authMiddleware, (req, res) => conversationController.search(req as AuthRequest, res))
 router.get('/:id', authMiddleware, (req, res) => conversationController.get(req as AuthRequest, res))
 router.put('/:id', authMiddleware, (req, res) => conversationController.update(req as AuthRequest, res))
 router.delete('/:id', authMiddleware, (req, res) => conversationController.delete(req as AuthRequest, res))
 
+// Branching: edit and regenerate fork the tree, branch switches which path is shown
+router.put('/:id/branch', authMiddleware, (req, res) => conversationController.switchBranch(req as AuthRequest, res))
+router.put('/:id/messages/:messageId', authMiddleware, (req, res) => chatController.editMessage(req as AuthRequest, res))
+router.post('/:id/messages/:messageId/regenerate', authMiddleware, (req, res) => chatController.regenerate(req as AuthRequest, res))
+
 export default router
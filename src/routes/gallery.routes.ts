@@ -0,0 +1,23 @@
+import { Router } from 'express'
+import { galleryController } from '../controllers/gallery.controller'
+import { authMiddleware, AuthRequest } from '../middlewares/auth.middleware'
+
+const router = Router()
+
+// All routes are protected
+router.get('/', authMiddleware, (req, res) => galleryController.list(req as AuthRequest, res))
+router.post('/delete', authMiddleware, (req, res) => galleryController.bulkDelete(req as AuthRequest, res))
+
+// Collections (before /:id so they are not captured as item ids)
+router.get('/collections', authMiddleware, (req, res) => galleryController.listCollections(req as AuthRequest, res))
+router.post('/collections', authMiddleware, (req, res) => galleryController.createCollection(req as AuthRequest, res))
+router.patch('/collections/:id', authMiddleware, (req, res) => galleryController.updateCollection(req as AuthRequest, res))
+router.delete('/collections/:id', authMiddleware, (req, res) => galleryController.deleteCollection(req as AuthRequest, res))
+router.post('/collections/:id/items', authMiddleware, (req, res) => galleryController.addCollectionItems(req as AuthRequest, res))
+router.delete('/collections/:id/items/:itemId', authMiddleware, (req, res) => galleryController.removeCollectionItem(req as AuthRequest, res))
+
+router.get('/:id', authMiddleware, (req, res) => galleryController.get(req as AuthRequest, res))
+router.put('/:id/favorite', authMiddleware, (req, res) => galleryController.favorite(req as AuthRequest, res))
+router.delete('/:id/favorite', authMiddleware, (req, res) => galleryController.unfavorite(req as AuthRequest, res))
+
+export default router
@@ -6,5 +6,9 @@ const router = Router()
 
 router.post('/', authMiddleware, (req, res) => generateController.createTask(req as AuthRequest, res))
 router.get('/status', authMiddleware, (req, res) => generateController.getStatus(req as AuthRequest, res))
+router.get('/jobs', authMiddleware, (req, res) => generateController.listJobs(req as AuthRequest, res))
+router.get('/jobs/:id', authMiddleware, (req, res) => generateController.getJob(req as AuthRequest, res))
+router.get('/webhook-secret', authMiddleware, (req, res) => generateController.getWebhookSecret(req as AuthRequest, res))
+router.post('/webhook-secret/rotate', authMiddleware, (req, res) => generateController.rotateWebhookSecret(req as AuthRequest, res))
 
 export default router
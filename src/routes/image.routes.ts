@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express'
+import { response } from '../utils/response'
+import { validate } from '../utils/validation'
+import { logger } from '../utils/logger'
+import { findStoredImage, readStoredImage, verifyImageSignature } from '../services/image-storage.service'
+
+const router = Router()
+
+/**
+ * GET /api/images/:id?expires=&signature=
+ * Serve a stored image - the signature is the credential, no auth header needed
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params
+    const expires = Number(req.query.expires)
+    const signature = req.query.signature as string
+
+    if (!validate.isUUID(id) || !verifyImageSignature(id, expires, signature)) {
+      return response.forbidden(res, 'Invalid or expired image URL')
+    }
+
+    const image = await findStoredImage(id)
+    if (!image) {
+      return response.notFound(res, 'Image not found')
+    }
+
+    const body = await readStoredImage(image)
+    if (!body) {
+      return response.notFound(res, 'Image not found')
+    }
+
+    // Cache no longer than the signature is valid
+    const maxAge = Math.max(0, expires - Math.floor(Date.now() / 1000))
+    res.setHeader('Content-Type', image.contentType)
+    res.setHeader('Content-Length', body.length)
+    res.setHeader('Cache-Control', `private, max-age=${maxAge}, immutable`)
+    res.setHeader('ETag', `"${image.sha256}"`)
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+    return res.send(body)
+  } catch (error) {
+    logger.error('Serve image error', error as Error)
+    return response.serverError(res, 'Failed to load image')
+  }
+})
+
+export default router
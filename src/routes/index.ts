@@ -10,3 +10,6 @@ export { default as adminRoutes } from './admin.routes'
 export { default as articleImageRoutes } from './article-image.routes'
 export { default as blogRoutes } from './blog.routes'
 export { default as conversationRoutes } from './conversation.routes'
+export { default as imageRoutes } from './image.routes'
+export { default as galleryRoutes } from './gallery.routes'
+export { default as organizationRoutes } from './organization.routes'
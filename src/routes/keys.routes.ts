@@ -1,12 +1,21 @@
 import { Router } from 'express'
 import { keysController } from '../controllers/keys.controller'
 import { authMiddleware, AuthRequest } from '../middlewares/auth.middleware'
+import { organizationContext, requireOrganizationRole } from '../middlewares/organization.middleware'
 
 const router = Router()
 
-router.get('/', authMiddleware, (req, res) => keysController.getKeys(req as AuthRequest, res))
-router.get('/:id/reveal', authMiddleware, (req, res) => keysController.revealKey(req as AuthRequest, res))
-router.post('/', authMiddleware, (req, res) => keysController.createKey(req as AuthRequest, res))
-router.delete('/:id', authMiddleware, (req, res) => keysController.deleteKey(req as AuthRequest, res))
+// X-Organization-Id manages the organization's keys: any member may list them, owners/admins change them
+router.use(authMiddleware, organizationContext)
+const keyManager = requireOrganizationRole('owner', 'admin')
+
+router.get('/', (req, res) => keysController.getKeys(req as AuthRequest, res))
+router.get('/:id/usage', (req, res) => keysController.getKeyUsage(req as AuthRequest, res))
+router.get('/:id/audit', (req, res) => keysController.getKeyAudit(req as AuthRequest, res))
+router.get('/:id/reveal', keyManager, (req, res) => keysController.revealKey(req as AuthRequest, res))
+router.post('/', keyManager, (req, res) => keysController.createKey(req as AuthRequest, res))
+router.post('/:id/rotate', keyManager, (req, res) => keysController.rotateKey(req as AuthRequest, res))
+router.patch('/:id', keyManager, (req, res) => keysController.updateKey(req as AuthRequest, res))
+router.delete('/:id', keyManager, (req, res) => keysController.deleteKey(req as AuthRequest, res))
 
 export default router
@@ -0,0 +1,244 @@
+import { Router, Request, Response } from 'express'
+import crypto from 'crypto'
+import { authService, LoginResponse } from '../services/auth.service'
+import {
+  getOAuthProvider,
+  createAuthorizationRequest,
+  completeAuthorization,
+  verifyIdToken,
+  identityFromClaims,
+} from '../services/oidc.service'
+import { getKeyValueStore } from '../services/kv-store'
+import { authMiddleware, AuthRequest } from '../middlewares/auth.middleware'
+import { response } from '../utils/response'
+import { logger } from '../utils/logger'
+import { AppError, ConflictError } from '../errors/app.error'
+
+const router = Router()
+
+// SECURITY: OAuth state lives in the shared store so any instance can finish the callback
+const OAUTH_STATE_EXPIRY_MS = 10 * 60 * 1000 // 10 minutes
+const oauthStateKey = (nonce: string) => `oauth_state:${nonce}`
+
+// SECURITY: tokens never travel in the redirect URL (history, logs, Referer); the frontend
+// trades this one-time code for them with POST /api/auth/oauth/exchange
+const LOGIN_CODE_EXPIRY_MS = 60 * 1000 // 1 minute
+const loginCodeKey = (code: string) => `oauth_login:${code}`
+
+// Kept server-side until the callback; the provider only sees the random state
+interface OAuthState {
+  provider: string
+  redirectUrl: string
+  codeVerifier: string
+  nonce: string
+  // Set when a signed-in user is linking another account
+  linkUserId?: string
+}
+
+// Allowed frontend URLs for redirect after OAuth
+const ALLOWED_FRONTENDS = (process.env.ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',')
+  .map(url => url.trim())
+const DEFAULT_FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
+
+// Get valid frontend URL from query param, referer, or default
+function getRedirectUrl(req: Request): string {
+  // Priority 1: Check redirect_uri query parameter (passed from frontend)
+  const redirectUri = req.query.redirect_uri as string
+  if (redirectUri && ALLOWED_FRONTENDS.includes(redirectUri)) {
+    return redirectUri
+  }
+
+  // Priority 2: Check referer/origin header
+  const referer = req.get('referer') || req.get('origin') || ''
+  for (const allowed of ALLOWED_FRONTENDS) {
+    if (referer.startsWith(allowed)) {
+      return allowed
+    }
+  }
+
+  return DEFAULT_FRONTEND_URL
+}
+
+/**
+ * Store the state for a new authorization and return the provider URL to send the browser to
+ * SECURITY: random state against CSRF, PKCE against code interception, nonce against ID token replay
+ */
+async function startAuthorization(
+  providerId: string,
+  redirectUrl: string,
+  linkUserId?: string
+): Promise<string> {
+  const provider = getOAuthProvider(providerId)
+  const state = crypto.randomBytes(32).toString('hex')
+  const request = await createAuthorizationRequest(provider, state)
+
+  const stored: OAuthState = {
+    provider: provider.id,
+    redirectUrl,
+    codeVerifier: request.codeVerifier,
+    nonce: request.nonce,
+    ...(linkUserId ? { linkUserId } : {}),
+  }
+  await getKeyValueStore().set(oauthStateKey(state), stored, OAUTH_STATE_EXPIRY_MS)
+
+  logger.debug('OAuth initiated', { provider: provider.id, redirectUrl, link: !!linkUserId, statePrefix: state.substring(0, 8) })
+  return request.url
+}
+
+/**
+ * GET /api/auth/oauth/:provider (and the legacy GET /api/auth/google)
+ * Redirects the browser to the provider's sign-in page
+ */
+async function beginSignIn(providerId: string, req: Request, res: Response) {
+  try {
+    res.redirect(await startAuthorization(providerId, getRedirectUrl(req)))
+  } catch (error) {
+    logger.error('Failed to start OAuth sign-in', error as Error)
+    res.redirect(`${DEFAULT_FRONTEND_URL}?error=${providerId === 'google' ? 'google' : 'oauth'}_auth_failed`)
+  }
+}
+
+/**
+ * GET /api/auth/oauth/:provider/callback (and the legacy GET /api/auth/google/callback)
+ * Finishes sign-in or linking and redirects to the frontend
+ */
+async function finishAuthorization(providerId: string, req: Request, res: Response) {
+  const state = typeof req.query.state === 'string' ? req.query.state : ''
+
+  // Taken from the store in one step (one-time use); expired state reads as missing
+  const stored = /^[0-9a-f]{64}$/.test(state)
+    ? await getKeyValueStore().take<OAuthState>(oauthStateKey(state)).catch(() => null)
+    : null
+  const failure = `${providerId === 'google' ? 'google' : 'oauth'}_auth_failed`
+
+  if (!stored || stored.provider !== providerId) {
+    logger.warn('OAuth callback without valid state', { ip: req.ip, provider: providerId })
+    return res.redirect(`${DEFAULT_FRONTEND_URL}?error=${failure}`)
+  }
+
+  // Use stored redirect URL, re-checked against the allow list
+  const frontendUrl = ALLOWED_FRONTENDS.includes(stored.redirectUrl) ? stored.redirectUrl : DEFAULT_FRONTEND_URL
+  const code = req.query.code
+  if (typeof code !== 'string' || !code) {
+    return res.redirect(`${frontendUrl}?error=${failure}`)
+  }
+
+  const metadata = { ip: req.ip, userAgent: req.get('user-agent') }
+
+  try {
+    const identity = await completeAuthorization(getOAuthProvider(providerId), code, stored)
+
+    if (stored.linkUserId) {
+      await authService.linkIdentity(stored.linkUserId, identity, metadata)
+      return res.redirect(`${frontendUrl}/auth/callback?linked=${providerId}`)
+    }
+
+    const result = await authService.loginWithIdentity(identity, metadata)
+
+    // Provider did not verify the email; the frontend asks for the emailed code
+    if ('requiresVerification' in result) {
+      return res.redirect(`${frontendUrl}/auth/callback?verifyEmail=${encodeURIComponent(result.email)}`)
+    }
+
+    if ('requiresTwoFactor' in result) {
+      // 2FA accounts finish signing in at /api/auth/2fa/verify with the challenge token from the exchange
+      logger.info('OAuth sign-in awaiting second factor', { provider: providerId, redirectTo: frontendUrl })
+    } else {
+      logger.info('User logged in via OAuth', { userId: result.user.id, provider: providerId, redirectTo: frontendUrl })
+    }
+
+    // Redirect to frontend with a one-time code for the tokens (or the 2FA challenge token)
+    const loginCode = crypto.randomBytes(32).toString('hex')
+    await getKeyValueStore().set(loginCodeKey(loginCode), result, LOGIN_CODE_EXPIRY_MS)
+    res.redirect(`${frontendUrl}/auth/callback?loginCode=${loginCode}`)
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return res.redirect(`${frontendUrl}?error=${stored.linkUserId ? 'already_linked' : 'account_exists'}`)
+    }
+    logger.error('OAuth callback error', error as Error)
+    res.redirect(`${frontendUrl}?error=${failure}`)
+  }
+}
+
+router.get('/oauth/:provider', (req, res) => beginSignIn(req.params.provider, req, res))
+router.get('/oauth/:provider/callback', (req, res) => finishAuthorization(req.params.provider, req, res))
+
+/**
+ * POST /api/auth/oauth/exchange
+ * Trade the one-time loginCode from the callback redirect for the access and refresh tokens,
+ * or for { requiresTwoFactor, challengeToken } when the account uses 2FA
+ */
+router.post('/oauth/exchange', async (req: Request, res: Response) => {
+  try {
+    const loginCode = req.body?.loginCode
+    // Taken from the store in one step, so a code works once
+    const result = typeof loginCode === 'string' && /^[0-9a-f]{64}$/.test(loginCode)
+      ? await getKeyValueStore().take<LoginResponse>(loginCodeKey(loginCode))
+      : null
+    if (!result) {
+      return response.unauthorized(res, 'Invalid or expired login code')
+    }
+    return response.success(res, result)
+  } catch (error) {
+    logger.error('OAuth login code exchange error', error as Error)
+    return response.serverError(res, 'Failed to complete sign-in')
+  }
+})
+
+/**
+ * POST /api/auth/oauth/:provider/link
+ * Start linking another sign-in account; the frontend sends the browser to authorizationUrl
+ */
+router.post('/oauth/:provider/link', authMiddleware, async (req, res) => {
+  const authReq = req as AuthRequest
+
+  try {
+    const authorizationUrl = await startAuthorization(req.params.provider, getRedirectUrl(req), authReq.user!.userId)
+    response.success(res, { authorizationUrl })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return response.error(res, error.message, error.statusCode, { code: error.code })
+    }
+    logger.error('Failed to start account linking', error as Error)
+    response.serverError(res, 'Failed to start account linking')
+  }
+})
+
+// Google URLs registered before the generic routes existed
+router.get('/google', (req, res) => beginSignIn('google', req, res))
+router.get('/google/callback', (req, res) => finishAuthorization('google', req, res))
+
+/**
+ * POST /api/auth/google/token
+ * Exchange Google ID token for JWT (for frontend Google Sign-In)
+ */
+router.post('/google/token', async (req: Request, res: Response) => {
+  try {
+    const { credential } = req.body
+
+    if (!credential || typeof credential !== 'string') {
+      return response.badRequest(res, 'Google credential is required')
+    }
+
+    // SECURITY: the audience is always the server-side GOOGLE_CLIENT_ID, never client-provided
+    // This prevents token swapping attacks from other Google apps
+    const provider = getOAuthProvider('google')
+    const claims = await verifyIdToken(provider, credential)
+
+    const result = await authService.loginWithIdentity(identityFromClaims(provider, claims), {
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    })
+
+    return response.success(res, result)
+  } catch (error) {
+    if (error instanceof AppError) {
+      return response.error(res, error.message, error.statusCode, { code: error.code })
+    }
+    logger.error('Google token exchange error', error as Error)
+    return response.serverError(res, 'Google authentication failed')
+  }
+})
+
+export default router
@@ -1,241 +1,120 @@
-import { Router, Response } from 'express'
-import { apiKeyMiddleware, ApiKeyRequest } from '../middlewares/apikey.middleware'
-import { logUsage, updateUserCredits } from '../services/usage.service'
-import { createTask, getTaskStatus } from '../services/kie-api.service'
+import express, { Router, Response } from 'express'
+import { apiKeyMiddleware, requireApiScope, isModelAllowed, ApiKeyRequest } from '../middlewares/apikey.middleware'
+import { KIE_IMAGE_MODEL } from '../services/kie-api.service'
+import { releaseReservation } from '../services/credit-reservation.service'
+import {
+  prepareChatCompletion,
+  callChatUpstream,
+  readChatStream,
+  settleChatCompletion,
+  requestedChatModel,
+  ChatCompletionError,
+} from '../services/chat-completion.service'
+import { AppError, ForbiddenError, InsufficientQuotaError, NotFoundError, ValidationError } from '../errors/app.error'
+import {
+  generateImages,
+  parseImageOptions,
+  parsePrompt,
+  parseAsyncOptions,
+  resolveInputImages,
+  startImageJobs,
+  ImageParamError,
+  ImageRequestBody,
+  VARIATION_PROMPT,
+} from '../services/openai-image.service'
+import { getUserJob, formatApiJob } from '../services/generation-job.service'
+import { getMultipartBoundary, parseMultipart } from '../utils/multipart'
+import { validate } from '../utils/validation'
 import { logger } from '../utils/logger'
-import { AGENTS, AgentId, isProAgent } from '../services/gemini-chat.service'
+import { openaiError, openaiQuotaError, openaiModelNotFound } from '../utils/openai-error'
+import { UpstreamUsage } from '../utils/tokenizer'
+import { normalizeChatCompletion, ChatStreamAssembler } from '../utils/tool-calls'
+import { AGENTS } from '../services/gemini-chat.service'
+import { findEnabledModel, getEnabledModels, formatModel } from '../services/model-registry.service'
 
 const router = Router()
 
-const KIE_API_URL = 'https://api.kie.ai'
-const KIE_API_KEY = process.env.KIE_API_KEY || ''
-
-// Image generation pricing (per image)
-const IMAGE_PRICE = 0.02
-
-// Pricing per 1K tokens
-const TOKEN_PRICE_PER_1K = 0.001
-
-function calculateCost(tokens: number): number {
-  return (tokens / 1000) * TOKEN_PRICE_PER_1K
-}
-
-// Get current date context for system prompt
-function getDateContext(): string {
-  const now = new Date()
-  const options: Intl.DateTimeFormatOptions = {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-    timeZone: 'Asia/Ho_Chi_Minh',
-  }
-  const dateStr = now.toLocaleDateString('en-US', options)
-  const timeStr = now.toLocaleTimeString('en-US', { timeZone: 'Asia/Ho_Chi_Minh', hour: '2-digit', minute: '2-digit' })
-  return `Current date and time: ${dateStr}, ${timeStr} (Vietnam Time, UTC+7).`
-}
-
 /**
  * POST /v1/chat/completions
  * OpenAI-compatible chat completions endpoint
  * Supports custom agent parameter for specialized AI assistants
  */
-router.post('/chat/completions', apiKeyMiddleware, async (req: ApiKeyRequest, res: Response) => {
-  try {
-    const { model, messages, stream, tools, response_format, agent, ...otherParams } = req.body
-
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
-      return res.status(400).json({
-        error: {
-          message: 'messages is required and must be a non-empty array',
-          type: 'invalid_request_error',
-          code: 'invalid_messages',
-        },
-      })
-    }
-
-    // Validate message array size
-    if (messages.length > 100) {
-      return res.status(400).json({
-        error: {
-          message: 'Too many messages (max 100)',
-          type: 'invalid_request_error',
-          code: 'too_many_messages',
-        },
-      })
-    }
-
-    // Validate message content sizes
-    for (const msg of messages) {
-      if (typeof msg.content === 'string' && msg.content.length > 100000) {
-        return res.status(400).json({
-          error: {
-            message: 'Message content too long (max 100000 characters)',
-            type: 'invalid_request_error',
-            code: 'content_too_long',
-          },
-        })
-      }
-    }
-
-    // Check if using a Pro agent
-    const agentId = agent as AgentId | undefined
-    if (agentId && isProAgent(agentId)) {
-      const user = req.apiUser!.user
-      const hasProAccess = user.isPro && (!user.proExpiresAt || new Date(user.proExpiresAt) > new Date())
-      if (!hasProAccess) {
-        return res.status(403).json({
-          error: {
-            message: 'Pro subscription required to use this agent',
-            type: 'insufficient_quota',
-            code: 'pro_required',
-          },
-        })
-      }
-    }
-
-    // Build messages with agent system prompt if specified
-    let finalMessages = [...messages]
-    if (agentId && AGENTS[agentId]) {
-      const agentConfig = AGENTS[agentId]
-      const systemPrompt = `${agentConfig.systemPrompt}\n\n${getDateContext()}`
-
-      // Check if first message is already a system message
-      if (finalMessages[0]?.role === 'system') {
-        finalMessages[0].content = `${systemPrompt}\n\n${finalMessages[0].content}`
-      } else {
-        finalMessages = [{ role: 'system', content: systemPrompt }, ...finalMessages]
-      }
-    }
-
-    // Determine KIE endpoint based on model
-    let endpoint = `${KIE_API_URL}/gemini-3-pro/v1/chat/completions`
-    if (model?.includes('gpt')) {
-      endpoint = `${KIE_API_URL}/openai/v1/chat/completions`
-    } else if (model?.includes('claude')) {
-      endpoint = `${KIE_API_URL}/anthropic/v1/chat/completions`
-    } else if (model?.includes('gemini-2')) {
-      endpoint = `${KIE_API_URL}/gemini-2.5-pro/v1/chat/completions`
-    }
-
-    const kiePayload = {
-      model: model || 'gemini-3-pro',
-      messages: finalMessages,
-      stream: stream || false,
-      ...(tools && { tools }),
-      ...(response_format && { response_format }),
-      ...otherParams,
-    }
-
-    logger.debug('OpenAI API request', {
-      userId: req.apiUser!.userId,
-      model: kiePayload.model,
-      agent: agentId,
-      stream: kiePayload.stream,
-    })
+router.post('/chat/completions', apiKeyMiddleware, requireApiScope('chat:write', (req) => requestedChatModel(req.body)), async (req: ApiKeyRequest, res: Response) => {
+  let reservationId: string | null = null
 
-    const kieResponse = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${KIE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(kiePayload),
-    })
+  try {
+    const prepared = await prepareChatCompletion({ apiUser: req.apiUser!, body: req.body })
+    reservationId = prepared.reservationId
 
-    if (!kieResponse.ok) {
-      const errorData = await kieResponse.json().catch(() => ({}))
-      logger.error('KIE API error', { status: kieResponse.status, error: errorData })
-      return res.status(kieResponse.status).json({
-        error: {
-          message: (errorData as { message?: string }).message || 'Upstream API error',
-          type: 'api_error',
-          code: 'upstream_error',
-        },
-      })
-    }
+    const kieResponse = await callChatUpstream(prepared)
 
     // Handle streaming response
-    if (stream) {
+    if (prepared.stream) {
       res.setHeader('Content-Type', 'text/event-stream')
       res.setHeader('Cache-Control', 'no-cache')
       res.setHeader('Connection', 'keep-alive')
 
-      const reader = kieResponse.body?.getReader()
-      if (!reader) {
+      if (!kieResponse.body) {
+        await releaseReservation(prepared.reservationId, 'no_response_body')
         return res.status(500).json({ error: { message: 'No response body' } })
       }
 
-      const decoder = new TextDecoder()
-      let totalContent = ''
+      let upstreamUsage: UpstreamUsage | null = null
+      // Text and tool call fragments, normalised to OpenAI deltas before forwarding
+      const assembler = new ChatStreamAssembler()
 
       try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          const chunk = decoder.decode(value, { stream: true })
-          res.write(chunk)
-
-          // Extract content for token estimation
-          const lines = chunk.split('\n')
-          for (const line of lines) {
-            if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-              try {
-                const data = JSON.parse(line.slice(6))
-                const content = data.choices?.[0]?.delta?.content
-                if (content) totalContent += content
-              } catch {
-                // Skip parse errors
-              }
-            }
+        // Forward whole SSE lines so events split across reads are still parsed
+        for await (const { line, data } of readChatStream(kieResponse.body)) {
+          if (!data) {
+            // Forward lines we cannot parse unchanged
+            res.write(`${line}\n`)
+            continue
+          }
+          assembler.push(data)
+          if (data.usage) {
+            upstreamUsage = data.usage
+            // Usage-only chunk we requested on the client's behalf
+            if (!prepared.clientWantsUsage && !data.choices?.length) continue
           }
+          res.write(`data: ${JSON.stringify(data)}\n`)
         }
 
-        // Estimate tokens and log usage
-        const inputText = finalMessages.map((m: { content: string | object }) =>
-          typeof m.content === 'string' ? m.content : JSON.stringify(m.content)
-        ).join(' ')
-        const inputTokens = Math.ceil(inputText.length / 4)
-        const outputTokens = Math.ceil(totalContent.length / 4)
-        const totalTokens = inputTokens + outputTokens
-        const cost = calculateCost(totalTokens)
-
-        await logUsage(req.apiUser!.userId, 'api_chat_stream', totalTokens, cost, true, {
-          model: kiePayload.model,
-          agent: agentId,
-          apiKeyId: req.apiUser!.apiKeyId,
-          inputTokens,
-          outputTokens,
-        })
-        await updateUserCredits(req.apiUser!.userId, totalTokens, cost)
-
+        await settleChatCompletion(prepared, assembler.output, upstreamUsage)
         res.end()
       } catch (error) {
         logger.error('Stream error', error as Error)
+        await releaseReservation(prepared.reservationId, 'stream_error').catch(() => {})
         res.write('data: {"error": "Stream failed"}\n\n')
         res.end()
       }
     } else {
       // Non-streaming response
-      const data = await kieResponse.json()
-
-      // Log usage
-      const totalTokens = (data as { usage?: { total_tokens?: number } }).usage?.total_tokens || 0
-      const cost = calculateCost(totalTokens)
-
-      await logUsage(req.apiUser!.userId, 'api_chat', totalTokens, cost, true, {
-        model: kiePayload.model,
-        agent: agentId,
-        apiKeyId: req.apiUser!.apiKeyId,
-        promptTokens: (data as { usage?: { prompt_tokens?: number } }).usage?.prompt_tokens,
-        completionTokens: (data as { usage?: { completion_tokens?: number } }).usage?.completion_tokens,
-      })
-      await updateUserCredits(req.apiUser!.userId, totalTokens, cost)
+      const data = (await kieResponse.json()) as {
+        usage?: UpstreamUsage
+        choices?: unknown[]
+      }
 
+      await settleChatCompletion(prepared, normalizeChatCompletion(data), data.usage)
       return res.json(data)
     }
   } catch (error) {
+    if (error instanceof ChatCompletionError) {
+      return openaiError(res, error.statusCode, error.message, error.type, error.code, error.param)
+    }
+    if (error instanceof InsufficientQuotaError) {
+      return openaiQuotaError(res, error)
+    }
+    // Organization keys whose creator left the organization, or whose organization is gone
+    if (error instanceof ForbiddenError) {
+      return openaiError(res, 403, error.message, 'permission_error', 'permission_denied')
+    }
+    if (error instanceof NotFoundError) {
+      return openaiError(res, 404, error.message, 'invalid_request_error', 'not_found')
+    }
+    if (reservationId) {
+      await releaseReservation(reservationId, 'internal_error').catch(() => {})
+    }
     logger.error('OpenAI API error', error as Error)
     return res.status(500).json({
       error: {
@@ -251,25 +130,41 @@ router.post('/chat/completions', apiKeyMiddleware, async (req: ApiKeyRequest, re
  * GET /v1/models
  * List available models
  */
-router.get('/models', apiKeyMiddleware, (_req: ApiKeyRequest, res: Response) => {
-  return res.json({
-    object: 'list',
-    data: [
-      { id: 'gemini-3-pro', object: 'model', owned_by: 'google', description: 'Most capable, multimodal' },
-      { id: 'gemini-2.5-pro', object: 'model', owned_by: 'google', description: 'Fast and efficient' },
-      { id: 'gpt-4o', object: 'model', owned_by: 'openai', description: 'OpenAI GPT-4 Omni' },
-      { id: 'gpt-4o-mini', object: 'model', owned_by: 'openai', description: 'Fast and affordable' },
-      { id: 'claude-3.5-sonnet', object: 'model', owned_by: 'anthropic', description: 'Balanced performance' },
-      { id: 'claude-3.5-haiku', object: 'model', owned_by: 'anthropic', description: 'Fast responses' },
-    ],
-  })
+router.get('/models', apiKeyMiddleware, requireApiScope('models:read'), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const models = await getEnabledModels()
+    return res.json({
+      object: 'list',
+      data: models.filter((m) => isModelAllowed(req.apiUser!, m.modelId)).map(formatModel),
+    })
+  } catch (error) {
+    logger.error('Failed to list models', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+})
+
+/**
+ * GET /v1/models/:model
+ * Retrieve a single model
+ */
+router.get('/models/:model', apiKeyMiddleware, requireApiScope('models:read', (req) => req.params.model), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const aiModel = await findEnabledModel(req.params.model)
+    if (!aiModel) {
+      return openaiModelNotFound(res, req.params.model)
+    }
+    return res.json(formatModel(aiModel))
+  } catch (error) {
+    logger.error('Failed to get model', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
 })
 
 /**
  * GET /v1/agents
  * List available AI agents with specialized capabilities
  */
-router.get('/agents', apiKeyMiddleware, (_req: ApiKeyRequest, res: Response) => {
+router.get('/agents', apiKeyMiddleware, requireApiScope('models:read'), (_req: ApiKeyRequest, res: Response) => {
   const agents = Object.values(AGENTS).map(({ id, name, description, tier, category }) => ({
     id,
     name,
@@ -285,149 +180,139 @@ router.get('/agents', apiKeyMiddleware, (_req: ApiKeyRequest, res: Response) =>
   })
 })
 
-/**
- * POST /v1/images/generations
- * OpenAI-compatible image generation endpoint
- */
-router.post('/images/generations', apiKeyMiddleware, async (req: ApiKeyRequest, res: Response) => {
-  try {
-    const { prompt, model, size = '1024x1024' } = req.body
-
-    if (!prompt || typeof prompt !== 'string') {
-      return res.status(400).json({
-        error: {
-          message: 'prompt is required and must be a string',
-          type: 'invalid_request_error',
-          code: 'invalid_prompt',
-        },
-      })
-    }
+// Edits and variations accept the multipart uploads the OpenAI SDKs send; buffered for the parser
+const imageUploadParser = express.raw({ type: 'multipart/form-data', limit: '50mb' })
 
-    // Validate prompt length
-    if (prompt.length > 4000) {
-      return res.status(400).json({
-        error: {
-          message: 'Prompt too long (max 4000 characters)',
-          type: 'invalid_request_error',
-          code: 'prompt_too_long',
-        },
-      })
-    }
+type ImageEndpoint = 'generation' | 'edit' | 'variation'
 
-    // Parse size to aspect_ratio
-    let aspectRatio = '1:1'
-    let resolution = '1K'
-    if (size === '1024x1792' || size === '768x1344') {
-      aspectRatio = '9:16'
-    } else if (size === '1792x1024' || size === '1344x768') {
-      aspectRatio = '16:9'
-    }
-    if (size?.includes('1792') || size?.includes('1344')) {
-      resolution = '2K'
-    }
+// Parameters and uploads of an image request, from multipart or JSON
+function readImageRequest(req: ApiKeyRequest): ImageRequestBody {
+  const boundary = getMultipartBoundary(req.get('content-type'))
+  if (!boundary) {
+    return { params: req.body || {}, files: [] }
+  }
+  if (!Buffer.isBuffer(req.body)) {
+    throw new ValidationError('Multipart body is missing')
+  }
+  const form = parseMultipart(req.body, boundary)
+  return { params: form.fields, files: form.files }
+}
 
-    logger.info('OpenAI Image generation request', {
+/**
+ * Shared handler for /v1/images/generations, /edits and /variations
+ */
+async function handleImageRequest(endpoint: ImageEndpoint, req: ApiKeyRequest, res: Response) {
+  try {
+    const body = readImageRequest(req)
+    const prompt = endpoint === 'variation' ? VARIATION_PROMPT : parsePrompt(body.params)
+    const options = parseImageOptions(body.params)
+    const asyncOptions = parseAsyncOptions(body.params, options)
+    const imageInput = endpoint === 'generation'
+      ? undefined
+      : await resolveInputImages(req.apiUser!.userId, body, endpoint === 'variation' ? { max: 1 } : {})
+
+    logger.info('OpenAI Image request', {
       userId: req.apiUser!.userId,
-      model: model || 'flux-schnell',
-      size,
+      endpoint,
+      model: body.params.model || KIE_IMAGE_MODEL,
+      size: body.params.size,
+      n: options.n,
+      referenceImages: imageInput?.length ?? 0,
+      async: asyncOptions.async,
     })
 
-    // Create task
-    const taskResponse = await createTask({
+    const input = {
+      userId: req.apiUser!.userId,
+      organizationId: req.apiUser!.organizationId,
+      apiKeyId: req.apiUser!.apiKeyId,
       prompt,
-      aspect_ratio: aspectRatio,
-      resolution,
-      output_format: 'png',
-    })
-
-    if (taskResponse.code !== 200) {
-      await logUsage(req.apiUser!.userId, 'api_image_generation', 0, 0, false, {
-        prompt: prompt.substring(0, 200),
-        error: taskResponse.msg,
-        apiKeyId: req.apiUser!.apiKeyId,
-      })
+      imageInput,
+      options,
+      webhookUrl: asyncOptions.webhookUrl,
+    }
 
-      return res.status(500).json({
-        error: {
-          message: taskResponse.msg || 'Failed to create image generation task',
-          type: 'api_error',
-          code: 'generation_failed',
-        },
+    // Async: hand back the jobs right away; GET /v1/images/jobs/:id or the webhook reports the result
+    if (asyncOptions.async) {
+      const jobs = await startImageJobs(input)
+      return res.status(202).json({
+        object: 'list',
+        data: jobs.map(formatApiJob),
       })
     }
 
-    const taskId = taskResponse.data.taskId
-
-    // Poll for completion (max 60 seconds)
-    const maxAttempts = 30
-    const pollInterval = 2000
+    const data = await generateImages(input)
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      await new Promise(resolve => setTimeout(resolve, pollInterval))
-
-      const statusResponse = await getTaskStatus(taskId)
+    // Return OpenAI-compatible response
+    return res.json({
+      created: Math.floor(Date.now() / 1000),
+      data,
+    })
+  } catch (error) {
+    if (error instanceof ImageParamError) {
+      return openaiError(res, 400, error.message, 'invalid_request_error', error.openaiCode, error.param)
+    }
+    if (error instanceof InsufficientQuotaError) {
+      return openaiQuotaError(res, error)
+    }
+    if (error instanceof ForbiddenError) {
+      return openaiError(res, 403, error.message, 'permission_error', 'permission_denied')
+    }
+    if (error instanceof NotFoundError) {
+      return openaiError(res, 404, error.message, 'invalid_request_error', 'not_found')
+    }
+    if (error instanceof ValidationError) {
+      return openaiError(res, 400, error.message, 'invalid_request_error', 'invalid_request')
+    }
+    if (error instanceof AppError && (error.code === 'generation_failed' || error.code === 'timeout')) {
+      return openaiError(res, error.statusCode, error.message, 'api_error', error.code)
+    }
+    logger.error('OpenAI Image API error', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
+  }
+}
 
-      if (statusResponse.data?.status === 'SUCCESS') {
-        const imageUrl = statusResponse.data.output?.media_url
+/**
+ * POST /v1/images/generations
+ * OpenAI-compatible image generation endpoint
+ */
+router.post('/images/generations', apiKeyMiddleware, requireApiScope('images:write'), (req: ApiKeyRequest, res: Response) =>
+  handleImageRequest('generation', req, res)
+)
 
-        // Log successful generation
-        await logUsage(req.apiUser!.userId, 'api_image_generation', 1, IMAGE_PRICE, true, {
-          prompt: prompt.substring(0, 200),
-          taskId,
-          imageUrl,
-          aspectRatio,
-          resolution,
-          apiKeyId: req.apiUser!.apiKeyId,
-        })
-        await updateUserCredits(req.apiUser!.userId, 1, IMAGE_PRICE)
+/**
+ * POST /v1/images/edits
+ * OpenAI-compatible image edit endpoint; the uploaded images are passed upstream as reference images
+ */
+router.post('/images/edits', apiKeyMiddleware, requireApiScope('images:write'), imageUploadParser, (req: ApiKeyRequest, res: Response) =>
+  handleImageRequest('edit', req, res)
+)
 
-        // Return OpenAI-compatible response
-        return res.json({
-          created: Math.floor(Date.now() / 1000),
-          data: [
-            {
-              url: imageUrl,
-              revised_prompt: prompt,
-            },
-          ],
-        })
-      }
+/**
+ * POST /v1/images/variations
+ * OpenAI-compatible image variation endpoint
+ */
+router.post('/images/variations', apiKeyMiddleware, requireApiScope('images:write'), imageUploadParser, (req: ApiKeyRequest, res: Response) =>
+  handleImageRequest('variation', req, res)
+)
 
-      if (statusResponse.data?.status === 'FAILED') {
-        await logUsage(req.apiUser!.userId, 'api_image_generation', 0, 0, false, {
-          prompt: prompt.substring(0, 200),
-          taskId,
-          error: statusResponse.data.error,
-          apiKeyId: req.apiUser!.apiKeyId,
-        })
+/**
+ * GET /v1/images/jobs/:id
+ * Status and result of an async image request
+ */
+router.get('/images/jobs/:id', apiKeyMiddleware, requireApiScope('images:write'), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const { id } = req.params
+    const job = validate.isUUID(id) ? await getUserJob(req.apiUser!.userId, id) : null
 
-        return res.status(500).json({
-          error: {
-            message: statusResponse.data.error || 'Image generation failed',
-            type: 'api_error',
-            code: 'generation_failed',
-          },
-        })
-      }
+    // Only jobs created through the API are visible here
+    if (!job || !job.apiKeyId) {
+      return openaiError(res, 404, `No image job found with id '${id}'`, 'invalid_request_error', 'not_found')
     }
 
-    // Timeout
-    return res.status(504).json({
-      error: {
-        message: 'Image generation timed out',
-        type: 'api_error',
-        code: 'timeout',
-      },
-    })
+    return res.json(formatApiJob(job))
   } catch (error) {
-    logger.error('OpenAI Image API error', error as Error)
-    return res.status(500).json({
-      error: {
-        message: 'Internal server error',
-        type: 'api_error',
-        code: 'internal_error',
-      },
-    })
+    logger.error('OpenAI Image job error', error as Error)
+    return openaiError(res, 500, 'Internal server error', 'api_error', 'internal_error')
   }
 })
 
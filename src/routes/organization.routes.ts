@@ -0,0 +1,36 @@
+import { Router } from 'express'
+import { organizationController } from '../controllers/organization.controller'
+import { authMiddleware, AuthRequest } from '../middlewares/auth.middleware'
+import { organizationParam, requireOrganizationRole } from '../middlewares/organization.middleware'
+
+const router = Router()
+
+router.use(authMiddleware)
+
+// ==================== ORGANIZATIONS ====================
+
+router.get('/', (req, res) => organizationController.getOrganizations(req as AuthRequest, res))
+router.post('/', (req, res) => organizationController.createOrganization(req as AuthRequest, res))
+router.post('/invitations/accept', (req, res) => organizationController.acceptInvitation(req as AuthRequest, res))
+
+// Everything under /:id requires membership of that organization
+router.use('/:id', organizationParam)
+const manager = requireOrganizationRole('owner', 'admin')
+
+router.get('/:id', (req, res) => organizationController.getOrganization(req as AuthRequest, res))
+router.patch('/:id', manager, (req, res) => organizationController.updateOrganization(req as AuthRequest, res))
+
+// ==================== MEMBERS ====================
+
+router.get('/:id/members', (req, res) => organizationController.getMembers(req as AuthRequest, res))
+router.patch('/:id/members/:userId', manager, (req, res) => organizationController.updateMember(req as AuthRequest, res))
+// Members may remove themselves; the service checks the rest
+router.delete('/:id/members/:userId', (req, res) => organizationController.removeMember(req as AuthRequest, res))
+
+// ==================== INVITATIONS ====================
+
+router.get('/:id/invitations', manager, (req, res) => organizationController.getInvitations(req as AuthRequest, res))
+router.post('/:id/invitations', manager, (req, res) => organizationController.createInvitation(req as AuthRequest, res))
+router.delete('/:id/invitations/:invitationId', manager, (req, res) => organizationController.revokeInvitation(req as AuthRequest, res))
+
+export default router
@@ -1,11 +1,16 @@
 import { Router } from 'express'
 import { usageController } from '../controllers/usage.controller'
 import { authMiddleware, AuthRequest } from '../middlewares/auth.middleware'
+import { organizationContext, requireOrganizationRole } from '../middlewares/organization.middleware'
 
 const router = Router()
 
-router.get('/summary', authMiddleware, (req, res) => usageController.getSummary(req as AuthRequest, res))
-router.get('/logs', authMiddleware, (req, res) => usageController.getLogs(req as AuthRequest, res))
-router.get('/stats', authMiddleware, (req, res) => usageController.getStats(req as AuthRequest, res))
+// X-Organization-Id switches to the organization's usage; plain members only see their own share
+router.use(authMiddleware, organizationContext)
+
+router.get('/summary', (req, res) => usageController.getSummary(req as AuthRequest, res))
+router.get('/logs', (req, res) => usageController.getLogs(req as AuthRequest, res))
+router.get('/transactions', requireOrganizationRole('owner', 'admin', 'billing'), (req, res) => usageController.getTransactions(req as AuthRequest, res))
+router.get('/stats', (req, res) => usageController.getStats(req as AuthRequest, res))
 
 export default router
@@ -3,6 +3,9 @@ import 'dotenv/config'
 import bcrypt from 'bcryptjs'
 import { AppDataSource } from '../data-source'
 import { User } from '../entities'
+import { recordTransaction } from '../services/ledger.service'
+
+const ADMIN_TOKEN_BALANCE = 1000000
 
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || 'admin@imagegen.ai'
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin123456'
@@ -25,9 +28,18 @@ async function seedAdmin() {
       if (existingAdmin.role !== 'admin') {
         existingAdmin.role = 'admin'
         existingAdmin.isPro = true
-        existingAdmin.tokenBalance = 1000000
         existingAdmin.isEmailVerified = true
         await userRepo.save(existingAdmin)
+
+        const topUp = ADMIN_TOKEN_BALANCE - Number(existingAdmin.tokenBalance)
+        if (topUp !== 0) {
+          await recordTransaction({
+            userId: existingAdmin.id,
+            type: 'adjustment',
+            amount: topUp,
+            description: 'Admin seed balance',
+          })
+        }
         console.log('Existing user updated to admin:', existingAdmin.email)
       } else {
         console.log('Admin user already exists:', existingAdmin.email)
@@ -45,13 +57,20 @@ async function seedAdmin() {
       role: 'admin',
       creditsUsed: 0,
       totalSpentUsd: 0,
-      tokenBalance: 1000000, // 1M tokens for admin
       isPro: true,
       isActive: true,
       isEmailVerified: true,
     })
 
     await userRepo.save(adminUser)
+
+    // 1M tokens for admin
+    await recordTransaction({
+      userId: adminUser.id,
+      type: 'adjustment',
+      amount: ADMIN_TOKEN_BALANCE,
+      description: 'Admin seed balance',
+    })
     console.log('Admin user created successfully!')
     console.log('Email:', ADMIN_EMAIL)
     console.log('Password:', ADMIN_PASSWORD)
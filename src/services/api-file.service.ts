@@ -0,0 +1,189 @@
+import crypto from 'crypto'
+import { IsNull, LessThan } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import { ApiFile, ApiFilePurpose } from '../entities'
+import { getStorageDriver } from './storage'
+import { logger } from '../utils/logger'
+
+const apiFileRepository = () => AppDataSource.getRepository(ApiFile)
+
+const toUnixSeconds = (date: Date) => Math.floor(new Date(date).getTime() / 1000)
+
+const ownerWhere = (owner: ApiFileOwner) => ({
+  userId: owner.userId,
+  organizationId: owner.organizationId ?? IsNull(),
+})
+
+const partKey = (storageKey: string, part: number) => (part === 0 ? storageKey : `${storageKey}.${part}`)
+
+/**
+ * Wallet a file belongs to: a user's personal files, or the ones made with an organization's keys
+ */
+export interface ApiFileOwner {
+  userId: string
+  organizationId: string | null
+}
+
+export interface CreateApiFileInput extends ApiFileOwner {
+  purpose: ApiFilePurpose
+  filename: string
+  content: Buffer
+}
+
+export type WriteApiFileInput = Omit<CreateApiFileInput, 'content'>
+
+export interface ListPageInput {
+  limit: number
+  // Id of the last item of the previous page
+  after?: string
+}
+
+/**
+ * Shape returned by the /v1/files endpoints (OpenAI file object)
+ */
+export function formatApiFile(file: ApiFile) {
+  return {
+    id: file.id,
+    object: 'file',
+    bytes: file.bytes,
+    created_at: toUnixSeconds(file.createdAt),
+    filename: file.filename,
+    purpose: file.purpose,
+  }
+}
+
+/**
+ * Store file contents and record them
+ */
+export async function createApiFile(input: CreateApiFileInput): Promise<ApiFile> {
+  const driver = getStorageDriver()
+  const storageKey = `files/${input.userId}/${crypto.randomUUID()}.jsonl`
+  await driver.put(storageKey, input.content, 'application/jsonl')
+
+  const file = await apiFileRepository().save(apiFileRepository().create({
+    userId: input.userId,
+    organizationId: input.organizationId ?? null,
+    purpose: input.purpose,
+    filename: input.filename,
+    bytes: input.content.length,
+    storageDriver: driver.name,
+    storageKey,
+  }))
+
+  logger.info('API file stored', { fileId: file.id, userId: input.userId, purpose: file.purpose, bytes: file.bytes })
+  return file
+}
+
+/**
+ * Store file contents one page at a time so the whole file is never held in memory
+ * Returns null when there were no pages (no file is recorded)
+ */
+export async function writeApiFile(input: WriteApiFileInput, pages: AsyncIterable<Buffer>): Promise<ApiFile | null> {
+  const driver = getStorageDriver()
+  const storageKey = `files/${input.userId}/${crypto.randomUUID()}.jsonl`
+  let parts = 0
+  let bytes = 0
+
+  try {
+    for await (const page of pages) {
+      if (!page.length) continue
+      await driver.put(partKey(storageKey, parts), page, 'application/jsonl')
+      parts++
+      bytes += page.length
+    }
+  } catch (error) {
+    for (let part = 0; part < parts; part++) {
+      await driver.delete(partKey(storageKey, part)).catch(() => {})
+    }
+    throw error
+  }
+  if (parts === 0) return null
+
+  const file = await apiFileRepository().save(apiFileRepository().create({
+    userId: input.userId,
+    organizationId: input.organizationId ?? null,
+    purpose: input.purpose,
+    filename: input.filename,
+    bytes,
+    storageDriver: driver.name,
+    storageKey,
+    parts,
+  }))
+
+  logger.info('API file stored', { fileId: file.id, userId: input.userId, purpose: file.purpose, bytes, parts })
+  return file
+}
+
+export async function getUserFile(owner: ApiFileOwner, fileId: string): Promise<ApiFile | null> {
+  return apiFileRepository().findOne({ where: { id: fileId, ...ownerWhere(owner) } })
+}
+
+/**
+ * The owner's files, newest first, in pages after a cursor
+ */
+export async function listUserFiles(owner: ApiFileOwner, page: ListPageInput, purpose?: ApiFilePurpose) {
+  const cursor = page.after ? await getUserFile(owner, page.after) : null
+  const files = await apiFileRepository().find({
+    where: {
+      ...ownerWhere(owner),
+      ...(purpose && { purpose }),
+      ...(cursor && { createdAt: LessThan(cursor.createdAt) }),
+    },
+    order: { createdAt: 'DESC' },
+    take: page.limit + 1,
+  })
+
+  const data = files.slice(0, page.limit)
+  return {
+    object: 'list',
+    data: data.map(formatApiFile),
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+    has_more: files.length > page.limit,
+  }
+}
+
+/**
+ * File contents part by part, from the storage backend they were written to
+ * Yields nothing when the contents are gone; a part missing partway through throws
+ */
+export async function* readApiFileParts(file: ApiFile): AsyncGenerator<Buffer> {
+  const driver = getStorageDriver()
+  if (driver.name !== file.storageDriver) {
+    logger.warn('API file is on another storage driver', { fileId: file.id, driver: file.storageDriver })
+    return
+  }
+  for (let part = 0; part < (file.parts || 1); part++) {
+    const content = await driver.get(partKey(file.storageKey, part))
+    if (!content) {
+      if (part === 0) return
+      throw new Error(`Part ${part} of API file ${file.id} is missing`)
+    }
+    yield content
+  }
+}
+
+/**
+ * Whole file contents (batch input files are a single part)
+ */
+export async function readApiFile(file: ApiFile): Promise<Buffer | null> {
+  const parts: Buffer[] = []
+  for await (const part of readApiFileParts(file)) {
+    parts.push(part)
+  }
+  if (!parts.length) return null
+  return parts.length === 1 ? parts[0] : Buffer.concat(parts)
+}
+
+/**
+ * Remove file contents and the record
+ */
+export async function deleteApiFile(file: ApiFile): Promise<void> {
+  const driver = getStorageDriver()
+  if (driver.name === file.storageDriver) {
+    for (let part = 0; part < (file.parts || 1); part++) {
+      await driver.delete(partKey(file.storageKey, part))
+    }
+  }
+  await apiFileRepository().delete(file.id)
+}
@@ -0,0 +1,63 @@
+import { AppDataSource } from '../data-source'
+import { ApiKeyAuditLog, ApiKeyAuditAction } from '../entities'
+import { logger } from '../utils/logger'
+
+const auditRepository = () => AppDataSource.getRepository(ApiKeyAuditLog)
+
+export interface KeyAuditContext {
+  userId: string
+  ip?: string
+  userAgent?: string
+}
+
+/**
+ * Append an event to a key's audit trail
+ * Failures are logged, never thrown, so they cannot undo the action being audited
+ */
+export async function recordKeyEvent(
+  apiKeyId: string,
+  action: ApiKeyAuditAction,
+  context: KeyAuditContext,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  try {
+    await auditRepository().save(
+      auditRepository().create({
+        apiKeyId,
+        action,
+        userId: context.userId,
+        ip: context.ip?.substring(0, 64) || null,
+        userAgent: context.userAgent?.substring(0, 255) || null,
+        metadata: metadata || null,
+      })
+    )
+  } catch (error) {
+    logger.error('Failed to record API key audit event', { apiKeyId, action, error: (error as Error).message })
+  }
+}
+
+/**
+ * Audit trail of a key, newest first
+ */
+export async function getKeyAuditLog(apiKeyId: string, page: number = 1, limit: number = 50) {
+  const [events, total] = await auditRepository().findAndCount({
+    where: { apiKeyId },
+    order: { createdAt: 'DESC' },
+    skip: (page - 1) * limit,
+    take: limit,
+  })
+
+  return {
+    events: events.map((event) => ({
+      id: event.id,
+      action: event.action,
+      metadata: event.metadata,
+      ip: event.ip,
+      userAgent: event.userAgent,
+      createdAt: event.createdAt,
+    })),
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
+}
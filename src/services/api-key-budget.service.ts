@@ -0,0 +1,202 @@
+import { AppDataSource } from '../data-source'
+import { ApiKey, CreditReservation, UsageLog, User } from '../entities'
+import { logger } from '../utils/logger'
+import { sendApiKeyBudgetWarningEmail } from './email.service'
+
+export type BudgetPeriod = 'daily' | 'monthly'
+export type BudgetMetric = 'tokens' | 'usd'
+
+export const MAX_USAGE_DAYS = 90
+
+const usageLogRepository = () => AppDataSource.getRepository(UsageLog)
+const reservationRepository = () => AppDataSource.getRepository(CreditReservation)
+const apiKeyRepository = () => AppDataSource.getRepository(ApiKey)
+
+export interface KeySpend {
+  tokens: number
+  usd: number
+}
+
+export interface BudgetStatus {
+  period: BudgetPeriod
+  metric: BudgetMetric
+  used: number
+  limit: number
+}
+
+export interface BudgetCheck {
+  // First cap already reached, if any
+  exceeded: BudgetStatus | null
+  // Caps past the warning threshold (and not yet reached)
+  warnings: BudgetStatus[]
+}
+
+/**
+ * Expression index for per-key spend lookups on usage_logs.metadata
+ */
+export async function ensureApiKeyUsageIndex(): Promise<void> {
+  await AppDataSource.query(
+    `CREATE INDEX IF NOT EXISTS "IDX_usage_logs_api_key" ON usage_logs
+     ((metadata->>'apiKeyId'), "createdAt")`
+  )
+}
+
+/**
+ * Start of the current UTC day or calendar month
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+export function hasBudget(key: ApiKey): boolean {
+  return [key.dailyTokenLimit, key.monthlyTokenLimit, key.dailyUsdLimit, key.monthlyUsdLimit]
+    .some((limit) => limit !== null && limit !== undefined)
+}
+
+/**
+ * Spend billed to a key since `since`, plus credits still held by its in-flight requests
+ */
+export async function getKeySpend(apiKeyId: string, since: Date): Promise<KeySpend> {
+  const [logged, held] = await Promise.all([
+    usageLogRepository()
+      .createQueryBuilder('log')
+      .select('COALESCE(SUM(log.creditsUsed), 0)', 'tokens')
+      .addSelect('COALESCE(SUM(log.costUsd), 0)', 'usd')
+      .where(`log.metadata->>'apiKeyId' = :apiKeyId`, { apiKeyId })
+      .andWhere('log.createdAt >= :since', { since })
+      .andWhere('log.success = true')
+      .getRawOne<{ tokens: string; usd: string }>(),
+    reservationRepository()
+      .createQueryBuilder('r')
+      .select('COALESCE(SUM(r.amount), 0)', 'tokens')
+      .where(`r.metadata->>'apiKeyId' = :apiKeyId`, { apiKeyId })
+      .andWhere(`r.status = 'held'`)
+      .andWhere('r.createdAt >= :since', { since })
+      .getRawOne<{ tokens: string }>(),
+  ])
+
+  return {
+    tokens: Number(logged?.tokens || 0) + Number(held?.tokens || 0),
+    usd: Number(logged?.usd || 0),
+  }
+}
+
+/**
+ * Compare spend with the key's caps and warning threshold
+ */
+export function evaluateKeyBudget(key: ApiKey, spend: Record<BudgetPeriod, KeySpend>): BudgetCheck {
+  const caps: Array<Omit<BudgetStatus, 'used' | 'limit'> & { limit: number | null }> = [
+    { period: 'daily', metric: 'tokens', limit: key.dailyTokenLimit },
+    { period: 'daily', metric: 'usd', limit: key.dailyUsdLimit },
+    { period: 'monthly', metric: 'tokens', limit: key.monthlyTokenLimit },
+    { period: 'monthly', metric: 'usd', limit: key.monthlyUsdLimit },
+  ]
+
+  const check: BudgetCheck = { exceeded: null, warnings: [] }
+  for (const cap of caps) {
+    if (cap.limit === null || cap.limit === undefined) continue
+
+    const status: BudgetStatus = { ...cap, limit: Number(cap.limit), used: spend[cap.period][cap.metric] }
+    if (status.used >= status.limit) {
+      check.exceeded ??= status
+    } else if (key.budgetWarningPercent && status.used >= (status.limit * key.budgetWarningPercent) / 100) {
+      check.warnings.push(status)
+    }
+  }
+  return check
+}
+
+/**
+ * Load the key's spend for the current day and month and check it against its caps
+ */
+export async function checkKeyBudget(key: ApiKey, now: Date = new Date()): Promise<BudgetCheck> {
+  const [daily, monthly] = await Promise.all([
+    getKeySpend(key.id, getPeriodStart('daily', now)),
+    getKeySpend(key.id, getPeriodStart('monthly', now)),
+  ])
+  return evaluateKeyBudget(key, { daily, monthly })
+}
+
+/**
+ * Email the owner about caps past the warning threshold, at most once per key and period
+ */
+export async function sendBudgetWarnings(key: ApiKey, user: User, warnings: BudgetStatus[]): Promise<void> {
+  const now = new Date()
+  for (const period of ['daily', 'monthly'] as BudgetPeriod[]) {
+    const status = warnings.find((w) => w.period === period)
+    if (!status) continue
+
+    // Claim the period first so concurrent requests send a single email
+    const column = period === 'daily' ? 'dailyWarningSentAt' : 'monthlyWarningSentAt'
+    const claimed = await apiKeyRepository()
+      .createQueryBuilder()
+      .update()
+      .set({ [column]: now })
+      .where('id = :id', { id: key.id })
+      .andWhere(`("${column}" IS NULL OR "${column}" < :start)`, { start: getPeriodStart(period, now) })
+      .execute()
+    if (!claimed.affected) continue
+
+    await sendApiKeyBudgetWarningEmail(user.email, { keyName: key.name, ...status })
+    logger.info('API key budget warning sent', { apiKeyId: key.id, ...status })
+  }
+}
+
+/**
+ * Spend of a key over the last `days` days, by model and by UTC day
+ */
+export async function getKeyUsage(apiKeyId: string, days: number = 30) {
+  const now = new Date()
+  const from = new Date(getPeriodStart('daily', now).getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+
+  const base = () =>
+    usageLogRepository()
+      .createQueryBuilder('log')
+      .select('COUNT(*)', 'requests')
+      .addSelect('COALESCE(SUM(log.creditsUsed), 0)', 'tokens')
+      .addSelect('COALESCE(SUM(log.costUsd), 0)', 'usd')
+      .where(`log.metadata->>'apiKeyId' = :apiKeyId`, { apiKeyId })
+      .andWhere('log.createdAt >= :from', { from })
+      .andWhere('log.success = true')
+
+  type Row = { requests: string; tokens: string; usd: string }
+  const [modelRows, dayRows] = await Promise.all([
+    base()
+      .addSelect(`COALESCE(log.metadata->>'model', 'unknown')`, 'model')
+      .groupBy(`COALESCE(log.metadata->>'model', 'unknown')`)
+      .orderBy('usd', 'DESC')
+      .getRawMany<Row & { model: string }>(),
+    base()
+      .addSelect(`to_char(log.createdAt, 'YYYY-MM-DD')`, 'date')
+      .groupBy(`to_char(log.createdAt, 'YYYY-MM-DD')`)
+      .getRawMany<Row & { date: string }>(),
+  ])
+
+  const totals = (row: Row) => ({
+    requests: Number(row.requests),
+    tokens: Number(row.tokens),
+    usd: Number(row.usd),
+  })
+
+  // Every day in the range, including days without usage
+  const dayMap = new Map(dayRows.map((row) => [row.date, totals(row)]))
+  const byDay = Array.from({ length: days }, (_, i) => {
+    const date = new Date(from.getTime() + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+    return { date, ...(dayMap.get(date) || { requests: 0, tokens: 0, usd: 0 }) }
+  })
+
+  const byModel = modelRows.map((row) => ({ model: row.model, ...totals(row) }))
+
+  return {
+    from,
+    to: now,
+    totals: byModel.reduce(
+      (sum, row) => ({ requests: sum.requests + row.requests, tokens: sum.tokens + row.tokens, usd: sum.usd + row.usd }),
+      { requests: 0, tokens: 0, usd: 0 }
+    ),
+    byModel,
+    byDay,
+  }
+}
@@ -1,10 +1,21 @@
 import bcrypt from 'bcryptjs'
 import { userRepository } from '../repositories/user.repository'
 import { emailVerificationRepository } from '../repositories/email-verification.repository'
-import { signToken } from '../utils/jwt'
+import { userIdentityRepository } from '../repositories/user-identity.repository'
 import { logger } from '../utils/logger'
 import { logUsage } from './usage.service'
-import { generateVerificationCode, sendVerificationEmail } from './email.service'
+import { grantWelcomeBonus } from './ledger.service'
+import {
+  generateVerificationCode,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendPasswordChangedEmail,
+} from './email.service'
+import { createSession, revokeAllSessions, bumpTokenVersion, SessionMetadata } from './session.service'
+import { verifySecondFactor } from './two-factor.service'
+import { getKeyValueStore } from './kv-store'
+import { ExternalIdentity } from './oidc.service'
+import { signTwoFactorChallenge, verifyTwoFactorChallenge } from '../utils/jwt'
 import {
   ValidationError,
   UnauthorizedError,
@@ -18,61 +29,77 @@ import { User } from '../entities/user.entity'
 // Verification code expiry time (15 minutes)
 const VERIFICATION_EXPIRY_MINUTES = 15
 
+// Wrong guesses allowed against one password reset code before it is discarded
+const MAX_RESET_CODE_ATTEMPTS = 5
+
 // Welcome bonus tokens for new users
 const WELCOME_BONUS_TOKENS = 100
 
 // Rate limiting for registration (prevent spam)
-const registrationAttempts = new Map<string, { count: number; firstAttempt: number }>()
+// Counters live in the shared key/value store so limits hold across instances and restarts
 const REGISTRATION_WINDOW_MS = 60 * 60 * 1000 // 1 hour
 const MAX_REGISTRATIONS_PER_IP = 5
 const MAX_REGISTRATIONS_PER_EMAIL = 3
 
 // SECURITY: Account lockout for failed login attempts
-const loginAttempts = new Map<string, { count: number; firstAttempt: number; lockedUntil?: number }>()
 const LOGIN_ATTEMPT_WINDOW_MS = 15 * 60 * 1000 // 15 minutes
 const MAX_LOGIN_ATTEMPTS = 5
 const LOCKOUT_DURATION_MS = 30 * 60 * 1000 // 30 minutes lockout
 
-// Cleanup old rate limit entries every 10 minutes
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, data] of registrationAttempts.entries()) {
-    if (now - data.firstAttempt > REGISTRATION_WINDOW_MS) {
-      registrationAttempts.delete(key)
-    }
-  }
-  // Cleanup login attempts
-  for (const [key, data] of loginAttempts.entries()) {
-    if (now - data.firstAttempt > LOGIN_ATTEMPT_WINDOW_MS && (!data.lockedUntil || now > data.lockedUntil)) {
-      loginAttempts.delete(key)
-    }
-  }
-}, 10 * 60 * 1000)
-
 export interface UserResponse {
   id: string
   email: string
   name: string | null
+  avatarUrl: string | null
   role: 'user' | 'admin'
   creditsUsed: number
   totalSpentUsd: number
   tokenBalance: number
   isPro: boolean
   proExpiresAt: Date | null
+  twoFactorEnabled: boolean
   createdAt?: Date
 }
 
 export interface AuthResponse {
   token: string
+  refreshToken: string
   user: UserResponse
 }
 
+// Password accepted; exchange challengeToken and a 2FA code at /api/auth/2fa/verify
+export interface TwoFactorChallengeResponse {
+  requiresTwoFactor: true
+  challengeToken: string
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse
+
+export interface ChangePasswordResponse extends AuthResponse {
+  message: string
+}
+
 export interface RegisterResponse {
   message: string
   email: string
   requiresVerification: boolean
 }
 
+// External sign-in: a session, a 2FA challenge, or an email still to verify
+export type IdentityLoginResponse = LoginResponse | RegisterResponse
+
+export interface LinkedIdentityResponse {
+  provider: string
+  email: string | null
+  lastLoginAt: Date | null
+  createdAt: Date
+}
+
+export interface IdentitiesResponse {
+  hasPassword: boolean
+  identities: LinkedIdentityResponse[]
+}
+
 /**
  * Format user data for API response
  */
@@ -81,12 +108,14 @@ function formatUserResponse(user: User, includeCreatedAt = false): UserResponse
     id: user.id,
     email: user.email,
     name: user.name,
+    avatarUrl: user.avatarUrl ?? null,
     role: user.role,
     creditsUsed: user.creditsUsed,
     totalSpentUsd: user.totalSpentUsd,
     tokenBalance: Number(user.tokenBalance),
     isPro: user.isPro,
     proExpiresAt: user.proExpiresAt,
+    twoFactorEnabled: user.twoFactorEnabled ?? false,
   }
   if (includeCreatedAt) {
     response.createdAt = user.createdAt
@@ -101,39 +130,21 @@ export class AuthService {
   /**
    * Check rate limit for registration
    */
-  checkRegistrationRateLimit(ip: string, email: string): void {
-    const now = Date.now()
-    const ipKey = `ip:${ip}`
-    const emailKey = `email:${email.toLowerCase()}`
+  async checkRegistrationRateLimit(ip: string, email: string): Promise<void> {
+    const store = getKeyValueStore()
 
     // Check IP rate limit
-    const ipData = registrationAttempts.get(ipKey)
-    if (ipData) {
-      if (now - ipData.firstAttempt > REGISTRATION_WINDOW_MS) {
-        registrationAttempts.set(ipKey, { count: 1, firstAttempt: now })
-      } else if (ipData.count >= MAX_REGISTRATIONS_PER_IP) {
-        const waitMinutes = Math.ceil((REGISTRATION_WINDOW_MS - (now - ipData.firstAttempt)) / 60000)
-        throw new RateLimitError(`Quá nhiều lần đăng ký. Vui lòng thử lại sau ${waitMinutes} phút.`)
-      } else {
-        ipData.count++
-      }
-    } else {
-      registrationAttempts.set(ipKey, { count: 1, firstAttempt: now })
+    const ipAttempts = await store.increment(`register_ip:${ip}`, REGISTRATION_WINDOW_MS)
+    if (ipAttempts.value > MAX_REGISTRATIONS_PER_IP) {
+      const waitMinutes = Math.ceil((ipAttempts.expiresAt.getTime() - Date.now()) / 60000)
+      throw new RateLimitError(`Quá nhiều lần đăng ký. Vui lòng thử lại sau ${waitMinutes} phút.`)
     }
 
     // Check email rate limit
-    const emailData = registrationAttempts.get(emailKey)
-    if (emailData) {
-      if (now - emailData.firstAttempt > REGISTRATION_WINDOW_MS) {
-        registrationAttempts.set(emailKey, { count: 1, firstAttempt: now })
-      } else if (emailData.count >= MAX_REGISTRATIONS_PER_EMAIL) {
-        const waitMinutes = Math.ceil((REGISTRATION_WINDOW_MS - (now - emailData.firstAttempt)) / 60000)
-        throw new RateLimitError(`Email này đã yêu cầu quá nhiều lần. Vui lòng thử lại sau ${waitMinutes} phút.`)
-      } else {
-        emailData.count++
-      }
-    } else {
-      registrationAttempts.set(emailKey, { count: 1, firstAttempt: now })
+    const emailAttempts = await store.increment(`register_email:${email.toLowerCase()}`, REGISTRATION_WINDOW_MS)
+    if (emailAttempts.value > MAX_REGISTRATIONS_PER_EMAIL) {
+      const waitMinutes = Math.ceil((emailAttempts.expiresAt.getTime() - Date.now()) / 60000)
+      throw new RateLimitError(`Email này đã yêu cầu quá nhiều lần. Vui lòng thử lại sau ${waitMinutes} phút.`)
     }
   }
 
@@ -194,7 +205,7 @@ export class AuthService {
   /**
    * Verify email with code
    */
-  async verifyEmail(email: string, code: string): Promise<AuthResponse> {
+  async verifyEmail(email: string, code: string, metadata?: SessionMetadata): Promise<AuthResponse> {
     const user = await userRepository.findByEmail(email)
     if (!user) {
       throw new NotFoundError('User')
@@ -212,23 +223,20 @@ export class AuthService {
 
     // Mark user as verified and grant welcome bonus if not already received
     user.isEmailVerified = true
-    if (!user.hasReceivedWelcomeBonus) {
-      user.tokenBalance = Number(user.tokenBalance) + WELCOME_BONUS_TOKENS
-      user.hasReceivedWelcomeBonus = true
-      logger.info('Welcome bonus granted', { userId: user.id, tokens: WELCOME_BONUS_TOKENS })
-    }
-    await userRepository.save(user)
+    await userRepository.update(user.id, { isEmailVerified: true })
+
+    await this.grantWelcomeBonusOnce(user)
 
     // Delete used verification codes
     await emailVerificationRepository.deleteByUserId(user.id)
 
     logger.info('Email verified', { userId: user.id, email: user.email })
 
-    // Generate token
-    const token = signToken({ userId: user.id, email: user.email, role: user.role })
+    // Start a session
+    const tokens = await createSession(user, metadata)
 
     return {
-      token,
+      ...tokens,
       user: formatUserResponse(user),
     }
   }
@@ -273,23 +281,22 @@ export class AuthService {
    * Check and enforce login rate limiting / account lockout
    * SECURITY: Prevents brute force attacks
    */
-  private checkLoginRateLimit(email: string, ip: string): void {
+  private async checkLoginRateLimit(email: string, ip: string): Promise<void> {
+    const store = getKeyValueStore()
     const now = Date.now()
-    const key = `login:${email.toLowerCase()}`
-    const ipKey = `login_ip:${ip}`
 
     // Check email-based lockout
-    const emailData = loginAttempts.get(key)
-    if (emailData?.lockedUntil && now < emailData.lockedUntil) {
-      const waitMinutes = Math.ceil((emailData.lockedUntil - now) / 60000)
+    const emailLockedUntil = await store.get<number>(`login_lock:${email.toLowerCase()}`)
+    if (emailLockedUntil && now < emailLockedUntil) {
+      const waitMinutes = Math.ceil((emailLockedUntil - now) / 60000)
       logger.warn('Login blocked - account locked', { email, waitMinutes })
       throw new RateLimitError(`Tài khoản tạm khóa do đăng nhập sai quá nhiều lần. Vui lòng thử lại sau ${waitMinutes} phút.`)
     }
 
     // Check IP-based lockout
-    const ipData = loginAttempts.get(ipKey)
-    if (ipData?.lockedUntil && now < ipData.lockedUntil) {
-      const waitMinutes = Math.ceil((ipData.lockedUntil - now) / 60000)
+    const ipLockedUntil = await store.get<number>(`login_ip_lock:${ip}`)
+    if (ipLockedUntil && now < ipLockedUntil) {
+      const waitMinutes = Math.ceil((ipLockedUntil - now) / 60000)
       logger.warn('Login blocked - IP locked', { ip, waitMinutes })
       throw new RateLimitError(`Quá nhiều lần đăng nhập thất bại. Vui lòng thử lại sau ${waitMinutes} phút.`)
     }
@@ -298,50 +305,35 @@ export class AuthService {
   /**
    * Record failed login attempt
    */
-  private recordFailedLogin(email: string, ip: string): void {
-    const now = Date.now()
-    const key = `login:${email.toLowerCase()}`
-    const ipKey = `login_ip:${ip}`
+  private async recordFailedLogin(email: string, ip: string): Promise<void> {
+    const store = getKeyValueStore()
+    const key = email.toLowerCase()
 
     // Record for email
-    const emailData = loginAttempts.get(key)
-    if (emailData) {
-      if (now - emailData.firstAttempt > LOGIN_ATTEMPT_WINDOW_MS) {
-        loginAttempts.set(key, { count: 1, firstAttempt: now })
-      } else {
-        emailData.count++
-        if (emailData.count >= MAX_LOGIN_ATTEMPTS) {
-          emailData.lockedUntil = now + LOCKOUT_DURATION_MS
-          logger.warn('Account locked due to failed attempts', { email, attempts: emailData.count })
-        }
-      }
-    } else {
-      loginAttempts.set(key, { count: 1, firstAttempt: now })
+    const emailAttempts = await store.increment(`login:${key}`, LOGIN_ATTEMPT_WINDOW_MS)
+    if (emailAttempts.value >= MAX_LOGIN_ATTEMPTS) {
+      await store.set(`login_lock:${key}`, Date.now() + LOCKOUT_DURATION_MS, LOCKOUT_DURATION_MS)
+      await store.delete(`login:${key}`)
+      logger.warn('Account locked due to failed attempts', { email, attempts: emailAttempts.value })
     }
 
     // Record for IP
-    const ipData = loginAttempts.get(ipKey)
-    if (ipData) {
-      if (now - ipData.firstAttempt > LOGIN_ATTEMPT_WINDOW_MS) {
-        loginAttempts.set(ipKey, { count: 1, firstAttempt: now })
-      } else {
-        ipData.count++
-        if (ipData.count >= MAX_LOGIN_ATTEMPTS * 2) { // IP gets more attempts (multiple accounts)
-          ipData.lockedUntil = now + LOCKOUT_DURATION_MS
-          logger.warn('IP locked due to failed attempts', { ip, attempts: ipData.count })
-        }
-      }
-    } else {
-      loginAttempts.set(ipKey, { count: 1, firstAttempt: now })
+    const ipAttempts = await store.increment(`login_ip:${ip}`, LOGIN_ATTEMPT_WINDOW_MS)
+    if (ipAttempts.value >= MAX_LOGIN_ATTEMPTS * 2) { // IP gets more attempts (multiple accounts)
+      await store.set(`login_ip_lock:${ip}`, Date.now() + LOCKOUT_DURATION_MS, LOCKOUT_DURATION_MS)
+      await store.delete(`login_ip:${ip}`)
+      logger.warn('IP locked due to failed attempts', { ip, attempts: ipAttempts.value })
     }
   }
 
   /**
-   * Clear login attempts on successful login
+   * Clear login attempts (and any account lock) on successful login or password reset
    */
-  private clearLoginAttempts(email: string): void {
-    const key = `login:${email.toLowerCase()}`
-    loginAttempts.delete(key)
+  private async clearLoginAttempts(email: string): Promise<void> {
+    const store = getKeyValueStore()
+    const key = email.toLowerCase()
+    await store.delete(`login:${key}`)
+    await store.delete(`login_lock:${key}`)
   }
 
   /**
@@ -350,23 +342,23 @@ export class AuthService {
   async login(
     email: string,
     password: string,
-    metadata?: { ip?: string; userAgent?: string }
-  ): Promise<AuthResponse> {
+    metadata?: SessionMetadata
+  ): Promise<LoginResponse> {
     const ip = metadata?.ip || 'unknown'
 
     // SECURITY: Check rate limit and lockout status
-    this.checkLoginRateLimit(email, ip)
+    await this.checkLoginRateLimit(email, ip)
 
     const user = await userRepository.findByEmail(email)
     if (!user || !user.password) {
-      this.recordFailedLogin(email, ip)
+      await this.recordFailedLogin(email, ip)
       throw new UnauthorizedError('Invalid credentials')
     }
 
     // Check password
     const isValidPassword = await bcrypt.compare(password, user.password)
     if (!isValidPassword) {
-      this.recordFailedLogin(email, ip)
+      await this.recordFailedLogin(email, ip)
       throw new UnauthorizedError('Invalid credentials')
     }
 
@@ -381,23 +373,74 @@ export class AuthService {
     }
 
     // SECURITY: Clear failed attempts on successful login
-    this.clearLoginAttempts(email)
+    await this.clearLoginAttempts(email)
+
+    // With 2FA on, the password only earns a challenge
+    if (user.twoFactorEnabled) {
+      logger.info('Password accepted, awaiting second factor', { userId: user.id })
+      return { requiresTwoFactor: true, challengeToken: signTwoFactorChallenge(user.id) }
+    }
+
+    return this.completeLogin(user, 'login', metadata)
+  }
+
+  /**
+   * Second step of a 2FA login: exchange the challenge token and a TOTP or recovery code
+   * Wrong codes count toward the same lockout as wrong passwords
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    metadata?: SessionMetadata
+  ): Promise<AuthResponse> {
+    const ip = metadata?.ip || 'unknown'
 
-    logger.info('User logged in', { userId: user.id, email: user.email })
+    const userId = verifyTwoFactorChallenge(challengeToken)
+    if (!userId) {
+      throw new UnauthorizedError('Login challenge expired. Please log in again.')
+    }
+
+    const user = await userRepository.findById(userId)
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      throw new UnauthorizedError('Login challenge expired. Please log in again.')
+    }
+
+    await this.checkLoginRateLimit(user.email, ip)
+
+    const method = await verifySecondFactor(user, code)
+    if (!method) {
+      await this.recordFailedLogin(user.email, ip)
+      throw new UnauthorizedError('Invalid authentication code')
+    }
+
+    await this.clearLoginAttempts(user.email)
+
+    return this.completeLogin(user, 'login', { ...metadata, secondFactor: method })
+  }
+
+  /**
+   * Log the sign-in and start a session
+   */
+  private async completeLogin(
+    user: User,
+    action: 'login' | 'google_login' | 'oauth_login',
+    metadata?: SessionMetadata & { secondFactor?: string; provider?: string }
+  ): Promise<AuthResponse> {
+    logger.info('User logged in', { userId: user.id, email: user.email, action })
 
     // Log activity
     await logUsage({
       userId: user.id,
-      action: 'login',
+      action,
       success: true,
       metadata,
     })
 
-    // Generate token
-    const token = signToken({ userId: user.id, email: user.email, role: user.role })
+    // Start a session
+    const tokens = await createSession(user, metadata)
 
     return {
-      token,
+      ...tokens,
       user: formatUserResponse(user),
     }
   }
@@ -444,52 +487,380 @@ export class AuthService {
     user.isActive = false
     await userRepository.save(user)
 
+    // Sign out everywhere: refresh tokens die with the sessions, access tokens with the version
+    await revokeAllSessions(user.id, 'account_deactivated')
+    await bumpTokenVersion(user.id)
+
     logger.info('User account deactivated', { userId: user.id, email: user.email })
 
     return { message: 'Account deactivated successfully' }
   }
 
   /**
-   * Login with Google OAuth
+   * Send a password reset code
+   * Always answers the same way so the endpoint cannot be used to probe for accounts
+   */
+  async forgotPassword(email: string): Promise<{ message: string }> {
+    const message = 'If the email exists, a password reset code will be sent'
+
+    const user = await userRepository.findByEmail(email)
+    if (!user || !user.isActive || !user.isEmailVerified) {
+      return { message }
+    }
+
+    // Rate limit: at most one code per minute
+    const recentReset = await emailVerificationRepository.findByUserId(user.id, 'password_reset')
+    if (recentReset && Date.now() - recentReset.createdAt.getTime() < 60 * 1000) {
+      logger.warn('Password reset requested too soon', { userId: user.id })
+      return { message }
+    }
+
+    const code = generateVerificationCode()
+    await emailVerificationRepository.createVerification(user.id, code, VERIFICATION_EXPIRY_MINUTES, 'password_reset')
+    await sendPasswordResetEmail(email, code)
+
+    logger.info('Password reset code sent', { userId: user.id, email: user.email })
+
+    return { message }
+  }
+
+  /**
+   * Set a new password with a reset code, signing the account out everywhere
    */
-  async loginWithGoogle(
-    googleId: string,
+  async resetPassword(
     email: string,
-    name?: string,
-    avatarUrl?: string
-  ): Promise<AuthResponse> {
-    // Find user by Google ID or email
-    let user = await userRepository.findByGoogleId(googleId)
+    code: string,
+    newPassword: string,
+    metadata?: SessionMetadata
+  ): Promise<{ message: string }> {
+    const invalidCode = new ValidationError('Invalid or expired reset code')
 
+    const user = await userRepository.findByEmail(email)
+    if (!user || !user.isActive) {
+      throw invalidCode
+    }
+
+    const reset = await emailVerificationRepository.findByUserId(user.id, 'password_reset')
+    if (!reset || reset.expiresAt.getTime() <= Date.now()) {
+      throw invalidCode
+    }
+
+    const discardCode = async () => {
+      await emailVerificationRepository.deleteByUserId(user.id, 'password_reset')
+      logger.warn('Password reset code discarded after failed attempts', { userId: user.id })
+    }
+
+    // SECURITY: a 6-digit code only holds up if guesses are capped - the guess is counted before the code is compared
+    if (!(await emailVerificationRepository.claimAttempt(reset.id, MAX_RESET_CODE_ATTEMPTS))) {
+      await discardCode()
+      throw invalidCode
+    }
+
+    if (reset.code !== code) {
+      if (reset.attempts + 1 >= MAX_RESET_CODE_ATTEMPTS) {
+        await discardCode()
+      }
+      throw invalidCode
+    }
+
+    // Only the password column: a save of the row loaded before the hash would undo balance or version changes made meanwhile
+    await userRepository.update(user.id, { password: await bcrypt.hash(newPassword, 12) })
+    await emailVerificationRepository.deleteByUserId(user.id, 'password_reset')
+
+    // The reset proves control of the mailbox, so lift any login lockout too
+    await this.clearLoginAttempts(email)
+
+    await this.signOutEverywhere(user.id)
+
+    logger.info('Password reset', { userId: user.id, email: user.email })
+
+    await logUsage({
+      userId: user.id,
+      action: 'password_reset',
+      success: true,
+      metadata,
+    })
+
+    await sendPasswordChangedEmail(user.email, { method: 'reset', ...metadata, changedAt: new Date() })
+
+    return { message: 'Password has been reset. Please log in with your new password.' }
+  }
+
+  /**
+   * Change the password of a logged-in user
+   * Every session is signed out; the caller gets a fresh one
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    metadata?: SessionMetadata
+  ): Promise<ChangePasswordResponse> {
+    const user = await userRepository.findById(userId)
     if (!user) {
-      // Check if email already exists (link accounts)
-      user = await userRepository.findByEmail(email)
+      throw new NotFoundError('User')
+    }
+
+    if (!user.password) {
+      throw new ValidationError('This account has no password yet. Use password reset to set one.')
+    }
+
+    const isValidPassword = await bcrypt.compare(currentPassword, user.password)
+    if (!isValidPassword) {
+      throw new ValidationError('Current password is incorrect')
+    }
+
+    if (await bcrypt.compare(newPassword, user.password)) {
+      throw new ValidationError('New password must be different from the current password')
+    }
+
+    await userRepository.update(user.id, { password: await bcrypt.hash(newPassword, 12) })
+
+    await this.signOutEverywhere(user.id)
+    user.tokenVersion = (user.tokenVersion ?? 0) + 1
+    const tokens = await createSession(user, metadata)
+
+    logger.info('Password changed', { userId: user.id })
+
+    await logUsage({
+      userId: user.id,
+      action: 'password_change',
+      success: true,
+      metadata,
+    })
+
+    await sendPasswordChangedEmail(user.email, { method: 'change', ...metadata, changedAt: new Date() })
+
+    return {
+      message: 'Password changed. Other sessions have been signed out.',
+      ...tokens,
+      user: formatUserResponse(user),
+    }
+  }
+
+  /**
+   * Revoke every session and invalidate every access token of a user
+   */
+  private async signOutEverywhere(userId: string): Promise<void> {
+    await revokeAllSessions(userId, 'password_changed')
+    await bumpTokenVersion(userId)
+  }
+
+  /**
+   * Sign in with an account from an external provider (Google, GitHub, Microsoft, company IdP)
+   * A new account starts verified, with the welcome bonus, only when the provider verified the email;
+   * otherwise it goes through the usual email code first
+   */
+  async loginWithIdentity(
+    identity: ExternalIdentity,
+    metadata?: SessionMetadata
+  ): Promise<IdentityLoginResponse> {
+    const linked = await userIdentityRepository.findByProviderSubject(identity.provider, identity.subject)
+    let user: User | null
+
+    if (linked) {
+      user = await userRepository.findById(linked.userId)
+      if (!user) {
+        throw new UnauthorizedError('Account not found')
+      }
+      await userIdentityRepository.touchLogin(linked.id, identity.email, identity.emailVerified)
+    } else {
+      if (!identity.email) {
+        throw new ValidationError('Your account at this provider has no email address')
+      }
+
+      user = await userRepository.findByEmail(identity.email)
       if (user) {
-        // Link Google ID to existing account
-        user.googleId = googleId
-        if (avatarUrl) user.avatarUrl = avatarUrl
-        if (!user.isEmailVerified) user.isEmailVerified = true
-        await userRepository.save(user)
+        // SECURITY: only a provider-verified email proves this is the same person
+        if (!identity.emailVerified) {
+          throw new ConflictError('An account with this email already exists. Sign in and link this provider from your account settings.')
+        }
+        if (!user.isEmailVerified) {
+          // Someone registered this email without confirming it; drop their password so they cannot sign in later
+          user.password = null
+          user.isEmailVerified = true
+          await userRepository.update(user.id, { password: null, isEmailVerified: true })
+          await emailVerificationRepository.deleteByUserId(user.id)
+          await this.grantWelcomeBonusOnce(user)
+        }
       } else {
-        // Create new user
         user = await userRepository.create({
-          email,
-          googleId,
-          name: name || null,
-          avatarUrl: avatarUrl || null,
-          password: null,
-          isEmailVerified: true, // Google accounts are pre-verified
+          email: identity.email,
+          name: identity.name,
+          avatarUrl: identity.avatarUrl,
+          password: null, // No password for provider accounts
+          isEmailVerified: identity.emailVerified,
         })
+        if (user.isEmailVerified) {
+          await this.grantWelcomeBonusOnce(user)
+        }
       }
-      logger.info('Google OAuth user created/linked', { userId: user.id, email })
+
+      await this.createIdentity(user.id, identity)
+      logger.info('External account linked on sign-in', { userId: user.id, provider: identity.provider })
     }
 
-    // Generate token
-    const token = signToken({ userId: user.id, email: user.email, role: user.role })
+    // Check if active
+    if (!user.isActive) {
+      throw new UnauthorizedError('Account is disabled')
+    }
+
+    if (!user.isEmailVerified) {
+      return this.sendIdentityVerification(user, linked === null, metadata)
+    }
+
+    // Fill in profile details the account does not have yet
+    if ((!user.name && identity.name) || (!user.avatarUrl && identity.avatarUrl)) {
+      user.name = user.name || identity.name
+      user.avatarUrl = user.avatarUrl || identity.avatarUrl
+      await userRepository.update(user.id, { name: user.name, avatarUrl: user.avatarUrl })
+    }
+
+    // 2FA accounts finish signing in at /api/auth/2fa/verify
+    if (user.twoFactorEnabled) {
+      logger.info('External sign-in awaiting second factor', { userId: user.id, provider: identity.provider })
+      return { requiresTwoFactor: true, challengeToken: signTwoFactorChallenge(user.id) }
+    }
+
+    return this.completeLogin(
+      user,
+      identity.provider === 'google' ? 'google_login' : 'oauth_login',
+      { ...metadata, provider: identity.provider }
+    )
+  }
+
+  /**
+   * Email code for an account created from a provider that did not verify the email
+   * The account is finished at /api/auth/verify-email like a password registration
+   */
+  private async sendIdentityVerification(
+    user: User,
+    isNewAccount: boolean,
+    metadata?: SessionMetadata
+  ): Promise<RegisterResponse> {
+    if (isNewAccount) {
+      const code = generateVerificationCode()
+      await emailVerificationRepository.createVerification(user.id, code, VERIFICATION_EXPIRY_MINUTES)
+      await sendVerificationEmail(user.email, code)
+
+      await logUsage({
+        userId: user.id,
+        action: 'register',
+        success: true,
+        metadata,
+      })
+    }
 
     return {
-      token,
-      user: formatUserResponse(user),
+      message: 'Please verify your email before logging in',
+      email: user.email,
+      requiresVerification: true,
+    }
+  }
+
+  /**
+   * Link an external account to a signed-in user
+   */
+  async linkIdentity(userId: string, identity: ExternalIdentity, metadata?: SessionMetadata): Promise<void> {
+    const existing = await userIdentityRepository.findByProviderSubject(identity.provider, identity.subject)
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new ConflictError('This account is already linked to another user')
+      }
+      await userIdentityRepository.touchLogin(existing.id, identity.email, identity.emailVerified)
+      return
+    }
+
+    if (await userIdentityRepository.findByUserAndProvider(userId, identity.provider)) {
+      throw new ConflictError('Another account from this provider is already linked. Unlink it first.')
+    }
+
+    await this.createIdentity(userId, identity)
+
+    logger.info('External account linked', { userId, provider: identity.provider })
+
+    await logUsage({
+      userId,
+      action: 'identity_link',
+      success: true,
+      metadata: { ...metadata, provider: identity.provider },
+    })
+  }
+
+  /**
+   * Remove a linked external account
+   * Refuses to remove the last way to sign in
+   */
+  async unlinkIdentity(userId: string, provider: string, metadata?: SessionMetadata): Promise<void> {
+    const identity = await userIdentityRepository.findByUserAndProvider(userId, provider)
+    if (!identity) {
+      throw new NotFoundError('Linked account')
+    }
+
+    const user = await userRepository.findById(userId)
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+
+    if (!user.password && (await userIdentityRepository.countByUserId(userId)) <= 1) {
+      throw new ConflictError('Set a password or link another account before removing your only sign-in method')
+    }
+
+    await userIdentityRepository.delete(identity.id)
+
+    logger.info('External account unlinked', { userId, provider })
+
+    await logUsage({
+      userId,
+      action: 'identity_unlink',
+      success: true,
+      metadata: { ...metadata, provider },
+    })
+  }
+
+  /**
+   * Linked external accounts and whether the user can also sign in with a password
+   */
+  async getIdentities(userId: string): Promise<IdentitiesResponse> {
+    const user = await userRepository.findById(userId)
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+
+    const identities = await userIdentityRepository.findByUserId(userId)
+    return {
+      hasPassword: !!user.password,
+      identities: identities.map((identity) => ({
+        provider: identity.provider,
+        email: identity.email,
+        lastLoginAt: identity.lastLoginAt,
+        createdAt: identity.createdAt,
+      })),
+    }
+  }
+
+  private async createIdentity(userId: string, identity: ExternalIdentity): Promise<void> {
+    await userIdentityRepository.create({
+      userId,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      emailVerified: identity.emailVerified,
+      lastLoginAt: new Date(),
+    })
+  }
+
+  /**
+   * Grant the welcome bonus the first time an account has a verified email
+   */
+  private async grantWelcomeBonusOnce(user: User): Promise<void> {
+    if (user.hasReceivedWelcomeBonus) return
+
+    const bonus = await grantWelcomeBonus(user.id, WELCOME_BONUS_TOKENS)
+    if (bonus) {
+      user.tokenBalance = bonus.balanceAfter
+      user.hasReceivedWelcomeBonus = true
+      logger.info('Welcome bonus granted', { userId: user.id, tokens: WELCOME_BONUS_TOKENS })
     }
   }
 }
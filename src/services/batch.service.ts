@@ -0,0 +1,726 @@
+import { In, IsNull, LessThan, LessThanOrEqual, MoreThan } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import {
+  ApiKey,
+  ApiKeyScope,
+  Batch,
+  BatchEndpoint,
+  BatchError,
+  BatchRequest,
+  BatchRequestStatus,
+  BATCH_ENDPOINTS,
+  User,
+} from '../entities'
+import { AppError, ForbiddenError, InsufficientQuotaError, NotFoundError, ValidationError } from '../errors/app.error'
+import { isModelAllowed } from '../middlewares/apikey.middleware'
+import { hasBudget, checkKeyBudget } from './api-key-budget.service'
+import { getUserFile, readApiFile, writeApiFile, ApiFileOwner, ListPageInput } from './api-file.service'
+import {
+  prepareChatCompletion,
+  callChatUpstream,
+  settleChatCompletion,
+  requestedChatModel,
+  ChatCompletionError,
+  ApiUser,
+} from './chat-completion.service'
+import { releaseReservation } from './credit-reservation.service'
+import { generateImages, parseAsyncOptions, parseImageOptions, parsePrompt, ImageParamError } from './openai-image.service'
+import { readBatchInput, validateBatchInput, toJsonl, BatchInputRequest } from '../utils/batch-input'
+import { OpenAIErrorType } from '../utils/openai-error'
+import { validate } from '../utils/validation'
+import { UpstreamUsage } from '../utils/tokenizer'
+import { normalizeChatCompletion } from '../utils/tool-calls'
+import { logger } from '../utils/logger'
+
+// Requests run against KIE at the same time, across all batches
+const BATCH_CONCURRENCY = Math.max(1, parseInt(process.env.BATCH_CONCURRENCY || '4'))
+const WORKER_INTERVAL_MS = 5 * 1000
+const MAX_REQUESTS_PER_PASS = 50
+
+const COMPLETION_WINDOWS: Record<string, number> = { '24h': 24 * 60 * 60 * 1000 }
+
+// A request still running after this long was interrupted (restart, crash); it is failed, not retried
+const RUNNING_TIMEOUT_MS = 15 * 60 * 1000
+// Upstream chat calls give up well before that, so a live worker always writes its own result
+const UPSTREAM_TIMEOUT_MS = 10 * 60 * 1000
+
+const INSERT_CHUNK_SIZE = 500
+const RESULT_PAGE_SIZE = 1000
+
+const MAX_METADATA_KEYS = 16
+const MAX_METADATA_KEY_LENGTH = 64
+const MAX_METADATA_VALUE_LENGTH = 512
+
+const ENDPOINT_SCOPES: Record<BatchEndpoint, ApiKeyScope> = {
+  '/v1/chat/completions': 'chat:write',
+  '/v1/images/generations': 'images:write',
+}
+
+// Keys with any of these may use the files and batches endpoints
+export const BATCH_SCOPES: ApiKeyScope[] = [...new Set(Object.values(ENDPOINT_SCOPES))]
+
+const batchRepository = () => AppDataSource.getRepository(Batch)
+const requestRepository = () => AppDataSource.getRepository(BatchRequest)
+
+const toUnixSeconds = (date: Date | null) => (date ? Math.floor(new Date(date).getTime() / 1000) : null)
+
+export interface CreateBatchInput {
+  inputFileId: unknown
+  endpoint: unknown
+  completionWindow: unknown
+  metadata?: unknown
+}
+
+/**
+ * A rejected batch or batch request, with the OpenAI error type and param
+ */
+export class BatchRequestError extends AppError {
+  constructor(
+    statusCode: number,
+    message: string,
+    public readonly type: OpenAIErrorType,
+    code: string,
+    public readonly param?: string
+  ) {
+    super(statusCode, message, code)
+  }
+}
+
+// Key, user and budget a batch's requests run with; resolved once per worker pass
+interface BatchContext {
+  batch: Batch
+  apiUser: ApiUser | null
+  error: BatchRequestError | null
+}
+
+/**
+ * Shape returned by the /v1/batches endpoints (OpenAI batch object)
+ */
+export function formatBatch(batch: Batch) {
+  return {
+    id: batch.id,
+    object: 'batch',
+    endpoint: batch.endpoint,
+    errors: batch.errors?.length ? { object: 'list', data: batch.errors } : null,
+    input_file_id: batch.inputFileId,
+    completion_window: batch.completionWindow,
+    status: batch.status,
+    output_file_id: batch.outputFileId,
+    error_file_id: batch.errorFileId,
+    created_at: toUnixSeconds(batch.createdAt),
+    in_progress_at: toUnixSeconds(batch.inProgressAt),
+    expires_at: toUnixSeconds(batch.expiresAt),
+    finalizing_at: toUnixSeconds(batch.finalizingAt),
+    completed_at: toUnixSeconds(batch.completedAt),
+    failed_at: toUnixSeconds(batch.failedAt),
+    expired_at: toUnixSeconds(batch.expiredAt),
+    cancelling_at: toUnixSeconds(batch.cancellingAt),
+    cancelled_at: toUnixSeconds(batch.cancelledAt),
+    request_counts: {
+      total: batch.totalRequests,
+      completed: batch.completedRequests,
+      failed: batch.failedRequests,
+    },
+    metadata: batch.metadata,
+  }
+}
+
+/**
+ * One line of the output or error file
+ */
+export function formatBatchResult(request: BatchRequest) {
+  const id = `batch_req_${request.id.replace(/-/g, '')}`
+
+  // Never executed: the batch was cancelled or expired first
+  if (request.statusCode === null) {
+    return {
+      id,
+      custom_id: request.customId,
+      response: null,
+      error: {
+        code: `batch_${request.status}`,
+        message: request.status === 'expired'
+          ? 'This request could not be executed before the completion window expired.'
+          : 'This request was not executed because the batch was cancelled.',
+      },
+    }
+  }
+
+  return {
+    id,
+    custom_id: request.customId,
+    response: { status_code: request.statusCode, request_id: request.id, body: request.response },
+    error: null,
+  }
+}
+
+function parseMetadata(metadata: unknown): Record<string, string> | null {
+  if (metadata === undefined || metadata === null) return null
+
+  const invalid = () => new BatchRequestError(
+    400,
+    `metadata must be an object of at most ${MAX_METADATA_KEYS} string values ` +
+      `(keys up to ${MAX_METADATA_KEY_LENGTH}, values up to ${MAX_METADATA_VALUE_LENGTH} characters)`,
+    'invalid_request_error',
+    'invalid_value',
+    'metadata'
+  )
+  if (typeof metadata !== 'object' || Array.isArray(metadata)) throw invalid()
+
+  const entries = Object.entries(metadata)
+  if (entries.length > MAX_METADATA_KEYS) throw invalid()
+  for (const [key, value] of entries) {
+    if (key.length > MAX_METADATA_KEY_LENGTH || typeof value !== 'string' || value.length > MAX_METADATA_VALUE_LENGTH) {
+      throw invalid()
+    }
+  }
+  return metadata as Record<string, string>
+}
+
+/**
+ * Create a batch for an uploaded input file; the worker validates the file and runs it
+ * @throws BatchRequestError for invalid parameters, a missing file or a key without the endpoint's scope
+ */
+export async function createBatch(apiUser: ApiUser, input: CreateBatchInput): Promise<Batch> {
+  if (!BATCH_ENDPOINTS.includes(input.endpoint as BatchEndpoint)) {
+    throw new BatchRequestError(400, `endpoint must be one of ${BATCH_ENDPOINTS.join(', ')}`, 'invalid_request_error', 'invalid_value', 'endpoint')
+  }
+  const endpoint = input.endpoint as BatchEndpoint
+
+  const completionWindow = input.completionWindow as string
+  if (!Object.prototype.hasOwnProperty.call(COMPLETION_WINDOWS, completionWindow)) {
+    throw new BatchRequestError(400, `completion_window must be one of ${Object.keys(COMPLETION_WINDOWS).join(', ')}`, 'invalid_request_error', 'invalid_value', 'completion_window')
+  }
+
+  const metadata = parseMetadata(input.metadata)
+
+  const scope = ENDPOINT_SCOPES[endpoint]
+  if (!apiUser.scopes.includes(scope)) {
+    throw new BatchRequestError(403, `This API key does not have the required scope: ${scope}.`, 'permission_error', 'insufficient_scope')
+  }
+
+  const fileId = typeof input.inputFileId === 'string' ? input.inputFileId : ''
+  const file = validate.isUUID(fileId) ? await getUserFile(apiUser, fileId) : null
+  if (!file || file.purpose !== 'batch') {
+    throw new BatchRequestError(400, `No batch input file found with id '${fileId}'`, 'invalid_request_error', 'invalid_file', 'input_file_id')
+  }
+
+  const batch = await batchRepository().save(batchRepository().create({
+    userId: apiUser.userId,
+    apiKeyId: apiUser.apiKeyId,
+    organizationId: apiUser.organizationId ?? null,
+    endpoint,
+    status: 'validating',
+    inputFileId: file.id,
+    completionWindow,
+    metadata,
+    expiresAt: new Date(Date.now() + COMPLETION_WINDOWS[completionWindow]),
+  }))
+
+  logger.info('Batch created', { batchId: batch.id, userId: apiUser.userId, endpoint, inputFileId: file.id })
+  return batch
+}
+
+/**
+ * Scope a key needs to read or cancel this batch
+ */
+export function batchScope(batch: Batch): ApiKeyScope {
+  return ENDPOINT_SCOPES[batch.endpoint]
+}
+
+export async function getUserBatch(owner: ApiFileOwner, batchId: string): Promise<Batch | null> {
+  return batchRepository().findOne({
+    where: { id: batchId, userId: owner.userId, organizationId: owner.organizationId ?? IsNull() },
+  })
+}
+
+/**
+ * The owner's batches, newest first, in pages after a cursor
+ */
+export async function listUserBatches(owner: ApiFileOwner, page: ListPageInput) {
+  const cursor = page.after ? await getUserBatch(owner, page.after) : null
+  const batches = await batchRepository().find({
+    where: {
+      userId: owner.userId,
+      organizationId: owner.organizationId ?? IsNull(),
+      ...(cursor && { createdAt: LessThan(cursor.createdAt) }),
+    },
+    order: { createdAt: 'DESC' },
+    take: page.limit + 1,
+  })
+
+  const data = batches.slice(0, page.limit)
+  return {
+    object: 'list',
+    data: data.map(formatBatch),
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+    has_more: batches.length > page.limit,
+  }
+}
+
+/**
+ * Stop a batch: requests not yet started are cancelled, running ones finish,
+ * and the worker writes the results so far once they have
+ * @throws BatchRequestError when the batch already finished
+ */
+export async function cancelBatch(batch: Batch): Promise<Batch> {
+  if (batch.status === 'cancelling' || batch.status === 'cancelled') return batch
+
+  const claimed = await batchRepository().update(
+    { id: batch.id, status: In(['validating', 'in_progress']) },
+    { status: 'cancelling', cancellingAt: new Date() }
+  )
+  if (!claimed.affected) {
+    const current = await getUserBatch(batch, batch.id)
+    throw new BatchRequestError(
+      409,
+      `Cannot cancel a batch with status '${current?.status ?? batch.status}'.`,
+      'invalid_request_error',
+      'invalid_batch_status'
+    )
+  }
+
+  await requestRepository().update({ batchId: batch.id, status: 'pending' }, { status: 'cancelled', completedAt: new Date() })
+  logger.info('Batch cancelling', { batchId: batch.id, userId: batch.userId })
+
+  return (await getUserBatch(batch, batch.id))!
+}
+
+async function failBatch(batch: Batch, errors: BatchError[]): Promise<void> {
+  await batchRepository().update(
+    { id: batch.id, status: 'validating' },
+    { status: 'failed', failedAt: new Date(), errors }
+  )
+  logger.warn('Batch failed validation', { batchId: batch.id, errors: errors.length })
+}
+
+/**
+ * Read the input file of a validating batch into one pending request per line
+ * The file is checked first, then inserted a chunk at a time without keeping every request in memory
+ */
+async function startBatch(batch: Batch): Promise<void> {
+  const file = await getUserFile(batch, batch.inputFileId)
+  const content = file ? await readApiFile(file) : null
+  if (!content) {
+    return failBatch(batch, [{ code: 'missing_file', message: 'The input file could not be read' }])
+  }
+
+  const input = validateBatchInput(content)
+  if (input.errors.length) {
+    return failBatch(batch, input.errors)
+  }
+  if (input.endpoint !== batch.endpoint) {
+    return failBatch(batch, [{
+      code: 'mismatched_endpoint',
+      message: `The input file targets ${input.endpoint}, but the batch endpoint is ${batch.endpoint}`,
+    }])
+  }
+
+  await AppDataSource.transaction(async (manager) => {
+    // A batch cancelled while validating is never started
+    const claimed = await manager.update(
+      Batch,
+      { id: batch.id, status: 'validating' },
+      { status: 'in_progress', inProgressAt: new Date(), totalRequests: input.requestCount }
+    )
+    if (!claimed.affected) return
+
+    const insertChunk = (requests: BatchInputRequest[]) => manager.insert(BatchRequest, requests.map((request) => ({
+      batchId: batch.id,
+      line: request.line,
+      customId: request.customId,
+      body: request.body,
+      status: 'pending' as const,
+    })))
+
+    let chunk: BatchInputRequest[] = []
+    for (const entry of readBatchInput(content)) {
+      if (!entry.request) continue
+      chunk.push(entry.request)
+      if (chunk.length >= INSERT_CHUNK_SIZE) {
+        await insertChunk(chunk)
+        chunk = []
+      }
+    }
+    if (chunk.length) await insertChunk(chunk)
+  })
+
+  logger.info('Batch started', { batchId: batch.id, requests: input.requestCount })
+}
+
+/**
+ * Resolve the key a batch runs with; a revoked key or exhausted budget fails its remaining requests
+ */
+async function loadBatchContext(batch: Batch): Promise<BatchContext> {
+  const context: BatchContext = { batch, apiUser: null, error: null }
+
+  const key = await AppDataSource.getRepository(ApiKey).findOne({ where: { id: batch.apiKeyId, isActive: true } })
+  const user = key ? await AppDataSource.getRepository(User).findOne({ where: { id: key.userId, isActive: true } }) : null
+  if (!key || !user || (key.expiresAt && key.expiresAt.getTime() <= Date.now())) {
+    context.error = new BatchRequestError(401, 'The API key this batch was created with is no longer valid.', 'authentication_error', 'invalid_api_key')
+    return context
+  }
+
+  const scope = ENDPOINT_SCOPES[batch.endpoint]
+  if (!key.scopes.includes(scope)) {
+    context.error = new BatchRequestError(403, `This API key does not have the required scope: ${scope}.`, 'permission_error', 'insufficient_scope')
+    return context
+  }
+
+  if (hasBudget(key)) {
+    const budget = await checkKeyBudget(key)
+    if (budget.exceeded) {
+      const { period, metric, limit } = budget.exceeded
+      context.error = new BatchRequestError(
+        429,
+        `This API key has reached its ${period} ${metric === 'usd' ? `spend limit ($${limit})` : `token limit (${limit})`}.`,
+        'insufficient_quota',
+        'api_key_budget_exceeded'
+      )
+      return context
+    }
+  }
+
+  context.apiUser = {
+    userId: key.userId,
+    user,
+    apiKeyId: key.id,
+    organizationId: key.organizationId ?? null,
+    scopes: key.scopes,
+    allowedModels: key.allowedModels,
+  }
+  return context
+}
+
+async function executeChatRequest(batch: Batch, request: BatchRequest, apiUser: ApiUser) {
+  const body = request.body
+  const model = requestedChatModel(body)
+  if (!isModelAllowed(apiUser, model)) {
+    throw new BatchRequestError(403, `This API key is not allowed to use the model \`${model}\`.`, 'permission_error', 'model_not_allowed', 'model')
+  }
+  if (body.stream) {
+    throw new BatchRequestError(400, 'Streaming is not supported in batch requests.', 'invalid_request_error', 'invalid_value', 'stream')
+  }
+
+  const prepared = await prepareChatCompletion({ apiUser, body, batchId: batch.id })
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS)
+  try {
+    await requestRepository().update(request.id, { reservationId: prepared.reservationId })
+    const upstream = await callChatUpstream(prepared, controller.signal)
+    const data = (await upstream.json()) as { usage?: UpstreamUsage; choices?: unknown[] }
+    // Billed once the result is written; a request the interrupted sweep failed has had its hold released
+    const settle = () => settleChatCompletion(prepared, normalizeChatCompletion(data), data.usage).catch(async (error) => {
+      logger.error('Failed to settle batch chat request', error as Error)
+      await releaseReservation(prepared.reservationId, 'internal_error').catch(() => {})
+    })
+    return { response: data, settle }
+  } catch (error) {
+    // callChatUpstream releases the hold itself when the upstream rejects the request
+    if (!(error instanceof ChatCompletionError)) {
+      await releaseReservation(prepared.reservationId, 'internal_error').catch(() => {})
+    }
+    if ((error as Error).name === 'AbortError') {
+      throw new BatchRequestError(504, 'The upstream request timed out.', 'api_error', 'upstream_timeout')
+    }
+    throw error
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+async function executeImageRequest(apiUser: ApiUser, body: Record<string, unknown>) {
+  const prompt = parsePrompt(body)
+  const options = parseImageOptions(body)
+  if (parseAsyncOptions(body, options).async) {
+    throw new BatchRequestError(400, 'async is not supported in batch requests.', 'invalid_request_error', 'invalid_value', 'async')
+  }
+
+  const data = await generateImages({
+    userId: apiUser.userId,
+    organizationId: apiUser.organizationId,
+    apiKeyId: apiUser.apiKeyId,
+    prompt,
+    options,
+  })
+  return { created: Math.floor(Date.now() / 1000), data }
+}
+
+/**
+ * Status and OpenAI error body an endpoint would have answered a failed request with
+ */
+export function toErrorResponse(error: unknown): { statusCode: number; body: Record<string, any> } {
+  const body = (status: number, message: string, type: OpenAIErrorType, code: string, param?: string) => ({
+    statusCode: status,
+    body: { error: { message, type, ...(param && { param }), code } },
+  })
+
+  if (error instanceof BatchRequestError || error instanceof ChatCompletionError) {
+    return body(error.statusCode, error.message, error.type, error.code, error.param)
+  }
+  if (error instanceof ImageParamError) {
+    return body(400, error.message, 'invalid_request_error', error.openaiCode, error.param)
+  }
+  if (error instanceof InsufficientQuotaError) {
+    return body(402, error.message, 'insufficient_quota', error.code)
+  }
+  if (error instanceof ForbiddenError) {
+    return body(403, error.message, 'permission_error', 'permission_denied')
+  }
+  if (error instanceof NotFoundError) {
+    return body(404, error.message, 'invalid_request_error', 'not_found')
+  }
+  if (error instanceof ValidationError) {
+    return body(400, error.message, 'invalid_request_error', 'invalid_request')
+  }
+  if (error instanceof AppError && (error.code === 'generation_failed' || error.code === 'timeout')) {
+    return body(error.statusCode, error.message, 'api_error', error.code)
+  }
+  logger.error('Batch request error', error as Error)
+  return body(500, 'Internal server error', 'api_error', 'internal_error')
+}
+
+/**
+ * Run one pending request and record its result; billed like the endpoint it targets
+ */
+async function runRequest(context: BatchContext, request: BatchRequest): Promise<void> {
+  const claimed = await requestRepository().update(
+    { id: request.id, status: 'pending' },
+    { status: 'running', startedAt: new Date() }
+  )
+  if (!claimed.affected) return
+
+  let status: BatchRequestStatus
+  let statusCode: number
+  let response: Record<string, any>
+  let settle: (() => Promise<unknown>) | undefined
+  try {
+    if (context.error) throw context.error
+    const { batch, apiUser } = context
+    if (batch.endpoint === '/v1/chat/completions') {
+      ({ response, settle } = await executeChatRequest(batch, request, apiUser!))
+    } else {
+      response = await executeImageRequest(apiUser!, request.body)
+    }
+    status = 'completed'
+    statusCode = 200
+  } catch (error) {
+    ({ statusCode, body: response } = toErrorResponse(error))
+    status = 'failed'
+  }
+
+  const written = await requestRepository().update(
+    { id: request.id, status: 'running' },
+    { status, statusCode, response, completedAt: new Date() }
+  )
+  // The interrupted sweep already failed and counted this request
+  if (!written.affected) return
+
+  await settle?.()
+  await batchRepository().increment(
+    { id: request.batchId },
+    status === 'completed' ? 'completedRequests' : 'failedRequests',
+    1
+  )
+}
+
+// Run `worker` over `items` with at most `limit` in flight
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++]
+      await worker(item).catch((error) => logger.error('Batch worker lane error', error as Error))
+    }
+  })
+  await Promise.all(lanes)
+}
+
+/**
+ * Pending requests of running batches, oldest batch first, up to one pass worth
+ */
+async function runPendingRequests(): Promise<void> {
+  const batches = await batchRepository().find({ where: { status: 'in_progress' }, order: { createdAt: 'ASC' } })
+  const work: Array<{ context: BatchContext; request: BatchRequest }> = []
+
+  for (const batch of batches) {
+    if (work.length >= MAX_REQUESTS_PER_PASS) break
+    const requests = await requestRepository().find({
+      where: { batchId: batch.id, status: 'pending' },
+      order: { line: 'ASC' },
+      take: MAX_REQUESTS_PER_PASS - work.length,
+    })
+    if (!requests.length) continue
+
+    const context = await loadBatchContext(batch)
+    work.push(...requests.map((request) => ({ context, request })))
+  }
+
+  await runWithConcurrency(work, BATCH_CONCURRENCY, ({ context, request }) => runRequest(context, request))
+}
+
+/**
+ * Fail requests left running by a stopped worker and release their credit holds; re-running them could bill twice
+ * Image requests hold credits per generation job, which the generation job worker settles or releases
+ */
+async function failInterruptedRequests(): Promise<void> {
+  const interrupted = await requestRepository().find({
+    where: { status: 'running', startedAt: LessThanOrEqual(new Date(Date.now() - RUNNING_TIMEOUT_MS)) },
+  })
+  for (const request of interrupted) {
+    const { statusCode, body } = toErrorResponse(
+      new BatchRequestError(500, 'The request was interrupted before it finished.', 'api_error', 'request_interrupted')
+    )
+    const claimed = await requestRepository().update(
+      { id: request.id, status: 'running' },
+      { status: 'failed', statusCode, response: body, completedAt: new Date() }
+    )
+    if (claimed.affected) {
+      if (request.reservationId) {
+        await releaseReservation(request.reservationId, 'interrupted')
+      }
+      await batchRepository().increment({ id: request.batchId }, 'failedRequests', 1)
+    }
+  }
+}
+
+/**
+ * Expire the requests of batches whose completion window has passed
+ */
+async function expireBatches(): Promise<void> {
+  const expired = await batchRepository().find({
+    where: { status: In(['validating', 'in_progress']), expiresAt: LessThanOrEqual(new Date()) },
+  })
+  for (const batch of expired) {
+    if (batch.status === 'validating') {
+      await batchRepository().update({ id: batch.id, status: 'validating' }, { status: 'expired', expiredAt: new Date() })
+      continue
+    }
+    await requestRepository().update({ batchId: batch.id, status: 'pending' }, { status: 'expired', completedAt: new Date() })
+  }
+}
+
+/**
+ * Result lines of one kind, in line order, serialised a page at a time; tallies the statuses it reads
+ */
+async function* resultPages(
+  batchId: string,
+  statuses: BatchRequestStatus[],
+  counts: Partial<Record<BatchRequestStatus, number>>
+): AsyncGenerator<Buffer> {
+  let afterLine = 0
+  for (;;) {
+    const page = await requestRepository().find({
+      where: { batchId, status: In(statuses), line: MoreThan(afterLine) },
+      order: { line: 'ASC' },
+      take: RESULT_PAGE_SIZE,
+    })
+    if (!page.length) return
+
+    for (const request of page) {
+      counts[request.status] = (counts[request.status] ?? 0) + 1
+    }
+    yield toJsonl(page.map(formatBatchResult))
+
+    if (page.length < RESULT_PAGE_SIZE) return
+    afterLine = page[page.length - 1].line
+  }
+}
+
+/**
+ * Write the output and error files of a batch whose requests have all finished
+ */
+async function finalizeBatch(batch: Batch): Promise<void> {
+  const cancelling = batch.status === 'cancelling'
+  if (!cancelling) {
+    const claimed = await batchRepository().update(
+      { id: batch.id, status: 'in_progress' },
+      { status: 'finalizing', finalizingAt: new Date() }
+    )
+    if (!claimed.affected) return
+  }
+
+  try {
+    const counts: Partial<Record<BatchRequestStatus, number>> = {}
+    const writeResults = (purpose: 'batch_output' | 'batch_error', suffix: string, statuses: BatchRequestStatus[]) =>
+      writeApiFile(
+        { userId: batch.userId, organizationId: batch.organizationId, purpose, filename: `batch_${batch.id}_${suffix}.jsonl` },
+        resultPages(batch.id, statuses, counts)
+      )
+    const outputFile = await writeResults('batch_output', 'output', ['completed'])
+    const errorFile = await writeResults('batch_error', 'error', ['failed', 'cancelled', 'expired'])
+
+    const completed = counts.completed ?? 0
+    const failed = counts.failed ?? 0
+    const now = new Date()
+    const finalStatus = cancelling ? 'cancelled' : counts.expired ? 'expired' : 'completed'
+    await batchRepository().update(
+      { id: batch.id, status: cancelling ? 'cancelling' : 'finalizing' },
+      {
+        status: finalStatus,
+        outputFileId: outputFile?.id ?? null,
+        errorFileId: errorFile?.id ?? null,
+        completedRequests: completed,
+        failedRequests: failed,
+        ...(finalStatus === 'cancelled' && { cancelledAt: now }),
+        ...(finalStatus === 'expired' && { expiredAt: now }),
+        ...(finalStatus === 'completed' && { completedAt: now }),
+      }
+    )
+
+    logger.info('Batch finished', { batchId: batch.id, status: finalStatus, completed, failed })
+  } catch (error) {
+    // Retry on the next pass
+    if (!cancelling) {
+      await batchRepository().update({ id: batch.id, status: 'finalizing' }, { status: 'in_progress', finalizingAt: null })
+    }
+    throw error
+  }
+}
+
+async function finalizeFinishedBatches(): Promise<void> {
+  const batches = await batchRepository().find({ where: { status: In(['in_progress', 'cancelling']) } })
+  for (const batch of batches) {
+    const open = await requestRepository().count({ where: { batchId: batch.id, status: In(['pending', 'running']) } })
+    if (open > 0) continue
+    await finalizeBatch(batch)
+  }
+}
+
+let workerRunning = false
+
+/**
+ * One worker pass: start validating batches, run pending requests, then finalize finished batches
+ */
+export async function processBatches(): Promise<void> {
+  if (workerRunning) return
+  workerRunning = true
+
+  try {
+    const validating = await batchRepository().find({ where: { status: 'validating', expiresAt: MoreThan(new Date()) } })
+    for (const batch of validating) {
+      await startBatch(batch).catch((error) => logger.error('Batch start failed', error as Error))
+    }
+
+    await failInterruptedRequests()
+    await expireBatches()
+    await runPendingRequests()
+    await finalizeFinishedBatches()
+  } finally {
+    workerRunning = false
+  }
+}
+
+/**
+ * Background worker that runs batches without holding any client connection
+ */
+export function startBatchWorker(intervalMs: number = WORKER_INTERVAL_MS): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      await processBatches()
+    } catch (error) {
+      logger.error('Batch worker error', error as Error)
+    }
+  }, intervalMs)
+}
@@ -1,9 +1,12 @@
 import crypto from 'crypto'
+import { FindOptionsWhere, IsNull } from 'typeorm'
 import { paymentRepository } from '../repositories/payment.repository'
-import { userRepository } from '../repositories/user.repository'
+import { AppDataSource } from '../data-source'
+import { recordTransaction } from './ledger.service'
 import { logger } from '../utils/logger'
 import { NotFoundError, ValidationError } from '../errors/app.error'
 import { Payment } from '../entities/payment.entity'
+import { User } from '../entities/user.entity'
 
 // SePay Configuration
 const SEPAY_WEBHOOK_SECRET = process.env.SEPAY_WEBHOOK_SECRET || ''
@@ -49,6 +52,11 @@ export interface PaymentStatus {
   completedAt: Date | null
 }
 
+// Payments visible to a user: their own, or any of the organization's when acting for one
+function paymentOwner(userId: string, organizationId: string | null): FindOptionsWhere<Payment> {
+  return organizationId ? { organizationId } : { userId, organizationId: IsNull() }
+}
+
 /**
  * Billing Service - handles payment business logic
  */
@@ -139,10 +147,12 @@ export class BillingService {
   }
 
   /**
-   * Get payment history for user (auto-expire old pending payments)
+   * Get payment history for user or organization (auto-expire old pending payments)
    */
-  async getPaymentHistory(userId: string): Promise<PaymentHistoryItem[]> {
-    const payments = await paymentRepository.findByUserId(userId)
+  async getPaymentHistory(userId: string, organizationId: string | null = null): Promise<PaymentHistoryItem[]> {
+    const payments = organizationId
+      ? await paymentRepository.findByOrganizationId(organizationId)
+      : await paymentRepository.findByUserId(userId)
     const now = new Date()
 
     // Auto-expire old pending payments
@@ -168,9 +178,13 @@ export class BillingService {
   /**
    * Get payment detail by ID
    */
-  async getPaymentDetail(userId: string, paymentId: string): Promise<PaymentHistoryItem | null> {
+  async getPaymentDetail(
+    userId: string,
+    paymentId: string,
+    organizationId: string | null = null
+  ): Promise<PaymentHistoryItem | null> {
     const payment = await paymentRepository.raw.findOne({
-      where: { id: paymentId, userId },
+      where: { id: paymentId, ...paymentOwner(userId, organizationId) },
     })
 
     if (!payment) return null
@@ -196,19 +210,31 @@ export class BillingService {
 
   /**
    * Create a new payment
+   * With an organizationId the tokens go to the organization's shared pool
    */
-  async createPayment(userId: string, planId: string, amount: number): Promise<CreatePaymentResult> {
+  async createPayment(
+    userId: string,
+    planId: string,
+    amount: number,
+    organizationId: string | null = null
+  ): Promise<CreatePaymentResult> {
     const plan = this.getPlan(planId)
     if (!plan) {
       throw new ValidationError('Invalid plan')
     }
 
+    // Pro is a personal subscription
+    if (organizationId && plan.isPro) {
+      throw new ValidationError('Pro plans cannot be bought for an organization')
+    }
+
     const transactionId = this.generateTransactionId()
     const qrContent = `${transactionId} ${plan.name}`
     const qrCode = this.generateQRCode(amount, qrContent)
 
     await paymentRepository.create({
       userId,
+      organizationId,
       transactionId,
       amount,
       credits: plan.credits,
@@ -272,30 +298,59 @@ export class BillingService {
       return true
     }
 
-    // Update payment status
-    payment.status = 'completed'
-    payment.completedAt = new Date()
-    payment.metadata = {
-      ...payment.metadata,
-      sepayRef: id,
-      bankName: gateway,
-    }
-    await paymentRepository.save(payment)
-
-    // Add credits/tokens to user
     const plan = this.getPlan(payment.planId)
-    if (plan) {
-      const user = await userRepository.findById(payment.userId)
-      if (user) {
-        user.tokenBalance = Number(user.tokenBalance) + plan.credits
-
-        if (plan.isPro && plan.proDays) {
-          user.isPro = true
-          user.proExpiresAt = new Date(Date.now() + plan.proDays * 24 * 60 * 60 * 1000)
+
+    // Complete the payment and credit the wallet in one transaction
+    const completed = await AppDataSource.transaction(async (manager) => {
+      // Re-check under lock so concurrent webhook deliveries credit once
+      const locked = await manager.getRepository(Payment).findOne({
+        where: { id: payment.id, status: 'pending' },
+        lock: { mode: 'pessimistic_write' },
+      })
+      if (!locked) {
+        return false
+      }
+
+      locked.status = 'completed'
+      locked.completedAt = new Date()
+      locked.metadata = {
+        ...locked.metadata,
+        sepayRef: id,
+        bankName: gateway,
+      }
+      await manager.getRepository(Payment).save(locked)
+
+      // Add credits/tokens to the user's or organization's wallet
+      if (plan) {
+        const entry = await recordTransaction({
+          userId: locked.userId,
+          organizationId: locked.organizationId,
+          type: 'purchase',
+          amount: plan.credits,
+          paymentId: locked.id,
+          description: plan.name,
+        }, manager)
+
+        if (plan.isPro && plan.proDays && !locked.organizationId) {
+          await manager.getRepository(User).update(locked.userId, {
+            isPro: true,
+            proExpiresAt: new Date(Date.now() + plan.proDays * 24 * 60 * 60 * 1000),
+          })
         }
-        await userRepository.save(user)
-        logger.info('Tokens added to user', { userId: user.id, tokens: plan.credits, newBalance: user.tokenBalance })
+        logger.info('Tokens added to wallet', {
+          userId: locked.userId,
+          organizationId: locked.organizationId,
+          tokens: plan.credits,
+          newBalance: entry.balanceAfter,
+        })
       }
+
+      return true
+    })
+
+    if (!completed) {
+      logger.warn('Payment not found or already processed', { transactionId })
+      return true
     }
 
     logger.info('Payment completed successfully', { transactionId, userId: payment.userId })
@@ -305,9 +360,13 @@ export class BillingService {
   /**
    * Check payment status
    */
-  async checkPaymentStatus(userId: string, transactionId: string): Promise<PaymentStatus> {
+  async checkPaymentStatus(
+    userId: string,
+    transactionId: string,
+    organizationId: string | null = null
+  ): Promise<PaymentStatus> {
     const payment = await paymentRepository.raw.findOne({
-      where: { transactionId, userId },
+      where: { transactionId, ...paymentOwner(userId, organizationId) },
     })
 
     if (!payment) {
@@ -0,0 +1,327 @@
+import { AiModel } from '../entities'
+import { AppError } from '../errors/app.error'
+import { ApiKeyRequest } from '../middlewares/apikey.middleware'
+import { reserveCredits, settleReservation, releaseReservation, estimateChatReservation } from './credit-reservation.service'
+import { recordTokenUsage } from './rate-limit-policy.service'
+import { AGENTS, AgentId, isProAgent } from './gemini-chat.service'
+import { DEFAULT_CHAT_MODEL, findEnabledModel, checkModelRequest, calculateModelCost } from './model-registry.service'
+import { OpenAIErrorType } from '../utils/openai-error'
+import {
+  countMessageTokens,
+  countTextTokens,
+  countToolCallTokens,
+  countToolDefinitionTokens,
+  getTokenizerFamily,
+  resolveTokenUsage,
+  tokenUsageMetadata,
+  ResolvedTokenUsage,
+  TokenizerFamily,
+  UpstreamUsage,
+} from '../utils/tokenizer'
+import { validateTools, validateToolMessages, normalizeRequestMessages, CompletionOutput } from '../utils/tool-calls'
+import { logger } from '../utils/logger'
+
+/**
+ * Chat completions against the model registry upstreams, shared by /v1/chat/completions and /v1/messages
+ * Requests are in the OpenAI shape; other API formats are translated before they get here
+ */
+
+const KIE_API_KEY = process.env.KIE_API_KEY || ''
+
+const MAX_MESSAGES = 100
+const MAX_MESSAGE_LENGTH = 100000
+
+export type ApiUser = NonNullable<ApiKeyRequest['apiUser']>
+
+// API format the client spoke, recorded on the usage log
+export type ChatApiFormat = 'openai' | 'anthropic'
+
+export interface ChatCompletionInput {
+  apiUser: ApiUser
+  // OpenAI chat completion body (model, messages, stream, tools, agent, ...)
+  body: Record<string, any>
+  format?: ChatApiFormat
+  // Set for lines of a /v1/batches batch
+  batchId?: string
+}
+
+export interface PreparedChatCompletion {
+  aiModel: AiModel
+  payload: Record<string, unknown>
+  agentId?: AgentId
+  stream: boolean
+  format: ChatApiFormat
+  batchId?: string
+  apiKeyId: string
+  tokenizerFamily: TokenizerFamily
+  inputTokens: number
+  toolTokens: number
+  clientWantsUsage: boolean
+  reservationId: string
+}
+
+/**
+ * A rejected chat request, with the OpenAI error type and param
+ */
+export class ChatCompletionError extends AppError {
+  constructor(
+    statusCode: number,
+    message: string,
+    public readonly type: OpenAIErrorType,
+    code: string,
+    public readonly param?: string
+  ) {
+    super(statusCode, message, code)
+  }
+}
+
+// Get current date context for system prompt
+function getDateContext(): string {
+  const now = new Date()
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  }
+  const dateStr = now.toLocaleDateString('en-US', options)
+  const timeStr = now.toLocaleTimeString('en-US', { timeZone: 'Asia/Ho_Chi_Minh', hour: '2-digit', minute: '2-digit' })
+  return `Current date and time: ${dateStr}, ${timeStr} (Vietnam Time, UTC+7).`
+}
+
+/**
+ * Model a chat request will be routed to
+ */
+export function requestedChatModel(body: { model?: unknown } | undefined): string {
+  const model = body?.model
+  return typeof model === 'string' && model ? model : DEFAULT_CHAT_MODEL
+}
+
+/**
+ * Validate the request, apply the agent prompt, check model limits and hold credits
+ * @throws ChatCompletionError when the request is rejected
+ * @throws InsufficientQuotaError when the balance cannot cover the estimate
+ */
+export async function prepareChatCompletion(input: ChatCompletionInput): Promise<PreparedChatCompletion> {
+  const { apiUser, body } = input
+  const { model, messages, stream, tools, response_format, agent, ...otherParams } = body
+
+  if (!messages || !Array.isArray(messages) || messages.length === 0) {
+    throw new ChatCompletionError(400, 'messages is required and must be a non-empty array', 'invalid_request_error', 'invalid_messages')
+  }
+
+  // Validate message array size
+  if (messages.length > MAX_MESSAGES) {
+    throw new ChatCompletionError(400, `Too many messages (max ${MAX_MESSAGES})`, 'invalid_request_error', 'too_many_messages')
+  }
+
+  // Validate message content sizes
+  for (const msg of messages) {
+    if (typeof msg.content === 'string' && msg.content.length > MAX_MESSAGE_LENGTH) {
+      throw new ChatCompletionError(400, `Message content too long (max ${MAX_MESSAGE_LENGTH} characters)`, 'invalid_request_error', 'content_too_long')
+    }
+  }
+
+  // Validate tool definitions and the tool-calling message sequence
+  const invalidTools = validateTools(body) || validateToolMessages(messages)
+  if (invalidTools) {
+    throw new ChatCompletionError(400, invalidTools.message, 'invalid_request_error', invalidTools.code, invalidTools.param)
+  }
+
+  // Check if using a Pro agent
+  const agentId = agent as AgentId | undefined
+  if (agentId && isProAgent(agentId)) {
+    const user = apiUser.user
+    const hasProAccess = user.isPro && (!user.proExpiresAt || new Date(user.proExpiresAt) > new Date())
+    if (!hasProAccess) {
+      throw new ChatCompletionError(403, 'Pro subscription required to use this agent', 'insufficient_quota', 'pro_required')
+    }
+  }
+
+  // Build messages with agent system prompt if specified
+  let finalMessages = normalizeRequestMessages(messages)
+  if (agentId && AGENTS[agentId]) {
+    const agentConfig = AGENTS[agentId]
+    const systemPrompt = `${agentConfig.systemPrompt}\n\n${getDateContext()}`
+
+    // Check if first message is already a system message
+    if (finalMessages[0]?.role === 'system') {
+      finalMessages[0].content = `${systemPrompt}\n\n${finalMessages[0].content}`
+    } else {
+      finalMessages = [{ role: 'system', content: systemPrompt }, ...finalMessages]
+    }
+  }
+
+  // Resolve the upstream endpoint and prices from the model registry
+  const modelId = requestedChatModel(body)
+  const aiModel = await findEnabledModel(modelId)
+  if (!aiModel) {
+    throw new ChatCompletionError(
+      404,
+      `The model \`${modelId}\` does not exist or you do not have access to it.`,
+      'invalid_request_error',
+      'model_not_found',
+      'model'
+    )
+  }
+
+  // Always ask for the usage chunk when streaming; it is only forwarded if the client asked too
+  const clientWantsUsage = otherParams.stream_options?.include_usage === true
+  const payload = {
+    model: aiModel.modelId,
+    messages: finalMessages,
+    stream: stream || false,
+    ...(tools && { tools }),
+    ...(response_format && { response_format }),
+    ...otherParams,
+    ...(stream && { stream_options: { ...otherParams.stream_options, include_usage: true } }),
+  }
+
+  logger.debug('Chat completion request', {
+    userId: apiUser.userId,
+    model: payload.model,
+    agent: agentId,
+    stream: payload.stream,
+    format: input.format || 'openai',
+  })
+
+  // Pre-flight: hold an estimate against the balance before calling upstream
+  const tokenizerFamily = getTokenizerFamily(payload.model)
+  const toolTokens = countToolDefinitionTokens(tools, payload.model)
+  const inputTokens = countMessageTokens(finalMessages, payload.model) + toolTokens
+  const maxTokens = Number(otherParams.max_tokens ?? otherParams.max_completion_tokens) || undefined
+  const hasImages = finalMessages.some((msg) => Array.isArray(msg.content) &&
+    msg.content.some((part: { type?: string }) => part?.type === 'image_url' || part?.type === 'image'))
+  const invalid = checkModelRequest(aiModel, { inputTokens, maxTokens, hasImages })
+  if (invalid) {
+    throw new ChatCompletionError(400, invalid.message, 'invalid_request_error', invalid.code, invalid.param)
+  }
+  const reservation = await reserveCredits({
+    userId: apiUser.userId,
+    organizationId: apiUser.organizationId,
+    action: stream ? 'api_chat_stream' : 'api_chat',
+    // Hold max_tokens as far as the balance allows; without it, the default allowance (settlement caps the rest)
+    amount: estimateChatReservation(inputTokens, 1, maxTokens),
+    minAmount: estimateChatReservation(inputTokens, 1),
+    metadata: { model: payload.model, apiKeyId: apiUser.apiKeyId, ...(input.batchId && { batchId: input.batchId }) },
+  })
+
+  return {
+    aiModel,
+    payload,
+    agentId,
+    stream: !!stream,
+    format: input.format || 'openai',
+    batchId: input.batchId,
+    apiKeyId: apiUser.apiKeyId,
+    tokenizerFamily,
+    inputTokens,
+    toolTokens,
+    clientWantsUsage,
+    reservationId: reservation.id,
+  }
+}
+
+/**
+ * Send the prepared request upstream; releases the hold when the upstream rejects it
+ * @param signal aborts the request, e.g. when a caller without a client connection times it out
+ * @throws ChatCompletionError (upstream_error) with the upstream status
+ */
+export async function callChatUpstream(prepared: PreparedChatCompletion, signal?: AbortSignal): Promise<globalThis.Response> {
+  const upstream = await fetch(prepared.aiModel.upstreamUrl, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${KIE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(prepared.payload),
+    signal,
+  })
+
+  if (!upstream.ok) {
+    const errorData = await upstream.json().catch(() => ({}))
+    logger.error('KIE API error', { status: upstream.status, error: errorData })
+    await releaseReservation(prepared.reservationId, 'upstream_error')
+    throw new ChatCompletionError(
+      upstream.status,
+      (errorData as { message?: string }).message || 'Upstream API error',
+      'api_error',
+      'upstream_error'
+    )
+  }
+
+  return upstream
+}
+
+/**
+ * SSE lines of an upstream chat stream, with the parsed chunk when the line carries one
+ * Lines split across reads are reassembled before they are yielded
+ */
+export async function* readChatStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ line: string; data: Record<string, any> | null }> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    // Flush a trailing line without a newline once the stream ends
+    if (done && !buffer) break
+    buffer += done ? '\n' : decoder.decode(value, { stream: true })
+
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      let data = null
+      if (line.startsWith('data: ') && line !== 'data: [DONE]') {
+        try {
+          data = JSON.parse(line.slice(6))
+        } catch {
+          // Not a JSON chunk; callers forward it unchanged
+        }
+      }
+      yield { line, data }
+    }
+    if (done) break
+  }
+}
+
+/**
+ * Bill a finished completion: upstream usage when reported, otherwise our own count (text plus tool calls)
+ */
+export async function settleChatCompletion(
+  prepared: PreparedChatCompletion,
+  output: CompletionOutput,
+  upstreamUsage?: UpstreamUsage | null
+): Promise<ResolvedTokenUsage> {
+  const family = prepared.tokenizerFamily
+  const usage = resolveTokenUsage({
+    inputTokens: prepared.inputTokens,
+    outputTokens: countTextTokens(output.text, family) + countToolCallTokens(output.toolCalls, family),
+  }, upstreamUsage)
+  const cost = calculateModelCost(prepared.aiModel, usage.inputTokens, usage.outputTokens)
+
+  await settleReservation(prepared.reservationId, {
+    creditsUsed: usage.totalTokens,
+    costUsd: cost,
+    metadata: {
+      model: prepared.payload.model,
+      agent: prepared.agentId,
+      apiKeyId: prepared.apiKeyId,
+      ...(prepared.stream
+        ? { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens }
+        : { promptTokens: usage.inputTokens, completionTokens: usage.outputTokens }),
+      toolTokens: prepared.toolTokens,
+      toolCalls: output.toolCalls.length,
+      ...(prepared.format !== 'openai' && { apiFormat: prepared.format }),
+      ...(prepared.batchId && { batchId: prepared.batchId }),
+      ...tokenUsageMetadata(usage),
+    },
+  })
+  await recordTokenUsage(prepared.apiKeyId, usage.totalTokens)
+    .catch((error) => logger.error('Token rate limit update failed', error as Error))
+
+  return usage
+}
@@ -0,0 +1,160 @@
+import { AppDataSource } from '../data-source'
+import { ChatConversation, ChatMessage as StoredMessage } from '../entities'
+import { InsufficientQuotaError } from '../errors/app.error'
+import { logger } from '../utils/logger'
+import { countMessageTokens } from '../utils/tokenizer'
+import { estimatePromptTokens, AgentId, ChatMessage, GEMINI_CHAT_MODEL } from './gemini-chat.service'
+import { billedChat } from './internal-chat.service'
+import { findModel } from './model-registry.service'
+import { resolveActivePath } from './conversation.service'
+
+// Ceiling on replayed history; well under the model window so long chats stay affordable
+const HISTORY_TOKEN_BUDGET = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '32000')
+
+// Reply room when the model has no maxOutputTokens
+const REPLY_TOKEN_RESERVE = 8192
+
+// Rolling summary: once this many messages sit outside the verbatim window, fold them in
+const SUMMARY_ENABLED = process.env.CHAT_MEMORY_SUMMARY !== 'false'
+const SUMMARY_KEEP_RECENT = 20
+const SUMMARY_TRIGGER_MESSAGES = 10
+const SUMMARY_MAX_CHARS = 4000
+const SUMMARY_MESSAGE_MAX_CHARS = 4000
+// Reply cap for the summary call (~300 words asked for)
+const SUMMARY_MAX_TOKENS = 1024
+
+const SUMMARY_PROMPT = `You maintain a running summary of a chat between a user and an AI assistant.
+Merge the existing summary (if any) with the new messages into one updated summary.
+Keep names, facts, decisions, preferences and open questions; drop greetings and filler.
+Write in the language of the conversation, as plain prose under 300 words.`
+
+const conversationRepository = () => AppDataSource.getRepository(ChatConversation)
+
+// Conversations with a summary request in flight
+const summarizing = new Set<string>()
+
+export interface ConversationContext {
+  // Summary, replayed history and the new message, ready for chat()/chatStream()
+  messages: ChatMessage[]
+  historyCount: number
+  // Stored messages not replayed verbatim (covered by the summary or trimmed)
+  omittedCount: number
+  summarized: boolean
+}
+
+/**
+ * Token budget for summary + history + new message on the in-app chat model
+ */
+export async function getHistoryTokenBudget(): Promise<number> {
+  const model = await findModel(GEMINI_CHAT_MODEL)
+  if (!model) return HISTORY_TOKEN_BUDGET
+  return Math.min(model.contextWindow - (model.maxOutputTokens || REPLY_TOKEN_RESERVE), HISTORY_TOKEN_BUDGET)
+}
+
+/**
+ * Split a branch at the summary boundary
+ * A summary written for another branch (boundary not on this path) is ignored
+ */
+function splitAtSummary(conversation: ChatConversation): { summary: string | null; pending: StoredMessage[] } {
+  const stored = conversation.messages || []
+  const index = conversation.summaryMessageId
+    ? stored.findIndex((m) => m.id === conversation.summaryMessageId)
+    : -1
+  if (index < 0 || !conversation.summary) return { summary: null, pending: stored }
+  return { summary: conversation.summary, pending: stored.slice(index + 1) }
+}
+
+/**
+ * Rebuild the prompt for a new turn from stored messages
+ *
+ * The summary (if any) stands in for older turns; the newest messages are then added
+ * until the budget runs out. `conversation.messages` must be the branch, oldest first.
+ */
+export function buildConversationContext(
+  conversation: ChatConversation,
+  newMessage: ChatMessage,
+  agentId: AgentId,
+  budget: number
+): ConversationContext {
+  const stored = conversation.messages || []
+  const { summary, pending: candidates } = splitAtSummary(conversation)
+  const summaryMessage: ChatMessage | null = summary
+    ? { role: 'system', content: `Summary of the earlier conversation:\n${summary}` }
+    : null
+
+  let remaining = budget - estimatePromptTokens(summaryMessage ? [summaryMessage, newMessage] : [newMessage], agentId)
+  const history: ChatMessage[] = []
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const message: ChatMessage = { role: candidates[i].role, content: candidates[i].content }
+    const tokens = countMessageTokens([message], GEMINI_CHAT_MODEL)
+    if (tokens > remaining) break
+    remaining -= tokens
+    history.unshift(message)
+  }
+
+  return {
+    messages: [...(summaryMessage ? [summaryMessage] : []), ...history, newMessage],
+    historyCount: history.length,
+    omittedCount: stored.length - history.length,
+    summarized: summaryMessage !== null,
+  }
+}
+
+/**
+ * Fold messages that have scrolled out of the verbatim window into the rolling summary
+ * The call is billed to the conversation owner and skipped when their balance cannot cover it
+ * Returns false when there was nothing to fold yet
+ */
+export async function updateConversationSummary(conversationId: string): Promise<boolean> {
+  if (!SUMMARY_ENABLED || summarizing.has(conversationId)) return false
+
+  summarizing.add(conversationId)
+  try {
+    const conversation = await conversationRepository().findOne({
+      where: { id: conversationId },
+      relations: ['messages'],
+      order: { messages: { createdAt: 'ASC' } },
+    })
+    if (!conversation) return false
+
+    conversation.messages = resolveActivePath(conversation.messages, conversation.activeLeafId)
+    const { summary: existing, pending } = splitAtSummary(conversation)
+    const toFold = pending.slice(0, Math.max(pending.length - SUMMARY_KEEP_RECENT, 0))
+    if (toFold.length < SUMMARY_TRIGGER_MESSAGES) return false
+
+    const transcript = toFold
+      .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.substring(0, SUMMARY_MESSAGE_MAX_CHARS)}`)
+      .join('\n\n')
+    const prompt = existing
+      ? `Existing summary:\n${existing}\n\nNew messages:\n${transcript}`
+      : `New messages:\n${transcript}`
+
+    let result
+    try {
+      result = await billedChat(conversation.userId, 'chat_summary', {
+        messages: [{ role: 'user', content: prompt }],
+        systemPrompt: SUMMARY_PROMPT,
+        maxTokens: SUMMARY_MAX_TOKENS,
+      }, { conversationId })
+    } catch (error) {
+      if (!(error instanceof InsufficientQuotaError)) throw error
+      logger.info('Conversation summary skipped: insufficient balance', { conversationId, userId: conversation.userId })
+      return false
+    }
+    const summary = result.choices[0]?.message?.content?.trim()
+    if (!summary) return false
+
+    await conversationRepository().update(conversation.id, {
+      summary: summary.substring(0, SUMMARY_MAX_CHARS),
+      summaryMessageId: toFold[toFold.length - 1].id,
+    })
+    logger.info('Conversation summary updated', {
+      conversationId,
+      folded: toFold.length,
+      tokens: result.usage?.total_tokens,
+    })
+    return true
+  } finally {
+    summarizing.delete(conversationId)
+  }
+}
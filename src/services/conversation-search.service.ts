@@ -0,0 +1,189 @@
+import { AppDataSource } from '../data-source'
+import { ChatMessage } from '../entities'
+import { logger } from '../utils/logger'
+
+// 'simple' has no stemming, which suits Vietnamese; accents are folded by immutable_unaccent
+const SEARCH_CONFIG = 'simple'
+const CONTENT_TSVECTOR = `to_tsvector('${SEARCH_CONFIG}', immutable_unaccent(m.content))`
+const SEARCH_TSQUERY = `websearch_to_tsquery('${SEARCH_CONFIG}', immutable_unaccent(:q))`
+
+export const MAX_SEARCH_QUERY_LENGTH = 200
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT_CHARS = 80
+
+const messageRepository = () => AppDataSource.getRepository(ChatMessage)
+
+export interface SearchHighlight {
+  start: number
+  end: number
+}
+
+export interface MessageSnippet {
+  text: string
+  // Offsets into `text` of each matched term
+  highlights: SearchHighlight[]
+}
+
+export interface ConversationSearchResult {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: string
+  snippet: MessageSnippet
+  createdAt: Date
+}
+
+/**
+ * Function and expression index backing message search (TypeORM sync cannot declare them)
+ *
+ * unaccent() is only STABLE, so it is wrapped in an IMMUTABLE function that indexes can use.
+ * Without the extension the wrapper only lowercases, and search stays accent-sensitive.
+ */
+export async function ensureConversationSearchIndex(): Promise<void> {
+  let hasUnaccent = true
+  try {
+    await AppDataSource.query('CREATE EXTENSION IF NOT EXISTS unaccent')
+  } catch (error) {
+    hasUnaccent = false
+    logger.warn('unaccent extension unavailable; conversation search will be accent-sensitive', { error: (error as Error).message })
+  }
+
+  const body = hasUnaccent ? `SELECT public.unaccent('public.unaccent', $1)` : 'SELECT lower($1)'
+  await AppDataSource.query(
+    `CREATE OR REPLACE FUNCTION immutable_unaccent(text) RETURNS text
+     AS $$ ${body} $$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT`
+  )
+  await AppDataSource.query(
+    `CREATE INDEX IF NOT EXISTS "IDX_chat_messages_content_search" ON chat_messages
+     USING GIN (to_tsvector('${SEARCH_CONFIG}', immutable_unaccent(content)))`
+  )
+}
+
+/**
+ * Lowercase and strip diacritics (đ → d), keeping the source offset of every folded character
+ */
+export function foldText(text: string): { folded: string; offsets: number[] } {
+  let folded = ''
+  const offsets: number[] = []
+  let index = 0
+  for (const char of text) {
+    const plain = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/đ/g, 'd')
+    for (let i = 0; i < plain.length; i++) offsets.push(index)
+    folded += plain
+    index += char.length
+  }
+  offsets.push(index)
+  return { folded, offsets }
+}
+
+/**
+ * Words of a search query, folded the same way as message text (operators dropped)
+ */
+export function searchTerms(query: string): string[] {
+  const words = foldText(query).folded.match(/[\p{L}\p{N}]+/gu) || []
+  return [...new Set(words.filter((w) => w !== 'or'))]
+}
+
+/**
+ * Whole-word occurrences of the terms in `text`, as offsets into the original text
+ */
+function findMatches(text: string, terms: string[]): SearchHighlight[] {
+  const { folded, offsets } = foldText(text)
+  const isWordChar = (c: string | undefined) => c !== undefined && /[\p{L}\p{N}]/u.test(c)
+
+  const matches: SearchHighlight[] = []
+  for (const term of terms) {
+    let from = folded.indexOf(term)
+    while (from >= 0) {
+      const to = from + term.length
+      if (!isWordChar(folded[from - 1]) && !isWordChar(folded[to])) {
+        matches.push({ start: offsets[from], end: offsets[to] })
+      }
+      from = folded.indexOf(term, to)
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Excerpt around the first matched term, with every whole-word match inside it marked
+ */
+export function buildSnippet(content: string, terms: string[]): MessageSnippet {
+  const matches = findMatches(content, terms)
+
+  const anchor = matches[0]?.start ?? 0
+  let start = Math.max(anchor - SNIPPET_CONTEXT_CHARS, 0)
+  let end = Math.min((matches[0]?.end ?? 0) + SNIPPET_CONTEXT_CHARS, content.length)
+  if (!matches.length) end = Math.min(SNIPPET_CONTEXT_CHARS * 2, content.length)
+
+  // Widen to whole words
+  while (start > 0 && !/\s/.test(content[start - 1])) start--
+  while (end < content.length && !/\s/.test(content[end])) end++
+
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < content.length ? '…' : ''
+  const text = `${prefix}${content.substring(start, end).replace(/\s+/g, ' ')}${suffix}`
+
+  // Whitespace collapsing shifts offsets, so re-locate highlights in the final text
+  return { text, highlights: findMatches(text, terms) }
+}
+
+/**
+ * Full-text search over a user's messages, best matches first
+ */
+export async function searchConversations(
+  userId: string,
+  query: string,
+  page: number = 1,
+  limit: number = 20
+) {
+  const q = query.trim().substring(0, MAX_SEARCH_QUERY_LENGTH)
+
+  const base = messageRepository()
+    .createQueryBuilder('m')
+    .innerJoin('m.conversation', 'c')
+    .where('c.userId = :userId', { userId })
+    .andWhere(`${CONTENT_TSVECTOR} @@ ${SEARCH_TSQUERY}`, { q })
+
+  const [rows, total] = await Promise.all([
+    base.clone()
+      .select('m.id', 'messageId')
+      .addSelect('m.conversationId', 'conversationId')
+      .addSelect('m.role', 'role')
+      .addSelect('m.content', 'content')
+      .addSelect('m.createdAt', 'createdAt')
+      .addSelect('c.title', 'conversationTitle')
+      .addSelect(`ts_rank(${CONTENT_TSVECTOR}, ${SEARCH_TSQUERY})`, 'rank')
+      .orderBy('rank', 'DESC')
+      .addOrderBy('m.createdAt', 'DESC')
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getRawMany<{
+        messageId: string
+        conversationId: string
+        role: string
+        content: string
+        createdAt: Date
+        conversationTitle: string
+      }>(),
+    base.getCount(),
+  ])
+
+  const terms = searchTerms(q)
+  const results: ConversationSearchResult[] = rows.map((row) => ({
+    conversationId: row.conversationId,
+    conversationTitle: row.conversationTitle,
+    messageId: row.messageId,
+    role: row.role,
+    snippet: buildSnippet(row.content, terms),
+    createdAt: row.createdAt,
+  }))
+
+  return {
+    results,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
+}
@@ -1,10 +1,26 @@
 import { AppDataSource } from '../data-source'
 import { ChatConversation, ChatMessage } from '../entities'
+import { InsufficientQuotaError } from '../errors/app.error'
 import { logger } from '../utils/logger'
+import { billedChat } from './internal-chat.service'
+import { findEnabledModel, DEFAULT_CHAT_MODEL } from './model-registry.service'
 
 const conversationRepo = AppDataSource.getRepository(ChatConversation)
 const messageRepo = AppDataSource.getRepository(ChatMessage)
 
+// Placeholder until the first exchange is titled
+export const DEFAULT_CONVERSATION_TITLE = 'Cuộc trò chuyện mới'
+
+// Small, fast model for titles; falls back to the default chat model when disabled
+const TITLE_MODEL = process.env.CHAT_TITLE_MODEL || 'gemini-2.5-pro'
+const TITLE_MAX_LENGTH = 80
+const TITLE_SOURCE_MAX_CHARS = 2000
+const TITLE_MAX_TOKENS = 30
+
+const TITLE_PROMPT = `Write a title for the conversation below.
+Use the language the user writes in, at most 8 words, no quotes, no trailing punctuation.
+Reply with the title only.`
+
 export interface CreateConversationInput {
   userId: string
   title?: string
@@ -17,6 +33,13 @@ export interface AddMessageInput {
   content: string
   metadata?: Record<string, unknown>
   tokensUsed?: number
+  // Defaults to the conversation's active leaf; null starts a new root
+  parentId?: string | null
+}
+
+export interface GetConversationOptions {
+  // Return every message instead of only the active branch
+  allBranches?: boolean
 }
 
 /**
@@ -42,7 +65,7 @@ export async function getUserConversations(
 export async function createConversation(input: CreateConversationInput): Promise<ChatConversation> {
   const conversation = conversationRepo.create({
     userId: input.userId,
-    title: input.title || 'Cuộc trò chuyện mới',
+    title: input.title || DEFAULT_CONVERSATION_TITLE,
     agentId: input.agentId || 'general_base',
   })
   const saved = await conversationRepo.save(conversation)
@@ -51,17 +74,78 @@ export async function createConversation(input: CreateConversationInput): Promis
 }
 
 /**
- * Get a conversation with its messages
+ * Messages from the root to `leafId`, oldest first
+ * Conversations without an active leaf (nothing sent yet) have an empty path
+ */
+export function resolveActivePath(messages: ChatMessage[], leafId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map((m) => [m.id, m]))
+  const path: ChatMessage[] = []
+
+  let current = leafId ? byId.get(leafId) : undefined
+  while (current && path.length < messages.length) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+/**
+ * Ids of each message's alternatives (same parent, oldest first), including itself
+ */
+export function getSiblingIds(messages: ChatMessage[]): Map<string, string[]> {
+  const byParent = new Map<string | null, string[]>()
+  for (const message of messages) {
+    const siblings = byParent.get(message.parentId) || []
+    siblings.push(message.id)
+    byParent.set(message.parentId, siblings)
+  }
+  return new Map(messages.map((m) => [m.id, byParent.get(m.parentId)!]))
+}
+
+/**
+ * Get a conversation with the messages of its active branch (or all branches)
  */
 export async function getConversation(
   conversationId: string,
-  userId: string
+  userId: string,
+  options: GetConversationOptions = {}
 ): Promise<ChatConversation | null> {
-  return conversationRepo.findOne({
+  const conversation = await conversationRepo.findOne({
     where: { id: conversationId, userId },
     relations: ['messages'],
     order: { messages: { createdAt: 'ASC' } },
   })
+  if (conversation && !options.allBranches) {
+    conversation.messages = resolveActivePath(conversation.messages, conversation.activeLeafId)
+  }
+  return conversation
+}
+
+/**
+ * Make the branch through `messageId` active, continuing to its newest leaf
+ * Returns the conversation with every branch loaded
+ */
+export async function switchBranch(
+  conversationId: string,
+  userId: string,
+  messageId: string
+): Promise<ChatConversation | null> {
+  const conversation = await getConversation(conversationId, userId, { allBranches: true })
+  if (!conversation) return null
+
+  let leaf = conversation.messages.find((m) => m.id === messageId)
+  if (!leaf) return null
+
+  // Messages are oldest first, so the last child is the most recent reply
+  for (;;) {
+    const children = conversation.messages.filter((m) => m.parentId === leaf!.id)
+    if (children.length === 0) break
+    leaf = children[children.length - 1]
+  }
+
+  await conversationRepo.update(conversationId, { activeLeafId: leaf.id })
+  conversation.activeLeafId = leaf.id
+  return conversation
 }
 
 /**
@@ -114,8 +198,15 @@ export async function deleteConversation(conversationId: string, userId: string)
  * Add a message to a conversation
  */
 export async function addMessage(input: AddMessageInput): Promise<ChatMessage> {
+  let parentId = input.parentId
+  if (parentId === undefined) {
+    const conversation = await conversationRepo.findOne({ where: { id: input.conversationId } })
+    parentId = conversation?.activeLeafId ?? null
+  }
+
   const message = messageRepo.create({
     conversationId: input.conversationId,
+    parentId,
     role: input.role,
     content: input.content,
     metadata: input.metadata || null,
@@ -123,14 +214,15 @@ export async function addMessage(input: AddMessageInput): Promise<ChatMessage> {
   })
   const saved = await messageRepo.save(message)
 
-  // Update conversation's updatedAt
-  await conversationRepo.update(input.conversationId, { updatedAt: new Date() })
+  // The new message becomes the tip of the active branch
+  await conversationRepo.update(input.conversationId, { updatedAt: new Date(), activeLeafId: saved.id })
 
   return saved
 }
 
 /**
  * Add user and assistant messages to a conversation (for chat completion)
+ * The user message continues the active branch unless `parentId` is given (edits)
  */
 export async function addChatMessages(
   conversationId: string,
@@ -140,25 +232,128 @@ export async function addChatMessages(
     agentId?: string
     tokensUsed?: number
     cost?: number
-  }
+  },
+  parentId?: string | null
 ): Promise<{ userMessage: ChatMessage; assistantMessage: ChatMessage }> {
   const userMessage = await addMessage({
     conversationId,
     role: 'user',
     content: userContent,
+    parentId,
   })
 
   const assistantMessage = await addMessage({
     conversationId,
     role: 'assistant',
     content: assistantContent,
-    metadata: metadata ? { agentId: metadata.agentId, cost: metadata.cost } : null,
+    metadata: metadata ? { agentId: metadata.agentId, cost: metadata.cost } : undefined,
     tokensUsed: metadata?.tokensUsed,
+    parentId: userMessage.id,
   })
 
   return { userMessage, assistantMessage }
 }
 
+/**
+ * Strip quotes, labels and trailing punctuation a model may add around a title
+ */
+export function cleanGeneratedTitle(raw: string): string | null {
+  const title = raw
+    .split('\n')[0]
+    .replace(/^\s*(title|tiêu đề)\s*:\s*/i, '')
+    .replace(/^["'“”‘’*#\s]+|["'“”‘’*.。!?\s]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (!title) return null
+  return title.length > TITLE_MAX_LENGTH ? `${title.substring(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : title
+}
+
+/**
+ * Name a conversation after its first exchange
+ * Skips conversations that already have a title, including ones the user renamed meanwhile
+ * The call is billed to the conversation owner and skipped when their balance cannot cover it
+ */
+export async function generateConversationTitle(conversationId: string): Promise<string | null> {
+  const conversation = await getConversationById(conversationId)
+  if (!conversation || conversation.title !== DEFAULT_CONVERSATION_TITLE) return null
+
+  const [question, answer] = conversation.messages
+  if (!question || !answer) return null
+
+  const model = (await findEnabledModel(TITLE_MODEL)) || (await findEnabledModel(DEFAULT_CHAT_MODEL))
+  let result
+  try {
+    result = await billedChat(conversation.userId, 'chat_title', {
+      messages: [{
+        role: 'user',
+        content: `User: ${question.content.substring(0, TITLE_SOURCE_MAX_CHARS)}\n\nAssistant: ${answer.content.substring(0, TITLE_SOURCE_MAX_CHARS)}`,
+      }],
+      systemPrompt: TITLE_PROMPT,
+      ...(model && { model }),
+      maxTokens: TITLE_MAX_TOKENS,
+    }, { conversationId })
+  } catch (error) {
+    if (!(error instanceof InsufficientQuotaError)) throw error
+    logger.info('Conversation title skipped: insufficient balance', { conversationId, userId: conversation.userId })
+    return null
+  }
+
+  const title = cleanGeneratedTitle(result.choices[0]?.message?.content || '')
+  if (!title) return null
+
+  // Only replace the placeholder, never a title set in the meantime
+  const updated = await conversationRepo.update({ id: conversationId, title: DEFAULT_CONVERSATION_TITLE }, { title })
+  if (!updated.affected) return null
+
+  logger.info('Conversation titled', { conversationId, model: model?.modelId, tokens: result.usage?.total_tokens })
+  return title
+}
+
+async function getConversationById(conversationId: string): Promise<ChatConversation | null> {
+  const conversation = await conversationRepo.findOne({
+    where: { id: conversationId },
+    relations: ['messages'],
+    order: { messages: { createdAt: 'ASC' } },
+  })
+  if (conversation) {
+    conversation.messages = resolveActivePath(conversation.messages, conversation.activeLeafId)
+  }
+  return conversation
+}
+
+/**
+ * Link messages stored before branching into one chain per conversation
+ * Only touches conversations that have no active leaf yet
+ */
+export async function backfillMessageTree(): Promise<number> {
+  return AppDataSource.transaction(async (manager) => {
+    await manager.query(`
+      UPDATE chat_messages m
+      SET "parentId" = chain.prev
+      FROM (
+        SELECT id, LAG(id) OVER (PARTITION BY "conversationId" ORDER BY "createdAt", id) AS prev
+        FROM chat_messages
+        WHERE "conversationId" IN (SELECT id FROM chat_conversations WHERE "activeLeafId" IS NULL)
+      ) chain
+      WHERE m.id = chain.id AND chain.prev IS NOT NULL AND m."parentId" IS NULL
+    `)
+
+    const [rows]: [Array<{ id: string }>, number] = await manager.query(`
+      UPDATE chat_conversations c
+      SET "activeLeafId" = (
+        SELECT id FROM chat_messages
+        WHERE "conversationId" = c.id
+        ORDER BY "createdAt" DESC, id DESC
+        LIMIT 1
+      )
+      WHERE c."activeLeafId" IS NULL
+        AND EXISTS (SELECT 1 FROM chat_messages WHERE "conversationId" = c.id)
+      RETURNING c.id
+    `)
+    return rows.length
+  })
+}
+
 /**
  * Get messages for a conversation
  */
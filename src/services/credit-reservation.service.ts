@@ -0,0 +1,365 @@
+import { EntityManager, LessThan } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import { User, Organization, UsageLog, CreditReservation, ActionType } from '../entities'
+import { ForbiddenError, InsufficientQuotaError, NotFoundError } from '../errors/app.error'
+import { logger } from '../utils/logger'
+import { recordTransaction } from './ledger.service'
+import { findMembership, getMemberMonthlySpend } from './organization.service'
+
+// Output allowance held on top of the prompt estimate when the caller sets no max_tokens
+const CHAT_OUTPUT_RESERVE_TOKENS = parseInt(process.env.CHAT_OUTPUT_RESERVE_TOKENS || '256')
+
+// How long an unsettled hold blocks the balance before it is released automatically
+const DEFAULT_RESERVATION_TTL_MS = 10 * 60 * 1000 // 10 minutes
+
+const reservationRepository = () => AppDataSource.getRepository(CreditReservation)
+
+export interface ReserveCreditsInput {
+  userId: string
+  // Hold against this organization's pool (the user must be a member) instead of the user's balance
+  organizationId?: string | null
+  action: ActionType
+  amount: number
+  // Smallest hold to accept: when set, a balance short of `amount` is held in full as long as it covers this floor
+  minAmount?: number
+  reference?: string
+  metadata?: Record<string, unknown>
+  ttlMs?: number
+}
+
+export interface SettleReservationInput {
+  creditsUsed: number
+  costUsd: number
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Estimate how many credits to hold for a chat completion
+ * Prompt tokens plus the output allowance (max_tokens, or the default), scaled by the agent multiplier
+ */
+export function estimateChatReservation(
+  promptTokens: number,
+  multiplier: number = 1,
+  maxOutputTokens?: number | null
+): number {
+  const outputTokens = maxOutputTokens && maxOutputTokens > 0
+    ? maxOutputTokens
+    : CHAT_OUTPUT_RESERVE_TOKENS
+  return Math.ceil((promptTokens + outputTokens) * multiplier)
+}
+
+/**
+ * Sum of active holds on a wallet (caller should hold the wallet row lock)
+ * Personal holds are the user's; organization holds are the whole pool's, or one member's when userId is given
+ */
+async function sumHeldCredits(
+  manager: EntityManager,
+  wallet: { userId?: string; organizationId?: string | null },
+  excludeReservationId?: string
+): Promise<number> {
+  const query = manager
+    .getRepository(CreditReservation)
+    .createQueryBuilder('reservation')
+    .select('COALESCE(SUM(reservation.amount), 0)', 'total')
+    .where('reservation.status = :status', { status: 'held' })
+    .andWhere('reservation.expiresAt > :now', { now: new Date() })
+
+  if (wallet.organizationId) {
+    query.andWhere('reservation.organizationId = :organizationId', { organizationId: wallet.organizationId })
+  } else {
+    query.andWhere('reservation.organizationId IS NULL')
+  }
+  if (wallet.userId) {
+    query.andWhere('reservation.userId = :userId', { userId: wallet.userId })
+  }
+  if (excludeReservationId) {
+    query.andWhere('reservation.id != :excludeReservationId', { excludeReservationId })
+  }
+
+  const result = await query.getRawOne()
+  return Number(result?.total) || 0
+}
+
+/**
+ * Lock an organization's wallet and check the member may spend `amount` from it
+ * Returns what the member may still hold: the pool's available balance, within their monthly cap
+ * @throws InsufficientQuotaError when the amount would take the member past their monthly cap
+ */
+async function lockOrganizationWallet(
+  manager: EntityManager,
+  organizationId: string,
+  userId: string,
+  amount: number
+): Promise<number> {
+  const organization = await manager.getRepository(Organization).findOne({
+    where: { id: organizationId },
+    lock: { mode: 'pessimistic_write' },
+  })
+
+  if (!organization) {
+    throw new NotFoundError('Organization')
+  }
+
+  const member = await findMembership(organizationId, userId, manager)
+  if (!member) {
+    throw new ForbiddenError('Not a member of this organization')
+  }
+
+  const held = await sumHeldCredits(manager, { organizationId })
+  const available = Number(organization.tokenBalance) - held
+
+  if (member.monthlyTokenLimit === null || member.monthlyTokenLimit === undefined) {
+    return available
+  }
+
+  const [spent, memberHeld] = await Promise.all([
+    getMemberMonthlySpend(organizationId, userId, manager),
+    sumHeldCredits(manager, { organizationId, userId }),
+  ])
+  const capRemaining = Number(member.monthlyTokenLimit) - spent - memberHeld
+
+  if (amount > capRemaining) {
+    logger.warn('Reservation rejected: member monthly limit reached', {
+      organizationId,
+      userId,
+      required: amount,
+      limit: Number(member.monthlyTokenLimit),
+      spent,
+    })
+    throw new InsufficientQuotaError(amount, Math.max(0, capRemaining))
+  }
+  return Math.min(available, capRemaining)
+}
+
+/**
+ * Balance that is not already promised to an in-flight request
+ */
+export async function getAvailableBalance(userId: string): Promise<number> {
+  const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } })
+  if (!user) {
+    throw new NotFoundError('User')
+  }
+  const held = await sumHeldCredits(AppDataSource.manager, { userId })
+  return Number(user.tokenBalance) - held
+}
+
+/**
+ * Place a hold against the user's (or organization's) balance before calling upstream
+ * With `minAmount`, the hold shrinks to the available balance instead of failing; settlement caps the charge there
+ * @throws InsufficientQuotaError when the available balance - or the member's monthly cap - cannot cover the estimate (or its floor)
+ */
+export async function reserveCredits(input: ReserveCreditsInput): Promise<CreditReservation> {
+  const requested = Math.max(0, Math.ceil(input.amount))
+  const required = Math.min(requested, Math.max(0, Math.ceil(input.minAmount ?? requested)))
+  const organizationId = input.organizationId || null
+
+  return AppDataSource.transaction(async (manager) => {
+    let available: number
+
+    if (organizationId) {
+      available = await lockOrganizationWallet(manager, organizationId, input.userId, required)
+    } else {
+      // Lock the user row so concurrent reservations see each other's holds
+      const user = await manager.getRepository(User).findOne({
+        where: { id: input.userId },
+        lock: { mode: 'pessimistic_write' },
+      })
+
+      if (!user) {
+        throw new NotFoundError('User')
+      }
+
+      const held = await sumHeldCredits(manager, { userId: input.userId })
+      available = Number(user.tokenBalance) - held
+    }
+
+    if (available <= 0 || required > available) {
+      logger.warn('Reservation rejected: insufficient balance', {
+        userId: input.userId,
+        organizationId,
+        action: input.action,
+        required,
+        available,
+      })
+      throw new InsufficientQuotaError(required, Math.max(0, available))
+    }
+    const amount = Math.min(requested, available)
+
+    const reservation = manager.getRepository(CreditReservation).create({
+      userId: input.userId,
+      organizationId,
+      action: input.action,
+      amount,
+      status: 'held',
+      reference: input.reference || null,
+      metadata: input.metadata || null,
+      expiresAt: new Date(Date.now() + (input.ttlMs ?? DEFAULT_RESERVATION_TTL_MS)),
+    })
+
+    return manager.getRepository(CreditReservation).save(reservation)
+  })
+}
+
+/**
+ * Attach an external reference (e.g. KIE taskId) once the upstream call returns it
+ */
+export async function setReservationReference(reservationId: string, reference: string): Promise<void> {
+  await reservationRepository().update(reservationId, { reference })
+}
+
+/**
+ * Find the reservation created for an upstream reference
+ */
+export async function findReservationByReference(
+  userId: string,
+  reference: string
+): Promise<CreditReservation | null> {
+  return reservationRepository().findOne({
+    where: { userId, reference },
+    order: { createdAt: 'DESC' },
+  })
+}
+
+/**
+ * Charge the real cost of a reservation and write its usage log atomically
+ * The charge never exceeds what the wallet holds outside other in-flight requests, so the balance cannot go negative
+ * Returns null if the reservation was already settled (settlement is idempotent)
+ */
+export async function settleReservation(
+  reservationId: string,
+  input: SettleReservationInput
+): Promise<UsageLog | null> {
+  const requestedCredits = Math.max(0, Math.ceil(input.creditsUsed))
+
+  return AppDataSource.transaction(async (manager) => {
+    const reservation = await manager.getRepository(CreditReservation).findOne({
+      where: { id: reservationId },
+      lock: { mode: 'pessimistic_write' },
+    })
+
+    if (!reservation) {
+      throw new NotFoundError('Reservation')
+    }
+
+    if (reservation.status === 'settled') {
+      return null
+    }
+
+    // Serialize with concurrent reservations against the same wallet
+    const wallet = reservation.organizationId
+      ? await manager.getRepository(Organization).findOne({
+        where: { id: reservation.organizationId },
+        lock: { mode: 'pessimistic_write' },
+      })
+      : await manager.getRepository(User).findOne({
+        where: { id: reservation.userId },
+        lock: { mode: 'pessimistic_write' },
+      })
+
+    // Usage beyond the hold is only charged while the rest of the balance covers it
+    const otherHeld = await sumHeldCredits(
+      manager,
+      reservation.organizationId ? { organizationId: reservation.organizationId } : { userId: reservation.userId },
+      reservation.id
+    )
+    const chargeable = Math.max(0, Number(wallet?.tokenBalance ?? 0) - otherHeld)
+    const creditsUsed = Math.min(requestedCredits, chargeable)
+    if (creditsUsed < requestedCredits) {
+      logger.warn('Settlement capped at the available balance', {
+        reservationId,
+        userId: reservation.userId,
+        organizationId: reservation.organizationId,
+        requested: requestedCredits,
+        charged: creditsUsed,
+      })
+    }
+
+    const metadata: Record<string, unknown> = {
+      ...input.metadata,
+      reservationId: reservation.id,
+      reservedCredits: Number(reservation.amount),
+      ...(creditsUsed < requestedCredits && { unbilledCredits: requestedCredits - creditsUsed }),
+    }
+    const log = manager.getRepository(UsageLog).create({
+      userId: reservation.userId,
+      organizationId: reservation.organizationId,
+      action: reservation.action,
+      creditsUsed,
+      costUsd: input.costUsd,
+      success: true,
+      metadata,
+    })
+    const savedLog = await manager.getRepository(UsageLog).save(log)
+
+    if (creditsUsed > 0) {
+      // Personal lifetime totals only count spend from the user's own wallet
+      if (!reservation.organizationId) {
+        await manager.getRepository(User).increment({ id: reservation.userId }, 'creditsUsed', creditsUsed)
+        await manager.getRepository(User).increment({ id: reservation.userId }, 'totalSpentUsd', input.costUsd)
+      }
+      await recordTransaction({
+        userId: reservation.userId,
+        organizationId: reservation.organizationId,
+        type: 'spend',
+        amount: -creditsUsed,
+        usageLogId: savedLog.id,
+        description: reservation.action,
+      }, manager)
+    }
+
+    if (reservation.status === 'released') {
+      // Work finished after the hold expired - still bill it exactly once
+      logger.warn('Settling a released reservation', { reservationId, userId: reservation.userId })
+    }
+
+    reservation.status = 'settled'
+    reservation.settledAmount = creditsUsed
+    reservation.usageLogId = savedLog.id
+    reservation.resolvedAt = new Date()
+    await manager.getRepository(CreditReservation).save(reservation)
+
+    return savedLog
+  })
+}
+
+/**
+ * Release a hold without charging (upstream failure, timeout, client abort)
+ * No-op if the reservation was already settled or released
+ */
+export async function releaseReservation(reservationId: string, reason?: string): Promise<void> {
+  const result = await reservationRepository().update(
+    { id: reservationId, status: 'held' },
+    { status: 'released', resolvedAt: new Date() }
+  )
+
+  if (result.affected) {
+    logger.debug('Reservation released', { reservationId, reason })
+  }
+}
+
+/**
+ * Release holds that outlived their TTL
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const result = await reservationRepository().update(
+    { status: 'held', expiresAt: LessThan(new Date()) },
+    { status: 'released', resolvedAt: new Date() }
+  )
+  return result.affected ?? 0
+}
+
+/**
+ * Periodically release expired holds so abandoned requests don't lock balances
+ */
+export function startReservationSweeper(intervalMs: number = 60 * 1000): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      const released = await releaseExpiredReservations()
+      if (released > 0) {
+        logger.info('Expired credit reservations released', { count: released })
+      }
+    } catch (error) {
+      logger.error('Reservation sweeper error', error as Error)
+    }
+  }, intervalMs)
+}
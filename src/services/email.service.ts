@@ -19,6 +19,16 @@ const transporter = nodemailer.createTransport({
   },
 })
 
+// Escape user-controlled text placed in email HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
 // Generate 6-digit verification code
 export function generateVerificationCode(): string {
   return Math.floor(100000 + Math.random() * 900000).toString()
@@ -111,3 +121,372 @@ export async function sendVerificationEmail(
     return false
   }
 }
+
+export interface ApiKeyBudgetWarning {
+  keyName: string
+  period: 'daily' | 'monthly'
+  metric: 'tokens' | 'usd'
+  used: number
+  limit: number
+}
+
+// Send warning when an API key approaches its spend cap
+export async function sendApiKeyBudgetWarningEmail(
+  email: string,
+  warning: ApiKeyBudgetWarning
+): Promise<boolean> {
+  const periodLabel = warning.period === 'daily' ? 'hôm nay' : 'tháng này'
+  const format = (value: number) =>
+    warning.metric === 'usd' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString('en-US')} tokens`
+  const percent = Math.floor((warning.used / warning.limit) * 100)
+
+  try {
+    if (!SMTP_USER || !SMTP_PASS) {
+      logger.warn('SMTP not configured, skipping email send', { email })
+      logger.info('API key budget warning (dev mode)', { email, ...warning })
+      return true
+    }
+
+    const mailOptions = {
+      from: EMAIL_FROM,
+      to: email,
+      subject: `API key "${warning.keyName}" đã dùng ${percent}% hạn mức ${periodLabel}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Cảnh báo hạn mức API key</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f4f4f4;">
+          <table role="presentation" style="width: 100%; border-collapse: collapse;">
+            <tr>
+              <td align="center" style="padding: 40px 0;">
+                <table role="presentation" style="width: 100%; max-width: 600px; border-collapse: collapse; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+                  <!-- Header -->
+                  <tr>
+                    <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 12px 12px 0 0;">
+                      <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 600;">ImageGen AI</h1>
+                    </td>
+                  </tr>
+
+                  <!-- Content -->
+                  <tr>
+                    <td style="padding: 40px;">
+                      <h2 style="margin: 0 0 20px; color: #333333; font-size: 24px; font-weight: 600;">API key sắp đạt hạn mức</h2>
+                      <p style="margin: 0 0 20px; color: #666666; font-size: 16px; line-height: 1.6;">
+                        API key <strong>${warning.keyName}</strong> đã sử dụng <strong>${format(warning.used)}</strong>
+                        trên hạn mức <strong>${format(warning.limit)}</strong> ${periodLabel} (${percent}%).
+                      </p>
+                      <p style="margin: 0; color: #999999; font-size: 14px; line-height: 1.6;">
+                        Khi đạt hạn mức, các yêu cầu dùng key này sẽ bị từ chối cho đến kỳ tiếp theo.
+                        Bạn có thể điều chỉnh hạn mức trong trang quản lý API key.
+                      </p>
+                    </td>
+                  </tr>
+
+                  <!-- Footer -->
+                  <tr>
+                    <td style="padding: 20px 40px; background-color: #f8f9fa; border-radius: 0 0 12px 12px; text-align: center;">
+                      <p style="margin: 0; color: #999999; font-size: 12px;">
+                        © 2024 ImageGen AI. All rights reserved.
+                      </p>
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </body>
+        </html>
+      `,
+      text: `API key "${warning.keyName}" đã sử dụng ${format(warning.used)} trên hạn mức ${format(warning.limit)} ${periodLabel} (${percent}%).\n\nKhi đạt hạn mức, các yêu cầu dùng key này sẽ bị từ chối cho đến kỳ tiếp theo.`,
+    }
+
+    await transporter.sendMail(mailOptions)
+    logger.info('API key budget warning email sent', { email })
+    return true
+  } catch (error) {
+    logger.error('Failed to send API key budget warning email', error as Error)
+    return false
+  }
+}
+
+// Send password reset code
+export async function sendPasswordResetEmail(
+  email: string,
+  code: string
+): Promise<boolean> {
+  try {
+    if (!SMTP_USER || !SMTP_PASS) {
+      logger.warn('SMTP not configured, skipping email send', { email })
+      // In development, log the code instead
+      logger.info('Password reset code (dev mode)', { email, code })
+      return true
+    }
+
+    const mailOptions = {
+      from: EMAIL_FROM,
+      to: email,
+      subject: 'Đặt lại mật khẩu ImageGen AI',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Đặt lại mật khẩu</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f4f4f4;">
+          <table role="presentation" style="width: 100%; border-collapse: collapse;">
+            <tr>
+              <td align="center" style="padding: 40px 0;">
+                <table role="presentation" style="width: 100%; max-width: 600px; border-collapse: collapse; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+                  <!-- Header -->
+                  <tr>
+                    <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 12px 12px 0 0;">
+                      <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 600;">ImageGen AI</h1>
+                    </td>
+                  </tr>
+
+                  <!-- Content -->
+                  <tr>
+                    <td style="padding: 40px;">
+                      <h2 style="margin: 0 0 20px; color: #333333; font-size: 24px; font-weight: 600;">Đặt lại mật khẩu</h2>
+                      <p style="margin: 0 0 20px; color: #666666; font-size: 16px; line-height: 1.6;">
+                        Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn. Vui lòng sử dụng mã bên dưới:
+                      </p>
+
+                      <!-- Reset Code -->
+                      <div style="text-align: center; margin: 30px 0;">
+                        <div style="display: inline-block; padding: 20px 40px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 12px;">
+                          <span style="font-size: 36px; font-weight: 700; color: #ffffff; letter-spacing: 8px;">${code}</span>
+                        </div>
+                      </div>
+
+                      <p style="margin: 0 0 10px; color: #666666; font-size: 14px; line-height: 1.6;">
+                        ⏰ Mã có hiệu lực trong <strong>15 phút</strong>.
+                      </p>
+                      <p style="margin: 0; color: #999999; font-size: 14px; line-height: 1.6;">
+                        Nếu bạn không yêu cầu đặt lại mật khẩu, vui lòng bỏ qua email này. Mật khẩu hiện tại vẫn được giữ nguyên.
+                      </p>
+                    </td>
+                  </tr>
+
+                  <!-- Footer -->
+                  <tr>
+                    <td style="padding: 20px 40px; background-color: #f8f9fa; border-radius: 0 0 12px 12px; text-align: center;">
+                      <p style="margin: 0; color: #999999; font-size: 12px;">
+                        © 2024 ImageGen AI. All rights reserved.
+                      </p>
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </body>
+        </html>
+      `,
+      text: `Mã đặt lại mật khẩu ImageGen AI của bạn là: ${code}\n\nMã có hiệu lực trong 15 phút.\n\nNếu bạn không yêu cầu đặt lại mật khẩu, vui lòng bỏ qua email này.`,
+    }
+
+    await transporter.sendMail(mailOptions)
+    logger.info('Password reset email sent', { email })
+    return true
+  } catch (error) {
+    logger.error('Failed to send password reset email', error as Error)
+    return false
+  }
+}
+
+export interface PasswordChangeNotice {
+  method: 'reset' | 'change'
+  ip?: string
+  userAgent?: string
+  changedAt: Date
+}
+
+// Tell the owner their password was changed, in case it was not them
+export async function sendPasswordChangedEmail(
+  email: string,
+  notice: PasswordChangeNotice
+): Promise<boolean> {
+  const methodLabel = notice.method === 'reset' ? 'đặt lại qua email' : 'thay đổi trong tài khoản'
+  const changedAt = notice.changedAt.toISOString().replace('T', ' ').substring(0, 19) + ' UTC'
+  const device = [notice.userAgent, notice.ip].filter(Boolean).join(' — ') || 'Không xác định'
+
+  try {
+    if (!SMTP_USER || !SMTP_PASS) {
+      logger.warn('SMTP not configured, skipping email send', { email })
+      logger.info('Password changed notice (dev mode)', { email, method: notice.method })
+      return true
+    }
+
+    const mailOptions = {
+      from: EMAIL_FROM,
+      to: email,
+      subject: 'Mật khẩu ImageGen AI của bạn đã được thay đổi',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Mật khẩu đã thay đổi</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f4f4f4;">
+          <table role="presentation" style="width: 100%; border-collapse: collapse;">
+            <tr>
+              <td align="center" style="padding: 40px 0;">
+                <table role="presentation" style="width: 100%; max-width: 600px; border-collapse: collapse; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+                  <!-- Header -->
+                  <tr>
+                    <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 12px 12px 0 0;">
+                      <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 600;">ImageGen AI</h1>
+                    </td>
+                  </tr>
+
+                  <!-- Content -->
+                  <tr>
+                    <td style="padding: 40px;">
+                      <h2 style="margin: 0 0 20px; color: #333333; font-size: 24px; font-weight: 600;">Mật khẩu đã được thay đổi</h2>
+                      <p style="margin: 0 0 20px; color: #666666; font-size: 16px; line-height: 1.6;">
+                        Mật khẩu tài khoản của bạn vừa được ${methodLabel} lúc <strong>${changedAt}</strong>.
+                        Tất cả các phiên đăng nhập khác đã bị đăng xuất.
+                      </p>
+                      <p style="margin: 0 0 20px; color: #666666; font-size: 14px; line-height: 1.6;">
+                        Thiết bị: ${escapeHtml(device)}
+                      </p>
+                      <p style="margin: 0; color: #999999; font-size: 14px; line-height: 1.6;">
+                        Nếu bạn không thực hiện thay đổi này, hãy đặt lại mật khẩu ngay và liên hệ bộ phận hỗ trợ.
+                      </p>
+                    </td>
+                  </tr>
+
+                  <!-- Footer -->
+                  <tr>
+                    <td style="padding: 20px 40px; background-color: #f8f9fa; border-radius: 0 0 12px 12px; text-align: center;">
+                      <p style="margin: 0; color: #999999; font-size: 12px;">
+                        © 2024 ImageGen AI. All rights reserved.
+                      </p>
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </body>
+        </html>
+      `,
+      text: `Mật khẩu tài khoản ImageGen AI của bạn vừa được ${methodLabel} lúc ${changedAt}.\nThiết bị: ${device}\n\nNếu bạn không thực hiện thay đổi này, hãy đặt lại mật khẩu ngay và liên hệ bộ phận hỗ trợ.`,
+    }
+
+    await transporter.sendMail(mailOptions)
+    logger.info('Password changed email sent', { email })
+    return true
+  } catch (error) {
+    logger.error('Failed to send password changed email', error as Error)
+    return false
+  }
+}
+
+export interface OrganizationInvitationNotice {
+  organizationName: string
+  inviterName: string
+  role: string
+  acceptUrl: string
+  expiresAt: Date
+}
+
+// Invite someone to join an organization
+export async function sendOrganizationInvitationEmail(
+  email: string,
+  invitation: OrganizationInvitationNotice
+): Promise<boolean> {
+  const expiresAt = invitation.expiresAt.toISOString().replace('T', ' ').substring(0, 16) + ' UTC'
+
+  try {
+    if (!SMTP_USER || !SMTP_PASS) {
+      logger.warn('SMTP not configured, skipping email send', { email })
+      logger.info('Organization invitation (dev mode)', { email, organization: invitation.organizationName, acceptUrl: invitation.acceptUrl })
+      return true
+    }
+
+    const mailOptions = {
+      from: EMAIL_FROM,
+      to: email,
+      subject: `Lời mời tham gia tổ chức "${invitation.organizationName}" trên ImageGen AI`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Lời mời tham gia tổ chức</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f4f4f4;">
+          <table role="presentation" style="width: 100%; border-collapse: collapse;">
+            <tr>
+              <td align="center" style="padding: 40px 0;">
+                <table role="presentation" style="width: 100%; max-width: 600px; border-collapse: collapse; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+                  <!-- Header -->
+                  <tr>
+                    <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 12px 12px 0 0;">
+                      <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 600;">ImageGen AI</h1>
+                    </td>
+                  </tr>
+
+                  <!-- Content -->
+                  <tr>
+                    <td style="padding: 40px;">
+                      <h2 style="margin: 0 0 20px; color: #333333; font-size: 24px; font-weight: 600;">Bạn được mời tham gia tổ chức</h2>
+                      <p style="margin: 0 0 20px; color: #666666; font-size: 16px; line-height: 1.6;">
+                        <strong>${escapeHtml(invitation.inviterName)}</strong> đã mời bạn tham gia
+                        <strong>${escapeHtml(invitation.organizationName)}</strong> với vai trò <strong>${escapeHtml(invitation.role)}</strong>.
+                        Thành viên dùng chung số dư token và API key của tổ chức.
+                      </p>
+
+                      <!-- Accept Button -->
+                      <div style="text-align: center; margin: 30px 0;">
+                        <a href="${escapeHtml(invitation.acceptUrl)}" style="display: inline-block; padding: 16px 40px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 12px; color: #ffffff; font-size: 18px; font-weight: 600; text-decoration: none;">
+                          Chấp nhận lời mời
+                        </a>
+                      </div>
+
+                      <p style="margin: 0 0 10px; color: #666666; font-size: 14px; line-height: 1.6;">
+                        ⏰ Lời mời có hiệu lực đến <strong>${expiresAt}</strong>.
+                      </p>
+                      <p style="margin: 0; color: #999999; font-size: 14px; line-height: 1.6;">
+                        Bạn cần đăng nhập bằng chính địa chỉ email này để chấp nhận. Nếu bạn không mong đợi lời mời này, vui lòng bỏ qua email.
+                      </p>
+                    </td>
+                  </tr>
+
+                  <!-- Footer -->
+                  <tr>
+                    <td style="padding: 20px 40px; background-color: #f8f9fa; border-radius: 0 0 12px 12px; text-align: center;">
+                      <p style="margin: 0; color: #999999; font-size: 12px;">
+                        © 2024 ImageGen AI. All rights reserved.
+                      </p>
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </body>
+        </html>
+      `,
+      text: `${invitation.inviterName} đã mời bạn tham gia ${invitation.organizationName} trên ImageGen AI với vai trò ${invitation.role}.\n\nChấp nhận lời mời: ${invitation.acceptUrl}\n\nLời mời có hiệu lực đến ${expiresAt}.`,
+    }
+
+    await transporter.sendMail(mailOptions)
+    logger.info('Organization invitation email sent', { email })
+    return true
+  } catch (error) {
+    logger.error('Failed to send organization invitation email', error as Error)
+    return false
+  }
+}
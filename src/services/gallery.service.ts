@@ -0,0 +1,357 @@
+import { In, IsNull, SelectQueryBuilder } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import { UsageLog, ActionType, GalleryCollection, GalleryCollectionItem, GalleryFavorite } from '../entities'
+import { getSignedImageUrl } from './image-storage.service'
+import { KIE_IMAGE_MODEL } from './kie-api.service'
+import { NotFoundError, ConflictError, ValidationError } from '../errors'
+
+// Usage actions that produce a gallery image
+export const GALLERY_ACTIONS: ActionType[] = ['generate_image', 'api_image_generation']
+
+export const MAX_COLLECTIONS_PER_USER = 100
+export const MAX_BULK_ITEMS = 100
+
+// Text search configuration; must match the expression index below
+const SEARCH_CONFIG = 'english'
+const PROMPT_TSVECTOR = `to_tsvector('${SEARCH_CONFIG}', COALESCE(log.metadata->>'prompt', ''))`
+
+const usageLogRepository = () => AppDataSource.getRepository(UsageLog)
+const collectionRepository = () => AppDataSource.getRepository(GalleryCollection)
+const collectionItemRepository = () => AppDataSource.getRepository(GalleryCollectionItem)
+const favoriteRepository = () => AppDataSource.getRepository(GalleryFavorite)
+
+export interface GalleryFilters {
+  aspectRatio?: string
+  resolution?: string
+  model?: string
+  from?: Date
+  to?: Date
+  search?: string
+  favorites?: boolean
+  collectionId?: string
+  sort?: 'newest' | 'oldest'
+}
+
+export interface CollectionInput {
+  name?: unknown
+  description?: unknown
+}
+
+/**
+ * Shape returned by the gallery endpoints; `usageLogId` ties the image to its billing record
+ */
+export function formatGalleryItem(log: UsageLog, isFavorite: boolean) {
+  const metadata = log.metadata || {}
+  return {
+    id: log.id,
+    usageLogId: log.id,
+    source: log.action === 'api_image_generation' ? 'api' : 'web',
+    prompt: metadata.prompt ?? null,
+    model: metadata.model || KIE_IMAGE_MODEL,
+    aspectRatio: metadata.aspectRatio ?? null,
+    resolution: metadata.resolution ?? null,
+    imageUrl: metadata.storedImageId ? getSignedImageUrl(metadata.storedImageId) : metadata.imageUrl ?? null,
+    storedImageId: metadata.storedImageId ?? null,
+    taskId: metadata.taskId ?? null,
+    creditsUsed: Number(log.creditsUsed),
+    costUsd: Number(log.costUsd),
+    isFavorite,
+    createdAt: log.createdAt,
+  }
+}
+
+export function formatCollection(collection: GalleryCollection, itemCount: number) {
+  return {
+    id: collection.id,
+    name: collection.name,
+    description: collection.description,
+    itemCount,
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+  }
+}
+
+/**
+ * Successful, still-visible image logs owned by the user
+ */
+function galleryQuery(userId: string): SelectQueryBuilder<UsageLog> {
+  return usageLogRepository()
+    .createQueryBuilder('log')
+    .where('log.userId = :userId', { userId })
+    .andWhere('log.action IN (:...actions)', { actions: GALLERY_ACTIONS })
+    .andWhere('log.success = true')
+    .andWhere('log.galleryHiddenAt IS NULL')
+    .andWhere("(log.metadata->>'imageUrl' IS NOT NULL OR log.metadata->>'storedImageId' IS NOT NULL)")
+}
+
+async function favoriteIdsFor(userId: string, usageLogIds: string[]): Promise<Set<string>> {
+  if (usageLogIds.length === 0) return new Set()
+  const favorites = await favoriteRepository().find({
+    where: { userId, usageLogId: In(usageLogIds) },
+    select: ['usageLogId'],
+  })
+  return new Set(favorites.map((f) => f.usageLogId))
+}
+
+async function getOwnedCollection(userId: string, collectionId: string): Promise<GalleryCollection> {
+  const collection = await collectionRepository().findOne({ where: { id: collectionId, userId } })
+  if (!collection) {
+    throw new NotFoundError('Collection')
+  }
+  return collection
+}
+
+/**
+ * Visible gallery ids from a client-supplied list (others are silently dropped)
+ */
+async function visibleItemIds(userId: string, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return []
+  const rows = await galleryQuery(userId)
+    .andWhere('log.id IN (:...ids)', { ids })
+    .select('log.id', 'id')
+    .getRawMany<{ id: string }>()
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Expression index backing prompt search (TypeORM sync cannot declare it)
+ */
+export async function ensureGallerySearchIndex(): Promise<void> {
+  await AppDataSource.query(
+    `CREATE INDEX IF NOT EXISTS "IDX_usage_logs_prompt_search" ON usage_logs
+     USING GIN (to_tsvector('${SEARCH_CONFIG}', COALESCE(metadata->>'prompt', '')))`
+  )
+}
+
+export async function listGallery(
+  userId: string,
+  filters: GalleryFilters = {},
+  page: number = 1,
+  limit: number = 20
+) {
+  const query = galleryQuery(userId)
+
+  if (filters.aspectRatio) {
+    query.andWhere("log.metadata->>'aspectRatio' = :aspectRatio", { aspectRatio: filters.aspectRatio })
+  }
+  if (filters.resolution) {
+    query.andWhere("log.metadata->>'resolution' = :resolution", { resolution: filters.resolution })
+  }
+  if (filters.model) {
+    // Logs written before the model was recorded all came from the default KIE model
+    query.andWhere("COALESCE(log.metadata->>'model', :defaultModel) = :model", {
+      defaultModel: KIE_IMAGE_MODEL,
+      model: filters.model,
+    })
+  }
+  if (filters.from) {
+    query.andWhere('log.createdAt >= :from', { from: filters.from })
+  }
+  if (filters.to) {
+    query.andWhere('log.createdAt <= :to', { to: filters.to })
+  }
+  if (filters.search) {
+    query.andWhere(`${PROMPT_TSVECTOR} @@ plainto_tsquery('${SEARCH_CONFIG}', :search)`, { search: filters.search })
+  }
+  if (filters.favorites) {
+    query.andWhere(
+      'EXISTS (SELECT 1 FROM gallery_favorites fav WHERE fav."usageLogId" = log.id AND fav."userId" = :userId)'
+    )
+  }
+  if (filters.collectionId) {
+    await getOwnedCollection(userId, filters.collectionId)
+    query.andWhere(
+      'EXISTS (SELECT 1 FROM gallery_collection_items item WHERE item."usageLogId" = log.id AND item."collectionId" = :collectionId)',
+      { collectionId: filters.collectionId }
+    )
+  }
+
+  const [logs, total] = await query
+    .orderBy('log.createdAt', filters.sort === 'oldest' ? 'ASC' : 'DESC')
+    .skip((page - 1) * limit)
+    .take(limit)
+    .getManyAndCount()
+
+  const favoriteIds = await favoriteIdsFor(userId, logs.map((log) => log.id))
+
+  return {
+    items: logs.map((log) => formatGalleryItem(log, favoriteIds.has(log.id))),
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
+}
+
+export async function getGalleryItem(userId: string, itemId: string) {
+  const log = await galleryQuery(userId).andWhere('log.id = :itemId', { itemId }).getOne()
+  if (!log) {
+    throw new NotFoundError('Gallery item')
+  }
+
+  const [favoriteIds, memberships] = await Promise.all([
+    favoriteIdsFor(userId, [log.id]),
+    collectionItemRepository().find({ where: { usageLogId: log.id }, select: ['collectionId'] }),
+  ])
+
+  return {
+    ...formatGalleryItem(log, favoriteIds.has(log.id)),
+    collectionIds: memberships.map((m) => m.collectionId),
+  }
+}
+
+export async function setFavorite(userId: string, itemId: string, favorite: boolean): Promise<void> {
+  const [visibleId] = await visibleItemIds(userId, [itemId])
+  if (!visibleId) {
+    throw new NotFoundError('Gallery item')
+  }
+
+  if (favorite) {
+    await favoriteRepository()
+      .createQueryBuilder()
+      .insert()
+      .values({ userId, usageLogId: itemId })
+      .orIgnore()
+      .execute()
+  } else {
+    await favoriteRepository().delete({ userId, usageLogId: itemId })
+  }
+}
+
+/**
+ * Remove images from the gallery
+ * Usage logs stay in place so spend history and the ledger remain intact
+ */
+export async function deleteGalleryItems(userId: string, ids: string[]): Promise<number> {
+  const visibleIds = await visibleItemIds(userId, ids)
+  if (visibleIds.length === 0) return 0
+
+  return AppDataSource.transaction(async (manager) => {
+    const result = await manager.getRepository(UsageLog).update(
+      { id: In(visibleIds), userId, galleryHiddenAt: IsNull() },
+      { galleryHiddenAt: new Date() }
+    )
+    await manager.getRepository(GalleryFavorite).delete({ userId, usageLogId: In(visibleIds) })
+    await manager.getRepository(GalleryCollectionItem).delete({ usageLogId: In(visibleIds) })
+
+    return result.affected || 0
+  })
+}
+
+function parseCollectionInput(input: CollectionInput, partial: boolean): { name?: string; description?: string | null } {
+  const parsed: { name?: string; description?: string | null } = {}
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      throw new ValidationError('Collection name is required')
+    }
+    if (input.name.trim().length > 100) {
+      throw new ValidationError('Collection name is too long (max 100 characters)')
+    }
+    parsed.name = input.name.trim()
+  }
+
+  const { description } = input
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      throw new ValidationError('Description must be a string')
+    }
+    if (description && description.length > 500) {
+      throw new ValidationError('Description is too long (max 500 characters)')
+    }
+    parsed.description = description?.trim() || null
+  }
+
+  return parsed
+}
+
+async function assertNameAvailable(userId: string, name: string, exceptId?: string): Promise<void> {
+  const existing = await collectionRepository().findOne({ where: { userId, name } })
+  if (existing && existing.id !== exceptId) {
+    throw new ConflictError('A collection with this name already exists')
+  }
+}
+
+async function itemCounts(collectionIds: string[]): Promise<Map<string, number>> {
+  if (collectionIds.length === 0) return new Map()
+  const rows = await collectionItemRepository()
+    .createQueryBuilder('item')
+    .select('item.collectionId', 'collectionId')
+    .addSelect('COUNT(*)', 'count')
+    .where('item.collectionId IN (:...collectionIds)', { collectionIds })
+    .groupBy('item.collectionId')
+    .getRawMany<{ collectionId: string; count: string }>()
+  return new Map(rows.map((row) => [row.collectionId, Number(row.count)]))
+}
+
+export async function listCollections(userId: string) {
+  const collections = await collectionRepository().find({
+    where: { userId },
+    order: { createdAt: 'DESC' },
+  })
+  const counts = await itemCounts(collections.map((c) => c.id))
+  return collections.map((c) => formatCollection(c, counts.get(c.id) || 0))
+}
+
+export async function createCollection(userId: string, input: CollectionInput) {
+  const { name, description } = parseCollectionInput(input, false)
+
+  const count = await collectionRepository().count({ where: { userId } })
+  if (count >= MAX_COLLECTIONS_PER_USER) {
+    throw new ValidationError(`Maximum ${MAX_COLLECTIONS_PER_USER} collections allowed`)
+  }
+  await assertNameAvailable(userId, name!)
+
+  const collection = await collectionRepository().save(
+    collectionRepository().create({ userId, name, description: description ?? null })
+  )
+  return formatCollection(collection, 0)
+}
+
+export async function updateCollection(userId: string, collectionId: string, input: CollectionInput) {
+  const collection = await getOwnedCollection(userId, collectionId)
+  const { name, description } = parseCollectionInput(input, true)
+
+  if (name !== undefined && name !== collection.name) {
+    await assertNameAvailable(userId, name, collection.id)
+    collection.name = name
+  }
+  if (description !== undefined) {
+    collection.description = description
+  }
+
+  const saved = await collectionRepository().save(collection)
+  const counts = await itemCounts([saved.id])
+  return formatCollection(saved, counts.get(saved.id) || 0)
+}
+
+export async function deleteCollection(userId: string, collectionId: string): Promise<void> {
+  const collection = await getOwnedCollection(userId, collectionId)
+  await collectionRepository().remove(collection)
+}
+
+/**
+ * Add gallery items to a collection; ids already present or not in the gallery are skipped
+ */
+export async function addCollectionItems(userId: string, collectionId: string, ids: string[]): Promise<number> {
+  await getOwnedCollection(userId, collectionId)
+  const visibleIds = await visibleItemIds(userId, ids)
+  if (visibleIds.length === 0) return 0
+
+  const result = await collectionItemRepository()
+    .createQueryBuilder()
+    .insert()
+    .values(visibleIds.map((usageLogId) => ({ collectionId, usageLogId })))
+    .orIgnore()
+    .execute()
+
+  // RETURNING only yields the rows that were actually inserted
+  return (result.raw as unknown[]).length
+}
+
+export async function removeCollectionItem(userId: string, collectionId: string, itemId: string): Promise<void> {
+  await getOwnedCollection(userId, collectionId)
+  const result = await collectionItemRepository().delete({ collectionId, usageLogId: itemId })
+  if (!result.affected) {
+    throw new NotFoundError('Collection item')
+  }
+}
@@ -1,6 +1,10 @@
 import { logger } from '../utils/logger'
+import { countMessageTokens } from '../utils/tokenizer'
 
 const GEMINI_API_URL = 'https://api.kie.ai/gemini-3-pro/v1/chat/completions'
+
+// Model served by GEMINI_API_URL (used for token counting)
+export const GEMINI_CHAT_MODEL = 'gemini-3-pro'
 const KIE_API_KEY = process.env.KIE_API_KEY || ''
 
 // Agent tier types
@@ -487,6 +491,11 @@ export interface ChatRequest {
   agentId?: AgentId
   stream?: boolean
   includeThoughts?: boolean
+  // Replaces the agent prompt (internal calls such as conversation summaries)
+  systemPrompt?: string
+  // Another registry model instead of the default Gemini endpoint
+  model?: { modelId: string; upstreamUrl: string }
+  maxTokens?: number
 }
 
 export interface ChatResponse {
@@ -516,20 +525,26 @@ export interface StreamChunk {
     }
     finish_reason: string | null
   }[]
+  // Sent in the final chunk when stream_options.include_usage is set
+  usage?: ChatResponse['usage'] | null
 }
 
-// Pricing per 1K tokens (approximate based on typical API pricing)
-const TOKEN_PRICE_PER_1K = 0.001 // $0.001 per 1K tokens
-
-export function calculateCost(tokens: number, multiplier: number = 1): number {
-  return (tokens / 1000) * TOKEN_PRICE_PER_1K * multiplier
-}
+export type StreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'usage'; usage: ChatResponse['usage'] }
 
 // Calculate tokens with multiplier applied
 export function calculateTokensWithMultiplier(tokens: number, agentId: string): number {
   return tokens * getTokenMultiplier(agentId)
 }
 
+// Prompt size for reservations and as a fallback when upstream reports no usage
+// The agent system prompt is added by chat()/chatStream(), so count it here too
+export function estimatePromptTokens(messages: ChatMessage[], agentId: AgentId = 'general_base'): number {
+  const systemPrompt = `${AGENTS[agentId].systemPrompt}\n\n${getDateContext()}`
+  return countMessageTokens([{ role: 'system', content: systemPrompt }, ...messages], GEMINI_CHAT_MODEL)
+}
+
 // Get current date context for system prompt
 function getDateContext(): string {
   const now = new Date()
@@ -549,7 +564,7 @@ export async function chat(request: ChatRequest): Promise<ChatResponse> {
   const agent = AGENTS[request.agentId || 'general_base']
 
   // Build system prompt with current date
-  const systemPrompt = `${agent.systemPrompt}\n\n${getDateContext()}`
+  const systemPrompt = request.systemPrompt ?? `${agent.systemPrompt}\n\n${getDateContext()}`
 
   // Build messages with system prompt
   const messages: ChatMessage[] = [
@@ -559,16 +574,18 @@ export async function chat(request: ChatRequest): Promise<ChatResponse> {
 
   logger.debug('Gemini chat request', { agentId: request.agentId, messageCount: messages.length })
 
-  const response = await fetch(GEMINI_API_URL, {
+  const response = await fetch(request.model?.upstreamUrl || GEMINI_API_URL, {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${KIE_API_KEY}`,
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
+      ...(request.model && { model: request.model.modelId }),
       messages,
       stream: false,
       include_thoughts: request.includeThoughts || false,
+      ...(request.maxTokens && { max_tokens: request.maxTokens }),
     }),
   })
 
@@ -581,18 +598,18 @@ export async function chat(request: ChatRequest): Promise<ChatResponse> {
   const data = (await response.json()) as ChatResponse
   logger.info('Gemini chat completed', {
     tokens: data.usage?.total_tokens,
-    cost: calculateCost(data.usage?.total_tokens || 0),
   })
 
   return data
 }
 
 // Streaming chat for real-time responses
-export async function* chatStream(request: ChatRequest): AsyncGenerator<string, void, unknown> {
+// Yields content deltas, then the upstream usage block if the provider reports one
+export async function* chatStream(request: ChatRequest): AsyncGenerator<StreamEvent, void, unknown> {
   const agent = AGENTS[request.agentId || 'general_base']
 
   // Build system prompt with current date
-  const systemPrompt = `${agent.systemPrompt}\n\n${getDateContext()}`
+  const systemPrompt = request.systemPrompt ?? `${agent.systemPrompt}\n\n${getDateContext()}`
 
   const messages: ChatMessage[] = [
     { role: 'system', content: systemPrompt },
@@ -608,7 +625,9 @@ export async function* chatStream(request: ChatRequest): AsyncGenerator<string,
     body: JSON.stringify({
       messages,
       stream: true,
+      stream_options: { include_usage: true },
       include_thoughts: request.includeThoughts || false,
+      ...(request.maxTokens && { max_tokens: request.maxTokens }),
     }),
   })
 
@@ -638,8 +657,9 @@ export async function* chatStream(request: ChatRequest): AsyncGenerator<string,
 
         try {
           const chunk: StreamChunk = JSON.parse(data)
-          const content = chunk.choices[0]?.delta?.content
-          if (content) yield content
+          const content = chunk.choices?.[0]?.delta?.content
+          if (content) yield { type: 'content', content }
+          if (chunk.usage) yield { type: 'usage', usage: chunk.usage }
         } catch {
           // Skip invalid JSON
         }
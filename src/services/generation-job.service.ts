@@ -0,0 +1,370 @@
+import { In, IsNull, LessThanOrEqual } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import { GenerationJob, GenerationJobStatus, User } from '../entities'
+import { getTaskStatus, KIE_IMAGE_MODEL } from './kie-api.service'
+import { logUsage, CREDITS_PER_IMAGE, CREDIT_PRICE_USD, API_IMAGE_CREDITS, API_IMAGE_PRICE_USD } from './usage.service'
+import { settleReservation, releaseReservation } from './credit-reservation.service'
+import { tryPersistImage, getSignedImageUrl } from './image-storage.service'
+import { deliverWebhook, generateWebhookSecret, WEBHOOK_RETRY_DELAYS_MS } from './webhook.service'
+import { logger } from '../utils/logger'
+
+// Poll quickly while a task is young, then back off
+const FAST_POLL_INTERVAL_MS = 5 * 1000
+const SLOW_POLL_INTERVAL_MS = 20 * 1000
+const FAST_POLL_ATTEMPTS = 12
+
+// Give up on tasks KIE never finishes
+const JOB_TIMEOUT_MS = 30 * 60 * 1000 // 30 minutes
+
+const WORKER_BATCH_SIZE = 20
+
+// How long a completed job's webhook waits for its image to be copied
+const WEBHOOK_HOLD_MS = 60 * 1000
+
+const jobRepository = () => AppDataSource.getRepository(GenerationJob)
+const userRepository = () => AppDataSource.getRepository(User)
+
+export interface CreateGenerationJobInput {
+  userId: string
+  taskId: string
+  prompt: string
+  aspectRatio: string
+  resolution: string
+  outputFormat: string
+  reservationId: string
+  webhookUrl?: string
+  // Created through the /v1 API with this key
+  apiKeyId?: string
+}
+
+const toUnixSeconds = (date: Date) => Math.floor(new Date(date).getTime() / 1000)
+
+/**
+ * Shape returned by the jobs endpoints
+ */
+export function formatJob(job: GenerationJob) {
+  return {
+    id: job.id,
+    taskId: job.taskId,
+    status: job.status,
+    prompt: job.prompt,
+    aspectRatio: job.aspectRatio,
+    resolution: job.resolution,
+    outputFormat: job.outputFormat,
+    imageUrl: job.storedImageId ? getSignedImageUrl(job.storedImageId) : job.resultUrl,
+    error: job.error,
+    webhookUrl: job.webhookUrl,
+    webhookStatus: job.webhookStatus,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  }
+}
+
+/**
+ * Shape returned by GET /v1/images/jobs/:id and sent to /v1 webhooks (OpenAI-style snake_case)
+ */
+export function formatApiJob(job: GenerationJob) {
+  const imageUrl = job.storedImageId ? getSignedImageUrl(job.storedImageId) : job.resultUrl
+  return {
+    id: job.id,
+    object: 'image.job',
+    status: job.status,
+    created: toUnixSeconds(job.createdAt),
+    completed_at: job.completedAt ? toUnixSeconds(job.completedAt) : null,
+    data: job.status === 'completed' && imageUrl ? [{ url: imageUrl, revised_prompt: job.prompt }] : null,
+    error: job.status === 'failed' ? { message: job.error, code: 'generation_failed' } : null,
+    webhook_url: job.webhookUrl,
+    webhook_status: job.webhookStatus,
+  }
+}
+
+// Usage action and price a job is billed with
+function jobBilling(job: GenerationJob) {
+  return job.apiKeyId
+    ? { action: 'api_image_generation' as const, creditsUsed: API_IMAGE_CREDITS, costUsd: API_IMAGE_PRICE_USD }
+    : { action: 'generate_image' as const, creditsUsed: CREDITS_PER_IMAGE, costUsd: CREDITS_PER_IMAGE * CREDIT_PRICE_USD }
+}
+
+function nextPollDelay(attempts: number): number {
+  return attempts < FAST_POLL_ATTEMPTS ? FAST_POLL_INTERVAL_MS : SLOW_POLL_INTERVAL_MS
+}
+
+export async function createGenerationJob(input: CreateGenerationJobInput): Promise<GenerationJob> {
+  const job = jobRepository().create({
+    userId: input.userId,
+    taskId: input.taskId,
+    status: 'processing',
+    prompt: input.prompt,
+    aspectRatio: input.aspectRatio,
+    resolution: input.resolution,
+    outputFormat: input.outputFormat,
+    reservationId: input.reservationId,
+    apiKeyId: input.apiKeyId || null,
+    webhookUrl: input.webhookUrl || null,
+    nextPollAt: new Date(Date.now() + FAST_POLL_INTERVAL_MS),
+  })
+  return jobRepository().save(job)
+}
+
+export async function getUserJob(userId: string, jobId: string): Promise<GenerationJob | null> {
+  return jobRepository().findOne({ where: { id: jobId, userId } })
+}
+
+export async function findJobByTaskId(userId: string, taskId: string): Promise<GenerationJob | null> {
+  return jobRepository().findOne({ where: { taskId, userId } })
+}
+
+export async function getUserJobs(
+  userId: string,
+  page: number = 1,
+  limit: number = 20,
+  status?: GenerationJobStatus
+) {
+  const [jobs, total] = await jobRepository().findAndCount({
+    where: status ? { userId, status } : { userId },
+    order: { createdAt: 'DESC' },
+    skip: (page - 1) * limit,
+    take: limit,
+  })
+
+  return {
+    jobs: jobs.map(formatJob),
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
+}
+
+/**
+ * Return the user's webhook signing secret, creating one on first use
+ */
+export async function getWebhookSecret(userId: string, rotate = false): Promise<string> {
+  const user = await userRepository().findOne({ where: { id: userId } })
+  if (user?.webhookSecret && !rotate) {
+    return user.webhookSecret
+  }
+
+  const secret = generateWebhookSecret()
+  await userRepository().update(userId, { webhookSecret: secret })
+  return secret
+}
+
+/**
+ * Bill a finished job exactly once and record its result
+ * The status is claimed before the image is stored or the hold settled, so a job another path already failed is left alone
+ */
+async function completeJob(job: GenerationJob, resultUrl: string | undefined): Promise<GenerationJob> {
+  // Only the poller that flips the status stores the image, bills the job and schedules the webhook
+  // The webhook waits for the image copy, but still goes out if this worker stops before it finishes
+  const claimed = await jobRepository().update(
+    { id: job.id, status: 'processing' },
+    {
+      status: 'completed',
+      resultUrl: resultUrl || null,
+      completedAt: new Date(),
+      ...(job.webhookUrl ? { webhookStatus: 'pending' as const, nextWebhookAt: new Date(Date.now() + WEBHOOK_HOLD_MS) } : {}),
+    }
+  )
+
+  if (claimed.affected) {
+    // Copy the image before the upstream URL expires; keep the upstream URL if that fails
+    const storedImage = resultUrl
+      ? await tryPersistImage({ userId: job.userId, sourceUrl: resultUrl, taskId: job.taskId })
+      : null
+    await jobRepository().update(job.id, {
+      storedImageId: storedImage?.id ?? null,
+      ...(job.webhookUrl ? { nextWebhookAt: new Date() } : {}),
+    })
+
+    const metadata = {
+      prompt: job.prompt,
+      taskId: job.taskId,
+      imageUrl: resultUrl,
+      storedImageId: storedImage?.id,
+      model: KIE_IMAGE_MODEL,
+      aspectRatio: job.aspectRatio,
+      resolution: job.resolution,
+      jobId: job.id,
+      ...(job.apiKeyId ? { apiKeyId: job.apiKeyId } : {}),
+    }
+    const billing = jobBilling(job)
+
+    const log = job.reservationId
+      ? await settleReservation(job.reservationId, {
+        creditsUsed: billing.creditsUsed,
+        costUsd: billing.costUsd,
+        metadata,
+      })
+      : await logUsage({ userId: job.userId, action: billing.action, success: true, metadata })
+    if (log) {
+      await jobRepository().update(job.id, { usageLogId: log.id })
+    }
+
+    logger.info('Image generated successfully', { taskId: job.taskId, jobId: job.id, userId: job.userId })
+  }
+
+  return (await jobRepository().findOne({ where: { id: job.id } }))!
+}
+
+/**
+ * Mark a job failed and release its hold; a no-op once the job has finished
+ * Also used by blocking /v1 requests that give up, so a late result is never billed
+ */
+export async function failJob(job: GenerationJob, error: string): Promise<GenerationJob> {
+  const claimed = await jobRepository().update(
+    { id: job.id, status: 'processing' },
+    {
+      status: 'failed',
+      error,
+      completedAt: new Date(),
+      ...(job.webhookUrl ? { webhookStatus: 'pending' as const, nextWebhookAt: new Date() } : {}),
+    }
+  )
+
+  if (claimed.affected) {
+    if (job.reservationId) {
+      await releaseReservation(job.reservationId, 'generation_failed')
+    }
+
+    await logUsage({
+      userId: job.userId,
+      action: jobBilling(job).action,
+      success: false,
+      metadata: {
+        prompt: job.prompt,
+        taskId: job.taskId,
+        error,
+        jobId: job.id,
+        ...(job.apiKeyId ? { apiKeyId: job.apiKeyId } : {}),
+      },
+    })
+
+    logger.warn('Image generation failed', { taskId: job.taskId, jobId: job.id, error })
+  }
+
+  return (await jobRepository().findOne({ where: { id: job.id } }))!
+}
+
+/**
+ * Check KIE once for a processing job and apply the result
+ */
+export async function pollJob(job: GenerationJob): Promise<GenerationJob> {
+  if (job.status !== 'processing') {
+    return job
+  }
+
+  try {
+    const result = await getTaskStatus(job.taskId)
+
+    if (result.code === 200 && result.data) {
+      if (result.data.status === 'SUCCESS') {
+        return completeJob(job, result.data.output?.media_url)
+      }
+      if (result.data.status === 'FAILED') {
+        return failJob(job, result.data.error || 'Generation failed')
+      }
+    } else {
+      logger.warn('Failed to get task status', { taskId: job.taskId, error: result.msg })
+    }
+  } catch (error) {
+    logger.warn('Task status poll error', { taskId: job.taskId, error: (error as Error).message })
+  }
+
+  if (Date.now() - new Date(job.createdAt).getTime() > JOB_TIMEOUT_MS) {
+    return failJob(job, 'Generation timed out')
+  }
+
+  const pollAttempts = job.pollAttempts + 1
+  await jobRepository().update(
+    { id: job.id, status: 'processing' },
+    { pollAttempts, nextPollAt: new Date(Date.now() + nextPollDelay(pollAttempts)) }
+  )
+  job.pollAttempts = pollAttempts
+  return job
+}
+
+/**
+ * Send (or retry) the completion callback for a finished job
+ */
+async function sendJobWebhook(job: GenerationJob): Promise<void> {
+  if (!job.webhookUrl) return
+
+  const secret = await getWebhookSecret(job.userId)
+  const event = job.status === 'completed' ? 'generation.completed' : 'generation.failed'
+  const payload = job.apiKeyId ? formatApiJob(job) : formatJob(job)
+  const result = await deliverWebhook(job.webhookUrl, secret, event, payload)
+  const webhookAttempts = job.webhookAttempts + 1
+
+  if (result.ok) {
+    await jobRepository().update(job.id, {
+      webhookStatus: 'delivered',
+      webhookAttempts,
+      webhookDeliveredAt: new Date(),
+      nextWebhookAt: null,
+      webhookLastError: null,
+    })
+    return
+  }
+
+  const retryDelay = WEBHOOK_RETRY_DELAYS_MS[webhookAttempts - 1]
+  await jobRepository().update(job.id, {
+    webhookStatus: retryDelay !== undefined ? 'pending' : 'failed',
+    webhookAttempts,
+    nextWebhookAt: retryDelay !== undefined ? new Date(Date.now() + retryDelay) : null,
+    webhookLastError: result.error?.substring(0, 500) || null,
+  })
+
+  if (retryDelay === undefined) {
+    logger.warn('Webhook delivery abandoned', { jobId: job.id, attempts: webhookAttempts, error: result.error })
+  }
+}
+
+let workerRunning = false
+
+/**
+ * One worker pass: poll due jobs, then deliver due webhooks
+ */
+export async function processDueJobs(): Promise<void> {
+  if (workerRunning) return
+  workerRunning = true
+
+  try {
+    const dueJobs = await jobRepository().find({
+      where: { status: 'processing', nextPollAt: LessThanOrEqual(new Date()) },
+      order: { nextPollAt: 'ASC' },
+      take: WORKER_BATCH_SIZE,
+    })
+    for (const job of dueJobs) {
+      await pollJob(job)
+    }
+
+    const dueWebhooks = await jobRepository().find({
+      where: {
+        status: In(['completed', 'failed']),
+        webhookStatus: 'pending',
+        nextWebhookAt: LessThanOrEqual(new Date()),
+        webhookDeliveredAt: IsNull(),
+      },
+      order: { nextWebhookAt: 'ASC' },
+      take: WORKER_BATCH_SIZE,
+    })
+    for (const job of dueWebhooks) {
+      await sendJobWebhook(job)
+    }
+  } finally {
+    workerRunning = false
+  }
+}
+
+/**
+ * Background worker that drives jobs to completion without client polling
+ */
+export function startGenerationJobWorker(intervalMs: number = FAST_POLL_INTERVAL_MS): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      await processDueJobs()
+    } catch (error) {
+      logger.error('Generation job worker error', error as Error)
+    }
+  }, intervalMs)
+}
@@ -0,0 +1,210 @@
+import crypto from 'crypto'
+import { AppDataSource } from '../data-source'
+import { StoredImage } from '../entities'
+import { getStorageDriver } from './storage'
+import { getImageInfo, IMAGE_EXTENSIONS } from '../utils/image-info'
+import { logger } from '../utils/logger'
+
+const STORAGE_SIGNING_SECRET = process.env.STORAGE_SIGNING_SECRET || 'default-storage-signing-secret-change-in-production'
+
+// SECURITY: signed image URLs are bearer credentials
+if (process.env.NODE_ENV === 'production' && STORAGE_SIGNING_SECRET === 'default-storage-signing-secret-change-in-production') {
+  throw new Error('CRITICAL SECURITY ERROR: STORAGE_SIGNING_SECRET must be set in production')
+}
+
+const API_URL = (process.env.API_URL || 'http://localhost:4000').replace(/\/+$/, '')
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '86400') // 24 hours
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024 // 25MB
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000
+
+const storedImageRepository = () => AppDataSource.getRepository(StoredImage)
+
+export interface PersistImageInput {
+  userId: string
+  sourceUrl: string
+  taskId?: string
+}
+
+export interface PersistImageBufferInput {
+  userId: string
+  buffer: Buffer
+  // Where the bytes came from (upstream URL, or "upload:<filename>" for client uploads)
+  sourceUrl: string
+  taskId?: string
+}
+
+/**
+ * HMAC over "<imageId>.<expires>" for the signed image route
+ */
+export function signImageUrl(imageId: string, expires: number): string {
+  return crypto.createHmac('sha256', STORAGE_SIGNING_SECRET).update(`${imageId}.${expires}`).digest('hex')
+}
+
+/**
+ * Check an image URL signature and its expiry (unix seconds)
+ */
+export function verifyImageSignature(imageId: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) return false
+  if (typeof signature !== 'string' || !/^[0-9a-f]{64}$/.test(signature)) return false
+
+  const expected = Buffer.from(signImageUrl(imageId, expires), 'hex')
+  return crypto.timingSafeEqual(expected, Buffer.from(signature, 'hex'))
+}
+
+/**
+ * Absolute, time-limited URL for a stored image
+ */
+export function getSignedImageUrl(imageId: string, ttlSeconds: number = SIGNED_URL_TTL_SECONDS): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds
+  return `${API_URL}/api/images/${imageId}?expires=${expires}&signature=${signImageUrl(imageId, expires)}`
+}
+
+export function formatStoredImage(image: StoredImage) {
+  return {
+    id: image.id,
+    url: getSignedImageUrl(image.id),
+    contentType: image.contentType,
+    width: image.width,
+    height: image.height,
+    bytes: image.bytes,
+    sha256: image.sha256,
+  }
+}
+
+/**
+ * Download an image over HTTPS, refusing anything over MAX_IMAGE_BYTES
+ */
+export async function downloadImage(sourceUrl: string): Promise<Buffer> {
+  const url = new URL(sourceUrl)
+  if (url.protocol !== 'https:') {
+    throw new Error('Only HTTPS image sources are supported')
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, { signal: controller.signal })
+    if (!response.ok || !response.body) {
+      throw new Error(`Image download failed: ${response.status}`)
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'))
+    if (declaredLength > MAX_IMAGE_BYTES) {
+      throw new Error('Image exceeds maximum size')
+    }
+
+    const chunks: Buffer[] = []
+    let total = 0
+    const reader = response.body.getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      total += value.length
+      if (total > MAX_IMAGE_BYTES) {
+        await reader.cancel()
+        throw new Error('Image exceeds maximum size')
+      }
+      chunks.push(Buffer.from(value))
+    }
+    return Buffer.concat(chunks)
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+export async function findStoredImage(imageId: string): Promise<StoredImage | null> {
+  return storedImageRepository().findOne({ where: { id: imageId } })
+}
+
+export async function findStoredImageByTaskId(userId: string, taskId: string): Promise<StoredImage | null> {
+  return storedImageRepository().findOne({ where: { userId, taskId } })
+}
+
+/**
+ * Copy an upstream image into our storage and record its metadata
+ * Re-persisting the same task or identical bytes returns the existing copy
+ */
+export async function persistImageFromUrl(input: PersistImageInput): Promise<StoredImage> {
+  if (input.taskId) {
+    const existing = await findStoredImageByTaskId(input.userId, input.taskId)
+    if (existing) return existing
+  }
+
+  const buffer = await downloadImage(input.sourceUrl)
+  return persistImageBuffer({ userId: input.userId, buffer, sourceUrl: input.sourceUrl, taskId: input.taskId })
+}
+
+/**
+ * Store image bytes we already hold (uploads, decoded base64) and record their metadata
+ * Identical bytes for the same user return the existing copy
+ */
+export async function persistImageBuffer(input: PersistImageBufferInput): Promise<StoredImage> {
+  const { buffer } = input
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    throw new Error('Image exceeds maximum size')
+  }
+
+  const info = getImageInfo(buffer)
+  if (!info) {
+    throw new Error('File is not a supported image')
+  }
+
+  const sha256 = crypto.createHash('sha256').update(buffer).digest('hex')
+
+  const duplicate = await storedImageRepository().findOne({ where: { userId: input.userId, sha256 } })
+  if (duplicate) return duplicate
+
+  const driver = getStorageDriver()
+  const storageKey = `images/${input.userId}/${sha256.slice(0, 2)}/${sha256}.${IMAGE_EXTENSIONS[info.format]}`
+  await driver.put(storageKey, buffer, info.contentType)
+
+  const image = storedImageRepository().create({
+    userId: input.userId,
+    storageDriver: driver.name,
+    storageKey,
+    contentType: info.contentType,
+    bytes: buffer.length,
+    width: info.width,
+    height: info.height,
+    sha256,
+    sourceUrl: input.sourceUrl,
+    taskId: input.taskId || null,
+  })
+  const saved = await storedImageRepository().save(image)
+
+  logger.info('Image stored', { imageId: saved.id, userId: input.userId, bytes: saved.bytes, driver: driver.name })
+  return saved
+}
+
+/**
+ * Best-effort persist: on failure callers fall back to the upstream URL
+ */
+export async function tryPersistImage(input: PersistImageInput): Promise<StoredImage | null> {
+  try {
+    return await persistImageFromUrl(input)
+  } catch (error) {
+    logger.warn('Failed to store image', {
+      userId: input.userId,
+      taskId: input.taskId,
+      error: (error as Error).message,
+    })
+    return null
+  }
+}
+
+/**
+ * Read the bytes of a stored image from its backend
+ */
+export async function readStoredImage(image: StoredImage): Promise<Buffer | null> {
+  const driver = getStorageDriver()
+  if (driver.name !== image.storageDriver) {
+    logger.warn('Stored image belongs to a different storage driver', {
+      imageId: image.id,
+      storedIn: image.storageDriver,
+      current: driver.name,
+    })
+    return null
+  }
+  return driver.get(image.storageKey)
+}
@@ -0,0 +1,59 @@
+import { ActionType } from '../entities'
+import { countMessageTokens, countTextTokens, getTokenizerFamily, resolveTokenUsage, tokenUsageMetadata } from '../utils/tokenizer'
+import { reserveCredits, settleReservation, releaseReservation, estimateChatReservation } from './credit-reservation.service'
+import { chat, ChatRequest, ChatResponse, GEMINI_CHAT_MODEL } from './gemini-chat.service'
+import { getModelPricing, calculateModelCost } from './model-registry.service'
+
+/**
+ * Upstream chat calls the app makes on a user's behalf (conversation summaries, titles)
+ * They are held, settled and logged against that user like the chat turns they follow
+ */
+
+export interface InternalChatRequest extends ChatRequest {
+  systemPrompt: string
+  // Bounds both the reply and the hold
+  maxTokens: number
+}
+
+/**
+ * Hold credits, call upstream and settle the hold with the real usage
+ * @throws InsufficientQuotaError when the user's balance cannot cover the call
+ */
+export async function billedChat(
+  userId: string,
+  action: ActionType,
+  request: InternalChatRequest,
+  metadata: Record<string, unknown> = {}
+): Promise<ChatResponse> {
+  const modelId = request.model?.modelId || GEMINI_CHAT_MODEL
+  const inputTokens = countMessageTokens([{ role: 'system', content: request.systemPrompt }, ...request.messages], modelId)
+
+  const reservation = await reserveCredits({
+    userId,
+    action,
+    amount: estimateChatReservation(inputTokens, 1, request.maxTokens),
+    metadata: { model: modelId, ...metadata },
+  })
+
+  let result: ChatResponse
+  try {
+    result = await chat(request)
+  } catch (error) {
+    await releaseReservation(reservation.id, 'upstream_error')
+    throw error
+  }
+
+  const usage = resolveTokenUsage({
+    inputTokens,
+    outputTokens: countTextTokens(result.choices[0]?.message?.content || '', getTokenizerFamily(modelId)),
+  }, result.usage)
+  const cost = calculateModelCost(await getModelPricing(modelId), usage.inputTokens, usage.outputTokens)
+
+  await settleReservation(reservation.id, {
+    creditsUsed: usage.totalTokens,
+    costUsd: cost,
+    metadata: { ...metadata, model: modelId, ...tokenUsageMetadata(usage) },
+  })
+
+  return result
+}
@@ -1,6 +1,9 @@
 const KIE_API_BASE_URL = 'https://api.kie.ai/api/v1/jobs'
 const KIE_API_KEY = process.env.KIE_API_KEY || ''
 
+// Model behind every image task created here (recorded on usage logs)
+export const KIE_IMAGE_MODEL = 'nano-banana-pro'
+
 const TEXT_INSTRUCTION = 'If the image contains any text, signs, labels, or written content, it must be in English only. Do not include Vietnamese or any non-English text.'
 
 export interface CreateTaskInput {
@@ -47,7 +50,7 @@ export async function createTask(input: CreateTaskInput): Promise<CreateTaskResp
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      model: 'nano-banana-pro',
+      model: KIE_IMAGE_MODEL,
       input: {
         prompt: enhancedPrompt,
         image_input: input.image_input || [],
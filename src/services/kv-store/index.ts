@@ -0,0 +1,38 @@
+import { KeyValueStore } from './kv-store.types'
+import { MemoryKeyValueStore } from './memory.store'
+import { PostgresKeyValueStore } from './postgres.store'
+import { logger } from '../../utils/logger'
+
+export { KeyValueStore, KeyValueStoreName, CounterState } from './kv-store.types'
+export { MemoryKeyValueStore } from './memory.store'
+export { PostgresKeyValueStore } from './postgres.store'
+export { KeyValueRateLimitStore } from './rate-limit.store'
+
+let store: KeyValueStore | null = null
+
+/**
+ * Shared store selected by KV_STORE (memory | postgres)
+ * Use postgres whenever more than one instance serves traffic
+ */
+export function getKeyValueStore(): KeyValueStore {
+  if (store) return store
+
+  store = process.env.KV_STORE === 'postgres' ? new PostgresKeyValueStore() : new MemoryKeyValueStore()
+  return store
+}
+
+/**
+ * Periodically drop expired entries; reads already ignore them
+ */
+export function startKeyValueCleanupJob(intervalMs: number = 10 * 60 * 1000): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      const deleted = await getKeyValueStore().deleteExpired()
+      if (deleted > 0) {
+        logger.debug('Expired key/value entries deleted', { count: deleted })
+      }
+    } catch (error) {
+      logger.error('Key/value cleanup error', error as Error)
+    }
+  }, intervalMs)
+}
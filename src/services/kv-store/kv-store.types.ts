@@ -0,0 +1,22 @@
+export type KeyValueStoreName = 'memory' | 'postgres'
+
+export interface CounterState {
+  value: number
+  expiresAt: Date
+}
+
+/**
+ * Small expiring key/value store for state that must be shared between instances
+ * Every entry has a TTL; expired entries read as missing
+ */
+export interface KeyValueStore {
+  readonly name: KeyValueStoreName
+  get<T>(key: string): Promise<T | null>
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>
+  delete(key: string): Promise<void>
+  // Read and remove in one step, so a value can be used only once
+  take<T>(key: string): Promise<T | null>
+  // Add `by` to a counter; a missing or expired counter starts over with a window of ttlMs
+  increment(key: string, ttlMs: number, by?: number): Promise<CounterState>
+  deleteExpired(): Promise<number>
+}
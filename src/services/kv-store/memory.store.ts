@@ -0,0 +1,67 @@
+import { CounterState, KeyValueStore } from './kv-store.types'
+
+interface MemoryEntry {
+  value: unknown
+  expiresAt: number
+}
+
+/**
+ * Process-local store; fine for a single instance and for tests
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  readonly name = 'memory' as const
+  private readonly entries = new Map<string, MemoryEntry>()
+
+  private read(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.read(key)
+    return entry ? (entry.value as T) : null
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async take<T>(key: string): Promise<T | null> {
+    const entry = this.read(key)
+    this.entries.delete(key)
+    return entry ? (entry.value as T) : null
+  }
+
+  async increment(key: string, ttlMs: number, by: number = 1): Promise<CounterState> {
+    const entry = this.read(key)
+    if (entry) {
+      entry.value = Number(entry.value) + by
+      return { value: entry.value as number, expiresAt: new Date(entry.expiresAt) }
+    }
+
+    const expiresAt = Date.now() + ttlMs
+    this.entries.set(key, { value: by, expiresAt })
+    return { value: by, expiresAt: new Date(expiresAt) }
+  }
+
+  async deleteExpired(): Promise<number> {
+    const now = Date.now()
+    let deleted = 0
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+        deleted++
+      }
+    }
+    return deleted
+  }
+}
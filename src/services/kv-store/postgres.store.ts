@@ -0,0 +1,63 @@
+import { LessThanOrEqual } from 'typeorm'
+import { AppDataSource } from '../../data-source'
+import { KvEntry } from '../../entities'
+import { CounterState, KeyValueStore } from './kv-store.types'
+
+const kvRepository = () => AppDataSource.getRepository(KvEntry)
+
+/**
+ * Store backed by the kv_entries table, shared by every instance on the same database
+ */
+export class PostgresKeyValueStore implements KeyValueStore {
+  readonly name = 'postgres' as const
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await kvRepository().findOne({ where: { key } })
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) return null
+    return entry.value as T
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await kvRepository().upsert({ key, value: value as object, expiresAt: new Date(Date.now() + ttlMs) }, ['key'])
+  }
+
+  async delete(key: string): Promise<void> {
+    await kvRepository().delete({ key })
+  }
+
+  async take<T>(key: string): Promise<T | null> {
+    const result = await kvRepository()
+      .createQueryBuilder()
+      .delete()
+      .where('key = :key', { key })
+      .returning(['value', 'expiresAt'])
+      .execute()
+
+    const [row] = (result.raw ?? []) as { value: unknown; expiresAt: Date }[]
+    if (!row || new Date(row.expiresAt).getTime() <= Date.now()) return null
+    return row.value as T
+  }
+
+  // Single upsert so concurrent hits from different instances never lose a count
+  async increment(key: string, ttlMs: number, by: number = 1): Promise<CounterState> {
+    const now = new Date()
+    const rows: { value: number; expiresAt: Date }[] = await AppDataSource.query(
+      `INSERT INTO "kv_entries" ("key", "value", "expiresAt")
+       VALUES ($1, $2::jsonb, $3)
+       ON CONFLICT ("key") DO UPDATE SET
+         "value" = CASE WHEN "kv_entries"."expiresAt" <= $4 THEN EXCLUDED."value"
+                   ELSE to_jsonb(("kv_entries"."value" #>> '{}')::numeric + $5) END,
+         "expiresAt" = CASE WHEN "kv_entries"."expiresAt" <= $4 THEN EXCLUDED."expiresAt"
+                       ELSE "kv_entries"."expiresAt" END
+       RETURNING "value", "expiresAt"`,
+      [key, JSON.stringify(by), new Date(now.getTime() + ttlMs), now, by]
+    )
+
+    return { value: Number(rows[0].value), expiresAt: new Date(rows[0].expiresAt) }
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await kvRepository().delete({ expiresAt: LessThanOrEqual(new Date()) })
+    return result.affected ?? 0
+  }
+}
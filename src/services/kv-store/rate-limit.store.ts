@@ -0,0 +1,33 @@
+import { Options, Store, IncrementResponse } from 'express-rate-limit'
+import { KeyValueStore } from './kv-store.types'
+
+/**
+ * express-rate-limit store on top of a KeyValueStore
+ * Each limiter needs its own instance and prefix; hit counters expire with the window
+ */
+export class KeyValueRateLimitStore implements Store {
+  readonly localKeys = false
+  private windowMs = 60 * 1000
+
+  constructor(
+    readonly prefix: string,
+    private readonly resolveStore: () => KeyValueStore
+  ) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const { value, expiresAt } = await this.resolveStore().increment(this.prefix + key, this.windowMs)
+    return { totalHits: value, resetTime: expiresAt }
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.resolveStore().increment(this.prefix + key, this.windowMs, -1)
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.resolveStore().delete(this.prefix + key)
+  }
+}
@@ -0,0 +1,411 @@
+import { EntityManager, EntityTarget, IsNull } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import { User, Organization, CreditTransaction, CreditTransactionType } from '../entities'
+import { NotFoundError, ValidationError } from '../errors/app.error'
+import { logger } from '../utils/logger'
+
+// System account on the other side of each entry type
+const COUNTER_ACCOUNTS: Record<CreditTransactionType, string> = {
+  grant: 'system:promotions',
+  purchase: 'system:revenue',
+  spend: 'system:usage',
+  refund: 'system:usage',
+  adjustment: 'system:adjustments',
+  expiry: 'system:expiry',
+}
+
+const CREDIT_TYPES: CreditTransactionType[] = ['grant', 'purchase', 'refund']
+const DEBIT_TYPES: CreditTransactionType[] = ['spend', 'expiry']
+
+const transactionRepository = () => AppDataSource.getRepository(CreditTransaction)
+
+export interface RecordTransactionInput {
+  userId: string
+  // Charge the organization's wallet instead of the user's; userId is then the member who acted
+  organizationId?: string | null
+  type: CreditTransactionType
+  amount: number
+  paymentId?: string
+  usageLogId?: string
+  description?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface BalanceMismatch {
+  userId: string
+  email: string
+  cachedBalance: number
+  ledgerBalance: number
+}
+
+export interface OrganizationBalanceMismatch {
+  organizationId: string
+  name: string
+  cachedBalance: number
+  ledgerBalance: number
+}
+
+/**
+ * Check the sign of an entry against its type
+ * Grants, purchases and refunds credit the wallet; spends and expiries debit it
+ */
+export function validateTransactionAmount(type: CreditTransactionType, amount: number): void {
+  if (!Number.isInteger(amount) || amount === 0) {
+    throw new ValidationError('Transaction amount must be a non-zero integer')
+  }
+  if (CREDIT_TYPES.includes(type) && amount < 0) {
+    throw new ValidationError(`A ${type} transaction must have a positive amount`)
+  }
+  if (DEBIT_TYPES.includes(type) && amount > 0) {
+    throw new ValidationError(`A ${type} transaction must have a negative amount`)
+  }
+}
+
+async function writeTransaction(
+  manager: EntityManager,
+  input: RecordTransactionInput
+): Promise<CreditTransaction> {
+  validateTransactionAmount(input.type, input.amount)
+
+  // Lock the wallet so balanceAfter is computed against the latest balance
+  const wallet = input.organizationId
+    ? await manager.getRepository(Organization).findOne({
+        where: { id: input.organizationId },
+        lock: { mode: 'pessimistic_write' },
+      })
+    : await manager.getRepository(User).findOne({
+        where: { id: input.userId },
+        lock: { mode: 'pessimistic_write' },
+      })
+
+  if (!wallet) {
+    throw new NotFoundError(input.organizationId ? 'Organization' : 'User')
+  }
+
+  const balanceAfter = Number(wallet.tokenBalance) + input.amount
+
+  const transaction = manager.getRepository(CreditTransaction).create({
+    userId: input.userId,
+    organizationId: input.organizationId || null,
+    type: input.type,
+    amount: input.amount,
+    counterAccount: COUNTER_ACCOUNTS[input.type],
+    balanceAfter,
+    paymentId: input.paymentId || null,
+    usageLogId: input.usageLogId || null,
+    description: input.description || null,
+    metadata: input.metadata || null,
+  })
+  const saved = await manager.getRepository(CreditTransaction).save(transaction)
+
+  if (input.organizationId) {
+    await manager.getRepository(Organization).update(input.organizationId, { tokenBalance: balanceAfter })
+  } else {
+    await manager.getRepository(User).update(input.userId, { tokenBalance: balanceAfter })
+  }
+
+  return saved
+}
+
+/**
+ * Append a ledger entry and move the cached tokenBalance with it
+ * Pass the caller's manager to commit together with the change that caused it
+ */
+export async function recordTransaction(
+  input: RecordTransactionInput,
+  manager?: EntityManager
+): Promise<CreditTransaction> {
+  if (manager) {
+    return writeTransaction(manager, input)
+  }
+  return AppDataSource.transaction((m) => writeTransaction(m, input))
+}
+
+/**
+ * Grant the one-time welcome bonus
+ * Returns null if the user already received it
+ */
+export async function grantWelcomeBonus(userId: string, amount: number): Promise<CreditTransaction | null> {
+  return AppDataSource.transaction(async (manager) => {
+    const claimed = await manager.getRepository(User).update(
+      { id: userId, hasReceivedWelcomeBonus: false },
+      { hasReceivedWelcomeBonus: true }
+    )
+    if (!claimed.affected) {
+      return null
+    }
+
+    return writeTransaction(manager, {
+      userId,
+      type: 'grant',
+      amount,
+      description: 'Welcome bonus',
+    })
+  })
+}
+
+/**
+ * Personal balance according to the ledger (organization entries excluded)
+ */
+export async function getLedgerBalance(userId: string, manager: EntityManager = AppDataSource.manager): Promise<number> {
+  const result = await manager
+    .getRepository(CreditTransaction)
+    .createQueryBuilder('tx')
+    .select('COALESCE(SUM(tx.amount), 0)', 'total')
+    .where('tx.userId = :userId AND tx.organizationId IS NULL', { userId })
+    .getRawOne()
+
+  return Number(result?.total) || 0
+}
+
+/**
+ * Organization pool balance according to the ledger
+ */
+export async function getOrganizationLedgerBalance(
+  organizationId: string,
+  manager: EntityManager = AppDataSource.manager
+): Promise<number> {
+  const result = await manager
+    .getRepository(CreditTransaction)
+    .createQueryBuilder('tx')
+    .select('COALESCE(SUM(tx.amount), 0)', 'total')
+    .where('tx.organizationId = :organizationId', { organizationId })
+    .getRawOne()
+
+  return Number(result?.total) || 0
+}
+
+/**
+ * Paginated personal ledger entries for a user, newest first
+ */
+export async function getUserTransactions(userId: string, page: number = 1, limit: number = 20) {
+  const [transactions, total] = await transactionRepository().findAndCount({
+    where: { userId, organizationId: IsNull() },
+    order: { createdAt: 'DESC' },
+    skip: (page - 1) * limit,
+    take: limit,
+  })
+
+  return {
+    transactions,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
+}
+
+/**
+ * Paginated ledger entries for an organization's wallet, newest first
+ */
+export async function getOrganizationTransactions(organizationId: string, page: number = 1, limit: number = 20) {
+  const [transactions, total] = await transactionRepository().findAndCount({
+    where: { organizationId },
+    order: { createdAt: 'DESC' },
+    skip: (page - 1) * limit,
+    take: limit,
+  })
+
+  return {
+    transactions,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
+}
+
+/**
+ * Give balances that predate the ledger an opening entry so the ledger sums match
+ * Only touches users that have no ledger entries yet
+ */
+export async function backfillOpeningBalances(): Promise<number> {
+  const rows: Array<{ id: string }> = await AppDataSource.query(
+    `INSERT INTO credit_transactions ("userId", "type", "amount", "counterAccount", "balanceAfter", "description")
+     SELECT u.id, 'adjustment', u."tokenBalance", 'system:opening_balance', u."tokenBalance", 'Opening balance'
+     FROM users u
+     WHERE u."tokenBalance" <> 0
+       AND NOT EXISTS (SELECT 1 FROM credit_transactions t WHERE t."userId" = u.id AND t."organizationId" IS NULL)
+     RETURNING id`
+  )
+  return rows.length
+}
+
+/**
+ * Users whose cached tokenBalance differs from the ledger sum
+ */
+export async function findBalanceMismatches(): Promise<BalanceMismatch[]> {
+  const rows: Array<{ userId: string; email: string; cachedBalance: string; ledgerBalance: string }> =
+    await AppDataSource.query(
+      `SELECT u.id AS "userId", u.email, u."tokenBalance" AS "cachedBalance",
+              COALESCE(SUM(t.amount), 0) AS "ledgerBalance"
+       FROM users u
+       LEFT JOIN credit_transactions t ON t."userId" = u.id AND t."organizationId" IS NULL
+       GROUP BY u.id
+       HAVING u."tokenBalance" <> COALESCE(SUM(t.amount), 0)`
+    )
+
+  return rows.map((row) => ({
+    userId: row.userId,
+    email: row.email,
+    cachedBalance: Number(row.cachedBalance),
+    ledgerBalance: Number(row.ledgerBalance),
+  }))
+}
+
+/**
+ * Organizations whose cached pool balance differs from the sum of their ledger entries
+ */
+export async function findOrganizationBalanceMismatches(): Promise<OrganizationBalanceMismatch[]> {
+  const rows: Array<{ organizationId: string; name: string; cachedBalance: string; ledgerBalance: string }> =
+    await AppDataSource.query(
+      `SELECT o.id AS "organizationId", o.name, o."tokenBalance" AS "cachedBalance",
+              COALESCE(SUM(t.amount), 0) AS "ledgerBalance"
+       FROM organizations o
+       LEFT JOIN credit_transactions t ON t."organizationId" = o.id
+       GROUP BY o.id
+       HAVING o."tokenBalance" <> COALESCE(SUM(t.amount), 0)`
+    )
+
+  return rows.map((row) => ({
+    organizationId: row.organizationId,
+    name: row.name,
+    cachedBalance: Number(row.cachedBalance),
+    ledgerBalance: Number(row.ledgerBalance),
+  }))
+}
+
+/**
+ * Set balanceMismatchAt on the mismatched wallets and clear it on the ones that have since been rebuilt or caught up
+ */
+async function updateMismatchFlags(target: EntityTarget<User | Organization>, mismatchedIds: Set<string>): Promise<void> {
+  const repo = AppDataSource.getRepository(target)
+
+  if (mismatchedIds.size > 0) {
+    await repo
+      .createQueryBuilder()
+      .update(target)
+      .set({ balanceMismatchAt: () => 'NOW()' })
+      .where('id IN (:...ids)', { ids: [...mismatchedIds] })
+      .andWhere('"balanceMismatchAt" IS NULL')
+      .execute()
+  }
+
+  const flagged = await repo
+    .createQueryBuilder('wallet')
+    .select('wallet.id', 'id')
+    .where('wallet.balanceMismatchAt IS NOT NULL')
+    .getRawMany<{ id: string }>()
+  const resolved = flagged.map((w) => w.id).filter((id) => !mismatchedIds.has(id))
+
+  if (resolved.length > 0) {
+    await repo
+      .createQueryBuilder()
+      .update(target)
+      .set({ balanceMismatchAt: null })
+      .where('id IN (:...ids)', { ids: resolved })
+      .execute()
+  }
+}
+
+/**
+ * Flag users whose cached balance drifted from the ledger and clear stale flags
+ */
+export async function reconcileBalances(): Promise<BalanceMismatch[]> {
+  const mismatches = await findBalanceMismatches()
+
+  for (const mismatch of mismatches) {
+    logger.warn('Balance mismatch detected', { ...mismatch })
+  }
+
+  await updateMismatchFlags(User, new Set(mismatches.map((m) => m.userId)))
+  return mismatches
+}
+
+/**
+ * Flag organizations whose cached pool balance drifted from the ledger and clear stale flags
+ */
+export async function reconcileOrganizationBalances(): Promise<OrganizationBalanceMismatch[]> {
+  const mismatches = await findOrganizationBalanceMismatches()
+
+  for (const mismatch of mismatches) {
+    logger.warn('Organization balance mismatch detected', { ...mismatch })
+  }
+
+  await updateMismatchFlags(Organization, new Set(mismatches.map((m) => m.organizationId)))
+  return mismatches
+}
+
+/**
+ * Recompute a user's cached tokenBalance from the ledger
+ */
+export async function rebuildBalance(userId: string): Promise<{ previousBalance: number; balance: number }> {
+  return AppDataSource.transaction(async (manager) => {
+    const user = await manager.getRepository(User).findOne({
+      where: { id: userId },
+      lock: { mode: 'pessimistic_write' },
+    })
+
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+
+    const previousBalance = Number(user.tokenBalance)
+    const balance = await getLedgerBalance(userId, manager)
+
+    await manager.getRepository(User).update(userId, { tokenBalance: balance, balanceMismatchAt: null })
+
+    if (previousBalance !== balance) {
+      logger.info('Balance rebuilt from ledger', { userId, previousBalance, balance })
+    }
+
+    return { previousBalance, balance }
+  })
+}
+
+/**
+ * Recompute an organization's cached pool balance from the ledger
+ */
+export async function rebuildOrganizationBalance(
+  organizationId: string
+): Promise<{ previousBalance: number; balance: number }> {
+  return AppDataSource.transaction(async (manager) => {
+    const organization = await manager.getRepository(Organization).findOne({
+      where: { id: organizationId },
+      lock: { mode: 'pessimistic_write' },
+    })
+
+    if (!organization) {
+      throw new NotFoundError('Organization')
+    }
+
+    const previousBalance = Number(organization.tokenBalance)
+    const balance = await getOrganizationLedgerBalance(organizationId, manager)
+
+    await manager.getRepository(Organization).update(organizationId, { tokenBalance: balance, balanceMismatchAt: null })
+
+    if (previousBalance !== balance) {
+      logger.info('Organization balance rebuilt from ledger', { organizationId, previousBalance, balance })
+    }
+
+    return { previousBalance, balance }
+  })
+}
+
+/**
+ * Periodically compare cached balances - personal and organization pools - with the ledger
+ */
+export function startReconciliationJob(intervalMs: number = 60 * 60 * 1000): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      const mismatches = await reconcileBalances()
+      const organizationMismatches = await reconcileOrganizationBalances()
+      if (mismatches.length > 0 || organizationMismatches.length > 0) {
+        logger.warn('Balance reconciliation found mismatches', {
+          count: mismatches.length,
+          organizations: organizationMismatches.length,
+        })
+      }
+    } catch (error) {
+      logger.error('Balance reconciliation error', error as Error)
+    }
+  }, intervalMs)
+}
@@ -0,0 +1,367 @@
+import { AppDataSource } from '../data-source'
+import { AiModel, ModelModality } from '../entities'
+import { NotFoundError, ConflictError, ValidationError } from '../errors'
+import { GEMINI_CHAT_MODEL } from './gemini-chat.service'
+
+// Model used when a request names none, and by the in-app chat
+export const DEFAULT_CHAT_MODEL = GEMINI_CHAT_MODEL
+
+const KIE_API_URL = 'https://api.kie.ai'
+
+// Registry reads are on the hot path of every /v1 request
+const CACHE_TTL_MS = 60 * 1000
+
+const MODALITIES: ModelModality[] = ['text', 'image']
+
+const modelRepository = () => AppDataSource.getRepository(AiModel)
+
+export type ModelSeed = Pick<
+  AiModel,
+  'modelId' | 'ownedBy' | 'description' | 'upstreamUrl' | 'contextWindow' | 'maxOutputTokens' |
+  'inputPricePer1K' | 'outputPricePer1K' | 'inputModalities' | 'sortOrder'
+>
+
+// Initial catalogue; prices match the former flat $0.001 per 1K tokens
+export const DEFAULT_MODELS: ModelSeed[] = [
+  {
+    modelId: 'gemini-3-pro',
+    ownedBy: 'google',
+    description: 'Most capable, multimodal',
+    upstreamUrl: `${KIE_API_URL}/gemini-3-pro/v1/chat/completions`,
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    inputPricePer1K: 0.001,
+    outputPricePer1K: 0.001,
+    inputModalities: ['text', 'image'],
+    sortOrder: 0,
+  },
+  {
+    modelId: 'gemini-2.5-pro',
+    ownedBy: 'google',
+    description: 'Fast and efficient',
+    upstreamUrl: `${KIE_API_URL}/gemini-2.5-pro/v1/chat/completions`,
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    inputPricePer1K: 0.001,
+    outputPricePer1K: 0.001,
+    inputModalities: ['text', 'image'],
+    sortOrder: 1,
+  },
+  {
+    modelId: 'gpt-4o',
+    ownedBy: 'openai',
+    description: 'OpenAI GPT-4 Omni',
+    upstreamUrl: `${KIE_API_URL}/openai/v1/chat/completions`,
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    inputPricePer1K: 0.001,
+    outputPricePer1K: 0.001,
+    inputModalities: ['text', 'image'],
+    sortOrder: 2,
+  },
+  {
+    modelId: 'gpt-4o-mini',
+    ownedBy: 'openai',
+    description: 'Fast and affordable',
+    upstreamUrl: `${KIE_API_URL}/openai/v1/chat/completions`,
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    inputPricePer1K: 0.001,
+    outputPricePer1K: 0.001,
+    inputModalities: ['text', 'image'],
+    sortOrder: 3,
+  },
+  {
+    modelId: 'claude-3.5-sonnet',
+    ownedBy: 'anthropic',
+    description: 'Balanced performance',
+    upstreamUrl: `${KIE_API_URL}/anthropic/v1/chat/completions`,
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    inputPricePer1K: 0.001,
+    outputPricePer1K: 0.001,
+    inputModalities: ['text', 'image'],
+    sortOrder: 4,
+  },
+  {
+    modelId: 'claude-3.5-haiku',
+    ownedBy: 'anthropic',
+    description: 'Fast responses',
+    upstreamUrl: `${KIE_API_URL}/anthropic/v1/chat/completions`,
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    inputPricePer1K: 0.001,
+    outputPricePer1K: 0.001,
+    inputModalities: ['text'],
+    sortOrder: 5,
+  },
+]
+
+export interface ModelRequestCheck {
+  inputTokens: number
+  maxTokens?: number
+  hasImages: boolean
+}
+
+export interface ModelRequestError {
+  message: string
+  param: string
+  code: string
+}
+
+let cache: { models: AiModel[]; loadedAt: number } | null = null
+
+/**
+ * Drop the cached registry (after admin edits)
+ */
+export function invalidateModelCache(): void {
+  cache = null
+}
+
+/**
+ * All registered models, enabled or not, in display order
+ */
+export async function getModels(): Promise<AiModel[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.models
+  }
+  const models = await modelRepository().find({ order: { sortOrder: 'ASC', modelId: 'ASC' } })
+  cache = { models, loadedAt: Date.now() }
+  return models
+}
+
+export async function getEnabledModels(): Promise<AiModel[]> {
+  return (await getModels()).filter((m) => m.enabled)
+}
+
+export async function findModel(modelId: string): Promise<AiModel | null> {
+  return (await getModels()).find((m) => m.modelId === modelId) || null
+}
+
+/**
+ * Model a client may call; disabled and unknown models both resolve to null
+ */
+export async function findEnabledModel(modelId: string): Promise<AiModel | null> {
+  const model = await findModel(modelId)
+  return model?.enabled ? model : null
+}
+
+/**
+ * Prices for a model, falling back to the built-in catalogue before seeding has run
+ */
+export async function getModelPricing(modelId: string): Promise<Pick<AiModel, 'inputPricePer1K' | 'outputPricePer1K'>> {
+  return (await findModel(modelId)) ||
+    DEFAULT_MODELS.find((m) => m.modelId === modelId) ||
+    DEFAULT_MODELS.find((m) => m.modelId === DEFAULT_CHAT_MODEL)!
+}
+
+/**
+ * USD cost of a call from the model's input and output prices
+ */
+export function calculateModelCost(
+  model: Pick<AiModel, 'inputPricePer1K' | 'outputPricePer1K'>,
+  inputTokens: number,
+  outputTokens: number,
+  multiplier: number = 1
+): number {
+  const cost = (inputTokens / 1000) * Number(model.inputPricePer1K) +
+    (outputTokens / 1000) * Number(model.outputPricePer1K)
+  return cost * multiplier
+}
+
+/**
+ * Check a request against the model's limits before it is sent upstream
+ */
+export function checkModelRequest(model: AiModel, check: ModelRequestCheck): ModelRequestError | null {
+  if (check.hasImages && !model.inputModalities.includes('image')) {
+    return {
+      message: `Model \`${model.modelId}\` does not support image inputs`,
+      param: 'messages',
+      code: 'unsupported_modality',
+    }
+  }
+
+  if (check.maxTokens && model.maxOutputTokens && check.maxTokens > model.maxOutputTokens) {
+    return {
+      message: `max_tokens is too large: ${check.maxTokens}. This model supports at most ${model.maxOutputTokens} completion tokens`,
+      param: 'max_tokens',
+      code: 'invalid_value',
+    }
+  }
+
+  const requested = check.inputTokens + (check.maxTokens || 0)
+  if (requested > model.contextWindow) {
+    return {
+      message: `This model's maximum context length is ${model.contextWindow} tokens. However, you requested ${requested} tokens`,
+      param: 'messages',
+      code: 'context_length_exceeded',
+    }
+  }
+
+  return null
+}
+
+/**
+ * Entry for GET /v1/models (OpenAI list shape plus our metadata)
+ */
+export function formatModel(model: AiModel) {
+  return {
+    id: model.modelId,
+    object: 'model',
+    created: Math.floor(new Date(model.createdAt).getTime() / 1000),
+    owned_by: model.ownedBy,
+    description: model.description,
+    context_window: model.contextWindow,
+    max_output_tokens: model.maxOutputTokens,
+    input_modalities: model.inputModalities,
+    pricing: {
+      input_per_1k: Number(model.inputPricePer1K),
+      output_per_1k: Number(model.outputPricePer1K),
+    },
+  }
+}
+
+/**
+ * Insert catalogue entries that are missing; existing rows keep their admin edits
+ */
+export async function seedDefaultModels(): Promise<number> {
+  const result = await modelRepository()
+    .createQueryBuilder()
+    .insert()
+    .values(DEFAULT_MODELS)
+    .orIgnore()
+    .execute()
+  invalidateModelCache()
+  return (result.raw as unknown[]).length
+}
+
+function parseModelInput(input: Record<string, unknown>, partial: boolean): Partial<AiModel> {
+  const parsed: Partial<AiModel> = {}
+  const has = (key: string) => input[key] !== undefined
+
+  if (has('modelId') || !partial) {
+    if (typeof input.modelId !== 'string' || !/^[a-zA-Z0-9._:/-]{1,100}$/.test(input.modelId)) {
+      throw new ValidationError('modelId must be 1-100 characters of letters, digits and . _ : / -')
+    }
+    parsed.modelId = input.modelId
+  }
+
+  if (has('ownedBy') || !partial) {
+    if (typeof input.ownedBy !== 'string' || !input.ownedBy.trim() || input.ownedBy.length > 50) {
+      throw new ValidationError('ownedBy is required (max 50 characters)')
+    }
+    parsed.ownedBy = input.ownedBy.trim()
+  }
+
+  if (has('description')) {
+    if (input.description !== null && (typeof input.description !== 'string' || input.description.length > 255)) {
+      throw new ValidationError('description must be a string (max 255 characters)')
+    }
+    parsed.description = (input.description as string | null) || null
+  }
+
+  if (has('upstreamUrl') || !partial) {
+    if (typeof input.upstreamUrl !== 'string' || !/^https:\/\/[^\s]+$/.test(input.upstreamUrl)) {
+      throw new ValidationError('upstreamUrl must be an https URL')
+    }
+    parsed.upstreamUrl = input.upstreamUrl
+  }
+
+  if (has('contextWindow') || !partial) {
+    if (!Number.isInteger(input.contextWindow) || (input.contextWindow as number) <= 0) {
+      throw new ValidationError('contextWindow must be a positive integer')
+    }
+    parsed.contextWindow = input.contextWindow as number
+  }
+
+  if (has('maxOutputTokens')) {
+    if (input.maxOutputTokens !== null && (!Number.isInteger(input.maxOutputTokens) || (input.maxOutputTokens as number) <= 0)) {
+      throw new ValidationError('maxOutputTokens must be a positive integer or null')
+    }
+    parsed.maxOutputTokens = input.maxOutputTokens as number | null
+  }
+
+  for (const key of ['inputPricePer1K', 'outputPricePer1K'] as const) {
+    if (has(key) || !partial) {
+      const value = input[key]
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value >= 10000) {
+        throw new ValidationError(`${key} must be a non-negative number`)
+      }
+      parsed[key] = value
+    }
+  }
+
+  if (has('inputModalities')) {
+    const value = input.inputModalities
+    if (!Array.isArray(value) || !value.includes('text') || !value.every((m) => MODALITIES.includes(m))) {
+      throw new ValidationError(`inputModalities must include "text" and only contain: ${MODALITIES.join(', ')}`)
+    }
+    parsed.inputModalities = [...new Set(value as ModelModality[])]
+  }
+
+  if (has('enabled')) {
+    if (typeof input.enabled !== 'boolean') {
+      throw new ValidationError('enabled must be a boolean')
+    }
+    parsed.enabled = input.enabled
+  }
+
+  if (has('sortOrder')) {
+    if (!Number.isInteger(input.sortOrder)) {
+      throw new ValidationError('sortOrder must be an integer')
+    }
+    parsed.sortOrder = input.sortOrder as number
+  }
+
+  return parsed
+}
+
+export async function createModel(input: Record<string, unknown>): Promise<AiModel> {
+  const data = parseModelInput(input, false)
+
+  const existing = await modelRepository().findOne({ where: { modelId: data.modelId } })
+  if (existing) {
+    throw new ConflictError(`Model ${data.modelId} already exists`)
+  }
+
+  const saved = await modelRepository().save(modelRepository().create(data))
+  invalidateModelCache()
+  return saved
+}
+
+export async function updateModel(id: string, input: Record<string, unknown>): Promise<AiModel> {
+  const model = await modelRepository().findOne({ where: { id } })
+  if (!model) {
+    throw new NotFoundError('Model')
+  }
+
+  const data = parseModelInput(input, true)
+  if (data.modelId && data.modelId !== model.modelId) {
+    if (model.modelId === DEFAULT_CHAT_MODEL) {
+      throw new ValidationError('The default chat model cannot be renamed')
+    }
+    const existing = await modelRepository().findOne({ where: { modelId: data.modelId } })
+    if (existing) {
+      throw new ConflictError(`Model ${data.modelId} already exists`)
+    }
+  }
+
+  Object.assign(model, data)
+  const saved = await modelRepository().save(model)
+  invalidateModelCache()
+  return saved
+}
+
+export async function deleteModel(id: string): Promise<void> {
+  const model = await modelRepository().findOne({ where: { id } })
+  if (!model) {
+    throw new NotFoundError('Model')
+  }
+  // In-app chat prices every call against this entry
+  if (model.modelId === DEFAULT_CHAT_MODEL) {
+    throw new ValidationError('The default chat model cannot be deleted; disable it instead')
+  }
+
+  await modelRepository().remove(model)
+  invalidateModelCache()
+}
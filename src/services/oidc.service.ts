@@ -0,0 +1,467 @@
+import crypto from 'crypto'
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken'
+import { logger } from '../utils/logger'
+import { NotFoundError, ServiceUnavailableError, UnauthorizedError } from '../errors/app.error'
+
+/**
+ * OAuth 2.0 / OpenID Connect client for external sign-in
+ * Providers come from config: Google, GitHub and Microsoft have built-in settings,
+ * any other OIDC IdP is added with OIDC_PROVIDERS and OIDC_<ID>_* variables
+ */
+
+const API_URL = (process.env.API_URL || 'http://localhost:4000').replace(/\/+$/, '')
+
+const HTTP_TIMEOUT_MS = 10 * 1000
+const DISCOVERY_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+const JWKS_TTL_MS = 60 * 60 * 1000 // 1 hour
+const JWKS_MIN_REFRESH_MS = 60 * 1000 // unknown key ids refetch at most once a minute
+
+// SECURITY: only asymmetric signatures; HS* would let anyone holding the client secret mint tokens
+const ALLOWED_ID_TOKEN_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512']
+
+const PROVIDER_ID_PATTERN = /^[a-z][a-z0-9-]{1,49}$/
+
+// Account details a provider vouches for
+export interface ExternalIdentity {
+  provider: string
+  subject: string
+  email: string | null
+  emailVerified: boolean
+  name: string | null
+  avatarUrl: string | null
+}
+
+type ExternalProfile = Omit<ExternalIdentity, 'provider'>
+
+export interface OAuthProviderConfig {
+  id: string
+  name: string
+  clientId: string
+  clientSecret: string
+  scopes: string[]
+  callbackUrl: string
+  // OpenID Connect: endpoints and keys come from the issuer's discovery document
+  issuer?: string
+  // Issuer values accepted in ID tokens when they differ from the discovery document
+  acceptedIssuers?: string[]
+  // Plain OAuth 2.0 (no ID token): fixed endpoints and a profile lookup
+  authorizationEndpoint?: string
+  tokenEndpoint?: string
+  fetchProfile?: (accessToken: string) => Promise<ExternalProfile>
+  // Extra query parameters for the authorization request
+  authorizationParams?: Record<string, string>
+  // Treat the email as verified even without an email_verified claim (company IdPs that own the domain)
+  trustEmail?: boolean
+}
+
+export interface OAuthProviderInfo {
+  id: string
+  name: string
+}
+
+// Values the callback needs to finish the flow; kept server-side with the state
+export interface AuthorizationRequest {
+  url: string
+  codeVerifier: string
+  nonce: string
+}
+
+interface DiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  userinfo_endpoint?: string
+  id_token_signing_alg_values_supported?: string[]
+}
+
+interface TokenResponse {
+  access_token?: string
+  id_token?: string
+  error?: string
+  error_description?: string
+}
+
+type SigningJwk = crypto.JsonWebKey & { kid?: string; use?: string }
+
+let providers: Map<string, OAuthProviderConfig> | null = null
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>()
+const jwksCache = new Map<string, { keys: SigningJwk[]; fetchedAt: number }>()
+
+const callbackUrlFor = (id: string) => `${API_URL}/api/auth/oauth/${id}/callback`
+
+function splitList(value: string | undefined): string[] {
+  return (value || '')
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Read the configured providers from the environment
+ * A provider without a client id and secret is left out
+ */
+function loadProviders(): Map<string, OAuthProviderConfig> {
+  const loaded = new Map<string, OAuthProviderConfig>()
+  const env = process.env
+
+  if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+    loaded.set('google', {
+      id: 'google',
+      name: 'Google',
+      clientId: env.GOOGLE_CLIENT_ID,
+      clientSecret: env.GOOGLE_CLIENT_SECRET,
+      scopes: ['openid', 'email', 'profile'],
+      // Registered with Google before the generic routes existed
+      callbackUrl: env.GOOGLE_CALLBACK_URL || `${API_URL}/api/auth/google/callback`,
+      issuer: 'https://accounts.google.com',
+      acceptedIssuers: ['https://accounts.google.com', 'accounts.google.com'],
+      authorizationParams: { prompt: 'select_account' }, // Always show account selector
+    })
+  }
+
+  if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET) {
+    loaded.set('github', {
+      id: 'github',
+      name: 'GitHub',
+      clientId: env.GITHUB_CLIENT_ID,
+      clientSecret: env.GITHUB_CLIENT_SECRET,
+      scopes: ['read:user', 'user:email'],
+      callbackUrl: callbackUrlFor('github'),
+      authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+      tokenEndpoint: 'https://github.com/login/oauth/access_token',
+      fetchProfile: fetchGitHubProfile,
+    })
+  }
+
+  if (env.MICROSOFT_CLIENT_ID && env.MICROSOFT_CLIENT_SECRET) {
+    loaded.set('microsoft', {
+      id: 'microsoft',
+      name: 'Microsoft',
+      clientId: env.MICROSOFT_CLIENT_ID,
+      clientSecret: env.MICROSOFT_CLIENT_SECRET,
+      scopes: ['openid', 'email', 'profile'],
+      callbackUrl: callbackUrlFor('microsoft'),
+      issuer: `https://login.microsoftonline.com/${env.MICROSOFT_TENANT || 'common'}/v2.0`,
+      authorizationParams: { prompt: 'select_account' },
+    })
+  }
+
+  for (const id of splitList(env.OIDC_PROVIDERS).map((item) => item.toLowerCase())) {
+    const prefix = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`
+    const issuer = env[`${prefix}ISSUER`]
+    const clientId = env[`${prefix}CLIENT_ID`]
+    const clientSecret = env[`${prefix}CLIENT_SECRET`]
+
+    if (!PROVIDER_ID_PATTERN.test(id) || loaded.has(id)) {
+      logger.warn('Ignoring OIDC provider with an invalid or duplicate id', { provider: id })
+      continue
+    }
+    if (!issuer || !clientId || !clientSecret) {
+      logger.warn('Ignoring OIDC provider without issuer, client id and secret', { provider: id })
+      continue
+    }
+
+    const scopes = splitList(env[`${prefix}SCOPES`])
+    loaded.set(id, {
+      id,
+      name: env[`${prefix}NAME`] || id,
+      clientId,
+      clientSecret,
+      scopes: scopes.length > 0 ? scopes : ['openid', 'email', 'profile'],
+      callbackUrl: callbackUrlFor(id),
+      issuer: issuer.replace(/\/+$/, ''),
+      trustEmail: env[`${prefix}TRUST_EMAIL`] === 'true',
+    })
+  }
+
+  return loaded
+}
+
+function getProviders(): Map<string, OAuthProviderConfig> {
+  if (!providers) {
+    providers = loadProviders()
+    logger.info('Sign-in providers configured', { providers: [...providers.keys()] })
+  }
+  return providers
+}
+
+/**
+ * Sign-in providers shown on the login page
+ */
+export function listOAuthProviders(): OAuthProviderInfo[] {
+  return [...getProviders().values()].map(({ id, name }) => ({ id, name }))
+}
+
+/**
+ * @throws NotFoundError when the provider is not configured
+ */
+export function getOAuthProvider(id: string): OAuthProviderConfig {
+  const provider = getProviders().get(id)
+  if (!provider) {
+    throw new NotFoundError('Sign-in provider')
+  }
+  return provider
+}
+
+/**
+ * Forget the loaded configuration and cached discovery documents (tests, config reloads)
+ */
+export function resetOAuthProviders(): void {
+  providers = null
+  discoveryCache.clear()
+  jwksCache.clear()
+}
+
+async function fetchJson<T>(
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string } = {}
+): Promise<T> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS)
+
+  try {
+    const res = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', 'User-Agent': 'imagegen-backend', ...init.headers },
+      signal: controller.signal,
+    })
+    const body = await res.json().catch(() => null)
+    if (!res.ok && !(body && typeof body === 'object' && 'error' in body)) {
+      throw new Error(`${url} responded with ${res.status}`)
+    }
+    return body as T
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+async function discover(provider: OAuthProviderConfig): Promise<DiscoveryDocument> {
+  const cached = discoveryCache.get(provider.id)
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.document
+  }
+
+  try {
+    const document = await fetchJson<DiscoveryDocument>(`${provider.issuer}/.well-known/openid-configuration`)
+    if (!document?.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+      throw new Error('Discovery document is missing endpoints')
+    }
+    discoveryCache.set(provider.id, { document, fetchedAt: Date.now() })
+    return document
+  } catch (error) {
+    logger.error('OIDC discovery failed', { provider: provider.id, error: (error as Error).message })
+    throw new ServiceUnavailableError(`${provider.name} sign-in`)
+  }
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const pick = (keys: SigningJwk[]) =>
+    keys.find((key) => (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'))
+
+  let cached = jwksCache.get(jwksUri)
+  let jwk = cached && Date.now() - cached.fetchedAt < JWKS_TTL_MS ? pick(cached.keys) : undefined
+
+  // Keys rotate; refetch when the token names a key we have not seen
+  if (!jwk && (!cached || Date.now() - cached.fetchedAt >= JWKS_MIN_REFRESH_MS)) {
+    const { keys } = await fetchJson<{ keys: SigningJwk[] }>(jwksUri)
+    cached = { keys: Array.isArray(keys) ? keys : [], fetchedAt: Date.now() }
+    jwksCache.set(jwksUri, cached)
+    jwk = pick(cached.keys)
+  }
+
+  if (!jwk) {
+    throw new UnauthorizedError('ID token signed with an unknown key')
+  }
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' })
+}
+
+/**
+ * Verify an ID token's signature, audience, issuer, expiry and (when given) nonce
+ */
+export async function verifyIdToken(
+  provider: OAuthProviderConfig,
+  idToken: string,
+  nonce?: string
+): Promise<JwtPayload> {
+  if (!provider.issuer) {
+    throw new UnauthorizedError(`${provider.name} does not issue ID tokens`)
+  }
+
+  const document = await discover(provider)
+  const decoded = jwt.decode(idToken, { complete: true })
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new UnauthorizedError('Invalid ID token')
+  }
+
+  // Multi-tenant issuers (Microsoft "common") template the tenant into the issuer
+  const tenant = String(decoded.payload.tid ?? '')
+  const issuers = provider.acceptedIssuers ?? [document.issuer.replace('{tenantid}', tenant)]
+  const supported = document.id_token_signing_alg_values_supported ?? ['RS256']
+  const algorithms = ALLOWED_ID_TOKEN_ALGORITHMS.filter((alg) => supported.includes(alg))
+
+  let claims: JwtPayload
+  try {
+    const key = await getSigningKey(document.jwks_uri, decoded.header.kid)
+    claims = jwt.verify(idToken, key, {
+      algorithms,
+      audience: provider.clientId,
+      issuer: issuers as [string, ...string[]],
+    }) as JwtPayload
+  } catch (error) {
+    if (error instanceof UnauthorizedError) throw error
+    logger.warn('ID token rejected', { provider: provider.id, error: (error as Error).message })
+    throw new UnauthorizedError('Invalid ID token')
+  }
+
+  if (nonce !== undefined && claims.nonce !== nonce) {
+    throw new UnauthorizedError('Invalid ID token')
+  }
+  if (!claims.sub) {
+    throw new UnauthorizedError('Invalid ID token')
+  }
+  return claims
+}
+
+/**
+ * Map verified ID token (or userinfo) claims to an identity
+ */
+export function identityFromClaims(provider: OAuthProviderConfig, claims: Record<string, unknown>): ExternalIdentity {
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : null
+  const emailVerified = claims.email_verified === true || claims.email_verified === 'true'
+
+  return {
+    provider: provider.id,
+    subject: String(claims.sub),
+    email,
+    emailVerified: !!email && (emailVerified || !!provider.trustEmail),
+    name: typeof claims.name === 'string' ? claims.name : null,
+    avatarUrl: typeof claims.picture === 'string' ? claims.picture : null,
+  }
+}
+
+const base64Url = (buffer: Buffer) => buffer.toString('base64url')
+
+/**
+ * Build the provider's authorization URL for a new sign-in
+ * Uses PKCE (S256) and, for OIDC providers, a nonce bound into the ID token
+ */
+export async function createAuthorizationRequest(
+  provider: OAuthProviderConfig,
+  state: string
+): Promise<AuthorizationRequest> {
+  const authorizationEndpoint = provider.issuer
+    ? (await discover(provider)).authorization_endpoint
+    : provider.authorizationEndpoint!
+
+  const codeVerifier = base64Url(crypto.randomBytes(32))
+  const nonce = base64Url(crypto.randomBytes(16))
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest())
+
+  const url = new URL(authorizationEndpoint)
+  const params: Record<string, string> = {
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.callbackUrl,
+    scope: provider.scopes.join(' '),
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ...(provider.issuer ? { nonce } : {}),
+    ...provider.authorizationParams,
+  }
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
+
+  return { url: url.toString(), codeVerifier, nonce }
+}
+
+/**
+ * Exchange the authorization code and return the signed-in account
+ */
+export async function completeAuthorization(
+  provider: OAuthProviderConfig,
+  code: string,
+  request: Pick<AuthorizationRequest, 'codeVerifier' | 'nonce'>
+): Promise<ExternalIdentity> {
+  const document = provider.issuer ? await discover(provider) : null
+  const tokenEndpoint = document ? document.token_endpoint : provider.tokenEndpoint!
+
+  let tokens: TokenResponse
+  try {
+    tokens = await fetchJson<TokenResponse>(tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: provider.callbackUrl,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        code_verifier: request.codeVerifier,
+      }).toString(),
+    })
+  } catch (error) {
+    logger.error('OAuth token exchange failed', { provider: provider.id, error: (error as Error).message })
+    throw new ServiceUnavailableError(`${provider.name} sign-in`)
+  }
+
+  if (tokens.error || !tokens.access_token) {
+    logger.warn('OAuth code rejected', { provider: provider.id, error: tokens.error, description: tokens.error_description })
+    throw new UnauthorizedError('Sign-in was not completed')
+  }
+
+  if (!document) {
+    try {
+      const profile = await provider.fetchProfile!(tokens.access_token)
+      return { provider: provider.id, ...profile }
+    } catch (error) {
+      logger.error('OAuth profile lookup failed', { provider: provider.id, error: (error as Error).message })
+      throw new ServiceUnavailableError(`${provider.name} sign-in`)
+    }
+  }
+
+  if (!tokens.id_token) {
+    throw new UnauthorizedError('Sign-in was not completed')
+  }
+  const claims: Record<string, unknown> = await verifyIdToken(provider, tokens.id_token, request.nonce)
+
+  // Some IdPs leave profile claims out of the ID token; userinfo fills them in
+  if (!claims.email && document.userinfo_endpoint) {
+    const userinfo = await fetchJson<Record<string, unknown>>(document.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    }).catch(() => null)
+    if (userinfo && userinfo.sub === claims.sub) {
+      Object.assign(claims, { ...userinfo, sub: claims.sub })
+    }
+  }
+
+  return identityFromClaims(provider, claims)
+}
+
+/**
+ * GitHub is OAuth 2.0 only: the account comes from /user, the email from /user/emails
+ */
+async function fetchGitHubProfile(accessToken: string): Promise<ExternalProfile> {
+  const headers = { Authorization: `Bearer ${accessToken}`, Accept: 'application/vnd.github+json' }
+  const user = await fetchJson<{ id: number; login: string; name: string | null; avatar_url: string | null }>(
+    'https://api.github.com/user',
+    { headers }
+  )
+  const emails = await fetchJson<Array<{ email: string; primary: boolean; verified: boolean }>>(
+    'https://api.github.com/user/emails',
+    { headers }
+  )
+
+  const verified = Array.isArray(emails) ? emails.filter((entry) => entry.verified) : []
+  const email = verified.find((entry) => entry.primary) ?? verified[0]
+
+  return {
+    subject: String(user.id),
+    email: email ? email.email.toLowerCase() : null,
+    emailVerified: !!email,
+    name: user.name || user.login || null,
+    avatarUrl: user.avatar_url || null,
+  }
+}
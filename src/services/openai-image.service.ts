@@ -0,0 +1,383 @@
+import { createTask } from './kie-api.service'
+import { reserveCredits, releaseReservation, setReservationReference } from './credit-reservation.service'
+import { logUsage, API_IMAGE_CREDITS } from './usage.service'
+import { createGenerationJob, pollJob, failJob } from './generation-job.service'
+import {
+  persistImageBuffer,
+  getSignedImageUrl,
+  readStoredImage,
+  findStoredImage,
+  downloadImage,
+} from './image-storage.service'
+import { AppError, ValidationError } from '../errors/app.error'
+import { CreditReservation, GenerationJob } from '../entities'
+import { getImageInfo } from '../utils/image-info'
+import { validate } from '../utils/validation'
+import { MultipartFile } from '../utils/multipart'
+import { logger } from '../utils/logger'
+
+/**
+ * OpenAI-compatible image endpoints (/v1/images/generations, /edits, /variations) on top of generation jobs
+ * Every image is its own job with its own credit hold, so a partial failure only bills what succeeded
+ */
+
+export const MAX_IMAGES_PER_REQUEST = 10
+export const MAX_INPUT_IMAGES = 8
+export const MAX_INPUT_IMAGE_BYTES = 10 * 1024 * 1024 // 10MB
+const MAX_PROMPT_LENGTH = 4000
+
+// Upstream fetches reference images while the task runs
+const INPUT_IMAGE_URL_TTL_SECONDS = 60 * 60
+
+// Blocking requests poll for completion (max 60 seconds)
+const POLL_INTERVAL_MS = 2000
+const MAX_POLL_ATTEMPTS = 30
+const BLOCKING_TIMEOUT_ERROR = 'Image generation timed out'
+
+// Async jobs keep their hold until the job worker gives up on them
+const IMAGE_RESERVATION_TTL_MS = 30 * 60 * 1000
+
+// Variations have no prompt of their own
+export const VARIATION_PROMPT =
+  'Create a new variation of the reference image. Keep its subject, composition, colour palette and style, but vary the details.'
+
+export type ImageResponseFormat = 'url' | 'b64_json'
+
+const RESPONSE_FORMATS: ImageResponseFormat[] = ['url', 'b64_json']
+
+// OpenAI quality values (dall-e-3 and gpt-image) mapped to upstream resolutions
+const QUALITY_RESOLUTIONS: Record<string, string | null> = {
+  auto: null,
+  standard: '1K',
+  low: '1K',
+  medium: '2K',
+  hd: '4K',
+  high: '4K',
+}
+
+export interface ImageOptions {
+  n: number
+  aspectRatio: string
+  resolution: string
+  responseFormat: ImageResponseFormat
+}
+
+// Parameters of an image request, from a JSON body or multipart form fields, plus uploaded files
+export interface ImageRequestBody {
+  params: Record<string, unknown>
+  files: MultipartFile[]
+}
+
+export interface GenerateImagesInput {
+  userId: string
+  organizationId?: string | null
+  apiKeyId: string
+  prompt: string
+  // URLs the upstream fetches as reference images
+  imageInput?: string[]
+  options: ImageOptions
+  // Completion callback for async jobs
+  webhookUrl?: string
+}
+
+export interface AsyncOptions {
+  async: boolean
+  webhookUrl?: string
+}
+
+export interface ImageData {
+  url?: string
+  b64_json?: string
+  revised_prompt: string
+}
+
+/**
+ * A request parameter the client got wrong; reported with OpenAI's `param`
+ */
+export class ImageParamError extends ValidationError {
+  constructor(
+    message: string,
+    public readonly param: string,
+    public readonly openaiCode = 'invalid_value'
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Validate the prompt
+ */
+export function parsePrompt(params: Record<string, unknown>): string {
+  const { prompt } = params
+  if (!prompt || typeof prompt !== 'string') {
+    throw new ImageParamError('prompt is required and must be a string', 'prompt', 'invalid_prompt')
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new ImageParamError(`Prompt too long (max ${MAX_PROMPT_LENGTH} characters)`, 'prompt', 'prompt_too_long')
+  }
+  return prompt
+}
+
+/**
+ * Read n, size, quality and response_format; multipart fields arrive as strings
+ */
+export function parseImageOptions(params: Record<string, unknown>): ImageOptions {
+  const n = params.n === undefined || params.n === '' ? 1 : Number(params.n)
+  if (!Number.isInteger(n) || n < 1 || n > MAX_IMAGES_PER_REQUEST) {
+    throw new ImageParamError(`n must be an integer between 1 and ${MAX_IMAGES_PER_REQUEST}`, 'n')
+  }
+
+  const responseFormat = (params.response_format ?? 'url') as ImageResponseFormat
+  if (!RESPONSE_FORMATS.includes(responseFormat)) {
+    throw new ImageParamError(`response_format must be one of: ${RESPONSE_FORMATS.join(', ')}`, 'response_format')
+  }
+
+  const quality = params.quality ?? 'auto'
+  if (typeof quality !== 'string' || !(quality in QUALITY_RESOLUTIONS)) {
+    throw new ImageParamError(`quality must be one of: ${Object.keys(QUALITY_RESOLUTIONS).join(', ')}`, 'quality')
+  }
+
+  // Parse size to aspect_ratio
+  const size = typeof params.size === 'string' ? params.size : '1024x1024'
+  let aspectRatio = '1:1'
+  let resolution = '1K'
+  if (size === '1024x1792' || size === '768x1344') {
+    aspectRatio = '9:16'
+  } else if (size === '1792x1024' || size === '1344x768') {
+    aspectRatio = '16:9'
+  } else if (size === '1024x1536') {
+    aspectRatio = '2:3'
+  } else if (size === '1536x1024') {
+    aspectRatio = '3:2'
+  }
+  if (size.includes('1792') || size.includes('1344') || size.includes('1536')) {
+    resolution = '2K'
+  }
+
+  return {
+    n,
+    aspectRatio,
+    resolution: QUALITY_RESOLUTIONS[quality] ?? resolution,
+    responseFormat,
+  }
+}
+
+/**
+ * Read async and webhook_url; async requests get job objects back instead of images
+ */
+export function parseAsyncOptions(params: Record<string, unknown>, options: ImageOptions): AsyncOptions {
+  const value = params.async ?? false
+  if (value !== true && value !== false && value !== 'true' && value !== 'false') {
+    throw new ImageParamError('async must be a boolean', 'async')
+  }
+  const isAsync = value === true || value === 'true'
+
+  const webhookUrl = params.webhook_url
+  if (webhookUrl !== undefined) {
+    if (!isAsync) {
+      throw new ImageParamError('webhook_url requires async: true', 'webhook_url')
+    }
+    if (typeof webhookUrl !== 'string' || !validate.isSafeCallbackUrl(webhookUrl)) {
+      throw new ImageParamError('webhook_url must be a public HTTPS URL', 'webhook_url')
+    }
+  }
+
+  // Job results are fetched later, so only URLs can be returned
+  if (isAsync && options.responseFormat === 'b64_json') {
+    throw new ImageParamError('response_format b64_json is not available for async requests', 'response_format')
+  }
+
+  return { async: isAsync, webhookUrl: webhookUrl as string | undefined }
+}
+
+function decodeDataUrl(value: string, param: string): Buffer {
+  const match = /^data:image\/[a-z+.-]+;base64,([A-Za-z0-9+/=\s]+)$/i.exec(value)
+  if (!match) {
+    throw new ImageParamError(`${param} must be an uploaded file, a base64 data URL or an https URL`, param)
+  }
+  return Buffer.from(match[1], 'base64')
+}
+
+/**
+ * Collect reference images from uploads (image, image[]) or JSON (image, images[].image_url)
+ * Bytes are stored and handed to the upstream as short-lived signed URLs; https URLs pass through
+ */
+export async function resolveInputImages(
+  userId: string,
+  body: ImageRequestBody,
+  { min = 1, max = MAX_INPUT_IMAGES }: { min?: number; max?: number } = {}
+): Promise<string[]> {
+  const { params, files } = body
+
+  // Not supported: the upstream has no mask input, so reject it rather than silently editing the whole image
+  if (params.mask !== undefined || files.some((file) => file.fieldName === 'mask')) {
+    throw new ImageParamError('mask is not supported by this model; describe the area to change in the prompt instead', 'mask')
+  }
+
+  const sources: Array<Buffer | string> = files
+    .filter((file) => file.fieldName === 'image' || file.fieldName === 'image[]')
+    .map((file) => file.data)
+
+  const listed = params.images ?? params.image
+  for (const entry of Array.isArray(listed) ? listed : listed === undefined ? [] : [listed]) {
+    const value = typeof entry === 'object' && entry !== null ? (entry as { image_url?: unknown }).image_url : entry
+    if (typeof value !== 'string') {
+      throw new ImageParamError('image must be an uploaded file, a base64 data URL or an https URL', 'image')
+    }
+    sources.push(value.startsWith('https://') ? value : decodeDataUrl(value, 'image'))
+  }
+
+  if (sources.length < min) {
+    throw new ImageParamError('image is required', 'image')
+  }
+  if (sources.length > max) {
+    throw new ImageParamError(`At most ${max} image${max === 1 ? '' : 's'} can be sent`, 'image')
+  }
+
+  const urls: string[] = []
+  for (const source of sources) {
+    if (typeof source === 'string') {
+      urls.push(source)
+      continue
+    }
+    if (source.length > MAX_INPUT_IMAGE_BYTES) {
+      throw new ImageParamError(`image must be smaller than ${MAX_INPUT_IMAGE_BYTES / 1024 / 1024}MB`, 'image')
+    }
+    if (!getImageInfo(source)) {
+      throw new ImageParamError('image must be a PNG, JPEG, WebP or GIF file', 'image')
+    }
+    const stored = await persistImageBuffer({ userId, buffer: source, sourceUrl: 'upload' })
+    urls.push(getSignedImageUrl(stored.id, INPUT_IMAGE_URL_TTL_SECONDS))
+  }
+  return urls
+}
+
+/**
+ * Create the upstream task for one hold and track it as a generation job
+ * Returns the error instead of throwing so the other images still go ahead
+ */
+async function startImageJob(input: GenerateImagesInput, reservation: CreditReservation): Promise<GenerationJob | AppError> {
+  const { options } = input
+
+  try {
+    const taskResponse = await createTask({
+      prompt: input.prompt,
+      image_input: input.imageInput,
+      aspect_ratio: options.aspectRatio,
+      resolution: options.resolution,
+      output_format: 'png',
+    })
+
+    if (taskResponse.code !== 200) {
+      await releaseReservation(reservation.id, 'task_creation_failed')
+      await logUsage({
+        userId: input.userId,
+        action: 'api_image_generation',
+        success: false,
+        metadata: { prompt: input.prompt.substring(0, 200), error: taskResponse.msg, apiKeyId: input.apiKeyId },
+      })
+      return new AppError(500, taskResponse.msg || 'Failed to create image generation task', 'generation_failed')
+    }
+
+    await setReservationReference(reservation.id, taskResponse.data.taskId)
+
+    // The job machinery polls, stores the image, bills and sends the webhook
+    return await createGenerationJob({
+      userId: input.userId,
+      taskId: taskResponse.data.taskId,
+      prompt: input.prompt,
+      aspectRatio: options.aspectRatio,
+      resolution: options.resolution,
+      outputFormat: 'png',
+      reservationId: reservation.id,
+      webhookUrl: input.webhookUrl,
+      apiKeyId: input.apiKeyId,
+    })
+  } catch (error) {
+    await releaseReservation(reservation.id, 'upstream_error').catch(() => {})
+    logger.error('Image task creation error', error as Error)
+    return new AppError(500, 'Failed to create image generation task', 'generation_failed')
+  }
+}
+
+/**
+ * Hold the price of all n images, then start one job per image
+ * @throws InsufficientQuotaError when the balance cannot cover all n images
+ * @throws AppError (generation_failed) when no task could be created
+ */
+export async function startImageJobs(input: GenerateImagesInput): Promise<GenerationJob[]> {
+  // Pre-flight: hold the price of every image before creating upstream tasks
+  const reservations: CreditReservation[] = []
+  try {
+    for (let i = 0; i < input.options.n; i++) {
+      reservations.push(await reserveCredits({
+        userId: input.userId,
+        organizationId: input.organizationId,
+        action: 'api_image_generation',
+        amount: API_IMAGE_CREDITS,
+        metadata: { apiKeyId: input.apiKeyId },
+        ttlMs: IMAGE_RESERVATION_TTL_MS,
+      }))
+    }
+  } catch (error) {
+    await Promise.all(reservations.map((r) => releaseReservation(r.id, 'request_rejected').catch(() => {})))
+    throw error
+  }
+
+  const results = await Promise.all(reservations.map((reservation) => startImageJob(input, reservation)))
+  const jobs = results.filter((result): result is GenerationJob => !(result instanceof AppError))
+  if (jobs.length === 0) {
+    throw results[0]
+  }
+  return jobs
+}
+
+/**
+ * Poll a job until it finishes; on timeout the job is failed so a late result is not billed
+ */
+async function waitForJob(job: GenerationJob): Promise<GenerationJob> {
+  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+
+    job = await pollJob(job)
+    if (job.status !== 'processing') {
+      return job
+    }
+  }
+
+  // Timeout (returns the finished job if the worker completed it meanwhile)
+  return failJob(job, BLOCKING_TIMEOUT_ERROR)
+}
+
+async function formatImage(job: GenerationJob, format: ImageResponseFormat): Promise<ImageData> {
+  if (format === 'url') {
+    return {
+      url: job.storedImageId ? getSignedImageUrl(job.storedImageId) : job.resultUrl!,
+      revised_prompt: job.prompt,
+    }
+  }
+
+  const stored = job.storedImageId ? await findStoredImage(job.storedImageId) : null
+  const bytes = (stored && (await readStoredImage(stored))) || (await downloadImage(job.resultUrl!))
+  return { b64_json: bytes.toString('base64'), revised_prompt: job.prompt }
+}
+
+/**
+ * Blocking variant for SDK compatibility: start the jobs, wait for them and return the OpenAI `data` array
+ * @throws InsufficientQuotaError when the balance cannot cover all n images
+ * @throws AppError (generation_failed / timeout) when no image was produced
+ */
+export async function generateImages(input: GenerateImagesInput): Promise<ImageData[]> {
+  const jobs = await startImageJobs(input)
+  const finished = await Promise.all(jobs.map(waitForJob))
+
+  const completed = finished.filter((job) => job.status === 'completed' && (job.storedImageId || job.resultUrl))
+  if (completed.length === 0) {
+    const error = finished[0].error
+    throw error === BLOCKING_TIMEOUT_ERROR
+      ? new AppError(504, error, 'timeout')
+      : new AppError(500, error || 'Image generation failed', 'generation_failed')
+  }
+
+  return Promise.all(completed.map((job) => formatImage(job, input.options.responseFormat)))
+}
@@ -0,0 +1,400 @@
+import crypto from 'crypto'
+import { EntityManager, IsNull, MoreThan } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import {
+  ApiKey,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationRole,
+  UsageLog,
+  User,
+} from '../entities'
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors/app.error'
+import { logger } from '../utils/logger'
+import { getPeriodStart } from './api-key-budget.service'
+import { sendOrganizationInvitationEmail } from './email.service'
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+// Ownership is handed over by an owner changing a member's role, never by invitation
+export const INVITABLE_ROLES: OrganizationRole[] = ['admin', 'member', 'billing']
+
+const organizationRepository = () => AppDataSource.getRepository(Organization)
+const memberRepository = () => AppDataSource.getRepository(OrganizationMember)
+const invitationRepository = () => AppDataSource.getRepository(OrganizationInvitation)
+
+// The member acting on an organization, as resolved by the organization middleware
+export interface OrganizationActor {
+  userId: string
+  role: OrganizationRole
+}
+
+export interface UpdateMemberInput {
+  role?: OrganizationRole
+  monthlyTokenLimit?: number | null
+}
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function formatMember(member: OrganizationMember, spentThisMonth: number) {
+  return {
+    userId: member.userId,
+    email: member.user?.email,
+    name: member.user?.name ?? null,
+    role: member.role,
+    monthlyTokenLimit: member.monthlyTokenLimit != null ? Number(member.monthlyTokenLimit) : null,
+    spentThisMonth,
+    joinedAt: member.createdAt,
+  }
+}
+
+function formatInvitation(invitation: OrganizationInvitation) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+  }
+}
+
+async function findMemberOrFail(organizationId: string, userId: string): Promise<OrganizationMember> {
+  const member = await memberRepository().findOne({ where: { organizationId, userId } })
+  if (!member) {
+    throw new NotFoundError('Member')
+  }
+  return member
+}
+
+// An organization must always keep an owner
+async function assertNotLastOwner(member: OrganizationMember): Promise<void> {
+  if (member.role !== 'owner') return
+
+  const owners = await memberRepository().count({ where: { organizationId: member.organizationId, role: 'owner' } })
+  if (owners <= 1) {
+    throw new ConflictError('An organization must keep at least one owner')
+  }
+}
+
+/**
+ * A user's seat in an organization, or null if they are not a member
+ */
+export async function findMembership(
+  organizationId: string,
+  userId: string,
+  manager: EntityManager = AppDataSource.manager
+): Promise<OrganizationMember | null> {
+  return manager.getRepository(OrganizationMember).findOne({ where: { organizationId, userId } })
+}
+
+/**
+ * Credits a member has spent from the organization's pool this calendar month (UTC)
+ */
+export async function getMemberMonthlySpend(
+  organizationId: string,
+  userId: string,
+  manager: EntityManager = AppDataSource.manager
+): Promise<number> {
+  const result = await manager
+    .getRepository(UsageLog)
+    .createQueryBuilder('log')
+    .select('COALESCE(SUM(log.creditsUsed), 0)', 'total')
+    .where('log.organizationId = :organizationId', { organizationId })
+    .andWhere('log.userId = :userId', { userId })
+    .andWhere('log.createdAt >= :since', { since: getPeriodStart('monthly') })
+    .getRawOne()
+
+  return Number(result?.total) || 0
+}
+
+/**
+ * Create an organization with the creator as its owner
+ */
+export async function createOrganization(userId: string, name: string): Promise<Organization> {
+  const organization = await AppDataSource.transaction(async (manager) => {
+    const saved = await manager.getRepository(Organization).save(
+      manager.getRepository(Organization).create({ name, createdById: userId, tokenBalance: 0 })
+    )
+    await manager.getRepository(OrganizationMember).save(
+      manager.getRepository(OrganizationMember).create({
+        organizationId: saved.id,
+        userId,
+        role: 'owner',
+        monthlyTokenLimit: null,
+      })
+    )
+    return saved
+  })
+
+  logger.info('Organization created', { organizationId: organization.id, userId })
+  return organization
+}
+
+/**
+ * Organizations the user belongs to, with their role in each
+ */
+export async function listUserOrganizations(userId: string) {
+  const memberships = await memberRepository().find({
+    where: { userId },
+    relations: ['organization'],
+    order: { createdAt: 'ASC' },
+  })
+
+  return memberships.map((m) => ({
+    id: m.organization.id,
+    name: m.organization.name,
+    role: m.role,
+    tokenBalance: Number(m.organization.tokenBalance),
+    createdAt: m.organization.createdAt,
+  }))
+}
+
+/**
+ * Organization details as seen by one of its members
+ */
+export async function getOrganization(organizationId: string, actor: OrganizationActor) {
+  const organization = await organizationRepository().findOne({ where: { id: organizationId } })
+  if (!organization) {
+    throw new NotFoundError('Organization')
+  }
+
+  const [memberCount, member] = await Promise.all([
+    memberRepository().count({ where: { organizationId } }),
+    findMemberOrFail(organizationId, actor.userId),
+  ])
+
+  return {
+    id: organization.id,
+    name: organization.name,
+    tokenBalance: Number(organization.tokenBalance),
+    memberCount,
+    role: actor.role,
+    monthlyTokenLimit: member.monthlyTokenLimit != null ? Number(member.monthlyTokenLimit) : null,
+    spentThisMonth: await getMemberMonthlySpend(organizationId, actor.userId),
+    createdAt: organization.createdAt,
+  }
+}
+
+/**
+ * Rename an organization
+ */
+export async function renameOrganization(organizationId: string, name: string): Promise<void> {
+  await organizationRepository().update(organizationId, { name })
+}
+
+/**
+ * Members with their role, cap and spend this month
+ */
+export async function listMembers(organizationId: string) {
+  const [members, spend] = await Promise.all([
+    memberRepository().find({
+      where: { organizationId },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    }),
+    AppDataSource.getRepository(UsageLog)
+      .createQueryBuilder('log')
+      .select('log.userId', 'userId')
+      .addSelect('COALESCE(SUM(log.creditsUsed), 0)', 'total')
+      .where('log.organizationId = :organizationId', { organizationId })
+      .andWhere('log.createdAt >= :since', { since: getPeriodStart('monthly') })
+      .groupBy('log.userId')
+      .getRawMany<{ userId: string; total: string }>(),
+  ])
+
+  const spendByUser = new Map(spend.map((row) => [row.userId, Number(row.total) || 0]))
+  return members.map((m) => formatMember(m, spendByUser.get(m.userId) || 0))
+}
+
+/**
+ * Invite someone by email; a newer invitation to the same address replaces pending ones
+ * The token is only in the emailed link - the database keeps its hash
+ */
+export async function inviteMember(
+  organizationId: string,
+  actor: OrganizationActor,
+  email: string,
+  role: OrganizationRole
+) {
+  if (!INVITABLE_ROLES.includes(role)) {
+    throw new ValidationError(`role must be one of: ${INVITABLE_ROLES.join(', ')}`)
+  }
+
+  const organization = await organizationRepository().findOne({ where: { id: organizationId } })
+  if (!organization) {
+    throw new NotFoundError('Organization')
+  }
+
+  const normalizedEmail = email.trim().toLowerCase()
+  const existingUser = await AppDataSource.getRepository(User).findOne({ where: { email: normalizedEmail } })
+  if (existingUser && (await findMembership(organizationId, existingUser.id))) {
+    throw new ConflictError('This user is already a member of the organization')
+  }
+
+  const token = crypto.randomBytes(32).toString('hex')
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS)
+
+  await invitationRepository().delete({ organizationId, email: normalizedEmail, acceptedAt: IsNull() })
+  const invitation = await invitationRepository().save(
+    invitationRepository().create({
+      organizationId,
+      email: normalizedEmail,
+      role,
+      tokenHash: hashInvitationToken(token),
+      invitedById: actor.userId,
+      expiresAt,
+      acceptedAt: null,
+    })
+  )
+
+  const inviter = await AppDataSource.getRepository(User).findOne({ where: { id: actor.userId } })
+  await sendOrganizationInvitationEmail(normalizedEmail, {
+    organizationName: organization.name,
+    inviterName: inviter?.name || inviter?.email || 'A team member',
+    role,
+    acceptUrl: `${FRONTEND_URL}/invitations/accept?token=${token}`,
+    expiresAt,
+  })
+
+  logger.info('Organization invitation sent', { organizationId, invitedBy: actor.userId, role })
+  return formatInvitation(invitation)
+}
+
+/**
+ * Invitations not yet accepted or expired
+ */
+export async function listInvitations(organizationId: string) {
+  const invitations = await invitationRepository().find({
+    where: { organizationId, acceptedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    order: { createdAt: 'DESC' },
+  })
+  return invitations.map(formatInvitation)
+}
+
+/**
+ * Withdraw a pending invitation
+ */
+export async function revokeInvitation(organizationId: string, invitationId: string): Promise<void> {
+  const result = await invitationRepository().delete({ id: invitationId, organizationId, acceptedAt: IsNull() })
+  if (!result.affected) {
+    throw new NotFoundError('Invitation')
+  }
+}
+
+/**
+ * Join an organization with an emailed invitation token
+ * The signed-in user's email must be the one invited
+ */
+export async function acceptInvitation(userId: string, token: string) {
+  const invitation = await invitationRepository().findOne({
+    where: { tokenHash: hashInvitationToken(token), acceptedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    relations: ['organization'],
+  })
+  if (!invitation) {
+    throw new ValidationError('Invitation is invalid or has expired')
+  }
+
+  const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } })
+  if (!user) {
+    throw new NotFoundError('User')
+  }
+  if (user.email.toLowerCase() !== invitation.email) {
+    throw new ForbiddenError('This invitation was sent to a different email address')
+  }
+  if (await findMembership(invitation.organizationId, userId)) {
+    throw new ConflictError('You are already a member of this organization')
+  }
+
+  await AppDataSource.transaction(async (manager) => {
+    // Claim the invitation first so a token is only ever used once
+    const claimed = await manager.getRepository(OrganizationInvitation).update(
+      { id: invitation.id, acceptedAt: IsNull() },
+      { acceptedAt: new Date() }
+    )
+    if (!claimed.affected) {
+      throw new ValidationError('Invitation is invalid or has expired')
+    }
+
+    await manager.getRepository(OrganizationMember).save(
+      manager.getRepository(OrganizationMember).create({
+        organizationId: invitation.organizationId,
+        userId,
+        role: invitation.role,
+        monthlyTokenLimit: null,
+      })
+    )
+  })
+
+  logger.info('Organization invitation accepted', { organizationId: invitation.organizationId, userId })
+  return {
+    organizationId: invitation.organizationId,
+    name: invitation.organization.name,
+    role: invitation.role,
+  }
+}
+
+/**
+ * Change a member's role or monthly spending cap
+ * Admins manage everyone but owners; only owners grant ownership
+ */
+export async function updateMember(
+  organizationId: string,
+  actor: OrganizationActor,
+  memberUserId: string,
+  input: UpdateMemberInput
+) {
+  const member = await findMemberOrFail(organizationId, memberUserId)
+
+  if (actor.role !== 'owner' && (member.role === 'owner' || input.role === 'owner')) {
+    throw new ForbiddenError('Only owners can change ownership')
+  }
+
+  if (input.role !== undefined && input.role !== member.role) {
+    await assertNotLastOwner(member)
+    member.role = input.role
+  }
+  if (input.monthlyTokenLimit !== undefined) {
+    member.monthlyTokenLimit = input.monthlyTokenLimit
+  }
+
+  const saved = await memberRepository().save(member)
+  logger.info('Organization member updated', { organizationId, memberUserId, by: actor.userId, ...input })
+
+  return formatMember(saved, await getMemberMonthlySpend(organizationId, memberUserId))
+}
+
+/**
+ * Remove a member (or leave, when it is the actor's own seat)
+ * Org API keys the member created are deactivated with them
+ */
+export async function removeMember(
+  organizationId: string,
+  actor: OrganizationActor,
+  memberUserId: string
+): Promise<void> {
+  const member = await findMemberOrFail(organizationId, memberUserId)
+  const leaving = memberUserId === actor.userId
+
+  if (!leaving && actor.role !== 'owner' && actor.role !== 'admin') {
+    throw new ForbiddenError('Only owners and admins can remove members')
+  }
+  if (!leaving && actor.role !== 'owner' && member.role === 'owner') {
+    throw new ForbiddenError('Only owners can remove an owner')
+  }
+  await assertNotLastOwner(member)
+
+  await AppDataSource.transaction(async (manager) => {
+    await manager.getRepository(OrganizationMember).delete({ id: member.id })
+    await manager.getRepository(ApiKey).update(
+      { organizationId, userId: memberUserId, isActive: true },
+      { isActive: false }
+    )
+  })
+
+  logger.info('Organization member removed', { organizationId, memberUserId, by: actor.userId })
+}
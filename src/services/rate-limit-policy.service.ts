@@ -0,0 +1,144 @@
+import { AppDataSource } from '../data-source'
+import { ApiKey, ApiKeyRateLimitPlan, User } from '../entities'
+import { userRepository } from '../repositories/user.repository'
+import { getKeyValueStore } from './kv-store'
+import { NotFoundError, ValidationError } from '../errors/app.error'
+
+// Every policy limiter counts over a fixed one-minute window
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000
+
+// Plan lookups are cached briefly so limiters do not hit the database on every request
+const PLAN_CACHE_TTL_MS = 60 * 1000
+
+export type RateLimitPlan = 'anonymous' | ApiKeyRateLimitPlan
+
+// Plans an admin can pin on an API key; null on the key means "same as the owner"
+export const API_KEY_RATE_LIMIT_PLANS: ApiKeyRateLimitPlan[] = ['free', 'pro', 'enterprise']
+
+export type RateLimitScope = 'general' | 'generate' | 'chat' | 'billing' | 'keys' | 'api'
+
+/**
+ * Who a request counts against: a user, an API key, or (signed out) an IP
+ */
+export interface RateLimitSubject {
+  key: string
+  plan: RateLimitPlan
+  apiKeyId?: string
+}
+
+// Requests per minute; anonymous keeps the old per-IP limits
+const REQUESTS_PER_MINUTE: Record<RateLimitPlan, Record<RateLimitScope, number>> = {
+  anonymous: { general: 100, generate: 30, chat: 60, billing: 10, keys: 20, api: 120 },
+  free: { general: 200, generate: 30, chat: 60, billing: 10, keys: 20, api: 120 },
+  pro: { general: 600, generate: 120, chat: 240, billing: 30, keys: 60, api: 600 },
+  enterprise: { general: 1200, generate: 300, chat: 600, billing: 60, keys: 120, api: 3000 },
+}
+
+// Chat tokens per minute on /v1, per API key
+const TOKENS_PER_MINUTE: Record<RateLimitPlan, number> = {
+  anonymous: 0,
+  free: 40_000,
+  pro: 400_000,
+  enterprise: 2_000_000,
+}
+
+const apiKeyRepository = () => AppDataSource.getRepository(ApiKey)
+
+export function getRequestLimit(plan: RateLimitPlan, scope: RateLimitScope): number {
+  return REQUESTS_PER_MINUTE[plan][scope]
+}
+
+export function getTokenLimit(plan: RateLimitPlan): number {
+  return TOKENS_PER_MINUTE[plan]
+}
+
+export function planForUser(user: User): RateLimitPlan {
+  return userRepository.hasProAccess(user) ? 'pro' : 'free'
+}
+
+/**
+ * A key's pinned plan wins over its owner's
+ */
+export function planForApiKey(apiKey: Pick<ApiKey, 'rateLimitPlan'>, owner: User): RateLimitPlan {
+  return apiKey.rateLimitPlan ?? planForUser(owner)
+}
+
+/**
+ * Plan of a signed-in user (cached); unknown or inactive users get anonymous limits
+ */
+export async function resolveUserPlan(userId: string): Promise<RateLimitPlan> {
+  const store = getKeyValueStore()
+  const cacheKey = `rl_plan:user:${userId}`
+
+  const cached = await store.get<RateLimitPlan>(cacheKey)
+  if (cached) return cached
+
+  const user = await userRepository.findById(userId)
+  const plan = user?.isActive ? planForUser(user) : 'anonymous'
+  await store.set(cacheKey, plan, PLAN_CACHE_TTL_MS)
+  return plan
+}
+
+/**
+ * Key id and plan for an API key hash (current or in-grace previous secret), cached
+ * Returns null for unknown or inactive keys; apiKeyMiddleware rejects those anyway
+ */
+export async function resolveApiKeyPlan(keyHash: string): Promise<{ apiKeyId: string; plan: RateLimitPlan } | null> {
+  const store = getKeyValueStore()
+  const cacheKey = `rl_plan:key:${keyHash}`
+
+  const cached = await store.get<{ apiKeyId: string; plan: RateLimitPlan }>(cacheKey)
+  if (cached) return cached
+
+  const apiKey = await apiKeyRepository().findOne({
+    where: [{ keyHash, isActive: true }, { previousKeyHash: keyHash, isActive: true }],
+    relations: ['user'],
+  })
+  if (!apiKey || !apiKey.user?.isActive) return null
+
+  const resolved = { apiKeyId: apiKey.id, plan: planForApiKey(apiKey, apiKey.user) }
+  await store.set(cacheKey, resolved, PLAN_CACHE_TTL_MS)
+  return resolved
+}
+
+/**
+ * Pin (or with null, unpin) the plan of an API key
+ */
+export async function setApiKeyRateLimitPlan(apiKeyId: string, plan: ApiKeyRateLimitPlan | null): Promise<ApiKey> {
+  if (plan !== null && !API_KEY_RATE_LIMIT_PLANS.includes(plan)) {
+    throw new ValidationError('plan must be one of free, pro, enterprise or null')
+  }
+
+  const apiKey = await apiKeyRepository().findOne({ where: { id: apiKeyId } })
+  if (!apiKey) {
+    throw new NotFoundError('API key')
+  }
+
+  apiKey.rateLimitPlan = plan
+  await apiKeyRepository().save(apiKey)
+
+  // Drop cached lookups so the new plan applies right away
+  const store = getKeyValueStore()
+  await store.delete(`rl_plan:key:${apiKey.keyHash}`)
+  if (apiKey.previousKeyHash) {
+    await store.delete(`rl_plan:key:${apiKey.previousKeyHash}`)
+  }
+
+  return apiKey
+}
+
+/**
+ * Tokens an API key has used in the current minute, and when that window ends
+ */
+export async function getTokenUsage(apiKeyId: string): Promise<{ used: number; resetTime: Date }> {
+  const { value, expiresAt } = await getKeyValueStore().increment(`tpm:${apiKeyId}`, RATE_LIMIT_WINDOW_MS, 0)
+  return { used: value, resetTime: expiresAt }
+}
+
+/**
+ * Count tokens billed to an API key against its per-minute budget
+ */
+export async function recordTokenUsage(apiKeyId: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return
+  await getKeyValueStore().increment(`tpm:${apiKeyId}`, RATE_LIMIT_WINDOW_MS, tokens)
+}
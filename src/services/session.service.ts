@@ -0,0 +1,276 @@
+import crypto from 'crypto'
+import { IsNull, LessThan, MoreThan, Not } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import { Session, SessionRevokeReason, User } from '../entities'
+import { signToken, JwtPayload } from '../utils/jwt'
+import { logger } from '../utils/logger'
+import { NotFoundError, UnauthorizedError } from '../errors/app.error'
+
+// Refresh tokens live this long without use; each refresh starts a new window
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30')
+
+// Revoked / expired sessions are kept this long for the session list, then deleted
+const SESSION_RETENTION_DAYS = 30
+
+const sessionRepository = () => AppDataSource.getRepository(Session)
+const userRepository = () => AppDataSource.getRepository(User)
+
+export interface SessionMetadata {
+  ip?: string
+  userAgent?: string
+}
+
+export interface SessionTokens {
+  token: string
+  refreshToken: string
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function generateRefreshToken(): string {
+  return 'rt_' + crypto.randomBytes(32).toString('base64url')
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Short "Browser on OS" label for the session list
+ */
+export function describeDevice(userAgent?: string): string | null {
+  if (!userAgent) return null
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+      : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+          : /Chrome\//.test(userAgent) ? 'Chrome'
+            : /Safari\//.test(userAgent) ? 'Safari'
+              : null
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+      : /Android/.test(userAgent) ? 'Android'
+        : /Windows/.test(userAgent) ? 'Windows'
+          : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+            : /Linux/.test(userAgent) ? 'Linux'
+              : null
+
+  if (browser && os) return `${browser} on ${os}`
+  return browser || os || userAgent.substring(0, 100)
+}
+
+function signAccessToken(user: User, sessionId: string): string {
+  return signToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sid: sessionId,
+    ver: user.tokenVersion ?? 0,
+  })
+}
+
+/**
+ * Start a session for a user who just signed in
+ */
+export async function createSession(user: User, metadata: SessionMetadata = {}): Promise<SessionTokens> {
+  const refreshToken = generateRefreshToken()
+  const now = new Date()
+
+  const session = await sessionRepository().save(
+    sessionRepository().create({
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      previousRefreshTokenHash: null,
+      device: describeDevice(metadata.userAgent),
+      userAgent: metadata.userAgent?.substring(0, 255) || null,
+      ip: metadata.ip?.substring(0, 64) || null,
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(),
+      revokedAt: null,
+      revokedReason: null,
+    })
+  )
+
+  return { token: signAccessToken(user, session.id), refreshToken }
+}
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token
+ *
+ * The presented token is retired. If a retired token shows up again, two parties hold
+ * the session (the token leaked), so the session is revoked for both.
+ * @throws UnauthorizedError when the token is unknown, reused, expired or the account is disabled
+ */
+export async function refreshSession(refreshToken: string, metadata: SessionMetadata = {}): Promise<SessionTokens> {
+  const tokenHash = hashRefreshToken(refreshToken)
+
+  const session = await sessionRepository().findOne({ where: { refreshTokenHash: tokenHash } })
+  if (!session) {
+    const reused = await sessionRepository().findOne({ where: { previousRefreshTokenHash: tokenHash } })
+    if (reused && !reused.revokedAt) {
+      await revokeSession(reused.id, 'refresh_reuse')
+      logger.warn('Refresh token reuse detected, session revoked', { sessionId: reused.id, userId: reused.userId, ip: metadata.ip })
+    }
+    throw new UnauthorizedError('Invalid refresh token')
+  }
+
+  if (session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    throw new UnauthorizedError('Session expired')
+  }
+
+  const user = await userRepository().findOne({ where: { id: session.userId } })
+  if (!user || !user.isActive) {
+    throw new UnauthorizedError('Account is disabled')
+  }
+
+  // Rotate only if nobody else rotated it first (concurrent refresh of the same token)
+  const nextToken = generateRefreshToken()
+  const rotated = await sessionRepository().update(
+    { id: session.id, refreshTokenHash: tokenHash, revokedAt: IsNull() },
+    {
+      refreshTokenHash: hashRefreshToken(nextToken),
+      previousRefreshTokenHash: tokenHash,
+      lastUsedAt: new Date(),
+      expiresAt: refreshExpiry(),
+      ...(metadata.ip && { ip: metadata.ip.substring(0, 64) }),
+    }
+  )
+  if (!rotated.affected) {
+    throw new UnauthorizedError('Invalid refresh token')
+  }
+
+  return { token: signAccessToken(user, session.id), refreshToken: nextToken }
+}
+
+/**
+ * Check that an access token still stands: account active, tokenVersion current, session live
+ * Returns the role stored now (it may differ from the token's), or an error message
+ */
+export async function validateAccessToken(
+  payload: JwtPayload
+): Promise<{ role: User['role']; error?: undefined } | { error: string }> {
+  const user = await userRepository().findOne({
+    where: { id: payload.userId },
+    select: ['id', 'role', 'isActive', 'tokenVersion'],
+  })
+  if (!user || !user.isActive) {
+    return { error: 'Account is disabled' }
+  }
+  if ((payload.ver ?? 0) !== (user.tokenVersion ?? 0)) {
+    return { error: 'Token revoked' }
+  }
+
+  if (payload.sid) {
+    const session = await sessionRepository().findOne({
+      where: { id: payload.sid, userId: payload.userId },
+      select: ['id', 'revokedAt', 'expiresAt'],
+    })
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      return { error: 'Session revoked' }
+    }
+  }
+
+  return { role: user.role }
+}
+
+/**
+ * Revoke one session; its access and refresh tokens stop working immediately
+ */
+export async function revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<boolean> {
+  const result = await sessionRepository().update(
+    { id: sessionId, revokedAt: IsNull() },
+    { revokedAt: new Date(), revokedReason: reason }
+  )
+  return (result.affected ?? 0) > 0
+}
+
+/**
+ * Revoke one of the user's own sessions
+ * @throws NotFoundError when the session does not belong to the user
+ */
+export async function revokeUserSession(userId: string, sessionId: string): Promise<void> {
+  const session = await sessionRepository().findOne({ where: { id: sessionId, userId } })
+  if (!session) {
+    throw new NotFoundError('Session')
+  }
+  await revokeSession(session.id, 'revoked')
+}
+
+/**
+ * Revoke every live session of a user, optionally keeping one (the caller's)
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await sessionRepository().update(
+    {
+      userId,
+      revokedAt: IsNull(),
+      ...(exceptSessionId && { id: Not(exceptSessionId) }),
+    },
+    { revokedAt: new Date(), revokedReason: reason }
+  )
+  return result.affected ?? 0
+}
+
+/**
+ * Invalidate every access token already issued to a user
+ * Sessions survive: their next refresh gets a token with the current role
+ */
+export async function bumpTokenVersion(userId: string): Promise<void> {
+  await userRepository().increment({ id: userId }, 'tokenVersion', 1)
+}
+
+/**
+ * Live sessions of a user, most recently used first
+ */
+export async function listSessions(userId: string, currentSessionId?: string) {
+  const sessions = await sessionRepository().find({
+    where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    order: { lastUsedAt: 'DESC' },
+  })
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: session.device,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    current: session.id === currentSessionId,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+  }))
+}
+
+/**
+ * Delete sessions that ended more than SESSION_RETENTION_DAYS ago
+ */
+export async function deleteStaleSessions(): Promise<number> {
+  const cutoff = new Date(Date.now() - SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  const [revoked, expired] = await Promise.all([
+    sessionRepository().delete({ revokedAt: LessThan(cutoff) }),
+    sessionRepository().delete({ expiresAt: LessThan(cutoff) }),
+  ])
+  return (revoked.affected ?? 0) + (expired.affected ?? 0)
+}
+
+/**
+ * Periodically drop stale sessions
+ */
+export function startSessionCleanupJob(intervalMs: number = 6 * 60 * 60 * 1000): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      const deleted = await deleteStaleSessions()
+      if (deleted > 0) {
+        logger.info('Stale sessions deleted', { count: deleted })
+      }
+    } catch (error) {
+      logger.error('Session cleanup error', error as Error)
+    }
+  }, intervalMs)
+}
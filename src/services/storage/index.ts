@@ -0,0 +1,35 @@
+import { StorageDriver } from './storage.types'
+import { LocalStorageDriver } from './local.driver'
+import { S3StorageDriver } from './s3.driver'
+
+export { StorageDriver, StorageDriverName } from './storage.types'
+export { LocalStorageDriver } from './local.driver'
+export { S3StorageDriver, signS3Request } from './s3.driver'
+
+let driver: StorageDriver | null = null
+
+/**
+ * Storage backend selected by STORAGE_DRIVER (local | s3)
+ */
+export function getStorageDriver(): StorageDriver {
+  if (driver) return driver
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 storage requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY')
+    }
+    driver = new S3StorageDriver({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+    })
+  } else {
+    driver = new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || './storage')
+  }
+
+  return driver
+}
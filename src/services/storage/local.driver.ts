@@ -0,0 +1,43 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { StorageDriver } from './storage.types'
+
+/**
+ * Stores objects as files under a base directory
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const
+  private readonly baseDir: string
+
+  constructor(baseDir: string) {
+    this.baseDir = path.resolve(baseDir)
+  }
+
+  // Keys are generated server-side, but never let one escape the base directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.baseDir, key)
+    if (!filePath.startsWith(this.baseDir + path.sep)) {
+      throw new Error('Invalid storage key')
+    }
+    return filePath
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, body)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto'
+import { StorageDriver } from './storage.types'
+
+export interface S3Config {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  forcePathStyle: boolean
+}
+
+export interface SignS3RequestInput {
+  method: string
+  url: URL
+  headers: Record<string, string>
+  payloadHash: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  date?: Date
+}
+
+const sha256Hex = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex')
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest()
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 for the s3 service
+ * Returns the headers to send, including Authorization, x-amz-date and x-amz-content-sha256
+ */
+export function signS3Request(input: SignS3RequestInput): Record<string, string> {
+  const date = input.date || new Date()
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const dateStamp = amzDate.slice(0, 8)
+
+  const headers: Record<string, string> = {
+    ...input.headers,
+    host: input.url.host,
+    'x-amz-content-sha256': input.payloadHash,
+    'x-amz-date': amzDate,
+  }
+
+  const sortedHeaderNames = Object.keys(headers).map((h) => h.toLowerCase()).sort()
+  const lowerHeaders: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    lowerHeaders[name.toLowerCase()] = String(value).trim().replace(/\s+/g, ' ')
+  }
+  const canonicalHeaders = sortedHeaderNames.map((h) => `${h}:${lowerHeaders[h]}\n`).join('')
+  const signedHeaders = sortedHeaderNames.join(';')
+
+  const canonicalUri = input.url.pathname
+    .split('/')
+    .map((segment) => encodeRfc3986(decodeURIComponent(segment)))
+    .join('/')
+
+  const canonicalQuery = [...input.url.searchParams.entries()]
+    .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&')
+
+  const canonicalRequest = [
+    input.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    input.payloadHash,
+  ].join('\n')
+
+  const scope = `${dateStamp}/${input.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+
+  const kDate = hmac(`AWS4${input.secretAccessKey}`, dateStamp)
+  const kRegion = hmac(kDate, input.region)
+  const kService = hmac(kRegion, 's3')
+  const kSigning = hmac(kService, 'aws4_request')
+  const signature = crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex')
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  }
+}
+
+/**
+ * S3-compatible object storage (AWS S3, Cloudflare R2, MinIO, ...)
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const
+  private readonly config: S3Config
+
+  constructor(config: S3Config) {
+    this.config = config
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint)
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/')
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.config.bucket}/${encodedKey}`)
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`)
+  }
+
+  private async send(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = this.objectUrl(key)
+    const headers = signS3Request({
+      method,
+      url,
+      headers: contentType ? { 'content-type': contentType } : {},
+      payloadHash: sha256Hex(body || ''),
+      region: this.config.region,
+      accessKeyId: this.config.accessKeyId,
+      secretAccessKey: this.config.secretAccessKey,
+    })
+    // fetch sets Host itself
+    delete headers.host
+
+    return fetch(url, { method, headers, body })
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, body, contentType)
+    if (!response.ok) {
+      throw new Error(`S3 PUT failed: ${response.status}`)
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.send('GET', key)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`S3 GET failed: ${response.status}`)
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key)
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE failed: ${response.status}`)
+    }
+  }
+}
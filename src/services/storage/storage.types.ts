@@ -0,0 +1,11 @@
+export type StorageDriverName = 'local' | 's3'
+
+/**
+ * Minimal object-store interface implemented by each storage backend
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+}
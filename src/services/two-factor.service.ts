@@ -0,0 +1,214 @@
+import crypto from 'crypto'
+import { IsNull } from 'typeorm'
+import { AppDataSource } from '../data-source'
+import { RecoveryCode, User } from '../entities'
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../utils/totp'
+import { encryptSecret, decryptSecret } from '../utils/encryption'
+import { logger } from '../utils/logger'
+import { ConflictError, NotFoundError, ValidationError } from '../errors/app.error'
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'ImageGen AI'
+
+const RECOVERY_CODE_COUNT = 10
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789' // no 0/O, 1/I
+
+const userRepository = () => AppDataSource.getRepository(User)
+const recoveryCodeRepository = () => AppDataSource.getRepository(RecoveryCode)
+
+export type SecondFactorMethod = 'totp' | 'recovery_code'
+
+/**
+ * Whether admins must have 2FA enabled to use the admin API
+ */
+export function isAdminTwoFactorRequired(): boolean {
+  return process.env.REQUIRE_ADMIN_2FA === 'true'
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '')
+}
+
+function generateRecoveryCode(): string {
+  const bytes = crypto.randomBytes(10)
+  const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length])
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+}
+
+async function findUser(userId: string): Promise<User> {
+  const user = await userRepository().findOne({ where: { id: userId } })
+  if (!user) {
+    throw new NotFoundError('User')
+  }
+  return user
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set
+ * Returns the codes in plain text; they are not retrievable afterwards
+ */
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+
+  await AppDataSource.transaction(async (manager) => {
+    await manager.delete(RecoveryCode, { userId })
+    await manager.save(
+      codes.map((code) => manager.create(RecoveryCode, { userId, codeHash: hashRecoveryCode(code), usedAt: null }))
+    )
+  })
+
+  return codes
+}
+
+/**
+ * Accept a TOTP code once: the time step must be newer than the last one used
+ */
+async function consumeTotp(user: User, code: string): Promise<boolean> {
+  if (!user.twoFactorSecret) return false
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code)
+  if (step === null) return false
+
+  const claimed = await userRepository()
+    .createQueryBuilder()
+    .update()
+    .set({ twoFactorLastStep: step })
+    .where('id = :id', { id: user.id })
+    .andWhere('("twoFactorLastStep" IS NULL OR "twoFactorLastStep" < :step)', { step })
+    .execute()
+  return (claimed.affected ?? 0) > 0
+}
+
+/**
+ * Mark a recovery code used; each code works once
+ */
+async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const result = await recoveryCodeRepository().update(
+    { userId, codeHash: hashRecoveryCode(code), usedAt: IsNull() },
+    { usedAt: new Date() }
+  )
+  return (result.affected ?? 0) > 0
+}
+
+/**
+ * Check a second factor for a user with 2FA enabled
+ * Six digits are tried as a TOTP code, anything else as a recovery code
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<SecondFactorMethod | null> {
+  if (!user.twoFactorEnabled) return null
+
+  const trimmed = code.trim()
+  if (/^\d{6}$/.test(trimmed)) {
+    return (await consumeTotp(user, trimmed)) ? 'totp' : null
+  }
+
+  if (await consumeRecoveryCode(user.id, trimmed)) {
+    logger.info('2FA recovery code used', { userId: user.id })
+    return 'recovery_code'
+  }
+  return null
+}
+
+/**
+ * Start enrollment: store a new (not yet active) secret and return it for the authenticator app
+ * @throws ConflictError when 2FA is already enabled
+ */
+export async function beginEnrollment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+  const user = await findUser(userId)
+  if (user.twoFactorEnabled) {
+    throw new ConflictError('Two-factor authentication is already enabled')
+  }
+
+  const secret = generateTotpSecret()
+  await userRepository().update(user.id, { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null })
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, user.email, TOTP_ISSUER) }
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app
+ * Returns the recovery codes, shown to the user once
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+  const user = await findUser(userId)
+  if (user.twoFactorEnabled) {
+    throw new ConflictError('Two-factor authentication is already enabled')
+  }
+  if (!user.twoFactorSecret) {
+    throw new ValidationError('Start two-factor setup first')
+  }
+
+  if (!(await consumeTotp(user, code.trim()))) {
+    throw new ValidationError('Invalid authentication code')
+  }
+
+  await userRepository().update(user.id, { twoFactorEnabled: true, twoFactorEnabledAt: new Date() })
+  const recoveryCodes = await issueRecoveryCodes(user.id)
+
+  logger.info('2FA enabled', { userId: user.id })
+
+  return { recoveryCodes }
+}
+
+/**
+ * Turn 2FA off after checking a current code
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  const user = await findUser(userId)
+  if (!user.twoFactorEnabled) {
+    throw new ValidationError('Two-factor authentication is not enabled')
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new ValidationError('Invalid authentication code')
+  }
+
+  await userRepository().update(user.id, {
+    twoFactorEnabled: false,
+    twoFactorSecret: null,
+    twoFactorLastStep: null,
+    twoFactorEnabledAt: null,
+  })
+  await recoveryCodeRepository().delete({ userId: user.id })
+
+  logger.info('2FA disabled', { userId: user.id })
+}
+
+/**
+ * Replace all recovery codes after checking a current code
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+  const user = await findUser(userId)
+  if (!user.twoFactorEnabled) {
+    throw new ValidationError('Two-factor authentication is not enabled')
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new ValidationError('Invalid authentication code')
+  }
+
+  const recoveryCodes = await issueRecoveryCodes(user.id)
+  logger.info('2FA recovery codes regenerated', { userId: user.id })
+
+  return { recoveryCodes }
+}
+
+/**
+ * 2FA state of a user, for the account settings page
+ */
+export async function getTwoFactorStatus(userId: string) {
+  const user = await findUser(userId)
+  const recoveryCodesRemaining = user.twoFactorEnabled
+    ? await recoveryCodeRepository().count({ where: { userId, usedAt: IsNull() } })
+    : 0
+
+  return {
+    enabled: user.twoFactorEnabled,
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesRemaining,
+    required: user.role === 'admin' && isAdminTwoFactorRequired(),
+  }
+}
@@ -1,8 +1,14 @@
+import { FindOptionsWhere, IsNull } from 'typeorm'
 import { AppDataSource } from '../data-source'
-import { User, UsageLog, ActionType } from '../entities'
+import { User, Organization, UsageLog, ActionType } from '../entities'
+import { recordTransaction } from './ledger.service'
 
-const CREDITS_PER_IMAGE = parseInt(process.env.CREDITS_PER_IMAGE || '18')
-const CREDIT_PRICE_USD = parseFloat(process.env.CREDIT_PRICE_USD || '0.005')
+export const CREDITS_PER_IMAGE = parseInt(process.env.CREDITS_PER_IMAGE || '18')
+export const CREDIT_PRICE_USD = parseFloat(process.env.CREDIT_PRICE_USD || '0.005')
+
+// /v1/images/* pricing (per image)
+export const API_IMAGE_CREDITS = 1
+export const API_IMAGE_PRICE_USD = 0.02
 
 const userRepository = () => AppDataSource.getRepository(User)
 const usageLogRepository = () => AppDataSource.getRepository(UsageLog)
@@ -24,8 +30,13 @@ export interface LogUsageParams {
     tokens?: number
     estimatedTokens?: number
     jobId?: string
+    storedImageId?: string
+    model?: string
     downloadUrl?: string
     fileName?: string
+    secondFactor?: string
+    provider?: string
+    apiKeyId?: string
   }
 }
 
@@ -77,10 +88,32 @@ export async function logUsage(
       finalCreditsUsed = CREDITS_PER_IMAGE
       finalCostUsd = finalCreditsUsed * CREDIT_PRICE_USD
 
-      // Update user's total usage and deduct from balance
-      await userRepository().increment({ id: userId }, 'creditsUsed', finalCreditsUsed)
-      await userRepository().increment({ id: userId }, 'totalSpentUsd', finalCostUsd)
-      await userRepository().decrement({ id: userId }, 'tokenBalance', finalCreditsUsed)
+      // Write the log and its ledger entry together
+      return AppDataSource.transaction(async (manager) => {
+        const log = await manager.getRepository(UsageLog).save(
+          manager.getRepository(UsageLog).create({
+            userId,
+            action: finalAction,
+            creditsUsed: finalCreditsUsed,
+            costUsd: finalCostUsd,
+            success: finalSuccess,
+            metadata: finalMetadata,
+          })
+        )
+
+        // Update user's total usage and deduct from balance
+        await manager.getRepository(User).increment({ id: userId }, 'creditsUsed', finalCreditsUsed)
+        await manager.getRepository(User).increment({ id: userId }, 'totalSpentUsd', finalCostUsd)
+        await recordTransaction({
+          userId,
+          type: 'spend',
+          amount: -finalCreditsUsed,
+          usageLogId: log.id,
+          description: finalAction,
+        }, manager)
+
+        return log
+      })
     }
   }
 
@@ -104,13 +137,13 @@ export async function getUserUsage(userId: string) {
   }
 
   const logs = await usageLogRepository().find({
-    where: { userId },
+    where: { userId, organizationId: IsNull() },
     order: { createdAt: 'DESC' },
     take: 100,
   })
 
   const imageCount = await usageLogRepository().count({
-    where: { userId, action: 'generate_image', success: true },
+    where: { userId, organizationId: IsNull(), action: 'generate_image', success: true },
   })
 
   return {
@@ -127,7 +160,7 @@ export async function getUserLogs(
   limit: number = 20
 ) {
   const [logs, total] = await usageLogRepository().findAndCount({
-    where: { userId },
+    where: { userId, organizationId: IsNull() },
     order: { createdAt: 'DESC' },
     skip: (page - 1) * limit,
     take: limit,
@@ -141,16 +174,67 @@ export async function getUserLogs(
   }
 }
 
+// Organization usage, narrowed to one member when userId is given
+function organizationLogFilter(organizationId: string, userId?: string): FindOptionsWhere<UsageLog> {
+  return userId ? { organizationId, userId } : { organizationId }
+}
+
 /**
- * Update user credits and spending for chat/API usage
- * Deducts tokens from tokenBalance
+ * Usage billed to an organization's pool; pass userId to see one member's share
  */
-export async function updateUserCredits(
-  userId: string,
-  tokens: number,
-  costUsd: number
-): Promise<void> {
-  await userRepository().increment({ id: userId }, 'creditsUsed', tokens)
-  await userRepository().increment({ id: userId }, 'totalSpentUsd', costUsd)
-  await userRepository().decrement({ id: userId }, 'tokenBalance', tokens)
+export async function getOrganizationUsage(organizationId: string, userId?: string) {
+  const organization = await AppDataSource.getRepository(Organization).findOne({ where: { id: organizationId } })
+
+  if (!organization) {
+    throw new Error('Organization not found')
+  }
+
+  const query = usageLogRepository()
+    .createQueryBuilder('log')
+    .select('COALESCE(SUM(log.creditsUsed), 0)', 'creditsUsed')
+    .addSelect('COALESCE(SUM(log.costUsd), 0)', 'totalSpentUsd')
+    .where('log.organizationId = :organizationId', { organizationId })
+  if (userId) {
+    query.andWhere('log.userId = :userId', { userId })
+  }
+  const totals = await query.getRawOne<{ creditsUsed: string; totalSpentUsd: string }>()
+
+  const logs = await usageLogRepository().find({
+    where: organizationLogFilter(organizationId, userId),
+    order: { createdAt: 'DESC' },
+    take: 100,
+  })
+
+  const imageCount = await usageLogRepository().count({
+    where: { ...organizationLogFilter(organizationId, userId), action: 'generate_image', success: true },
+  })
+
+  return {
+    tokenBalance: Number(organization.tokenBalance),
+    creditsUsed: Number(totals?.creditsUsed) || 0,
+    totalSpentUsd: Number(totals?.totalSpentUsd) || 0,
+    imageCount,
+    recentActivity: logs,
+  }
+}
+
+export async function getOrganizationLogs(
+  organizationId: string,
+  page: number = 1,
+  limit: number = 20,
+  userId?: string
+) {
+  const [logs, total] = await usageLogRepository().findAndCount({
+    where: organizationLogFilter(organizationId, userId),
+    order: { createdAt: 'DESC' },
+    skip: (page - 1) * limit,
+    take: limit,
+  })
+
+  return {
+    logs,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
 }
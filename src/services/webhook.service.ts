@@ -0,0 +1,122 @@
+import crypto from 'crypto'
+import dns from 'dns/promises'
+import net from 'net'
+import { logger } from '../utils/logger'
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000
+
+// Retry schedule after a failed delivery; the job gives up once it runs out
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  30 * 1000, // 30 seconds
+  2 * 60 * 1000, // 2 minutes
+  10 * 60 * 1000, // 10 minutes
+  60 * 60 * 1000, // 1 hour
+]
+
+export interface WebhookDeliveryResult {
+  ok: boolean
+  status?: number
+  error?: string
+}
+
+/**
+ * Generate a new per-user webhook signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>" so a captured payload can't be replayed with a new timestamp
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Build the X-Webhook-Signature header value: t=<unix seconds>,v1=<hex signature>
+ */
+export function buildSignatureHeader(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`
+}
+
+/**
+ * Check whether a resolved address belongs to a private, loopback or link-local range
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number)
+    return (
+      a === 10 ||
+      a === 127 ||
+      a === 0 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127)
+    )
+  }
+
+  const normalized = address.toLowerCase()
+  if (normalized.startsWith('::ffff:')) {
+    return isPrivateAddress(normalized.slice(7))
+  }
+  return (
+    normalized === '::1' ||
+    normalized === '::' ||
+    normalized.startsWith('fc') ||
+    normalized.startsWith('fd') ||
+    normalized.startsWith('fe80:')
+  )
+}
+
+/**
+ * POST a signed event to a client webhook
+ * Resolves the host first so DNS can't point an accepted URL at an internal address
+ */
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  event: string,
+  payload: Record<string, unknown>
+): Promise<WebhookDeliveryResult> {
+  try {
+    const { hostname } = new URL(url)
+    const addresses = await dns.lookup(hostname, { all: true })
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      return { ok: false, error: 'Webhook host resolves to a private address' }
+    }
+  } catch (error) {
+    return { ok: false, error: `Webhook host lookup failed: ${(error as Error).message}` }
+  }
+
+  const body = JSON.stringify({ event, data: payload, sentAt: new Date().toISOString() })
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'imagegen-webhooks/1.0',
+        'X-Webhook-Event': event,
+        'X-Webhook-Signature': buildSignatureHeader(secret, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    })
+
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, status: response.status }
+    }
+    return { ok: false, status: response.status, error: `Webhook responded with ${response.status}` }
+  } catch (error) {
+    const message = (error as Error).name === 'AbortError' ? 'Webhook request timed out' : (error as Error).message
+    logger.debug('Webhook delivery failed', { url: url.substring(0, 200), error: message })
+    return { ok: false, error: message }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
@@ -120,6 +120,229 @@
  *       200:
  *         description: Status toggled
  *
+ * /api/admin/users/{id}/transactions:
+ *   get:
+ *     summary: Get a user's credit ledger entries
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated ledger entries
+ *       404:
+ *         description: User not found
+ *
+ * /api/admin/users/{id}/balance/adjust:
+ *   post:
+ *     summary: Post a manual balance adjustment to the ledger
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, reason]
+ *             properties:
+ *               amount: { type: integer, description: 'Signed credits (negative to debit)' }
+ *               reason: { type: string }
+ *     responses:
+ *       200:
+ *         description: Ledger entry created
+ *       400:
+ *         description: Invalid amount or missing reason
+ *
+ * /api/admin/users/{id}/balance/rebuild:
+ *   post:
+ *     summary: Recompute a user's cached tokenBalance from the ledger
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Previous and rebuilt balance
+ *
+ * /api/admin/organizations/{id}/balance/rebuild:
+ *   post:
+ *     summary: Recompute an organization's cached pool balance from the ledger
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Previous and rebuilt balance
+ *       404:
+ *         description: Organization not found
+ *
+ * /api/admin/ledger/mismatches:
+ *   get:
+ *     summary: List users and organizations whose cached balance differs from the ledger
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Balance mismatches
+ *
+ * /api/admin/ledger/reconcile:
+ *   post:
+ *     summary: Run balance reconciliation now and flag mismatched users and organizations
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Balance mismatches found
+ *
+ * /api/admin/models:
+ *   get:
+ *     summary: List all registered chat models, including disabled ones
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Registered models
+ *   post:
+ *     summary: Register a chat model
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [modelId, ownedBy, upstreamUrl, contextWindow, inputPricePer1K, outputPricePer1K]
+ *             properties:
+ *               modelId: { type: string }
+ *               ownedBy: { type: string }
+ *               description: { type: string }
+ *               upstreamUrl: { type: string, format: uri }
+ *               contextWindow: { type: integer }
+ *               maxOutputTokens: { type: integer }
+ *               inputPricePer1K: { type: number }
+ *               outputPricePer1K: { type: number }
+ *               inputModalities: { type: array, items: { type: string, enum: [text, image] } }
+ *               enabled: { type: boolean }
+ *               sortOrder: { type: integer }
+ *     responses:
+ *       201:
+ *         description: Model created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AiModel'
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Model id already registered
+ *
+ * /api/admin/models/{id}:
+ *   patch:
+ *     summary: Update a model's routing, limits, prices or enabled flag
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AiModel'
+ *     responses:
+ *       200:
+ *         description: Model updated
+ *       404:
+ *         description: Model not found
+ *   delete:
+ *     summary: Remove a model (the default chat model can only be disabled)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Model deleted
+ *       404:
+ *         description: Model not found
+ *
+ * /api/admin/api-keys/{id}/rate-limit-plan:
+ *   patch:
+ *     summary: Pin a rate limit plan on an API key, or unpin it to follow the owner's plan
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               plan: { type: string, enum: [free, pro, enterprise], nullable: true }
+ *     responses:
+ *       200:
+ *         description: Plan updated
+ *       400:
+ *         description: Unknown plan
+ *       404:
+ *         description: API key not found
+ *
  * /api/admin/posts:
  *   get:
  *     summary: Get all posts (admin)
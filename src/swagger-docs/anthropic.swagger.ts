@@ -0,0 +1,124 @@
+/**
+ * @swagger
+ * /v1/messages:
+ *   post:
+ *     summary: Anthropic-compatible Messages API
+ *     tags: [Anthropic Compatible]
+ *     security:
+ *       - anthropicApiKey: []
+ *       - apiKey: []
+ *     description: |
+ *       Chat using the Anthropic Messages API format, routed to the same models, agents and
+ *       billing as `/v1/chat/completions`. Send your ImageGen API key in `x-api-key`
+ *       (or `Authorization: Bearer sk-xxxxx`); the key needs the `chat:write` scope.
+ *
+ *       With `stream: true` the response is a `text/event-stream` of `message_start`,
+ *       `content_block_start`, `content_block_delta` (`text_delta` / `input_json_delta`),
+ *       `content_block_stop`, `message_delta` and `message_stop` events.
+ *
+ *       Errors use the Anthropic envelope: `{ "type": "error", "error": { "type", "message" } }`.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [model, max_tokens, messages]
+ *             properties:
+ *               model:
+ *                 type: string
+ *                 example: claude-sonnet-4-5
+ *               max_tokens:
+ *                 type: integer
+ *                 minimum: 1
+ *               system:
+ *                 description: System prompt, as a string or text blocks
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: array
+ *                     items:
+ *                       type: object
+ *               messages:
+ *                 type: array
+ *                 description: |
+ *                   `user` / `assistant` turns. Content is a string or blocks: `text`, `image`
+ *                   (base64 or https url source) and `tool_result` for users; `text` and `tool_use` for assistants.
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       enum: [user, assistant]
+ *                     content:
+ *                       oneOf:
+ *                         - type: string
+ *                         - type: array
+ *                           items:
+ *                             type: object
+ *               stop_sequences:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               stream:
+ *                 type: boolean
+ *                 default: false
+ *               temperature:
+ *                 type: number
+ *               top_p:
+ *                 type: number
+ *               tools:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [name, input_schema]
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     input_schema:
+ *                       type: object
+ *               tool_choice:
+ *                 type: object
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [auto, any, tool, none]
+ *                   name:
+ *                     type: string
+ *                   disable_parallel_tool_use:
+ *                     type: boolean
+ *               metadata:
+ *                 type: object
+ *                 properties:
+ *                   user_id:
+ *                     type: string
+ *               agent:
+ *                 type: string
+ *                 description: Custom agent ID, as on /v1/chat/completions (Pro agents require a Pro subscription)
+ *     responses:
+ *       200:
+ *         description: Message (or event stream when stream is true)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AnthropicMessage'
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AnthropicError'
+ *       401:
+ *         description: Missing or invalid API key
+ *       402:
+ *         description: Insufficient credits (billing_error)
+ *       403:
+ *         description: Missing scope, model not allowed or Pro agent without Pro
+ *       404:
+ *         description: Unknown model
+ *       429:
+ *         description: Rate limit reached
+ */
+
+export {}
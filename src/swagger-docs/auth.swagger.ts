@@ -39,9 +39,12 @@
  *         application/json:
  *           schema:
  *             $ref: '#/components/schemas/LoginRequest'
+ *     description: |
+ *       Accounts with two-factor authentication get `requiresTwoFactor` and a `challengeToken`
+ *       instead of tokens; finish at /api/auth/2fa/verify within 5 minutes.
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or second factor required
  *         content:
  *           application/json:
  *             schema:
@@ -51,7 +54,10 @@
  *                 data:
  *                   type: object
  *                   properties:
- *                     token: { type: string }
+ *                     requiresTwoFactor: { type: boolean }
+ *                     challengeToken: { type: string }
+ *                     token: { type: string, description: 'Access token (short-lived)' }
+ *                     refreshToken: { type: string, description: 'Exchange at /api/auth/refresh; single use' }
  *                     user: { $ref: '#/components/schemas/User' }
  *       401:
  *         description: Invalid credentials
@@ -74,7 +80,7 @@
  *               code: { type: string, minLength: 6, maxLength: 6 }
  *     responses:
  *       200:
- *         description: Email verified successfully
+ *         description: Email verified successfully, returns token, refreshToken and user
  *       400:
  *         description: Invalid or expired code
  *
@@ -97,6 +103,332 @@
  *       429:
  *         description: Too many requests
  *
+ * /api/auth/2fa/verify:
+ *   post:
+ *     summary: Finish a login with a TOTP or recovery code
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken, code]
+ *             properties:
+ *               challengeToken: { type: string }
+ *               code: { type: string, description: '6-digit TOTP code or a recovery code', example: '123456' }
+ *     responses:
+ *       200:
+ *         description: Login successful, returns token, refreshToken and user
+ *       401:
+ *         description: Challenge expired or code invalid
+ *       429:
+ *         description: Too many attempts
+ *
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Get two-factor status
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled: { type: boolean }
+ *                     enabledAt: { type: string, format: date-time, nullable: true }
+ *                     recoveryCodesRemaining: { type: integer }
+ *                     required: { type: boolean, description: 'Admin API requires 2FA for this account' }
+ *
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Returns a new secret and an otpauth:// URI to render as a QR code. Nothing changes until /2fa/enable.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Provisioning data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret: { type: string, example: 'JBSWY3DPEHPK3PXP' }
+ *                     otpauthUri: { type: string, example: 'otpauth://totp/ImageGen%20AI%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=ImageGen+AI' }
+ *       409:
+ *         description: Two-factor already enabled
+ *
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm enrollment with a code from the authenticator app
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, example: '123456' }
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled; recovery codes are shown only this once
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items: { type: string, example: 'ABCDE-FGHJK' }
+ *       400:
+ *         description: Invalid code or setup not started
+ *
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, description: 'TOTP code or recovery code' }
+ *     responses:
+ *       200:
+ *         description: Two-factor disabled
+ *       400:
+ *         description: Invalid code
+ *
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace all recovery codes
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, description: 'TOTP code or recovery code' }
+ *     responses:
+ *       200:
+ *         description: New recovery codes; the old ones stop working
+ *       400:
+ *         description: Invalid code
+ *
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset code
+ *     description: Responds the same way whether or not the email has an account.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email: { type: string, format: email }
+ *     responses:
+ *       200:
+ *         description: Reset code sent if the account exists
+ *       429:
+ *         description: Too many requests
+ *
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password with a reset code
+ *     description: |
+ *       Signs the account out of every session and emails the owner. A code is discarded
+ *       after 5 wrong guesses.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, code, newPassword]
+ *             properties:
+ *               email: { type: string, format: email }
+ *               code: { type: string, minLength: 6, maxLength: 6 }
+ *               newPassword: { type: string, minLength: 12 }
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Invalid or expired code, or weak password
+ *
+ * /api/auth/password:
+ *   put:
+ *     summary: Change password
+ *     description: |
+ *       Signs out every session, including the current one, and returns a fresh token pair.
+ *       The owner is notified by email.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currentPassword, newPassword]
+ *             properties:
+ *               currentPassword: { type: string }
+ *               newPassword: { type: string, minLength: 12 }
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     message: { type: string }
+ *                     token: { type: string }
+ *                     refreshToken: { type: string }
+ *                     user: { $ref: '#/components/schemas/User' }
+ *       400:
+ *         description: Current password incorrect or new password too weak
+ *       401:
+ *         description: Unauthorized
+ *
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new token pair
+ *     description: |
+ *       The refresh token is rotated on every use. Presenting an already-used refresh token
+ *       revokes the whole session.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken: { type: string }
+ *     responses:
+ *       200:
+ *         description: New token pair
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token: { type: string }
+ *                     refreshToken: { type: string }
+ *       401:
+ *         description: Refresh token invalid, reused or expired, or account disabled
+ *
+ * /api/auth/logout:
+ *   post:
+ *     summary: End the current session
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sessions:
+ *                       type: array
+ *                       items: { $ref: '#/components/schemas/Session' }
+ *       401:
+ *         description: Unauthorized
+ *   delete:
+ *     summary: Sign out every other session
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of sessions revoked
+ *       401:
+ *         description: Unauthorized
+ *
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ *
  * /api/auth/me:
  *   get:
  *     summary: Get current user profile
@@ -152,9 +484,185 @@
  *       401:
  *         description: Unauthorized
  *
+ * /api/auth/providers:
+ *   get:
+ *     summary: List configured sign-in providers
+ *     description: Google, GitHub, Microsoft and any OIDC identity providers set up in OIDC_PROVIDERS
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Providers to offer on the login page
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     providers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id: { type: string, example: 'github' }
+ *                           name: { type: string, example: 'GitHub' }
+ *
+ * /api/auth/oauth/{provider}:
+ *   get:
+ *     summary: Start sign-in with an external provider
+ *     description: |
+ *       Redirects to the provider (authorization code flow with PKCE).
+ *       A provider-verified email signs in, links to the existing account with that email, or creates a
+ *       verified account with the welcome bonus. An unverified email creates an account that must be
+ *       confirmed with the emailed code first, and never links to an existing account.
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: github
+ *       - in: query
+ *         name: redirect_uri
+ *         schema:
+ *           type: string
+ *         description: Frontend origin to return to (must be in ALLOWED_ORIGINS)
+ *     responses:
+ *       302:
+ *         description: Redirect to the provider
+ *
+ * /api/auth/oauth/{provider}/callback:
+ *   get:
+ *     summary: External provider callback
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *         description: OAuth authorization code
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: |
+ *           Redirect to the frontend /auth/callback with loginCode (exchange it at
+ *           /api/auth/oauth/exchange), verifyEmail (code sent) or linked; errors
+ *           redirect with error=account_exists, already_linked or oauth_auth_failed
+ *
+ * /api/auth/oauth/exchange:
+ *   post:
+ *     summary: Exchange an OAuth login code for tokens
+ *     description: |
+ *       The callback redirect carries a one-time loginCode instead of the tokens, so they never
+ *       appear in URLs. The code is valid for one minute and can be used once.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [loginCode]
+ *             properties:
+ *               loginCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: |
+ *           Access token, refresh token and user, as from /api/auth/login; for 2FA accounts
+ *           { requiresTwoFactor, challengeToken } to finish at /api/auth/2fa/verify
+ *       401:
+ *         description: Invalid, expired or already used code
+ *
+ * /api/auth/oauth/{provider}/link:
+ *   post:
+ *     summary: Start linking another sign-in account
+ *     description: Send the browser to authorizationUrl; the callback links the account and redirects with linked=<provider>
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Provider authorization URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorizationUrl: { type: string }
+ *       404:
+ *         description: Provider not configured
+ *
+ * /api/auth/identities:
+ *   get:
+ *     summary: List linked sign-in accounts
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked accounts and whether the user has a password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     hasPassword: { type: boolean }
+ *                     identities:
+ *                       type: array
+ *                       items: { $ref: '#/components/schemas/LinkedIdentity' }
+ *       401:
+ *         description: Unauthorized
+ *
+ * /api/auth/identities/{provider}:
+ *   delete:
+ *     summary: Unlink a sign-in account
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlinked
+ *       404:
+ *         description: No account from this provider is linked
+ *       409:
+ *         description: It is the only way to sign in (no password and no other linked account)
+ *
  * /api/auth/google:
  *   get:
  *     summary: Initiate Google OAuth login
+ *     description: Same as /api/auth/oauth/google
  *     tags: [Auth]
  *     responses:
  *       302:
@@ -163,6 +671,7 @@
  * /api/auth/google/callback:
  *   get:
  *     summary: Google OAuth callback
+ *     description: Same as /api/auth/oauth/google/callback, at the redirect URI registered with Google
  *     tags: [Auth]
  *     parameters:
  *       - in: query
@@ -172,7 +681,28 @@
  *         description: OAuth authorization code
  *     responses:
  *       302:
- *         description: Redirect to frontend with token
+ *         description: Redirect to frontend with a one-time loginCode
+ *
+ * /api/auth/google/token:
+ *   post:
+ *     summary: Sign in with a Google ID token (Google Sign-In button)
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [credential]
+ *             properties:
+ *               credential: { type: string, description: Google ID token }
+ *     responses:
+ *       200:
+ *         description: Tokens and user, a 2FA challenge (requiresTwoFactor), or requiresVerification
+ *       401:
+ *         description: Invalid Google token
+ *       409:
+ *         description: Unverified email belongs to an existing account
  */
 
 export {}
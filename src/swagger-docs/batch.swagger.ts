@@ -0,0 +1,281 @@
+/**
+ * @swagger
+ * /v1/files:
+ *   post:
+ *     summary: Upload a batch input file
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     description: |
+ *       JSONL file with one request per line, all for the same endpoint:
+ *
+ *       `{"custom_id": "req-1", "method": "POST", "url": "/v1/chat/completions", "body": {...}}`
+ *
+ *       `url` is `/v1/chat/completions` or `/v1/images/generations`; `custom_id` must be unique.
+ *       Up to 50,000 requests and 20MB (BATCH_MAX_FILE_MB). Malformed files are rejected with the first problem and its line.
+ *
+ *       The files and batches endpoints need the `chat:write` or `images:write` scope. Files and batches belong to
+ *       the key's wallet: personal keys and organization keys do not see each other's.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file, purpose]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               purpose:
+ *                 type: string
+ *                 enum: [batch]
+ *     responses:
+ *       200:
+ *         description: Stored file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiFile'
+ *       400:
+ *         description: Invalid upload or malformed JSONL
+ *   get:
+ *     summary: List files
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: query
+ *         name: purpose
+ *         schema:
+ *           type: string
+ *           enum: [batch, batch_output, batch_error]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: after
+ *         description: Id of the last file of the previous page
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Files, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object: { type: string, example: list }
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiFile'
+ *                 first_id: { type: string, nullable: true }
+ *                 last_id: { type: string, nullable: true }
+ *                 has_more: { type: boolean }
+ *
+ * /v1/files/{id}:
+ *   get:
+ *     summary: Retrieve a file object
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiFile'
+ *       404:
+ *         description: File not found
+ *   delete:
+ *     summary: Delete a file
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File deleted
+ *       404:
+ *         description: File not found
+ *
+ * /v1/files/{id}/content:
+ *   get:
+ *     summary: Download file contents
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     description: |
+ *       Batch result files have one line per request:
+ *
+ *       `{"id": "batch_req_...", "custom_id": "req-1", "response": {"status_code": 200, "request_id": "...", "body": {...}}, "error": null}`
+ *
+ *       Failed requests carry the endpoint's error body and status; cancelled or expired ones have
+ *       `response: null` and `error.code` `batch_cancelled` / `batch_expired`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: JSONL contents
+ *         content:
+ *           application/jsonl:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: File not found
+ *
+ * /v1/batches:
+ *   post:
+ *     summary: Create a batch
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     description: |
+ *       Runs every request of an uploaded input file in the background, a few at a time.
+ *       Each request is billed like the endpoint it targets, once it completes; a request that
+ *       fails (including for insufficient credits) is recorded in the error file and not billed.
+ *       The key needs the endpoint's scope (`chat:write` or `images:write`); streaming and async
+ *       image requests are not supported inside a batch.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [input_file_id, endpoint, completion_window]
+ *             properties:
+ *               input_file_id:
+ *                 type: string
+ *               endpoint:
+ *                 type: string
+ *                 enum: ['/v1/chat/completions', '/v1/images/generations']
+ *               completion_window:
+ *                 type: string
+ *                 enum: ['24h']
+ *                 description: Requests not started within the window expire
+ *               metadata:
+ *                 type: object
+ *                 description: Up to 16 string values
+ *                 additionalProperties:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Batch created (status validating)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Batch'
+ *       400:
+ *         description: Invalid parameters or input file
+ *       403:
+ *         description: Key lacks the endpoint's scope
+ *   get:
+ *     summary: List batches
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: after
+ *         description: Id of the last batch of the previous page
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batches, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object: { type: string, example: list }
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Batch'
+ *                 first_id: { type: string, nullable: true }
+ *                 last_id: { type: string, nullable: true }
+ *                 has_more: { type: boolean }
+ *
+ * /v1/batches/{id}:
+ *   get:
+ *     summary: Retrieve a batch
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batch with progress counts and, once finished, its result files
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Batch'
+ *       403:
+ *         description: Key lacks the batch endpoint's scope
+ *       404:
+ *         description: Batch not found
+ *
+ * /v1/batches/{id}/cancel:
+ *   post:
+ *     summary: Cancel a batch
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     description: |
+ *       Requests not yet started are cancelled; running ones finish and are billed.
+ *       The batch moves to `cancelling`, then `cancelled` with the results so far.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batch (status cancelling)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Batch'
+ *       403:
+ *         description: Key lacks the batch endpoint's scope
+ *       404:
+ *         description: Batch not found
+ *       409:
+ *         description: Batch already finished
+ */
+
+export {}
@@ -6,6 +6,8 @@
  *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *     requestBody:
  *       required: true
  *       content:
@@ -47,6 +49,7 @@
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *       - in: query
  *         name: page
  *         schema:
@@ -91,6 +94,7 @@
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *       - in: path
  *         name: transactionId
  *         required: true
@@ -120,6 +124,7 @@
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *       - in: path
  *         name: paymentId
  *         required: true
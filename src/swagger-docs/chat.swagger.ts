@@ -50,8 +50,19 @@
  *                         completionTokens: { type: number }
  *                         totalTokens: { type: number }
  *                         cost: { type: number }
+ *                     context:
+ *                       type: object
+ *                       description: Only in server-history mode
+ *                       properties:
+ *                         historyMessages: { type: integer, description: Stored messages replayed verbatim }
+ *                         omittedMessages: { type: integer, description: Stored messages covered by the summary or trimmed }
+ *                         summarized: { type: boolean }
  *       400:
+ *         description: Invalid request
+ *       402:
  *         description: Insufficient tokens
+ *       404:
+ *         description: Conversation not found (server-history mode)
  *       401:
  *         description: Unauthorized
  *       429:
@@ -79,7 +90,7 @@
  *               description: |
  *                 SSE stream with events:
  *                 - data: {"content": "..."} - Partial content
- *                 - data: {"done": true, "usage": {...}} - Stream complete
+ *                 - data: {"done": true, "usage": {...}, "context": {...}} - Stream complete
  *       400:
  *         description: Insufficient tokens
  *       401:
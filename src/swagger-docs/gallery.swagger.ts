@@ -0,0 +1,282 @@
+/**
+ * @swagger
+ * /api/gallery:
+ *   get:
+ *     summary: List generated images
+ *     description: Successful image generations (web and API), newest first. Each item links to the usage log that billed it.
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, default: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 20, maximum: 100 }
+ *       - in: query
+ *         name: q
+ *         schema: { type: string }
+ *         description: Full-text search over prompts
+ *       - in: query
+ *         name: aspectRatio
+ *         schema: { type: string }
+ *       - in: query
+ *         name: resolution
+ *         schema: { type: string }
+ *       - in: query
+ *         name: model
+ *         schema: { type: string }
+ *       - in: query
+ *         name: from
+ *         schema: { type: string, format: date-time }
+ *       - in: query
+ *         name: to
+ *         schema: { type: string, format: date-time }
+ *       - in: query
+ *         name: favorites
+ *         schema: { type: boolean }
+ *       - in: query
+ *         name: collectionId
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: sort
+ *         schema: { type: string, enum: [newest, oldest], default: newest }
+ *     responses:
+ *       200:
+ *         description: Gallery page
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GalleryItem'
+ *                     total: { type: integer }
+ *                     page: { type: integer }
+ *                     totalPages: { type: integer }
+ *       400:
+ *         description: Invalid filter
+ *       404:
+ *         description: Collection not found
+ *
+ * /api/gallery/delete:
+ *   post:
+ *     summary: Bulk delete gallery images
+ *     description: Hides images from the gallery and drops their favorites and collection memberships. Usage logs are kept for billing history.
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Number of items removed
+ *       400:
+ *         description: Invalid ids
+ *
+ * /api/gallery/{id}:
+ *   get:
+ *     summary: Get a gallery image
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Gallery item with the collections it belongs to
+ *       404:
+ *         description: Not found
+ *
+ * /api/gallery/{id}/favorite:
+ *   put:
+ *     summary: Mark an image as favorite
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Favorite set
+ *       404:
+ *         description: Not found
+ *   delete:
+ *     summary: Remove an image from favorites
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Favorite removed
+ *       404:
+ *         description: Not found
+ *
+ * /api/gallery/collections:
+ *   get:
+ *     summary: List collections
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Collections with item counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     collections:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GalleryCollection'
+ *   post:
+ *     summary: Create a collection
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name: { type: string, maxLength: 100 }
+ *               description: { type: string, maxLength: 500 }
+ *     responses:
+ *       201:
+ *         description: Collection created
+ *       400:
+ *         description: Invalid input or collection limit reached
+ *       409:
+ *         description: Name already in use
+ *
+ * /api/gallery/collections/{id}:
+ *   patch:
+ *     summary: Rename or describe a collection
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name: { type: string, maxLength: 100 }
+ *               description: { type: string, maxLength: 500, nullable: true }
+ *     responses:
+ *       200:
+ *         description: Collection updated
+ *       404:
+ *         description: Not found
+ *       409:
+ *         description: Name already in use
+ *   delete:
+ *     summary: Delete a collection
+ *     description: The images themselves stay in the gallery.
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Collection deleted
+ *       404:
+ *         description: Not found
+ *
+ * /api/gallery/collections/{id}/items:
+ *   post:
+ *     summary: Add images to a collection
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Number of images added (existing members are skipped)
+ *       404:
+ *         description: Collection not found
+ *
+ * /api/gallery/collections/{id}/items/{itemId}:
+ *   delete:
+ *     summary: Remove an image from a collection
+ *     tags: [Gallery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Removed
+ *       404:
+ *         description: Not found
+ */
+
+export {}
@@ -25,9 +25,12 @@
  *                   type: object
  *                   properties:
  *                     taskId: { type: string }
- *                     status: { type: string, enum: [processing] }
+ *                     jobId: { type: string, format: uuid }
+ *                     message: { type: string }
  *       400:
- *         description: Invalid request or insufficient tokens
+ *         description: Invalid request or webhook_url
+ *       402:
+ *         description: Insufficient token balance
  *       401:
  *         description: Unauthorized
  *       429:
@@ -71,6 +74,102 @@
  *         description: Unauthorized
  *       404:
  *         description: Task not found
+ *
+ * /api/generate/jobs:
+ *   get:
+ *     summary: List image generation jobs
+ *     description: Jobs are polled and billed server-side, so history is complete even if the client stopped polling
+ *     tags: [Generate]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [processing, completed, failed]
+ *     responses:
+ *       200:
+ *         description: Paginated jobs, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     jobs:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GenerationJob'
+ *                     total: { type: number }
+ *                     page: { type: number }
+ *                     totalPages: { type: number }
+ *       401:
+ *         description: Unauthorized
+ *
+ * /api/generate/jobs/{id}:
+ *   get:
+ *     summary: Get an image generation job
+ *     tags: [Generate]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   $ref: '#/components/schemas/GenerationJob'
+ *       404:
+ *         description: Job not found
+ *
+ * /api/generate/webhook-secret:
+ *   get:
+ *     summary: Get the secret used to sign job callbacks
+ *     description: |
+ *       Callbacks carry `X-Webhook-Signature: t=<unix seconds>,v1=<hex>` where the signature is
+ *       HMAC-SHA256(secret, "<t>.<raw body>"). Reject callbacks whose timestamp is too old.
+ *     tags: [Generate]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signing secret (created on first request)
+ *
+ * /api/generate/webhook-secret/rotate:
+ *   post:
+ *     summary: Replace the webhook signing secret
+ *     tags: [Generate]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New signing secret
  */
 
 export {}
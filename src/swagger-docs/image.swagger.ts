@@ -0,0 +1,43 @@
+/**
+ * @swagger
+ * /api/images/{id}:
+ *   get:
+ *     summary: Fetch a stored image through a signed URL
+ *     description: |
+ *       Generated images are copied from the temporary upstream URL into our own storage.
+ *       Job results, article image status and /v1/images/generations return these signed URLs;
+ *       the signature is the credential, so no Authorization header is needed.
+ *     tags: [Images]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Expiry as unix seconds
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Image file
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Invalid or expired signature
+ *       404:
+ *         description: Image not found
+ */
+
+export {}
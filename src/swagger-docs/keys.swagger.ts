@@ -6,6 +6,8 @@
  *     tags: [Keys]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *     responses:
  *       200:
  *         description: List of API keys
@@ -27,15 +29,19 @@
  *     tags: [Keys]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [name]
- *             properties:
- *               name: { type: string, description: Key name/label }
+ *             allOf:
+ *               - type: object
+ *                 required: [name]
+ *                 properties:
+ *                   name: { type: string, description: Key name/label }
+ *               - $ref: '#/components/schemas/ApiKeyPolicy'
  *     responses:
  *       201:
  *         description: API key created
@@ -48,22 +54,231 @@
  *                 data:
  *                   type: object
  *                   properties:
- *                     id: { type: string }
- *                     name: { type: string }
+ *                     apiKey:
+ *                       $ref: '#/components/schemas/ApiKey'
  *                     key: { type: string, description: Full API key (only shown once!) }
- *                     createdAt: { type: string, format: date-time }
  *       400:
- *         description: Maximum keys reached (5)
+ *         description: Invalid permissions or maximum keys reached (10)
  *       401:
  *         description: Unauthorized
  *
+ * /api/keys/{id}/rotate:
+ *   post:
+ *     summary: Rotate an API key secret
+ *     description: |
+ *       Issues a new secret under the same key id, keeping its name, scopes and limits.
+ *       The old secret keeps working until the grace window ends; rotating again drops it.
+ *     tags: [Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               gracePeriodHours:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 168
+ *                 description: Defaults to API_KEY_ROTATION_GRACE_HOURS (24); 0 revokes the old secret immediately
+ *     responses:
+ *       200:
+ *         description: Key rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKey:
+ *                       $ref: '#/components/schemas/ApiKey'
+ *                     key: { type: string, description: New API key (only shown once!) }
+ *       400:
+ *         description: Invalid grace period
+ *       404:
+ *         description: Key not found
+ *
+ * /api/keys/{id}/audit:
+ *   get:
+ *     summary: Get the audit trail of an API key
+ *     tags: [Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Key state and its events, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     apiKey:
+ *                       $ref: '#/components/schemas/ApiKey'
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id: { type: string }
+ *                           action: { type: string, enum: [created, updated, rotated, revealed, revoked] }
+ *                           metadata: { type: object, nullable: true }
+ *                           ip: { type: string, nullable: true }
+ *                           userAgent: { type: string, nullable: true }
+ *                           createdAt: { type: string, format: date-time }
+ *                     total: { type: integer }
+ *                     page: { type: integer }
+ *                     totalPages: { type: integer }
+ *       404:
+ *         description: Key not found
+ *
+ * /api/keys/{id}/usage:
+ *   get:
+ *     summary: Get spend of an API key by model and by day
+ *     tags: [Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *           maximum: 90
+ *     responses:
+ *       200:
+ *         description: Key usage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     from: { type: string, format: date-time }
+ *                     to: { type: string, format: date-time }
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         requests: { type: integer }
+ *                         tokens: { type: number }
+ *                         usd: { type: number }
+ *                     byModel:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           model: { type: string }
+ *                           requests: { type: integer }
+ *                           tokens: { type: number }
+ *                           usd: { type: number }
+ *                     byDay:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date: { type: string, example: '2026-01-31' }
+ *                           requests: { type: integer }
+ *                           tokens: { type: number }
+ *                           usd: { type: number }
+ *                     currentPeriod:
+ *                       type: object
+ *                       description: Spend today and this month, including in-flight holds
+ *                     budget:
+ *                       type: object
+ *                       properties:
+ *                         exceeded: { type: object, nullable: true }
+ *                         warnings: { type: array, items: { type: object } }
+ *       404:
+ *         description: Key not found
+ *
  * /api/keys/{id}:
+ *   patch:
+ *     summary: Update API key name and permissions
+ *     description: Omitted fields are unchanged; null or [] clears an allowlist or expiry.
+ *     tags: [Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - type: object
+ *                 properties:
+ *                   name: { type: string }
+ *               - $ref: '#/components/schemas/ApiKeyPolicy'
+ *     responses:
+ *       200:
+ *         description: Updated key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: Invalid scopes, expiry, IP ranges or models
+ *       404:
+ *         description: Key not found
+ *
  *   delete:
  *     summary: Delete API key
  *     tags: [Keys]
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *       - in: path
  *         name: id
  *         required: true
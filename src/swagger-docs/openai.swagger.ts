@@ -9,6 +9,9 @@
  *     description: |
  *       Generate images using OpenAI-compatible API format.
  *       Use your ImageGen API key with Bearer prefix: `Bearer sk-xxxxx`
+ *
+ *       Every /v1 response carries `x-ratelimit-limit-requests`, `x-ratelimit-remaining-requests`,
+ *       `x-ratelimit-reset-requests` and the matching `-tokens` headers for the key's plan.
  *     requestBody:
  *       required: true
  *       content:
@@ -27,24 +30,43 @@
  *               n:
  *                 type: integer
  *                 default: 1
- *                 maximum: 1
- *                 description: Number of images (currently only 1 supported)
+ *                 minimum: 1
+ *                 maximum: 10
+ *                 description: Number of images; each is billed separately and only successful images are charged
  *               size:
  *                 type: string
- *                 enum: ['1024x1024', '1792x1024', '1024x1792']
+ *                 enum: ['1024x1024', '1792x1024', '1024x1792', '1536x1024', '1024x1536']
  *                 default: '1024x1024'
  *                 description: |
  *                   Image size:
  *                   - 1024x1024 = 1:1
  *                   - 1792x1024 = 16:9
  *                   - 1024x1792 = 9:16
+ *                   - 1536x1024 = 3:2
+ *                   - 1024x1536 = 2:3
+ *               quality:
+ *                 type: string
+ *                 enum: [auto, standard, low, medium, hd, high]
+ *                 default: auto
+ *                 description: standard/low = 1K, medium = 2K, hd/high = 4K; auto picks from the size
  *               response_format:
  *                 type: string
  *                 enum: [url, b64_json]
  *                 default: url
+ *               async:
+ *                 type: boolean
+ *                 default: false
+ *                 description: |
+ *                   Return job objects (202) instead of waiting for the images.
+ *                   Poll GET /v1/images/jobs/{id} or pass webhook_url. Also accepted by /edits and /variations.
+ *               webhook_url:
+ *                 type: string
+ *                 description: |
+ *                   Public HTTPS URL called with `generation.completed` / `generation.failed` (async only).
+ *                   Signed like /api/generate webhooks, with the secret from GET /api/generate/webhook-secret.
  *     responses:
  *       200:
- *         description: Generated image
+ *         description: Generated images
  *         content:
  *           application/json:
  *             schema:
@@ -56,13 +78,26 @@
  *                   items:
  *                     type: object
  *                     properties:
- *                       url: { type: string, description: Image URL }
+ *                       url: { type: string, description: Image URL (response_format url) }
+ *                       b64_json: { type: string, description: Base64 PNG (response_format b64_json) }
  *                       revised_prompt: { type: string }
  *             example:
  *               created: 1704067200
  *               data:
  *                 - url: https://cdn.example.com/image.png
  *                   revised_prompt: A beautiful sunset over mountains
+ *       202:
+ *         description: Async request accepted; one job per image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object: { type: string, example: list }
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ImageJob'
  *       400:
  *         description: Invalid request
  *         content:
@@ -80,12 +115,124 @@
  *         description: Invalid API key
  *       402:
  *         description: Insufficient tokens
+ *       403:
+ *         description: Key expired, IP not allowed, or missing the images:write scope
  *       429:
- *         description: Rate limit exceeded
+ *         description: Requests or tokens per minute exceeded (rate_limit_exceeded), or the key reached its spend limit (api_key_budget_exceeded)
+ *
+ * /v1/images/edits:
+ *   post:
+ *     summary: OpenAI-compatible image edit
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     description: |
+ *       Edit or combine up to 8 reference images following the prompt.
+ *       Accepts the multipart upload the OpenAI SDKs send, or JSON with base64 data URLs / https URLs.
+ *       `mask` is not supported by the upstream model and is rejected with `param: mask`;
+ *       describe the area to change in the prompt instead.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image, prompt]
+ *             properties:
+ *               image:
+ *                 type: array
+ *                 items: { type: string, format: binary }
+ *                 description: PNG, JPEG, WebP or GIF, up to 10MB each (field name image or image[])
+ *               prompt: { type: string }
+ *               n: { type: integer, default: 1, maximum: 10 }
+ *               size: { type: string, default: '1024x1024' }
+ *               quality: { type: string, default: auto }
+ *               response_format: { type: string, enum: [url, b64_json], default: url }
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [prompt]
+ *             properties:
+ *               image:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: array
+ *                     items: { type: string }
+ *                 description: data:image/...;base64 URL or https URL
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     image_url: { type: string }
+ *               prompt: { type: string }
+ *               n: { type: integer, default: 1, maximum: 10 }
+ *               size: { type: string, default: '1024x1024' }
+ *               quality: { type: string, default: auto }
+ *               response_format: { type: string, enum: [url, b64_json], default: url }
+ *     responses:
+ *       200:
+ *         description: Edited images, same shape as /v1/images/generations
+ *       400:
+ *         description: Missing or invalid image, prompt or parameter (error.param names it)
+ *       402:
+ *         description: Insufficient tokens
+ *       403:
+ *         description: Missing the images:write scope
+ *
+ * /v1/images/variations:
+ *   post:
+ *     summary: OpenAI-compatible image variation
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     description: Create variations of a single image. Takes the same upload formats as /v1/images/edits, without a prompt.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image]
+ *             properties:
+ *               image: { type: string, format: binary }
+ *               n: { type: integer, default: 1, maximum: 10 }
+ *               size: { type: string, default: '1024x1024' }
+ *               response_format: { type: string, enum: [url, b64_json], default: url }
+ *     responses:
+ *       200:
+ *         description: Image variations, same shape as /v1/images/generations
+ *       400:
+ *         description: Missing or invalid image or parameter (error.param names it)
+ *       402:
+ *         description: Insufficient tokens
+ *
+ * /v1/images/jobs/{id}:
+ *   get:
+ *     summary: Get an async image job
+ *     description: Jobs created with `async` by any of the user's API keys. Requires the images:write scope.
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Job status and, once completed, the image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageJob'
+ *       404:
+ *         description: No API job with this id
  *
  * /v1/models:
  *   get:
  *     summary: List available models
+ *     description: Requires the models:read scope. Keys with allowedModels only see those models.
  *     tags: [OpenAI Compatible]
  *     security:
  *       - apiKey: []
@@ -107,6 +254,35 @@
  *                       object: { type: string, example: model }
  *                       created: { type: integer }
  *                       owned_by: { type: string }
+ *                       description: { type: string, nullable: true }
+ *                       context_window: { type: integer }
+ *                       max_output_tokens: { type: integer, nullable: true }
+ *                       input_modalities: { type: array, items: { type: string } }
+ *                       pricing:
+ *                         type: object
+ *                         properties:
+ *                           input_per_1k: { type: number }
+ *                           output_per_1k: { type: number }
+ *
+ * /v1/models/{model}:
+ *   get:
+ *     summary: Retrieve a model
+ *     tags: [OpenAI Compatible]
+ *     security:
+ *       - apiKey: []
+ *     parameters:
+ *       - in: path
+ *         name: model
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Model details
+ *       403:
+ *         description: Missing the models:read scope or model not allowed for this key
+ *       404:
+ *         description: Unknown or disabled model (model_not_found)
  */
 
 export {}
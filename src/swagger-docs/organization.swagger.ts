@@ -0,0 +1,340 @@
+/**
+ * @swagger
+ * /api/organizations:
+ *   get:
+ *     summary: List organizations you belong to
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organizations with your role in each
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Organization'
+ *       401:
+ *         description: Unauthorized
+ *
+ *   post:
+ *     summary: Create an organization (you become its owner)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name: { type: string, maxLength: 100 }
+ *     responses:
+ *       201:
+ *         description: Organization created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   $ref: '#/components/schemas/Organization'
+ *       400:
+ *         description: Invalid name
+ *
+ * /api/organizations/invitations/accept:
+ *   post:
+ *     summary: Accept an invitation from its emailed token
+ *     description: You must be signed in with the invited email address.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token: { type: string }
+ *     responses:
+ *       200:
+ *         description: Joined the organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     organizationId: { type: string, format: uuid }
+ *                     name: { type: string }
+ *                     role: { type: string }
+ *       400:
+ *         description: Invitation is invalid or has expired
+ *       403:
+ *         description: Invitation was sent to a different email
+ *       409:
+ *         description: Already a member
+ *
+ * /api/organizations/{id}:
+ *   get:
+ *     summary: Get an organization, with your role and monthly spend
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Organization details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Organization'
+ *                     - type: object
+ *                       properties:
+ *                         memberCount: { type: integer }
+ *                         monthlyTokenLimit: { type: integer, nullable: true }
+ *                         spentThisMonth: { type: number }
+ *       403:
+ *         description: Not a member
+ *
+ *   patch:
+ *     summary: Rename an organization (owner/admin)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name: { type: string, maxLength: 100 }
+ *     responses:
+ *       200:
+ *         description: Organization renamed
+ *       403:
+ *         description: Not an owner or admin
+ *
+ * /api/organizations/{id}/members:
+ *   get:
+ *     summary: List members with their role, monthly limit and spend
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Members
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrganizationMember'
+ *       403:
+ *         description: Not a member
+ *
+ * /api/organizations/{id}/members/{userId}:
+ *   patch:
+ *     summary: Change a member's role or monthly token limit (owner/admin)
+ *     description: Only owners can grant or remove ownership; the last owner cannot be demoted.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role: { type: string, enum: [owner, admin, member, billing] }
+ *               monthlyTokenLimit: { type: integer, nullable: true, description: 'null removes the limit' }
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   $ref: '#/components/schemas/OrganizationMember'
+ *       403:
+ *         description: Not allowed to change this member
+ *       409:
+ *         description: The organization would be left without an owner
+ *
+ *   delete:
+ *     summary: Remove a member, or leave when userId is your own
+ *     description: Organization API keys the member created are deactivated.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       403:
+ *         description: Not allowed to remove this member
+ *       409:
+ *         description: The organization would be left without an owner
+ *
+ * /api/organizations/{id}/invitations:
+ *   get:
+ *     summary: List pending invitations (owner/admin)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Pending invitations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OrganizationInvitation'
+ *
+ *   post:
+ *     summary: Invite someone by email (owner/admin)
+ *     description: Sends an email with a link valid for 7 days. A new invitation replaces pending ones for the same address.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email: { type: string, format: email }
+ *               role: { type: string, enum: [admin, member, billing], default: member }
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   $ref: '#/components/schemas/OrganizationInvitation'
+ *       409:
+ *         description: Already a member
+ *
+ * /api/organizations/{id}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoke a pending invitation (owner/admin)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       404:
+ *         description: Invitation not found
+ */
@@ -6,6 +6,8 @@
  *     tags: [Usage]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *     responses:
  *       200:
  *         description: Usage summary
@@ -27,6 +29,7 @@
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *       - in: query
  *         name: page
  *         schema:
@@ -81,6 +84,31 @@
  *       401:
  *         description: Unauthorized
  *
+ * /api/usage/transactions:
+ *   get:
+ *     summary: Get credit ledger entries (grants, purchases, spends, refunds)
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated ledger entries, newest first
+ *       401:
+ *         description: Unauthorized
+ *
  * /api/usage/stats:
  *   get:
  *     summary: Get usage statistics
@@ -88,6 +116,7 @@
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
  *       - in: query
  *         name: period
  *         schema:
@@ -39,6 +39,21 @@ const options: swaggerJsdoc.Options = {
           name: 'Authorization',
           description: 'API Key for OpenAI-compatible endpoints (Bearer sk-...)',
         },
+        anthropicApiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'x-api-key',
+          description: 'API Key for the Anthropic-compatible endpoint (sk-..., no prefix); Bearer also works',
+        },
+      },
+      parameters: {
+        OrganizationId: {
+          in: 'header',
+          name: 'X-Organization-Id',
+          required: false,
+          schema: { type: 'string', format: 'uuid' },
+          description: 'Act in this organization\'s workspace (shared balance, keys and usage) instead of the personal one',
+        },
       },
       schemas: {
         // Common response schemas
@@ -63,10 +78,21 @@ const options: swaggerJsdoc.Options = {
             id: { type: 'string', format: 'uuid' },
             email: { type: 'string', format: 'email' },
             name: { type: 'string' },
+            avatarUrl: { type: 'string', nullable: true },
             role: { type: 'string', enum: ['user', 'admin'] },
             isPro: { type: 'boolean' },
             tokenBalance: { type: 'number' },
             isEmailVerified: { type: 'boolean' },
+            twoFactorEnabled: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        LinkedIdentity: {
+          type: 'object',
+          properties: {
+            provider: { type: 'string', example: 'github' },
+            email: { type: 'string', format: 'email', nullable: true },
+            lastLoginAt: { type: 'string', format: 'date-time', nullable: true },
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
@@ -87,6 +113,19 @@ const options: swaggerJsdoc.Options = {
             name: { type: 'string' },
           },
         },
+        Session: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            device: { type: 'string', nullable: true, example: 'Chrome on Windows' },
+            userAgent: { type: 'string', nullable: true },
+            ip: { type: 'string', nullable: true },
+            current: { type: 'boolean', description: 'Session of the token making the request' },
+            createdAt: { type: 'string', format: 'date-time' },
+            lastUsedAt: { type: 'string', format: 'date-time' },
+            expiresAt: { type: 'string', format: 'date-time' },
+          },
+        },
         // Generate schemas
         GenerateRequest: {
           type: 'object',
@@ -95,6 +134,174 @@ const options: swaggerJsdoc.Options = {
             prompt: { type: 'string', description: 'Image generation prompt' },
             aspect_ratio: { type: 'string', enum: ['1:1', '16:9', '9:16', '4:3', '3:4'], default: '1:1' },
             model: { type: 'string', default: 'kie-ai' },
+            webhook_url: {
+              type: 'string',
+              format: 'uri',
+              description: 'Public HTTPS URL that receives a signed generation.completed / generation.failed callback',
+            },
+          },
+        },
+        GenerationJob: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            taskId: { type: 'string' },
+            status: { type: 'string', enum: ['processing', 'completed', 'failed'] },
+            prompt: { type: 'string' },
+            aspectRatio: { type: 'string' },
+            resolution: { type: 'string' },
+            outputFormat: { type: 'string' },
+            imageUrl: { type: 'string', nullable: true },
+            error: { type: 'string', nullable: true },
+            webhookUrl: { type: 'string', nullable: true },
+            webhookStatus: { type: 'string', enum: ['pending', 'delivered', 'failed'], nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        ImageJob: {
+          type: 'object',
+          description: 'Async /v1 image request (one job per image)',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            object: { type: 'string', example: 'image.job' },
+            status: { type: 'string', enum: ['processing', 'completed', 'failed'] },
+            created: { type: 'integer', description: 'Unix timestamp' },
+            completed_at: { type: 'integer', nullable: true },
+            data: {
+              type: 'array',
+              nullable: true,
+              items: {
+                type: 'object',
+                properties: {
+                  url: { type: 'string' },
+                  revised_prompt: { type: 'string' },
+                },
+              },
+            },
+            error: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                message: { type: 'string' },
+                code: { type: 'string' },
+              },
+            },
+            webhook_url: { type: 'string', nullable: true },
+            webhook_status: { type: 'string', enum: ['pending', 'delivered', 'failed'], nullable: true },
+          },
+        },
+        ApiFile: {
+          type: 'object',
+          description: 'File uploaded for, or written by, the Batch API',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            object: { type: 'string', example: 'file' },
+            bytes: { type: 'integer' },
+            created_at: { type: 'integer', description: 'Unix timestamp' },
+            filename: { type: 'string' },
+            purpose: { type: 'string', enum: ['batch', 'batch_output', 'batch_error'] },
+          },
+        },
+        Batch: {
+          type: 'object',
+          description: 'Bulk /v1 requests run in the background from a JSONL input file',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            object: { type: 'string', example: 'batch' },
+            endpoint: { type: 'string', enum: ['/v1/chat/completions', '/v1/images/generations'] },
+            errors: {
+              type: 'object',
+              nullable: true,
+              description: 'Input file problems that failed the batch',
+              properties: {
+                object: { type: 'string', example: 'list' },
+                data: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      code: { type: 'string' },
+                      message: { type: 'string' },
+                      line: { type: 'integer' },
+                      param: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+            input_file_id: { type: 'string', format: 'uuid' },
+            completion_window: { type: 'string', example: '24h' },
+            status: {
+              type: 'string',
+              enum: ['validating', 'failed', 'in_progress', 'finalizing', 'completed', 'expired', 'cancelling', 'cancelled'],
+            },
+            output_file_id: { type: 'string', nullable: true, description: 'JSONL of successful requests' },
+            error_file_id: { type: 'string', nullable: true, description: 'JSONL of failed, cancelled and expired requests' },
+            created_at: { type: 'integer' },
+            in_progress_at: { type: 'integer', nullable: true },
+            expires_at: { type: 'integer' },
+            finalizing_at: { type: 'integer', nullable: true },
+            completed_at: { type: 'integer', nullable: true },
+            failed_at: { type: 'integer', nullable: true },
+            expired_at: { type: 'integer', nullable: true },
+            cancelling_at: { type: 'integer', nullable: true },
+            cancelled_at: { type: 'integer', nullable: true },
+            request_counts: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                completed: { type: 'integer' },
+                failed: { type: 'integer' },
+              },
+            },
+            metadata: { type: 'object', nullable: true, additionalProperties: { type: 'string' } },
+          },
+        },
+        AnthropicMessage: {
+          type: 'object',
+          description: 'Anthropic Messages API response',
+          properties: {
+            id: { type: 'string', example: 'msg_0123456789abcdef01234567' },
+            type: { type: 'string', example: 'message' },
+            role: { type: 'string', example: 'assistant' },
+            model: { type: 'string' },
+            content: {
+              type: 'array',
+              items: {
+                type: 'object',
+                description: 'text block ({ type, text }) or tool_use block ({ type, id, name, input })',
+                properties: {
+                  type: { type: 'string', enum: ['text', 'tool_use'] },
+                  text: { type: 'string' },
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  input: { type: 'object' },
+                },
+              },
+            },
+            stop_reason: { type: 'string', enum: ['end_turn', 'max_tokens', 'stop_sequence', 'tool_use', 'refusal'] },
+            stop_sequence: { type: 'string', nullable: true },
+            usage: {
+              type: 'object',
+              properties: {
+                input_tokens: { type: 'integer' },
+                output_tokens: { type: 'integer' },
+              },
+            },
+          },
+        },
+        AnthropicError: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', example: 'error' },
+            error: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', example: 'invalid_request_error' },
+                message: { type: 'string' },
+              },
+            },
           },
         },
         GenerateResponse: {
@@ -104,6 +311,57 @@ const options: swaggerJsdoc.Options = {
             status: { type: 'string', enum: ['processing', 'completed', 'failed'] },
           },
         },
+        // Gallery schemas
+        GalleryItem: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            usageLogId: { type: 'string', format: 'uuid', description: 'Usage log that billed this image' },
+            source: { type: 'string', enum: ['web', 'api'] },
+            prompt: { type: 'string', nullable: true },
+            model: { type: 'string' },
+            aspectRatio: { type: 'string', nullable: true },
+            resolution: { type: 'string', nullable: true },
+            imageUrl: { type: 'string', nullable: true },
+            storedImageId: { type: 'string', format: 'uuid', nullable: true },
+            taskId: { type: 'string', nullable: true },
+            creditsUsed: { type: 'number' },
+            costUsd: { type: 'number' },
+            isFavorite: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        GalleryCollection: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            itemCount: { type: 'integer' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        // Model registry schemas
+        AiModel: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            modelId: { type: 'string', example: 'gpt-4o' },
+            ownedBy: { type: 'string', example: 'openai' },
+            description: { type: 'string', nullable: true },
+            upstreamUrl: { type: 'string', format: 'uri' },
+            contextWindow: { type: 'integer', example: 128000 },
+            maxOutputTokens: { type: 'integer', nullable: true },
+            inputPricePer1K: { type: 'number', description: 'USD per 1K prompt tokens' },
+            outputPricePer1K: { type: 'number', description: 'USD per 1K completion tokens' },
+            inputModalities: { type: 'array', items: { type: 'string', enum: ['text', 'image'] } },
+            enabled: { type: 'boolean' },
+            sortOrder: { type: 'integer' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
         // Chat schemas
         Agent: {
           type: 'object',
@@ -125,13 +383,16 @@ const options: swaggerJsdoc.Options = {
         },
         ChatRequest: {
           type: 'object',
-          required: ['messages'],
+          description: 'Send either `messages` (client-held history) or `message` + `conversationId` (history rebuilt on the server)',
           properties: {
             messages: {
               type: 'array',
+              maxItems: 50,
               items: { $ref: '#/components/schemas/ChatMessage' },
             },
-            agentId: { type: 'string' },
+            message: { type: 'string', description: 'New user message; requires conversationId' },
+            conversationId: { type: 'string', format: 'uuid', description: 'Conversation the turn is saved to' },
+            agentId: { type: 'string', description: 'Defaults to the conversation agent in server-history mode' },
             imageUrl: { type: 'string' },
           },
         },
@@ -188,10 +449,104 @@ const options: swaggerJsdoc.Options = {
             id: { type: 'string' },
             name: { type: 'string' },
             keyPrefix: { type: 'string', description: 'First 8 characters of the key' },
+            scopes: {
+              type: 'array',
+              items: { type: 'string', enum: ['chat:write', 'images:write', 'models:read'] },
+            },
+            expiresAt: { type: 'string', format: 'date-time', nullable: true },
+            expired: { type: 'boolean' },
+            allowedIps: {
+              type: 'array',
+              items: { type: 'string' },
+              nullable: true,
+              description: 'IP addresses or CIDR ranges allowed to use the key (null = any)',
+            },
+            allowedModels: {
+              type: 'array',
+              items: { type: 'string' },
+              nullable: true,
+              description: 'Chat model ids the key may request (null = any)',
+            },
+            dailyTokenLimit: { type: 'integer', nullable: true },
+            monthlyTokenLimit: { type: 'integer', nullable: true },
+            dailyUsdLimit: { type: 'number', nullable: true },
+            monthlyUsdLimit: { type: 'number', nullable: true },
+            budgetWarningPercent: { type: 'integer', nullable: true },
+            rateLimitPlan: { type: 'string', enum: ['free', 'pro', 'enterprise'], nullable: true, description: 'Pinned by an admin; null follows the account plan' },
+            organizationId: { type: 'string', format: 'uuid', nullable: true, description: 'Owning organization; null for personal keys' },
+            createdBy: { type: 'string', format: 'uuid', description: 'User who created the key' },
+            previousKey: {
+              type: 'object',
+              nullable: true,
+              description: 'Secret replaced by the last rotation, accepted until expiresAt',
+              properties: {
+                key: { type: 'string' },
+                expiresAt: { type: 'string', format: 'date-time' },
+                lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+              },
+            },
+            rotatedAt: { type: 'string', format: 'date-time', nullable: true },
             createdAt: { type: 'string', format: 'date-time' },
             lastUsedAt: { type: 'string', format: 'date-time' },
           },
         },
+        ApiKeyPolicy: {
+          type: 'object',
+          properties: {
+            scopes: {
+              type: 'array',
+              items: { type: 'string', enum: ['chat:write', 'images:write', 'models:read'] },
+              description: 'Defaults to every scope',
+            },
+            expiresAt: { type: 'string', format: 'date-time', nullable: true },
+            allowedIps: { type: 'array', items: { type: 'string' }, nullable: true, example: ['203.0.113.0/24'] },
+            allowedModels: { type: 'array', items: { type: 'string' }, nullable: true, example: ['gpt-4o'] },
+            dailyTokenLimit: { type: 'integer', nullable: true, description: 'Credits per UTC day' },
+            monthlyTokenLimit: { type: 'integer', nullable: true, description: 'Credits per calendar month (UTC)' },
+            dailyUsdLimit: { type: 'number', nullable: true },
+            monthlyUsdLimit: { type: 'number', nullable: true },
+            budgetWarningPercent: {
+              type: 'integer',
+              nullable: true,
+              minimum: 1,
+              maximum: 99,
+              description: 'Email the owner once per period when spend reaches this share of a limit',
+            },
+          },
+        },
+        // Organization schemas
+        Organization: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            role: { type: 'string', enum: ['owner', 'admin', 'member', 'billing'], description: 'Your role' },
+            tokenBalance: { type: 'number', description: 'Shared token pool' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        OrganizationMember: {
+          type: 'object',
+          properties: {
+            userId: { type: 'string', format: 'uuid' },
+            email: { type: 'string' },
+            name: { type: 'string', nullable: true },
+            role: { type: 'string', enum: ['owner', 'admin', 'member', 'billing'] },
+            monthlyTokenLimit: { type: 'integer', nullable: true, description: 'Most the member may spend from the pool per calendar month (UTC)' },
+            spentThisMonth: { type: 'number' },
+            joinedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        OrganizationInvitation: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            email: { type: 'string' },
+            role: { type: 'string', enum: ['admin', 'member', 'billing'] },
+            expiresAt: { type: 'string', format: 'date-time' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
         // Usage schemas
         UsageSummary: {
           type: 'object',
@@ -211,12 +566,16 @@ const options: swaggerJsdoc.Options = {
       { name: 'Billing', description: 'Payment and billing endpoints' },
       { name: 'Usage', description: 'Usage statistics endpoints' },
       { name: 'Keys', description: 'API Key management' },
+      { name: 'Organizations', description: 'Team workspaces, members and invitations' },
       { name: 'Blog', description: 'Public blog endpoints' },
       { name: 'Admin', description: 'Admin panel endpoints' },
       { name: 'Article Images', description: 'Article image generation' },
       { name: 'Convert', description: 'Document conversion endpoints' },
       { name: 'Download', description: 'Image download proxy' },
+      { name: 'Images', description: 'Stored images served via signed URLs' },
+      { name: 'Gallery', description: 'Generated image gallery, favorites and collections' },
       { name: 'OpenAI Compatible', description: 'OpenAI-compatible API endpoints' },
+      { name: 'Anthropic Compatible', description: 'Anthropic-compatible API endpoints' },
     ],
   },
   apis: ['./src/routes/*.ts', './src/swagger-docs/*.ts'],
@@ -0,0 +1,66 @@
+import { Response } from 'express'
+
+export type AnthropicErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'billing_error'
+  | 'permission_error'
+  | 'not_found_error'
+  | 'request_too_large'
+  | 'rate_limit_error'
+  | 'api_error'
+  | 'overloaded_error'
+
+export interface AnthropicErrorBody {
+  type: 'error'
+  error: {
+    type: AnthropicErrorType
+    message: string
+  }
+}
+
+/**
+ * Anthropic error type for an HTTP status
+ */
+export function anthropicErrorType(statusCode: number): AnthropicErrorType {
+  switch (statusCode) {
+    case 401: return 'authentication_error'
+    case 402: return 'billing_error'
+    case 403: return 'permission_error'
+    case 404: return 'not_found_error'
+    case 413: return 'request_too_large'
+    case 429: return 'rate_limit_error'
+    case 503:
+    case 529: return 'overloaded_error'
+    default: return statusCode >= 500 ? 'api_error' : 'invalid_request_error'
+  }
+}
+
+/**
+ * Send an error in the Anthropic API envelope (used by /v1/messages)
+ */
+export function anthropicError(
+  res: Response,
+  statusCode: number,
+  message: string,
+  type: AnthropicErrorType = anthropicErrorType(statusCode)
+): Response {
+  const body: AnthropicErrorBody = { type: 'error', error: { type, message } }
+  return res.status(statusCode).json(body)
+}
+
+/**
+ * Convert an error body in the OpenAI envelope ({ error: { message } }) or the repo envelope
+ * ({ success: false, error }) to the Anthropic one; returns null for anything else
+ */
+export function toAnthropicErrorBody(statusCode: number, body: unknown): AnthropicErrorBody | null {
+  if (typeof body !== 'object' || body === null) return null
+  const { type, error } = body as { type?: unknown; error?: unknown }
+  if (type === 'error') return null // already converted
+
+  let message: unknown = error
+  if (typeof error === 'object' && error !== null) message = (error as { message?: unknown }).message
+  if (typeof message !== 'string') return null
+
+  return { type: 'error', error: { type: anthropicErrorType(statusCode), message } }
+}
@@ -0,0 +1,448 @@
+/**
+ * Anthropic Messages API (/v1/messages) on top of the chat completions pipeline
+ *
+ * Requests are validated against the Messages schema and translated to an OpenAI chat
+ * completion body: the system prompt becomes a system message, tool_result blocks become
+ * tool messages and tool_use blocks become tool_calls. Normalised OpenAI responses and
+ * stream chunks are translated back to messages and Messages stream events.
+ */
+
+import crypto from 'crypto'
+import { ChatRequestError, ToolCall } from './tool-calls'
+
+const MESSAGE_ROLES = ['user', 'assistant']
+const TOOL_CHOICE_TYPES = ['auto', 'any', 'tool', 'none']
+const USER_BLOCK_TYPES = ['text', 'image', 'tool_result']
+const ASSISTANT_BLOCK_TYPES = ['text', 'tool_use']
+
+// OpenAI finish reasons mapped to Anthropic stop reasons
+const STOP_REASONS: Record<string, AnthropicStopReason> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+  content_filter: 'refusal',
+}
+
+type Json = Record<string, any>
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'refusal'
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+
+export interface AnthropicUsage {
+  input_tokens: number
+  output_tokens: number
+}
+
+export interface AnthropicMessage {
+  id: string
+  type: 'message'
+  role: 'assistant'
+  model: string
+  content: AnthropicContentBlock[]
+  stop_reason: AnthropicStopReason | null
+  stop_sequence: string | null
+  usage: AnthropicUsage
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function invalid(message: string, param: string, code = 'invalid_request'): ChatRequestError {
+  return { message, param, code }
+}
+
+/**
+ * Message id in Anthropic's format (msg_ + 24 hex chars)
+ */
+export function generateMessageId(): string {
+  return `msg_${crypto.randomBytes(12).toString('hex')}`
+}
+
+function validateImageSource(source: unknown, param: string): ChatRequestError | null {
+  if (!isObject(source)) return invalid(`${param}: Field required`, param)
+  if (source.type === 'base64') {
+    if (typeof source.media_type !== 'string' || !source.media_type.startsWith('image/')) {
+      return invalid(`${param}.media_type: must be an image media type`, `${param}.media_type`)
+    }
+    if (typeof source.data !== 'string' || !source.data) {
+      return invalid(`${param}.data: Field required`, `${param}.data`)
+    }
+    return null
+  }
+  if (source.type === 'url') {
+    if (typeof source.url !== 'string' || !source.url.startsWith('https://')) {
+      return invalid(`${param}.url: must be an https URL`, `${param}.url`)
+    }
+    return null
+  }
+  return invalid(`${param}.type: must be one of base64, url`, `${param}.type`)
+}
+
+function validateBlock(block: unknown, allowed: string[], param: string): ChatRequestError | null {
+  if (!isObject(block) || !allowed.includes(block.type)) {
+    return invalid(`${param}.type: must be one of ${allowed.join(', ')}`, `${param}.type`)
+  }
+
+  switch (block.type) {
+    case 'text':
+      if (typeof block.text !== 'string') return invalid(`${param}.text: Field required`, `${param}.text`)
+      return null
+    case 'image':
+      return validateImageSource(block.source, `${param}.source`)
+    case 'tool_use':
+      if (typeof block.id !== 'string' || !block.id) return invalid(`${param}.id: Field required`, `${param}.id`)
+      if (typeof block.name !== 'string' || !block.name) return invalid(`${param}.name: Field required`, `${param}.name`)
+      if (!isObject(block.input)) return invalid(`${param}.input: must be an object`, `${param}.input`)
+      return null
+    case 'tool_result':
+      if (typeof block.tool_use_id !== 'string' || !block.tool_use_id) {
+        return invalid(`${param}.tool_use_id: Field required`, `${param}.tool_use_id`)
+      }
+      if (block.is_error !== undefined && typeof block.is_error !== 'boolean') {
+        return invalid(`${param}.is_error: must be a boolean`, `${param}.is_error`)
+      }
+      if (Array.isArray(block.content)) {
+        for (const [i, part] of block.content.entries()) {
+          const error = validateBlock(part, ['text', 'image'], `${param}.content.${i}`)
+          if (error) return error
+        }
+      } else if (block.content !== undefined && typeof block.content !== 'string') {
+        return invalid(`${param}.content: must be a string or an array of content blocks`, `${param}.content`)
+      }
+      return null
+  }
+  return null
+}
+
+/**
+ * Validate a Messages API request body
+ */
+export function validateMessagesRequest(body: Json): ChatRequestError | null {
+  if (typeof body.model !== 'string' || !body.model) return invalid('model: Field required', 'model')
+
+  if (!Number.isInteger(body.max_tokens) || body.max_tokens < 1) {
+    return invalid('max_tokens: must be a positive integer', 'max_tokens')
+  }
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return invalid('messages: must be a non-empty array', 'messages', 'invalid_messages')
+  }
+  for (const [i, message] of body.messages.entries()) {
+    const param = `messages.${i}`
+    if (!isObject(message) || !MESSAGE_ROLES.includes(message.role)) {
+      return invalid(`${param}.role: must be one of ${MESSAGE_ROLES.join(', ')}`, `${param}.role`)
+    }
+    if (typeof message.content === 'string') continue
+    if (!Array.isArray(message.content)) {
+      return invalid(`${param}.content: must be a string or an array of content blocks`, `${param}.content`)
+    }
+    const allowed = message.role === 'user' ? USER_BLOCK_TYPES : ASSISTANT_BLOCK_TYPES
+    for (const [j, block] of message.content.entries()) {
+      const error = validateBlock(block, allowed, `${param}.content.${j}`)
+      if (error) return error
+    }
+  }
+
+  if (body.system !== undefined && typeof body.system !== 'string') {
+    if (!Array.isArray(body.system)) return invalid('system: must be a string or an array of text blocks', 'system')
+    for (const [i, block] of body.system.entries()) {
+      const error = validateBlock(block, ['text'], `system.${i}`)
+      if (error) return error
+    }
+  }
+
+  if (body.stop_sequences !== undefined &&
+    (!Array.isArray(body.stop_sequences) || body.stop_sequences.some((s: unknown) => typeof s !== 'string'))) {
+    return invalid('stop_sequences: must be an array of strings', 'stop_sequences')
+  }
+
+  if (body.stream !== undefined && typeof body.stream !== 'boolean') {
+    return invalid('stream: must be a boolean', 'stream')
+  }
+
+  if (body.tools !== undefined) {
+    if (!Array.isArray(body.tools)) return invalid('tools: must be an array', 'tools')
+    for (const [i, tool] of body.tools.entries()) {
+      if (!isObject(tool) || typeof tool.name !== 'string' || !tool.name) {
+        return invalid(`tools.${i}.name: Field required`, `tools.${i}.name`)
+      }
+      if (!isObject(tool.input_schema)) {
+        return invalid(`tools.${i}.input_schema: must be an object`, `tools.${i}.input_schema`)
+      }
+    }
+  }
+
+  if (body.tool_choice !== undefined) {
+    const choice = body.tool_choice
+    if (!isObject(choice) || !TOOL_CHOICE_TYPES.includes(choice.type)) {
+      return invalid(`tool_choice.type: must be one of ${TOOL_CHOICE_TYPES.join(', ')}`, 'tool_choice')
+    }
+    if (choice.type === 'tool' && (typeof choice.name !== 'string' || !choice.name)) {
+      return invalid('tool_choice.name: Field required', 'tool_choice.name')
+    }
+  }
+
+  return null
+}
+
+function imagePart(source: Json): Json {
+  const url = source.type === 'base64' ? `data:${source.media_type};base64,${source.data}` : source.url
+  return { type: 'image_url', image_url: { url } }
+}
+
+function joinText(blocks: Json[]): string {
+  return blocks.filter((block) => block.type === 'text').map((block) => block.text).join('\n')
+}
+
+// Plain string when there is only text, content parts otherwise
+function userContent(parts: Json[]): string | Json[] {
+  return parts.every((part) => part.type === 'text') ? joinText(parts) : parts
+}
+
+function translateMessage(message: Json): Json[] {
+  if (typeof message.content === 'string') return [{ role: message.role, content: message.content }]
+  const blocks: Json[] = message.content
+
+  if (message.role === 'assistant') {
+    const toolCalls: ToolCall[] = blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input) },
+      }))
+    const text = joinText(blocks)
+    return [{
+      role: 'assistant',
+      content: text || (toolCalls.length > 0 ? null : ''),
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+    }]
+  }
+
+  // Tool results answer the previous assistant turn, so they go first as tool messages;
+  // images inside them are carried over to the user message that follows
+  const messages: Json[] = []
+  const parts: Json[] = []
+  for (const block of blocks) {
+    if (block.type === 'tool_result') {
+      const content: Json[] = typeof block.content === 'string'
+        ? [{ type: 'text', text: block.content }]
+        : block.content ?? []
+      const text = joinText(content)
+      messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.is_error ? `Error: ${text}` : text })
+      parts.push(...content.filter((part) => part.type === 'image').map((part) => imagePart(part.source)))
+    } else if (block.type === 'image') {
+      parts.push(imagePart(block.source))
+    } else {
+      parts.push({ type: 'text', text: block.text })
+    }
+  }
+  if (parts.length > 0) messages.push({ role: 'user', content: userContent(parts) })
+  return messages
+}
+
+/**
+ * Translate a validated Messages API request to an OpenAI chat completion body
+ * top_k and other Anthropic-only sampling options have no OpenAI counterpart and are dropped
+ */
+export function toChatCompletionRequest(body: Json): Json {
+  const messages: Json[] = []
+  if (body.system !== undefined) {
+    const system = typeof body.system === 'string' ? body.system : joinText(body.system)
+    if (system) messages.push({ role: 'system', content: system })
+  }
+  for (const message of body.messages) messages.push(...translateMessage(message))
+
+  const choice: Json | undefined = body.tool_choice
+  let toolChoice: unknown
+  if (choice?.type === 'any') toolChoice = 'required'
+  else if (choice?.type === 'tool') toolChoice = { type: 'function', function: { name: choice.name } }
+  else if (choice) toolChoice = choice.type
+
+  return {
+    model: body.model,
+    messages,
+    max_tokens: body.max_tokens,
+    ...(body.stream && { stream: true }),
+    ...(body.temperature !== undefined && { temperature: body.temperature }),
+    ...(body.top_p !== undefined && { top_p: body.top_p }),
+    ...(body.stop_sequences?.length && { stop: body.stop_sequences }),
+    ...(typeof body.metadata?.user_id === 'string' && { user: body.metadata.user_id }),
+    ...(body.tools?.length && {
+      tools: body.tools.map((tool: Json) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          ...(tool.description !== undefined && { description: tool.description }),
+          parameters: tool.input_schema,
+        },
+      })),
+    }),
+    ...(toolChoice !== undefined && { tool_choice: toolChoice }),
+    ...(choice?.disable_parallel_tool_use === true && { parallel_tool_calls: false }),
+    ...(body.agent !== undefined && { agent: body.agent }),
+  }
+}
+
+/**
+ * Anthropic stop reason for an (already normalised) OpenAI finish reason
+ */
+export function toStopReason(finishReason: unknown): AnthropicStopReason | null {
+  if (typeof finishReason !== 'string') return null
+  return STOP_REASONS[finishReason] ?? 'end_turn'
+}
+
+// Tool arguments as an input object; arguments that are not a JSON object are kept under `input`
+function parseToolInput(args: string): unknown {
+  if (!args) return {}
+  try {
+    const input = JSON.parse(args)
+    return isObject(input) ? input : { input }
+  } catch {
+    return { input: args }
+  }
+}
+
+/**
+ * Translate a normalised OpenAI chat completion to a Messages API response (first choice)
+ */
+export function toAnthropicMessage(data: { choices?: unknown[] }, model: string, usage: AnthropicUsage): AnthropicMessage {
+  const choice = (data.choices ?? []).find(isObject)
+  const message: Json = isObject(choice?.message) ? choice.message : {}
+
+  const content: AnthropicContentBlock[] = []
+  if (typeof message.content === 'string' && message.content) content.push({ type: 'text', text: message.content })
+  for (const call of Array.isArray(message.tool_calls) ? message.tool_calls : []) {
+    content.push({ type: 'tool_use', id: call.id, name: call.function?.name, input: parseToolInput(call.function?.arguments) })
+  }
+
+  return {
+    id: generateMessageId(),
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    stop_reason: toStopReason(choice?.finish_reason) ?? 'end_turn',
+    stop_sequence: null,
+    usage,
+  }
+}
+
+/**
+ * Writes a Messages API event stream from normalised OpenAI stream chunks (first choice)
+ *
+ * Text and each tool call get their own content block. Tool call fragments are expected in
+ * order, as the upstreams send them; a fragment for a call whose block was closed is dropped.
+ */
+export class AnthropicStreamWriter {
+  private blockIndex = -1
+  private openBlock: { type: 'text' } | { type: 'tool_use'; call: number } | null = null
+  private startedCalls = new Set<number>()
+  private stopReason: AnthropicStopReason | null = null
+
+  constructor(
+    private readonly write: (chunk: string) => void,
+    private readonly message: { model: string; inputTokens: number; id?: string }
+  ) {}
+
+  /**
+   * message_start, sent before the first chunk
+   */
+  start(): void {
+    this.event('message_start', {
+      type: 'message_start',
+      message: {
+        id: this.message.id ?? generateMessageId(),
+        type: 'message',
+        role: 'assistant',
+        model: this.message.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: this.message.inputTokens, output_tokens: 0 },
+      },
+    })
+  }
+
+  /**
+   * Translate one chunk (already normalised by ChatStreamAssembler)
+   */
+  push(chunk: { choices?: unknown[] }): void {
+    const choice = (chunk.choices ?? []).find((c): c is Json => isObject(c) && (c.index ?? 0) === 0)
+    if (!choice) return
+    const delta: Json = isObject(choice.delta) ? choice.delta : {}
+
+    if (typeof delta.content === 'string' && delta.content) {
+      if (this.openBlock?.type !== 'text') this.startBlock({ type: 'text' }, { type: 'text', text: '' })
+      this.event('content_block_delta', {
+        type: 'content_block_delta',
+        index: this.blockIndex,
+        delta: { type: 'text_delta', text: delta.content },
+      })
+    }
+
+    for (const call of Array.isArray(delta.tool_calls) ? delta.tool_calls : []) {
+      if (!isObject(call) || typeof call.index !== 'number') continue
+      const isOpen = this.openBlock?.type === 'tool_use' && this.openBlock.call === call.index
+      if (!isOpen) {
+        if (this.startedCalls.has(call.index)) continue
+        this.startedCalls.add(call.index)
+        this.startBlock(
+          { type: 'tool_use', call: call.index },
+          { type: 'tool_use', id: call.id, name: call.function?.name ?? '', input: {} }
+        )
+      }
+      const args = call.function?.arguments
+      if (typeof args === 'string' && args) {
+        this.event('content_block_delta', {
+          type: 'content_block_delta',
+          index: this.blockIndex,
+          delta: { type: 'input_json_delta', partial_json: args },
+        })
+      }
+    }
+
+    if (choice.finish_reason) this.stopReason = toStopReason(choice.finish_reason)
+  }
+
+  /**
+   * Close the open block, then message_delta (stop reason, output tokens) and message_stop
+   */
+  finish(outputTokens: number): void {
+    this.stopBlock()
+    this.event('message_delta', {
+      type: 'message_delta',
+      delta: { stop_reason: this.stopReason ?? 'end_turn', stop_sequence: null },
+      usage: { output_tokens: outputTokens },
+    })
+    this.event('message_stop', { type: 'message_stop' })
+  }
+
+  /**
+   * Error event for a stream that failed after it started
+   */
+  error(message: string): void {
+    this.event('error', { type: 'error', error: { type: 'api_error', message } })
+  }
+
+  private startBlock(block: NonNullable<AnthropicStreamWriter['openBlock']>, contentBlock: Json): void {
+    this.stopBlock()
+    this.blockIndex += 1
+    this.openBlock = block
+    this.event('content_block_start', { type: 'content_block_start', index: this.blockIndex, content_block: contentBlock })
+  }
+
+  private stopBlock(): void {
+    if (!this.openBlock) return
+    this.event('content_block_stop', { type: 'content_block_stop', index: this.blockIndex })
+    this.openBlock = null
+  }
+
+  private event(name: string, data: Json): void {
+    this.write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+}
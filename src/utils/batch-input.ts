@@ -0,0 +1,143 @@
+/**
+ * Batch input files: one request per line, as in OpenAI's Batch API
+ *
+ *   {"custom_id": "req-1", "method": "POST", "url": "/v1/chat/completions", "body": {...}}
+ *
+ * Every line must target the same endpoint and carry a unique custom_id.
+ * Files are scanned line by line so only one request is parsed at a time.
+ */
+
+import { BatchEndpoint, BatchError, BATCH_ENDPOINTS } from '../entities'
+
+export const MAX_BATCH_REQUESTS = 50000
+// Uploads are buffered whole, so keep this well inside the process memory (BATCH_MAX_FILE_MB, up to 100)
+export const MAX_BATCH_FILE_BYTES = Math.min(Math.max(parseInt(process.env.BATCH_MAX_FILE_MB || '20') || 20, 1), 100) * 1024 * 1024
+const MAX_CUSTOM_ID_LENGTH = 255
+
+// Stop collecting after this many problems; the first few are enough to fix a file
+const MAX_REPORTED_ERRORS = 20
+
+export interface BatchInputRequest {
+  line: number
+  customId: string
+  body: Record<string, any>
+}
+
+export type BatchInputEntry =
+  | { request: BatchInputRequest; endpoint: BatchEndpoint; error?: undefined }
+  | { error: BatchError; request?: undefined }
+
+export interface BatchInputSummary {
+  endpoint: BatchEndpoint | null
+  requestCount: number
+  errors: BatchError[]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Lines of a buffer without splitting the whole file into strings at once
+function* readLines(content: Buffer): Generator<string> {
+  let start = 0
+  while (start < content.length) {
+    const newline = content.indexOf(0x0a, start)
+    const end = newline === -1 ? content.length : newline
+    yield content.toString('utf8', start, end)
+    start = end + 1
+  }
+}
+
+/**
+ * Each request of a batch input file, or the problem with its line, in file order
+ */
+export function* readBatchInput(content: Buffer): Generator<BatchInputEntry> {
+  const customIds = new Set<string>()
+  let endpoint: BatchEndpoint | null = null
+  let count = 0
+  let failed = false
+  let line = 0
+
+  for (const raw of readLines(content)) {
+    line++
+    const text = raw.trim()
+    if (!text) continue
+
+    if (count >= MAX_BATCH_REQUESTS) {
+      yield { error: { code: 'too_many_requests', message: `A batch can contain at most ${MAX_BATCH_REQUESTS} requests`, line } }
+      return
+    }
+
+    let request: unknown
+    try {
+      request = JSON.parse(text)
+    } catch {
+      failed = true
+      yield { error: { code: 'invalid_json_line', message: 'This line is not parseable as valid JSON', line } }
+      continue
+    }
+
+    if (!isObject(request)) {
+      failed = true
+      yield { error: { code: 'invalid_request', message: 'Each line must be a JSON object', line } }
+      continue
+    }
+
+    const { custom_id: customId, method, url, body } = request
+    let error: BatchError | null = null
+    if (typeof customId !== 'string' || !customId || customId.length > MAX_CUSTOM_ID_LENGTH) {
+      error = { code: 'invalid_custom_id', message: `custom_id must be a non-empty string of at most ${MAX_CUSTOM_ID_LENGTH} characters`, line, param: 'custom_id' }
+    } else if (customIds.has(customId)) {
+      error = { code: 'duplicate_custom_id', message: `The custom_id '${customId}' is used more than once`, line, param: 'custom_id' }
+    } else if (method !== 'POST') {
+      error = { code: 'invalid_method', message: 'method must be POST', line, param: 'method' }
+    } else if (!BATCH_ENDPOINTS.includes(url as BatchEndpoint)) {
+      error = { code: 'invalid_url', message: `url must be one of ${BATCH_ENDPOINTS.join(', ')}`, line, param: 'url' }
+    } else if (endpoint && url !== endpoint) {
+      error = { code: 'mismatched_url', message: `All requests must use the same url (${endpoint})`, line, param: 'url' }
+    } else if (!isObject(body)) {
+      error = { code: 'invalid_body', message: 'body must be a JSON object', line, param: 'body' }
+    }
+
+    if (error) {
+      failed = true
+      yield { error }
+      continue
+    }
+
+    customIds.add(customId as string)
+    endpoint = url as BatchEndpoint
+    count++
+    yield { request: { line, customId: customId as string, body: body as Record<string, any> }, endpoint }
+  }
+
+  if (count === 0 && !failed) {
+    yield { error: { code: 'empty_file', message: 'The file contains no requests' } }
+  }
+}
+
+/**
+ * Check a batch input file without keeping its requests; problems are reported per line instead of thrown
+ */
+export function validateBatchInput(content: Buffer): BatchInputSummary {
+  const summary: BatchInputSummary = { endpoint: null, requestCount: 0, errors: [] }
+
+  for (const entry of readBatchInput(content)) {
+    if (entry.error) {
+      summary.errors.push(entry.error)
+      if (summary.errors.length >= MAX_REPORTED_ERRORS) break
+      continue
+    }
+    summary.endpoint = entry.endpoint
+    summary.requestCount++
+  }
+
+  return summary
+}
+
+/**
+ * Records as JSON Lines
+ */
+export function toJsonl(records: unknown[]): Buffer {
+  return Buffer.from(records.map((record) => `${JSON.stringify(record)}\n`).join(''), 'utf8')
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto'
+
+// SECURITY: Key for secrets stored at rest (2FA seeds); any length, stretched to 32 bytes
+const SECRET_ENCRYPTION_KEY = process.env.SECRET_ENCRYPTION_KEY || 'default-secret-encryption-key-change-me'
+
+const KEY = crypto.createHash('sha256').update(SECRET_ENCRYPTION_KEY).digest()
+const IV_BYTES = 12
+
+/**
+ * Encrypt with AES-256-GCM
+ * Output: iv:authTag:ciphertext (hex)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv('aes-256-gcm', KEY, iv)
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return [iv.toString('hex'), tag.toString('hex'), encrypted.toString('hex')].join(':')
+}
+
+/**
+ * Decrypt a value from encryptSecret
+ * @throws Error when the value was tampered with or encrypted under another key
+ */
+export function decryptSecret(payload: string): string {
+  const [ivHex, tagHex, dataHex] = payload.split(':')
+  if (!ivHex || !tagHex || dataHex === undefined) {
+    throw new Error('Malformed encrypted secret')
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', KEY, Buffer.from(ivHex, 'hex'))
+  decipher.setAuthTag(Buffer.from(tagHex, 'hex'))
+  return Buffer.concat([decipher.update(Buffer.from(dataHex, 'hex')), decipher.final()]).toString('utf8')
+}
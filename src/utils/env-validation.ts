@@ -27,6 +27,9 @@ const ENV_VARS: EnvVar[] = [
 
   // API Security
   { name: 'API_KEY_PEPPER', required: true, minLength: 32, description: 'API key hashing pepper (min 32 chars)' },
+  { name: 'SECRET_ENCRYPTION_KEY', required: true, minLength: 32, description: 'Encryption key for 2FA secrets at rest (min 32 chars)' },
+  { name: 'API_KEY_ROTATION_GRACE_HOURS', required: false, pattern: /^(\d|[1-9]\d|1[0-5]\d|16[0-8])$/, description: 'Hours a rotated-out API key secret keeps working, 0-168 (default 24)' },
+  { name: 'REQUIRE_ADMIN_2FA', required: false, pattern: /^(true|false)$/, description: 'Require admins to enable 2FA before using the admin API' },
 
   // Payment (SePay)
   { name: 'SEPAY_WEBHOOK_SECRET', required: true, minLength: 16, description: 'SePay webhook signature secret' },
@@ -35,16 +38,36 @@ const ENV_VARS: EnvVar[] = [
   // Google OAuth
   { name: 'GOOGLE_CLIENT_ID', required: true, description: 'Google OAuth client ID' },
   { name: 'GOOGLE_CLIENT_SECRET', required: true, minLength: 10, description: 'Google OAuth client secret' },
+  { name: 'GOOGLE_CALLBACK_URL', required: false, pattern: /^https?:\/\//, description: 'Google OAuth redirect URI (defaults to API_URL/api/auth/google/callback)' },
+
+  // Other sign-in providers (optional; each needs a client id and secret)
+  { name: 'GITHUB_CLIENT_ID', required: false, description: 'GitHub OAuth app client ID' },
+  { name: 'GITHUB_CLIENT_SECRET', required: false, description: 'GitHub OAuth app client secret' },
+  { name: 'MICROSOFT_CLIENT_ID', required: false, description: 'Microsoft Entra ID application (client) ID' },
+  { name: 'MICROSOFT_CLIENT_SECRET', required: false, description: 'Microsoft Entra ID client secret' },
+  { name: 'MICROSOFT_TENANT', required: false, description: 'Microsoft tenant ID or common/organizations/consumers (default common)' },
+  { name: 'OIDC_PROVIDERS', required: false, pattern: /^[a-z0-9,\s-]+$/i, description: 'Comma-separated ids of extra OIDC providers, each configured with OIDC_<ID>_ISSUER, _CLIENT_ID, _CLIENT_SECRET and optional _NAME, _SCOPES, _TRUST_EMAIL' },
 
   // External APIs
   { name: 'KIE_API_KEY', required: false, description: 'KIE API key for image generation' },
+  { name: 'CHAT_MAX_REPLY_TOKENS', required: false, pattern: /^[1-9]\d*$/, description: 'Longest web chat reply in tokens, held before each turn (default 8192)' },
+  { name: 'BATCH_CONCURRENCY', required: false, pattern: /^[1-9]\d*$/, description: 'Batch API requests sent to KIE at the same time (default 4)' },
+  { name: 'BATCH_MAX_FILE_MB', required: false, pattern: /^([1-9]\d?|100)$/, description: 'Largest batch input file in MB, 1-100 (default 20)' },
 
   // Email (SMTP)
   { name: 'SMTP_HOST', required: false, description: 'SMTP server host' },
   { name: 'SMTP_USER', required: false, description: 'SMTP username' },
   { name: 'SMTP_PASS', required: false, description: 'SMTP password' },
 
+  // Image storage
+  { name: 'STORAGE_SIGNING_SECRET', required: true, minLength: 32, description: 'Secret for signed image URLs (min 32 chars)' },
+  { name: 'STORAGE_DRIVER', required: false, pattern: /^(local|s3)$/, description: 'Image storage backend (local or s3)' },
+  { name: 'S3_ENDPOINT', required: false, pattern: /^https?:\/\//, description: 'S3-compatible endpoint URL' },
+  { name: 'S3_BUCKET', required: false, description: 'S3 bucket for generated images' },
+  { name: 'KV_STORE', required: false, pattern: /^(memory|postgres)$/, description: 'Shared store for lockouts, rate limits and OAuth state (memory or postgres)' },
+
   // URLs
+  { name: 'API_URL', required: false, pattern: /^https?:\/\//, description: 'Public base URL of this API (used in signed image URLs)' },
   { name: 'FRONTEND_URL', required: true, pattern: /^https?:\/\//, description: 'Frontend URL for redirects' },
   { name: 'ALLOWED_ORIGINS', required: true, description: 'Comma-separated allowed CORS origins' },
 ]
@@ -97,6 +120,7 @@ export function validateEnvironment(): void {
     const weakValues = [
       'your-super-secret-jwt-key',
       'default-api-key-pepper-change-in-production',
+      'default-secret-encryption-key',
       'password',
       '123456',
       'secret',
@@ -0,0 +1,115 @@
+/**
+ * Image header parsing
+ * Reads format and dimensions from the first bytes of PNG, JPEG, WebP and GIF files
+ */
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif'
+
+export interface ImageInfo {
+  format: ImageFormat
+  contentType: string
+  width: number | null
+  height: number | null
+}
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+}
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  gif: 'gif',
+}
+
+function info(format: ImageFormat, width: number | null, height: number | null): ImageInfo {
+  return { format, contentType: CONTENT_TYPES[format], width, height }
+}
+
+function readJpegSize(buffer: Buffer): { width: number; height: number } | null {
+  let offset = 2
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++
+      continue
+    }
+    const marker = buffer[offset + 1]
+    // Standalone markers carry no length
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2
+      continue
+    }
+    const length = buffer.readUInt16BE(offset + 2)
+    // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      }
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+function readWebpSize(buffer: Buffer): { width: number; height: number } | null {
+  const chunk = buffer.toString('ascii', 12, 16)
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    return {
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    }
+  }
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21)
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    }
+  }
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    return {
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+    }
+  }
+  return null
+}
+
+/**
+ * Detect the image format from magic bytes and read its dimensions
+ * Returns null when the buffer is not a supported image
+ */
+export function getImageInfo(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 12) return null
+
+  // PNG: 89 50 4E 47 0D 0A 1A 0A, IHDR width/height at 16/20
+  if (buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) {
+    if (buffer.length < 24) return info('png', null, null)
+    return info('png', buffer.readUInt32BE(16), buffer.readUInt32BE(20))
+  }
+
+  // JPEG: FF D8 FF
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    const size = readJpegSize(buffer)
+    return info('jpeg', size?.width ?? null, size?.height ?? null)
+  }
+
+  // WebP: RIFF....WEBP
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    const size = readWebpSize(buffer)
+    return info('webp', size?.width ?? null, size?.height ?? null)
+  }
+
+  // GIF: GIF87a / GIF89a, logical screen size at 6/8
+  const gifHeader = buffer.toString('ascii', 0, 6)
+  if (gifHeader === 'GIF87a' || gifHeader === 'GIF89a') {
+    return info('gif', buffer.readUInt16LE(6), buffer.readUInt16LE(8))
+  }
+
+  return null
+}
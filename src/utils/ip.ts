@@ -0,0 +1,53 @@
+import net from 'net'
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix (::ffff:1.2.3.4 → 1.2.3.4)
+ */
+export function normalizeIp(ip: string): string {
+  return ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '')
+}
+
+/**
+ * Parse a single address or CIDR range ("10.0.0.0/8", "2001:db8::/32")
+ */
+function parseIpRule(rule: string): { address: string; prefix: number; family: 'ipv4' | 'ipv6' } | null {
+  const [rawAddress, rawPrefix, ...rest] = rule.trim().split('/')
+  if (rest.length) return null
+
+  const address = normalizeIp(rawAddress)
+  const version = net.isIP(address)
+  if (!version) return null
+
+  const maxPrefix = version === 4 ? 32 : 128
+  if (rawPrefix !== undefined && !/^\d{1,3}$/.test(rawPrefix)) return null
+  const prefix = rawPrefix === undefined ? maxPrefix : parseInt(rawPrefix)
+  if (prefix > maxPrefix) return null
+
+  return { address, prefix, family: version === 4 ? 'ipv4' : 'ipv6' }
+}
+
+/**
+ * Check that a string is an IP address or CIDR range
+ */
+export function isValidIpRule(rule: string): boolean {
+  return parseIpRule(rule) !== null
+}
+
+/**
+ * Check an address against a list of addresses and CIDR ranges (IPv4 and IPv6)
+ * Invalid rules never match
+ */
+export function isIpAllowed(ip: string | undefined, rules: string[]): boolean {
+  if (!ip) return false
+
+  const address = normalizeIp(ip)
+  const version = net.isIP(address)
+  if (!version) return false
+
+  const blockList = new net.BlockList()
+  for (const rule of rules) {
+    const parsed = parseIpRule(rule)
+    if (parsed) blockList.addSubnet(parsed.address, parsed.prefix, parsed.family)
+  }
+  return blockList.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto'
 import jwt, { SignOptions, Algorithm } from 'jsonwebtoken'
 import { logger } from './logger'
 
@@ -16,10 +17,16 @@ if (process.env.NODE_ENV === 'production') {
   }
 }
 
+// Between password and second factor; signed with a derived key so it can never pass as an access token
+const TWO_FACTOR_CHALLENGE_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('2fa-challenge').digest('hex')
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m'
+
 export interface JwtPayload {
   userId: string
   email: string
   role: 'user' | 'admin'
+  sid?: string // Session the token was issued for
+  ver?: number // User tokenVersion at issue time
   iat?: number
   exp?: number
 }
@@ -66,6 +73,31 @@ export function verifyToken(token: string): JwtResult {
   }
 }
 
+/**
+ * Sign a short-lived token proving the password step of a 2FA login passed
+ */
+export function signTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ userId, purpose: '2fa' }, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+    algorithm: JWT_ALGORITHM,
+  })
+}
+
+/**
+ * Verify a 2FA challenge token
+ * Returns the user ID, or null when the token is invalid or expired
+ */
+export function verifyTwoFactorChallenge(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET, {
+      algorithms: [JWT_ALGORITHM],
+    }) as { userId?: string; purpose?: string }
+    return payload.purpose === '2fa' && payload.userId ? payload.userId : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Decode token without verification (for debugging)
  */
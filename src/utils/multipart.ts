@@ -0,0 +1,113 @@
+/**
+ * Minimal multipart/form-data parser
+ * Parses a fully buffered body (express.raw) into text fields and files, as sent by the OpenAI SDKs
+ */
+
+import { ValidationError } from '../errors/app.error'
+
+export interface MultipartFile {
+  fieldName: string
+  filename: string
+  contentType: string
+  data: Buffer
+}
+
+export interface MultipartForm {
+  fields: Record<string, string>
+  files: MultipartFile[]
+}
+
+const MAX_PARTS = 50
+const MAX_HEADER_BYTES = 8 * 1024
+const MAX_FIELD_BYTES = 64 * 1024
+
+const CRLF = Buffer.from('\r\n')
+const HEADER_END = Buffer.from('\r\n\r\n')
+
+/**
+ * Boundary from a multipart/form-data Content-Type header, or null for other content types
+ */
+export function getMultipartBoundary(contentType: string | undefined): string | null {
+  if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) return null
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType)
+  const boundary = match?.[1] ?? match?.[2]
+  return boundary && boundary.length <= 70 ? boundary : null
+}
+
+function parseHeaders(raw: string): { name: string; filename: string | null; contentType: string } {
+  let name: string | null = null
+  let filename: string | null = null
+  let contentType = 'text/plain'
+
+  for (const line of raw.split('\r\n')) {
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+    const header = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (header === 'content-disposition') {
+      name = /;\s*name="([^"]*)"/i.exec(value)?.[1] ?? /;\s*name=([^;\s]+)/i.exec(value)?.[1] ?? null
+      filename = /;\s*filename="([^"]*)"/i.exec(value)?.[1] ?? /;\s*filename=([^;\s]+)/i.exec(value)?.[1] ?? null
+    } else if (header === 'content-type') {
+      contentType = value.toLowerCase()
+    }
+  }
+
+  if (name === null) {
+    throw new ValidationError('Multipart part is missing a field name')
+  }
+  return { name, filename, contentType }
+}
+
+/**
+ * @throws ValidationError when the body is not well-formed
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartForm {
+  const delimiter = Buffer.from(`--${boundary}`)
+  const form: MultipartForm = { fields: {}, files: [] }
+
+  let position = body.indexOf(delimiter)
+  if (position === -1) {
+    throw new ValidationError('Multipart body does not contain the boundary')
+  }
+
+  for (let parts = 0; ; parts++) {
+    position += delimiter.length
+
+    // "--" after the delimiter closes the body
+    if (body[position] === 0x2d && body[position + 1] === 0x2d) break
+    if (!body.subarray(position, position + 2).equals(CRLF)) {
+      throw new ValidationError('Malformed multipart boundary')
+    }
+    if (parts >= MAX_PARTS) {
+      throw new ValidationError('Too many multipart parts')
+    }
+    position += CRLF.length
+
+    const headerEnd = body.indexOf(HEADER_END, position)
+    if (headerEnd === -1 || headerEnd - position > MAX_HEADER_BYTES) {
+      throw new ValidationError('Malformed multipart headers')
+    }
+    const headers = parseHeaders(body.subarray(position, headerEnd).toString('utf8'))
+
+    const dataStart = headerEnd + HEADER_END.length
+    const next = body.indexOf(Buffer.concat([CRLF, delimiter]), dataStart)
+    if (next === -1) {
+      throw new ValidationError('Multipart body ended early')
+    }
+    const data = body.subarray(dataStart, next)
+
+    if (headers.filename !== null) {
+      form.files.push({ fieldName: headers.name, filename: headers.filename, contentType: headers.contentType, data })
+    } else {
+      if (data.length > MAX_FIELD_BYTES) {
+        throw new ValidationError(`Field ${headers.name} is too large`)
+      }
+      form.fields[headers.name] = data.toString('utf8')
+    }
+
+    position = next + CRLF.length
+  }
+
+  return form
+}
@@ -0,0 +1,53 @@
+import { Response } from 'express'
+import { InsufficientQuotaError } from '../errors/app.error'
+
+export type OpenAIErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'permission_error'
+  | 'insufficient_quota'
+  | 'api_error'
+  | 'requests'
+  | 'tokens'
+
+/**
+ * Send an error in the OpenAI API envelope (used by /v1 routes)
+ */
+export function openaiError(
+  res: Response,
+  statusCode: number,
+  message: string,
+  type: OpenAIErrorType,
+  code: string,
+  param?: string
+): Response {
+  return res.status(statusCode).json({
+    error: {
+      message,
+      type,
+      ...(param && { param }),
+      code,
+    },
+  })
+}
+
+/**
+ * Send 404 model_not_found for an unknown or disabled model
+ */
+export function openaiModelNotFound(res: Response, model: string): Response {
+  return openaiError(
+    res,
+    404,
+    `The model \`${model}\` does not exist or you do not have access to it.`,
+    'invalid_request_error',
+    'model_not_found',
+    'model'
+  )
+}
+
+/**
+ * Send 402 insufficient_quota for a rejected credit reservation
+ */
+export function openaiQuotaError(res: Response, error: InsufficientQuotaError): Response {
+  return openaiError(res, 402, error.message, 'insufficient_quota', error.code)
+}
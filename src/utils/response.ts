@@ -64,6 +64,13 @@ export const response = {
     return this.error(res, message, 401)
   },
 
+  /**
+   * Send payment required error (402)
+   */
+  paymentRequired<T = unknown>(res: Response, message: string, data?: T): Response {
+    return this.error(res, message, 402, data)
+  },
+
   /**
    * Send forbidden error (403)
    */
@@ -0,0 +1,250 @@
+/**
+ * Offline token counting for the chat model families we proxy
+ *
+ * Upstream tokenizers are not bundled, so text is split the way BPE/SentencePiece
+ * pre-tokenizers do (words, digit runs, punctuation, whitespace) and each piece is
+ * priced with per-family ratios. Accurate to roughly ±10% on English and far closer
+ * than length/4 on Vietnamese and CJK. Billing prefers the upstream `usage` block
+ * whenever one is reported; see resolveTokenUsage.
+ */
+
+export type TokenizerFamily = 'gemini' | 'gpt' | 'claude'
+
+interface FamilyProfile {
+  // Characters per token inside an ASCII word
+  asciiCharsPerToken: number
+  // Characters per token inside a word with non-ASCII letters (Vietnamese diacritics, Cyrillic, ...)
+  nonAsciiCharsPerToken: number
+  // Tokens per CJK character
+  cjkTokensPerChar: number
+  // Digits merged into one token (Gemini splits every digit)
+  digitsPerToken: number
+  // Punctuation/symbol characters merged into one token
+  symbolsPerToken: number
+  // Chat framing added per message and once per reply
+  messageOverhead: number
+  replyPriming: number
+  // Flat cost of one image part (provider defaults for a ~1MP image)
+  imageTokens: number
+}
+
+const PROFILES: Record<TokenizerFamily, FamilyProfile> = {
+  gpt: {
+    asciiCharsPerToken: 6,
+    nonAsciiCharsPerToken: 2.5,
+    cjkTokensPerChar: 1,
+    digitsPerToken: 3,
+    symbolsPerToken: 2,
+    messageOverhead: 3,
+    replyPriming: 3,
+    imageTokens: 765,
+  },
+  claude: {
+    asciiCharsPerToken: 5,
+    nonAsciiCharsPerToken: 2,
+    cjkTokensPerChar: 1.2,
+    digitsPerToken: 3,
+    symbolsPerToken: 1.5,
+    messageOverhead: 4,
+    replyPriming: 3,
+    imageTokens: 1600,
+  },
+  gemini: {
+    asciiCharsPerToken: 6,
+    nonAsciiCharsPerToken: 3.5,
+    cjkTokensPerChar: 0.8,
+    digitsPerToken: 1,
+    symbolsPerToken: 2,
+    messageOverhead: 4,
+    replyPriming: 0,
+    imageTokens: 258,
+  },
+}
+
+// Pre-tokenizer: optional leading space + letters, digit runs, symbol runs, whitespace runs
+const SEGMENT_PATTERN = /\s?[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]+|\s+/gu
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+const NON_ASCII_PATTERN = /[^\x00-\x7f]/
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export interface UpstreamUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+  total_tokens?: number
+}
+
+export interface ResolvedTokenUsage extends TokenUsage {
+  source: 'upstream' | 'estimate'
+  estimated: TokenUsage
+  actual: TokenUsage | null
+}
+
+interface MessageLike {
+  role?: string
+  name?: string
+  content?: unknown
+  tool_calls?: unknown
+  tool_call_id?: string
+}
+
+interface ToolCallLike {
+  function?: { name?: string; arguments?: string }
+}
+
+// Framing around the tool definitions block and around each tool / generated call
+const TOOLS_BLOCK_OVERHEAD = 12
+const TOOL_OVERHEAD = 8
+const TOOL_CALL_OVERHEAD = 4
+
+/**
+ * Tokenizer family for a model id (defaults to Gemini, our primary upstream)
+ */
+export function getTokenizerFamily(model?: string): TokenizerFamily {
+  const id = (model || '').toLowerCase()
+  if (id.includes('claude')) return 'claude'
+  if (id.includes('gpt') || /^o\d/.test(id)) return 'gpt'
+  return 'gemini'
+}
+
+function countWord(word: string, profile: FamilyProfile): number {
+  const letters = word.trimStart()
+  const cjkCount = letters.match(CJK_PATTERN)?.length || 0
+  const rest = cjkCount ? letters.replace(CJK_PATTERN, '') : letters
+
+  let tokens = Math.ceil(cjkCount * profile.cjkTokensPerChar)
+  if (rest.length > 0) {
+    const charsPerToken = NON_ASCII_PATTERN.test(rest) ? profile.nonAsciiCharsPerToken : profile.asciiCharsPerToken
+    tokens += Math.ceil(rest.length / charsPerToken)
+  }
+  return Math.max(tokens, 1)
+}
+
+/**
+ * Token count of plain text for a model family
+ */
+export function countTextTokens(text: string, family: TokenizerFamily = 'gemini'): number {
+  if (!text) return 0
+  const profile = PROFILES[family]
+
+  let tokens = 0
+  for (const [segment] of text.normalize('NFC').matchAll(SEGMENT_PATTERN)) {
+    if (/^\s+$/.test(segment)) {
+      tokens += 1
+    } else if (/^\p{N}/u.test(segment)) {
+      tokens += Math.ceil(segment.length / profile.digitsPerToken)
+    } else if (/^\s?[\p{L}\p{M}]/u.test(segment)) {
+      tokens += countWord(segment, profile)
+    } else {
+      tokens += Math.ceil(segment.length / profile.symbolsPerToken)
+    }
+  }
+  return tokens
+}
+
+function countContentTokens(content: unknown, profile: FamilyProfile, family: TokenizerFamily): number {
+  if (content === null || content === undefined) return 0
+  if (typeof content === 'string') return countTextTokens(content, family)
+  if (!Array.isArray(content)) return countTextTokens(JSON.stringify(content), family)
+
+  let tokens = 0
+  for (const part of content as Array<Record<string, unknown>>) {
+    if (part?.type === 'text' && typeof part.text === 'string') {
+      tokens += countTextTokens(part.text, family)
+    } else if (part?.type === 'image_url' || part?.type === 'image') {
+      tokens += profile.imageTokens
+    } else {
+      tokens += countTextTokens(JSON.stringify(part), family)
+    }
+  }
+  return tokens
+}
+
+/**
+ * Prompt token count for a chat request, including image parts and message framing
+ */
+export function countMessageTokens(messages: MessageLike[], model?: string): number {
+  const family = getTokenizerFamily(model)
+  const profile = PROFILES[family]
+
+  let tokens = profile.replyPriming
+  for (const message of messages) {
+    tokens += profile.messageOverhead
+    tokens += countContentTokens(message.content, profile, family)
+    if (message.name) tokens += countTextTokens(message.name, family)
+    if (message.tool_calls) tokens += countTextTokens(JSON.stringify(message.tool_calls), family)
+    if (message.tool_call_id) tokens += countTextTokens(message.tool_call_id, family)
+  }
+  return tokens
+}
+
+/**
+ * Prompt tokens taken by tool definitions, which upstreams render into the prompt as JSON schemas
+ */
+export function countToolDefinitionTokens(tools: unknown, model?: string): number {
+  if (!Array.isArray(tools) || tools.length === 0) return 0
+  const family = getTokenizerFamily(model)
+
+  let tokens = TOOLS_BLOCK_OVERHEAD
+  for (const tool of tools) {
+    tokens += TOOL_OVERHEAD + countTextTokens(JSON.stringify(tool), family)
+  }
+  return tokens
+}
+
+/**
+ * Completion tokens of generated tool calls (function name and JSON arguments)
+ */
+export function countToolCallTokens(toolCalls: ToolCallLike[], family: TokenizerFamily = 'gemini'): number {
+  let tokens = 0
+  for (const call of toolCalls) {
+    tokens += TOOL_CALL_OVERHEAD
+    tokens += countTextTokens(call.function?.name || '', family)
+    tokens += countTextTokens(call.function?.arguments || '', family)
+  }
+  return tokens
+}
+
+/**
+ * Pick the counts to bill: upstream usage when reported, otherwise the local estimate
+ * Both are returned so they can be recorded side by side
+ */
+export function resolveTokenUsage(estimated: { inputTokens: number; outputTokens: number }, upstream?: UpstreamUsage | null): ResolvedTokenUsage {
+  const estimate: TokenUsage = {
+    inputTokens: estimated.inputTokens,
+    outputTokens: estimated.outputTokens,
+    totalTokens: estimated.inputTokens + estimated.outputTokens,
+  }
+
+  const reportedTotal = upstream?.total_tokens ?? ((upstream?.prompt_tokens ?? 0) + (upstream?.completion_tokens ?? 0))
+  if (!upstream || !reportedTotal) {
+    return { ...estimate, source: 'estimate', estimated: estimate, actual: null }
+  }
+
+  const actual: TokenUsage = {
+    inputTokens: upstream.prompt_tokens ?? 0,
+    outputTokens: upstream.completion_tokens ?? Math.max(reportedTotal - (upstream.prompt_tokens ?? 0), 0),
+    totalTokens: reportedTotal,
+  }
+  return { ...actual, source: 'upstream', estimated: estimate, actual }
+}
+
+/**
+ * Usage-log metadata describing how a chat call was counted
+ */
+export function tokenUsageMetadata(usage: ResolvedTokenUsage): Record<string, unknown> {
+  return {
+    tokens: usage.totalTokens,
+    tokenSource: usage.source,
+    estimatedTokens: usage.estimated.totalTokens,
+    estimatedInputTokens: usage.estimated.inputTokens,
+    estimatedOutputTokens: usage.estimated.outputTokens,
+    actualTokens: usage.actual?.totalTokens ?? null,
+    actualInputTokens: usage.actual?.inputTokens ?? null,
+    actualOutputTokens: usage.actual?.outputTokens ?? null,
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Tool (function) calling for /v1/chat/completions
+ *
+ * Requests are validated against the OpenAI message shapes before they go upstream.
+ * Responses are normalised back to those shapes: the Claude and Gemini upstreams can
+ * answer with `tool_use` content blocks, `functionCall` objects, object arguments,
+ * calls without ids or stream deltas without an index, and their own finish reasons.
+ */
+
+import crypto from 'crypto'
+
+export const MAX_TOOLS = 128
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/
+const MESSAGE_ROLES = ['system', 'developer', 'user', 'assistant', 'tool', 'function']
+const TOOL_CHOICE_MODES = ['none', 'auto', 'required']
+
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string
+  }
+}
+
+export interface ChatRequestError {
+  message: string
+  param: string
+  code: string
+}
+
+// Text and tool calls the model produced, for output token accounting
+export interface CompletionOutput {
+  text: string
+  toolCalls: ToolCall[]
+}
+
+// Finish reasons of the Claude (Messages) and Gemini upstreams mapped to OpenAI's
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'stop',
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  length: 'length',
+  max_tokens: 'length',
+  tool_calls: 'tool_calls',
+  tool_use: 'tool_calls',
+  function_call: 'tool_calls',
+  content_filter: 'content_filter',
+  safety: 'content_filter',
+  recitation: 'content_filter',
+}
+
+type Json = Record<string, unknown>
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const invalid = (message: string, param: string, code = 'invalid_value'): ChatRequestError => ({ message, param, code })
+
+/**
+ * Id for calls the upstream returned without one
+ */
+export function generateToolCallId(): string {
+  return `call_${crypto.randomBytes(12).toString('hex')}`
+}
+
+/**
+ * Check tools, tool_choice and parallel_tool_calls
+ */
+export function validateTools(body: { tools?: unknown; tool_choice?: unknown; parallel_tool_calls?: unknown }): ChatRequestError | null {
+  const { tools, tool_choice: toolChoice, parallel_tool_calls: parallel } = body
+  const names = new Set<string>()
+
+  if (tools !== undefined) {
+    if (!Array.isArray(tools)) {
+      return invalid('tools must be an array', 'tools', 'invalid_type')
+    }
+    if (tools.length > MAX_TOOLS) {
+      return invalid(`Too many tools (max ${MAX_TOOLS})`, 'tools')
+    }
+
+    for (const [i, tool] of tools.entries()) {
+      if (!isObject(tool) || tool.type !== 'function' || !isObject(tool.function)) {
+        return invalid("Each tool must be { type: 'function', function: { name, ... } }", `tools[${i}]`)
+      }
+      const { name, description, parameters } = tool.function
+      if (typeof name !== 'string' || !TOOL_NAME_PATTERN.test(name)) {
+        return invalid('Tool names must be 1-64 characters of a-z, A-Z, 0-9, underscores and dashes', `tools[${i}].function.name`)
+      }
+      if (names.has(name)) {
+        return invalid(`Duplicate tool name: ${name}`, `tools[${i}].function.name`)
+      }
+      names.add(name)
+      if (description !== undefined && typeof description !== 'string') {
+        return invalid('description must be a string', `tools[${i}].function.description`, 'invalid_type')
+      }
+      if (parameters !== undefined && !isObject(parameters)) {
+        return invalid('parameters must be a JSON Schema object', `tools[${i}].function.parameters`, 'invalid_type')
+      }
+    }
+  }
+
+  if (toolChoice !== undefined) {
+    if (!Array.isArray(tools) || tools.length === 0) {
+      return invalid('tool_choice is only allowed when tools are specified', 'tool_choice')
+    }
+    if (typeof toolChoice === 'string') {
+      if (!TOOL_CHOICE_MODES.includes(toolChoice)) {
+        return invalid(`tool_choice must be one of: ${TOOL_CHOICE_MODES.join(', ')}, or a function`, 'tool_choice')
+      }
+    } else if (!isObject(toolChoice) || toolChoice.type !== 'function' || !isObject(toolChoice.function)) {
+      return invalid("tool_choice must be a string or { type: 'function', function: { name } }", 'tool_choice')
+    } else if (!names.has(toolChoice.function.name as string)) {
+      return invalid(`tool_choice names a function that is not in tools: ${String(toolChoice.function.name)}`, 'tool_choice.function.name')
+    }
+  }
+
+  if (parallel !== undefined && typeof parallel !== 'boolean') {
+    return invalid('parallel_tool_calls must be a boolean', 'parallel_tool_calls', 'invalid_type')
+  }
+
+  return null
+}
+
+/**
+ * Check message roles and the tool-calling sequence: every assistant `tool_calls` entry
+ * must be answered by a `tool` message with its id before the conversation moves on
+ */
+export function validateToolMessages(messages: unknown[]): ChatRequestError | null {
+  let pending = new Set<string>()
+
+  for (const [i, message] of messages.entries()) {
+    if (!isObject(message) || typeof message.role !== 'string' || !MESSAGE_ROLES.includes(message.role)) {
+      return invalid(`role must be one of: ${MESSAGE_ROLES.join(', ')}`, `messages[${i}].role`)
+    }
+
+    if (message.role === 'tool') {
+      if (typeof message.tool_call_id !== 'string' || !message.tool_call_id) {
+        return invalid("Messages with role 'tool' must include tool_call_id", `messages[${i}].tool_call_id`)
+      }
+      if (!pending.delete(message.tool_call_id)) {
+        return invalid(
+          "Messages with role 'tool' must be a response to a preceding assistant message with a matching tool_calls id",
+          `messages[${i}].tool_call_id`
+        )
+      }
+      continue
+    }
+
+    if (pending.size > 0) {
+      return invalid(
+        `An assistant message with tool_calls must be followed by tool messages responding to each tool_call_id. Missing: ${[...pending].join(', ')}`,
+        `messages[${i}]`
+      )
+    }
+
+    if (message.tool_calls !== undefined) {
+      if (message.role !== 'assistant' || !Array.isArray(message.tool_calls) || message.tool_calls.length === 0) {
+        return invalid('tool_calls must be a non-empty array on an assistant message', `messages[${i}].tool_calls`)
+      }
+      pending = new Set()
+      for (const [j, call] of message.tool_calls.entries()) {
+        const param = `messages[${i}].tool_calls[${j}]`
+        if (!isObject(call) || typeof call.id !== 'string' || !call.id || !isObject(call.function)) {
+          return invalid('Each tool call needs an id and a function', param)
+        }
+        if (typeof call.function.name !== 'string' || !call.function.name) {
+          return invalid('Each tool call needs a function name', `${param}.function.name`)
+        }
+        const args = call.function.arguments
+        if (args !== undefined && typeof args !== 'string' && !isObject(args)) {
+          return invalid('arguments must be a JSON string', `${param}.function.arguments`, 'invalid_type')
+        }
+        pending.add(call.id)
+      }
+    } else if ((message.content === null || message.content === undefined) && !isObject(message.function_call)) {
+      // Only assistant tool-call messages may omit content
+      return invalid('content is required', `messages[${i}].content`)
+    }
+  }
+
+  if (pending.size > 0) {
+    return invalid(
+      `An assistant message with tool_calls must be followed by tool messages responding to each tool_call_id. Missing: ${[...pending].join(', ')}`,
+      'messages'
+    )
+  }
+
+  return null
+}
+
+/**
+ * Put assistant tool calls into the exact OpenAI shape before they go upstream
+ * (some SDKs send arguments as objects or leave out the type)
+ */
+export function normalizeRequestMessages<T>(messages: T[]): T[] {
+  return messages.map((message) => {
+    const m = message as Json
+    if (!Array.isArray(m.tool_calls)) return message
+    return {
+      ...m,
+      tool_calls: m.tool_calls.map((call: Json) => {
+        const fn = call.function as Json
+        return {
+          id: call.id,
+          type: 'function',
+          function: {
+            name: fn.name,
+            arguments: typeof fn.arguments === 'string' ? fn.arguments : JSON.stringify(fn.arguments ?? {}),
+          },
+        }
+      }),
+    } as T
+  })
+}
+
+/**
+ * OpenAI finish_reason for an upstream one; calls always finish with `tool_calls`
+ */
+export function normalizeFinishReason(reason: unknown, hasToolCalls: boolean): unknown {
+  if (typeof reason !== 'string') return reason
+  const mapped = FINISH_REASONS[reason.toLowerCase()] ?? reason
+  return hasToolCalls && mapped === 'stop' ? 'tool_calls' : mapped
+}
+
+const stringifyArguments = (args: unknown): string =>
+  args === undefined ? '' : typeof args === 'string' ? args : JSON.stringify(args)
+
+// Name and arguments from an OpenAI call, a Claude tool_use block or a Gemini functionCall
+function readCall(raw: Json): { id?: string; name?: string; args: unknown } {
+  const gemini = isObject(raw.functionCall) ? raw.functionCall : null
+  const fn = isObject(raw.function) ? raw.function : null
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : typeof gemini?.id === 'string' ? gemini.id : undefined,
+    name: (fn?.name ?? gemini?.name ?? raw.name) as string | undefined,
+    args: fn ? fn.arguments : gemini ? gemini.args : raw.input ?? raw.arguments,
+  }
+}
+
+function toToolCall(raw: Json): ToolCall {
+  const { id, name, args } = readCall(raw)
+  return {
+    id: id || generateToolCallId(),
+    type: 'function',
+    function: { name: name || '', arguments: stringifyArguments(args) || '{}' },
+  }
+}
+
+// Split Claude-style content blocks into text and tool_use calls
+function splitContentBlocks(content: unknown[]): { text: string; calls: Json[] } {
+  let text = ''
+  const calls: Json[] = []
+  for (const block of content) {
+    if (!isObject(block)) continue
+    if (block.type === 'text' && typeof block.text === 'string') text += block.text
+    else if (block.type === 'tool_use' || isObject(block.functionCall)) calls.push(block)
+  }
+  return { text, calls }
+}
+
+/**
+ * Normalise a non-streaming completion in place and return what the model produced
+ */
+export function normalizeChatCompletion(data: { choices?: unknown[] }): CompletionOutput {
+  const output: CompletionOutput = { text: '', toolCalls: [] }
+
+  for (const choice of data.choices ?? []) {
+    if (!isObject(choice) || !isObject(choice.message)) continue
+    const message = choice.message
+    const rawCalls: Json[] = Array.isArray(message.tool_calls) ? message.tool_calls.filter(isObject) : []
+
+    if (Array.isArray(message.content)) {
+      const { text, calls } = splitContentBlocks(message.content)
+      message.content = text
+      rawCalls.push(...calls)
+    }
+    if (isObject(message.function_call)) {
+      if (rawCalls.length === 0) rawCalls.push({ function: message.function_call })
+      delete message.function_call
+    }
+
+    if (rawCalls.length > 0) {
+      const calls = rawCalls.map(toToolCall)
+      message.tool_calls = calls
+      if (message.content === '') message.content = null
+      output.toolCalls.push(...calls)
+    }
+    if (typeof message.content === 'string') output.text += message.content
+
+    choice.finish_reason = normalizeFinishReason(choice.finish_reason, rawCalls.length > 0)
+  }
+
+  return output
+}
+
+interface StreamChoiceState {
+  text: string
+  calls: ToolCall[]
+  // Upstream id -> position, for deltas that carry an id but no index
+  positions: Map<string, number>
+}
+
+/**
+ * Reassembles streamed choices: text deltas and tool call fragments, which the GPT upstream
+ * spreads over many chunks and the Gemini/Claude upstreams may send whole, without an index
+ */
+export class ChatStreamAssembler {
+  private choices = new Map<number, StreamChoiceState>()
+
+  /**
+   * Normalise one parsed chunk in place and record its deltas
+   */
+  push(chunk: { choices?: unknown[] }): void {
+    for (const choice of chunk.choices ?? []) {
+      if (!isObject(choice)) continue
+      const state = this.choiceState(typeof choice.index === 'number' ? choice.index : 0)
+      const delta = isObject(choice.delta) ? choice.delta : null
+
+      if (delta) {
+        const rawCalls: Json[] = Array.isArray(delta.tool_calls) ? delta.tool_calls.filter(isObject) : []
+
+        if (Array.isArray(delta.content)) {
+          const { text, calls } = splitContentBlocks(delta.content)
+          delta.content = text
+          rawCalls.push(...calls)
+        }
+        if (typeof delta.content === 'string') state.text += delta.content
+
+        if (isObject(delta.function_call)) {
+          if (rawCalls.length === 0) rawCalls.push({ function: delta.function_call })
+          delete delta.function_call
+        }
+
+        if (rawCalls.length > 0) {
+          delta.tool_calls = rawCalls.map((raw) => this.mergeToolCall(state, raw))
+        }
+      }
+
+      if (choice.finish_reason !== undefined) {
+        choice.finish_reason = normalizeFinishReason(choice.finish_reason, state.calls.length > 0)
+      }
+    }
+  }
+
+  /**
+   * Tool calls assembled so far for one choice
+   */
+  toolCalls(choiceIndex = 0): ToolCall[] {
+    return this.choices.get(choiceIndex)?.calls.filter(Boolean) ?? []
+  }
+
+  /**
+   * Everything the model produced across all choices
+   */
+  get output(): CompletionOutput {
+    const output: CompletionOutput = { text: '', toolCalls: [] }
+    for (const state of this.choices.values()) {
+      output.text += state.text
+      output.toolCalls.push(...state.calls.filter(Boolean))
+    }
+    return output
+  }
+
+  private choiceState(index: number): StreamChoiceState {
+    let state = this.choices.get(index)
+    if (!state) {
+      state = { text: '', calls: [], positions: new Map() }
+      this.choices.set(index, state)
+    }
+    return state
+  }
+
+  // Fold one fragment into its call and return it as an OpenAI delta
+  private mergeToolCall(state: StreamChoiceState, raw: Json): Json {
+    const { id, name, args } = readCall(raw)
+
+    // Position: the upstream index, the call with this id, a new call, or a continuation of the last one
+    let position: number
+    if (typeof raw.index === 'number') position = raw.index
+    else if (id && state.positions.has(id)) position = state.positions.get(id)!
+    else if (id || name) position = state.calls.length
+    else position = Math.max(state.calls.length - 1, 0)
+
+    let call = state.calls[position]
+    const isNew = !call
+    if (!call) {
+      call = { id: id || generateToolCallId(), type: 'function', function: { name: name || '', arguments: '' } }
+      state.calls[position] = call
+      state.positions.set(call.id, position)
+    } else if (name && !call.function.name) {
+      call.function.name = name
+    }
+
+    const fragment = stringifyArguments(args)
+    call.function.arguments += fragment
+
+    return {
+      index: position,
+      ...(isNew ? { id: call.id, type: 'function' } : {}),
+      function: {
+        ...(isNew || name ? { name: call.function.name } : {}),
+        arguments: fragment,
+      },
+    }
+  }
+}
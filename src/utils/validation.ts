@@ -25,6 +25,20 @@ const SQL_PATTERNS = [
   /(\'|\"|;|`)/g,
 ]
 
+// Hosts a completion callback must never target (internal networks, cloud metadata)
+const BLOCKED_CALLBACK_HOSTS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /\.internal$/i,
+  /^127\./,
+  /^10\./,
+  /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
+  /^192\.168\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[/, // IPv6 literals
+]
+
 export const validate = {
   /**
    * Check if value is empty (null, undefined, empty string)
@@ -71,6 +85,21 @@ export const validate = {
     }
   },
 
+  /**
+   * Validate a client-supplied webhook URL (HTTPS, public host, no credentials)
+   */
+  isSafeCallbackUrl(value: string): boolean {
+    if (typeof value !== 'string' || value.length > 2048) return false
+    try {
+      const url = new URL(value)
+      if (url.protocol !== 'https:') return false
+      if (url.username || url.password) return false
+      return !BLOCKED_CALLBACK_HOSTS.some(pattern => pattern.test(url.hostname))
+    } catch {
+      return false
+    }
+  },
+
   /**
    * Sanitize string input (trim and limit length)
    */